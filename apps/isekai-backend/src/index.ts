@@ -25,6 +25,10 @@ import session from 'express-session';
 
 import { authRouter } from './routes/auth.js';
 import { deviationsRouter } from './routes/deviations.js';
+import { failedDeviationsRouter } from './routes/failed-deviations.js';
+import { postPublishActionsRouter } from './routes/post-publish-actions.js';
+import { webhooksRouter } from './routes/webhooks.js';
+import { publishingPolicyRouter } from './routes/publishing-policy.js';
 import { uploadsRouter } from './routes/uploads.js';
 import { deviantartRouter } from './routes/deviantart.js';
 import { browseRouter } from './routes/browse.js';
@@ -40,6 +44,7 @@ import { saleQueueRouter } from './routes/sale-queue.js';
 import { automationsRouter } from './routes/automations.js';
 import { automationScheduleRulesRouter } from './routes/automation-schedule-rules.js';
 import { automationDefaultValuesRouter } from './routes/automation-default-values.js';
+import { scheduleExceptionsRouter } from './routes/schedule-exceptions.js';
 import { adminRouter } from './routes/admin.js';
 import { configRouter } from './routes/config.js';
 import { errorHandler } from './middleware/error.js';
@@ -47,6 +52,7 @@ import { authMiddleware } from './middleware/auth.js';
 import { hybridAuthMiddleware } from './middleware/hybrid-auth.js';
 import { createSessionStore, closeSessionStore } from './lib/session-store.js';
 import { RedisClientManager } from './lib/redis-client.js';
+import { CircuitBreaker } from './lib/circuit-breaker.js';
 import { startHealthReporter } from './lib/health-reporter.js';
 import { env } from './lib/env.js';
 
@@ -99,8 +105,8 @@ async function startServer() {
       },
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-      exposedHeaders: ['Set-Cookie'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+      exposedHeaders: ['Set-Cookie', 'Idempotent-Replayed'],
       maxAge: 86400, // 24 hours
     })
   );
@@ -138,7 +144,11 @@ async function startServer() {
   app.use('/api/config', configRouter); // Whitelabel and instance config (public)
 
   // Protected routes
+  app.use('/api/deviations/failed', authMiddleware, failedDeviationsRouter); // Dead-letter inspection and replay (before /:id)
   app.use('/api/deviations', authMiddleware, deviationsRouter);
+  app.use('/api/post-publish-actions', authMiddleware, postPublishActionsRouter); // Scheduled edits/gallery moves for published deviations
+  app.use('/api/webhooks', authMiddleware, webhooksRouter); // Outbound webhook subscriptions and delivery log
+  app.use('/api/publishing-policy', authMiddleware, publishingPolicyRouter); // Daily cap, post gap and quiet hours
   app.use('/api/uploads', authMiddleware, uploadsRouter);
   app.use('/api/deviantart', authMiddleware, deviantartRouter);
   app.use('/api/browse', authMiddleware, browseRouter);
@@ -152,6 +162,7 @@ async function startServer() {
   app.use('/api/automations', authMiddleware, automationsRouter); // Automation management
   app.use('/api/automation-schedule-rules', authMiddleware, automationScheduleRulesRouter); // Automation schedule rules
   app.use('/api/automation-default-values', authMiddleware, automationDefaultValuesRouter); // Automation default values
+  app.use('/api/schedule-exceptions', authMiddleware, scheduleExceptionsRouter); // Blackout and extra posting days
   app.use('/api/comfyui', comfyuiRouter); // ComfyUI integration (uses apiKeyAuthMiddleware internally)
   app.use('/api/admin', adminRouter); // Admin routes (auth + admin role required internally)
 
@@ -173,6 +184,7 @@ async function startServer() {
   process.on('SIGTERM', async () => {
     server.close();
     await closeSessionStore(sessionStore);
+    await CircuitBreaker.close();
     await RedisClientManager.close();
     process.exit(0);
   });
@@ -180,6 +192,7 @@ async function startServer() {
   process.on('SIGINT', async () => {
     server.close();
     await closeSessionStore(sessionStore);
+    await CircuitBreaker.close();
     await RedisClientManager.close();
     process.exit(0);
   });
@@ -16,6 +16,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublishPriority } from '@isekai/shared';
 
 // Mock dependencies
 const mockPrismaDeviationFindMany = vi.fn();
@@ -189,7 +190,8 @@ describe('stuck-job-recovery', () => {
         'dev-456',
         'user-456',
         expect.any(Date),
-        'REPLACE'
+        'REPLACE',
+        PublishPriority.RECOVERY
       );
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Reset and queued retry'));
     });
@@ -20,6 +20,7 @@ import { prisma } from '../db/index.js';
 import { scheduleDeviation } from '../queues/deviation-publisher.js';
 import { PublisherAlerts } from '../lib/alerting.js';
 import type { Deviation, User } from '../db/index.js';
+import { PublishPriority } from '@isekai/shared';
 
 /**
  * Stuck Job Recovery System
@@ -245,7 +246,13 @@ async function resetAndRetry(deviation: DeviationWithUser): Promise<void> {
 
   // Re-queue job with 1 minute delay
   const retryAt = new Date(Date.now() + 60000);
-  await scheduleDeviation(deviation.id, deviation.userId, retryAt, deviation.uploadMode);
+  await scheduleDeviation(
+    deviation.id,
+    deviation.userId,
+    retryAt,
+    deviation.uploadMode,
+    PublishPriority.RECOVERY
+  );
 
   console.log(`[Stuck Job Recovery] Retry queued for ${deviation.id}`);
 }
@@ -22,6 +22,7 @@ import {
   withCircuitBreaker,
   type CircuitBreakerConfig,
 } from './circuit-breaker.js';
+import { createRedisMock } from '../test-helpers/redis-mock.js';
 
 // Mock dependencies
 vi.mock('./redis-client.js', () => ({
@@ -39,15 +40,10 @@ import { RedisClientManager } from './redis-client.js';
 const mockRedisClientManager = vi.mocked(RedisClientManager);
 
 describe('circuit-breaker', () => {
-  const mockRedisClient = {
-    get: vi.fn(),
-    setex: vi.fn(),
-  };
-
   beforeEach(() => {
     vi.clearAllMocks();
+    mockRedisClientManager.getClient.mockResolvedValue(null);
     CircuitBreaker.resetAll();
-    mockRedisClientManager.getClient.mockResolvedValue(mockRedisClient as any);
     delete process.env.CIRCUIT_BREAKER_ENABLED;
     delete process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS;
     delete process.env.CIRCUIT_BREAKER_THRESHOLD;
@@ -218,16 +214,17 @@ describe('circuit-breaker', () => {
 
     it('should persist to Redis when enabled', async () => {
       process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
+      const redis = createRedisMock();
+      mockRedisClientManager.getClient.mockResolvedValue(redis);
 
-      const key = 'test-circuit';
+      const key = 'success-circuit';
       await CircuitBreaker.recordFailure(key);
       await CircuitBreaker.recordSuccess(key);
 
-      expect(mockRedisClient.setex).toHaveBeenCalledWith(
-        `circuit:${key}`,
-        expect.any(Number),
-        expect.any(String)
-      );
+      const data = await redis.hgetall(`circuit_breaker:${key}`);
+      expect(data.state).toBe(CircuitState.CLOSED);
+      expect(Number(data.failures)).toBe(0);
+      await CircuitBreaker.close();
     });
 
     it('should not change state if already CLOSED', async () => {
@@ -265,14 +262,14 @@ describe('circuit-breaker', () => {
 
     it('should persist to Redis when enabled', async () => {
       process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
+      const redis = createRedisMock();
+      mockRedisClientManager.getClient.mockResolvedValue(redis);
 
-      await CircuitBreaker.recordFailure('test-circuit');
+      await CircuitBreaker.recordFailure('failure-circuit');
 
-      expect(mockRedisClient.setex).toHaveBeenCalledWith(
-        'circuit:test-circuit',
-        expect.any(Number),
-        expect.any(String)
-      );
+      const data = await redis.hgetall('circuit_breaker:failure-circuit');
+      expect(Number(data.failures)).toBe(1);
+      await CircuitBreaker.close();
     });
 
     it('should use custom config', async () => {
@@ -450,56 +447,51 @@ describe('circuit-breaker', () => {
   });
 
   describe('Redis persistence', () => {
-    it('should load circuit from Redis', async () => {
+    let redis: ReturnType<typeof createRedisMock>;
+
+    beforeEach(async () => {
       process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
+      redis = createRedisMock();
+      await redis.flushall();
+      mockRedisClientManager.getClient.mockResolvedValue(redis);
+    });
 
-      const savedCircuit = {
+    afterEach(async () => {
+      await CircuitBreaker.close();
+    });
+
+    it('should read circuits opened by other processes', async () => {
+      await redis.hset('circuit_breaker:persisted-circuit', {
         state: CircuitState.OPEN,
         failures: 5,
         lastFailureTime: Date.now(),
         halfOpenAttempts: 0,
-        config: {
-          failureThreshold: 3,
-          openDuration: 300000,
-          halfOpenMaxAttempts: 1,
-        },
-      };
-
-      mockRedisClient.get.mockResolvedValue(JSON.stringify(savedCircuit));
+        openDuration: 300000,
+        expiresAt: Date.now() + 360000,
+      });
 
       const allowed = await CircuitBreaker.shouldAllowRequest('persisted-circuit');
 
-      expect(mockRedisClient.get).toHaveBeenCalledWith('circuit:persisted-circuit');
       expect(allowed).toBe(false); // OPEN circuit
+      expect(CircuitBreaker.getStatus('persisted-circuit')?.failures).toBe(5);
     });
 
-    it('should handle Redis load errors', async () => {
-      process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
-      mockRedisClient.get.mockRejectedValue(new Error('Redis error'));
-
-      // Should create new circuit instead
-      const allowed = await CircuitBreaker.shouldAllowRequest('test-circuit');
-      expect(allowed).toBe(true);
-      expect(console.error).toHaveBeenCalled();
-    });
-
-    it('should handle Redis save errors', async () => {
-      process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
-      mockRedisClient.setex.mockRejectedValue(new Error('Redis error'));
+    it('should fall back to memory on Redis errors', async () => {
+      redis.eval = vi.fn().mockRejectedValue(new Error('Redis error')) as any;
 
       await CircuitBreaker.recordFailure('test-circuit');
 
+      expect(CircuitBreaker.getStatus('test-circuit')?.failures).toBe(1);
       expect(console.error).toHaveBeenCalled();
     });
 
-    it('should not persist when Redis client unavailable', async () => {
-      process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
+    it('should use memory when Redis client unavailable', async () => {
       mockRedisClientManager.getClient.mockResolvedValue(null);
 
       await CircuitBreaker.recordFailure('test-circuit');
 
-      // Should not throw
-      expect(mockRedisClient.setex).not.toHaveBeenCalled();
+      expect(CircuitBreaker.getStatus('test-circuit')?.failures).toBe(1);
+      expect(await redis.keys('circuit_breaker:*')).toEqual([]);
     });
 
     it('should not persist when disabled', async () => {
@@ -507,30 +499,27 @@ describe('circuit-breaker', () => {
 
       await CircuitBreaker.recordFailure('test-circuit');
 
-      expect(mockRedisClient.setex).not.toHaveBeenCalled();
+      expect(await redis.keys('circuit_breaker:*')).toEqual([]);
     });
 
-    it('should calculate correct TTL for Redis', async () => {
-      process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
-
+    it('should expire circuits a minute after the open duration', async () => {
       const config = { openDuration: 5 * 60 * 1000 }; // 5 minutes
 
       await CircuitBreaker.recordFailure('test-circuit', config);
 
-      expect(mockRedisClient.setex).toHaveBeenCalledWith(
-        'circuit:test-circuit',
-        360, // (5 * 60) + 60 seconds
-        expect.any(String)
-      );
+      const ttl = await redis.pttl('circuit_breaker:test-circuit');
+      expect(ttl).toBeGreaterThan(5 * 60 * 1000);
+      expect(ttl).toBeLessThanOrEqual(6 * 60 * 1000);
     });
 
-    it('should handle null data from Redis', async () => {
-      process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'true';
-      mockRedisClient.get.mockResolvedValue(null);
+    it('should reset circuits in Redis', async () => {
+      await CircuitBreaker.recordFailure('test-circuit', { failureThreshold: 1 });
 
-      // Should create new circuit
-      const allowed = await CircuitBreaker.shouldAllowRequest('test-circuit');
-      expect(allowed).toBe(true);
+      await CircuitBreaker.reset('test-circuit');
+
+      const data = await redis.hgetall('circuit_breaker:test-circuit');
+      expect(data.state).toBe(CircuitState.CLOSED);
+      expect(await CircuitBreaker.shouldAllowRequest('test-circuit')).toBe(true);
     });
   });
 
@@ -0,0 +1,63 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { copyDeviationsToFolder, moveDeviationsToFolder } from './deviantart-gallery.js';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const mockFetch = vi.mocked(global.fetch);
+
+describe('deviantart-gallery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should post target folder and deviation IDs when copying', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ success: true }),
+    } as any);
+
+    const result = await copyDeviationsToFolder('token', 'folder-1', ['dev-1', 'dev-2']);
+
+    expect(result).toEqual({ success: true });
+    const [url, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain('/gallery/folders/copy_deviations');
+    expect(options.headers).toMatchObject({ Authorization: 'Bearer token' });
+    expect(options.body).toBe(
+      'target_folderid=folder-1&deviationids%5B%5D=dev-1&deviationids%5B%5D=dev-2'
+    );
+  });
+
+  it('should throw with the DeviantArt status when moving fails', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 429,
+      text: vi.fn().mockResolvedValue(''),
+      headers: new Headers({ 'Retry-After': '60' }),
+    } as any);
+
+    await expect(moveDeviationsToFolder('token', 'folder-1', ['dev-1'])).rejects.toMatchObject({
+      message: 'Failed to move deviations',
+      status: 429,
+      retryAfter: '60',
+    });
+    expect(mockFetch.mock.calls[0][0]).toContain('/gallery/folders/move_deviations');
+  });
+});
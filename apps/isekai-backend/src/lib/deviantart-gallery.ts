@@ -0,0 +1,94 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { getDeviantArtEndpoints } from '@isekai/shared';
+import { fetchDeviantArt } from './deviantart-quota.js';
+
+const { apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
+
+/**
+ * POST deviation IDs to a gallery folder endpoint
+ * Throws an error carrying the HTTP status so routes and queue jobs can handle it
+ */
+async function postDeviationsToFolder(
+  accessToken: string,
+  endpoint: string,
+  targetFolderId: string,
+  deviationIds: string[],
+  fallbackMessage: string
+): Promise<any> {
+  const formData = new URLSearchParams();
+  formData.append('target_folderid', targetFolderId);
+  deviationIds.forEach((id) => formData.append('deviationids[]', id));
+
+  const response = await fetchDeviantArt(
+    `${DEVIANTART_API_URL}${endpoint}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData.toString(),
+    },
+    'standard'
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const error: any = new Error(errorText || fallbackMessage);
+    error.status = response.status;
+    error.retryAfter = response.headers?.get('Retry-After');
+    throw error;
+  }
+
+  return await response.json();
+}
+
+/**
+ * Copy deviations into a gallery folder (keeps existing folders)
+ */
+export async function copyDeviationsToFolder(
+  accessToken: string,
+  targetFolderId: string,
+  deviationIds: string[]
+): Promise<any> {
+  return postDeviationsToFolder(
+    accessToken,
+    '/gallery/folders/copy_deviations',
+    targetFolderId,
+    deviationIds,
+    'Failed to copy deviations'
+  );
+}
+
+/**
+ * Move deviations into a gallery folder
+ */
+export async function moveDeviationsToFolder(
+  accessToken: string,
+  targetFolderId: string,
+  deviationIds: string[]
+): Promise<any> {
+  return postDeviationsToFolder(
+    accessToken,
+    '/gallery/folders/move_deviations',
+    targetFolderId,
+    deviationIds,
+    'Failed to move deviations'
+  );
+}
@@ -0,0 +1,85 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createRedisMock } from '../test-helpers/redis-mock.js';
+
+vi.mock('./redis-client.js', () => ({
+  RedisClientManager: {
+    getClient: vi.fn(),
+  },
+}));
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+global.fetch = vi.fn();
+
+import { RedisClientManager } from './redis-client.js';
+import { fetchDeviantArt, getDeviantArtQuotaStatus } from './deviantart-quota.js';
+
+const mockFetch = vi.mocked(global.fetch);
+
+describe('deviantart-quota', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const redis = createRedisMock();
+    await redis.flushall();
+    vi.mocked(RedisClientManager.getClient).mockResolvedValue(redis);
+  });
+
+  it('should call DeviantArt and count the request', async () => {
+    mockFetch.mockResolvedValue(new Response('{}', { status: 200 }));
+
+    const response = await fetchDeviantArt(
+      'https://www.deviantart.com/api/v1/oauth2/browse/tags',
+      undefined,
+      'browse'
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const status = await getDeviantArtQuotaStatus();
+    expect(status.requests.browse.granted).toBe(1);
+  });
+
+  it('should return a synthetic 429 without calling DeviantArt while rate limited', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response('{}', { status: 429, headers: { 'Retry-After': '30' } })
+    );
+    await fetchDeviantArt(
+      'https://www.deviantart.com/api/v1/oauth2/gallery/folders',
+      undefined,
+      'standard'
+    );
+
+    const response = await fetchDeviantArt(
+      'https://www.deviantart.com/api/v1/oauth2/browse/tags',
+      undefined,
+      'browse'
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect(await response.json()).toMatchObject({ error: 'api_threshold' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    const status = await getDeviantArtQuotaStatus();
+    expect(status.rateLimitHits).toBe(1);
+    expect(status.requests.browse.denied).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * App-wide DeviantArt quota for API server calls
+ *
+ * Wraps `fetch` so browse, gallery and metadata calls take a token from the bucket
+ * shared with the publisher workers (see `DeviantArtQuota` in `@isekai/shared`).
+ * When no token is available the call isn't made; a synthetic 429 is returned instead,
+ * so existing rate limit handling (stale cache, 429 to the client) applies unchanged.
+ */
+
+import {
+  DeviantArtQuota,
+  parseRetryAfterMs,
+  type DeviantArtQuotaPriority,
+  type DeviantArtQuotaStatus,
+} from '@isekai/shared';
+import { RedisClientManager } from './redis-client.js';
+
+async function getQuota(): Promise<DeviantArtQuota> {
+  return new DeviantArtQuota(await RedisClientManager.getClient());
+}
+
+/**
+ * Call DeviantArt within the app-wide quota
+ */
+export async function fetchDeviantArt(
+  url: string,
+  init: RequestInit | undefined,
+  priority: DeviantArtQuotaPriority
+): Promise<Response> {
+  const quota = await getQuota();
+  const check = await quota.tryAcquire(priority);
+
+  if (!check.allowed) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((check.waitMs ?? 0) / 1000));
+    console.log(
+      `[DeviantArtQuota] ${priority} call held back (${check.reason}), retry in ${retryAfterSeconds}s`
+    );
+    return new Response(
+      JSON.stringify({
+        error: 'api_threshold',
+        error_description: 'Application-wide DeviantArt quota exhausted, try again later',
+        status: 'error',
+      }),
+      {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfterSeconds) },
+      }
+    );
+  }
+
+  const response = await fetch(url, init);
+
+  if (response.status === 429) {
+    await quota.recordRateLimited(parseRetryAfterMs(response.headers?.get('Retry-After')));
+  }
+
+  return response;
+}
+
+/**
+ * Current app-wide quota state (for monitoring)
+ */
+export async function getDeviantArtQuotaStatus(): Promise<DeviantArtQuotaStatus> {
+  const quota = await getQuota();
+  return quota.getStatus();
+}
@@ -17,6 +17,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { User, Deviation, DeviationFile } from '../db/index.js';
+import { encryptToken, decryptToken } from '@isekai/shared';
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -216,10 +219,41 @@ describe('deviantart', () => {
       expect(mockPrisma.user.update).toHaveBeenCalledWith({
         where: { id: 'user-1' },
         data: expect.objectContaining({
-          accessToken: 'new-access-token',
-          refreshToken: 'new-refresh-token',
+          accessToken: expect.stringMatching(/^enc:v1:/),
+          refreshToken: expect.stringMatching(/^enc:v1:/),
         }),
       });
+
+      const updateCall = mockPrisma.user.update.mock.calls[0][0];
+      expect(decryptToken(updateCall.data.accessToken as string)).toBe('new-access-token');
+      expect(decryptToken(updateCall.data.refreshToken as string)).toBe('new-refresh-token');
+    });
+
+    it('should decrypt stored tokens before using them', async () => {
+      const validUser = {
+        id: 'user-1',
+        accessToken: encryptToken('existing-token'),
+        tokenExpiresAt: new Date('2025-01-15T13:00:00Z'),
+        refreshToken: encryptToken('refresh-token'),
+        refreshTokenExpiresAt: new Date('2025-03-15T12:00:00Z'),
+      } as User;
+
+      expect(await refreshTokenIfNeeded(validUser)).toBe('existing-token');
+
+      const expiringUser = { ...validUser, tokenExpiresAt: new Date('2025-01-15T12:03:00Z') };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          access_token: 'new-access-token',
+          refresh_token: 'new-refresh-token',
+          expires_in: 3600,
+        }),
+      } as Response);
+
+      await refreshTokenIfNeeded(expiringUser);
+
+      const body = mockFetch.mock.calls[0][1]!.body as URLSearchParams;
+      expect(body.get('refresh_token')).toBe('refresh-token');
     });
 
     it('should calculate correct token expiry time', async () => {
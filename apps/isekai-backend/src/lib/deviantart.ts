@@ -18,13 +18,19 @@
 import { prisma } from '../db/index.js';
 import { GetObjectCommand } from '@aws-sdk/client-s3';
 import type { User, Deviation, DeviationFile } from '../db/index.js';
-import type { UploadMode } from '@isekai/shared';
+import {
+  encryptToken,
+  decryptToken,
+  getDeviantArtEndpoints,
+  sanitizeTag,
+  type UploadMode,
+  type MetadataUpdatePayload,
+} from '@isekai/shared';
 import { getS3Client, getStorageConfig } from '@isekai/shared/storage';
 import { logger } from './logger.js';
 import { env } from './env.js';
 
-const DEVIANTART_TOKEN_URL = 'https://www.deviantart.com/oauth2/token';
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+const { tokenUrl: DEVIANTART_TOKEN_URL, apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 // Get S3 client and config from shared storage module
 const s3Client = getS3Client();
@@ -47,7 +53,7 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
 
   // Check if access token is still valid
   if (user.tokenExpiresAt > fiveMinutesFromNow) {
-    return user.accessToken;
+    return decryptToken(user.accessToken);
   }
 
   logger.info('Refreshing DeviantArt access token', { userId: user.id });
@@ -59,7 +65,7 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
       grant_type: 'refresh_token',
       client_id: process.env.DEVIANTART_CLIENT_ID!,
       client_secret: process.env.DEVIANTART_CLIENT_SECRET!,
-      refresh_token: user.refreshToken,
+      refresh_token: decryptToken(user.refreshToken),
     }),
   });
 
@@ -101,8 +107,8 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
   await prisma.user.update({
     where: { id: user.id },
     data: {
-      accessToken: access_token,
-      refreshToken: refresh_token,
+      accessToken: encryptToken(access_token),
+      refreshToken: encryptToken(refresh_token),
       tokenExpiresAt,
       refreshTokenExpiresAt,
       lastRefreshTokenRefresh: new Date(),
@@ -337,9 +343,7 @@ async function uploadSingleFileToDeviantArt(
 
   // Sanitize and add tags as array with brackets (replace spaces with underscores, DeviantArt allows only letters/numbers/underscore)
   if (deviation.tags && deviation.tags.length > 0) {
-    const sanitizedTags = deviation.tags
-      .map((tag) => tag.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, ''))
-      .filter((tag) => tag.length > 0);
+    const sanitizedTags = deviation.tags.map(sanitizeTag).filter((tag) => tag.length > 0);
 
     if (sanitizedTags.length > 0) {
       // Send as array with brackets (don't encode the brackets): tags[]=dog&tags[]=cat
@@ -518,3 +522,92 @@ export async function publishToDeviantArt(
     );
   }
 }
+
+/**
+ * Post a comment on a published deviation as its owner
+ */
+export async function postDeviationComment(
+  user: User,
+  deviantArtDeviationId: string,
+  body: string
+): Promise<{ commentId: string }> {
+  const accessToken = await refreshTokenIfNeeded(user);
+
+  const response = await fetch(
+    `${DEVIANTART_API_URL}/comments/post/deviation/${encodeURIComponent(deviantArtDeviationId)}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ body }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const retryAfter = response.headers.get('Retry-After');
+
+    const error: any = new Error(
+      response.status === 429
+        ? `DeviantArt API rate limit exceeded. Retry after ${retryAfter ?? 'unknown'} seconds.`
+        : `DeviantArt comment error: ${response.status} ${errorText}`
+    );
+    error.status = response.status;
+    error.retryAfter = retryAfter;
+    error.responseBody = errorText;
+    throw error;
+  }
+
+  const result = (await response.json()) as { commentid: string };
+  return { commentId: result.commentid };
+}
+
+/**
+ * Update title, tags or description of a published deviation
+ * Only the fields present in metadata are sent
+ */
+export async function updateDeviationMetadata(
+  user: User,
+  deviantArtDeviationId: string,
+  metadata: MetadataUpdatePayload
+): Promise<void> {
+  const accessToken = await refreshTokenIfNeeded(user);
+
+  const formData = new URLSearchParams();
+  if (metadata.title !== undefined) {
+    formData.append('title', metadata.title);
+  }
+  if (metadata.description !== undefined) {
+    formData.append('artist_comments', metadata.description);
+  }
+  metadata.tags?.forEach((tag) => formData.append('tags[]', tag));
+
+  const response = await fetch(
+    `${DEVIANTART_API_URL}/deviation/edit/${encodeURIComponent(deviantArtDeviationId)}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData,
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const retryAfter = response.headers.get('Retry-After');
+
+    const error: any = new Error(
+      response.status === 429
+        ? `DeviantArt API rate limit exceeded. Retry after ${retryAfter ?? 'unknown'} seconds.`
+        : `DeviantArt edit error: ${response.status} ${errorText}`
+    );
+    error.status = response.status;
+    error.retryAfter = retryAfter;
+    error.responseBody = errorText;
+    throw error;
+  }
+}
@@ -0,0 +1,36 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRequestActor } from './deviation-events.js';
+
+describe('getRequestActor', () => {
+  it('should attribute session requests to the user', () => {
+    const req = { user: { id: 'user-123' } } as any;
+
+    expect(getRequestActor(req)).toEqual({ type: 'user', id: 'user-123' });
+  });
+
+  it('should attribute API key requests to the key', () => {
+    const req = {
+      user: { id: 'user-123' },
+      apiKeyAuth: { apiKeyId: 'key-456', userId: 'user-123' },
+    } as any;
+
+    expect(getRequestActor(req)).toEqual({ type: 'api_key', id: 'key-456' });
+  });
+});
@@ -0,0 +1,30 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { Request } from 'express';
+import type { DeviationEventActor } from '@isekai/shared';
+
+/**
+ * Resolve the actor for deviation events caused by an API request.
+ * API key requests are attributed to the key, session requests to the user.
+ */
+export function getRequestActor(req: Request): DeviationEventActor {
+  if (req.apiKeyAuth) {
+    return { type: 'api_key', id: req.apiKeyAuth.apiKeyId };
+  }
+  return { type: 'user', id: req.user!.id };
+}
@@ -26,6 +26,10 @@ const envSchema = z.object({
   DEVIANTART_CLIENT_ID: z.string().min(1, 'DEVIANTART_CLIENT_ID is required'),
   DEVIANTART_CLIENT_SECRET: z.string().min(1, 'DEVIANTART_CLIENT_SECRET is required'),
   DEVIANTART_REDIRECT_URI: z.string().url('DEVIANTART_REDIRECT_URI must be a valid URL'),
+  // DeviantArt endpoint overrides (defaults to deviantart.com; point at a local fake for tests)
+  DEVIANTART_API_URL: z.string().url().optional(),
+  DEVIANTART_TOKEN_URL: z.string().url().optional(),
+  DEVIANTART_AUTH_URL: z.string().url().optional(),
 
   // S3-Compatible Storage (supports AWS S3, Cloudflare R2, MinIO, etc.)
   S3_ENDPOINT: z.string().optional(), // Optional for AWS S3
@@ -54,6 +58,7 @@ const envSchema = z.object({
     .string()
     .length(64, 'ENCRYPTION_KEY must be 64 characters (32 bytes hex)')
     .optional(),
+  ENCRYPTION_KEY_PREVIOUS: z.string().optional(), // Comma-separated retired keys, kept for decryption during rotation
 
   // Cache Configuration
   CACHE_ENABLED: z.coerce.boolean().default(true),
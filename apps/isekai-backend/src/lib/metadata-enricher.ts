@@ -16,8 +16,10 @@
  */
 
 import { logger } from './logger.js';
+import { fetchDeviantArt } from './deviantart-quota.js';
+import { getDeviantArtEndpoints } from '@isekai/shared';
 
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+const { apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 export interface BrowseDeviation {
   deviationId: string;
@@ -101,9 +103,13 @@ async function enrichBatch(
     params.set('ext_stats', 'true');
     params.set('ext_submission', 'true');
 
-    const response = await fetch(`${DEVIANTART_API_URL}/deviation/metadata?${params}`, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/deviation/metadata?${params}`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+      'browse'
+    );
 
     if (!response.ok) {
       logger.warn('DeviantArt metadata enrichment API failed', {
@@ -94,6 +94,43 @@ describe('publisher-metrics', () => {
 
       expect(collector).toBeDefined(); // Internal tracking works
     });
+
+    it('should count started jobs per priority lane', () => {
+      const collector = new PublisherMetricsCollector(null);
+      collector.recordJobStart('job-1', 'dev-1', 'interactive');
+      collector.recordJobStart('job-2', 'dev-2', 'automation');
+      collector.recordJobStart('job-3', 'dev-3', 'automation');
+      collector.recordJobStart('job-4', 'dev-4');
+
+      expect(collector.getMetrics().jobsByLane).toEqual({ interactive: 1, automation: 2 });
+      expect(collector.exportPrometheusFormat()).toContain(
+        'publisher_jobs_started_total{lane="automation"} 2'
+      );
+    });
+
+    it('should break down jobs per user', () => {
+      const collector = new PublisherMetricsCollector(null);
+      collector.recordJobStart('job-1', 'dev-1', 'automation', 'user-1');
+      collector.recordJobStart('job-2', 'dev-2', 'automation', 'user-1');
+      collector.recordJobStart('job-3', 'dev-3', 'interactive', 'user-2');
+      collector.recordJobSuccess('job-1', 1000);
+      collector.recordJobFailure(
+        'job-2',
+        { category: ErrorCategory.NETWORK, message: 'timeout' } as any,
+        500
+      );
+      collector.recordUserDeferral('user-1');
+      collector.recordRateLimitHit('user-2', 5000);
+
+      const metrics = collector.getMetrics();
+      expect(metrics.jobsByUser).toEqual({
+        'user-1': { started: 2, succeeded: 1, failed: 1, deferred: 1, rateLimitHits: 0 },
+        'user-2': { started: 1, succeeded: 0, failed: 0, deferred: 0, rateLimitHits: 1 },
+      });
+      expect(collector.exportPrometheusFormat()).toContain(
+        'publisher_user_jobs_total{user_id="user-1",event="deferred"} 1'
+      );
+    });
   });
 
   describe('recordJobSuccess', () => {
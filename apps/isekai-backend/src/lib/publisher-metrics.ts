@@ -23,10 +23,13 @@
  * - Latency percentiles
  * - Error distribution
  * - Queue health
+ * - Jobs per priority lane
+ * - Per-user breakdown (to spot users taking most of the worker capacity)
  * - Rate limit hits
  */
 
 import type { Redis } from 'ioredis';
+import type { PublishLane } from '@isekai/shared';
 import { ErrorCategory } from './error-categorizer.js';
 import type { CategorizedError } from './error-categorizer.js';
 
@@ -46,6 +49,8 @@ export interface PublisherMetrics {
   };
 
   errorsByCategory: Record<string, number>;
+  jobsByLane: Record<string, number>; // Jobs started per priority lane
+  jobsByUser: Record<string, UserJobMetrics>;
   rateLimitHits: number;
   circuitBreakerOpenCount: number;
 
@@ -61,9 +66,19 @@ export interface PublisherMetrics {
   collectedAt: string;
 }
 
+export interface UserJobMetrics {
+  started: number;
+  succeeded: number;
+  failed: number;
+  deferred: number; // Deferred because the user was at the per-user concurrency limit
+  rateLimitHits: number;
+}
+
 interface JobRecord {
   jobId: string;
   deviationId: string;
+  userId?: string;
+  lane?: PublishLane;
   startTime: number;
   endTime?: number;
   latencyMs?: number;
@@ -81,6 +96,8 @@ export class PublisherMetricsCollector {
   private jobRecords: Map<string, JobRecord>;
   private latencies: number[];
   private errorCounts: Map<ErrorCategory, number>;
+  private laneCounts: Map<PublishLane, number>;
+  private userStats: Map<string, UserJobMetrics>;
   private successCount: number;
   private failureCount: number;
   private retryCount: number;
@@ -93,6 +110,8 @@ export class PublisherMetricsCollector {
     this.jobRecords = new Map();
     this.latencies = [];
     this.errorCounts = new Map();
+    this.laneCounts = new Map();
+    this.userStats = new Map();
     this.successCount = 0;
     this.failureCount = 0;
     this.retryCount = 0;
@@ -109,12 +128,22 @@ export class PublisherMetricsCollector {
   /**
    * Record job start
    */
-  recordJobStart(jobId: string, deviationId: string): void {
+  recordJobStart(jobId: string, deviationId: string, lane?: PublishLane, userId?: string): void {
     this.jobRecords.set(jobId, {
       jobId,
       deviationId,
+      userId,
+      lane,
       startTime: Date.now(),
     });
+
+    if (lane) {
+      this.laneCounts.set(lane, (this.laneCounts.get(lane) || 0) + 1);
+    }
+
+    if (userId) {
+      this.getUserStats(userId).started++;
+    }
   }
 
   /**
@@ -126,6 +155,10 @@ export class PublisherMetricsCollector {
       record.endTime = Date.now();
       record.latencyMs = latencyMs;
       record.success = true;
+
+      if (record.userId) {
+        this.getUserStats(record.userId).succeeded++;
+      }
     }
 
     this.successCount++;
@@ -147,6 +180,10 @@ export class PublisherMetricsCollector {
       record.latencyMs = latencyMs;
       record.success = false;
       record.errorCategory = error.category;
+
+      if (record.userId) {
+        this.getUserStats(record.userId).failed++;
+      }
     }
 
     this.failureCount++;
@@ -167,6 +204,14 @@ export class PublisherMetricsCollector {
    */
   recordRateLimitHit(userId: string, waitMs: number): void {
     this.rateLimitHitCount++;
+    this.getUserStats(userId).rateLimitHits++;
+  }
+
+  /**
+   * Record job deferred because the user was at the per-user concurrency limit
+   */
+  recordUserDeferral(userId: string): void {
+    this.getUserStats(userId).deferred++;
   }
 
   /**
@@ -207,6 +252,8 @@ export class PublisherMetricsCollector {
       latency: this.calculateLatencyPercentiles(),
 
       errorsByCategory: this.getErrorDistribution(),
+      jobsByLane: Object.fromEntries(this.laneCounts),
+      jobsByUser: Object.fromEntries(this.userStats),
       rateLimitHits: this.rateLimitHitCount,
       circuitBreakerOpenCount: this.circuitBreakerOpenCount,
 
@@ -215,6 +262,18 @@ export class PublisherMetricsCollector {
     };
   }
 
+  /**
+   * Get (or create) the counters for a user
+   */
+  private getUserStats(userId: string): UserJobMetrics {
+    let stats = this.userStats.get(userId);
+    if (!stats) {
+      stats = { started: 0, succeeded: 0, failed: 0, deferred: 0, rateLimitHits: 0 };
+      this.userStats.set(userId, stats);
+    }
+    return stats;
+  }
+
   /**
    * Calculate latency percentiles
    */
@@ -310,6 +369,22 @@ export class PublisherMetricsCollector {
     lines.push('# TYPE publisher_circuit_breaker_opens_total counter');
     lines.push(`publisher_circuit_breaker_opens_total ${metrics.circuitBreakerOpenCount}`);
 
+    // Jobs started per priority lane
+    lines.push('# HELP publisher_jobs_started_total Jobs started per priority lane');
+    lines.push('# TYPE publisher_jobs_started_total counter');
+    for (const [lane, count] of Object.entries(metrics.jobsByLane)) {
+      lines.push(`publisher_jobs_started_total{lane="${lane}"} ${count}`);
+    }
+
+    // Per-user breakdown
+    lines.push('# HELP publisher_user_jobs_total Publisher job events per user');
+    lines.push('# TYPE publisher_user_jobs_total counter');
+    for (const [userId, stats] of Object.entries(metrics.jobsByUser)) {
+      for (const [event, count] of Object.entries(stats)) {
+        lines.push(`publisher_user_jobs_total{user_id="${userId}",event="${event}"} ${count}`);
+      }
+    }
+
     // Errors by category
     for (const [category, count] of Object.entries(metrics.errorsByCategory)) {
       lines.push(`publisher_errors_total{category="${category}"} ${count}`);
@@ -370,6 +445,8 @@ export class PublisherMetricsCollector {
     this.jobRecords.clear();
     this.latencies = [];
     this.errorCounts.clear();
+    this.laneCounts.clear();
+    this.userStats.clear();
     this.successCount = 0;
     this.failureCount = 0;
     this.retryCount = 0;
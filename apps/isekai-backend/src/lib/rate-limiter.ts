@@ -24,9 +24,11 @@
  * - Adaptive delays that decrease on success, increase on failure
  * - Jittered backoff to prevent thundering herd
  * - Per-user rate limit tracking
+ * - App-wide DeviantArt quota shared with the backend (see DeviantArtQuota)
  */
 
 import type { Redis } from 'ioredis';
+import { DeviantArtQuota } from '@isekai/shared';
 import { safeJsonParse } from './safe-json-parse.js';
 
 export interface RateLimitState {
@@ -55,9 +57,11 @@ export class AdaptiveRateLimiter {
   private jitterPercent: number;
   private successDecreaseFactor: number;
   private failureIncreaseFactor: number;
+  private appQuota: DeviantArtQuota;
 
   constructor(redis: Redis | null) {
     this.redis = redis;
+    this.appQuota = new DeviantArtQuota(redis);
 
     // Configuration from environment
     this.baseDelayMs = parseInt(process.env.RATE_LIMITER_BASE_DELAY_MS || '3000');
@@ -113,6 +117,16 @@ export class AdaptiveRateLimiter {
       };
     }
 
+    // App-wide quota last, so a per-user wait doesn't use up a token
+    const quotaCheck = await this.appQuota.tryAcquire('publish');
+    if (!quotaCheck.allowed) {
+      return {
+        allowed: false,
+        waitMs: quotaCheck.waitMs,
+        reason: quotaCheck.reason,
+      };
+    }
+
     return { allowed: true };
   }
 
@@ -164,6 +178,10 @@ export class AdaptiveRateLimiter {
     state.baseDelay = Math.min(this.maxDelayMs, state.baseDelay * this.failureIncreaseFactor);
 
     await this.setState(userId, state);
+
+    // A 429 for one user predicts 429s for everyone - pause all DeviantArt calls
+    const retryAfterSeconds = retryAfterHeader ? this.parseRetryAfter(retryAfterHeader) : 0;
+    await this.appQuota.recordRateLimited(retryAfterSeconds * 1000);
   }
 
   /**
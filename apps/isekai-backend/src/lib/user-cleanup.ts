@@ -124,6 +124,7 @@ async function clearUserRedisCache(userId: string): Promise<number> {
  * 2. Queue storage cleanup (async file deletion)
  * 3. Clear Redis cache
  * 4. Delete User record (cascades DB records)
+ * 5. Delete the owning account once no DeviantArt users remain
  */
 export async function cleanupUserData(userId: string): Promise<CleanupResult> {
   const result: CleanupResult = {
@@ -162,11 +163,16 @@ export async function cleanupUserData(userId: string): Promise<CleanupResult> {
     logger.info('Cleared Redis cache', { userId, keys: cacheDeleted });
 
     // 4. Delete User record (cascades: deviations, files, api keys, etc.)
-    await prisma.user.delete({
+    const deletedUser = await prisma.user.delete({
       where: { id: userId },
     });
     logger.info('Deleted user record', { userId });
 
+    // 5. Drop the Isekai account if this was its last linked DeviantArt user
+    await prisma.account.deleteMany({
+      where: { id: deletedUser.accountId, users: { none: {} } },
+    });
+
     result.success = true;
     return result;
   } catch (error) {
@@ -154,6 +154,44 @@ describe('authMiddleware', () => {
     });
   });
 
+  describe('linked accounts', () => {
+    it('should backfill accountId on sessions created before multi-account support', async () => {
+      const req = createMockRequest({
+        session: { userId: 'user-123' } as any,
+      });
+      const res = createMockResponse();
+      const next = createMockNext();
+
+      (prisma.user.findUnique as any).mockResolvedValue({ id: 'user-123', accountId: 'account-1' });
+
+      await authMiddleware(req as any, res as any, next);
+
+      expect((req.session as any).accountId).toBe('account-1');
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should reject sessions whose active user was unlinked from the account', async () => {
+      const destroySpy = vi.fn((callback) => callback());
+      const req = createMockRequest({
+        session: { userId: 'user-123', accountId: 'account-1', destroy: destroySpy } as any,
+      });
+      const res = createMockResponse();
+      const next = createMockNext();
+
+      (prisma.user.findUnique as any).mockResolvedValue({ id: 'user-123', accountId: 'account-2' });
+
+      await authMiddleware(req as any, res as any, next);
+
+      expect(destroySpy).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        error: 'Unauthorized',
+        message: 'Account no longer linked',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should return 500 on database error', async () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
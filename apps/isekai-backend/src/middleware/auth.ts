@@ -22,6 +22,10 @@ import type { User } from '../db/index.js';
 declare module 'express-session' {
   interface SessionData {
     userId?: string;
+    /** Isekai account owning the active DeviantArt user */
+    accountId?: string;
+    /** Set while an OAuth round-trip is linking another DeviantArt user to accountId */
+    linkingAccountId?: string;
     instanceUserRole?: string;
   }
 }
@@ -52,6 +56,15 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
       return res.status(401).json({ error: 'Unauthorized', message: 'User not found' });
     }
 
+    // Session migration: sessions created before multi-account support have no accountId
+    if (!req.session.accountId) {
+      req.session.accountId = user.accountId;
+    } else if (req.session.accountId !== user.accountId) {
+      // The active DeviantArt account was unlinked from this login elsewhere
+      req.session.destroy(() => {});
+      return res.status(401).json({ error: 'Unauthorized', message: 'Account no longer linked' });
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -0,0 +1,223 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createMockRequest,
+  createMockResponse,
+  createMockNext,
+} from '../test-helpers/express-mock.js';
+
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    idempotencyKey: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+  Prisma: { JsonNull: 'JsonNull' },
+}));
+
+import { idempotencyMiddleware } from './idempotency.js';
+import { prisma } from '../db/index.js';
+
+describe('idempotencyMiddleware', () => {
+  const mockUser = { id: 'user-123' };
+
+  function createRequest(key?: string, body: any = { title: 'Test' }) {
+    return createMockRequest({
+      method: 'POST',
+      baseUrl: '/api/deviations',
+      path: '/',
+      body,
+      user: mockUser as any,
+      apiKeyAuth: { apiKeyId: 'key-1', userId: 'user-123' },
+      headers: key === undefined ? {} : ({ 'idempotency-key': key } as any),
+    });
+  }
+
+  function createResponse() {
+    const res: any = Object.assign(new EventEmitter(), createMockResponse(), {
+      set: vi.fn().mockReturnThis(),
+      statusCode: 200,
+      writableFinished: false,
+    });
+    res.status = vi.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    return res;
+  }
+
+  function finish(res: any) {
+    res.writableFinished = true;
+    res.emit('finish');
+    res.emit('close');
+  }
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.idempotencyKey.create as any).mockResolvedValue({ id: 'idem-1' });
+  });
+
+  it('should pass through requests without the header', async () => {
+    const next = createMockNext();
+
+    await idempotencyMiddleware(createRequest() as any, createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(prisma.idempotencyKey.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should reserve a new key and store the response', async () => {
+    const req = createRequest('abc');
+    const res = createResponse();
+    const next = createMockNext();
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue(null);
+
+    await idempotencyMiddleware(req as any, res, next);
+
+    expect(prisma.idempotencyKey.findUnique).toHaveBeenCalledWith({
+      where: { scope_key: { scope: 'api_key:key-1', key: 'abc' } },
+    });
+    expect(prisma.idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-123',
+        scope: 'api_key:key-1',
+        key: 'abc',
+        endpoint: 'POST /api/deviations/',
+        requestHash: expect.any(String),
+        expiresAt: expect.any(Date),
+      }),
+    });
+    expect(next).toHaveBeenCalled();
+
+    // Route handler responds
+    res.status(201).json({ id: 'deviation-1' });
+    finish(res);
+    await flush();
+
+    expect(prisma.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'idem-1' },
+      data: { responseStatus: 201, responseBody: { id: 'deviation-1' } },
+    });
+  });
+
+  it('should replay the stored response for a retry', async () => {
+    // First request stores its hash
+    const first = createRequest('abc');
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue(null);
+    await idempotencyMiddleware(first as any, createResponse(), createMockNext());
+    const { requestHash } = (prisma.idempotencyKey.create as any).mock.calls[0][0].data;
+
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue({
+      id: 'idem-1',
+      endpoint: 'POST /api/deviations/',
+      requestHash,
+      responseStatus: 201,
+      responseBody: { id: 'deviation-1' },
+      expiresAt: new Date(Date.now() + 60000),
+    });
+    const res = createResponse();
+    const next = createMockNext();
+
+    await idempotencyMiddleware(createRequest('abc') as any, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.set).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ id: 'deviation-1' });
+  });
+
+  it('should reject a key reused for a different request', async () => {
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue({
+      id: 'idem-1',
+      endpoint: 'POST /api/deviations/',
+      requestHash: 'other-hash',
+      responseStatus: 201,
+      responseBody: {},
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    await expect(
+      idempotencyMiddleware(createRequest('abc') as any, createResponse(), createMockNext())
+    ).rejects.toThrow('already used for a different request');
+  });
+
+  it('should reject retries while the first request is in progress', async () => {
+    (prisma.idempotencyKey.create as any).mockRejectedValue({ code: 'P2002' });
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue(null);
+
+    await expect(
+      idempotencyMiddleware(createRequest('abc') as any, createResponse(), createMockNext())
+    ).rejects.toThrow('still in progress');
+  });
+
+  it('should treat expired keys as new', async () => {
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue({
+      id: 'idem-old',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    const next = createMockNext();
+
+    await idempotencyMiddleware(createRequest('abc') as any, createResponse(), next);
+
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'idem-old' } });
+    expect(prisma.idempotencyKey.create).toHaveBeenCalled();
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should release the key when the request fails with a server error', async () => {
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue(null);
+    const res = createResponse();
+
+    await idempotencyMiddleware(createRequest('abc') as any, res, createMockNext());
+
+    res.status(500).json({ error: 'Internal Server Error' });
+    finish(res);
+    await flush();
+
+    expect(prisma.idempotencyKey.update).not.toHaveBeenCalled();
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'idem-1' } });
+  });
+
+  it('should scope session requests to the session', async () => {
+    const req = createMockRequest({
+      method: 'POST',
+      baseUrl: '/api/uploads',
+      path: '/complete',
+      user: mockUser as any,
+      sessionID: 'sess-1',
+      headers: { 'idempotency-key': 'abc' } as any,
+    });
+    (prisma.idempotencyKey.findUnique as any).mockResolvedValue(null);
+
+    await idempotencyMiddleware(req as any, createResponse(), createMockNext());
+
+    expect(prisma.idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        scope: 'session:sess-1',
+        endpoint: 'POST /api/uploads/complete',
+      }),
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { prisma, Prisma } from '../db/index.js';
+import { AppError } from './error.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * API-key requests are scoped to the key, browser requests to the session
+ */
+function getScope(req: Request): string {
+  if (req.apiKeyAuth) {
+    return `api_key:${req.apiKeyAuth.apiKeyId}`;
+  }
+  return req.sessionID ? `session:${req.sessionID}` : `user:${req.user!.id}`;
+}
+
+/**
+ * Fingerprint of the request, so a key reused for a different request is rejected
+ * instead of replaying an unrelated response
+ */
+function hashRequest(req: Request): string {
+  const file = req.file
+    ? {
+        name: req.file.originalname,
+        size: req.file.size,
+        sha256: createHash('sha256').update(req.file.buffer).digest('hex'),
+      }
+    : undefined;
+
+  return createHash('sha256')
+    .update(JSON.stringify({ body: req.body ?? null, file }))
+    .digest('hex');
+}
+
+/**
+ * Replay the stored response for requests retried with the same Idempotency-Key
+ *
+ * The first request with a key reserves it and stores its response once finished.
+ * Retries get that response back (with `Idempotent-Replayed: true`) instead of creating
+ * a new record. Server errors release the key so the request can be retried. Requests
+ * without the header are not affected. Must run after authentication (and after
+ * multer on multipart routes).
+ */
+export async function idempotencyMiddleware(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    throw new AppError(400, `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`);
+  }
+
+  const scope = getScope(req);
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+  const requestHash = hashRequest(req);
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { scope_key: { scope, key } },
+  });
+
+  if (existing && existing.expiresAt <= new Date()) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+  } else if (existing) {
+    if (existing.endpoint !== endpoint || existing.requestHash !== requestHash) {
+      throw new AppError(422, `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`);
+    }
+
+    if (existing.responseStatus === null) {
+      throw new AppError(409, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`);
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.responseStatus).json(existing.responseBody);
+  }
+
+  let record;
+  try {
+    record = await prisma.idempotencyKey.create({
+      data: {
+        userId: req.user!.id,
+        scope,
+        key,
+        endpoint,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+      },
+    });
+  } catch (error: any) {
+    // A concurrent request reserved the key first (unique constraint on scope + key)
+    if (error.code === 'P2002') {
+      throw new AppError(409, `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`);
+    }
+    throw error;
+  }
+
+  // Capture the response body for replays
+  let responseBody: unknown = null;
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  let settled = false;
+  const settle = async (completed: boolean) => {
+    if (settled) return;
+    settled = true;
+
+    try {
+      if (completed && res.statusCode < 500) {
+        await prisma.idempotencyKey.update({
+          where: { id: record.id },
+          data: {
+            responseStatus: res.statusCode,
+            responseBody: (responseBody ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+          },
+        });
+      } else {
+        // Failed or aborted - release the key so the client can retry
+        await prisma.idempotencyKey.deleteMany({ where: { id: record.id } });
+      }
+    } catch (error) {
+      console.error(`[Idempotency] Failed to store response for key ${key}:`, error);
+    }
+  };
+
+  res.on('finish', () => void settle(true));
+  res.on('close', () => void settle(res.writableFinished));
+
+  next();
+}
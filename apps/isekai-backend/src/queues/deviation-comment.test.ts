@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockQueueAdd, mockPostFirstCommentJob, mockPostDeviationComment, captured } = vi.hoisted(
+  () => {
+    // Set before the queue module reads it on import
+    process.env.REDIS_URL = 'redis://localhost:6379';
+
+    return {
+      mockQueueAdd: vi.fn(),
+      mockPostFirstCommentJob: vi.fn(),
+      mockPostDeviationComment: vi.fn(),
+      captured: {} as {
+        processor?: (job: any) => Promise<any>;
+        queueOptions?: any;
+        workerOptions?: any;
+      },
+    };
+  }
+);
+
+// Mock BullMQ
+vi.mock('bullmq', () => ({
+  Queue: class MockQueue {
+    constructor(name: string, options: any) {
+      captured.queueOptions = options;
+    }
+    add = mockQueueAdd;
+  },
+  Worker: class MockWorker {
+    constructor(name: string, processor: (job: any) => Promise<any>, options: any) {
+      captured.processor = processor;
+      captured.workerOptions = options;
+    }
+    on = vi.fn();
+  },
+}));
+
+vi.mock('ioredis', () => ({
+  Redis: class MockRedis {},
+}));
+
+vi.mock('@isekai/shared', () => ({
+  postFirstCommentJob: (...args: any[]) => mockPostFirstCommentJob(...args),
+}));
+
+vi.mock('../lib/deviantart.js', () => ({
+  postDeviationComment: (...args: any[]) => mockPostDeviationComment(...args),
+}));
+
+vi.mock('../db/index.js', () => ({
+  prisma: {},
+}));
+
+vi.mock('../lib/rate-limiter.js', () => ({
+  AdaptiveRateLimiter: class MockRateLimiter {},
+}));
+
+import { queueFirstComment } from './deviation-comment.js';
+
+describe('deviation-comment', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should queue one delayed comment job per deviation', async () => {
+    await queueFirstComment('dev-1', 'user-1');
+
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'comment',
+      { deviationId: 'dev-1', userId: 'user-1' },
+      { jobId: 'deviation-comment-dev-1', delay: 30000 }
+    );
+  });
+
+  it('should delegate to the shared comment job with publisher dependencies', async () => {
+    mockPostFirstCommentJob.mockResolvedValueOnce({ posted: true, commentId: 'c-1' });
+    const job = { id: 'job-1', data: { deviationId: 'dev-1', userId: 'user-1' } };
+
+    const result = await captured.processor!(job);
+
+    expect(result).toEqual({ posted: true, commentId: 'c-1' });
+    const deps = mockPostFirstCommentJob.mock.calls[0][1];
+    expect(deps).toHaveProperty('rateLimiter');
+    expect(deps).toHaveProperty('errorCategorizer');
+    await deps.postDeviationComment({ id: 'user-1' }, 'da-1', 'Hi');
+    expect(mockPostDeviationComment).toHaveBeenCalledWith({ id: 'user-1' }, 'da-1', 'Hi');
+  });
+
+  it('should honour the rate limiter wait time when backing off', () => {
+    // Job options are serialized to Redis, so the strategy lives on the worker
+    expect(captured.queueOptions.defaultJobOptions.backoff).toEqual({ type: 'custom' });
+    const backoff = captured.workerOptions.settings.backoffStrategy;
+
+    expect(backoff(1, 'custom', new Error('RATE_LIMITED: Wait 12000ms - Backoff active'))).toBe(
+      12000
+    );
+    expect(backoff(1, 'custom', new Error('DeviantArt comment error: 503'))).toBe(30000);
+    expect(backoff(3, 'custom', new Error('DeviantArt comment error: 503'))).toBe(120000);
+  });
+});
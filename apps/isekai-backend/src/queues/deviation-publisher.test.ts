@@ -17,10 +17,13 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Job } from 'bullmq';
+import { PublishPriority, getJobPriority } from '@isekai/shared';
 
 // Mock dependencies
 const mockPublishDeviationJob = vi.fn();
 const mockQueueStorageCleanup = vi.fn();
+const mockQueueFirstComment = vi.fn();
+const mockEmitWebhookEvent = vi.fn();
 const mockPublishToDeviantArt = vi.fn();
 const mockQueueAdd = vi.fn();
 const mockQueueGetJob = vi.fn();
@@ -32,18 +35,28 @@ const mockJobWaitUntilFinished = vi.fn();
 const mockWorkerPause = vi.fn();
 const mockWorkerClose = vi.fn();
 const mockRedisQuit = vi.fn();
+const mockRedisEval = vi.fn();
 const mockMetricsCollectorGetMetrics = vi.fn();
 const mockMetricsCollectorRecordStalledJob = vi.fn();
 const mockMetricsCollectorShutdown = vi.fn();
 
-vi.mock('@isekai/shared', () => ({
-  publishDeviationJob: mockPublishDeviationJob,
+vi.mock('@isekai/shared', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@isekai/shared')>()),
+  publishDeviationJob: (...args: any[]) => mockPublishDeviationJob(...args),
 }));
 
 vi.mock('./storage-cleanup.js', () => ({
   queueStorageCleanup: mockQueueStorageCleanup,
 }));
 
+vi.mock('./deviation-comment.js', () => ({
+  queueFirstComment: mockQueueFirstComment,
+}));
+
+vi.mock('./webhook-delivery.js', () => ({
+  emitWebhookEvent: mockEmitWebhookEvent,
+}));
+
 vi.mock('../lib/deviantart.js', () => ({
   publishToDeviantArt: mockPublishToDeviantArt,
 }));
@@ -55,6 +68,7 @@ vi.mock('../db/index.js', () => ({
 vi.mock('ioredis', () => ({
   Redis: class MockRedis {
     quit = mockRedisQuit;
+    eval = mockRedisEval;
   },
 }));
 
@@ -130,6 +144,7 @@ describe('deviation-publisher', () => {
     vi.clearAllMocks();
     vi.clearAllTimers();
     vi.useFakeTimers();
+    mockRedisEval.mockResolvedValue(0); // User's first turn
     capturedWorkerProcessor = null;
     Object.keys(workerEventListeners).forEach((key) => delete workerEventListeners[key]);
 
@@ -177,6 +192,8 @@ describe('deviation-publisher', () => {
       expect(deps.metricsCollector).toBeDefined();
       expect(deps.publishToDeviantArt).toBeDefined();
       expect(deps.queueStorageCleanup).toBeDefined();
+      expect(deps.queueFirstComment).toBeDefined();
+      expect(deps.emitWebhookEvent).toBeDefined();
       expect(deps.errorCategorizer).toBeDefined();
     });
 
@@ -200,6 +217,49 @@ describe('deviation-publisher', () => {
 
       expect(mockQueueStorageCleanup).toHaveBeenCalledWith('dev-123', 'user-123');
     });
+
+    it('should call queueFirstComment when provided in dependencies', async () => {
+      mockPublishDeviationJob.mockImplementation(async (job, deps) => {
+        await deps.queueFirstComment('dev-123', 'user-123');
+        return { success: true };
+      });
+
+      const mockJob: Partial<Job> = {
+        id: 'job-123',
+        data: {
+          deviationId: 'dev-123',
+          userId: 'user-123',
+          uploadMode: 'single',
+        },
+        attemptsMade: 0,
+      };
+
+      await capturedWorkerProcessor!(mockJob as Job);
+
+      expect(mockQueueFirstComment).toHaveBeenCalledWith('dev-123', 'user-123');
+    });
+
+    it('should forward webhook events to the delivery queue', async () => {
+      const event = { userId: 'user-123', event: 'deviation.published', data: {} };
+      mockPublishDeviationJob.mockImplementation(async (job, deps) => {
+        await deps.emitWebhookEvent(event);
+        return { success: true };
+      });
+
+      const mockJob: Partial<Job> = {
+        id: 'job-123',
+        data: {
+          deviationId: 'dev-123',
+          userId: 'user-123',
+          uploadMode: 'single',
+        },
+        attemptsMade: 0,
+      };
+
+      await capturedWorkerProcessor!(mockJob as Job);
+
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(event);
+    });
   });
 
   describe('event handlers', () => {
@@ -302,11 +362,51 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).toHaveBeenCalledWith(
         'publish-deviation',
         { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'REPLACE' },
-        { delay: expect.any(Number), jobId: 'deviation-dev-123' }
+        {
+          delay: expect.any(Number),
+          jobId: 'deviation-dev-123',
+          priority: getJobPriority(PublishPriority.SCHEDULED, 0),
+        }
       );
       expect(consoleLogSpy).toHaveBeenCalled();
     });
 
+    it('should queue with the given priority', async () => {
+      const { scheduleDeviation } = await import('./deviation-publisher.js');
+
+      mockQueueGetJob.mockResolvedValue(null);
+      mockQueueAdd.mockResolvedValue({ id: 'job-123' });
+
+      const publishAt = new Date(Date.now() + 60000);
+      await scheduleDeviation(
+        'dev-123',
+        'user-123',
+        publishAt,
+        'REPLACE' as any,
+        PublishPriority.RECOVERY
+      );
+
+      expect(mockQueueAdd.mock.calls[0][2].priority).toBe(
+        getJobPriority(PublishPriority.RECOVERY, 0)
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('recovery lane'));
+    });
+
+    it("should queue behind the user's earlier jobs in the lane", async () => {
+      const { scheduleDeviation } = await import('./deviation-publisher.js');
+
+      mockQueueGetJob.mockResolvedValue(null);
+      mockQueueAdd.mockResolvedValue({ id: 'job-123' });
+      mockRedisEval.mockResolvedValue(3);
+
+      const publishAt = new Date(Date.now() + 60000);
+      await scheduleDeviation('dev-123', 'user-123', publishAt, 'REPLACE' as any);
+
+      expect(mockQueueAdd.mock.calls[0][2].priority).toBe(
+        getJobPriority(PublishPriority.SCHEDULED, 3)
+      );
+    });
+
     it('should skip if job already exists and is active', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
 
@@ -340,6 +440,21 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).not.toHaveBeenCalled();
     });
 
+    it('should skip if job already exists and is prioritized', async () => {
+      const { scheduleDeviation } = await import('./deviation-publisher.js');
+
+      const mockExistingJob = {
+        getState: mockJobGetState,
+      };
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+      mockJobGetState.mockResolvedValue('prioritized');
+
+      const publishAt = new Date(Date.now() + 60000);
+      await scheduleDeviation('dev-123', 'user-123', publishAt, 'REPLACE' as any);
+
+      expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
     it('should skip if job already exists and is delayed', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
 
@@ -401,11 +516,31 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).toHaveBeenCalledWith(
         'publish-deviation',
         { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'REPLACE' },
-        { jobId: 'deviation-dev-123' }
+        { jobId: 'deviation-dev-123', priority: getJobPriority(PublishPriority.INTERACTIVE, 0) }
       );
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('immediate publishing'));
     });
 
+    it('should move a queued job from a slower lane to the interactive lane', async () => {
+      const { publishDeviationNow } = await import('./deviation-publisher.js');
+
+      const mockChangePriority = vi.fn().mockResolvedValue(undefined);
+      const mockExistingJob = {
+        getState: mockJobGetState,
+        opts: { priority: getJobPriority(PublishPriority.AUTOMATION, 2) },
+        changePriority: mockChangePriority,
+      };
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+      mockJobGetState.mockResolvedValue('prioritized');
+
+      await publishDeviationNow('dev-123', 'user-123', 'REPLACE' as any);
+
+      expect(mockChangePriority).toHaveBeenCalledWith({
+        priority: getJobPriority(PublishPriority.INTERACTIVE, 2),
+      });
+      expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
     it('should skip if job already exists and is active', async () => {
       const { publishDeviationNow } = await import('./deviation-publisher.js');
 
@@ -420,6 +555,32 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).not.toHaveBeenCalled();
     });
 
+    it('should re-queue a delayed job so it publishes now', async () => {
+      const { publishDeviationNow } = await import('./deviation-publisher.js');
+
+      const mockChangePriority = vi.fn();
+      const mockExistingJob = {
+        getState: mockJobGetState,
+        opts: { priority: getJobPriority(PublishPriority.AUTOMATION, 2), delay: 3600000 },
+        changePriority: mockChangePriority,
+        remove: mockJobRemove,
+      };
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+      mockJobGetState.mockResolvedValue('delayed');
+      mockJobRemove.mockResolvedValue(undefined);
+      mockQueueAdd.mockResolvedValue({ id: 'job-123' });
+
+      await publishDeviationNow('dev-123', 'user-123', 'REPLACE' as any);
+
+      expect(mockChangePriority).not.toHaveBeenCalled();
+      expect(mockJobRemove).toHaveBeenCalled();
+      expect(mockQueueAdd).toHaveBeenCalledWith(
+        'publish-deviation',
+        { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'REPLACE' },
+        { jobId: 'deviation-dev-123', priority: getJobPriority(PublishPriority.INTERACTIVE, 0) }
+      );
+    });
+
     it('should remove and re-queue if job is failed', async () => {
       const { publishDeviationNow } = await import('./deviation-publisher.js');
 
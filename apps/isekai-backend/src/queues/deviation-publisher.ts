@@ -20,7 +20,15 @@ import { Redis } from 'ioredis';
 import { prisma } from '../db/index.js';
 import { publishToDeviantArt } from '../lib/deviantart.js';
 import type { UploadMode } from '@isekai/shared';
-import { publishDeviationJob } from '@isekai/shared';
+import {
+  publishDeviationJob,
+  PublishPriority,
+  PublishTurns,
+  getJobPriority,
+  getPriorityLane,
+  getPriorityTurn,
+  getPublishLane,
+} from '@isekai/shared';
 import { ErrorCategorizer } from '../lib/error-categorizer.js';
 import { StructuredLogger } from '../lib/structured-logger.js';
 import { AdaptiveRateLimiter } from '../lib/rate-limiter.js';
@@ -48,6 +56,7 @@ export interface DeviationPublishJobData {
 const errorCategorizer = new ErrorCategorizer();
 const rateLimiter = new AdaptiveRateLimiter(connection);
 const metricsCollector = new PublisherMetricsCollector(connection);
+const publishTurns = new PublishTurns(connection);
 
 // Custom backoff strategy that respects rate limit Retry-After headers
 function calculateBackoff(attemptsMade: number, err: Error): number {
@@ -105,22 +114,34 @@ export const deviationPublisherQueue = new Queue<DeviationPublishJobData>('devia
 // Worker to process publishing jobs using shared publisher core
 export const deviationPublisherWorker = new Worker<DeviationPublishJobData>(
   'deviation-publisher',
-  async (job: Job<DeviationPublishJobData>) => {
+  async (job: Job<DeviationPublishJobData>, token?: string) => {
     // Use shared publisher core with BE-specific dependencies
-    return await publishDeviationJob(job, {
-      prisma,
-      logger: StructuredLogger,
-      rateLimiter,
-      metricsCollector,
-      CircuitBreaker,
-      withCircuitBreaker,
-      publishToDeviantArt,
-      queueStorageCleanup: async (deviationId: string, userId: string) => {
-        const { queueStorageCleanup } = await import('./storage-cleanup.js');
-        await queueStorageCleanup(deviationId, userId);
+    return await publishDeviationJob(
+      job,
+      {
+        prisma,
+        logger: StructuredLogger,
+        rateLimiter,
+        metricsCollector,
+        CircuitBreaker,
+        withCircuitBreaker,
+        publishToDeviantArt,
+        queueStorageCleanup: async (deviationId: string, userId: string) => {
+          const { queueStorageCleanup } = await import('./storage-cleanup.js');
+          await queueStorageCleanup(deviationId, userId);
+        },
+        queueFirstComment: async (deviationId: string, userId: string) => {
+          const { queueFirstComment } = await import('./deviation-comment.js');
+          await queueFirstComment(deviationId, userId);
+        },
+        emitWebhookEvent: async (input) => {
+          const { emitWebhookEvent } = await import('./webhook-delivery.js');
+          await emitWebhookEvent(input);
+        },
+        errorCategorizer,
       },
-      errorCategorizer,
-    });
+      token
+    );
   },
   {
     connection,
@@ -176,7 +197,8 @@ export async function scheduleDeviation(
   deviationId: string,
   userId: string,
   actualPublishAt: Date,
-  uploadMode: UploadMode
+  uploadMode: UploadMode,
+  priority: PublishPriority = PublishPriority.SCHEDULED
 ) {
   const jobId = `deviation-${deviationId}`;
 
@@ -184,7 +206,12 @@ export async function scheduleDeviation(
   const existingJob = await deviationPublisherQueue.getJob(jobId);
   if (existingJob) {
     const state = await existingJob.getState();
-    if (state === 'waiting' || state === 'delayed' || state === 'active') {
+    if (
+      state === 'waiting' ||
+      state === 'prioritized' ||
+      state === 'delayed' ||
+      state === 'active'
+    ) {
       console.log(
         `[Deviation Publisher] Job ${jobId} already exists with state ${state}, skipping`
       );
@@ -195,6 +222,7 @@ export async function scheduleDeviation(
   }
 
   const delay = actualPublishAt.getTime() - Date.now();
+  const turn = await publishTurns.take(userId, jobId, actualPublishAt);
 
   await deviationPublisherQueue.add(
     'publish-deviation',
@@ -202,11 +230,12 @@ export async function scheduleDeviation(
     {
       delay: Math.max(0, delay),
       jobId, // Use deviation ID as job ID for easy cancellation and de-duplication
+      priority: getJobPriority(priority, turn),
     }
   );
 
   console.log(
-    `[Deviation Publisher] Scheduled deviation ${deviationId} for ${actualPublishAt.toISOString()} (${uploadMode} mode)`
+    `[Deviation Publisher] Scheduled deviation ${deviationId} for ${actualPublishAt.toISOString()} (${uploadMode} mode, ${getPublishLane(priority)} lane)`
   );
 }
 
@@ -214,7 +243,8 @@ export async function scheduleDeviation(
 export async function publishDeviationNow(
   deviationId: string,
   userId: string,
-  uploadMode: UploadMode
+  uploadMode: UploadMode,
+  priority: PublishPriority = PublishPriority.INTERACTIVE
 ) {
   const jobId = `deviation-${deviationId}`;
 
@@ -222,26 +252,39 @@ export async function publishDeviationNow(
   const existingJob = await deviationPublisherQueue.getJob(jobId);
   if (existingJob) {
     const state = await existingJob.getState();
-    if (state === 'waiting' || state === 'delayed' || state === 'active') {
+    if (state === 'waiting' || state === 'prioritized' || state === 'active') {
+      // Already queued in a slower lane - move it up instead of waiting behind automation
+      if (state !== 'active' && getPriorityLane(existingJob.opts.priority) > priority) {
+        const turn = getPriorityTurn(existingJob.opts.priority);
+        await existingJob.changePriority({ priority: getJobPriority(priority, turn) });
+        console.log(
+          `[Deviation Publisher] Job ${jobId} moved to the ${getPublishLane(priority)} lane`
+        );
+        return;
+      }
       console.log(
         `[Deviation Publisher] Job ${jobId} already exists with state ${state}, skipping`
       );
       return;
     }
-    // Remove if completed/failed to allow re-queueing
+    // Remove if completed/failed to allow re-queueing. A delayed job is re-queued too, so it
+    // runs now and takes a turn for now instead of its original publish time
     await existingJob.remove();
   }
 
+  const turn = await publishTurns.take(userId, jobId, new Date());
+
   await deviationPublisherQueue.add(
     'publish-deviation',
     { deviationId, userId, uploadMode },
     {
       jobId, // Use deviation ID as job ID for de-duplication
+      priority: getJobPriority(priority, turn),
     }
   );
 
   console.log(
-    `[Deviation Publisher] Queued deviation ${deviationId} for immediate publishing (${uploadMode} mode)`
+    `[Deviation Publisher] Queued deviation ${deviationId} for immediate publishing (${uploadMode} mode, ${getPublishLane(priority)} lane)`
   );
 }
 
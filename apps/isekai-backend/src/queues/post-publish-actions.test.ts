@@ -0,0 +1,153 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockQueueAdd, mockQueueGetJob, mockRunJob, mockMoveDeviations, captured } = vi.hoisted(
+  () => {
+    // Set before the queue module reads it on import
+    process.env.REDIS_URL = 'redis://localhost:6379';
+
+    return {
+      mockQueueAdd: vi.fn(),
+      mockQueueGetJob: vi.fn(),
+      mockRunJob: vi.fn(),
+      mockMoveDeviations: vi.fn(),
+      captured: {} as {
+        processor?: (job: any) => Promise<any>;
+        queueOptions?: any;
+        workerOptions?: any;
+      },
+    };
+  }
+);
+
+// Mock BullMQ
+vi.mock('bullmq', () => ({
+  Queue: class MockQueue {
+    constructor(name: string, options: any) {
+      captured.queueOptions = options;
+    }
+    add = mockQueueAdd;
+    getJob = mockQueueGetJob;
+  },
+  Worker: class MockWorker {
+    constructor(name: string, processor: (job: any) => Promise<any>, options: any) {
+      captured.processor = processor;
+      captured.workerOptions = options;
+    }
+    on = vi.fn();
+  },
+}));
+
+vi.mock('ioredis', () => ({
+  Redis: class MockRedis {},
+}));
+
+vi.mock('@isekai/shared', () => ({
+  runPostPublishActionJob: (...args: any[]) => mockRunJob(...args),
+}));
+
+vi.mock('../lib/deviantart.js', () => ({
+  refreshTokenIfNeeded: vi.fn().mockResolvedValue('access-token'),
+  updateDeviationMetadata: vi.fn(),
+}));
+
+vi.mock('../lib/deviantart-gallery.js', () => ({
+  moveDeviationsToFolder: (...args: any[]) => mockMoveDeviations(...args),
+  copyDeviationsToFolder: vi.fn(),
+}));
+
+vi.mock('../db/index.js', () => ({
+  prisma: {},
+}));
+
+vi.mock('../lib/rate-limiter.js', () => ({
+  AdaptiveRateLimiter: class MockRateLimiter {},
+}));
+
+import { schedulePostPublishAction, cancelPostPublishAction } from './post-publish-actions.js';
+
+describe('post-publish-actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue a delayed job that fires at runAt', async () => {
+    await schedulePostPublishAction({
+      id: 'action-1',
+      deviationId: 'dev-1',
+      userId: 'user-1',
+      runAt: new Date('2025-01-08T00:00:00Z'),
+    });
+
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'post-publish-action',
+      { actionId: 'action-1', deviationId: 'dev-1', userId: 'user-1' },
+      { jobId: 'post-publish-action-action-1', delay: 7 * 24 * 3600 * 1000 }
+    );
+  });
+
+  it('should run past-due actions immediately', async () => {
+    await schedulePostPublishAction({
+      id: 'action-1',
+      deviationId: 'dev-1',
+      userId: 'user-1',
+      runAt: new Date('2024-12-31T00:00:00Z'),
+    });
+
+    expect(mockQueueAdd.mock.calls[0][2].delay).toBe(0);
+  });
+
+  it('should remove the queued job when cancelled', async () => {
+    const mockRemove = vi.fn();
+    mockQueueGetJob.mockResolvedValueOnce({ remove: mockRemove });
+
+    const removed = await cancelPostPublishAction('action-1');
+
+    expect(mockQueueGetJob).toHaveBeenCalledWith('post-publish-action-action-1');
+    expect(mockRemove).toHaveBeenCalled();
+    expect(removed).toBe(true);
+  });
+
+  it('should pass gallery moves through with a fresh access token', async () => {
+    mockRunJob.mockResolvedValueOnce({ completed: true });
+    const job = { id: 'job-1', data: { actionId: 'action-1' } };
+
+    await captured.processor!(job);
+
+    const deps = mockRunJob.mock.calls[0][1];
+    await deps.moveDeviationsToFolder({ id: 'user-1' }, 'folder-1', ['da-1']);
+    expect(mockMoveDeviations).toHaveBeenCalledWith('access-token', 'folder-1', ['da-1']);
+  });
+
+  it('should back off through the worker strategy', () => {
+    expect(captured.queueOptions.defaultJobOptions.backoff).toEqual({ type: 'custom' });
+    const backoff = captured.workerOptions.settings.backoffStrategy;
+
+    expect(backoff(1, 'custom', new Error('RATE_LIMITED: Wait 5000ms - Backoff active'))).toBe(
+      5000
+    );
+    expect(backoff(2, 'custom', new Error('DeviantArt API error: 503'))).toBe(60000);
+  });
+});
@@ -0,0 +1,120 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockQueueAdd, mockDeliverJob, mockDispatch, captured } = vi.hoisted(() => {
+  // Set before the queue module reads it on import
+  process.env.REDIS_URL = 'redis://localhost:6379';
+
+  return {
+    mockQueueAdd: vi.fn(),
+    mockDeliverJob: vi.fn(),
+    mockDispatch: vi.fn(),
+    captured: {} as {
+      processor?: (job: any) => Promise<any>;
+      queueOptions?: any;
+      workerOptions?: any;
+    },
+  };
+});
+
+// Mock BullMQ
+vi.mock('bullmq', () => ({
+  Queue: class MockQueue {
+    constructor(name: string, options: any) {
+      captured.queueOptions = options;
+    }
+    add = mockQueueAdd;
+  },
+  Worker: class MockWorker {
+    constructor(name: string, processor: (job: any) => Promise<any>, options: any) {
+      captured.processor = processor;
+      captured.workerOptions = options;
+    }
+    on = vi.fn();
+  },
+}));
+
+vi.mock('ioredis', () => ({
+  Redis: class MockRedis {},
+}));
+
+vi.mock('@isekai/shared', () => ({
+  deliverWebhookJob: (...args: any[]) => mockDeliverJob(...args),
+  dispatchWebhookEvent: (...args: any[]) => mockDispatch(...args),
+}));
+
+vi.mock('../db/index.js', () => ({
+  prisma: {},
+}));
+
+import { queueWebhookDelivery, emitWebhookEvent } from './webhook-delivery.js';
+import { prisma } from '../db/index.js';
+
+describe('webhook-delivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should queue a delivery keyed by its ID', async () => {
+    await queueWebhookDelivery('delivery-1');
+
+    expect(mockQueueAdd).toHaveBeenCalledWith(
+      'webhook-delivery',
+      { deliveryId: 'delivery-1' },
+      { jobId: 'webhook-delivery-delivery-1' }
+    );
+  });
+
+  it('should accept a custom jobId for redeliveries', async () => {
+    await queueWebhookDelivery('delivery-1', 'webhook-delivery-delivery-1-123');
+
+    expect(mockQueueAdd.mock.calls[0][2]).toEqual({ jobId: 'webhook-delivery-delivery-1-123' });
+  });
+
+  it('should dispatch events through the delivery queue', async () => {
+    const input = { userId: 'user-1', event: 'review.created' as const, data: {} };
+
+    await emitWebhookEvent(input);
+
+    expect(mockDispatch).toHaveBeenCalledWith(prisma, expect.any(Function), input);
+    await mockDispatch.mock.calls[0][1]('delivery-2');
+    expect(mockQueueAdd.mock.calls[0][2]).toEqual({ jobId: 'webhook-delivery-delivery-2' });
+  });
+
+  it('should send deliveries with the global fetch', async () => {
+    mockDeliverJob.mockResolvedValueOnce({ delivered: true });
+    const job = { id: 'job-1', data: { deliveryId: 'delivery-1' } };
+
+    await captured.processor!(job);
+
+    expect(mockDeliverJob).toHaveBeenCalledWith(
+      job,
+      expect.objectContaining({ prisma, fetch: globalThis.fetch })
+    );
+  });
+
+  it('should back off through the worker strategy up to one hour', () => {
+    expect(captured.queueOptions.defaultJobOptions.backoff).toEqual({ type: 'custom' });
+    const backoff = captured.workerOptions.settings.backoffStrategy;
+
+    expect(backoff(1)).toBe(30000);
+    expect(backoff(3)).toBe(120000);
+    expect(backoff(10)).toBe(60 * 60 * 1000);
+  });
+});
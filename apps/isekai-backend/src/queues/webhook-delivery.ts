@@ -0,0 +1,128 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Queue, Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { prisma } from '../db/index.js';
+import {
+  deliverWebhookJob,
+  dispatchWebhookEvent,
+  type WebhookDeliveryJobData,
+  type WebhookEventInput,
+} from '@isekai/shared';
+import { StructuredLogger } from '../lib/structured-logger.js';
+
+const redisUrl = process.env.REDIS_URL!;
+
+const connection = new Redis(redisUrl, {
+  maxRetriesPerRequest: null,
+  tls: redisUrl.startsWith('rediss://')
+    ? {
+        rejectUnauthorized: false, // Accept self-signed certificates for internal Redis
+      }
+    : undefined,
+});
+
+// Back off exponentially (30s, 60s, 120s...) up to one hour
+function calculateBackoff(attemptsMade: number): number {
+  return Math.min(30000 * Math.pow(2, attemptsMade - 1), 60 * 60 * 1000);
+}
+
+/**
+ * Queue for outbound webhook deliveries
+ * Each job sends one WebhookDelivery row to its subscribed URL
+ */
+export const webhookDeliveryQueue = new Queue<WebhookDeliveryJobData>('webhook-delivery', {
+  connection,
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: { type: 'custom' }, // Computed by the worker's backoffStrategy
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days for debugging
+      count: 1000, // Prevent Redis memory exhaustion
+    },
+  },
+});
+
+/**
+ * Worker to send webhook deliveries using the shared job
+ */
+export const webhookDeliveryWorker = new Worker<WebhookDeliveryJobData>(
+  'webhook-delivery',
+  async (job: Job<WebhookDeliveryJobData>) => {
+    return await deliverWebhookJob(job, {
+      prisma,
+      logger: StructuredLogger,
+      fetch,
+    });
+  },
+  {
+    connection,
+    settings: { backoffStrategy: calculateBackoff },
+    concurrency: 5, // Deliveries go to user endpoints, not DeviantArt
+  }
+);
+
+/**
+ * Queue a delivery to be sent
+ * Redeliveries pass a fresh jobId since the original job may still be kept in Redis
+ */
+export async function queueWebhookDelivery(deliveryId: string, jobId?: string): Promise<void> {
+  await webhookDeliveryQueue.add(
+    'webhook-delivery',
+    { deliveryId },
+    {
+      jobId: jobId ?? `webhook-delivery-${deliveryId}`, // Prevent duplicates
+    }
+  );
+}
+
+/**
+ * Create and queue deliveries for every webhook subscribed to the event
+ * Never throws, so callers can emit without guarding
+ */
+export async function emitWebhookEvent(input: WebhookEventInput): Promise<void> {
+  await dispatchWebhookEvent(prisma, (deliveryId) => queueWebhookDelivery(deliveryId), input);
+}
+
+// Event handlers for monitoring
+webhookDeliveryWorker.on('completed', (job) => {
+  const logger = StructuredLogger.createJobLogger(job);
+  logger.info('Webhook delivery job completed', {
+    deliveryId: job.data.deliveryId,
+    delivered: job.returnvalue?.delivered,
+  });
+});
+
+webhookDeliveryWorker.on('failed', (job, error) => {
+  if (job) {
+    const logger = StructuredLogger.createJobLogger(job);
+    logger.error('Webhook delivery job failed', error, {
+      deliveryId: job.data.deliveryId,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts,
+    });
+  }
+});
+
+webhookDeliveryWorker.on('stalled', (jobId) => {
+  console.error(`Webhook delivery job ${jobId} has stalled`);
+});
@@ -22,10 +22,15 @@ vi.mock('../db/index.js', () => ({
   prisma: {
     user: {
       findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
       update: vi.fn(),
       create: vi.fn(),
       count: vi.fn(),
     },
+    account: {
+      deleteMany: vi.fn(),
+    },
     instanceUser: {
       findUnique: vi.fn(),
       create: vi.fn(),
@@ -73,9 +78,11 @@ beforeEach(() => {
     DEVIANTART_CLIENT_SECRET: 'test-client-secret',
     DEVIANTART_REDIRECT_URI: 'http://localhost:3000/api/auth/deviantart/callback',
     FRONTEND_URL: 'http://localhost:5173',
+    ENCRYPTION_KEY: 'a'.repeat(64),
   };
 });
 
+import { decryptToken } from '@isekai/shared';
 import { authRouter } from './auth.js';
 import { prisma } from '../db/index.js';
 
@@ -127,6 +134,7 @@ describe('Auth Routes', () => {
     it('should handle OAuth error from DeviantArt', async () => {
       const req = {
         query: { error: 'access_denied' },
+        session: {},
       };
       const res = {
         redirect: vi.fn(),
@@ -142,6 +150,7 @@ describe('Auth Routes', () => {
     it('should handle missing authorization code', async () => {
       const req = {
         query: {},
+        session: {},
       };
       const res = {
         redirect: vi.fn(),
@@ -157,6 +166,7 @@ describe('Auth Routes', () => {
     it('should handle non-string authorization code', async () => {
       const req = {
         query: { code: ['array', 'value'] },
+        session: {},
       };
       const res = {
         redirect: vi.fn(),
@@ -254,10 +264,13 @@ describe('Auth Routes', () => {
           deviantartId: 'da-user-123',
           username: 'testuser',
           avatarUrl: 'https://example.com/avatar.jpg',
-          accessToken: 'test-access-token',
-          refreshToken: 'test-refresh-token',
+          accessToken: expect.stringMatching(/^enc:v1:/),
+          refreshToken: expect.stringMatching(/^enc:v1:/),
         }),
       });
+      const createCall = mockPrisma.user.create.mock.calls[0][0];
+      expect(decryptToken(createCall.data.accessToken)).toBe('test-access-token');
+      expect(decryptToken(createCall.data.refreshToken)).toBe('test-refresh-token');
 
       // Verify session
       expect(req.session.userId).toBe('user-123');
@@ -332,8 +345,8 @@ describe('Auth Routes', () => {
         data: expect.objectContaining({
           username: 'updateduser',
           avatarUrl: 'https://example.com/new-avatar.jpg',
-          accessToken: 'new-access-token',
-          refreshToken: 'new-refresh-token',
+          accessToken: expect.stringMatching(/^enc:v1:/),
+          refreshToken: expect.stringMatching(/^enc:v1:/),
           refreshTokenWarningEmailSent: false,
           refreshTokenExpiredEmailSent: false,
           lastRefreshTokenRefresh: null,
@@ -520,6 +533,261 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('GET /deviantart/callback (account linking)', () => {
+    const mockTokenData = {
+      access_token: 'link-access-token',
+      refresh_token: 'link-refresh-token',
+      expires_in: 3600,
+    };
+    const mockUserData = {
+      userid: 'da-user-456',
+      username: 'sidebrand',
+      usericon: 'https://example.com/side.jpg',
+    };
+
+    beforeEach(() => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(mockTokenData) } as any)
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(mockUserData) } as any);
+    });
+
+    function linkingRequest() {
+      return {
+        query: { code: 'test-code' },
+        session: {
+          userId: 'user-123',
+          accountId: 'account-123',
+          linkingAccountId: 'account-123' as string | undefined,
+          instanceUserRole: 'admin',
+          save: vi.fn((cb: any) => cb(null)),
+        },
+      };
+    }
+
+    it('should attach a new DeviantArt user to the linking account and make it active', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-123',
+      } as any);
+      mockPrisma.instanceUser.findUnique.mockResolvedValue(null);
+      mockPrisma.instanceUser.count.mockResolvedValue(1);
+      mockPrisma.instanceUser.create.mockResolvedValue({ role: 'admin' } as any);
+
+      const req = linkingRequest();
+      const res = { redirect: vi.fn() };
+
+      await callRoute('get', '/deviantart/callback', req, res);
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          account: { connect: { id: 'account-123' } },
+          deviantartId: 'da-user-456',
+        }),
+      });
+      // Team invite settings don't apply to identities linked by an existing member
+      expect(mockPrisma.instanceSettings.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.instanceUser.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ role: 'admin' }),
+      });
+      expect(req.session.linkingAccountId).toBeUndefined();
+      expect(req.session.accountId).toBe('account-123');
+      expect(req.session.userId).toBe('user-456');
+      expect(res.redirect).toHaveBeenCalledWith('http://localhost:5173/callback');
+    });
+
+    it('should link a new DeviantArt user while team invites are disabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-123',
+      } as any);
+      mockPrisma.instanceUser.findUnique.mockResolvedValue(null);
+      mockPrisma.instanceUser.count.mockResolvedValue(1);
+      mockPrisma.instanceUser.create.mockResolvedValue({ role: 'admin' } as any);
+      mockPrisma.instanceSettings.findUnique.mockResolvedValue({
+        teamInvitesEnabled: false,
+      } as any);
+
+      // The same DeviantArt user signing in on its own is a new member and is turned away
+      const loginReq = linkingRequest();
+      loginReq.session.linkingAccountId = undefined;
+      const loginRes = { redirect: vi.fn() };
+
+      await callRoute('get', '/deviantart/callback', loginReq, loginRes);
+
+      expect(loginRes.redirect).toHaveBeenCalledWith(
+        'http://localhost:5173/callback?error=team_invites_disabled'
+      );
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(mockTokenData) } as any)
+        .mockResolvedValueOnce({ ok: true, json: vi.fn().mockResolvedValue(mockUserData) } as any);
+      const linkReq = linkingRequest();
+      const linkRes = { redirect: vi.fn() };
+
+      await callRoute('get', '/deviantart/callback', linkReq, linkRes);
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ account: { connect: { id: 'account-123' } } }),
+      });
+      expect(linkReq.session.userId).toBe('user-456');
+      expect(linkRes.redirect).toHaveBeenCalledWith('http://localhost:5173/callback');
+    });
+
+    it('should move a standalone DeviantArt user into the linking account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-456',
+      } as any);
+      mockPrisma.user.count.mockResolvedValue(1);
+      mockPrisma.instanceUser.findUnique.mockResolvedValue({ id: 'iu-456', role: 'member' } as any);
+
+      const req = linkingRequest();
+      const res = { redirect: vi.fn() };
+
+      await callRoute('get', '/deviantart/callback', req, res);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-456' },
+        data: expect.objectContaining({ accountId: 'account-123' }),
+      });
+      expect(mockPrisma.account.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'account-456', users: { none: {} } },
+      });
+      expect(req.session.userId).toBe('user-456');
+    });
+
+    it('should refuse a DeviantArt user that belongs to another multi-account login', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-456',
+      } as any);
+      mockPrisma.user.count.mockResolvedValue(2);
+      mockPrisma.instanceUser.findUnique.mockResolvedValue({ id: 'iu-456', role: 'member' } as any);
+
+      const req = linkingRequest();
+      const res = { redirect: vi.fn() };
+
+      await callRoute('get', '/deviantart/callback', req, res);
+
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+      expect(req.session.userId).toBe('user-123');
+      expect(res.redirect).toHaveBeenCalledWith(
+        'http://localhost:5173/callback?error=account_already_linked'
+      );
+    });
+  });
+
+  describe('linked accounts', () => {
+    const activeUser = {
+      id: 'user-123',
+      accountId: 'account-123',
+      deviantartId: 'da-user-123',
+    };
+
+    it('GET /accounts should list DeviantArt users on the same account', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        {
+          id: 'user-123',
+          deviantartId: 'da-user-123',
+          username: 'testuser',
+          avatarUrl: null,
+          refreshTokenExpiresAt: new Date(Date.now() + 86400000),
+        },
+      ] as any);
+
+      const req = { user: activeUser };
+      const res = { json: vi.fn() };
+
+      await callRoute('get', '/accounts', req, res);
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { accountId: 'account-123' } })
+      );
+      expect(res.json).toHaveBeenCalledWith({
+        accounts: [expect.objectContaining({ id: 'user-123', isActive: true, needsReauth: false })],
+      });
+    });
+
+    it('POST /accounts/link should remember the linking account and return an OAuth URL', async () => {
+      const req = { user: activeUser, session: {} as any };
+      const res = { json: vi.fn() };
+
+      await callRoute('post', '/accounts/link', req, res);
+
+      expect(req.session.linkingAccountId).toBe('account-123');
+      expect(res.json).toHaveBeenCalledWith({
+        authUrl: expect.stringContaining('https://www.deviantart.com/oauth2/authorize'),
+      });
+    });
+
+    it('POST /accounts/:id/switch should change the active DeviantArt user', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-123',
+        deviantartId: 'da-user-456',
+      } as any);
+      mockPrisma.instanceUser.findUnique.mockResolvedValue({ role: 'member' } as any);
+
+      const req = {
+        user: activeUser,
+        params: { id: 'user-456' },
+        session: { userId: 'user-123', instanceUserRole: 'admin' },
+      };
+      const res = { json: vi.fn() };
+
+      await callRoute('post', '/accounts/:id/switch', req, res);
+
+      expect(mockPrisma.user.findFirst).toHaveBeenCalledWith({
+        where: { id: 'user-456', accountId: 'account-123' },
+      });
+      expect(req.session.userId).toBe('user-456');
+      expect(req.session.instanceUserRole).toBe('member');
+      expect(res.json).toHaveBeenCalledWith({ success: true, activeUserId: 'user-456' });
+    });
+
+    it('POST /accounts/:id/switch should 404 for users outside the account', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+
+      const req = { user: activeUser, params: { id: 'user-999' }, session: {} };
+      const res = { json: vi.fn() };
+
+      await expect(callRoute('post', '/accounts/:id/switch', req, res)).rejects.toThrow(
+        'Linked account not found'
+      );
+    });
+
+    it('DELETE /accounts/:id should move the user to a standalone account', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue({
+        id: 'user-456',
+        accountId: 'account-123',
+        username: 'sidebrand',
+      } as any);
+
+      const req = { user: activeUser, params: { id: 'user-456' } };
+      const res = { json: vi.fn() };
+
+      await callRoute('delete', '/accounts/:id', req, res);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-456' },
+        data: { account: { create: {} } },
+      });
+      expect(res.json).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('DELETE /accounts/:id should refuse to unlink the active user', async () => {
+      const req = { user: activeUser, params: { id: 'user-123' } };
+      const res = { json: vi.fn() };
+
+      await expect(callRoute('delete', '/accounts/:id', req, res)).rejects.toThrow(
+        'Switch to another account before unlinking the active one'
+      );
+    });
+  });
+
   describe('GET /me', () => {
     it('should return current user info with token status', async () => {
       const now = new Date();
@@ -531,6 +799,7 @@ describe('Auth Routes', () => {
         username: 'testuser',
         avatarUrl: 'https://example.com/avatar.jpg',
         email: 'test@example.com',
+        accountId: 'account-123',
         createdAt: new Date('2025-01-01'),
         refreshTokenExpiresAt: expiresAt,
       };
@@ -540,6 +809,22 @@ describe('Auth Routes', () => {
         daUserId: 'da-user-123',
         role: 'admin',
       } as any);
+      mockPrisma.user.findMany.mockResolvedValue([
+        {
+          id: 'user-123',
+          deviantartId: 'da-user-123',
+          username: 'testuser',
+          avatarUrl: 'https://example.com/avatar.jpg',
+          refreshTokenExpiresAt: expiresAt,
+        },
+        {
+          id: 'user-456',
+          deviantartId: 'da-user-456',
+          username: 'sidebrand',
+          avatarUrl: null,
+          refreshTokenExpiresAt: new Date(now.getTime() - 1000),
+        },
+      ] as any);
 
       const req = {
         user: mockUser,
@@ -550,8 +835,12 @@ describe('Auth Routes', () => {
 
       await callRoute('get', '/me', req, res);
 
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { accountId: 'account-123' } })
+      );
       expect(res.json).toHaveBeenCalledWith({
         id: 'user-123',
+        accountId: 'account-123',
         deviantartId: 'da-user-123',
         username: 'testuser',
         avatarUrl: 'https://example.com/avatar.jpg',
@@ -565,6 +854,24 @@ describe('Auth Routes', () => {
           daysUntilExpiry: expect.any(Number),
           needsReauth: false,
         },
+        linkedAccounts: [
+          {
+            id: 'user-123',
+            deviantartId: 'da-user-123',
+            username: 'testuser',
+            avatarUrl: 'https://example.com/avatar.jpg',
+            isActive: true,
+            needsReauth: false,
+          },
+          {
+            id: 'user-456',
+            deviantartId: 'da-user-456',
+            username: 'sidebrand',
+            avatarUrl: null,
+            isActive: false,
+            needsReauth: true,
+          },
+        ],
       });
     });
 
@@ -587,6 +894,7 @@ describe('Auth Routes', () => {
         daUserId: 'da-user-123',
         role: 'member',
       } as any);
+      mockPrisma.user.findMany.mockResolvedValue([]);
 
       const req = {
         user: mockUser,
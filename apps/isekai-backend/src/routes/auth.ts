@@ -16,24 +16,22 @@
  */
 
 import { Router } from 'express';
+import { encryptToken, getDeviantArtEndpoints } from '@isekai/shared';
 import { prisma } from '../db/index.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { AppError } from '../middleware/error.js';
 import { logger } from '../lib/logger.js';
 import { env } from '../lib/env.js';
 
 const router = Router();
 
-const DEVIANTART_AUTH_URL = 'https://www.deviantart.com/oauth2/authorize';
-const DEVIANTART_TOKEN_URL = 'https://www.deviantart.com/oauth2/token';
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
-
-// Redirect to DeviantArt OAuth
-router.get('/deviantart', (req, res) => {
-  logger.debug('OAuth redirect initiated', {
-    clientId: process.env.DEVIANTART_CLIENT_ID,
-    redirectUri: process.env.DEVIANTART_REDIRECT_URI,
-  });
+const {
+  authUrl: DEVIANTART_AUTH_URL,
+  tokenUrl: DEVIANTART_TOKEN_URL,
+  apiUrl: DEVIANTART_API_URL,
+} = getDeviantArtEndpoints();
 
+function buildDeviantArtAuthUrl(): string {
   const params = new URLSearchParams({
     response_type: 'code',
     client_id: process.env.DEVIANTART_CLIENT_ID!,
@@ -41,7 +39,17 @@ router.get('/deviantart', (req, res) => {
     scope: 'user browse stash publish note message gallery',
   });
 
-  const authUrl = `${DEVIANTART_AUTH_URL}?${params}`;
+  return `${DEVIANTART_AUTH_URL}?${params}`;
+}
+
+// Redirect to DeviantArt OAuth
+router.get('/deviantart', (req, res) => {
+  logger.debug('OAuth redirect initiated', {
+    clientId: process.env.DEVIANTART_CLIENT_ID,
+    redirectUri: process.env.DEVIANTART_REDIRECT_URI,
+  });
+
+  const authUrl = buildDeviantArtAuthUrl();
   logger.debug('Redirecting to DeviantArt OAuth', { authUrl });
   res.redirect(authUrl);
 });
@@ -51,6 +59,10 @@ router.get('/deviantart/callback', async (req, res) => {
   logger.debug('OAuth callback received', { query: req.query });
   const { code, error } = req.query;
 
+  // Set by POST /accounts/link - the DeviantArt identity is attached to this Isekai account
+  const linkingAccountId = req.session.linkingAccountId;
+  delete req.session.linkingAccountId;
+
   if (error) {
     logger.error('OAuth error received from DeviantArt', { error });
     return res.redirect(`${process.env.FRONTEND_URL}/callback?error=${error}`);
@@ -137,8 +149,25 @@ router.get('/deviantart/callback', async (req, res) => {
       }
     }
 
-    // For new instance users: check team invite settings
-    if (!existingInstanceUser) {
+    // Linking to an existing Isekai account: the identity may only move over from an
+    // account where it is the sole member (i.e. a standalone login of the same person)
+    if (linkingAccountId && existingUser && existingUser.accountId !== linkingAccountId) {
+      const siblingCount = await prisma.user.count({
+        where: { accountId: existingUser.accountId },
+      });
+      if (siblingCount > 1) {
+        logger.warn('DeviantArt account already linked to another Isekai account', {
+          username: userData.username,
+        });
+        return res.redirect(`${env.FRONTEND_URL}/callback?error=account_already_linked`);
+      }
+    }
+
+    // For new instance users: check team invite settings. Invites gate who joins the
+    // instance, so they're skipped when a signed-in member links another DeviantArt
+    // identity of their own - it joins their account with their role rather than adding a
+    // new person. MAX_DA_ACCOUNTS above still applies to linked identities.
+    if (!existingInstanceUser && !linkingAccountId) {
       const [instanceUserCount, instanceSettings] = await Promise.all([
         prisma.instanceUser.count(),
         prisma.instanceSettings.findUnique({ where: { id: 'singleton' } }),
@@ -159,15 +188,19 @@ router.get('/deviantart/callback', async (req, res) => {
 
     // Upsert user (DA account)
     let userId: string;
+    let accountId: string;
 
     if (existingUser) {
+      accountId = linkingAccountId ?? existingUser.accountId;
+
       await prisma.user.update({
         where: { id: existingUser.id },
         data: {
+          accountId,
           username: userData.username,
           avatarUrl: userData.usericon,
-          accessToken: access_token,
-          refreshToken: refresh_token,
+          accessToken: encryptToken(access_token),
+          refreshToken: encryptToken(refresh_token),
           tokenExpiresAt,
           refreshTokenExpiresAt,
           refreshTokenWarningEmailSent: false,
@@ -177,19 +210,28 @@ router.get('/deviantart/callback', async (req, res) => {
         },
       });
       userId = existingUser.id;
+
+      // Drop the standalone account the identity was moved out of
+      if (accountId !== existingUser.accountId) {
+        await prisma.account.deleteMany({
+          where: { id: existingUser.accountId, users: { none: {} } },
+        });
+      }
     } else {
       const newUser = await prisma.user.create({
         data: {
+          account: linkingAccountId ? { connect: { id: linkingAccountId } } : { create: {} },
           deviantartId: userData.userid,
           username: userData.username,
           avatarUrl: userData.usericon,
-          accessToken: access_token,
-          refreshToken: refresh_token,
+          accessToken: encryptToken(access_token),
+          refreshToken: encryptToken(refresh_token),
           tokenExpiresAt,
           refreshTokenExpiresAt,
         },
       });
       userId = newUser.id;
+      accountId = newUser.accountId;
     }
 
     // Upsert instance user (for admin system)
@@ -207,12 +249,15 @@ router.get('/deviantart/callback', async (req, res) => {
       const instanceUserCount = await prisma.instanceUser.count();
       const isFirstUser = instanceUserCount === 0;
 
+      // A linked identity inherits the role of the account that linked it
+      const isAdmin = linkingAccountId ? req.session.instanceUserRole === 'admin' : isFirstUser;
+
       const newInstanceUser = await prisma.instanceUser.create({
         data: {
           daUserId: userData.userid,
           daUsername: userData.username,
           daAvatar: userData.usericon,
-          role: isFirstUser ? 'admin' : 'member',
+          role: isAdmin ? 'admin' : 'member',
           lastLoginAt: new Date(),
         },
       });
@@ -225,7 +270,8 @@ router.get('/deviantart/callback', async (req, res) => {
       });
     }
 
-    // Set session
+    // Set session (a freshly linked identity becomes the active one)
+    req.session.accountId = accountId;
     req.session.userId = userId;
     req.session.instanceUserRole = instanceUserRole;
 
@@ -257,13 +303,17 @@ router.get('/me', authMiddleware, async (req, res) => {
     (user.refreshTokenExpiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
   );
 
-  // Get instance user role
-  const instanceUser = await prisma.instanceUser.findUnique({
-    where: { daUserId: user.deviantartId },
-  });
+  // Get instance user role and the DeviantArt identities linked to this login
+  const [instanceUser, linkedUsers] = await Promise.all([
+    prisma.instanceUser.findUnique({
+      where: { daUserId: user.deviantartId },
+    }),
+    findLinkedUsers(user.accountId),
+  ]);
 
   res.json({
     id: user.id,
+    accountId: user.accountId,
     deviantartId: user.deviantartId,
     username: user.username,
     avatarUrl: user.avatarUrl,
@@ -279,6 +329,7 @@ router.get('/me', authMiddleware, async (req, res) => {
       daysUntilExpiry: Math.max(0, daysUntilTokenExpiry),
       needsReauth: user.refreshTokenExpiresAt <= now,
     },
+    linkedAccounts: linkedUsers.map((linked) => transformLinkedAccount(linked, user.id, now)),
   });
 });
 
@@ -306,16 +357,82 @@ router.get('/token-status', authMiddleware, (req, res) => {
 // Trigger manual re-authentication
 router.post('/reauth', authMiddleware, (req, res) => {
   // Return the OAuth URL for re-authentication
-  const params = new URLSearchParams({
-    response_type: 'code',
-    client_id: process.env.DEVIANTART_CLIENT_ID!,
-    redirect_uri: process.env.DEVIANTART_REDIRECT_URI!,
-    scope: 'user browse stash publish note message gallery',
+  res.json({
+    authUrl: buildDeviantArtAuthUrl(),
   });
+});
+
+// List DeviantArt accounts linked to the current Isekai login
+router.get('/accounts', authMiddleware, async (req, res) => {
+  const user = req.user!;
+  const linkedUsers = await findLinkedUsers(user.accountId);
+  const now = new Date();
 
   res.json({
-    authUrl: `${DEVIANTART_AUTH_URL}?${params}`,
+    accounts: linkedUsers.map((linked) => transformLinkedAccount(linked, user.id, now)),
+  });
+});
+
+// Start linking another DeviantArt account - the OAuth callback attaches it to this login
+router.post('/accounts/link', authMiddleware, (req, res) => {
+  req.session.linkingAccountId = req.user!.accountId;
+
+  res.json({
+    authUrl: buildDeviantArtAuthUrl(),
+  });
+});
+
+// Switch the active DeviantArt account
+router.post('/accounts/:id/switch', authMiddleware, async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  const target = await prisma.user.findFirst({
+    where: { id, accountId: user.accountId },
+  });
+
+  if (!target) {
+    throw new AppError(404, 'Linked account not found');
+  }
+
+  const instanceUser = await prisma.instanceUser.findUnique({
+    where: { daUserId: target.deviantartId },
+  });
+
+  req.session.userId = target.id;
+  req.session.instanceUserRole = instanceUser?.role || 'member';
+
+  res.json({ success: true, activeUserId: target.id });
+});
+
+// Unlink a DeviantArt account - it keeps its data and becomes a standalone login again
+router.delete('/accounts/:id', authMiddleware, async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  if (id === user.id) {
+    throw new AppError(400, 'Switch to another account before unlinking the active one');
+  }
+
+  const target = await prisma.user.findFirst({
+    where: { id, accountId: user.accountId },
+  });
+
+  if (!target) {
+    throw new AppError(404, 'Linked account not found');
+  }
+
+  await prisma.user.update({
+    where: { id: target.id },
+    data: { account: { create: {} } },
+  });
+
+  logger.info('DeviantArt account unlinked', {
+    accountId: user.accountId,
+    username: target.username,
   });
+
+  res.json({ success: true });
 });
 
 // Logout
@@ -332,4 +449,33 @@ router.post('/logout', (req, res) => {
   });
 });
 
+function findLinkedUsers(accountId: string) {
+  return prisma.user.findMany({
+    where: { accountId },
+    select: {
+      id: true,
+      deviantartId: true,
+      username: true,
+      avatarUrl: true,
+      refreshTokenExpiresAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+function transformLinkedAccount(
+  linked: Awaited<ReturnType<typeof findLinkedUsers>>[number],
+  activeUserId: string,
+  now: Date
+) {
+  return {
+    id: linked.id,
+    deviantartId: linked.deviantartId,
+    username: linked.username,
+    avatarUrl: linked.avatarUrl,
+    isActive: linked.id === activeUserId,
+    needsReauth: linked.refreshTokenExpiresAt <= now,
+  };
+}
+
 export { router as authRouter };
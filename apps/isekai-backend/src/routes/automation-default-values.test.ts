@@ -32,6 +32,9 @@ vi.mock('../db/index.js', () => ({
       update: vi.fn(),
       delete: vi.fn(),
     },
+    template: {
+      findFirst: vi.fn(),
+    },
   },
 }));
 
@@ -616,6 +619,55 @@ describe('automation-default-values routes', () => {
     });
   });
 
+  describe('POST / - commentTemplateId field', () => {
+    it('should create commentTemplateId with an owned comment template', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          fieldName: 'commentTemplateId',
+          value: 'template-123',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.template.findFirst as any).mockResolvedValue({ id: 'template-123' });
+      (prisma.automationDefaultValue.findUnique as any).mockResolvedValue(null);
+      (prisma.automationDefaultValue.create as any).mockResolvedValue({
+        ...mockDefaultValue,
+        fieldName: 'commentTemplateId',
+        value: 'template-123',
+      });
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.template.findFirst).toHaveBeenCalledWith({
+        where: { id: 'template-123', userId: 'user-123', type: 'comment' },
+        select: { id: true },
+      });
+      expect(prisma.automationDefaultValue.create).toHaveBeenCalled();
+    });
+
+    it('should reject unknown comment template', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          fieldName: 'commentTemplateId',
+          value: 'missing-template',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.template.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow('Comment template not found');
+      expect(prisma.automationDefaultValue.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('PATCH /:id', () => {
     it('should update value successfully', async () => {
       const req = createMockRequest({
@@ -36,10 +36,11 @@ const VALID_FIELD_NAMES = [
   'noAi',
   'addWatermark',
   'displayResolution',
+  'commentTemplateId',
 ] as const;
 
 // Zod schemas
-const createDefaultValueSchema = z.object({
+export const createDefaultValueSchema = z.object({
   fieldName: z.enum(VALID_FIELD_NAMES),
   value: z.any(), // Will validate based on fieldName
   applyIfEmpty: z.boolean().default(true),
@@ -51,7 +52,7 @@ const updateDefaultValueSchema = z.object({
 });
 
 // Validate value based on field name
-function validateFieldValue(fieldName: string, value: any): void {
+export function validateFieldValue(fieldName: string, value: any): void {
   switch (fieldName) {
     case 'description':
     case 'categoryPath':
@@ -156,11 +157,33 @@ function validateFieldValue(fieldName: string, value: any): void {
       }
       break;
 
+    case 'commentTemplateId':
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        throw new AppError(400, 'commentTemplateId must be a template ID');
+      }
+      break;
+
     default:
       throw new AppError(400, `Invalid field name: ${fieldName}`);
   }
 }
 
+// Comment template defaults must point at one of the user's own comment templates
+async function validateCommentTemplate(userId: string, fieldName: string, value: any) {
+  if (fieldName !== 'commentTemplateId') {
+    return;
+  }
+
+  const template = await prisma.template.findFirst({
+    where: { id: value, userId, type: 'comment' },
+    select: { id: true },
+  });
+
+  if (!template) {
+    throw new AppError(400, 'Comment template not found');
+  }
+}
+
 // List default values for specific automation
 router.get('/', async (req, res) => {
   const userId = req.user!.id;
@@ -205,6 +228,7 @@ router.post('/', async (req, res) => {
 
   // Validate the value for the field
   validateFieldValue(data.fieldName, data.value);
+  await validateCommentTemplate(userId, data.fieldName, data.value);
 
   // Verify ownership of automation
   const automation = await prisma.automation.findFirst({
@@ -269,6 +293,7 @@ router.patch('/:id', async (req, res) => {
   // Validate the new value if provided
   if (data.value !== undefined) {
     validateFieldValue(defaultValue.fieldName, data.value);
+    await validateCommentTemplate(userId, defaultValue.fieldName, data.value);
   }
 
   const updateData: any = {};
@@ -27,6 +27,7 @@ vi.mock('../db/index.js', () => ({
     },
     automationScheduleRule: {
       findMany: vi.fn(),
+      findFirst: vi.fn(),
       findUnique: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -96,6 +97,42 @@ describe('automation-schedule-rules routes', () => {
     updatedAt: new Date('2024-01-01T00:00:00Z'),
   };
 
+  const mockCronRule = {
+    id: 'rule-4',
+    automationId: 'automation-123',
+    type: 'cron',
+    timeOfDay: null,
+    daysOfWeek: null,
+    intervalMinutes: null,
+    deviationsPerInterval: null,
+    dailyQuota: null,
+    cronExpression: '0 19 * * 2#1,2#3',
+    priority: 0,
+    enabled: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const mockTimeWindowRule = {
+    id: 'rule-5',
+    automationId: 'automation-123',
+    type: 'time_window',
+    timeOfDay: null,
+    daysOfWeek: null,
+    intervalMinutes: null,
+    deviationsPerInterval: null,
+    dailyQuota: null,
+    cronExpression: null,
+    windowStart: '18:00',
+    windowEnd: '23:00',
+    windowPostCount: 3,
+    windowMinGapMinutes: 45,
+    priority: 0,
+    enabled: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
@@ -212,6 +249,8 @@ describe('automation-schedule-rules routes', () => {
           daysOfWeek: ['monday', 'wednesday', 'friday'],
           priority: 0,
           enabled: true,
+          missedTriggerPolicy: 'skip',
+          lastFiredAt: expect.any(Date),
         },
       });
       expect(res.status).toHaveBeenCalledWith(201);
@@ -450,9 +489,349 @@ describe('automation-schedule-rules routes', () => {
 
       await expect(callRoute('POST', '/', req, res)).rejects.toThrow();
     });
+
+    it('should create an even quota across the active hours', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'daily_quota',
+          dailyQuota: 6,
+          quotaDistribution: 'even',
+          activeHoursStart: '09:00',
+          activeHoursEnd: '21:00',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationScheduleRule.create as any).mockResolvedValue(mockDailyQuotaRule);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.automationScheduleRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          dailyQuota: 6,
+          quotaDistribution: 'even',
+          activeHoursStart: '09:00',
+          activeHoursEnd: '21:00',
+          quotaMinGapMinutes: 0,
+          quotaCatchUp: true,
+        }),
+      });
+    });
+
+    it('should require active hours for a spread quota', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'daily_quota',
+          dailyQuota: 6,
+          quotaDistribution: 'random',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'activeHoursStart and activeHoursEnd are required for an even or random quota'
+      );
+    });
+
+    it('should reject a random quota that cannot fit the gap', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'daily_quota',
+          dailyQuota: 5,
+          quotaDistribution: 'random',
+          activeHoursStart: '09:00',
+          activeHoursEnd: '11:00',
+          quotaMinGapMinutes: 60,
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        '120 minutes of active hours cannot fit 5 posts 60 minutes apart'
+      );
+      expect(prisma.automationScheduleRule.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST / - cron rule', () => {
+    it('should create cron rule with valid expression', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'cron',
+          cronExpression: ' 0 19 * * 2#1,2#3 ',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationScheduleRule.create as any).mockResolvedValue(mockCronRule);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.automationScheduleRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'cron',
+          cronExpression: '0 19 * * 2#1,2#3',
+        }),
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should reject invalid cron expression', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'cron',
+          cronExpression: '0 25 * * *',
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(/Invalid cron expression/);
+    });
+
+    it('should reject cron expression that never runs', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'cron',
+          cronExpression: '0 9 30 2 *',
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(/never runs/);
+    });
+
+    it('should reject cron rule without expression', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          automationId: 'automation-123',
+          type: 'cron',
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow();
+    });
+  });
+
+  describe('POST / - time_window rule', () => {
+    const windowBody = {
+      automationId: 'automation-123',
+      type: 'time_window',
+      windowStart: '18:00',
+      windowEnd: '23:00',
+      windowPostCount: 3,
+      windowMinGapMinutes: 45,
+    };
+
+    it('should create time_window rule with valid data', async () => {
+      const req = createMockRequest({ user: mockUser, body: windowBody });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationScheduleRule.findFirst as any).mockResolvedValue(null);
+      (prisma.automationScheduleRule.create as any).mockResolvedValue(mockTimeWindowRule);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.automationScheduleRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'time_window',
+          windowStart: '18:00',
+          windowEnd: '23:00',
+          windowPostCount: 3,
+          windowMinGapMinutes: 45,
+        }),
+      });
+    });
+
+    it('should default the minimum gap to 30 minutes', async () => {
+      const { windowMinGapMinutes: _gap, ...body } = windowBody;
+      const req = createMockRequest({ user: mockUser, body });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationScheduleRule.findFirst as any).mockResolvedValue(null);
+      (prisma.automationScheduleRule.create as any).mockResolvedValue(mockTimeWindowRule);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.automationScheduleRule.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ windowMinGapMinutes: 30 }),
+      });
+    });
+
+    it('should reject window that ends before it starts', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: { ...windowBody, windowStart: '23:00', windowEnd: '18:00' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'windowEnd must be after windowStart'
+      );
+    });
+
+    it('should reject window too short for the posts and gap', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: { ...windowBody, windowPostCount: 10, windowMinGapMinutes: 60 },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'A 300-minute window cannot fit 10 posts 60 minutes apart'
+      );
+    });
+
+    it('should reject a second time_window rule on the same automation', async () => {
+      const req = createMockRequest({ user: mockUser, body: windowBody });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationScheduleRule.findFirst as any).mockResolvedValue(mockTimeWindowRule);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'Automation already has a time_window rule'
+      );
+      expect(prisma.automationScheduleRule.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('PATCH /:id', () => {
+    it('should update time_window rule and validate the merged window', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-5' },
+        body: { windowPostCount: 7 },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockTimeWindowRule,
+        automation: mockAutomation,
+      });
+
+      // 6 gaps of 45 minutes = 270 minutes, fits in 18:00-23:00
+      (prisma.automationScheduleRule.update as any).mockResolvedValue({
+        ...mockTimeWindowRule,
+        windowPostCount: 7,
+      });
+      await callRoute('PATCH', '/:id', req, res);
+      expect(prisma.automationScheduleRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-5' },
+        data: { windowPostCount: 7 },
+      });
+
+      // 7 gaps of 45 minutes = 315 minutes, doesn't fit
+      req.body = { windowPostCount: 8 };
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'A 300-minute window cannot fit 8 posts 45 minutes apart'
+      );
+    });
+
+    it('should reject setting window fields on other rule types', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-3' },
+        body: { windowStart: '18:00' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockDailyQuotaRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'Cannot set window fields on daily_quota rule'
+      );
+    });
+
+    it('should update cron rule expression', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-4' },
+        body: { cronExpression: '0 9 1,15 * *' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockCronRule,
+        automation: mockAutomation,
+      });
+      (prisma.automationScheduleRule.update as any).mockResolvedValue({
+        ...mockCronRule,
+        cronExpression: '0 9 1,15 * *',
+      });
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automationScheduleRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-4' },
+        data: { cronExpression: '0 9 1,15 * *' },
+      });
+    });
+
+    it('should reject setting time fields on cron rule', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-4' },
+        body: { timeOfDay: '14:00' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockCronRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'Cannot set time, interval or quota fields on cron rule'
+      );
+    });
+
+    it('should reject setting cronExpression on other rule types', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-1' },
+        body: { cronExpression: '0 9 * * *' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockFixedTimeRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'Cannot set cronExpression on fixed_time rule'
+      );
+    });
+
     it('should update fixed_time rule timeOfDay', async () => {
       const req = createMockRequest({
         user: mockUser,
@@ -474,10 +853,76 @@ describe('automation-schedule-rules routes', () => {
 
       expect(prisma.automationScheduleRule.update).toHaveBeenCalledWith({
         where: { id: 'rule-1' },
-        data: { timeOfDay: '16:00' },
+        data: { timeOfDay: '16:00', lastFiredAt: expect.any(Date), carriedOverCount: 0 },
       });
     });
 
+    it('should update fixed_time rule missedTriggerPolicy', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-1' },
+        body: { missedTriggerPolicy: 'next_slot' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockFixedTimeRule,
+        automation: mockAutomation,
+      });
+      (prisma.automationScheduleRule.update as any).mockResolvedValue({
+        ...mockFixedTimeRule,
+        missedTriggerPolicy: 'next_slot',
+      });
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automationScheduleRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-1' },
+        data: { missedTriggerPolicy: 'next_slot' },
+      });
+    });
+
+    it('should restart trigger tracking when a fixed_time rule is re-enabled', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-1' },
+        body: { enabled: true },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockFixedTimeRule,
+        enabled: false,
+        automation: mockAutomation,
+      });
+      (prisma.automationScheduleRule.update as any).mockResolvedValue(mockFixedTimeRule);
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automationScheduleRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-1' },
+        data: { enabled: true, lastFiredAt: expect.any(Date), carriedOverCount: 0 },
+      });
+    });
+
+    it('should reject setting missedTriggerPolicy on other rule types', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-2' },
+        body: { missedTriggerPolicy: 'fire_late' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockFixedIntervalRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'Cannot set missedTriggerPolicy on fixed_interval rule'
+      );
+    });
+
     it('should reject setting interval fields on fixed_time rule', async () => {
       const req = createMockRequest({
         user: mockUser,
@@ -582,6 +1027,42 @@ describe('automation-schedule-rules routes', () => {
       });
     });
 
+    it('should validate the active hours after the update', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-3' },
+        body: { quotaDistribution: 'even', activeHoursStart: '21:00', activeHoursEnd: '09:00' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockDailyQuotaRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'activeHoursEnd must be after activeHoursStart'
+      );
+    });
+
+    it('should reject quota distribution fields on other rules', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'rule-1' },
+        body: { quotaCatchUp: false },
+      });
+      const res = createMockResponse();
+
+      (prisma.automationScheduleRule.findUnique as any).mockResolvedValue({
+        ...mockFixedTimeRule,
+        automation: mockAutomation,
+      });
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'Cannot set quota distribution fields on fixed_time rule'
+      );
+    });
+
     it('should reject setting time fields on daily_quota rule', async () => {
       const req = createMockRequest({
         user: mockUser,
@@ -17,6 +17,11 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
+import {
+  getCronExpressionError,
+  MISSED_TRIGGER_POLICIES,
+  QUOTA_DISTRIBUTIONS,
+} from '@isekai/shared';
 import { prisma } from '../db/index.js';
 import { AppError } from '../middleware/error.js';
 
@@ -27,14 +32,26 @@ const timeOfDaySchema = z
   .string()
   .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format. Use HH:MM');
 
+const cronExpressionSchema = z
+  .string()
+  .trim()
+  .max(200)
+  .superRefine((value, ctx) => {
+    const error = getCronExpressionError(value);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid cron expression: ${error}` });
+    }
+  });
+
 const daysOfWeekSchema = z
   .array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']))
   .optional();
 
-const createRuleSchema = z.discriminatedUnion('type', [
+export const createRuleSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('fixed_time'),
     timeOfDay: timeOfDaySchema,
+    missedTriggerPolicy: z.enum(MISSED_TRIGGER_POLICIES).default('skip'),
     daysOfWeek: daysOfWeekSchema,
     priority: z.number().int().default(0),
     enabled: z.boolean().default(true),
@@ -50,17 +67,178 @@ const createRuleSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('daily_quota'),
     dailyQuota: z.number().int().min(1).max(100),
+    quotaDistribution: z.enum(QUOTA_DISTRIBUTIONS).default('asap'),
+    activeHoursStart: timeOfDaySchema.optional(),
+    activeHoursEnd: timeOfDaySchema.optional(),
+    quotaMinGapMinutes: z.number().int().min(0).max(720).default(0),
+    quotaCatchUp: z.boolean().default(true),
+    daysOfWeek: daysOfWeekSchema,
+    priority: z.number().int().default(0),
+    enabled: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal('cron'),
+    cronExpression: cronExpressionSchema,
+    daysOfWeek: daysOfWeekSchema,
+    priority: z.number().int().default(0),
+    enabled: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal('time_window'),
+    windowStart: timeOfDaySchema,
+    windowEnd: timeOfDaySchema,
+    windowPostCount: z.number().int().min(1).max(50),
+    windowMinGapMinutes: z.number().int().min(0).max(720).default(30),
     daysOfWeek: daysOfWeekSchema,
     priority: z.number().int().default(0),
     enabled: z.boolean().default(true),
   }),
 ]);
 
+function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * The window must be able to hold every post with the minimum gap between them
+ */
+function validateTimeWindow(window: {
+  windowStart: string;
+  windowEnd: string;
+  windowPostCount: number;
+  windowMinGapMinutes: number;
+}): void {
+  const windowMinutes = toMinutes(window.windowEnd) - toMinutes(window.windowStart);
+  if (windowMinutes <= 0) {
+    throw new AppError(400, 'windowEnd must be after windowStart');
+  }
+  if ((window.windowPostCount - 1) * window.windowMinGapMinutes > windowMinutes) {
+    throw new AppError(
+      400,
+      `A ${windowMinutes}-minute window cannot fit ${window.windowPostCount} posts ${window.windowMinGapMinutes} minutes apart`
+    );
+  }
+}
+
+/**
+ * An even or random quota needs active hours, and a random one must fit its posts
+ * with the minimum gap between them
+ */
+function validateQuotaDistribution(quota: {
+  dailyQuota: number;
+  quotaDistribution: string;
+  activeHoursStart?: string | null;
+  activeHoursEnd?: string | null;
+  quotaMinGapMinutes: number;
+}): void {
+  if (quota.quotaDistribution === 'asap') {
+    return;
+  }
+  if (!quota.activeHoursStart || !quota.activeHoursEnd) {
+    throw new AppError(
+      400,
+      'activeHoursStart and activeHoursEnd are required for an even or random quota'
+    );
+  }
+
+  const activeMinutes = toMinutes(quota.activeHoursEnd) - toMinutes(quota.activeHoursStart);
+  if (activeMinutes <= 0) {
+    throw new AppError(400, 'activeHoursEnd must be after activeHoursStart');
+  }
+  if (
+    quota.quotaDistribution === 'random' &&
+    (quota.dailyQuota - 1) * quota.quotaMinGapMinutes > activeMinutes
+  ) {
+    throw new AppError(
+      400,
+      `${activeMinutes} minutes of active hours cannot fit ${quota.dailyQuota} posts ${quota.quotaMinGapMinutes} minutes apart`
+    );
+  }
+}
+
+/**
+ * Checks the fields of a new rule that depend on each other
+ */
+export function validateNewRule(ruleData: z.infer<typeof createRuleSchema>): void {
+  if (ruleData.type === 'daily_quota') {
+    validateQuotaDistribution({
+      dailyQuota: ruleData.dailyQuota,
+      quotaDistribution: ruleData.quotaDistribution,
+      activeHoursStart: ruleData.activeHoursStart,
+      activeHoursEnd: ruleData.activeHoursEnd,
+      quotaMinGapMinutes: ruleData.quotaMinGapMinutes,
+    });
+  }
+
+  if (ruleData.type === 'time_window') {
+    validateTimeWindow({
+      windowStart: ruleData.windowStart,
+      windowEnd: ruleData.windowEnd,
+      windowPostCount: ruleData.windowPostCount,
+      windowMinGapMinutes: ruleData.windowMinGapMinutes,
+    });
+  }
+}
+
+/**
+ * Rule columns for a new rule, without automationId
+ */
+export function toRuleCreateData(ruleData: z.infer<typeof createRuleSchema>) {
+  // Create the rule with type-specific fields
+  const createData: any = {
+    type: ruleData.type,
+    priority: ruleData.priority,
+    enabled: ruleData.enabled,
+    daysOfWeek: ruleData.daysOfWeek || null,
+  };
+
+  // Add type-specific fields
+  if (ruleData.type === 'fixed_time') {
+    createData.timeOfDay = ruleData.timeOfDay;
+    createData.missedTriggerPolicy = ruleData.missedTriggerPolicy;
+    // Occurrences before the rule existed are not missed
+    createData.lastFiredAt = new Date();
+  } else if (ruleData.type === 'fixed_interval') {
+    createData.intervalMinutes = ruleData.intervalMinutes;
+    createData.deviationsPerInterval = ruleData.deviationsPerInterval;
+  } else if (ruleData.type === 'daily_quota') {
+    createData.dailyQuota = ruleData.dailyQuota;
+    createData.quotaDistribution = ruleData.quotaDistribution;
+    createData.quotaCatchUp = ruleData.quotaCatchUp;
+    if (ruleData.quotaDistribution !== 'asap') {
+      createData.activeHoursStart = ruleData.activeHoursStart;
+      createData.activeHoursEnd = ruleData.activeHoursEnd;
+      createData.quotaMinGapMinutes = ruleData.quotaMinGapMinutes;
+    }
+  } else if (ruleData.type === 'cron') {
+    createData.cronExpression = ruleData.cronExpression;
+  } else if (ruleData.type === 'time_window') {
+    createData.windowStart = ruleData.windowStart;
+    createData.windowEnd = ruleData.windowEnd;
+    createData.windowPostCount = ruleData.windowPostCount;
+    createData.windowMinGapMinutes = ruleData.windowMinGapMinutes;
+  }
+
+  return createData;
+}
+
 const updateRuleSchema = z.object({
   timeOfDay: timeOfDaySchema.optional(),
+  missedTriggerPolicy: z.enum(MISSED_TRIGGER_POLICIES).optional(),
   intervalMinutes: z.number().int().min(5).max(10080).optional(),
   deviationsPerInterval: z.number().int().min(1).max(100).optional(),
   dailyQuota: z.number().int().min(1).max(100).optional(),
+  quotaDistribution: z.enum(QUOTA_DISTRIBUTIONS).optional(),
+  activeHoursStart: timeOfDaySchema.optional(),
+  activeHoursEnd: timeOfDaySchema.optional(),
+  quotaMinGapMinutes: z.number().int().min(0).max(720).optional(),
+  quotaCatchUp: z.boolean().optional(),
+  cronExpression: cronExpressionSchema.optional(),
+  windowStart: timeOfDaySchema.optional(),
+  windowEnd: timeOfDaySchema.optional(),
+  windowPostCount: z.number().int().min(1).max(50).optional(),
+  windowMinGapMinutes: z.number().int().min(0).max(720).optional(),
   daysOfWeek: daysOfWeekSchema,
   priority: z.number().int().optional(),
   enabled: z.boolean().optional(),
@@ -117,25 +295,20 @@ router.post('/', async (req, res) => {
     throw new AppError(404, 'Automation not found');
   }
 
-  // Create the rule with type-specific fields
-  const createData: any = {
-    automationId,
-    type: ruleData.type,
-    priority: ruleData.priority,
-    enabled: ruleData.enabled,
-    daysOfWeek: ruleData.daysOfWeek || null,
-  };
+  validateNewRule(ruleData);
 
-  // Add type-specific fields
-  if (ruleData.type === 'fixed_time') {
-    createData.timeOfDay = ruleData.timeOfDay;
-  } else if (ruleData.type === 'fixed_interval') {
-    createData.intervalMinutes = ruleData.intervalMinutes;
-    createData.deviationsPerInterval = ruleData.deviationsPerInterval;
-  } else if (ruleData.type === 'daily_quota') {
-    createData.dailyQuota = ruleData.dailyQuota;
+  if (ruleData.type === 'time_window') {
+    // Slots are planned per automation and day, so one window per automation
+    const existingWindow = await prisma.automationScheduleRule.findFirst({
+      where: { automationId, type: 'time_window' },
+    });
+    if (existingWindow) {
+      throw new AppError(400, 'Automation already has a time_window rule');
+    }
   }
 
+  const createData = { automationId, ...toRuleCreateData(ruleData) };
+
   const rule = await prisma.automationScheduleRule.create({
     data: createData,
   });
@@ -192,6 +365,80 @@ router.patch('/:id', async (req, res) => {
     }
   }
 
+  const quotaFieldsSet =
+    data.quotaDistribution !== undefined ||
+    data.activeHoursStart !== undefined ||
+    data.activeHoursEnd !== undefined ||
+    data.quotaMinGapMinutes !== undefined ||
+    data.quotaCatchUp !== undefined;
+
+  if (rule.type !== 'daily_quota' && quotaFieldsSet) {
+    throw new AppError(400, `Cannot set quota distribution fields on ${rule.type} rule`);
+  }
+
+  if (rule.type === 'daily_quota') {
+    // Validate the distribution as it will be after the update
+    validateQuotaDistribution({
+      dailyQuota: data.dailyQuota ?? rule.dailyQuota!,
+      quotaDistribution: data.quotaDistribution ?? rule.quotaDistribution ?? 'asap',
+      activeHoursStart: data.activeHoursStart ?? rule.activeHoursStart,
+      activeHoursEnd: data.activeHoursEnd ?? rule.activeHoursEnd,
+      quotaMinGapMinutes: data.quotaMinGapMinutes ?? rule.quotaMinGapMinutes ?? 0,
+    });
+  }
+
+  if (rule.type !== 'fixed_time' && data.missedTriggerPolicy !== undefined) {
+    throw new AppError(400, `Cannot set missedTriggerPolicy on ${rule.type} rule`);
+  }
+
+  if (rule.type !== 'cron' && data.cronExpression !== undefined) {
+    throw new AppError(400, `Cannot set cronExpression on ${rule.type} rule`);
+  }
+
+  const windowFieldsSet =
+    data.windowStart !== undefined ||
+    data.windowEnd !== undefined ||
+    data.windowPostCount !== undefined ||
+    data.windowMinGapMinutes !== undefined;
+
+  if (rule.type !== 'time_window' && windowFieldsSet) {
+    throw new AppError(400, `Cannot set window fields on ${rule.type} rule`);
+  }
+
+  if (rule.type === 'time_window') {
+    if (
+      data.timeOfDay !== undefined ||
+      data.intervalMinutes !== undefined ||
+      data.deviationsPerInterval !== undefined ||
+      data.dailyQuota !== undefined ||
+      data.cronExpression !== undefined
+    ) {
+      throw new AppError(
+        400,
+        'Cannot set time, interval, quota or cron fields on time_window rule'
+      );
+    }
+
+    // Validate the window as it will be after the update
+    validateTimeWindow({
+      windowStart: data.windowStart ?? rule.windowStart!,
+      windowEnd: data.windowEnd ?? rule.windowEnd!,
+      windowPostCount: data.windowPostCount ?? rule.windowPostCount!,
+      windowMinGapMinutes: data.windowMinGapMinutes ?? rule.windowMinGapMinutes ?? 0,
+    });
+  }
+
+  if (rule.type === 'cron') {
+    if (
+      data.timeOfDay !== undefined ||
+      data.intervalMinutes !== undefined ||
+      data.deviationsPerInterval !== undefined ||
+      data.dailyQuota !== undefined
+    ) {
+      throw new AppError(400, 'Cannot set time, interval or quota fields on cron rule');
+    }
+  }
+
   // Build update data
   const updateData: any = {};
 
@@ -200,9 +447,31 @@ router.patch('/:id', async (req, res) => {
   if (data.deviationsPerInterval !== undefined)
     updateData.deviationsPerInterval = data.deviationsPerInterval;
   if (data.dailyQuota !== undefined) updateData.dailyQuota = data.dailyQuota;
+  if (data.quotaDistribution !== undefined) updateData.quotaDistribution = data.quotaDistribution;
+  if (data.activeHoursStart !== undefined) updateData.activeHoursStart = data.activeHoursStart;
+  if (data.activeHoursEnd !== undefined) updateData.activeHoursEnd = data.activeHoursEnd;
+  if (data.quotaMinGapMinutes !== undefined)
+    updateData.quotaMinGapMinutes = data.quotaMinGapMinutes;
+  if (data.quotaCatchUp !== undefined) updateData.quotaCatchUp = data.quotaCatchUp;
+  if (data.cronExpression !== undefined) updateData.cronExpression = data.cronExpression;
+  if (data.windowStart !== undefined) updateData.windowStart = data.windowStart;
+  if (data.windowEnd !== undefined) updateData.windowEnd = data.windowEnd;
+  if (data.windowPostCount !== undefined) updateData.windowPostCount = data.windowPostCount;
+  if (data.windowMinGapMinutes !== undefined)
+    updateData.windowMinGapMinutes = data.windowMinGapMinutes;
   if (data.daysOfWeek !== undefined) updateData.daysOfWeek = data.daysOfWeek || null;
   if (data.priority !== undefined) updateData.priority = data.priority;
   if (data.enabled !== undefined) updateData.enabled = data.enabled;
+  if (data.missedTriggerPolicy !== undefined)
+    updateData.missedTriggerPolicy = data.missedTriggerPolicy;
+
+  // A new time or a re-enabled rule starts tracking from now, earlier occurrences are not missed
+  const timeChanged = data.timeOfDay !== undefined && data.timeOfDay !== rule.timeOfDay;
+  const reEnabled = data.enabled === true && !rule.enabled;
+  if (rule.type === 'fixed_time' && (timeChanged || reEnabled)) {
+    updateData.lastFiredAt = new Date();
+    updateData.carriedOverCount = 0;
+  }
 
   const updated = await prisma.automationScheduleRule.update({
     where: { id },
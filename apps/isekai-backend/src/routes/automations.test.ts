@@ -15,7 +15,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { automationsRouter } from './automations.js';
 import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
 
@@ -35,12 +35,30 @@ vi.mock('../db/index.js', () => ({
     },
     automationScheduleRule: {
       count: vi.fn(),
+      updateMany: vi.fn(),
     },
     automationExecutionLog: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+    },
+    deviation: {
       findMany: vi.fn(),
       count: vi.fn(),
     },
+    template: {
+      findFirst: vi.fn(),
+    },
+    automationDraft: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    scheduleException: {
+      findMany: vi.fn(),
+    },
   },
+  Prisma: { DbNull: 'DbNull' },
 }));
 
 import { prisma } from '../db/index.js';
@@ -128,6 +146,7 @@ describe('automations routes', () => {
             select: {
               scheduleRules: true,
               defaultValues: true,
+              draftCollection: true,
             },
           },
         },
@@ -148,6 +167,56 @@ describe('automations routes', () => {
         ],
       });
     });
+
+    it('should estimate how long each draft pool lasts', async () => {
+      const req = createMockRequest({
+        user: { ...mockUser, timezone: 'UTC', maxPostsPerDay: null },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findMany as any).mockResolvedValue([
+        {
+          ...mockAutomation,
+          draftFilter: null,
+          scheduleRules: [mockScheduleRule, { ...mockScheduleRule, id: 'rule-456' }],
+          saleQueuePreset: null,
+          _count: { scheduleRules: 2, defaultValues: 0, draftCollection: 0 },
+        },
+        {
+          ...mockAutomation,
+          id: 'automation-456',
+          draftFilter: null,
+          scheduleRules: [],
+          saleQueuePreset: null,
+          _count: { scheduleRules: 0, defaultValues: 0, draftCollection: 0 },
+        },
+      ]);
+      (prisma.deviation.count as any).mockResolvedValueOnce(9).mockResolvedValueOnce(4);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.deviation.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: 'user-123',
+          status: 'draft',
+          scheduledAt: null,
+          files: { some: {} },
+        }),
+      });
+      const { automations } = (res.json as any).mock.calls[0][0];
+      // Two fixed times a day
+      expect(automations[0].poolStatus).toEqual({
+        eligibleDrafts: 9,
+        postsPerDay: 2,
+        daysRemaining: 4,
+      });
+      // No rules, the pool never runs out
+      expect(automations[1].poolStatus).toEqual({
+        eligibleDrafts: 4,
+        postsPerDay: 0,
+        daysRemaining: null,
+      });
+    });
   });
 
   describe('PATCH /reorder', () => {
@@ -473,6 +542,10 @@ describe('automations routes', () => {
       await callRoute('PATCH', '/:id', req, res);
 
       expect(prisma.automation.update).toHaveBeenCalled();
+      expect(prisma.automationScheduleRule.updateMany).toHaveBeenCalledWith({
+        where: { automationId: 'automation-123', type: 'fixed_time' },
+        data: { lastFiredAt: expect.any(Date), carriedOverCount: 0 },
+      });
     });
 
     it('should validate jitter range on update', async () => {
@@ -575,6 +648,282 @@ describe('automations routes', () => {
     });
   });
 
+  describe('bundles', () => {
+    const storedAutomation = {
+      ...mockAutomation,
+      description: null,
+      icon: null,
+      autoAddToSaleQueue: true,
+      saleQueuePresetId: '00000000-0000-4000-8000-000000000123',
+      draftFilter: { requiredTags: ['sketch'] },
+      lowPoolThreshold: 5,
+      pauseWhenPoolEmpty: false,
+      saleQueuePreset: { name: 'Standard' },
+      scheduleRules: [
+        {
+          ...mockScheduleRule,
+          missedTriggerPolicy: 'fire_late',
+          lastFiredAt: new Date('2025-01-01T14:00:00Z'),
+          carriedOverCount: 2,
+          intervalMinutes: null,
+          dailyQuota: null,
+          daysOfWeek: ['monday'],
+        },
+      ],
+      defaultValues: [
+        { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+        { fieldName: 'commentTemplateId', value: 'template-123', applyIfEmpty: false },
+      ],
+    };
+
+    const bundle = {
+      version: 1,
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      automation: {
+        name: 'Daily Upload',
+        color: '#FF5733',
+        draftSelectionMethod: 'fifo',
+        stashOnlyByDefault: false,
+        jitterMinSeconds: 0,
+        jitterMaxSeconds: 300,
+        autoAddToSaleQueue: true,
+        saleQueuePreset: 'Standard',
+        draftFilter: { requiredTags: ['sketch'] },
+        lowPoolThreshold: 5,
+        pauseWhenPoolEmpty: false,
+      },
+      scheduleRules: [
+        {
+          type: 'fixed_time',
+          timeOfDay: '14:00',
+          missedTriggerPolicy: 'fire_late',
+          daysOfWeek: ['monday'],
+          priority: 0,
+          enabled: true,
+        },
+      ],
+      defaultValues: [
+        { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+        { fieldName: 'commentTemplateId', value: 'Thanks', applyIfEmpty: false },
+      ],
+    };
+
+    it('should export settings, rules and defaults with presets and templates by name', async () => {
+      const req = createMockRequest({ user: mockUser, params: { id: 'automation-123' } });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(storedAutomation);
+      (prisma.template.findFirst as any).mockResolvedValue({ name: 'Thanks' });
+
+      await callRoute('GET', '/:id/export', req, res);
+
+      expect(prisma.template.findFirst).toHaveBeenCalledWith({
+        where: { id: 'template-123', userId: 'user-123' },
+        select: { name: true },
+      });
+      // Scheduler state (lastFiredAt, carriedOverCount) and empty fields are left out
+      expect(res.json).toHaveBeenCalledWith({ ...bundle, exportedAt: expect.any(String) });
+    });
+
+    it('should drop the comment template default when the template was deleted', async () => {
+      const req = createMockRequest({ user: mockUser, params: { id: 'automation-123' } });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(storedAutomation);
+      (prisma.template.findFirst as any).mockResolvedValue(null);
+
+      await callRoute('GET', '/:id/export', req, res);
+
+      expect((res.json as any).mock.calls[0][0].defaultValues).toEqual([
+        { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+      ]);
+    });
+
+    it('should return 404 when exporting an automation not owned by user', async () => {
+      const req = createMockRequest({ user: mockUser, params: { id: 'nonexistent' } });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/:id/export', req, res)).rejects.toThrow(
+        'Automation not found'
+      );
+    });
+
+    it('should import a bundle as a disabled automation with its rules and defaults', async () => {
+      const req = createMockRequest({ user: mockUser, body: bundle });
+      const res = createMockResponse();
+
+      (prisma.pricePreset.findFirst as any).mockResolvedValue({
+        id: '00000000-0000-4000-8000-000000000456',
+      });
+      (prisma.template.findFirst as any).mockResolvedValue({ id: 'template-456' });
+      (prisma.automation.findFirst as any).mockResolvedValue({ sortOrder: 3 });
+      (prisma.automation.create as any).mockResolvedValue({
+        ...mockAutomation,
+        id: 'automation-456',
+      });
+
+      await callRoute('POST', '/import', req, res);
+
+      expect(prisma.pricePreset.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user-123', name: 'Standard' },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+      expect(prisma.template.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user-123', type: 'comment', name: 'Thanks' },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      const { data } = (prisma.automation.create as any).mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId: 'user-123',
+        name: 'Daily Upload',
+        saleQueuePresetId: '00000000-0000-4000-8000-000000000456',
+        draftFilter: { requiredTags: ['sketch'] },
+        sortOrder: 4,
+        defaultValues: {
+          create: [
+            { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+            { fieldName: 'commentTemplateId', value: 'template-456', applyIfEmpty: false },
+          ],
+        },
+      });
+      expect(data.enabled).toBeUndefined();
+      expect(data.scheduleRules.create).toEqual([
+        {
+          type: 'fixed_time',
+          timeOfDay: '14:00',
+          missedTriggerPolicy: 'fire_late',
+          lastFiredAt: expect.any(Date),
+          daysOfWeek: ['monday'],
+          priority: 0,
+          enabled: true,
+        },
+      ]);
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should reject an unsupported bundle version', async () => {
+      const req = createMockRequest({ user: mockUser, body: { ...bundle, version: 2 } });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'Unsupported bundle version: 2'
+      );
+      expect(prisma.automation.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a bundle whose price preset does not exist', async () => {
+      const req = createMockRequest({ user: mockUser, body: bundle });
+      const res = createMockResponse();
+
+      (prisma.pricePreset.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'Price preset "Standard" not found'
+      );
+      expect(prisma.automation.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a bundle whose comment template does not exist', async () => {
+      const req = createMockRequest({ user: mockUser, body: bundle });
+      const res = createMockResponse();
+
+      (prisma.pricePreset.findFirst as any).mockResolvedValue({
+        id: '00000000-0000-4000-8000-000000000456',
+      });
+      (prisma.template.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'Comment template "Thanks" not found'
+      );
+      expect(prisma.automation.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate rules with the schedule rule schemas', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          ...bundle,
+          automation: { ...bundle.automation, saleQueuePreset: null, autoAddToSaleQueue: false },
+          scheduleRules: [
+            {
+              type: 'daily_quota',
+              dailyQuota: 5,
+              quotaDistribution: 'even',
+              activeHoursStart: '21:00',
+              activeHoursEnd: '09:00',
+            },
+          ],
+          defaultValues: [],
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'activeHoursEnd must be after activeHoursStart'
+      );
+      expect(prisma.automation.create).not.toHaveBeenCalled();
+    });
+
+    it('should validate default values by field', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        body: {
+          ...bundle,
+          automation: { ...bundle.automation, saleQueuePreset: null, autoAddToSaleQueue: false },
+          defaultValues: [{ fieldName: 'displayResolution', value: 12, applyIfEmpty: true }],
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'displayResolution must be between 0 and 8'
+      );
+    });
+
+    it('should duplicate an automation in place', async () => {
+      const req = createMockRequest({ user: mockUser, params: { id: 'automation-123' } });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any)
+        .mockResolvedValueOnce(storedAutomation)
+        .mockResolvedValueOnce({ sortOrder: 3 });
+      (prisma.template.findFirst as any)
+        .mockResolvedValueOnce({ name: 'Thanks' })
+        .mockResolvedValueOnce({ id: 'template-123' });
+      (prisma.pricePreset.findFirst as any).mockResolvedValue({
+        id: '00000000-0000-4000-8000-000000000123',
+      });
+      (prisma.automation.create as any).mockResolvedValue({
+        ...mockAutomation,
+        id: 'automation-456',
+        name: 'Daily Upload (Copy)',
+      });
+
+      await callRoute('POST', '/:id/duplicate', req, res);
+
+      const { data } = (prisma.automation.create as any).mock.calls[0][0];
+      expect(data).toMatchObject({
+        name: 'Daily Upload (Copy)',
+        saleQueuePresetId: '00000000-0000-4000-8000-000000000123',
+        defaultValues: {
+          create: expect.arrayContaining([
+            { fieldName: 'commentTemplateId', value: 'template-123', applyIfEmpty: false },
+          ]),
+        },
+      });
+      expect(data.scheduleRules.create).toHaveLength(1);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        automation: expect.objectContaining({ id: 'automation-456' }),
+      });
+    });
+  });
+
   describe('POST /:id/toggle', () => {
     it('should toggle from disabled to enabled with rules', async () => {
       const req = createMockRequest({
@@ -596,6 +945,10 @@ describe('automations routes', () => {
         where: { id: 'automation-123' },
         data: { enabled: true },
       });
+      expect(prisma.automationScheduleRule.updateMany).toHaveBeenCalledWith({
+        where: { automationId: 'automation-123', type: 'fixed_time' },
+        data: { lastFiredAt: expect.any(Date), carriedOverCount: 0 },
+      });
     });
 
     it('should toggle from enabled to disabled', async () => {
@@ -620,6 +973,7 @@ describe('automations routes', () => {
         where: { id: 'automation-123' },
         data: { enabled: false },
       });
+      expect(prisma.automationScheduleRule.updateMany).not.toHaveBeenCalled();
     });
 
     it('should reject enabling without active rules', async () => {
@@ -685,6 +1039,7 @@ describe('automations routes', () => {
         logs: [
           expect.objectContaining({
             executedAt: '2024-01-01T10:00:00.000Z',
+            hasTrace: false,
           }),
         ],
         pagination: {
@@ -712,6 +1067,504 @@ describe('automations routes', () => {
     });
   });
 
+  describe('GET /:id/logs/:logId', () => {
+    it('should return the log with its trace', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123', logId: 'log-123' },
+      });
+      const res = createMockResponse();
+
+      const trace = {
+        timezone: 'UTC',
+        localTime: '10:00',
+        localDate: '2024-01-01',
+        dayType: null,
+        rules: [{ ruleId: 'rule-1', type: 'fixed_time', triggered: true, reason: 'Due at 10:00' }],
+        requestedCount: 1,
+        candidateCount: 1,
+        lockFailures: [],
+        drafts: [],
+      };
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationExecutionLog.findFirst as any).mockResolvedValue({
+        id: 'log-123',
+        automationId: 'automation-123',
+        executedAt: new Date('2024-01-01T10:00:00Z'),
+        scheduledCount: 0,
+        errorMessage: null,
+        triggeredByRuleType: 'fixed_time',
+        trace,
+      });
+
+      await callRoute('GET', '/:id/logs/:logId', req, res);
+
+      expect(prisma.automationExecutionLog.findFirst).toHaveBeenCalledWith({
+        where: { id: 'log-123', automationId: 'automation-123' },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        log: expect.objectContaining({
+          id: 'log-123',
+          executedAt: '2024-01-01T10:00:00.000Z',
+          trace,
+        }),
+      });
+    });
+
+    it('should return 404 when automation not found', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'nonexistent', logId: 'log-123' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/:id/logs/:logId', req, res)).rejects.toThrow(
+        'Automation config not found'
+      );
+      expect(prisma.automationExecutionLog.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when log belongs to another automation', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123', logId: 'log-other' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationExecutionLog.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/:id/logs/:logId', req, res)).rejects.toThrow(
+        'Execution log not found'
+      );
+    });
+  });
+
+  describe('GET /:id/forecast', () => {
+    const forecastUser = {
+      ...mockUser,
+      timezone: 'UTC',
+      maxPostsPerDay: null,
+      minPostGapMinutes: null,
+      quietHours: [],
+    };
+
+    const mockDraft = {
+      id: 'draft-1',
+      title: 'Sunset',
+      stashOnly: null,
+      files: [{ originalFilename: 'sunset.png', mimeType: 'image/png', fileSize: 1024 }],
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date('2025-01-06T12:00:00Z'), toFake: ['Date'] });
+      (prisma.automation.findFirst as any).mockResolvedValue({
+        ...mockAutomation,
+        scheduleRules: [mockScheduleRule],
+        defaultValues: [
+          { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+          { fieldName: 'commentTemplateId', value: 'template-1', applyIfEmpty: false },
+        ],
+        lowPoolThreshold: null,
+        pauseWhenPoolEmpty: false,
+        lowPoolAlertedAt: null,
+        _count: { draftCollection: 0 },
+      });
+      (prisma.automation.findMany as any).mockResolvedValue([]);
+      (prisma.deviation.findMany as any)
+        .mockResolvedValueOnce([mockDraft, { ...mockDraft, id: 'draft-2', title: 'Dawn' }])
+        .mockResolvedValueOnce([]);
+      (prisma.automationExecutionLog.findMany as any).mockResolvedValue([]);
+      (prisma.automationExecutionLog.findFirst as any).mockResolvedValue(null);
+      (prisma.template.findFirst as any).mockResolvedValue(null);
+      (prisma.scheduleException.findMany as any).mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      // Tests that fail early leave the queued draft results behind
+      (prisma.deviation.findMany as any).mockReset();
+    });
+
+    it('should project publish times and picked drafts without writing', async () => {
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'automation-123' },
+        query: { days: '3', seed: '7' },
+      });
+      const res = createMockResponse();
+
+      await callRoute('GET', '/:id/forecast', req, res);
+
+      expect(prisma.automation.findFirst).toHaveBeenCalledWith({
+        where: { id: 'automation-123', userId: 'user-123' },
+        include: {
+          scheduleRules: { where: { enabled: true }, orderBy: { priority: 'asc' } },
+          defaultValues: true,
+          _count: { select: { draftCollection: true } },
+        },
+      });
+      expect(prisma.deviation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { createdAt: 'asc' }, include: { files: true } })
+      );
+
+      const { forecast } = (res.json as any).mock.calls[0][0];
+      expect(forecast).toMatchObject({
+        from: '2025-01-06T12:00:00.000Z',
+        until: '2025-01-09T12:00:00.000Z',
+        timezone: 'UTC',
+        seed: 7,
+        draftsAvailable: 2,
+        draftsExhaustedAt: '2025-01-08T14:00:00.000Z',
+        poolLowAt: null,
+        pausedAt: null,
+        skipped: [],
+      });
+      expect(forecast.entries).toHaveLength(2);
+      expect(forecast.entries[0]).toMatchObject({
+        draftId: 'draft-1',
+        title: 'Sunset',
+        ruleType: 'fixed_time',
+        triggeredAt: '2025-01-06T14:00:00.000Z',
+        // Deleted comment template default is dropped, like in the scheduler
+        appliedDefaults: { tags: ['art'], stashOnly: false },
+      });
+      expect(forecast.entries[1]).toMatchObject({
+        draftId: 'draft-2',
+        // A fixed time fires once per day
+        triggeredAt: '2025-01-07T14:00:00.000Z',
+      });
+    });
+
+    it('should end the forecast where the automation pauses on an empty pool', async () => {
+      (prisma.automation.findFirst as any).mockResolvedValue({
+        ...mockAutomation,
+        scheduleRules: [mockScheduleRule],
+        defaultValues: [],
+        lowPoolThreshold: null,
+        pauseWhenPoolEmpty: true,
+        lowPoolAlertedAt: null,
+        _count: { draftCollection: 0 },
+      });
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'automation-123' },
+        query: { days: '3', seed: '7' },
+      });
+      const res = createMockResponse();
+
+      await callRoute('GET', '/:id/forecast', req, res);
+
+      const { forecast } = (res.json as any).mock.calls[0][0];
+      expect(forecast).toMatchObject({
+        draftsExhaustedAt: null,
+        pausedAt: '2025-01-07T14:00:00.000Z',
+      });
+      expect(forecast.entries).toHaveLength(2);
+    });
+
+    it('should only forecast drafts in the automation pool', async () => {
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'automation-123' },
+        query: { days: '3', seed: '7' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue({
+        ...mockAutomation,
+        draftFilter: null,
+        scheduleRules: [mockScheduleRule],
+        defaultValues: [],
+        _count: { draftCollection: 0 },
+      });
+      const filtered = {
+        id: 'automation-456',
+        draftFilter: { requiredTags: ['exclusive'] },
+        sortOrder: 1,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      };
+      (prisma.automation.findMany as any).mockResolvedValue([filtered]);
+
+      await callRoute('GET', '/:id/forecast', req, res);
+
+      expect(prisma.automation.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', id: { not: 'automation-123' } },
+        select: { id: true, draftFilter: true, sortOrder: true, createdAt: true },
+      });
+      const draftsQuery = (prisma.deviation.findMany as any).mock.calls[0][0];
+      // Unfiltered automation skips drafts claimed by the filtered one
+      expect(JSON.stringify(draftsQuery.where)).toContain('exclusive');
+      expect(draftsQuery.where).toMatchObject({ userId: 'user-123', status: 'draft' });
+    });
+
+    it('should skip blackout days and return the calendar', async () => {
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'automation-123' },
+        query: { days: '3', seed: '7' },
+      });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findMany as any).mockResolvedValue([
+        {
+          id: 'exception-1',
+          userId: 'user-123',
+          automationId: null,
+          type: 'blackout',
+          startDate: '2025-01-06',
+          endDate: '2025-01-06',
+          label: 'Day off',
+          createdAt: new Date('2025-01-01T00:00:00Z'),
+        },
+      ]);
+
+      await callRoute('GET', '/:id/forecast', req, res);
+
+      expect(prisma.scheduleException.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-123',
+          OR: [{ automationId: null }, { automationId: 'automation-123' }],
+          startDate: { lte: '2025-01-09' },
+          endDate: { gte: '2025-01-05' },
+        },
+        orderBy: { startDate: 'asc' },
+      });
+      const { forecast } = (res.json as any).mock.calls[0][0];
+      expect(forecast.entries.map((entry: any) => entry.triggeredAt)).toEqual([
+        '2025-01-07T14:00:00.000Z',
+        '2025-01-08T14:00:00.000Z',
+      ]);
+      expect(forecast.calendar).toEqual([
+        {
+          id: 'exception-1',
+          automationId: null,
+          type: 'blackout',
+          startDate: '2025-01-06',
+          endDate: '2025-01-06',
+          label: 'Day off',
+          createdAt: '2025-01-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should reject out of range days', async () => {
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'automation-123' },
+        query: { days: '90' },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('GET', '/:id/forecast', req, res)).rejects.toThrow();
+      expect(prisma.automation.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when automation not found', async () => {
+      const req = createMockRequest({
+        user: forecastUser,
+        params: { id: 'nonexistent' },
+        query: {},
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/:id/forecast', req, res)).rejects.toThrow(
+        'Automation not found'
+      );
+    });
+  });
+
+  describe('draft pool', () => {
+    it('should clear the pause reason and alert when settings change', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+        body: { enabled: true, lowPoolThreshold: 10, pauseWhenPoolEmpty: true },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue({
+        ...mockAutomation,
+        pausedReason: 'pool_empty',
+      });
+      (prisma.automationScheduleRule.count as any).mockResolvedValue(1);
+      (prisma.automation.update as any).mockResolvedValue(mockAutomation);
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automation.update).toHaveBeenCalledWith({
+        where: { id: 'automation-123' },
+        data: {
+          enabled: true,
+          lowPoolThreshold: 10,
+          pauseWhenPoolEmpty: true,
+          lowPoolAlertedAt: null,
+          pausedReason: null,
+        },
+      });
+    });
+
+    it('should store a draft filter on update', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+        body: { draftFilter: { requiredTags: [' exclusive '], excludedTags: [], isMature: false } },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automation.update as any).mockResolvedValue(mockAutomation);
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automation.update).toHaveBeenCalledWith({
+        where: { id: 'automation-123' },
+        data: { draftFilter: { requiredTags: ['exclusive'], isMature: false } },
+      });
+    });
+
+    it('should clear an empty draft filter', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+        body: { draftFilter: { requiredTags: [] } },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automation.update as any).mockResolvedValue(mockAutomation);
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.automation.update).toHaveBeenCalledWith({
+        where: { id: 'automation-123' },
+        data: { draftFilter: 'DbNull' },
+      });
+    });
+
+    it('should list drafts added to the automation', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationDraft.findMany as any).mockResolvedValue([
+        {
+          createdAt: new Date('2025-01-02T00:00:00Z'),
+          deviation: {
+            id: 'draft-1',
+            title: 'Sunset',
+            status: 'draft',
+            tags: [],
+            createdAt: new Date('2025-01-01T00:00:00Z'),
+          },
+        },
+      ]);
+
+      await callRoute('GET', '/:id/drafts', req, res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        drafts: [
+          {
+            id: 'draft-1',
+            title: 'Sunset',
+            status: 'draft',
+            tags: [],
+            createdAt: '2025-01-01T00:00:00.000Z',
+            addedAt: '2025-01-02T00:00:00.000Z',
+          },
+        ],
+      });
+    });
+
+    it('should add owned drafts to the automation', async () => {
+      const deviationIds = [
+        '11111111-1111-4111-8111-111111111111',
+        '22222222-2222-4222-8222-222222222222',
+      ];
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+        body: { deviationIds },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.deviation.findMany as any).mockResolvedValue(deviationIds.map((id) => ({ id })));
+      (prisma.automationDraft.createMany as any).mockResolvedValue({ count: 2 });
+
+      await callRoute('POST', '/:id/drafts', req, res);
+
+      expect(prisma.deviation.findMany).toHaveBeenCalledWith({
+        where: { id: { in: deviationIds }, userId: 'user-123', status: 'draft' },
+        select: { id: true },
+      });
+      expect(prisma.automationDraft.createMany).toHaveBeenCalledWith({
+        data: deviationIds.map((deviationId) => ({ automationId: 'automation-123', deviationId })),
+        skipDuplicates: true,
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ added: 2 });
+    });
+
+    it('should reject drafts the user does not own', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123' },
+        body: { deviationIds: ['11111111-1111-4111-8111-111111111111'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.deviation.findMany as any).mockResolvedValue([]);
+
+      await expect(callRoute('POST', '/:id/drafts', req, res)).rejects.toThrow(
+        'Only your own drafts can be added to an automation'
+      );
+      expect(prisma.automationDraft.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should remove a draft from the automation', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'automation-123', deviationId: 'draft-1' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(mockAutomation);
+      (prisma.automationDraft.deleteMany as any).mockResolvedValue({ count: 1 });
+
+      await callRoute('DELETE', '/:id/drafts/:deviationId', req, res);
+
+      expect(prisma.automationDraft.deleteMany).toHaveBeenCalledWith({
+        where: { automationId: 'automation-123', deviationId: 'draft-1' },
+      });
+      expect(res.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should return 404 when adding to a missing automation', async () => {
+      const req = createMockRequest({
+        user: mockUser,
+        params: { id: 'nonexistent' },
+        body: { deviationIds: ['11111111-1111-4111-8111-111111111111'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('POST', '/:id/drafts', req, res)).rejects.toThrow(
+        'Automation not found'
+      );
+    });
+  });
+
   describe('POST /:id/test', () => {
     it('should test automation successfully', async () => {
       const req = createMockRequest({
@@ -17,12 +17,52 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
-import { prisma } from '../db/index.js';
+import { prisma, Prisma } from '../db/index.js';
+import type { AutomationScheduleRule, User } from '../db/index.js';
 import { AppError } from '../middleware/error.js';
+import {
+  createRuleSchema,
+  toRuleCreateData,
+  validateNewRule,
+} from './automation-schedule-rules.js';
+import { createDefaultValueSchema, validateFieldValue } from './automation-default-values.js';
+import {
+  AUTOMATION_BUNDLE_VERSION,
+  DEFAULT_FORECAST_DAYS,
+  MAX_DRAFT_FILTER_TAGS,
+  MAX_FORECAST_DAYS,
+  addCalendarDays,
+  buildDraftPoolWhere,
+  estimatePostsPerDay,
+  forecastAutomation,
+  getDraftFilter,
+  getPublishingPolicy,
+  toCalendarDate,
+  type AutomationBundle,
+} from '@isekai/shared';
 
 const router = Router();
 
 // Zod schemas
+const draftFilterTagsSchema = z.array(z.string().trim().min(1)).max(MAX_DRAFT_FILTER_TAGS);
+
+const draftFilterSchema = z.object({
+  requiredTags: draftFilterTagsSchema.optional(),
+  excludedTags: draftFilterTagsSchema.optional(),
+  isMature: z.boolean().optional(),
+  isAiGenerated: z.boolean().optional(),
+  categoryPathPrefix: z.string().trim().max(200).optional(),
+  createdAfter: z.string().datetime().optional(),
+});
+
+/**
+ * Store an empty filter as NULL so the automation falls back to the shared pool
+ */
+function toDraftFilterColumn(value: z.infer<typeof draftFilterSchema> | null | undefined) {
+  if (value === undefined) return undefined;
+  return (getDraftFilter(value) as Prisma.InputJsonValue | null) ?? Prisma.DbNull;
+}
+
 const createAutomationSchema = z
   .object({
     name: z.string().min(1).max(100),
@@ -39,6 +79,9 @@ const createAutomationSchema = z
     sortOrder: z.number().int().optional(),
     autoAddToSaleQueue: z.boolean().default(false),
     saleQueuePresetId: z.string().uuid().optional(),
+    draftFilter: draftFilterSchema.nullable().optional(),
+    lowPoolThreshold: z.number().int().min(1).max(1000).nullable().optional(),
+    pauseWhenPoolEmpty: z.boolean().default(false),
   })
   .refine(
     (data) => {
@@ -67,8 +110,290 @@ const updateAutomationSchema = z.object({
   sortOrder: z.number().int().optional(),
   autoAddToSaleQueue: z.boolean().optional(),
   saleQueuePresetId: z.string().uuid().optional().nullable(),
+  draftFilter: draftFilterSchema.nullable().optional(),
+  lowPoolThreshold: z.number().int().min(1).max(1000).nullable().optional(),
+  pauseWhenPoolEmpty: z.boolean().optional(),
 });
 
+const addDraftsSchema = z.object({
+  deviationIds: z.array(z.string().uuid()).min(1).max(100),
+});
+
+// Sections are checked with the same schemas as creating each part on its own
+const automationBundleSchema = z.object({
+  version: z.number().int(),
+  automation: z
+    .object({
+      saleQueuePreset: z.string().min(1).nullable().default(null),
+    })
+    .passthrough(),
+  scheduleRules: z.array(createRuleSchema).max(50),
+  defaultValues: z.array(createDefaultValueSchema).max(50),
+});
+
+// Rule settings a bundle carries; lastFiredAt and carriedOverCount are scheduler state
+const BUNDLE_RULE_FIELDS = [
+  'timeOfDay',
+  'missedTriggerPolicy',
+  'intervalMinutes',
+  'deviationsPerInterval',
+  'dailyQuota',
+  'quotaDistribution',
+  'activeHoursStart',
+  'activeHoursEnd',
+  'quotaMinGapMinutes',
+  'quotaCatchUp',
+  'cronExpression',
+  'windowStart',
+  'windowEnd',
+  'windowPostCount',
+  'windowMinGapMinutes',
+  'daysOfWeek',
+  'priority',
+  'enabled',
+] as const;
+
+/**
+ * Automation columns for a new automation, placed at the end unless sortOrder is given
+ */
+async function toAutomationCreateData(
+  userId: string,
+  data: z.infer<typeof createAutomationSchema>
+) {
+  // If no sortOrder provided, put at end
+  let sortOrder = data.sortOrder;
+  if (sortOrder === undefined) {
+    const maxOrder = await prisma.automation.findFirst({
+      where: { userId },
+      orderBy: { sortOrder: 'desc' },
+      select: { sortOrder: true },
+    });
+    sortOrder = (maxOrder?.sortOrder ?? 0) + 1;
+  }
+
+  return {
+    userId,
+    name: data.name,
+    description: data.description,
+    color: data.color,
+    icon: data.icon,
+    draftSelectionMethod: data.draftSelectionMethod,
+    stashOnlyByDefault: data.stashOnlyByDefault,
+    jitterMinSeconds: data.jitterMinSeconds,
+    jitterMaxSeconds: data.jitterMaxSeconds,
+    autoAddToSaleQueue: data.autoAddToSaleQueue,
+    saleQueuePresetId: data.saleQueuePresetId,
+    draftFilter: toDraftFilterColumn(data.draftFilter),
+    lowPoolThreshold: data.lowPoolThreshold,
+    pauseWhenPoolEmpty: data.pauseWhenPoolEmpty,
+    sortOrder,
+  };
+}
+
+function toBundleRule(rule: AutomationScheduleRule): AutomationBundle['scheduleRules'][number] {
+  const fields: AutomationBundle['scheduleRules'][number] = { type: rule.type };
+  for (const field of BUNDLE_RULE_FIELDS) {
+    if (rule[field] !== null) {
+      fields[field] = rule[field];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Bundle of an automation's settings, rules and default values. The price preset
+ * and comment template are exported by name, the draft pool and calendar are not.
+ */
+async function exportAutomation(userId: string, id: string): Promise<AutomationBundle> {
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId },
+    include: {
+      scheduleRules: { orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }] },
+      defaultValues: { orderBy: { createdAt: 'asc' } },
+      saleQueuePreset: { select: { name: true } },
+    },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+
+  const templateDefault = automation.defaultValues.find(
+    (value) => value.fieldName === 'commentTemplateId'
+  );
+  const template = templateDefault
+    ? await prisma.template.findFirst({
+        where: { id: templateDefault.value as string, userId },
+        select: { name: true },
+      })
+    : null;
+
+  return {
+    version: AUTOMATION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    automation: {
+      name: automation.name,
+      description: automation.description ?? undefined,
+      color: automation.color,
+      icon: automation.icon ?? undefined,
+      draftSelectionMethod:
+        automation.draftSelectionMethod as AutomationBundle['automation']['draftSelectionMethod'],
+      stashOnlyByDefault: automation.stashOnlyByDefault,
+      jitterMinSeconds: automation.jitterMinSeconds,
+      jitterMaxSeconds: automation.jitterMaxSeconds,
+      autoAddToSaleQueue: automation.autoAddToSaleQueue,
+      saleQueuePreset: automation.saleQueuePreset?.name ?? null,
+      draftFilter: getDraftFilter(automation.draftFilter),
+      lowPoolThreshold: automation.lowPoolThreshold,
+      pauseWhenPoolEmpty: automation.pauseWhenPoolEmpty,
+    },
+    scheduleRules: automation.scheduleRules.map(toBundleRule),
+    // A deleted comment template is dropped, like in the scheduler
+    defaultValues: automation.defaultValues.flatMap(({ fieldName, value, applyIfEmpty }) => {
+      if (fieldName !== 'commentTemplateId') {
+        return [{ fieldName, value, applyIfEmpty }];
+      }
+      return template ? [{ fieldName, value: template.name, applyIfEmpty }] : [];
+    }),
+  };
+}
+
+/**
+ * Create a disabled automation from a bundle. Everything is validated and every
+ * name resolved before anything is written.
+ */
+async function importAutomation(userId: string, body: unknown, name?: string) {
+  const { version } = z.object({ version: z.number().int() }).passthrough().parse(body);
+  if (version !== AUTOMATION_BUNDLE_VERSION) {
+    throw new AppError(400, `Unsupported bundle version: ${version}`);
+  }
+
+  const bundle = automationBundleSchema.parse(body);
+  const { saleQueuePreset, ...automationFields } = bundle.automation;
+
+  let saleQueuePresetId: string | undefined;
+  if (saleQueuePreset) {
+    const preset = await prisma.pricePreset.findFirst({
+      where: { userId, name: saleQueuePreset },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    if (!preset) {
+      throw new AppError(400, `Price preset "${saleQueuePreset}" not found`);
+    }
+    saleQueuePresetId = preset.id;
+  }
+
+  const data = createAutomationSchema.parse({
+    ...automationFields,
+    ...(name && { name }),
+    saleQueuePresetId,
+    // Imports go at the end of the list
+    sortOrder: undefined,
+  });
+
+  if (data.jitterMinSeconds > data.jitterMaxSeconds) {
+    throw new AppError(400, 'jitterMinSeconds cannot be greater than jitterMaxSeconds');
+  }
+
+  bundle.scheduleRules.forEach(validateNewRule);
+  if (bundle.scheduleRules.filter((rule) => rule.type === 'time_window').length > 1) {
+    throw new AppError(400, 'Bundle has more than one time_window rule');
+  }
+
+  const defaultValues: Array<{ fieldName: string; value: any; applyIfEmpty: boolean }> = [];
+  for (const { fieldName, value, applyIfEmpty } of bundle.defaultValues) {
+    if (defaultValues.some((existing) => existing.fieldName === fieldName)) {
+      throw new AppError(400, `Duplicate default value for ${fieldName}`);
+    }
+
+    let resolved = value;
+    if (fieldName === 'commentTemplateId') {
+      if (typeof value !== 'string') {
+        throw new AppError(400, 'commentTemplateId must be a template name');
+      }
+
+      const template = await prisma.template.findFirst({
+        where: { userId, type: 'comment', name: value },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      if (!template) {
+        throw new AppError(400, `Comment template "${value}" not found`);
+      }
+      resolved = template.id;
+    }
+
+    validateFieldValue(fieldName, resolved);
+    defaultValues.push({ fieldName, value: resolved, applyIfEmpty });
+  }
+
+  return prisma.automation.create({
+    data: {
+      ...(await toAutomationCreateData(userId, data)),
+      scheduleRules: { create: bundle.scheduleRules.map(toRuleCreateData) },
+      defaultValues: { create: defaultValues },
+    },
+  });
+}
+
+/**
+ * Fixed times that passed while an automation was disabled are not missed,
+ * so enabling it starts tracking them from now
+ */
+async function resetFixedTimeTriggers(automationId: string) {
+  await prisma.automationScheduleRule.updateMany({
+    where: { automationId, type: 'fixed_time' },
+    data: { lastFiredAt: new Date(), carriedOverCount: 0 },
+  });
+}
+
+/**
+ * Drafts left in each automation's pool and roughly how many days they last
+ */
+async function getPoolStatuses(
+  user: User,
+  automations: Array<
+    Parameters<typeof buildDraftPoolWhere>[0] & {
+      scheduleRules: Parameters<typeof estimatePostsPerDay>[0];
+      _count?: { draftCollection?: number };
+    }
+  >
+) {
+  const timezone = user.timezone || 'UTC';
+  const { maxPostsPerDay } = getPublishingPolicy(user);
+
+  return Promise.all(
+    automations.map(async (automation) => {
+      const eligibleDrafts = await prisma.deviation.count({
+        where: {
+          userId: user.id,
+          status: 'draft',
+          scheduledAt: null,
+          files: { some: {} },
+          ...buildDraftPoolWhere(
+            automation,
+            (automation._count?.draftCollection ?? 0) > 0,
+            automations
+          ),
+        },
+      });
+      const postsPerDay = Math.min(
+        estimatePostsPerDay(automation.scheduleRules, timezone),
+        maxPostsPerDay ?? Infinity
+      );
+
+      return {
+        eligibleDrafts,
+        postsPerDay: Math.round(postsPerDay * 100) / 100,
+        daysRemaining: postsPerDay > 0 ? Math.floor(eligibleDrafts / postsPerDay) : null,
+      };
+    })
+  );
+}
+
 // Get all user's automation workflows (list view)
 router.get('/', async (req, res) => {
   const userId = req.user!.id;
@@ -85,15 +410,19 @@ router.get('/', async (req, res) => {
         select: {
           scheduleRules: true,
           defaultValues: true,
+          draftCollection: true,
         },
       },
     },
     orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
   });
 
+  const poolStatuses = await getPoolStatuses(req.user!, automations);
+
   res.json({
-    automations: automations.map((automation) => ({
+    automations: automations.map((automation, index) => ({
       ...automation,
+      poolStatus: poolStatuses[index],
       createdAt: automation.createdAt.toISOString(),
       updatedAt: automation.updatedAt.toISOString(),
       scheduleRules: automation.scheduleRules.map((rule) => ({
@@ -136,6 +465,19 @@ router.patch('/reorder', async (req, res) => {
   res.json({ success: true });
 });
 
+// Import automation from a bundle (must come before /:id routes)
+router.post('/import', async (req, res) => {
+  const automation = await importAutomation(req.user!.id, req.body);
+
+  res.status(201).json({
+    automation: {
+      ...automation,
+      createdAt: automation.createdAt.toISOString(),
+      updatedAt: automation.updatedAt.toISOString(),
+    },
+  });
+});
+
 // Get single automation with full details (detail view)
 router.get('/:id', async (req, res) => {
   const { id } = req.params;
@@ -207,32 +549,8 @@ router.post('/', async (req, res) => {
     }
   }
 
-  // If no sortOrder provided, put at end
-  let sortOrder = data.sortOrder;
-  if (sortOrder === undefined) {
-    const maxOrder = await prisma.automation.findFirst({
-      where: { userId },
-      orderBy: { sortOrder: 'desc' },
-      select: { sortOrder: true },
-    });
-    sortOrder = (maxOrder?.sortOrder ?? 0) + 1;
-  }
-
   const automation = await prisma.automation.create({
-    data: {
-      userId,
-      name: data.name,
-      description: data.description,
-      color: data.color,
-      icon: data.icon,
-      draftSelectionMethod: data.draftSelectionMethod,
-      stashOnlyByDefault: data.stashOnlyByDefault,
-      jitterMinSeconds: data.jitterMinSeconds,
-      jitterMaxSeconds: data.jitterMaxSeconds,
-      autoAddToSaleQueue: data.autoAddToSaleQueue,
-      saleQueuePresetId: data.saleQueuePresetId,
-      sortOrder,
-    },
+    data: await toAutomationCreateData(userId, data),
   });
 
   res.status(201).json({
@@ -312,11 +630,23 @@ router.patch('/:id', async (req, res) => {
     }
   }
 
+  const { draftFilter, ...fields } = data;
   const updated = await prisma.automation.update({
     where: { id },
-    data,
+    data: {
+      ...fields,
+      draftFilter: toDraftFilterColumn(draftFilter),
+      // A new threshold gets a fresh warning
+      ...(data.lowPoolThreshold !== undefined && { lowPoolAlertedAt: null }),
+      // Enabling again clears why the auto-scheduler paused it
+      ...(data.enabled === true && automation.pausedReason && { pausedReason: null }),
+    },
   });
 
+  if (data.enabled === true && !automation.enabled) {
+    await resetFixedTimeTriggers(id);
+  }
+
   res.json({
     automation: {
       ...updated,
@@ -355,6 +685,32 @@ router.delete('/:id', async (req, res) => {
   res.status(204).send();
 });
 
+// Export automation as a portable bundle
+router.get('/:id/export', async (req, res) => {
+  const bundle = await exportAutomation(req.user!.id, req.params.id);
+
+  res.json(bundle);
+});
+
+// Duplicate automation with its rules and default values (starts disabled)
+router.post('/:id/duplicate', async (req, res) => {
+  const userId = req.user!.id;
+  const bundle = await exportAutomation(userId, req.params.id);
+  const automation = await importAutomation(
+    userId,
+    bundle,
+    `${bundle.automation.name.slice(0, 93)} (Copy)`
+  );
+
+  res.status(201).json({
+    automation: {
+      ...automation,
+      createdAt: automation.createdAt.toISOString(),
+      updatedAt: automation.updatedAt.toISOString(),
+    },
+  });
+});
+
 // Toggle automation (enable/disable)
 router.post('/:id/toggle', async (req, res) => {
   const { id } = req.params;
@@ -384,9 +740,17 @@ router.post('/:id/toggle', async (req, res) => {
 
   const updated = await prisma.automation.update({
     where: { id },
-    data: { enabled: newEnabledState },
+    data: {
+      enabled: newEnabledState,
+      // Enabling again clears why the auto-scheduler paused it
+      ...(newEnabledState && automation.pausedReason && { pausedReason: null }),
+    },
   });
 
+  if (newEnabledState) {
+    await resetFixedTimeTriggers(id);
+  }
+
   res.json({
     automation: {
       ...updated,
@@ -425,9 +789,11 @@ router.get('/:id/logs', async (req, res) => {
     }),
   ]);
 
+  // Traces can be large, the list only says whether one exists
   res.json({
-    logs: logs.map((log) => ({
+    logs: logs.map(({ trace, ...log }) => ({
       ...log,
+      hasTrace: trace != null,
       executedAt: log.executedAt.toISOString(),
     })),
     pagination: {
@@ -439,6 +805,280 @@ router.get('/:id/logs', async (req, res) => {
   });
 });
 
+// Get a single execution log with its trace
+router.get('/:id/logs/:logId', async (req, res) => {
+  const { id, logId } = req.params;
+  const userId = req.user!.id;
+
+  // Check ownership
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation config not found');
+  }
+
+  const log = await prisma.automationExecutionLog.findFirst({
+    where: { id: logId, automationId: id },
+  });
+
+  if (!log) {
+    throw new AppError(404, 'Execution log not found');
+  }
+
+  res.json({
+    log: {
+      ...log,
+      executedAt: log.executedAt.toISOString(),
+    },
+  });
+});
+
+// Forecast upcoming runs: dry run of the auto-scheduler, nothing is written
+router.get('/:id/forecast', async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+  const { days, seed } = z
+    .object({
+      days: z.coerce.number().int().min(1).max(MAX_FORECAST_DAYS).default(DEFAULT_FORECAST_DAYS),
+      seed: z.coerce.number().int().min(0).optional(),
+    })
+    .parse(req.query);
+
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId: user.id },
+    include: {
+      scheduleRules: {
+        where: { enabled: true },
+        orderBy: { priority: 'asc' },
+      },
+      defaultValues: true,
+      _count: { select: { draftCollection: true } },
+    },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+
+  const otherAutomations = await prisma.automation.findMany({
+    where: { userId: user.id, id: { not: id } },
+    select: { id: true, draftFilter: true, sortOrder: true, createdAt: true },
+  });
+  const poolWhere = buildDraftPoolWhere(
+    automation,
+    automation._count.draftCollection > 0,
+    otherAutomations
+  );
+
+  const now = new Date();
+  const timezone = user.timezone || 'UTC';
+  // Covers "today" in any timezone for daily counts, and the policy's gap and daily cap
+  const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const ruleTypes = [...new Set(automation.scheduleRules.map((rule) => rule.type))];
+  const firstDay = toCalendarDate(now, timezone);
+  const lastDay = toCalendarDate(new Date(now.getTime() + days * 24 * 60 * 60 * 1000), timezone);
+
+  const [drafts, recentLogs, lastLogs, occupiedDeviations, exceptions] = await Promise.all([
+    // Same pool as the scheduler; random pools are shuffled by the forecast with the seed
+    prisma.deviation.findMany({
+      where: {
+        userId: user.id,
+        status: 'draft',
+        scheduledAt: null,
+        files: { some: {} },
+        ...poolWhere,
+      },
+      orderBy: { createdAt: automation.draftSelectionMethod === 'lifo' ? 'desc' : 'asc' },
+      take: 1000,
+      include: { files: true },
+    }),
+    prisma.automationExecutionLog.findMany({
+      where: { automationId: id, executedAt: { gte: since } },
+    }),
+    // Older last runs still matter for fixed_interval and daily_quota rules
+    Promise.all(
+      ruleTypes.map((type) =>
+        prisma.automationExecutionLog.findFirst({
+          where: { automationId: id, triggeredByRuleType: type },
+          orderBy: { executedAt: 'desc' },
+        })
+      )
+    ),
+    prisma.deviation.findMany({
+      where: {
+        userId: user.id,
+        OR: [
+          { status: 'published', publishedAt: { gte: since } },
+          { status: 'scheduled', actualPublishAt: { gte: since } },
+        ],
+      },
+      select: { status: true, publishedAt: true, actualPublishAt: true },
+    }),
+    // Blackout and extra days (user-wide and this automation's) within the forecast, and
+    // yesterday's for a fixed_time occurrence missed before midnight
+    prisma.scheduleException.findMany({
+      where: {
+        userId: user.id,
+        OR: [{ automationId: null }, { automationId: id }],
+        startDate: { lte: lastDay },
+        endDate: { gte: addCalendarDays(firstDay, -1) },
+      },
+      orderBy: { startDate: 'asc' },
+    }),
+  ]);
+
+  // Like the scheduler, drop a comment template default whose template was deleted
+  let defaultValues = automation.defaultValues;
+  const templateDefault = defaultValues.find((value) => value.fieldName === 'commentTemplateId');
+  if (templateDefault?.value) {
+    const template = await prisma.template.findFirst({
+      where: { id: templateDefault.value as string, userId: user.id, type: 'comment' },
+      select: { id: true },
+    });
+    if (!template) {
+      defaultValues = defaultValues.filter((value) => value !== templateDefault);
+    }
+  }
+
+  const history = new Map(
+    [...recentLogs, ...lastLogs].filter((log) => log !== null).map((log) => [log.id, log])
+  );
+  const occupied = occupiedDeviations
+    .map((deviation) =>
+      deviation.status === 'published' ? deviation.publishedAt : deviation.actualPublishAt
+    )
+    .filter((time): time is Date => time !== null);
+
+  const forecast = forecastAutomation({ ...automation, defaultValues }, drafts, {
+    from: now,
+    days,
+    timezone,
+    seed: seed ?? Math.floor(Math.random() * 2 ** 31),
+    history: [...history.values()],
+    policy: getPublishingPolicy(user),
+    occupied,
+    exceptions,
+  });
+
+  res.json({
+    forecast: {
+      from: forecast.from.toISOString(),
+      until: forecast.until.toISOString(),
+      timezone: forecast.timezone,
+      seed: forecast.seed,
+      draftsAvailable: drafts.length,
+      draftsExhaustedAt: forecast.draftsExhaustedAt?.toISOString() ?? null,
+      poolLowAt: forecast.poolLowAt?.toISOString() ?? null,
+      pausedAt: forecast.pausedAt?.toISOString() ?? null,
+      entries: forecast.entries.map((entry) => ({
+        ...entry,
+        triggeredAt: entry.triggeredAt.toISOString(),
+        publishAt: entry.publishAt.toISOString(),
+      })),
+      skipped: forecast.skipped.map((skip) => ({
+        ...skip,
+        triggeredAt: skip.triggeredAt.toISOString(),
+      })),
+      calendar: exceptions
+        .filter((exception) => exception.endDate >= firstDay)
+        .map((exception) => ({
+          id: exception.id,
+          automationId: exception.automationId,
+          type: exception.type,
+          startDate: exception.startDate,
+          endDate: exception.endDate,
+          label: exception.label,
+          createdAt: exception.createdAt.toISOString(),
+        })),
+    },
+  });
+});
+
+// List drafts explicitly added to the automation's pool
+router.get('/:id/drafts', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+
+  const entries = await prisma.automationDraft.findMany({
+    where: { automationId: id },
+    include: {
+      deviation: {
+        select: { id: true, title: true, status: true, tags: true, createdAt: true },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    drafts: entries.map((entry) => ({
+      ...entry.deviation,
+      createdAt: entry.deviation.createdAt.toISOString(),
+      addedAt: entry.createdAt.toISOString(),
+    })),
+  });
+});
+
+// Add drafts to the automation's pool. A draft in several pools is shared between them.
+router.post('/:id/drafts', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+  const { deviationIds } = addDraftsSchema.parse(req.body);
+
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+
+  const drafts = await prisma.deviation.findMany({
+    where: { id: { in: deviationIds }, userId, status: 'draft' },
+    select: { id: true },
+  });
+
+  if (drafts.length !== new Set(deviationIds).size) {
+    throw new AppError(400, 'Only your own drafts can be added to an automation');
+  }
+
+  const { count } = await prisma.automationDraft.createMany({
+    data: drafts.map((draft) => ({ automationId: id, deviationId: draft.id })),
+    skipDuplicates: true,
+  });
+
+  res.status(201).json({ added: count });
+});
+
+// Remove a draft from the automation's pool
+router.delete('/:id/drafts/:deviationId', async (req, res) => {
+  const { id, deviationId } = req.params;
+  const userId = req.user!.id;
+
+  const automation = await prisma.automation.findFirst({
+    where: { id, userId },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+
+  await prisma.automationDraft.deleteMany({
+    where: { automationId: id, deviationId },
+  });
+
+  res.status(204).send();
+});
+
 // Test automation (manually trigger)
 router.post('/:id/test', async (req, res) => {
   const { id } = req.params;
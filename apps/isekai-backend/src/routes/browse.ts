@@ -28,10 +28,12 @@ import { getBrowseSource, type BrowseMode } from '../lib/browse-source.js';
 import { RedisCache, CacheTTL } from '../lib/redis-cache.js';
 import { CacheKeys } from '../lib/cache-keys.js';
 import type { BrowseDeviation } from '../lib/metadata-enricher.js';
+import { fetchDeviantArt } from '../lib/deviantart-quota.js';
+import { getDeviantArtEndpoints } from '@isekai/shared';
 
 const router = Router();
 
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+const { apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 // Browse mode to DeviantArt endpoint mapping
 // All modes now use OAuth API with proper caching
@@ -116,9 +118,13 @@ router.get('/tags/search', async (req, res) => {
         const params = new URLSearchParams();
         params.set('tag_name', tagName);
 
-        const response = await fetch(`${DEVIANTART_API_URL}/browse/tags/search?${params}`, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
+        const response = await fetchDeviantArt(
+          `${DEVIANTART_API_URL}/browse/tags/search?${params}`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+          },
+          'browse'
+        );
 
         if (!response.ok) {
           console.error('DeviantArt tag search error:', await response.text());
@@ -156,11 +162,12 @@ router.get('/morelikethis/:deviationId', async (req, res) => {
         params.set('seed', deviationId);
         params.set('expand', 'user.details');
 
-        const response = await fetch(
+        const response = await fetchDeviantArt(
           `${DEVIANTART_API_URL}/browse/morelikethis/preview?${params}`,
           {
             headers: { Authorization: `Bearer ${accessToken}` },
-          }
+          },
+          'browse'
         );
 
         if (!response.ok) {
@@ -209,9 +216,13 @@ router.get('/topics/list', async (req, res) => {
     const result = await RedisCache.getOrFetch(
       cacheKey,
       async () => {
-        const response = await fetch(`${DEVIANTART_API_URL}/browse/topics?expand=user.details`, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
+        const response = await fetchDeviantArt(
+          `${DEVIANTART_API_URL}/browse/topics?expand=user.details`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+          },
+          'browse'
+        );
 
         if (!response.ok) {
           const error: any = new Error('Failed to fetch topics');
@@ -251,9 +262,13 @@ router.get('/toptopics', async (req, res) => {
     const result = await RedisCache.getOrFetch(
       cacheKey,
       async () => {
-        const response = await fetch(`${DEVIANTART_API_URL}/browse/toptopics`, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
+        const response = await fetchDeviantArt(
+          `${DEVIANTART_API_URL}/browse/toptopics`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+          },
+          'browse'
+        );
 
         if (!response.ok) {
           const error: any = new Error('Failed to fetch top topics');
@@ -296,9 +311,13 @@ router.get('/trendingtags', async (req, res) => {
       cacheKey,
       async () => {
         // Use toptopics endpoint which gives trending topics (similar to tags)
-        const response = await fetch(`${DEVIANTART_API_URL}/browse/toptopics`, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
+        const response = await fetchDeviantArt(
+          `${DEVIANTART_API_URL}/browse/toptopics`,
+          {
+            headers: { Authorization: `Bearer ${accessToken}` },
+          },
+          'browse'
+        );
 
         if (!response.ok) {
           const error: any = new Error('Failed to fetch trending tags');
@@ -342,14 +361,19 @@ router.get('/deviation/:deviationId', async (req, res) => {
       async () => {
         // Fetch deviation info with extended data
         const [deviationResponse, metadataResponse] = await Promise.all([
-          fetch(`${DEVIANTART_API_URL}/deviation/${deviationId}?expand=user.details`, {
-            headers: { Authorization: `Bearer ${accessToken}` },
-          }),
-          fetch(
+          fetchDeviantArt(
+            `${DEVIANTART_API_URL}/deviation/${deviationId}?expand=user.details`,
+            {
+              headers: { Authorization: `Bearer ${accessToken}` },
+            },
+            'browse'
+          ),
+          fetchDeviantArt(
             `${DEVIANTART_API_URL}/deviation/metadata?deviationids[]=${deviationId}&ext_submission=true`,
             {
               headers: { Authorization: `Bearer ${accessToken}` },
-            }
+            },
+            'browse'
           ),
         ]);
 
@@ -420,9 +444,10 @@ router.get('/deviation/:deviationId', async (req, res) => {
     let downloadInfo: { url: string; filesize: number } | null = null;
     if (result.data.isDownloadable) {
       try {
-        const downloadResponse = await fetch(
+        const downloadResponse = await fetchDeviantArt(
           `${DEVIANTART_API_URL}/deviation/download/${deviationId}`,
-          { headers: { Authorization: `Bearer ${accessToken}` } }
+          { headers: { Authorization: `Bearer ${accessToken}` } },
+          'browse'
         );
         if (downloadResponse.ok) {
           const downloadData = await downloadResponse.json();
@@ -592,9 +617,13 @@ async function handleAPIBrowse(req: any, res: any, context: any) {
   console.log('[API] Fetching browse:', url);
 
   try {
-    const response = await fetch(url, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
+    const response = await fetchDeviantArt(
+      url,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+      'browse'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -45,6 +45,10 @@ vi.mock('../lib/redis-client.js', () => ({
   },
 }));
 
+vi.mock('../lib/deviantart-quota.js', () => ({
+  getDeviantArtQuotaStatus: vi.fn(),
+}));
+
 vi.mock('../lib/redis-cache.js', () => ({
   RedisCache: {
     invalidate: vi.fn(),
@@ -56,6 +60,7 @@ import { CacheStats } from '../lib/cache-stats.js';
 import { CircuitBreaker } from '../lib/circuit-breaker.js';
 import { RedisClientManager } from '../lib/redis-client.js';
 import { RedisCache } from '../lib/redis-cache.js';
+import { getDeviantArtQuotaStatus } from '../lib/deviantart-quota.js';
 
 // Helper to call route handlers directly
 async function callRoute(method: string, path: string, req: any, res: any) {
@@ -77,6 +82,21 @@ describe('cache routes', () => {
     vi.clearAllMocks();
 
     // Set up default mocks
+    (getDeviantArtQuotaStatus as any).mockResolvedValue({
+      enabled: true,
+      capacity: 60,
+      refillPerMinute: 120,
+      publishReserve: 15,
+      tokens: 42,
+      rateLimitedUntil: null,
+      lastRateLimitAt: null,
+      rateLimitHits: 0,
+      requests: {
+        publish: { granted: 10, denied: 0 },
+        standard: { granted: 5, denied: 0 },
+        browse: { granted: 20, denied: 2 },
+      },
+    });
     (CacheStats.getDetailedStats as any).mockReturnValue({
       uptime: 120000,
       startTime: new Date('2025-12-21T10:00:00Z'),
@@ -391,9 +411,7 @@ describe('cache routes', () => {
       });
       const res = createMockResponse();
 
-      (CircuitBreaker.reset as any).mockImplementation(() => {
-        throw new Error('Reset failed');
-      });
+      (CircuitBreaker.reset as any).mockRejectedValue(new Error('Reset failed'));
 
       await callRoute('POST', '/circuit-breaker/reset', req, res);
 
@@ -427,9 +445,7 @@ describe('cache routes', () => {
       const req = createMockRequest();
       const res = createMockResponse();
 
-      (CircuitBreaker.resetAll as any).mockImplementation(() => {
-        throw new Error('Reset all failed');
-      });
+      (CircuitBreaker.resetAll as any).mockRejectedValue(new Error('Reset all failed'));
 
       await callRoute('POST', '/circuit-breaker/reset-all', req, res);
 
@@ -462,6 +478,7 @@ describe('cache routes', () => {
           coalescedRequests: 10,
           uptime: '120s',
         },
+        deviantartQuota: expect.objectContaining({ capacity: 60, tokens: 42 }),
       });
     });
 
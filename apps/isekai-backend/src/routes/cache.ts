@@ -18,6 +18,7 @@
 import { Router } from 'express';
 import { CacheStats } from '../lib/cache-stats.js';
 import { CircuitBreaker } from '../lib/circuit-breaker.js';
+import { getDeviantArtQuotaStatus } from '../lib/deviantart-quota.js';
 import { RedisClientManager } from '../lib/redis-client.js';
 import { RedisCache } from '../lib/redis-cache.js';
 
@@ -117,12 +118,12 @@ router.post('/invalidate', async (req, res) => {
 
 /**
  * POST /cache/circuit-breaker/reset - Reset a specific circuit breaker
- * Admin endpoint to manually reset a circuit breaker
+ * Admin endpoint to manually reset a circuit breaker on every backend and publisher process
  *
  * Body: { key: string }
  * Example: { key: "browse:tags" }
  */
-router.post('/circuit-breaker/reset', (req, res) => {
+router.post('/circuit-breaker/reset', async (req, res) => {
   try {
     const { key } = req.body;
 
@@ -130,7 +131,7 @@ router.post('/circuit-breaker/reset', (req, res) => {
       return res.status(400).json({ error: 'Circuit key is required' });
     }
 
-    CircuitBreaker.reset(key);
+    await CircuitBreaker.reset(key);
 
     res.json({
       success: true,
@@ -145,11 +146,11 @@ router.post('/circuit-breaker/reset', (req, res) => {
 
 /**
  * POST /cache/circuit-breaker/reset-all - Reset all circuit breakers
- * Admin endpoint to reset all circuit breakers
+ * Admin endpoint to reset all circuit breakers on every backend and publisher process
  */
-router.post('/circuit-breaker/reset-all', (req, res) => {
+router.post('/circuit-breaker/reset-all', async (req, res) => {
   try {
-    CircuitBreaker.resetAll();
+    await CircuitBreaker.resetAll();
 
     res.json({
       success: true,
@@ -166,10 +167,11 @@ router.post('/circuit-breaker/reset-all', (req, res) => {
  * GET /cache/summary - Log cache summary to console and return
  * Admin endpoint for quick overview
  */
-router.get('/summary', (req, res) => {
+router.get('/summary', async (req, res) => {
   try {
     CacheStats.logSummary();
     const stats = CacheStats.getDetailedStats();
+    const deviantartQuota = await getDeviantArtQuotaStatus();
 
     res.json({
       timestamp: new Date().toISOString(),
@@ -183,6 +185,7 @@ router.get('/summary', (req, res) => {
         coalescedRequests: stats.coalescedRequests,
         uptime: `${Math.floor(stats.uptime / 1000)}s`,
       },
+      deviantartQuota,
     });
   } catch (error) {
     console.error('Cache summary error:', error);
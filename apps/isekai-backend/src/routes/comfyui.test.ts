@@ -28,6 +28,9 @@ vi.mock('../db/index.js', () => ({
     deviationFile: {
       create: vi.fn(),
     },
+    deviationEvent: {
+      createMany: vi.fn(),
+    },
   },
 }));
 
@@ -52,6 +55,10 @@ vi.mock('../middleware/rate-limit.js', () => ({
   comfyUIUploadLimiter: (req: any, res: any, next: any) => next(),
 }));
 
+vi.mock('../queues/webhook-delivery.js', () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
 import { prisma } from '../db/index.js';
 import {
   validateFileType,
@@ -61,6 +68,7 @@ import {
   getPublicUrl,
 } from '../lib/upload-service.js';
 import sharp from 'sharp';
+import { emitWebhookEvent } from '../queues/webhook-delivery.js';
 
 describe('comfyui routes', () => {
   const mockUser = {
@@ -116,6 +124,7 @@ describe('comfyui routes', () => {
     it('should upload file with all metadata', async () => {
       const req = createMockRequest({
         user: mockUser,
+        apiKeyAuth: { apiKeyId: 'key-123', userId: 'user-123' },
         file: {
           originalname: 'test.jpg',
           mimetype: 'image/jpeg',
@@ -187,6 +196,17 @@ describe('comfyui routes', () => {
           sortOrder: 0,
         },
       });
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            deviationId: 'deviation-123',
+            type: 'created',
+            toStatus: 'review',
+            actorType: 'api_key',
+            actorId: 'key-123',
+          }),
+        ],
+      });
       expect(res.status).toHaveBeenCalledWith(201);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
@@ -607,6 +627,11 @@ describe('comfyui routes', () => {
         status: 'review',
         message: 'Upload successful. Deviation pending review.',
       });
+      expect(emitWebhookEvent).toHaveBeenCalledWith({
+        userId: 'user-123',
+        event: 'review.created',
+        data: { deviationId: 'deviation-123', title: 'Test Image', source: 'comfyui' },
+      });
     });
 
     it('should accept empty tags array', async () => {
@@ -30,6 +30,10 @@ import {
 } from '../lib/upload-service.js';
 import { apiKeyAuthMiddleware } from '../middleware/api-key-auth.js';
 import { comfyUIUploadLimiter } from '../middleware/rate-limit.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.js';
+import { getRequestActor } from '../lib/deviation-events.js';
+import { emitWebhookEvent } from '../queues/webhook-delivery.js';
+import { recordDeviationEvent } from '@isekai/shared';
 import sharp from 'sharp';
 
 const router = Router();
@@ -57,7 +61,7 @@ const uploadMetadataSchema = z.object({
 });
 
 // ComfyUI Upload Endpoint
-router.post('/upload', upload.single('file'), async (req, res) => {
+router.post('/upload', upload.single('file'), idempotencyMiddleware, async (req, res) => {
   const user = req.user!;
   const file = req.file;
 
@@ -139,6 +143,20 @@ router.post('/upload', upload.single('file'), async (req, res) => {
     },
   });
 
+  await recordDeviationEvent(prisma, {
+    deviationId: deviation.id,
+    type: 'created',
+    actor: getRequestActor(req),
+    toStatus: 'review',
+    metadata: { source: 'comfyui' },
+  });
+
+  await emitWebhookEvent({
+    userId: user.id,
+    event: 'review.created',
+    data: { deviationId: deviation.id, title: deviation.title, source: 'comfyui' },
+  });
+
   res.status(201).json({
     success: true,
     deviationId: deviation.id,
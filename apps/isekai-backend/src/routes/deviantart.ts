@@ -19,10 +19,11 @@ import { Router } from 'express';
 import { refreshTokenIfNeeded } from '../lib/deviantart.js';
 import { RedisCache, CacheTTL } from '../lib/redis-cache.js';
 import { CacheKeys } from '../lib/cache-keys.js';
+import { getDeviantArtEndpoints } from '@isekai/shared';
 
 const router = Router();
 
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+const { apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 router.get('/galleries', async (req, res) => {
   const user = req.user!;
@@ -83,6 +83,13 @@ vi.mock('../db/index.js', () => ({
       deleteMany: vi.fn(),
       update: vi.fn(),
     },
+    deviationEvent: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    template: {
+      findFirst: vi.fn(),
+    },
   },
 }));
 
@@ -154,6 +161,14 @@ describe('Deviations Routes', () => {
     updatedAt: new Date(),
   };
 
+  const mockFile = {
+    id: 'file-1',
+    storageKey: 'test.jpg',
+    originalFilename: 'test.jpg',
+    mimeType: 'image/jpeg',
+    fileSize: 1024,
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
     mockRefreshTokenIfNeeded.mockResolvedValue('mock-access-token');
@@ -353,6 +368,48 @@ describe('Deviations Routes', () => {
         })
       );
     });
+    it('should store a comment template owned by the user', async () => {
+      mockPrisma.deviation.create.mockResolvedValue(mockDeviation);
+      mockPrisma.template.findFirst.mockResolvedValue({ id: 'template-1' } as any);
+
+      const req = {
+        user: mockUser,
+        body: { title: 'New Deviation', commentTemplateId: 'template-1' },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('post', '/', req, res);
+
+      expect(mockPrisma.template.findFirst).toHaveBeenCalledWith({
+        where: { id: 'template-1', userId: mockUser.id, type: 'comment' },
+        select: { id: true },
+      });
+      expect(mockPrisma.deviation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ commentTemplateId: 'template-1' }),
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should reject an unknown comment template', async () => {
+      mockPrisma.template.findFirst.mockResolvedValue(null);
+
+      const req = {
+        user: mockUser,
+        body: { title: 'New Deviation', commentTemplateId: 'someone-elses' },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('post', '/', req, res);
+
+      expect(mockPrisma.deviation.create).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
   });
 
   describe('PATCH /:id', () => {
@@ -385,6 +442,29 @@ describe('Deviations Routes', () => {
       );
     });
 
+    it('should clear the comment template', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue(mockDeviation);
+      mockPrisma.deviation.update.mockResolvedValue(mockDeviation);
+
+      const req = {
+        user: mockUser,
+        params: { id: mockDeviation.id },
+        body: { commentTemplateId: null },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('patch', `/${mockDeviation.id}`, req, res);
+
+      expect(mockPrisma.template.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: mockDeviation.id },
+        data: expect.objectContaining({ commentTemplateId: null }),
+      });
+    });
+
     it('should return 404 when deviation not found', async () => {
       mockPrisma.deviation.findFirst.mockResolvedValue(null);
 
@@ -448,6 +528,62 @@ describe('Deviations Routes', () => {
     });
   });
 
+  describe('POST /:id/validate', () => {
+    it('should return errors and warnings', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue({
+        ...mockDeviation,
+        isMature: true,
+        tags: ['fan art'],
+        files: [mockFile],
+      });
+
+      const req = { user: mockUser, params: { id: mockDeviation.id } };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', `/${mockDeviation.id}/validate`, req, res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        deviationId: mockDeviation.id,
+        valid: false,
+        errors: [expect.objectContaining({ field: 'matureLevel' })],
+        warnings: [expect.objectContaining({ code: 'tags_sanitized' })],
+      });
+    });
+
+    it('should return 404 for missing deviations', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue(null);
+
+      const req = { user: mockUser, params: { id: 'missing' } };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', '/missing/validate', req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('POST /batch-validate', () => {
+    it('should validate each deviation and summarize', async () => {
+      mockPrisma.deviation.findMany.mockResolvedValue([
+        { ...mockDeviation, files: [mockFile] },
+        { ...mockDeviation, id: 'dev-2', isAiGenerated: true, noAi: true, files: [mockFile] },
+      ]);
+
+      const req = { user: mockUser, body: { deviationIds: [mockDeviation.id, 'dev-2'] } };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', '/batch-validate', req, res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        results: [
+          expect.objectContaining({ deviationId: mockDeviation.id, valid: true }),
+          expect.objectContaining({ deviationId: 'dev-2', valid: false }),
+        ],
+        summary: { total: 2, valid: 1, invalid: 1 },
+      });
+    });
+  });
+
   describe('POST /:id/schedule', () => {
     it('should schedule deviation successfully', async () => {
       const scheduledDev = {
@@ -457,7 +593,7 @@ describe('Deviations Routes', () => {
       };
       const deviationWithFiles = {
         ...mockDeviation,
-        files: [{ id: 'file-1', storageKey: 'test.jpg' }],
+        files: [mockFile],
       };
       mockPrisma.deviation.findFirst.mockResolvedValue(deviationWithFiles);
       mockPrisma.deviation.update.mockResolvedValue(scheduledDev);
@@ -485,6 +621,64 @@ describe('Deviations Routes', () => {
       );
     });
 
+    it('should defer to the next slot allowed by the publishing policy', async () => {
+      const scheduledDate = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      mockPrisma.deviation.findFirst.mockResolvedValue({ ...mockDeviation, files: [mockFile] });
+      // Another post already goes out at the requested time
+      mockPrisma.deviation.findMany.mockResolvedValue([
+        { status: 'scheduled', publishedAt: null, actualPublishAt: scheduledDate },
+      ] as any);
+      mockScheduleDeviation.mockResolvedValue(undefined);
+
+      const req = {
+        user: { ...mockUser, timezone: 'UTC', minPostGapMinutes: 60, quietHours: [] },
+        params: { id: mockDeviation.id },
+        body: { scheduledAt: scheduledDate.toISOString() },
+      };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', `/${mockDeviation.id}/schedule`, req, res);
+
+      const expectedSlot = new Date(scheduledDate.getTime() + 60 * 60 * 1000);
+      expect(mockPrisma.deviation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'user-123', id: { not: mockDeviation.id } }),
+        })
+      );
+      expect(mockScheduleDeviation).toHaveBeenCalledWith(
+        mockDeviation.id,
+        'user-123',
+        expectedSlot,
+        undefined
+      );
+    });
+
+    it('should refuse deviations that fail pre-publish validation', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue({
+        ...mockDeviation,
+        addWatermark: true,
+        displayResolution: 0,
+        files: [mockFile],
+      });
+
+      const req = {
+        user: mockUser,
+        params: { id: mockDeviation.id },
+        body: {
+          scheduledAt: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        },
+      };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', `/${mockDeviation.id}/schedule`, req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: expect.stringContaining('Watermarks require a display resolution'),
+      });
+      expect(mockScheduleDeviation).not.toHaveBeenCalled();
+    });
+
     it('should validate scheduledAt is in the future', async () => {
       const deviationWithFiles = {
         ...mockDeviation,
@@ -583,6 +777,84 @@ describe('Deviations Routes', () => {
           status: 'draft',
         })
       );
+      expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            deviationId: mockDeviation.id,
+            type: 'unscheduled',
+            fromStatus: 'scheduled',
+            toStatus: 'draft',
+            actorType: 'user',
+            actorId: mockUser.id,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe('GET /:id/events', () => {
+    it('should return lifecycle events oldest first', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue({ id: mockDeviation.id } as any);
+      mockPrisma.deviationEvent.findMany.mockResolvedValue([
+        {
+          id: 'event-1',
+          deviationId: mockDeviation.id,
+          type: 'scheduled',
+          fromStatus: 'draft',
+          toStatus: 'scheduled',
+          actorType: 'automation',
+          actorId: 'automation-1',
+          metadata: { actualPublishAt: '2025-01-01T03:02:11.000Z' },
+          createdAt: new Date('2024-12-31T12:00:00Z'),
+        },
+      ] as any);
+
+      const req = {
+        user: mockUser,
+        params: { id: mockDeviation.id },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('get', `/${mockDeviation.id}/events`, req, res);
+
+      expect(mockPrisma.deviation.findFirst).toHaveBeenCalledWith({
+        where: { id: mockDeviation.id, userId: mockUser.id },
+        select: { id: true },
+      });
+      expect(mockPrisma.deviationEvent.findMany).toHaveBeenCalledWith({
+        where: { deviationId: mockDeviation.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        events: [
+          expect.objectContaining({
+            type: 'scheduled',
+            actorType: 'automation',
+            createdAt: '2024-12-31T12:00:00.000Z',
+          }),
+        ],
+      });
+    });
+
+    it('should return 404 when deviation not found', async () => {
+      mockPrisma.deviation.findFirst.mockResolvedValue(null);
+
+      const req = {
+        user: mockUser,
+        params: { id: 'non-existent' },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('get', '/non-existent/events', req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(mockPrisma.deviationEvent.findMany).not.toHaveBeenCalled();
     });
   });
 
@@ -728,10 +1000,33 @@ describe('Deviations Routes', () => {
   });
 
   describe('POST /batch-schedule', () => {
+    it('should refuse the batch when a deviation fails validation', async () => {
+      mockPrisma.deviation.findMany.mockResolvedValue([
+        { ...mockDeviation, title: 'x'.repeat(60), files: [mockFile] },
+      ]);
+
+      const req = {
+        user: mockUser,
+        body: {
+          deviationIds: [mockDeviation.id],
+          scheduledAt: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        },
+      };
+      const res = { json: vi.fn(), status: vi.fn().mockReturnThis() };
+
+      await callRoute('post', '/batch-schedule', req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error: expect.stringContaining(`Deviation ${mockDeviation.id} failed validation`),
+      });
+      expect(mockPrisma.deviation.update).not.toHaveBeenCalled();
+    });
+
     it('should batch schedule deviations', async () => {
       const draftWithFiles = {
         ...mockDeviation,
-        files: [{ id: 'file-1', storageKey: 'test.jpg' }],
+        files: [mockFile],
       };
       const futureTime = Date.now() + 2 * 60 * 60 * 1000; // 2 hours
       const scheduledDev = {
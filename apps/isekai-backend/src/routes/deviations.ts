@@ -26,8 +26,18 @@ import {
   deviationPublisherQueue,
 } from '../queues/deviation-publisher.js';
 import { scheduleRateLimit, batchRateLimit } from '../middleware/rate-limit.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.js';
 import type { DeviationStatus, MatureLevel, UploadMode } from '../db/index.js';
 import { deleteFromStorage } from '../lib/upload-service.js';
+import { getRequestActor } from '../lib/deviation-events.js';
+import {
+  recordDeviationEvent,
+  recordDeviationEvents,
+  validateDeviationForPublish,
+  formatValidationErrors,
+  resolvePublishSlot,
+  type PolicyUser,
+} from '@isekai/shared';
 
 const router = Router();
 
@@ -45,8 +55,77 @@ const createDeviationSchema = z.object({
   noAi: z.boolean().optional(),
   uploadMode: z.enum(['single', 'multiple']).optional(),
   scheduledAt: z.string().optional(),
+  commentTemplateId: z.string().nullable().optional(), // Comment template posted as first comment after publish
 });
 
+/**
+ * Ensure a comment template exists, belongs to the user and is a comment template
+ */
+async function assertCommentTemplate(userId: string, templateId: string | null | undefined) {
+  if (!templateId) {
+    return;
+  }
+
+  const template = await prisma.template.findFirst({
+    where: { id: templateId, userId, type: 'comment' },
+    select: { id: true },
+  });
+
+  if (!template) {
+    throw new AppError(400, 'Comment template not found');
+  }
+}
+
+/**
+ * Refuse deviations that would fail on publish, so problems surface when scheduling
+ */
+function assertPublishable(
+  deviation: Parameters<typeof validateDeviationForPublish>[0] & { id: string },
+  includeId = false
+) {
+  const validation = validateDeviationForPublish(deviation);
+  if (!validation.valid) {
+    const subject = includeId ? `Deviation ${deviation.id}` : 'Deviation';
+    throw new AppError(400, `${subject} failed validation: ${formatValidationErrors(validation)}`);
+  }
+}
+
+/**
+ * Pick the publish time for a deviation being scheduled
+ *
+ * Applies the user's publishing policy (daily cap, minimum gap, quiet hours) to the
+ * jittered time. When the policy moves the post, jitter is dropped so the deviation
+ * lands exactly on the next allowed slot.
+ */
+async function resolveScheduleTimes(
+  user: PolicyUser,
+  deviationId: string,
+  scheduledDate: Date,
+  jitterSeconds: number
+) {
+  const requested = new Date(scheduledDate.getTime() + jitterSeconds * 1000);
+  const slot = await resolvePublishSlot(prisma, user, requested, {
+    excludeDeviationId: deviationId,
+    includeScheduled: true,
+  });
+
+  if (!slot.deferred) {
+    return {
+      scheduledAt: scheduledDate,
+      jitterSeconds,
+      actualPublishAt: requested,
+      policyReasons: [],
+    };
+  }
+
+  return {
+    scheduledAt: slot.publishAt,
+    jitterSeconds: 0,
+    actualPublishAt: slot.publishAt,
+    policyReasons: slot.reasons,
+  };
+}
+
 // List deviations
 router.get('/', async (req, res) => {
   const { status, page = '1', limit = '20' } = req.query;
@@ -84,6 +163,7 @@ router.get('/', async (req, res) => {
     actualPublishAt: deviation.actualPublishAt?.toISOString() ?? null,
     publishedAt: deviation.publishedAt?.toISOString() ?? null,
     lastRetryAt: deviation.lastRetryAt?.toISOString() ?? null,
+    commentPostedAt: deviation.commentPostedAt?.toISOString() ?? null,
     createdAt: deviation.createdAt.toISOString(),
     updatedAt: deviation.updatedAt.toISOString(),
   }));
@@ -112,17 +192,46 @@ router.get('/:id', async (req, res) => {
     actualPublishAt: deviation.actualPublishAt?.toISOString() ?? null,
     publishedAt: deviation.publishedAt?.toISOString() ?? null,
     lastRetryAt: deviation.lastRetryAt?.toISOString() ?? null,
+    commentPostedAt: deviation.commentPostedAt?.toISOString() ?? null,
     createdAt: deviation.createdAt.toISOString(),
     updatedAt: deviation.updatedAt.toISOString(),
   });
 });
 
+// Get deviation lifecycle events (oldest first)
+router.get('/:id/events', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  const deviation = await prisma.deviation.findFirst({
+    where: { id, userId },
+    select: { id: true },
+  });
+
+  if (!deviation) {
+    throw new AppError(404, 'Deviation not found');
+  }
+
+  const events = await prisma.deviationEvent.findMany({
+    where: { deviationId: id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.json({
+    events: events.map((event) => ({
+      ...event,
+      createdAt: event.createdAt.toISOString(),
+    })),
+  });
+});
+
 // Create deviation
-router.post('/', async (req, res) => {
+router.post('/', idempotencyMiddleware, async (req, res) => {
   const user = req.user!;
 
   // Note: No draft limit check - only scheduled deviations are limited
   const data = createDeviationSchema.parse(req.body);
+  await assertCommentTemplate(user.id, data.commentTemplateId);
 
   const deviation = await prisma.deviation.create({
     data: {
@@ -139,9 +248,17 @@ router.post('/', async (req, res) => {
       isAiGenerated: data.isAiGenerated ?? false,
       noAi: data.noAi ?? false,
       uploadMode: (data.uploadMode ?? 'single') as UploadMode,
+      commentTemplateId: data.commentTemplateId ?? null,
     },
   });
 
+  await recordDeviationEvent(prisma, {
+    deviationId: deviation.id,
+    type: 'created',
+    actor: getRequestActor(req),
+    toStatus: deviation.status,
+  });
+
   res.status(201).json({
     ...deviation,
     files: [],
@@ -172,6 +289,7 @@ router.patch('/:id', async (req, res) => {
   }
 
   const data = createDeviationSchema.partial().parse(req.body);
+  await assertCommentTemplate(userId, data.commentTemplateId);
 
   // Convert scheduledAt string to Date object if present
   const updateData: any = { ...data, updatedAt: new Date() };
@@ -200,6 +318,23 @@ router.patch('/:id', async (req, res) => {
   });
 });
 
+// Validate a deviation against pre-publish rules
+router.post('/:id/validate', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  const deviation = await prisma.deviation.findFirst({
+    where: { id, userId },
+    include: { files: true },
+  });
+
+  if (!deviation) {
+    throw new AppError(404, 'Deviation not found');
+  }
+
+  res.json({ deviationId: deviation.id, ...validateDeviationForPublish(deviation) });
+});
+
 // Delete deviation
 router.delete('/:id', async (req, res) => {
   const { id } = req.params;
@@ -270,9 +405,16 @@ router.post('/:id/schedule', scheduleRateLimit, async (req, res) => {
     throw new AppError(400, 'Cannot schedule more than 365 days in the future');
   }
 
-  // Generate random jitter (0-300 seconds = 0-5 minutes)
-  const jitterSeconds = Math.floor(Math.random() * 301);
-  const actualPublishAt = new Date(scheduledDate.getTime() + jitterSeconds * 1000);
+  assertPublishable(deviation);
+
+  // Generate random jitter (0-300 seconds = 0-5 minutes), then apply the publishing policy
+  const times = await resolveScheduleTimes(
+    user,
+    id,
+    scheduledDate,
+    Math.floor(Math.random() * 301)
+  );
+  const { jitterSeconds, actualPublishAt } = times;
 
   // Use transaction to atomically check limits and update status
   let updated;
@@ -284,7 +426,7 @@ router.post('/:id/schedule', scheduleRateLimit, async (req, res) => {
           where: { id },
           data: {
             status: 'scheduled',
-            scheduledAt: scheduledDate,
+            scheduledAt: times.scheduledAt,
             jitterSeconds,
             actualPublishAt,
             updatedAt: new Date(),
@@ -316,12 +458,34 @@ router.post('/:id/schedule', scheduleRateLimit, async (req, res) => {
           updatedAt: new Date(),
         },
       });
+      await recordDeviationEvent(prisma, {
+        deviationId: id,
+        type: 'schedule_failed',
+        actor: getRequestActor(req),
+        fromStatus: 'scheduled',
+        toStatus: 'draft',
+        metadata: { error: error instanceof Error ? error.message : 'Unknown error' },
+      });
       throw new AppError(500, 'Failed to schedule deviation. Please try again.');
     }
     // If error happened during transaction, just re-throw
     throw error;
   }
 
+  await recordDeviationEvent(prisma, {
+    deviationId: id,
+    type: 'scheduled',
+    actor: getRequestActor(req),
+    fromStatus: deviation.status,
+    toStatus: 'scheduled',
+    metadata: {
+      scheduledAt: times.scheduledAt,
+      actualPublishAt,
+      jitterSeconds,
+      ...(times.policyReasons.length > 0 && { policyReasons: times.policyReasons }),
+    },
+  });
+
   res.json({
     ...updated,
     files: deviation.files,
@@ -367,7 +531,7 @@ router.post('/:id/publish-now', scheduleRateLimit, async (req, res) => {
         throw new AppError(409, 'This deviation is currently being published. Please wait.');
       }
 
-      if (['waiting', 'delayed'].includes(jobState)) {
+      if (['waiting', 'prioritized', 'delayed'].includes(jobState)) {
         // Cancel scheduled job before publishing now
         await existingJob.remove();
         console.log(`[Publish Now] Cancelled scheduled job for deviation ${id}`);
@@ -386,6 +550,14 @@ router.post('/:id/publish-now', scheduleRateLimit, async (req, res) => {
     },
   });
 
+  await recordDeviationEvent(prisma, {
+    deviationId: id,
+    type: 'publish_queued',
+    actor: getRequestActor(req),
+    fromStatus: deviation.status,
+    toStatus: 'publishing',
+  });
+
   res.json({
     ...updated,
     files: deviation.files,
@@ -430,6 +602,15 @@ router.post('/:id/cancel', async (req, res) => {
     },
   });
 
+  await recordDeviationEvent(prisma, {
+    deviationId: id,
+    type: 'unscheduled',
+    actor: getRequestActor(req),
+    fromStatus: 'scheduled',
+    toStatus: 'draft',
+    metadata: { actualPublishAt: deviation.actualPublishAt },
+  });
+
   res.json({
     ...updated,
     files: deviation.files,
@@ -547,15 +728,20 @@ router.post('/batch-reschedule', batchRateLimit, async (req, res) => {
       // Cancel existing job
       await cancelScheduledDeviation(deviation.id);
 
-      // Generate new jitter (0-300 seconds = 0-5 minutes)
-      const jitterSeconds = Math.floor(Math.random() * 301);
-      const actualPublishAt = new Date(scheduledDate.getTime() + jitterSeconds * 1000);
+      // Generate new jitter (0-300 seconds = 0-5 minutes), then apply the publishing policy
+      const times = await resolveScheduleTimes(
+        user,
+        deviation.id,
+        scheduledDate,
+        Math.floor(Math.random() * 301)
+      );
+      const { jitterSeconds, actualPublishAt } = times;
 
       // Update database FIRST (before scheduling) to avoid race condition
       const updated = await prisma.deviation.update({
         where: { id: deviation.id },
         data: {
-          scheduledAt: scheduledDate,
+          scheduledAt: times.scheduledAt,
           jitterSeconds,
           actualPublishAt,
           updatedAt: new Date(),
@@ -580,6 +766,21 @@ router.post('/batch-reschedule', batchRateLimit, async (req, res) => {
         throw queueError; // Re-throw to be caught by outer try-catch
       }
 
+      await recordDeviationEvent(prisma, {
+        deviationId: deviation.id,
+        type: 'rescheduled',
+        actor: getRequestActor(req),
+        fromStatus: 'scheduled',
+        toStatus: 'scheduled',
+        metadata: {
+          previousActualPublishAt: deviation.actualPublishAt,
+          scheduledAt: times.scheduledAt,
+          actualPublishAt,
+          jitterSeconds,
+          ...(times.policyReasons.length > 0 && { policyReasons: times.policyReasons }),
+        },
+      });
+
       updatedDeviations.push({
         ...updated,
         files: deviation.files,
@@ -663,9 +864,56 @@ router.post('/batch-cancel', batchRateLimit, async (req, res) => {
     });
   }
 
+  const actor = getRequestActor(req);
+  await recordDeviationEvents(
+    prisma,
+    scheduledDeviations.map((deviation) => ({
+      deviationId: deviation.id,
+      type: 'unscheduled' as const,
+      actor,
+      fromStatus: 'scheduled' as const,
+      toStatus: 'draft' as const,
+      metadata: { actualPublishAt: deviation.actualPublishAt },
+    }))
+  );
+
   res.json({ deviations: updatedDeviations });
 });
 
+// Batch validate deviations against pre-publish rules
+router.post('/batch-validate', batchRateLimit, async (req, res) => {
+  const { deviationIds } = req.body;
+  const userId = req.user!.id;
+
+  if (!Array.isArray(deviationIds) || deviationIds.length === 0) {
+    throw new AppError(400, 'deviationIds array is required');
+  }
+
+  const userDeviations = await prisma.deviation.findMany({
+    where: { id: { in: deviationIds }, userId },
+    include: { files: true },
+  });
+
+  if (userDeviations.length !== deviationIds.length) {
+    throw new AppError(404, 'One or more deviations not found');
+  }
+
+  const results = userDeviations.map((deviation) => ({
+    deviationId: deviation.id,
+    ...validateDeviationForPublish(deviation),
+  }));
+  const validCount = results.filter((result) => result.valid).length;
+
+  res.json({
+    results,
+    summary: {
+      total: results.length,
+      valid: validCount,
+      invalid: results.length - validCount,
+    },
+  });
+});
+
 // Batch schedule deviations
 router.post('/batch-schedule', batchRateLimit, async (req, res) => {
   const { deviationIds, scheduledAt } = req.body;
@@ -705,11 +953,12 @@ router.post('/batch-schedule', batchRateLimit, async (req, res) => {
     throw new AppError(400, 'Can only schedule draft or failed deviations');
   }
 
-  // Validate all have files
+  // Validate all have files and pass pre-publish validation
   for (const deviation of schedulableDeviations) {
     if (!deviation.files || deviation.files.length === 0) {
       throw new AppError(400, `Deviation ${deviation.id} must have at least one file`);
     }
+    assertPublishable(deviation, true);
   }
 
   const updatedDeviations = [];
@@ -718,16 +967,21 @@ router.post('/batch-schedule', batchRateLimit, async (req, res) => {
   // Schedule each deviation with error handling
   for (const deviation of schedulableDeviations) {
     try {
-      // Generate random jitter (0-300 seconds = 0-5 minutes)
-      const jitterSeconds = Math.floor(Math.random() * 301);
-      const actualPublishAt = new Date(scheduledDate.getTime() + jitterSeconds * 1000);
+      // Generate random jitter (0-300 seconds = 0-5 minutes), then apply the publishing policy
+      const times = await resolveScheduleTimes(
+        user,
+        deviation.id,
+        scheduledDate,
+        Math.floor(Math.random() * 301)
+      );
+      const { jitterSeconds, actualPublishAt } = times;
 
       // Update deviation to scheduled status
       const updated = await prisma.deviation.update({
         where: { id: deviation.id },
         data: {
           status: 'scheduled',
-          scheduledAt: scheduledDate,
+          scheduledAt: times.scheduledAt,
           jitterSeconds,
           actualPublishAt,
           updatedAt: new Date(),
@@ -750,9 +1004,33 @@ router.post('/batch-schedule', batchRateLimit, async (req, res) => {
             updatedAt: new Date(),
           },
         });
+        await recordDeviationEvent(prisma, {
+          deviationId: deviation.id,
+          type: 'schedule_failed',
+          actor: getRequestActor(req),
+          fromStatus: 'scheduled',
+          toStatus: 'draft',
+          metadata: {
+            error: queueError instanceof Error ? queueError.message : 'Unknown error',
+          },
+        });
         throw queueError; // Re-throw to be caught by outer try-catch
       }
 
+      await recordDeviationEvent(prisma, {
+        deviationId: deviation.id,
+        type: 'scheduled',
+        actor: getRequestActor(req),
+        fromStatus: deviation.status,
+        toStatus: 'scheduled',
+        metadata: {
+          scheduledAt: times.scheduledAt,
+          actualPublishAt,
+          jitterSeconds,
+          ...(times.policyReasons.length > 0 && { policyReasons: times.policyReasons }),
+        },
+      });
+
       updatedDeviations.push({
         ...updated,
         files: deviation.files,
@@ -856,6 +1134,14 @@ router.post('/batch-publish-now', batchRateLimit, async (req, res) => {
         throw queueError; // Re-throw to be caught by outer try-catch
       }
 
+      await recordDeviationEvent(prisma, {
+        deviationId: deviation.id,
+        type: 'publish_queued',
+        actor: getRequestActor(req),
+        fromStatus: deviation.status,
+        toStatus: 'publishing',
+      });
+
       updatedDeviations.push({
         ...updated,
         files: deviation.files,
@@ -0,0 +1,404 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
+import { PublishPriority } from '@isekai/shared';
+
+// Mock rate limiters
+vi.mock('express-rate-limit', () => ({
+  default: vi.fn(() => (req: any, res: any, next: any) => next()),
+  rateLimit: vi.fn(() => (req: any, res: any, next: any) => next()),
+}));
+
+vi.mock('rate-limit-redis', () => ({
+  default: vi.fn(),
+  RedisStore: vi.fn(),
+}));
+
+// Mock dependencies
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    deadLetterJob: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    deviation: {
+      update: vi.fn(),
+    },
+    deviationEvent: {
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../queues/deviation-publisher.js', () => ({
+  scheduleDeviation: vi.fn(),
+}));
+
+import { failedDeviationsRouter } from './failed-deviations.js';
+import { prisma } from '../db/index.js';
+import { scheduleDeviation } from '../queues/deviation-publisher.js';
+
+describe('failed deviations routes', () => {
+  const mockUser = {
+    id: 'user-123',
+    deviantartId: 'da-123',
+    username: 'testuser',
+  };
+
+  const mockDeadLetter = {
+    id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e',
+    userId: 'user-123',
+    deviationId: 'deviation-123',
+    jobId: 'deviation-deviation-123',
+    uploadMode: 'single',
+    status: 'pending',
+    errorCategory: 'SERVER_ERROR',
+    errorMessage: 'DeviantArt API error',
+    error: {
+      category: 'SERVER_ERROR',
+      isRetryable: true,
+      errorContext: { message: 'DeviantArt API error', status: 503 },
+    },
+    attempts: [{ attempt: 7, category: 'SERVER_ERROR', message: 'DeviantArt API error' }],
+    attemptsMade: 7,
+    failedAt: new Date('2024-01-01T00:00:00Z'),
+    resolvedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+
+  const mockDeviation = {
+    id: 'deviation-123',
+    userId: 'user-123',
+    title: 'Test Deviation',
+    status: 'draft',
+    uploadMode: 'single',
+    files: [{ id: 'file-123' }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  async function callRoute(method: string, path: string, req: any, res: any) {
+    const routes = (failedDeviationsRouter as any).stack;
+    const route = routes.find(
+      (r: any) => r.route?.path === path && r.route?.methods?.[method.toLowerCase()]
+    );
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler(req, res);
+  }
+
+  describe('GET /', () => {
+    it('should list pending failed jobs by default', async () => {
+      const req = createMockRequest({ user: mockUser as any, query: {} });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([mockDeadLetter]);
+      (prisma.deadLetterJob.count as any).mockResolvedValue(1);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.deadLetterJob.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-123', status: 'pending' },
+          orderBy: { failedAt: 'desc' },
+          take: 20,
+          skip: 0,
+        })
+      );
+      expect(res.json).toHaveBeenCalledWith({
+        failedJobs: [
+          expect.objectContaining({
+            id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e',
+            errorCategory: 'SERVER_ERROR',
+            failedAt: '2024-01-01T00:00:00.000Z',
+            resolvedAt: null,
+          }),
+        ],
+        total: 1,
+      });
+    });
+
+    it('should filter by status', async () => {
+      const req = createMockRequest({ user: mockUser as any, query: { status: 'replayed' } });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([]);
+      (prisma.deadLetterJob.count as any).mockResolvedValue(0);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.deadLetterJob.count).toHaveBeenCalledWith({
+        where: { userId: 'user-123', status: 'replayed' },
+      });
+    });
+
+    it('should reject unknown status', async () => {
+      const req = createMockRequest({ user: mockUser as any, query: { status: 'bogus' } });
+      const res = createMockResponse();
+
+      await expect(callRoute('GET', '/', req, res)).rejects.toThrow('status must be one of');
+    });
+  });
+
+  describe('GET /:id', () => {
+    it('should return the full error context and attempt history', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e' },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findFirst as any).mockResolvedValue(mockDeadLetter);
+
+      await callRoute('GET', '/:id', req, res);
+
+      expect(prisma.deadLetterJob.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e', userId: 'user-123' },
+        })
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: mockDeadLetter.error,
+          attempts: mockDeadLetter.attempts,
+        })
+      );
+    });
+
+    it('should return 404 when not found', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'missing' } });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/:id', req, res)).rejects.toThrow('Failed job not found');
+    });
+  });
+
+  describe('POST /replay', () => {
+    it('should require ids array', async () => {
+      const req = createMockRequest({ user: mockUser as any, body: {} });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/replay', req, res)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'ids must be an array of 1-100 failed job IDs',
+      });
+    });
+
+    it('should reject ids that are not failed job IDs', async () => {
+      const req = createMockRequest({ user: mockUser as any, body: { ids: [{ not: 'an id' }] } });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/replay', req, res)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(prisma.deadLetterJob.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should replay an ID listed twice once', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e', '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'],
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([
+        { ...mockDeadLetter, deviation: mockDeviation },
+      ]);
+      (scheduleDeviation as any).mockResolvedValue(undefined);
+
+      await callRoute('POST', '/replay', req, res);
+
+      expect(prisma.deadLetterJob.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] } }),
+        })
+      );
+      expect(scheduleDeviation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when some jobs are not pending or not owned', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e', '0b9a8c7d-6e5f-4a3b-8c2d-1e0f9a8b7c6d'],
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([
+        { ...mockDeadLetter, deviation: mockDeviation },
+      ]);
+
+      await expect(callRoute('POST', '/replay', req, res)).rejects.toThrow(
+        'Can only replay pending failed jobs you own'
+      );
+    });
+
+    it('should re-queue the deviation through scheduleDeviation and mark replayed', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([
+        { ...mockDeadLetter, deviation: mockDeviation },
+      ]);
+      (scheduleDeviation as any).mockResolvedValue(undefined);
+
+      await callRoute('POST', '/replay', req, res);
+
+      expect(prisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: 'deviation-123' },
+        data: expect.objectContaining({
+          status: 'scheduled',
+          jitterSeconds: 0,
+          errorMessage: null,
+        }),
+      });
+      expect(scheduleDeviation).toHaveBeenCalledWith(
+        'deviation-123',
+        'user-123',
+        expect.any(Date),
+        'single',
+        PublishPriority.RECOVERY
+      );
+      expect(prisma.deadLetterJob.update).toHaveBeenCalledWith({
+        where: { id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e' },
+        data: { status: 'replayed', resolvedAt: expect.any(Date) },
+      });
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'replayed',
+            fromStatus: 'draft',
+            toStatus: 'scheduled',
+            metadata: { deadLetterId: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e' },
+          }),
+        ],
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        replayed: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'],
+        errors: undefined,
+        summary: { total: 1, succeeded: 1, failed: 0 },
+      });
+    });
+
+    it('should roll back the deviation when queueing fails', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([
+        { ...mockDeadLetter, deviation: mockDeviation },
+      ]);
+      (scheduleDeviation as any).mockRejectedValue(new Error('Redis down'));
+
+      await callRoute('POST', '/replay', req, res);
+
+      expect(prisma.deviation.update).toHaveBeenLastCalledWith({
+        where: { id: 'deviation-123' },
+        data: expect.objectContaining({
+          status: 'draft',
+          errorMessage: 'Failed to replay: Redis down',
+        }),
+      });
+      expect(prisma.deadLetterJob.update).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({
+        replayed: [],
+        errors: [{ id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e', error: 'Redis down' }],
+        summary: { total: 1, succeeded: 0, failed: 1 },
+      });
+    });
+
+    it('should skip deviations that are no longer drafts', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.findMany as any).mockResolvedValue([
+        { ...mockDeadLetter, deviation: { ...mockDeviation, status: 'published' } },
+      ]);
+
+      await callRoute('POST', '/replay', req, res);
+
+      expect(scheduleDeviation).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          replayed: [],
+          errors: [
+            {
+              id: '6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e',
+              error: 'Deviation is published, only drafts and failed can be replayed',
+            },
+          ],
+        })
+      );
+    });
+  });
+
+  describe('POST /discard', () => {
+    it('should require ids array', async () => {
+      const req = createMockRequest({ user: mockUser as any, body: { ids: [] } });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/discard', req, res)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'ids must be an array of 1-100 failed job IDs',
+      });
+    });
+
+    it('should discard pending failed jobs owned by the user', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { ids: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.deadLetterJob.updateMany as any).mockResolvedValue({ count: 1 });
+
+      await callRoute('POST', '/discard', req, res);
+
+      expect(prisma.deadLetterJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['6f1c2b7e-3d4a-4b5c-9d8e-1f2a3b4c5d6e'] },
+          userId: 'user-123',
+          status: 'pending',
+        },
+        data: { status: 'discarded', resolvedAt: expect.any(Date) },
+      });
+      expect(res.json).toHaveBeenCalledWith({ success: true, discardedCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/index.js';
+import { AppError } from '../middleware/error.js';
+import { scheduleDeviation } from '../queues/deviation-publisher.js';
+import { batchRateLimit } from '../middleware/rate-limit.js';
+import { getRequestActor } from '../lib/deviation-events.js';
+import { recordDeviationEvent, PublishPriority } from '@isekai/shared';
+import type { DeadLetterJob, DeadLetterStatus } from '../db/index.js';
+
+const router = Router();
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['pending', 'replayed', 'discarded'];
+
+const bulkIdsSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100),
+});
+
+/**
+ * Failed job IDs of a bulk request, deduplicated so they can be matched against the
+ * entries found
+ */
+function parseBulkIds(body: unknown): string[] {
+  const result = bulkIdsSchema.safeParse(body);
+  if (!result.success) {
+    throw new AppError(400, 'ids must be an array of 1-100 failed job IDs');
+  }
+  return [...new Set(result.data.ids)];
+}
+
+function transformDeadLetter(entry: DeadLetterJob & { deviation?: unknown }) {
+  return {
+    ...entry,
+    failedAt: entry.failedAt.toISOString(),
+    resolvedAt: entry.resolvedAt?.toISOString() ?? null,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+// List dead-lettered publish jobs
+router.get('/', async (req, res) => {
+  const { status = 'pending', page = '1', limit = '20' } = req.query;
+  const userId = req.user!.id;
+
+  if (!DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+    throw new AppError(400, `status must be one of: ${DEAD_LETTER_STATUSES.join(', ')}`);
+  }
+
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const offset = (pageNum - 1) * limitNum;
+
+  const whereClause = { userId, status: status as DeadLetterStatus };
+
+  const [entries, total] = await Promise.all([
+    prisma.deadLetterJob.findMany({
+      where: whereClause,
+      orderBy: { failedAt: 'desc' },
+      take: limitNum,
+      skip: offset,
+      include: {
+        deviation: { select: { id: true, title: true, status: true } },
+      },
+    }),
+    prisma.deadLetterJob.count({ where: whereClause }),
+  ]);
+
+  res.json({ failedJobs: entries.map(transformDeadLetter), total });
+});
+
+// Get single dead-lettered job with full error context and attempt history
+router.get('/:id', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  const entry = await prisma.deadLetterJob.findFirst({
+    where: { id, userId },
+    include: {
+      deviation: { select: { id: true, title: true, status: true } },
+    },
+  });
+
+  if (!entry) {
+    throw new AppError(404, 'Failed job not found');
+  }
+
+  res.json(transformDeadLetter(entry));
+});
+
+// Bulk replay failed jobs - re-queues each deviation for immediate publishing
+router.post('/replay', batchRateLimit, async (req, res) => {
+  const ids = parseBulkIds(req.body);
+  const user = req.user!;
+
+  const entries = await prisma.deadLetterJob.findMany({
+    where: {
+      id: { in: ids },
+      userId: user.id,
+      status: 'pending',
+    },
+    include: { deviation: { include: { files: true } } },
+  });
+
+  if (entries.length !== ids.length) {
+    throw new AppError(400, 'Can only replay pending failed jobs you own');
+  }
+
+  const replayed: string[] = [];
+  const errors: Array<{ id: string; error: string }> = [];
+
+  for (const entry of entries) {
+    const { deviation } = entry;
+
+    try {
+      if (deviation.status !== 'draft' && deviation.status !== 'failed') {
+        throw new Error(`Deviation is ${deviation.status}, only drafts and failed can be replayed`);
+      }
+
+      if (!deviation.files || deviation.files.length === 0) {
+        throw new Error('Deviation must have at least one file');
+      }
+
+      // Replay publishes immediately - no jitter
+      const publishAt = new Date();
+
+      await prisma.deviation.update({
+        where: { id: deviation.id },
+        data: {
+          status: 'scheduled',
+          scheduledAt: publishAt,
+          jitterSeconds: 0,
+          actualPublishAt: publishAt,
+          errorMessage: null,
+          updatedAt: new Date(),
+        },
+      });
+
+      // Queue the deviation with BullMQ (removes the old failed job with the same jobId)
+      // If this fails, we catch and rollback
+      try {
+        await scheduleDeviation(
+          deviation.id,
+          user.id,
+          publishAt,
+          deviation.uploadMode,
+          PublishPriority.RECOVERY
+        );
+      } catch (queueError) {
+        await prisma.deviation.update({
+          where: { id: deviation.id },
+          data: {
+            status: 'draft',
+            errorMessage: `Failed to replay: ${
+              queueError instanceof Error ? queueError.message : 'Unknown error'
+            }`,
+            updatedAt: new Date(),
+          },
+        });
+        throw queueError;
+      }
+
+      await prisma.deadLetterJob.update({
+        where: { id: entry.id },
+        data: {
+          status: 'replayed',
+          resolvedAt: new Date(),
+        },
+      });
+
+      await recordDeviationEvent(prisma, {
+        deviationId: deviation.id,
+        type: 'replayed',
+        actor: getRequestActor(req),
+        fromStatus: deviation.status,
+        toStatus: 'scheduled',
+        metadata: { deadLetterId: entry.id },
+      });
+
+      replayed.push(entry.id);
+    } catch (error) {
+      console.error(`[Failed Jobs] Failed to replay ${entry.id}:`, error);
+      errors.push({
+        id: entry.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  res.json({
+    replayed,
+    errors: errors.length > 0 ? errors : undefined,
+    summary: {
+      total: entries.length,
+      succeeded: replayed.length,
+      failed: errors.length,
+    },
+  });
+});
+
+// Bulk discard failed jobs
+router.post('/discard', batchRateLimit, async (req, res) => {
+  const ids = parseBulkIds(req.body);
+  const user = req.user!;
+
+  const result = await prisma.deadLetterJob.updateMany({
+    where: {
+      id: { in: ids },
+      userId: user.id,
+      status: 'pending',
+    },
+    data: {
+      status: 'discarded',
+      resolvedAt: new Date(),
+    },
+  });
+
+  res.json({ success: true, discardedCount: result.count });
+});
+
+export { router as failedDeviationsRouter };
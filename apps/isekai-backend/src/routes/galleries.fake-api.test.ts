@@ -0,0 +1,209 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Gallery routes against the local DeviantArt fake - real token refresh, quota and
+ * DeviantArt calls over HTTP; only the database is mocked.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { User } from '../db/index.js';
+import { encryptToken, decryptToken } from '@isekai/shared';
+import { FakeDeviantArtServer, type FakeDeviantArtUser } from '@isekai/shared/testing';
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    user: { update: vi.fn() },
+  },
+}));
+
+vi.mock('../lib/env.js', () => ({
+  env: {
+    REFRESH_TOKEN_EXPIRY_DAYS: 60,
+  },
+}));
+
+vi.mock('@isekai/shared/storage', () => ({
+  getS3Client: vi.fn(() => ({ send: vi.fn() })),
+  getStorageConfig: vi.fn(() => ({
+    bucketName: 'test-bucket',
+    publicUrl: 'https://cdn.example.com',
+  })),
+}));
+
+import { prisma } from '../db/index.js';
+
+describe('Galleries Routes (fake API)', () => {
+  let fake: FakeDeviantArtServer;
+  let daUser: FakeDeviantArtUser;
+  let user: User;
+  let galleriesRouter: any;
+
+  beforeAll(async () => {
+    fake = await FakeDeviantArtServer.start();
+    Object.assign(process.env, fake.env());
+    // Endpoints are resolved at module load, so import after the env points at the fake
+    ({ galleriesRouter } = await import('./galleries.js'));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    fake.reset();
+    daUser = fake.createUser({ username: 'artist' });
+
+    user = {
+      id: 'user-1',
+      username: 'artist',
+      accessToken: encryptToken(daUser.accessToken),
+      refreshToken: encryptToken(daUser.refreshToken),
+      tokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      refreshTokenExpiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+    } as User;
+  });
+
+  async function callRoute(method: string, path: string, req: any) {
+    const route = galleriesRouter.stack.find((layer: any) => {
+      if (!layer.route?.methods?.[method]) return false;
+      const routeParts = layer.route.path.split('/');
+      const pathParts = path.split('/');
+      return (
+        routeParts.length === pathParts.length &&
+        routeParts.every((part: string, i: number) => part.startsWith(':') || part === pathParts[i])
+      );
+    });
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+
+    const params: Record<string, string> = {};
+    route.route.path.split('/').forEach((part: string, i: number) => {
+      if (part.startsWith(':')) params[part.slice(1)] = path.split('/')[i];
+    });
+
+    const res: any = {
+      statusCode: 200,
+      status: vi.fn((code: number) => {
+        res.statusCode = code;
+        return res;
+      }),
+      json: vi.fn((body: any) => {
+        res.body = body;
+        return res;
+      }),
+    };
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler({ user, query: {}, body: {}, params, ...req }, res);
+    return res;
+  }
+
+  function publishDeviation(title: string) {
+    const deviationid = `DEV-${fake.deviations.size + 1}`;
+    fake.deviations.set(deviationid, {
+      deviationid,
+      url: `${fake.url}/artist/art/${deviationid}`,
+      title,
+      description: '',
+      userid: daUser.userid,
+      itemid: deviationid,
+      tags: [],
+      galleryIds: [],
+      isMature: false,
+      publishedTime: Math.floor(Date.now() / 1000),
+    });
+    return deviationid;
+  }
+
+  it('should create a folder, copy deviations into it and list its contents', async () => {
+    const created = await callRoute('post', '/folders/create', {
+      body: { folder: 'Sketches', description: 'Warmups' },
+    });
+    expect(created.statusCode).toBe(201);
+    const { folderid } = created.body;
+
+    const deviationId = publishDeviation('Dragon Study');
+    const copied = await callRoute('post', '/folders/copy-deviations', {
+      body: { target_folderid: folderid, deviationids: [deviationId] },
+    });
+    expect(copied.body).toMatchObject({ success: true });
+
+    const folders = await callRoute('get', '/folders', {});
+    expect(folders.body.galleries).toEqual([
+      expect.objectContaining({ name: 'Featured', size: 0 }),
+      expect.objectContaining({ folderid, name: 'Sketches', size: 1 }),
+    ]);
+
+    const contents = await callRoute('get', `/${folderid}`, {});
+    expect(contents.body).toMatchObject({
+      results: [expect.objectContaining({ deviationid: deviationId, title: 'Dragon Study' })],
+      hasMore: false,
+    });
+  });
+
+  it('should page through folders', async () => {
+    fake.createFolder(daUser.userid, 'Sketches');
+    fake.createFolder(daUser.userid, 'Comics');
+
+    const firstPage = await callRoute('get', '/folders', { query: { limit: '2' } });
+    const secondPage = await callRoute('get', '/folders', {
+      query: { limit: '2', offset: String(firstPage.body.nextOffset) },
+    });
+
+    expect(firstPage.body).toMatchObject({ hasMore: true, nextOffset: 2 });
+    expect(secondPage.body.galleries.map((folder: any) => folder.name)).toEqual(['Comics']);
+  });
+
+  it('should refresh an expiring access token before calling DeviantArt', async () => {
+    user.tokenExpiresAt = new Date(Date.now() + 60 * 1000);
+
+    const folders = await callRoute('get', '/folders', {});
+
+    expect(folders.statusCode).toBe(200);
+    expect(fake.requests.map((request) => request.path)).toEqual([
+      '/oauth2/token',
+      '/api/v1/oauth2/gallery/folders',
+    ]);
+    const update = vi.mocked(prisma.user.update).mock.calls[0][0];
+    expect(decryptToken(update.data.accessToken as string)).toBe(daUser.accessToken);
+  });
+
+  it('should pass DeviantArt rate limits and auth failures on to the client', async () => {
+    fake.rateLimit('/api/v1/oauth2/gallery/folders', 60);
+    const limited = await callRoute('get', '/folders', {});
+    expect(limited.statusCode).toBe(429);
+    expect(limited.body).toEqual({ error: 'Rate limit exceeded' });
+
+    fake.expireAccessToken(daUser.userid);
+    const unauthorized = await callRoute('get', '/folders', {});
+    expect(unauthorized.statusCode).toBe(401);
+    expect(unauthorized.body).toEqual({ error: 'Authentication failed' });
+  });
+
+  it('should report the status of a failed copy', async () => {
+    const copied = await callRoute('post', '/folders/copy-deviations', {
+      body: { target_folderid: 'missing-folder', deviationids: ['DEV-1'] },
+    });
+
+    expect(copied.statusCode).toBe(400);
+  });
+});
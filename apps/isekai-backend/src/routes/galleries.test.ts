@@ -686,6 +686,32 @@ describe('Galleries Routes', () => {
 
       expect(res.json).toHaveBeenCalledWith({ success: true });
     });
+
+    it('should pass through DeviantArt errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: vi.fn().mockResolvedValue('Invalid folder'),
+        headers: new Headers(),
+      } as any);
+
+      const req = {
+        user: mockUser,
+        body: {
+          deviationids: ['dev-1'],
+          target_folderid: 'missing-folder',
+        },
+      };
+      const res = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      };
+
+      await callRoute('post', '/folders/move-deviations', req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid folder' });
+    });
   });
 
   describe('DELETE /folders/:folderId/deviations', () => {
@@ -18,11 +18,14 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { refreshTokenIfNeeded } from '../lib/deviantart.js';
+import { fetchDeviantArt } from '../lib/deviantart-quota.js';
+import { copyDeviationsToFolder, moveDeviationsToFolder } from '../lib/deviantart-gallery.js';
 import { AppError } from '../middleware/error.js';
+import { getDeviantArtEndpoints } from '@isekai/shared';
 
 const router = Router();
 
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+const { apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 // Helper function to make DeviantArt API calls
 async function callDeviantArtAPI(
@@ -50,7 +53,7 @@ async function callDeviantArtAPI(
     signal: AbortSignal.timeout(10000),
   };
 
-  const response = await fetch(url.toString(), options);
+  const response = await fetchDeviantArt(url.toString(), options, 'standard');
 
   if (!response.ok) {
     let errorMessage = 'DeviantArt API request failed';
@@ -131,10 +134,14 @@ router.get('/all', async (req, res) => {
     console.log('[GALLERIES /all] Making request to:', url);
     console.log('[GALLERIES /all] Parameters:', Object.fromEntries(params));
 
-    const response = await fetch(url, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-      signal: AbortSignal.timeout(10000),
-    });
+    const response = await fetchDeviantArt(
+      url,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        signal: AbortSignal.timeout(10000),
+      },
+      'standard'
+    );
 
     if (!response.ok) {
       let errorMessage = 'Failed to fetch galleries';
@@ -230,14 +237,18 @@ router.post('/folders/create', async (req, res) => {
     if (data.parent) formData.append('parent', data.parent);
     if (data.description) formData.append('description', data.description);
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/create`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/create`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData.toString(),
       },
-      body: formData.toString(),
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -281,11 +292,12 @@ router.patch('/folders/order', async (req, res) => {
     let offset = 0;
 
     while (hasMore) {
-      const currentResponse = await fetch(
+      const currentResponse = await fetchDeviantArt(
         `${DEVIANTART_API_URL}/gallery/folders?calculate_size=false&ext_preload=false&limit=50&offset=${offset}&mature_content=true`,
         {
           headers: { Authorization: `Bearer ${accessToken}` },
-        }
+        },
+        'standard'
       );
 
       if (!currentResponse.ok) {
@@ -344,14 +356,18 @@ router.patch('/folders/order', async (req, res) => {
         `Updating folder ${i + 1}/${foldersToUpdate.length}: ${folderId} to position ${newPosition}`
       );
 
-      const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/update_order`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
+      const response = await fetchDeviantArt(
+        `${DEVIANTART_API_URL}/gallery/folders/update_order`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: formData.toString(),
         },
-        body: formData.toString(),
-      });
+        'standard'
+      );
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -397,14 +413,18 @@ router.patch('/folders/:folderId', async (req, res) => {
     if (data.foldername) formData.append('foldername', data.foldername);
     if (data.description) formData.append('description', data.description);
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/update`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/update`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData.toString(),
       },
-      body: formData.toString(),
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -433,12 +453,16 @@ router.delete('/folders/:folderId', async (req, res) => {
   try {
     const accessToken = await refreshTokenIfNeeded(user);
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/remove/${folderId}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/remove/${folderId}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
       },
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -473,14 +497,18 @@ router.post('/folders/move', async (req, res) => {
     formData.append('folderid', data.folderid);
     formData.append('parentid', data.parentid);
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/move`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/move`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData.toString(),
       },
-      body: formData.toString(),
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -514,25 +542,11 @@ router.post('/folders/copy-deviations', async (req, res) => {
     const data = copyDeviationsSchema.parse(req.body);
     const accessToken = await refreshTokenIfNeeded(user);
 
-    const formData = new URLSearchParams();
-    formData.append('target_folderid', data.target_folderid);
-    data.deviationids.forEach((id) => formData.append('deviationids[]', id));
-
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/copy_deviations`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new AppError(response.status, errorText || 'Failed to copy deviations');
-    }
-
-    const result = await response.json();
+    const result = await copyDeviationsToFolder(
+      accessToken,
+      data.target_folderid,
+      data.deviationids
+    );
     res.json(result);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -541,6 +555,9 @@ router.post('/folders/copy-deviations', async (req, res) => {
     if (error instanceof AppError) {
       return res.status(error.statusCode).json({ error: error.message });
     }
+    if (typeof error.status === 'number') {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error copying deviations:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -559,25 +576,11 @@ router.post('/folders/move-deviations', async (req, res) => {
     const data = moveDeviationsSchema.parse(req.body);
     const accessToken = await refreshTokenIfNeeded(user);
 
-    const formData = new URLSearchParams();
-    formData.append('target_folderid', data.target_folderid);
-    data.deviationids.forEach((id) => formData.append('deviationids[]', id));
-
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/move_deviations`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new AppError(response.status, errorText || 'Failed to move deviations');
-    }
-
-    const result = await response.json();
+    const result = await moveDeviationsToFolder(
+      accessToken,
+      data.target_folderid,
+      data.deviationids
+    );
     res.json(result);
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -586,6 +589,9 @@ router.post('/folders/move-deviations', async (req, res) => {
     if (error instanceof AppError) {
       return res.status(error.statusCode).json({ error: error.message });
     }
+    if (typeof error.status === 'number') {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Error moving deviations:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -612,14 +618,18 @@ router.delete('/folders/:folderId/deviations', async (req, res) => {
     formData.append('folderid', data.folderid);
     data.deviationids.forEach((id) => formData.append('deviationids[]', id));
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/remove_deviations`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/remove_deviations`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData.toString(),
       },
-      body: formData.toString(),
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -661,14 +671,18 @@ router.patch('/folders/:folderId/deviation-order', async (req, res) => {
     formData.append('folderid', data.folderid);
     data.deviationids.forEach((id) => formData.append('deviationids[]', id));
 
-    const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/update_deviation_order`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const response = await fetchDeviantArt(
+      `${DEVIANTART_API_URL}/gallery/folders/update_deviation_order`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData.toString(),
       },
-      body: formData.toString(),
-    });
+      'standard'
+    );
 
     if (!response.ok) {
       const errorText = await response.text();
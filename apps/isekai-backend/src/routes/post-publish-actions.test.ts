@@ -0,0 +1,314 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
+
+// Mock dependencies
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    deviation: {
+      findFirst: vi.fn(),
+    },
+    postPublishAction: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../queues/post-publish-actions.js', () => ({
+  schedulePostPublishAction: vi.fn(),
+  cancelPostPublishAction: vi.fn(),
+}));
+
+import { postPublishActionsRouter } from './post-publish-actions.js';
+import { prisma } from '../db/index.js';
+import {
+  schedulePostPublishAction,
+  cancelPostPublishAction,
+} from '../queues/post-publish-actions.js';
+
+describe('post-publish actions routes', () => {
+  const mockUser = {
+    id: 'user-123',
+    deviantartId: 'da-123',
+    username: 'testuser',
+  };
+
+  const publishedDeviation = {
+    id: 'deviation-123',
+    status: 'published',
+    deviationId: 'da-deviation-123',
+    publishedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  const mockAction = {
+    id: 'action-123',
+    userId: 'user-123',
+    deviationId: 'deviation-123',
+    type: 'move_to_gallery',
+    payload: { targetFolderId: 'folder-archive' },
+    runAt: new Date('2025-01-08T00:00:00Z'),
+    status: 'pending',
+    attempts: 0,
+    errorMessage: null,
+    completedAt: null,
+    createdAt: new Date('2025-01-02T00:00:00Z'),
+    updatedAt: new Date('2025-01-02T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-02T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function callRoute(method: string, path: string, req: any, res: any) {
+    const routes = (postPublishActionsRouter as any).stack;
+    const route = routes.find(
+      (r: any) => r.route?.path === path && r.route?.methods?.[method.toLowerCase()]
+    );
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler(req, res);
+  }
+
+  describe('GET /', () => {
+    it('should list actions for an owned deviation', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        query: { deviationId: 'deviation-123' },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue({ id: 'deviation-123' });
+      (prisma.postPublishAction.findMany as any).mockResolvedValue([mockAction]);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.postPublishAction.findMany).toHaveBeenCalledWith({
+        where: { deviationId: 'deviation-123' },
+        orderBy: { runAt: 'asc' },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        actions: [expect.objectContaining({ id: 'action-123', runAt: '2025-01-08T00:00:00.000Z' })],
+      });
+    });
+
+    it('should return 404 for deviations of other users', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        query: { deviationId: 'other' },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('GET', '/', req, res)).rejects.toThrow('Deviation not found');
+    });
+  });
+
+  describe('POST /', () => {
+    it('should schedule a gallery move N days after publishing', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'move_to_gallery',
+          payload: { targetFolderId: 'folder-archive' },
+          afterDays: 7,
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue(publishedDeviation);
+      (prisma.postPublishAction.create as any).mockResolvedValue(mockAction);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.postPublishAction.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          deviationId: 'deviation-123',
+          type: 'move_to_gallery',
+          payload: { targetFolderId: 'folder-archive' },
+          runAt: new Date('2025-01-08T00:00:00Z'),
+        },
+      });
+      expect(schedulePostPublishAction).toHaveBeenCalledWith(mockAction);
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should accept metadata edits at an absolute time', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'update_metadata',
+          payload: { title: 'Archived', tags: ['archive'] },
+          runAt: '2025-02-01T00:00:00.000Z',
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue(publishedDeviation);
+      (prisma.postPublishAction.create as any).mockResolvedValue({
+        ...mockAction,
+        type: 'update_metadata',
+      });
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.postPublishAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'update_metadata',
+          payload: { title: 'Archived', tags: ['archive'] },
+          runAt: new Date('2025-02-01T00:00:00Z'),
+        }),
+      });
+    });
+
+    it('should reject empty metadata edits', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'update_metadata',
+          payload: {},
+          afterDays: 1,
+        },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'At least one of title, description or tags is required'
+      );
+    });
+
+    it('should reject deviations that are not published', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'copy_to_gallery',
+          payload: { targetFolderId: 'folder-archive' },
+          afterDays: 1,
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue({
+        ...publishedDeviation,
+        status: 'draft',
+        deviationId: null,
+      });
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'Only published deviations can have post-publish actions'
+      );
+      expect(prisma.postPublishAction.create).not.toHaveBeenCalled();
+    });
+
+    it('should require runAt or afterDays', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'copy_to_gallery',
+          payload: { targetFolderId: 'folder-archive' },
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue(publishedDeviation);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'runAt or afterDays is required'
+      );
+    });
+
+    it('should mark the action failed when queueing fails', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: {
+          deviationId: 'deviation-123',
+          type: 'move_to_gallery',
+          payload: { targetFolderId: 'folder-archive' },
+          afterDays: 7,
+        },
+      });
+      const res = createMockResponse();
+
+      (prisma.deviation.findFirst as any).mockResolvedValue(publishedDeviation);
+      (prisma.postPublishAction.create as any).mockResolvedValue(mockAction);
+      (schedulePostPublishAction as any).mockRejectedValue(new Error('Redis down'));
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow('Redis down');
+
+      expect(prisma.postPublishAction.update).toHaveBeenCalledWith({
+        where: { id: 'action-123' },
+        data: { status: 'failed', errorMessage: 'Failed to queue: Redis down' },
+      });
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should cancel a pending action and remove its job', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'action-123' } });
+      const res = createMockResponse();
+
+      (prisma.postPublishAction.findFirst as any).mockResolvedValue(mockAction);
+      (prisma.postPublishAction.update as any).mockResolvedValue({
+        ...mockAction,
+        status: 'cancelled',
+      });
+
+      await callRoute('DELETE', '/:id', req, res);
+
+      expect(cancelPostPublishAction).toHaveBeenCalledWith('action-123');
+      expect(prisma.postPublishAction.update).toHaveBeenCalledWith({
+        where: { id: 'action-123' },
+        data: { status: 'cancelled' },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        action: expect.objectContaining({ status: 'cancelled' }),
+      });
+    });
+
+    it('should refuse to cancel completed actions', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'action-123' } });
+      const res = createMockResponse();
+
+      (prisma.postPublishAction.findFirst as any).mockResolvedValue({
+        ...mockAction,
+        status: 'completed',
+      });
+
+      await expect(callRoute('DELETE', '/:id', req, res)).rejects.toThrow(
+        'Cannot cancel a completed action'
+      );
+      expect(cancelPostPublishAction).not.toHaveBeenCalled();
+    });
+  });
+});
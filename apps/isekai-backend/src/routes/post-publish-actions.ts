@@ -0,0 +1,209 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/index.js';
+import { AppError } from '../middleware/error.js';
+import {
+  schedulePostPublishAction,
+  cancelPostPublishAction,
+} from '../queues/post-publish-actions.js';
+import type { PostPublishAction } from '../db/index.js';
+
+const router = Router();
+
+const MAX_DAYS_AHEAD = 365;
+
+const metadataPayloadSchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).max(30).optional(),
+  })
+  .refine(
+    (payload) =>
+      payload.title !== undefined ||
+      payload.description !== undefined ||
+      payload.tags !== undefined,
+    { message: 'At least one of title, description or tags is required' }
+  );
+
+const galleryPayloadSchema = z.object({
+  targetFolderId: z.string().min(1),
+});
+
+// Either an absolute runAt or a number of days after the deviation was published
+const createActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    deviationId: z.string(),
+    type: z.literal('update_metadata'),
+    payload: metadataPayloadSchema,
+    runAt: z.string().datetime().optional(),
+    afterDays: z.number().int().min(0).max(MAX_DAYS_AHEAD).optional(),
+  }),
+  z.object({
+    deviationId: z.string(),
+    type: z.enum(['move_to_gallery', 'copy_to_gallery']),
+    payload: galleryPayloadSchema,
+    runAt: z.string().datetime().optional(),
+    afterDays: z.number().int().min(0).max(MAX_DAYS_AHEAD).optional(),
+  }),
+]);
+
+function transformAction(action: PostPublishAction) {
+  return {
+    ...action,
+    runAt: action.runAt.toISOString(),
+    completedAt: action.completedAt?.toISOString() ?? null,
+    createdAt: action.createdAt.toISOString(),
+    updatedAt: action.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Resolve when the action should run
+ */
+function resolveRunAt(
+  data: { runAt?: string; afterDays?: number },
+  publishedAt: Date | null
+): Date {
+  if (data.runAt && data.afterDays !== undefined) {
+    throw new AppError(400, 'Provide either runAt or afterDays, not both');
+  }
+
+  let runAt: Date;
+  if (data.runAt) {
+    runAt = new Date(data.runAt);
+  } else if (data.afterDays !== undefined) {
+    const base = publishedAt ?? new Date();
+    runAt = new Date(base.getTime() + data.afterDays * 24 * 60 * 60 * 1000);
+  } else {
+    throw new AppError(400, 'runAt or afterDays is required');
+  }
+
+  const maxRunAt = new Date(Date.now() + MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000);
+  if (runAt > maxRunAt) {
+    throw new AppError(400, `Actions can be scheduled at most ${MAX_DAYS_AHEAD} days ahead`);
+  }
+
+  return runAt;
+}
+
+// List post-publish actions for a deviation
+router.get('/', async (req, res) => {
+  const userId = req.user!.id;
+  const { deviationId } = z
+    .object({
+      deviationId: z.string(),
+    })
+    .parse(req.query);
+
+  const deviation = await prisma.deviation.findFirst({
+    where: { id: deviationId, userId },
+    select: { id: true },
+  });
+
+  if (!deviation) {
+    throw new AppError(404, 'Deviation not found');
+  }
+
+  const actions = await prisma.postPublishAction.findMany({
+    where: { deviationId },
+    orderBy: { runAt: 'asc' },
+  });
+
+  res.json({ actions: actions.map(transformAction) });
+});
+
+// Schedule a post-publish action
+router.post('/', async (req, res) => {
+  const userId = req.user!.id;
+  const data = createActionSchema.parse(req.body);
+
+  const deviation = await prisma.deviation.findFirst({
+    where: { id: data.deviationId, userId },
+    select: { id: true, status: true, deviationId: true, publishedAt: true },
+  });
+
+  if (!deviation) {
+    throw new AppError(404, 'Deviation not found');
+  }
+
+  if (deviation.status !== 'published' || !deviation.deviationId) {
+    throw new AppError(400, 'Only published deviations can have post-publish actions');
+  }
+
+  const runAt = resolveRunAt(data, deviation.publishedAt);
+
+  const action = await prisma.postPublishAction.create({
+    data: {
+      userId,
+      deviationId: deviation.id,
+      type: data.type,
+      payload: data.payload,
+      runAt,
+    },
+  });
+
+  // If queueing fails, keep the row as failed so the attempt is visible
+  try {
+    await schedulePostPublishAction(action);
+  } catch (queueError) {
+    await prisma.postPublishAction.update({
+      where: { id: action.id },
+      data: {
+        status: 'failed',
+        errorMessage: `Failed to queue: ${
+          queueError instanceof Error ? queueError.message : 'Unknown error'
+        }`,
+      },
+    });
+    throw queueError;
+  }
+
+  res.status(201).json({ action: transformAction(action) });
+});
+
+// Cancel a pending post-publish action
+router.delete('/:id', async (req, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+
+  const action = await prisma.postPublishAction.findFirst({
+    where: { id, userId },
+  });
+
+  if (!action) {
+    throw new AppError(404, 'Action not found');
+  }
+
+  if (action.status !== 'pending') {
+    throw new AppError(400, `Cannot cancel a ${action.status} action`);
+  }
+
+  await cancelPostPublishAction(action.id);
+
+  const cancelled = await prisma.postPublishAction.update({
+    where: { id: action.id },
+    data: { status: 'cancelled' },
+  });
+
+  res.json({ action: transformAction(cancelled) });
+});
+
+export { router as postPublishActionsRouter };
@@ -0,0 +1,128 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
+
+// Mock dependencies
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    user: {
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { publishingPolicyRouter } from './publishing-policy.js';
+import { prisma } from '../db/index.js';
+
+describe('publishing policy routes', () => {
+  const mockUser = {
+    id: 'user-123',
+    timezone: 'UTC',
+    maxPostsPerDay: 3,
+    minPostGapMinutes: null,
+    quietHours: [{ start: '23:00', end: '07:00' }, { start: 'bad' }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  async function callRoute(method: string, path: string, req: any, res: any) {
+    const routes = (publishingPolicyRouter as any).stack;
+    const route = routes.find(
+      (r: any) => r.route?.path === path && r.route?.methods?.[method.toLowerCase()]
+    );
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler(req, res);
+  }
+
+  describe('GET /', () => {
+    it('should return the policy without malformed quiet hours', async () => {
+      const req = createMockRequest({ user: mockUser as any });
+      const res = createMockResponse();
+
+      await callRoute('GET', '/', req, res);
+
+      expect(res.json).toHaveBeenCalledWith({
+        policy: {
+          timezone: 'UTC',
+          maxPostsPerDay: 3,
+          minPostGapMinutes: null,
+          quietHours: [{ start: '23:00', end: '07:00' }],
+        },
+      });
+    });
+  });
+
+  describe('PUT /', () => {
+    it('should update the policy', async () => {
+      const body = {
+        timezone: 'Europe/Berlin',
+        maxPostsPerDay: null,
+        minPostGapMinutes: 90,
+        quietHours: [{ start: '22:00', end: '08:00' }],
+      };
+      const req = createMockRequest({ user: mockUser as any, body });
+      const res = createMockResponse();
+
+      (prisma.user.update as any).mockResolvedValue({ ...mockUser, ...body });
+
+      await callRoute('PUT', '/', req, res);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: body,
+      });
+      expect(res.json).toHaveBeenCalledWith({ policy: body });
+    });
+
+    it('should reject unknown timezones', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { timezone: 'Mars/Olympus_Mons' },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('PUT', '/', req, res)).rejects.toThrow('Unknown timezone');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed and empty quiet hours windows', async () => {
+      for (const window of [
+        { start: '7:00', end: '09:00' },
+        { start: '10:00', end: '10:00' },
+      ]) {
+        const req = createMockRequest({ user: mockUser as any, body: { quietHours: [window] } });
+        const res = createMockResponse();
+
+        await expect(callRoute('PUT', '/', req, res)).rejects.toThrow();
+      }
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject caps outside the allowed range', async () => {
+      const req = createMockRequest({ user: mockUser as any, body: { maxPostsPerDay: 0 } });
+      const res = createMockResponse();
+
+      await expect(callRoute('PUT', '/', req, res)).rejects.toThrow();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
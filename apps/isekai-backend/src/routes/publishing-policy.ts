@@ -0,0 +1,77 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/index.js';
+import {
+  getPublishingPolicy,
+  isValidTimeOfDay,
+  isValidTimezone,
+  MAX_POST_GAP_MINUTES,
+  MAX_QUIET_HOURS_WINDOWS,
+} from '@isekai/shared';
+import type { User } from '../db/index.js';
+
+const router = Router();
+
+const MAX_POSTS_PER_DAY = 100;
+
+const timeOfDaySchema = z.string().refine(isValidTimeOfDay, { message: 'Time must be HH:mm' });
+
+const updatePolicySchema = z.object({
+  timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).optional(),
+  maxPostsPerDay: z.number().int().min(1).max(MAX_POSTS_PER_DAY).nullable().optional(),
+  minPostGapMinutes: z.number().int().min(1).max(MAX_POST_GAP_MINUTES).nullable().optional(),
+  quietHours: z
+    .array(
+      z
+        .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+        .refine((window) => window.start !== window.end, {
+          message: 'Quiet hours start and end must differ',
+        })
+    )
+    .max(MAX_QUIET_HOURS_WINDOWS)
+    .optional(),
+});
+
+function transformPolicy(user: User) {
+  return {
+    timezone: user.timezone,
+    ...getPublishingPolicy(user),
+  };
+}
+
+// Get publishing policy
+router.get('/', async (req, res) => {
+  res.json({ policy: transformPolicy(req.user!) });
+});
+
+// Update publishing policy (applies to newly scheduled and not yet published deviations)
+router.put('/', async (req, res) => {
+  const user = req.user!;
+  const data = updatePolicySchema.parse(req.body);
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data,
+  });
+
+  res.json({ policy: transformPolicy(updated) });
+});
+
+export { router as publishingPolicyRouter };
@@ -31,6 +31,9 @@ vi.mock('../db/index.js', () => ({
       delete: vi.fn(),
       deleteMany: vi.fn(),
     },
+    deviationEvent: {
+      createMany: vi.fn(),
+    },
   },
 }));
 
@@ -272,6 +275,18 @@ describe('review routes', () => {
           status: 'review',
         },
       });
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            deviationId: 'deviation-123',
+            type: 'approved',
+            fromStatus: 'review',
+            toStatus: 'draft',
+            actorType: 'user',
+            actorId: 'user-123',
+          }),
+        ],
+      });
       expect(prisma.deviation.update).toHaveBeenCalledWith({
         where: { id: 'deviation-123' },
         data: {
@@ -19,6 +19,8 @@ import { Router } from 'express';
 import { prisma } from '../db/index.js';
 import { AppError } from '../middleware/error.js';
 import { deleteFromStorage } from '../lib/upload-service.js';
+import { getRequestActor } from '../lib/deviation-events.js';
+import { recordDeviationEvent, recordDeviationEvents } from '@isekai/shared';
 
 const router = Router();
 
@@ -91,6 +93,14 @@ router.post('/:id/approve', async (req, res) => {
     },
   });
 
+  await recordDeviationEvent(prisma, {
+    deviationId: id,
+    type: 'approved',
+    actor: getRequestActor(req),
+    fromStatus: 'review',
+    toStatus: 'draft',
+  });
+
   res.json({
     ...updated,
     scheduledAt: updated.scheduledAt?.toISOString() ?? null,
@@ -162,6 +172,18 @@ router.post('/batch-approve', async (req, res) => {
     },
   });
 
+  const actor = getRequestActor(req);
+  await recordDeviationEvents(
+    prisma,
+    reviewDeviations.map((deviation) => ({
+      deviationId: deviation.id,
+      type: 'approved' as const,
+      actor,
+      fromStatus: 'review' as const,
+      toStatus: 'draft' as const,
+    }))
+  );
+
   res.json({ success: true, approvedCount: reviewDeviations.length });
 });
 
@@ -42,7 +42,12 @@ vi.mock('../db/index.js', () => ({
   },
 }));
 
+vi.mock('../queues/webhook-delivery.js', () => ({
+  emitWebhookEvent: vi.fn(),
+}));
+
 import { prisma } from '../db/index.js';
+import { emitWebhookEvent } from '../queues/webhook-delivery.js';
 
 describe('sale-queue routes', () => {
   const mockUser = {
@@ -633,6 +638,11 @@ describe('sale-queue routes', () => {
           errorDetails: null,
         },
       });
+      expect(emitWebhookEvent).toHaveBeenCalledWith({
+        userId: 'user-123',
+        event: 'sale_queue.completed',
+        data: expect.objectContaining({ saleQueueId: 'queue-123' }),
+      });
     });
 
     it('should return 404 when item not found', async () => {
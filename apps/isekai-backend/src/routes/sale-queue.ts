@@ -19,6 +19,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../db/index.js';
 import { AppError } from '../middleware/error.js';
+import { emitWebhookEvent } from '../queues/webhook-delivery.js';
 
 const router = Router();
 
@@ -311,6 +312,17 @@ router.post('/:id/complete', async (req, res) => {
     },
   });
 
+  await emitWebhookEvent({
+    userId: user.id,
+    event: 'sale_queue.completed',
+    data: {
+      saleQueueId: updated.id,
+      deviationId: updated.deviationId,
+      price: updated.price,
+      completedAt: updated.completedAt,
+    },
+  });
+
   res.json(updated);
 });
 
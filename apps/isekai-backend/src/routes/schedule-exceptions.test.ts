@@ -0,0 +1,361 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
+
+// Mock dependencies
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    scheduleException: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    automation: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+import { scheduleExceptionsRouter } from './schedule-exceptions.js';
+import { prisma } from '../db/index.js';
+
+describe('schedule exceptions routes', () => {
+  const mockUser = {
+    id: 'user-123',
+    deviantartId: 'da-123',
+    username: 'testuser',
+    timezone: 'Asia/Tokyo',
+  };
+
+  const automationId = '11111111-1111-4111-8111-111111111111';
+
+  const mockException = {
+    id: 'exception-123',
+    userId: 'user-123',
+    automationId: null,
+    type: 'blackout',
+    startDate: '2025-01-10',
+    endDate: '2025-01-12',
+    label: 'Convention',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    // Already January 2nd in Tokyo
+    vi.setSystemTime(new Date('2025-01-01T20:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function callRoute(method: string, path: string, req: any, res: any) {
+    const routes = (scheduleExceptionsRouter as any).stack;
+    const route = routes.find(
+      (r: any) => r.route?.path === path && r.route?.methods?.[method.toLowerCase()]
+    );
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler(req, res);
+  }
+
+  describe('GET /', () => {
+    it("should list exceptions from today in the user's timezone", async () => {
+      const req = createMockRequest({ user: mockUser as any });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findMany as any).mockResolvedValue([mockException]);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.scheduleException.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', endDate: { gte: '2025-01-02' } },
+        orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        exceptions: [
+          {
+            id: 'exception-123',
+            automationId: null,
+            type: 'blackout',
+            startDate: '2025-01-10',
+            endDate: '2025-01-12',
+            label: 'Convention',
+            createdAt: '2025-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+    });
+
+    it("should include user-wide exceptions with an automation's", async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        query: { automationId, from: '2024-12-01' },
+      });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findMany as any).mockResolvedValue([]);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.scheduleException.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-123',
+            endDate: { gte: '2024-12-01' },
+            OR: [{ automationId: null }, { automationId }],
+          },
+        })
+      );
+    });
+
+    it('should only list user-wide exceptions for "none"', async () => {
+      const req = createMockRequest({ user: mockUser as any, query: { automationId: 'none' } });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findMany as any).mockResolvedValue([]);
+
+      await callRoute('GET', '/', req, res);
+
+      expect(prisma.scheduleException.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-123', endDate: { gte: '2025-01-02' }, automationId: null },
+        })
+      );
+    });
+  });
+
+  describe('POST /', () => {
+    it('should create a single day exception', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { type: 'extra_day', startDate: '2025-01-11', label: 'Art fight' },
+      });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.count as any).mockResolvedValue(0);
+      (prisma.scheduleException.create as any).mockResolvedValue(mockException);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.scheduleException.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          automationId: null,
+          type: 'extra_day',
+          startDate: '2025-01-11',
+          endDate: '2025-01-11',
+          label: 'Art fight',
+        },
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+    });
+
+    it("should check the automation's owner", async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { automationId, type: 'blackout', startDate: '2025-01-11' },
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow('Automation not found');
+      expect(prisma.automation.findFirst).toHaveBeenCalledWith({
+        where: { id: automationId, userId: 'user-123' },
+        select: { id: true },
+      });
+      expect(prisma.scheduleException.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates and ranges', async () => {
+      const res = createMockResponse();
+
+      for (const body of [
+        { type: 'blackout', startDate: '2025-02-30' },
+        { type: 'blackout', startDate: '2025-01-11', endDate: '2025-01-10' },
+        { type: 'blackout', startDate: '2025-01-01', endDate: '2026-06-01' },
+        { type: 'holiday', startDate: '2025-01-11' },
+      ]) {
+        const req = createMockRequest({ user: mockUser as any, body });
+        await expect(callRoute('POST', '/', req, res)).rejects.toThrow();
+      }
+      expect(prisma.scheduleException.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-user limit', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { type: 'blackout', startDate: '2025-01-11' },
+      });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.count as any).mockResolvedValue(1000);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'A maximum of 1000 calendar entries is allowed'
+      );
+    });
+  });
+
+  describe('POST /import', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241225',
+      'SUMMARY:Past',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250110',
+      'DTEND;VALUE=DATE:20250113',
+      'SUMMARY:Convention',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250201',
+      'SUMMARY:Birthday',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should import upcoming events that are not there yet', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        query: { automationId },
+        body: ics as any,
+      });
+      const res = createMockResponse();
+
+      (prisma.automation.findFirst as any).mockResolvedValue({ id: automationId });
+      (prisma.scheduleException.findMany as any).mockResolvedValue([
+        { startDate: '2025-01-10', endDate: '2025-01-12' },
+      ]);
+      (prisma.scheduleException.count as any).mockResolvedValue(1);
+      (prisma.scheduleException.createMany as any).mockResolvedValue({ count: 1 });
+
+      await callRoute('POST', '/import', req, res);
+
+      expect(prisma.scheduleException.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', automationId, type: 'blackout' },
+        select: { startDate: true, endDate: true },
+      });
+      expect(prisma.scheduleException.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-123',
+            automationId,
+            type: 'blackout',
+            startDate: '2025-02-01',
+            endDate: '2025-02-01',
+            label: 'Birthday',
+          },
+        ],
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ imported: 1, skipped: 2, unsupportedRecurring: [] });
+    });
+
+    it('should import recurring events for a year ahead and report unsupported rules', async () => {
+      const recurring = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20200704',
+        'RRULE:FREQ=YEARLY',
+        'SUMMARY:Anniversary',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20250110',
+        'RRULE:FREQ=MONTHLY;BYDAY=2FR',
+        'SUMMARY:Meetup',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+      const req = createMockRequest({ user: mockUser as any, query: {}, body: recurring as any });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findMany as any).mockResolvedValue([]);
+      (prisma.scheduleException.count as any).mockResolvedValue(0);
+      (prisma.scheduleException.createMany as any).mockResolvedValue({ count: 1 });
+
+      await callRoute('POST', '/import', req, res);
+
+      expect(prisma.scheduleException.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-123',
+            automationId: null,
+            type: 'blackout',
+            startDate: '2025-07-04',
+            endDate: '2025-07-04',
+            label: 'Anniversary',
+          },
+        ],
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        imported: 1,
+        skipped: 0,
+        unsupportedRecurring: ['Meetup'],
+      });
+    });
+
+    it('should reject a body that is not a calendar', async () => {
+      const req = createMockRequest({ user: mockUser as any, body: {} });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/import', req, res)).rejects.toThrow(
+        'Expected an iCalendar (.ics) file'
+      );
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should delete an owned exception', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'exception-123' } });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findFirst as any).mockResolvedValue(mockException);
+
+      await callRoute('DELETE', '/:id', req, res);
+
+      expect(prisma.scheduleException.findFirst).toHaveBeenCalledWith({
+        where: { id: 'exception-123', userId: 'user-123' },
+      });
+      expect(prisma.scheduleException.delete).toHaveBeenCalledWith({
+        where: { id: 'exception-123' },
+      });
+      expect(res.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should return 404 for a missing exception', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'missing' } });
+      const res = createMockResponse();
+
+      (prisma.scheduleException.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('DELETE', '/:id', req, res)).rejects.toThrow(
+        'Calendar entry not found'
+      );
+      expect(prisma.scheduleException.delete).not.toHaveBeenCalled();
+    });
+  });
+});
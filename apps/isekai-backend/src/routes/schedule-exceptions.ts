@@ -0,0 +1,229 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import express, { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/index.js';
+import { AppError } from '../middleware/error.js';
+import {
+  CALENDAR_EXCEPTION_TYPES,
+  CALENDAR_IMPORT_HORIZON_DAYS,
+  MAX_CALENDAR_EXCEPTION_DAYS,
+  MAX_CALENDAR_IMPORT_EVENTS,
+  addCalendarDays,
+  calendarDaySpan,
+  isValidCalendarDate,
+  parseIcsCalendar,
+  toCalendarDate,
+} from '@isekai/shared';
+import type { ScheduleException, User } from '../db/index.js';
+
+const router = Router();
+
+const MAX_EXCEPTIONS_PER_USER = 1000;
+
+const calendarDateSchema = z
+  .string()
+  .refine(isValidCalendarDate, { message: 'Date must be YYYY-MM-DD' });
+
+const createExceptionSchema = z
+  .object({
+    // Omit for an exception that applies to all automations
+    automationId: z.string().uuid().nullable().optional(),
+    type: z.enum(CALENDAR_EXCEPTION_TYPES),
+    startDate: calendarDateSchema,
+    // Omit for a single day
+    endDate: calendarDateSchema.optional(),
+    label: z.string().trim().max(200).optional(),
+  })
+  .refine((data) => !data.endDate || data.endDate >= data.startDate, {
+    message: 'End date must not be before start date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      !data.endDate || calendarDaySpan(data.startDate, data.endDate) <= MAX_CALENDAR_EXCEPTION_DAYS,
+    {
+      message: `An exception can span at most ${MAX_CALENDAR_EXCEPTION_DAYS} days`,
+      path: ['endDate'],
+    }
+  );
+
+const listQuerySchema = z.object({
+  // An automation's id also returns the user-wide exceptions, "none" only returns those
+  automationId: z.union([z.literal('none'), z.string().uuid()]).optional(),
+  // Defaults to today in the user's timezone; past exceptions are kept but hidden
+  from: calendarDateSchema.optional(),
+});
+
+const importQuerySchema = z.object({
+  automationId: z.string().uuid().optional(),
+  type: z.enum(CALENDAR_EXCEPTION_TYPES).default('blackout'),
+});
+
+function transformException(exception: ScheduleException) {
+  return {
+    id: exception.id,
+    automationId: exception.automationId,
+    type: exception.type,
+    startDate: exception.startDate,
+    endDate: exception.endDate,
+    label: exception.label,
+    createdAt: exception.createdAt.toISOString(),
+  };
+}
+
+async function assertOwnedAutomation(automationId: string, userId: string) {
+  const automation = await prisma.automation.findFirst({
+    where: { id: automationId, userId },
+    select: { id: true },
+  });
+
+  if (!automation) {
+    throw new AppError(404, 'Automation not found');
+  }
+}
+
+function today(user: User) {
+  return toCalendarDate(new Date(), user.timezone || 'UTC');
+}
+
+// List upcoming exceptions
+router.get('/', async (req, res) => {
+  const user = req.user!;
+  const { automationId, from } = listQuerySchema.parse(req.query);
+
+  const exceptions = await prisma.scheduleException.findMany({
+    where: {
+      userId: user.id,
+      endDate: { gte: from ?? today(user) },
+      ...(automationId === 'none' && { automationId: null }),
+      ...(automationId &&
+        automationId !== 'none' && { OR: [{ automationId: null }, { automationId }] }),
+    },
+    orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  res.json({ exceptions: exceptions.map(transformException) });
+});
+
+// Create exception
+router.post('/', async (req, res) => {
+  const user = req.user!;
+  const data = createExceptionSchema.parse(req.body);
+
+  if (data.automationId) {
+    await assertOwnedAutomation(data.automationId, user.id);
+  }
+
+  const count = await prisma.scheduleException.count({ where: { userId: user.id } });
+  if (count >= MAX_EXCEPTIONS_PER_USER) {
+    throw new AppError(400, `A maximum of ${MAX_EXCEPTIONS_PER_USER} calendar entries is allowed`);
+  }
+
+  const exception = await prisma.scheduleException.create({
+    data: {
+      userId: user.id,
+      automationId: data.automationId ?? null,
+      type: data.type,
+      startDate: data.startDate,
+      endDate: data.endDate ?? data.startDate,
+      label: data.label || null,
+    },
+  });
+
+  res.status(201).json({ exception: transformException(exception) });
+});
+
+// Import events of an .ics file (sent as text/calendar) as exceptions of one type
+router.post('/import', express.text({ type: 'text/calendar', limit: '1mb' }), async (req, res) => {
+  const user = req.user!;
+  const { automationId, type } = importQuerySchema.parse(req.query);
+
+  if (typeof req.body !== 'string' || !req.body.includes('BEGIN:VCALENDAR')) {
+    throw new AppError(400, 'Expected an iCalendar (.ics) file');
+  }
+
+  if (automationId) {
+    await assertOwnedAutomation(automationId, user.id);
+  }
+
+  const firstDay = today(user);
+  const parsed = parseIcsCalendar(req.body, user.timezone || 'UTC', {
+    from: firstDay,
+    until: addCalendarDays(firstDay, CALENDAR_IMPORT_HORIZON_DAYS - 1),
+  });
+  // Past and overly long events are skipped
+  const events = parsed.events.filter(
+    (event) =>
+      event.endDate >= firstDay &&
+      calendarDaySpan(event.startDate, event.endDate) <= MAX_CALENDAR_EXCEPTION_DAYS
+  );
+
+  // Re-importing the same file doesn't duplicate entries
+  const existing = await prisma.scheduleException.findMany({
+    where: { userId: user.id, automationId: automationId ?? null, type },
+    select: { startDate: true, endDate: true },
+  });
+  const seen = new Set(existing.map((entry) => `${entry.startDate}/${entry.endDate}`));
+  const added = events.filter((event) => {
+    const key = `${event.startDate}/${event.endDate}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const count = await prisma.scheduleException.count({ where: { userId: user.id } });
+  const room = Math.max(0, MAX_EXCEPTIONS_PER_USER - count);
+  const toCreate = added.slice(0, Math.min(room, MAX_CALENDAR_IMPORT_EVENTS));
+
+  if (toCreate.length > 0) {
+    await prisma.scheduleException.createMany({
+      data: toCreate.map((event) => ({
+        userId: user.id,
+        automationId: automationId ?? null,
+        type,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        label: event.label,
+      })),
+    });
+  }
+
+  res.status(201).json({
+    imported: toCreate.length,
+    skipped: parsed.events.length - toCreate.length,
+    unsupportedRecurring: parsed.unsupportedRecurring,
+  });
+});
+
+// Delete exception
+router.delete('/:id', async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  const exception = await prisma.scheduleException.findFirst({ where: { id, userId: user.id } });
+  if (!exception) {
+    throw new AppError(404, 'Calendar entry not found');
+  }
+
+  await prisma.scheduleException.delete({ where: { id } });
+
+  res.status(204).send();
+});
+
+export { router as scheduleExceptionsRouter };
@@ -19,6 +19,7 @@ import { Router } from 'express';
 import { randomUUID } from 'crypto';
 import { prisma } from '../db/index.js';
 import { AppError } from '../middleware/error.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.js';
 import {
   validateFileType,
   validateFileSize,
@@ -62,7 +63,7 @@ router.post('/presigned', async (req, res) => {
 });
 
 // Complete upload (link file to deviation)
-router.post('/complete', async (req, res) => {
+router.post('/complete', idempotencyMiddleware, async (req, res) => {
   const user = req.user!;
   const {
     fileId,
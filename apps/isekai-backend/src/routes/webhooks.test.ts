@@ -0,0 +1,378 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockRequest, createMockResponse } from '../test-helpers/express-mock.js';
+
+// Mock dependencies
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    webhook: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    webhookDelivery: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../queues/webhook-delivery.js', () => ({
+  queueWebhookDelivery: vi.fn(),
+}));
+
+vi.mock('@isekai/shared', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@isekai/shared')>()),
+  encryptToken: vi.fn((value: string) => `enc:${value}`),
+  generateWebhookSecret: vi.fn(() => 'whsec_new'),
+  getWebhookUrlError: vi.fn().mockResolvedValue(null),
+}));
+
+import { getWebhookUrlError } from '@isekai/shared';
+import { webhooksRouter } from './webhooks.js';
+import { prisma } from '../db/index.js';
+import { queueWebhookDelivery } from '../queues/webhook-delivery.js';
+
+describe('webhooks routes', () => {
+  const mockUser = {
+    id: 'user-123',
+    deviantartId: 'da-123',
+    username: 'testuser',
+  };
+
+  const mockWebhook = {
+    id: 'hook-123',
+    userId: 'user-123',
+    url: 'https://example.com/hook',
+    secret: 'enc:whsec_old',
+    events: ['deviation.published'],
+    description: null,
+    enabled: true,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  const mockDelivery = {
+    id: 'delivery-123',
+    webhookId: 'hook-123',
+    event: 'deviation.published',
+    payload: { event: 'deviation.published', data: {} },
+    status: 'failed',
+    attempts: 6,
+    responseStatus: 500,
+    responseBody: 'error',
+    errorMessage: 'Receiver responded with HTTP 500',
+    durationMs: 120,
+    deliveredAt: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-02T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function callRoute(method: string, path: string, req: any, res: any) {
+    const routes = (webhooksRouter as any).stack;
+    const route = routes.find(
+      (r: any) => r.route?.path === path && r.route?.methods?.[method.toLowerCase()]
+    );
+    if (!route) throw new Error(`Route not found: ${method} ${path}`);
+    const handler = route.route.stack[route.route.stack.length - 1].handle;
+    await handler(req, res);
+  }
+
+  describe('GET /', () => {
+    it('should list webhooks without their secrets', async () => {
+      const req = createMockRequest({ user: mockUser as any });
+      const res = createMockResponse();
+
+      (prisma.webhook.findMany as any).mockResolvedValue([mockWebhook]);
+
+      await callRoute('GET', '/', req, res);
+
+      const { webhooks } = (res.json as any).mock.calls[0][0];
+      expect(webhooks).toEqual([
+        expect.objectContaining({ id: 'hook-123', createdAt: '2025-01-01T00:00:00.000Z' }),
+      ]);
+      expect(webhooks[0]).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('POST /', () => {
+    it('should create a webhook and return the secret once', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { url: 'https://example.com/hook', events: ['deviation.published'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.count as any).mockResolvedValue(0);
+      (prisma.webhook.create as any).mockResolvedValue(mockWebhook);
+
+      await callRoute('POST', '/', req, res);
+
+      expect(prisma.webhook.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          url: 'https://example.com/hook',
+          events: ['deviation.published'],
+          description: undefined,
+          secret: 'enc:whsec_new',
+        },
+      });
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({
+        webhook: expect.objectContaining({ id: 'hook-123' }),
+        secret: 'whsec_new',
+      });
+    });
+
+    it('should reject unknown events', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { url: 'https://example.com/hook', events: ['deviation.deleted'] },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow();
+      expect(prisma.webhook.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-http URLs', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { url: 'ftp://example.com/hook', events: ['deviation.published'] },
+      });
+      const res = createMockResponse();
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow('URL must use http or https');
+    });
+
+    it('should reject URLs resolving to private addresses', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { url: 'http://localhost:5432/', events: ['deviation.published'] },
+      });
+      const res = createMockResponse();
+
+      vi.mocked(getWebhookUrlError).mockResolvedValueOnce(
+        'URL must not point to a private or local address'
+      );
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'URL must not point to a private or local address'
+      );
+      expect(getWebhookUrlError).toHaveBeenCalledWith('http://localhost:5432/');
+      expect(prisma.webhook.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-user limit', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        body: { url: 'https://example.com/hook', events: ['deviation.published'] },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.count as any).mockResolvedValue(10);
+
+      await expect(callRoute('POST', '/', req, res)).rejects.toThrow(
+        'A maximum of 10 webhooks is allowed'
+      );
+    });
+  });
+
+  describe('PATCH /:id', () => {
+    it('should update an owned webhook', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { id: 'hook-123' },
+        body: { enabled: false },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(mockWebhook);
+      (prisma.webhook.update as any).mockResolvedValue({ ...mockWebhook, enabled: false });
+
+      await callRoute('PATCH', '/:id', req, res);
+
+      expect(prisma.webhook.update).toHaveBeenCalledWith({
+        where: { id: 'hook-123' },
+        data: { enabled: false },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        webhook: expect.objectContaining({ enabled: false }),
+      });
+    });
+
+    it('should reject a new URL resolving to a private address', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { id: 'hook-123' },
+        body: { url: 'http://169.254.169.254/latest' },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(mockWebhook);
+      vi.mocked(getWebhookUrlError).mockResolvedValueOnce(
+        'URL must not point to a private or local address'
+      );
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow(
+        'URL must not point to a private or local address'
+      );
+      expect(prisma.webhook.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for webhooks of other users', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { id: 'other' },
+        body: { enabled: false },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(null);
+
+      await expect(callRoute('PATCH', '/:id', req, res)).rejects.toThrow('Webhook not found');
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should delete an owned webhook', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'hook-123' } });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(mockWebhook);
+
+      await callRoute('DELETE', '/:id', req, res);
+
+      expect(prisma.webhook.delete).toHaveBeenCalledWith({ where: { id: 'hook-123' } });
+      expect(res.status).toHaveBeenCalledWith(204);
+    });
+  });
+
+  describe('POST /:id/rotate-secret', () => {
+    it('should store and return a new secret', async () => {
+      const req = createMockRequest({ user: mockUser as any, params: { id: 'hook-123' } });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(mockWebhook);
+      (prisma.webhook.update as any).mockResolvedValue(mockWebhook);
+
+      await callRoute('POST', '/:id/rotate-secret', req, res);
+
+      expect(prisma.webhook.update).toHaveBeenCalledWith({
+        where: { id: 'hook-123' },
+        data: { secret: 'enc:whsec_new' },
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        webhook: expect.objectContaining({ id: 'hook-123' }),
+        secret: 'whsec_new',
+      });
+    });
+  });
+
+  describe('GET /:id/deliveries', () => {
+    it('should page through the delivery log', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { id: 'hook-123' },
+        query: { page: '2', limit: '10' },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhook.findFirst as any).mockResolvedValue(mockWebhook);
+      (prisma.webhookDelivery.findMany as any).mockResolvedValue([mockDelivery]);
+      (prisma.webhookDelivery.count as any).mockResolvedValue(11);
+
+      await callRoute('GET', '/:id/deliveries', req, res);
+
+      expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith({
+        where: { webhookId: 'hook-123' },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        skip: 10,
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        deliveries: [expect.objectContaining({ id: 'delivery-123', deliveredAt: null })],
+        total: 11,
+      });
+    });
+  });
+
+  describe('POST /deliveries/:deliveryId/redeliver', () => {
+    it('should reset the delivery and queue it under a new job', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { deliveryId: 'delivery-123' },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhookDelivery.findFirst as any).mockResolvedValue(mockDelivery);
+      (prisma.webhookDelivery.update as any).mockResolvedValue({
+        ...mockDelivery,
+        status: 'pending',
+      });
+
+      await callRoute('POST', '/deliveries/:deliveryId/redeliver', req, res);
+
+      expect(prisma.webhookDelivery.findFirst).toHaveBeenCalledWith({
+        where: { id: 'delivery-123', webhook: { userId: 'user-123' } },
+      });
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-123' },
+        data: { status: 'pending', errorMessage: null },
+      });
+      expect(queueWebhookDelivery).toHaveBeenCalledWith(
+        'delivery-123',
+        `webhook-delivery-delivery-123-${new Date('2025-01-02T00:00:00Z').getTime()}`
+      );
+    });
+
+    it('should refuse deliveries that are still pending', async () => {
+      const req = createMockRequest({
+        user: mockUser as any,
+        params: { deliveryId: 'delivery-123' },
+      });
+      const res = createMockResponse();
+
+      (prisma.webhookDelivery.findFirst as any).mockResolvedValue({
+        ...mockDelivery,
+        status: 'pending',
+      });
+
+      await expect(
+        callRoute('POST', '/deliveries/:deliveryId/redeliver', req, res)
+      ).rejects.toThrow('Delivery is still pending');
+      expect(queueWebhookDelivery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/index.js';
+import { AppError } from '../middleware/error.js';
+import { queueWebhookDelivery } from '../queues/webhook-delivery.js';
+import {
+  encryptToken,
+  generateWebhookSecret,
+  getWebhookUrlError,
+  WEBHOOK_EVENTS,
+} from '@isekai/shared';
+import type { Webhook, WebhookDelivery } from '../db/index.js';
+
+const router = Router();
+
+const MAX_WEBHOOKS_PER_USER = 10;
+
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), { message: 'URL must use http or https' });
+
+const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  description: z.string().max(200).optional(),
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  description: z.string().max(200).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+// Never expose the (encrypted) signing secret
+function transformWebhook(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    description: webhook.description,
+    enabled: webhook.enabled,
+    createdAt: webhook.createdAt.toISOString(),
+    updatedAt: webhook.updatedAt.toISOString(),
+  };
+}
+
+function transformDelivery(delivery: WebhookDelivery) {
+  return {
+    ...delivery,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+    updatedAt: delivery.updatedAt.toISOString(),
+  };
+}
+
+// Reject URLs resolving to loopback or private addresses (checked again on delivery)
+async function assertPublicWebhookUrl(url: string) {
+  const error = await getWebhookUrlError(url);
+
+  if (error) {
+    throw new AppError(400, error);
+  }
+}
+
+async function findOwnedWebhook(id: string, userId: string) {
+  const webhook = await prisma.webhook.findFirst({ where: { id, userId } });
+
+  if (!webhook) {
+    throw new AppError(404, 'Webhook not found');
+  }
+
+  return webhook;
+}
+
+// List webhooks for the user
+router.get('/', async (req, res) => {
+  const user = req.user!;
+
+  const webhooks = await prisma.webhook.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({ webhooks: webhooks.map(transformWebhook) });
+});
+
+// Create webhook
+router.post('/', async (req, res) => {
+  const user = req.user!;
+  const data = createWebhookSchema.parse(req.body);
+  await assertPublicWebhookUrl(data.url);
+
+  const count = await prisma.webhook.count({ where: { userId: user.id } });
+  if (count >= MAX_WEBHOOKS_PER_USER) {
+    throw new AppError(400, `A maximum of ${MAX_WEBHOOKS_PER_USER} webhooks is allowed`);
+  }
+
+  const secret = generateWebhookSecret();
+
+  const webhook = await prisma.webhook.create({
+    data: {
+      userId: user.id,
+      url: data.url,
+      events: data.events,
+      description: data.description,
+      secret: encryptToken(secret),
+    },
+  });
+
+  // Return the raw secret ONLY on creation (never again)
+  res.status(201).json({ webhook: transformWebhook(webhook), secret });
+});
+
+// Update webhook
+router.patch('/:id', async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+  const data = updateWebhookSchema.parse(req.body);
+
+  await findOwnedWebhook(id, user.id);
+
+  if (data.url) {
+    await assertPublicWebhookUrl(data.url);
+  }
+
+  const webhook = await prisma.webhook.update({
+    where: { id },
+    data,
+  });
+
+  res.json({ webhook: transformWebhook(webhook) });
+});
+
+// Delete webhook and its delivery log
+router.delete('/:id', async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  await findOwnedWebhook(id, user.id);
+
+  await prisma.webhook.delete({ where: { id } });
+
+  res.status(204).send();
+});
+
+// Replace the signing secret; the old one stops working immediately
+router.post('/:id/rotate-secret', async (req, res) => {
+  const { id } = req.params;
+  const user = req.user!;
+
+  await findOwnedWebhook(id, user.id);
+
+  const secret = generateWebhookSecret();
+
+  const webhook = await prisma.webhook.update({
+    where: { id },
+    data: { secret: encryptToken(secret) },
+  });
+
+  res.json({ webhook: transformWebhook(webhook), secret });
+});
+
+// Delivery log for a webhook, newest first
+router.get('/:id/deliveries', async (req, res) => {
+  const { id } = req.params;
+  const { page = '1', limit = '20' } = req.query;
+  const user = req.user!;
+
+  await findOwnedWebhook(id, user.id);
+
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = Math.min(parseInt(limit as string, 10), 100);
+  const offset = (pageNum - 1) * limitNum;
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where: { webhookId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limitNum,
+      skip: offset,
+    }),
+    prisma.webhookDelivery.count({ where: { webhookId: id } }),
+  ]);
+
+  res.json({ deliveries: deliveries.map(transformDelivery), total });
+});
+
+// Send a delivery again with its original payload
+router.post('/deliveries/:deliveryId/redeliver', async (req, res) => {
+  const { deliveryId } = req.params;
+  const user = req.user!;
+
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, webhook: { userId: user.id } },
+  });
+
+  if (!delivery) {
+    throw new AppError(404, 'Delivery not found');
+  }
+
+  if (delivery.status === 'pending') {
+    throw new AppError(400, 'Delivery is still pending');
+  }
+
+  const updated = await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: { status: 'pending', errorMessage: null },
+  });
+
+  // The original job may still be kept in Redis, so use a fresh jobId
+  await queueWebhookDelivery(deliveryId, `webhook-delivery-${deliveryId}-${Date.now()}`);
+
+  res.json({ delivery: transformDelivery(updated) });
+});
+
+export { router as webhooksRouter };
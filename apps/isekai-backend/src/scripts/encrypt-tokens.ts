@@ -0,0 +1,47 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * One-off token encryption migration
+ *
+ * Encrypts DeviantArt OAuth tokens still stored as plaintext and re-wraps tokens
+ * encrypted with a key listed in ENCRYPTION_KEY_PREVIOUS. Safe to re-run: rows
+ * already encrypted with the current ENCRYPTION_KEY are skipped.
+ *
+ * Usage: pnpm db:encrypt-tokens (runs automatically from start.sh on deploy)
+ */
+
+import { reencryptUserTokens } from '@isekai/shared';
+import { prisma } from '../db/index.js';
+
+async function main() {
+  const result = await reencryptUserTokens(prisma);
+  console.log(`[Token Encryption] Scanned ${result.scanned} users, re-encrypted ${result.updated}`);
+  if (result.skipped > 0) {
+    // Tokens refreshed while the script ran, a second run picks them up
+    console.log(`[Token Encryption] ${result.skipped} users changed meanwhile, run again`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[Token Encryption] Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
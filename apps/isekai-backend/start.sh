@@ -16,7 +16,11 @@ else
   exit 1
 fi
 
+# Encrypt plaintext OAuth tokens / re-wrap tokens after an ENCRYPTION_KEY rotation
+cd /app/apps/isekai-backend
+echo "Encrypting stored OAuth tokens..."
+node dist/scripts/encrypt-tokens.js
+
 # Start the application
 echo "Starting application server..."
-cd /app/apps/isekai-backend
 exec node dist/index.js
@@ -56,6 +56,7 @@ const AVAILABLE_FIELDS = [
   'noAi',
   'addWatermark',
   'displayResolution',
+  'commentTemplateId',
 ];
 
 export function AddDefaultValueDialog({
@@ -163,4 +163,30 @@ describe('AutomationCard', () => {
     const configureLink = screen.getByText('Configure').closest('a');
     expect(configureLink).toHaveAttribute('href', '/automation/auto-1');
   });
+
+  it('should show drafts left and days remaining', () => {
+    render(
+      <AutomationCard
+        automation={{
+          ...mockAutomation,
+          poolStatus: { eligibleDrafts: 9, postsPerDay: 2, daysRemaining: 4 },
+        }}
+      />
+    );
+    expect(screen.getByText('9 drafts · ~4 days left')).toBeInTheDocument();
+  });
+
+  it('should show when the automation paused itself', () => {
+    render(
+      <AutomationCard
+        automation={{
+          ...mockAutomation,
+          enabled: false,
+          pausedReason: 'pool_empty',
+          poolStatus: { eligibleDrafts: 0, postsPerDay: 1, daysRemaining: 0 },
+        }}
+      />
+    );
+    expect(screen.getByText('OUT OF DRAFTS')).toBeInTheDocument();
+  });
 });
@@ -26,8 +26,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Clock, Calendar, MoreVertical, Edit, Copy, Trash2 } from 'lucide-react';
+import { Clock, Calendar, Layers, MoreVertical, Edit, Copy, Trash2 } from 'lucide-react';
 import { formatNextRunTime } from '@/lib/automation-utils';
+import type { AutomationPoolStatus } from '@isekai/shared';
+import { POOL_EMPTY_PAUSE_REASON } from '@isekai/shared/browser';
 
 interface AutomationCardProps {
   automation: any;
@@ -42,6 +44,11 @@ export function AutomationCard({ automation, onEdit, onDuplicate, onDelete }: Au
     automation.scheduleRules?.filter((r: any) => r.enabled).length ||
     0;
   const defaultValuesCount = automation._count?.defaultValues || 0;
+  const poolStatus: AutomationPoolStatus | undefined = automation.poolStatus;
+  const isLowOnDrafts =
+    poolStatus !== undefined &&
+    automation.lowPoolThreshold != null &&
+    poolStatus.eligibleDrafts < automation.lowPoolThreshold;
 
   return (
     <Card className="hover:shadow-md transition-shadow">
@@ -83,10 +90,13 @@ export function AutomationCard({ automation, onEdit, onDuplicate, onDelete }: Au
 
       <CardContent className="space-y-3">
         {/* Status Badge */}
-        <div>
+        <div className="flex flex-wrap gap-2">
           <Badge variant={automation.enabled ? 'default' : 'secondary'}>
             {automation.enabled ? '● ACTIVE' : '○ INACTIVE'}
           </Badge>
+          {!automation.enabled && automation.pausedReason === POOL_EMPTY_PAUSE_REASON && (
+            <Badge variant="destructive">OUT OF DRAFTS</Badge>
+          )}
         </div>
 
         {/* Quick Stats */}
@@ -104,6 +114,19 @@ export function AutomationCard({ automation, onEdit, onDuplicate, onDelete }: Au
             <Clock className="h-4 w-4" />
             <span>Next: {formatNextRunTime(automation)}</span>
           </div>
+
+          {poolStatus && (
+            <div
+              className={`flex items-center gap-2 ${isLowOnDrafts ? 'text-yellow-600' : 'text-muted-foreground'}`}
+            >
+              <Layers className="h-4 w-4" />
+              <span>
+                {poolStatus.eligibleDrafts} {poolStatus.eligibleDrafts === 1 ? 'draft' : 'drafts'}
+                {poolStatus.daysRemaining !== null &&
+                  ` · ~${poolStatus.daysRemaining} ${poolStatus.daysRemaining === 1 ? 'day' : 'days'} left`}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Configure Button */}
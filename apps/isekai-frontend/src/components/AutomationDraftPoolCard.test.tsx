@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test-helpers/test-utils';
+import userEvent from '@testing-library/user-event';
+import { AutomationDraftPoolCard } from './AutomationDraftPoolCard';
+import { automations, deviations } from '@/lib/api';
+
+vi.mock('@/lib/api');
+
+describe('AutomationDraftPoolCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(automations.getDrafts).mockResolvedValue({
+      drafts: [
+        {
+          id: 'draft-1',
+          title: 'Sunset',
+          status: 'draft',
+          tags: [],
+          createdAt: '2025-01-01T00:00:00.000Z',
+          addedAt: '2025-01-02T00:00:00.000Z',
+        },
+      ],
+    });
+    vi.mocked(deviations.list).mockResolvedValue({ deviations: [], total: 0 });
+    vi.mocked(automations.removeDraft).mockResolvedValue(undefined);
+  });
+
+  it('should save the edited filter', async () => {
+    const onUpdate = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+
+    render(
+      <AutomationDraftPoolCard
+        automationId="auto1"
+        draftFilter={{ requiredTags: ['exclusive'] }}
+        lowPoolThreshold={null}
+        pauseWhenPoolEmpty={false}
+        onUpdate={onUpdate}
+      />
+    );
+
+    expect(screen.getByLabelText('Required tags')).toHaveValue('exclusive');
+
+    await user.type(screen.getByLabelText('Excluded tags'), 'wip, sketch');
+    await user.click(screen.getByRole('button', { name: 'Save Filter' }));
+
+    expect(onUpdate).toHaveBeenCalledWith({
+      draftFilter: {
+        requiredTags: ['exclusive'],
+        excludedTags: ['wip', 'sketch'],
+        isMature: undefined,
+        isAiGenerated: undefined,
+        categoryPathPrefix: undefined,
+        createdAfter: undefined,
+      },
+    });
+  });
+
+  it('should save the low draft warning threshold', async () => {
+    const onUpdate = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+
+    render(
+      <AutomationDraftPoolCard
+        automationId="auto1"
+        draftFilter={null}
+        lowPoolThreshold={null}
+        pauseWhenPoolEmpty={false}
+        onUpdate={onUpdate}
+      />
+    );
+
+    await user.type(screen.getByLabelText('Low draft warning'), '5');
+    await user.tab();
+
+    expect(onUpdate).toHaveBeenCalledWith({ lowPoolThreshold: 5 });
+  });
+
+  it('should list and remove added drafts', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <AutomationDraftPoolCard
+        automationId="auto1"
+        draftFilter={null}
+        lowPoolThreshold={null}
+        pauseWhenPoolEmpty={false}
+        onUpdate={vi.fn()}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Sunset')).toBeInTheDocument();
+    });
+
+    await user.click(screen.getByTitle('Remove from pool'));
+
+    await waitFor(() => {
+      expect(automations.removeDraft).toHaveBeenCalledWith('auto1', 'draft-1');
+    });
+  });
+});
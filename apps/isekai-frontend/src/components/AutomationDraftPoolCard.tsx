@@ -0,0 +1,330 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, X } from 'lucide-react';
+import { automations, deviations } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import type { DraftFilter } from '@isekai/shared';
+
+type FlagChoice = 'any' | 'yes' | 'no';
+
+function toChoice(value: boolean | undefined): FlagChoice {
+  return value === undefined ? 'any' : value ? 'yes' : 'no';
+}
+
+function fromChoice(choice: FlagChoice): boolean | undefined {
+  return choice === 'any' ? undefined : choice === 'yes';
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+interface AutomationDraftPoolCardProps {
+  automationId: string;
+  draftFilter: DraftFilter | null;
+  lowPoolThreshold: number | null;
+  pauseWhenPoolEmpty: boolean;
+  onUpdate: (updates: {
+    draftFilter?: DraftFilter | null;
+    lowPoolThreshold?: number | null;
+    pauseWhenPoolEmpty?: boolean;
+  }) => Promise<void>;
+}
+
+export function AutomationDraftPoolCard({
+  automationId,
+  draftFilter,
+  lowPoolThreshold,
+  pauseWhenPoolEmpty,
+  onUpdate,
+}: AutomationDraftPoolCardProps) {
+  const queryClient = useQueryClient();
+  const [requiredTags, setRequiredTags] = useState('');
+  const [excludedTags, setExcludedTags] = useState('');
+  const [mature, setMature] = useState<FlagChoice>('any');
+  const [aiGenerated, setAiGenerated] = useState<FlagChoice>('any');
+  const [categoryPathPrefix, setCategoryPathPrefix] = useState('');
+  const [createdAfter, setCreatedAfter] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [threshold, setThreshold] = useState('');
+
+  useEffect(() => {
+    setRequiredTags(draftFilter?.requiredTags?.join(', ') ?? '');
+    setExcludedTags(draftFilter?.excludedTags?.join(', ') ?? '');
+    setMature(toChoice(draftFilter?.isMature));
+    setAiGenerated(toChoice(draftFilter?.isAiGenerated));
+    setCategoryPathPrefix(draftFilter?.categoryPathPrefix ?? '');
+    setCreatedAfter(draftFilter?.createdAfter?.slice(0, 10) ?? '');
+  }, [draftFilter]);
+
+  useEffect(() => {
+    setThreshold(lowPoolThreshold ? String(lowPoolThreshold) : '');
+  }, [lowPoolThreshold]);
+
+  const saveThreshold = () => {
+    const value = parseInt(threshold);
+    const next = isNaN(value) || value < 1 ? null : Math.min(value, 1000);
+    setThreshold(next ? String(next) : '');
+    if (next !== lowPoolThreshold) {
+      onUpdate({ lowPoolThreshold: next });
+    }
+  };
+
+  const { data: poolData } = useQuery({
+    queryKey: ['automation-drafts', automationId],
+    queryFn: () => automations.getDrafts(automationId),
+  });
+  const pool = poolData?.drafts ?? [];
+
+  const { data: draftsData } = useQuery({
+    queryKey: ['deviations', 'draft', 'pool-picker'],
+    queryFn: () => deviations.list({ status: 'draft', limit: 100 }),
+  });
+  const pickable = (draftsData?.deviations ?? []).filter(
+    (draft) => !pool.some((entry) => entry.id === draft.id)
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['automation-drafts', automationId] });
+    // Forecast depends on the pool
+    queryClient.invalidateQueries({ queryKey: ['automation-forecast', automationId] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update draft pool',
+      variant: 'destructive',
+    });
+  };
+
+  const addDraft = useMutation({
+    mutationFn: (deviationId: string) => automations.addDrafts(automationId, [deviationId]),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeDraft = useMutation({
+    mutationFn: (deviationId: string) => automations.removeDraft(automationId, deviationId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const saveFilter = async () => {
+    const filter: DraftFilter = {
+      requiredTags: splitTags(requiredTags),
+      excludedTags: splitTags(excludedTags),
+      isMature: fromChoice(mature),
+      isAiGenerated: fromChoice(aiGenerated),
+      categoryPathPrefix: categoryPathPrefix.trim() || undefined,
+      createdAfter: createdAfter ? new Date(createdAfter).toISOString() : undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      // The backend stores a filter without criteria as no filter
+      await onUpdate({ draftFilter: filter });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Draft Pool</CardTitle>
+        <CardDescription>
+          Limit which drafts this automation picks. Drafts matched or added here are not picked by
+          your other automations, unless added to them too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="pool-required-tags">Required tags</Label>
+            <Input
+              id="pool-required-tags"
+              placeholder="exclusive, fantasy"
+              value={requiredTags}
+              onChange={(e) => setRequiredTags(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pool-excluded-tags">Excluded tags</Label>
+            <Input
+              id="pool-excluded-tags"
+              placeholder="wip"
+              value={excludedTags}
+              onChange={(e) => setExcludedTags(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Mature</Label>
+            <Select value={mature} onValueChange={(value) => setMature(value as FlagChoice)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="yes">Mature only</SelectItem>
+                <SelectItem value="no">Not mature</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>AI generated</Label>
+            <Select
+              value={aiGenerated}
+              onValueChange={(value) => setAiGenerated(value as FlagChoice)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                <SelectItem value="yes">AI generated only</SelectItem>
+                <SelectItem value="no">Not AI generated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pool-category">Category starts with</Label>
+            <Input
+              id="pool-category"
+              placeholder="digitalart/paintings"
+              value={categoryPathPrefix}
+              onChange={(e) => setCategoryPathPrefix(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pool-created-after">Created after</Label>
+            <Input
+              id="pool-created-after"
+              type="date"
+              value={createdAfter}
+              onChange={(e) => setCreatedAfter(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button onClick={saveFilter} disabled={isSaving}>
+          Save Filter
+        </Button>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="pool-threshold">Low draft warning</Label>
+              <p className="text-xs text-muted-foreground">
+                Email and webhook when fewer drafts remain
+              </p>
+            </div>
+            <Input
+              id="pool-threshold"
+              type="number"
+              min={1}
+              max={1000}
+              placeholder="Off"
+              className="w-24"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              onBlur={saveThreshold}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="pool-pause">Pause when out of drafts</Label>
+              <p className="text-xs text-muted-foreground">
+                Disable the automation once no drafts are left
+              </p>
+            </div>
+            <Switch
+              id="pool-pause"
+              checked={pauseWhenPoolEmpty}
+              onCheckedChange={(checked) => onUpdate({ pauseWhenPoolEmpty: checked })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Added drafts</Label>
+            <Select value="" onValueChange={(value) => addDraft.mutate(value)}>
+              <SelectTrigger className="w-[220px]" disabled={pickable.length === 0}>
+                <Plus className="h-4 w-4" />
+                <SelectValue placeholder="Add draft" />
+              </SelectTrigger>
+              <SelectContent>
+                {pickable.map((draft) => (
+                  <SelectItem key={draft.id} value={draft.id}>
+                    {draft.title || 'Untitled'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {pool.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {draftFilter
+                ? 'No drafts added, drafts matching the filter are used'
+                : 'No drafts added'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {pool.map((draft) => (
+                <div key={draft.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{draft.title || 'Untitled'}</span>
+                  {draft.status !== 'draft' && (
+                    <Badge variant="outline" className="text-xs">
+                      {draft.status}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeDraft.mutate(draft.id)}
+                    title="Remove from pool"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
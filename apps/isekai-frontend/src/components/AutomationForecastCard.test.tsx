@@ -0,0 +1,147 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test-helpers/test-utils';
+import { AutomationForecastCard } from './AutomationForecastCard';
+import { automations } from '@/lib/api';
+
+vi.mock('@/lib/api');
+
+describe('AutomationForecastCard', () => {
+  const mockForecast = {
+    from: '2025-01-06T12:00:00.000Z',
+    until: '2025-01-20T12:00:00.000Z',
+    timezone: 'UTC',
+    seed: 7,
+    draftsAvailable: 3,
+    draftsExhaustedAt: '2025-01-08T14:00:00.000Z',
+    poolLowAt: null,
+    pausedAt: null,
+    entries: [
+      {
+        draftId: 'draft-1',
+        title: 'Sunset',
+        triggeredAt: '2025-01-06T14:00:00.000Z',
+        publishAt: '2025-01-06T14:03:00.000Z',
+        ruleType: 'fixed_time',
+        jitterSeconds: 180,
+        policyReasons: [],
+        appliedDefaults: {},
+      },
+      {
+        draftId: 'draft-2',
+        title: 'Dawn',
+        triggeredAt: '2025-01-07T14:00:00.000Z',
+        publishAt: '2025-01-08T00:00:00.000Z',
+        ruleType: 'fixed_time',
+        jitterSeconds: 0,
+        policyReasons: ['daily_cap'],
+        appliedDefaults: {},
+      },
+    ],
+    skipped: [
+      {
+        draftId: 'draft-3',
+        title: '',
+        triggeredAt: '2025-01-07T14:00:00.000Z',
+        reason: 'Failed validation: Title is required',
+      },
+    ],
+    calendar: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(automations.getForecast).mockResolvedValue({ forecast: mockForecast });
+  });
+
+  it('should render the timeline grouped by day', async () => {
+    render(<AutomationForecastCard automationId="auto1" refreshKey="1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Sunset')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('Dawn')).toBeInTheDocument();
+    expect(screen.getByText('14:03')).toBeInTheDocument();
+    expect(screen.getByText('Moved: daily cap')).toBeInTheDocument();
+    expect(screen.getByText(/2 post\(s\) from 3 available draft\(s\)/)).toBeInTheDocument();
+    expect(screen.getByText(/Drafts run out on/)).toBeInTheDocument();
+    expect(screen.getByText('1 draft(s) would be skipped')).toBeInTheDocument();
+    expect(automations.getForecast).toHaveBeenCalledWith('auto1', {
+      days: 14,
+      seed: expect.any(Number),
+    });
+  });
+
+  it('should list blackout and extra days', async () => {
+    vi.mocked(automations.getForecast).mockResolvedValue({
+      forecast: {
+        ...mockForecast,
+        calendar: [
+          {
+            id: 'exception-1',
+            automationId: null,
+            type: 'blackout',
+            startDate: '2025-01-10',
+            endDate: '2025-01-12',
+            label: 'Convention',
+            createdAt: '2025-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+    });
+
+    render(<AutomationForecastCard automationId="auto1" refreshKey="1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/No posts:/)).toBeInTheDocument();
+    });
+    expect(screen.getByText('(Convention)')).toBeInTheDocument();
+  });
+
+  it('should show where the automation pauses itself', async () => {
+    vi.mocked(automations.getForecast).mockResolvedValue({
+      forecast: {
+        ...mockForecast,
+        draftsExhaustedAt: null,
+        poolLowAt: '2025-01-06T14:00:00.000Z',
+        pausedAt: '2025-01-07T14:00:00.000Z',
+      },
+    });
+
+    render(<AutomationForecastCard automationId="auto1" refreshKey="1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Automation pauses itself after the run on/)).toBeInTheDocument();
+    });
+    expect(screen.getByText(/Low draft pool warning after the run on/)).toBeInTheDocument();
+    expect(screen.queryByText(/Drafts run out on/)).not.toBeInTheDocument();
+  });
+
+  it('should show an empty state', async () => {
+    vi.mocked(automations.getForecast).mockResolvedValue({
+      forecast: { ...mockForecast, entries: [], skipped: [], draftsExhaustedAt: null },
+    });
+
+    render(<AutomationForecastCard automationId="auto1" refreshKey="1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No posts in the next 14 days')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CalendarOff, CalendarPlus, Loader2, Shuffle } from 'lucide-react';
+import { automations } from '@/lib/api';
+import { formatCalendarDateRange } from '@/lib/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { AutomationForecastResponse } from '@isekai/shared';
+
+const RULE_LABELS: Record<string, string> = {
+  fixed_time: 'Fixed time',
+  fixed_interval: 'Interval',
+  daily_quota: 'Daily quota',
+  cron: 'Cron',
+  time_window: 'Time window',
+};
+
+const POLICY_LABELS: Record<string, string> = {
+  quiet_hours: 'quiet hours',
+  min_gap: 'minimum gap',
+  daily_cap: 'daily cap',
+};
+
+type ForecastEntry = AutomationForecastResponse['entries'][number];
+
+function newSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Group entries by local day (user's timezone), keeping publish time order
+ */
+function groupByDay(entries: ForecastEntry[], timezone: string) {
+  const days: { label: string; entries: ForecastEntry[] }[] = [];
+  for (const entry of entries) {
+    const label = new Date(entry.publishAt).toLocaleDateString(undefined, {
+      timeZone: timezone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+    const day = days[days.length - 1];
+    if (day?.label === label) {
+      day.entries.push(entry);
+    } else {
+      days.push({ label, entries: [entry] });
+    }
+  }
+  return days;
+}
+
+interface AutomationForecastCardProps {
+  automationId: string;
+  // Changes whenever the automation, its rules or its defaults change
+  refreshKey: string;
+}
+
+function ForecastNotice({ label, at, timezone }: { label: string; at: string; timezone: string }) {
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+      <AlertTriangle className="h-4 w-4 mt-0.5 text-yellow-600 shrink-0" />
+      <span>
+        {label}{' '}
+        {new Date(at).toLocaleString(undefined, {
+          timeZone: timezone,
+          dateStyle: 'medium',
+          timeStyle: 'short',
+        })}
+      </span>
+    </div>
+  );
+}
+
+export function AutomationForecastCard({ automationId, refreshKey }: AutomationForecastCardProps) {
+  const [days, setDays] = useState(14);
+  // Same seed gives the same random picks, so the timeline only changes on reshuffle
+  const [seed, setSeed] = useState(newSeed);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['automation-forecast', automationId, days, seed, refreshKey],
+    queryFn: () => automations.getForecast(automationId, { days, seed }),
+  });
+
+  const forecast = data?.forecast;
+  const timeline = forecast ? groupByDay(forecast.entries, forecast.timezone) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle>Forecast</CardTitle>
+            <CardDescription>
+              What this automation would schedule, without scheduling anything
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+                <SelectItem value="31">31 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setSeed(newSeed())}
+              title="Reshuffle random picks"
+            >
+              <Shuffle className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {isError && <p className="text-sm text-destructive">Failed to load forecast</p>}
+
+        {forecast && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {forecast.entries.length} post(s) from {forecast.draftsAvailable} available draft(s)
+              in {forecast.timezone}
+            </p>
+
+            {forecast.pausedAt && (
+              <ForecastNotice
+                label="Automation pauses itself after the run on"
+                at={forecast.pausedAt}
+                timezone={forecast.timezone}
+              />
+            )}
+            {forecast.draftsExhaustedAt && (
+              <ForecastNotice
+                label="Drafts run out on"
+                at={forecast.draftsExhaustedAt}
+                timezone={forecast.timezone}
+              />
+            )}
+            {forecast.poolLowAt && (
+              <ForecastNotice
+                label="Low draft pool warning after the run on"
+                at={forecast.poolLowAt}
+                timezone={forecast.timezone}
+              />
+            )}
+
+            {forecast.calendar.length > 0 && (
+              <div className="space-y-1">
+                {forecast.calendar.map((exception) => (
+                  <div key={exception.id} className="flex items-center gap-2 text-sm">
+                    {exception.type === 'blackout' ? (
+                      <CalendarOff className="h-4 w-4 text-muted-foreground shrink-0" />
+                    ) : (
+                      <CalendarPlus className="h-4 w-4 text-primary shrink-0" />
+                    )}
+                    <span>
+                      {exception.type === 'blackout' ? 'No posts' : 'Extra posting day'}:{' '}
+                      {formatCalendarDateRange(exception.startDate, exception.endDate)}
+                      {exception.label && (
+                        <span className="text-muted-foreground"> ({exception.label})</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No posts in the next {days} days
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {timeline.map((day) => (
+                  <div key={day.label} className="space-y-2">
+                    <p className="text-xs font-medium uppercase text-muted-foreground">
+                      {day.label}
+                    </p>
+                    <div className="border-l-2 border-primary/30 pl-4 space-y-2">
+                      {day.entries.map((entry) => (
+                        <div key={entry.draftId} className="flex items-center gap-3 text-sm">
+                          <span className="font-mono w-12 shrink-0">
+                            {new Date(entry.publishAt).toLocaleTimeString(undefined, {
+                              timeZone: forecast.timezone,
+                              hour: '2-digit',
+                              minute: '2-digit',
+                              hour12: false,
+                            })}
+                          </span>
+                          <span className="flex-1 truncate">{entry.title}</span>
+                          <Badge variant="outline" className="text-xs shrink-0">
+                            {RULE_LABELS[entry.ruleType] ?? entry.ruleType}
+                          </Badge>
+                          {entry.policyReasons.length > 0 && (
+                            <Badge variant="secondary" className="text-xs shrink-0">
+                              Moved: {entry.policyReasons.map((r) => POLICY_LABELS[r]).join(', ')}
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {forecast.skipped.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-destructive">
+                  {forecast.skipped.length} draft(s) would be skipped
+                </p>
+                {forecast.skipped.map((skip) => (
+                  <p key={skip.draftId} className="text-xs text-muted-foreground">
+                    {skip.title || 'Untitled'}: {skip.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,7 +30,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { galleries } from '@/lib/api';
+import { galleries, templates } from '@/lib/api';
+import type { Template } from '@isekai/shared';
 import { X, Loader2 } from 'lucide-react';
 
 interface DefaultValueEditorProps {
@@ -43,12 +44,17 @@ export function DefaultValueEditor({ fieldName, value, onChange }: DefaultValueE
   const { toast } = useToast();
   const [userGalleries, setUserGalleries] = useState<any[]>([]);
   const [loadingGalleries, setLoadingGalleries] = useState(false);
+  const [commentTemplates, setCommentTemplates] = useState<Template[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(false);
 
   // Fetch galleries when galleryIds field is rendered
   useEffect(() => {
     if (fieldName === 'galleryIds') {
       loadGalleries();
     }
+    if (fieldName === 'commentTemplateId') {
+      loadCommentTemplates();
+    }
   }, [fieldName]);
 
   const loadGalleries = async () => {
@@ -67,6 +73,22 @@ export function DefaultValueEditor({ fieldName, value, onChange }: DefaultValueE
     }
   };
 
+  const loadCommentTemplates = async () => {
+    setLoadingTemplates(true);
+    try {
+      const result = await templates.list('comment');
+      setCommentTemplates(result.templates || []);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load comment templates',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingTemplates(false);
+    }
+  };
+
   const handleTagAdd = (tag: string) => {
     const trimmedTag = tag.trim();
     const currentTags = Array.isArray(value) ? value : [];
@@ -373,6 +395,39 @@ export function DefaultValueEditor({ fieldName, value, onChange }: DefaultValueE
         </div>
       );
 
+    case 'commentTemplateId':
+      return (
+        <div className="space-y-2">
+          <Label>First Comment</Label>
+          {loadingTemplates ? (
+            <div className="flex items-center gap-2 h-10 px-3 py-2 border rounded-md text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading comment templates...
+            </div>
+          ) : commentTemplates.length === 0 ? (
+            <div className="px-3 py-2 border rounded-md text-sm text-muted-foreground">
+              No comment templates found
+            </div>
+          ) : (
+            <Select value={value || undefined} onValueChange={onChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a comment template..." />
+              </SelectTrigger>
+              <SelectContent>
+                {commentTemplates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Posted as the first comment shortly after the deviation is published
+          </p>
+        </div>
+      );
+
     default:
       return <div className="text-sm text-muted-foreground">Unknown field type: {fieldName}</div>;
   }
@@ -391,4 +446,5 @@ export const FIELD_LABELS: Record<string, string> = {
   noAi: 'No AI Training',
   addWatermark: 'Add Watermark',
   displayResolution: 'Display Resolution',
+  commentTemplateId: 'First Comment',
 };
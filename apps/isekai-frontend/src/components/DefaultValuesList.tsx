@@ -58,6 +58,9 @@ function formatValue(fieldName: string, value: any): string {
     case 'matureLevel':
       return value === 'moderate' ? 'Moderate' : 'Strict';
 
+    case 'commentTemplateId':
+      return value ? 'Comment template selected' : '(none)';
+
     default:
       return String(value);
   }
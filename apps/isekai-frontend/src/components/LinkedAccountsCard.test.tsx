@@ -0,0 +1,82 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test-helpers/test-utils';
+import userEvent from '@testing-library/user-event';
+import { LinkedAccountsCard } from './LinkedAccountsCard';
+import { auth } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+
+vi.mock('@/lib/api');
+vi.mock('@/stores/auth');
+
+describe('LinkedAccountsCard', () => {
+  const fetchUser = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useAuthStore).mockReturnValue({ fetchUser });
+    vi.mocked(auth.listAccounts).mockResolvedValue({
+      accounts: [
+        {
+          id: 'user-1',
+          deviantartId: 'da-1',
+          username: 'artist',
+          avatarUrl: null,
+          isActive: true,
+          needsReauth: false,
+        },
+        {
+          id: 'user-2',
+          deviantartId: 'da-2',
+          username: 'studio',
+          avatarUrl: null,
+          isActive: false,
+          needsReauth: true,
+        },
+      ],
+    });
+    vi.mocked(auth.unlinkAccount).mockResolvedValue({ success: true });
+  });
+
+  it('should list the linked accounts', async () => {
+    render(<LinkedAccountsCard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('studio')).toBeInTheDocument();
+    });
+    expect(screen.getByText('artist')).toBeInTheDocument();
+    expect(screen.getByText('Active')).toBeInTheDocument();
+    expect(screen.getByText('Reconnect')).toBeInTheDocument();
+    // The active account can't be unlinked
+    expect(screen.getAllByRole('button', { name: /Unlink/ })).toHaveLength(1);
+  });
+
+  it('should unlink an account and refresh the account switcher', async () => {
+    const user = userEvent.setup();
+
+    render(<LinkedAccountsCard />);
+
+    await user.click(await screen.findByRole('button', { name: /Unlink/ }));
+
+    await waitFor(() => {
+      expect(auth.unlinkAccount).toHaveBeenCalledWith('user-2');
+    });
+    expect(fetchUser).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftRight, Plus, Unlink } from 'lucide-react';
+import { auth } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+
+export function LinkedAccountsCard() {
+  const queryClient = useQueryClient();
+  const { fetchUser } = useAuthStore();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['linked-accounts'],
+    queryFn: () => auth.listAccounts(),
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const linkAccount = useMutation({
+    mutationFn: () => auth.linkAccount(),
+    onSuccess: ({ authUrl }) => {
+      window.location.href = authUrl;
+    },
+    onError: onError('Failed to start linking'),
+  });
+
+  // Full reload so every cached query is refetched for the new DeviantArt account
+  const switchAccount = useMutation({
+    mutationFn: (id: string) => auth.switchAccount(id),
+    onSuccess: () => {
+      window.location.href = '/';
+    },
+    onError: onError('Failed to switch account'),
+  });
+
+  const unlinkAccount = useMutation({
+    mutationFn: (id: string) => auth.unlinkAccount(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['linked-accounts'] });
+      // The account switcher reads the linked accounts from the session user
+      fetchUser();
+      toast({ title: 'Unlinked', description: 'The account now signs in on its own.' });
+    },
+    onError: onError('Failed to unlink account'),
+  });
+
+  const accounts = data?.accounts ?? [];
+
+  return (
+    <Card className="rounded-lg border-border/50">
+      <CardHeader>
+        <CardTitle>Linked Accounts</CardTitle>
+        <CardDescription>
+          DeviantArt accounts you can switch between. Drafts, automations and sales stay with each
+          account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading accounts...</p>
+        ) : (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div
+                key={account.id}
+                className="flex items-center justify-between gap-2 rounded-lg border p-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {account.avatarUrl ? (
+                    <img src={account.avatarUrl} alt="" className="h-8 w-8 rounded-full" />
+                  ) : (
+                    <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
+                      <span className="text-sm font-medium text-primary">
+                        {account.username[0]?.toUpperCase()}
+                      </span>
+                    </div>
+                  )}
+                  <span className="text-sm font-medium truncate">{account.username}</span>
+                  {account.isActive && <Badge variant="secondary">Active</Badge>}
+                  {account.needsReauth && <Badge variant="destructive">Reconnect</Badge>}
+                </div>
+                {!account.isActive && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => switchAccount.mutate(account.id)}
+                      disabled={switchAccount.isPending}
+                    >
+                      <ArrowLeftRight className="h-4 w-4 mr-1" />
+                      Switch
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => unlinkAccount.mutate(account.id)}
+                      disabled={unlinkAccount.isPending}
+                    >
+                      <Unlink className="h-4 w-4 mr-1" />
+                      Unlink
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => linkAccount.mutate()}
+          disabled={linkAccount.isPending}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Link DeviantArt Account
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, X } from 'lucide-react';
+import { galleries, postPublishActions } from '@/lib/api';
+import { formatScheduleDateTime } from '@/lib/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import type {
+  PostPublishAction,
+  PostPublishActionType,
+  PostPublishActionPayload,
+  MetadataUpdatePayload,
+  GalleryActionPayload,
+} from '@isekai/shared';
+
+const ACTION_LABELS: Record<PostPublishActionType, string> = {
+  update_metadata: 'Edit metadata',
+  move_to_gallery: 'Move to gallery',
+  copy_to_gallery: 'Copy to gallery',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+interface PostPublishActionsCardProps {
+  deviationId: string;
+}
+
+export function PostPublishActionsCard({ deviationId }: PostPublishActionsCardProps) {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<PostPublishActionType>('move_to_gallery');
+  const [afterDays, setAfterDays] = useState('7');
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+  const [targetFolderId, setTargetFolderId] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['post-publish-actions', deviationId],
+    queryFn: () => postPublishActions.list(deviationId),
+  });
+
+  const isGalleryAction = type !== 'update_metadata';
+
+  const { data: folders = [] } = useQuery({
+    queryKey: ['galleries', 'all'],
+    queryFn: () => galleries.listAll(),
+    enabled: isGalleryAction,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const folderNames = new Map(folders.map((folder) => [folder.folderid, folder.name]));
+
+  const describeAction = (action: PostPublishAction) => {
+    if (action.type === 'update_metadata') {
+      const payload = action.payload as MetadataUpdatePayload;
+      return [payload.title && `title "${payload.title}"`, payload.tags && 'tags']
+        .filter(Boolean)
+        .join(', ');
+    }
+    const { targetFolderId } = action.payload as GalleryActionPayload;
+    return folderNames.get(targetFolderId) || targetFolderId;
+  };
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['post-publish-actions', deviationId] });
+
+  const createAction = useMutation({
+    mutationFn: () => {
+      let payload: PostPublishActionPayload;
+      if (isGalleryAction) {
+        payload = { targetFolderId };
+      } else {
+        payload = {};
+        if (title) payload.title = title;
+        if (tags) {
+          payload.tags = tags
+            .split(',')
+            .map((tag) => tag.trim())
+            .filter(Boolean);
+        }
+      }
+      return postPublishActions.create({
+        deviationId,
+        type,
+        payload,
+        afterDays: Number(afterDays),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setTitle('');
+      setTags('');
+      toast({ title: 'Scheduled', description: 'Post-publish action scheduled.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to schedule action',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelAction = useMutation({
+    mutationFn: (id: string) => postPublishActions.cancel(id),
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to cancel action',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const canSubmit = isGalleryAction ? !!targetFolderId : !!title || !!tags;
+  const actions = data?.actions ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>After Publishing</CardTitle>
+        <CardDescription>
+          Schedule metadata edits or gallery moves for this deviation
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actions.length > 0 && (
+          <div className="space-y-2">
+            {actions.map((action) => (
+              <div
+                key={action.id}
+                className="flex items-start justify-between gap-2 rounded-lg border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{ACTION_LABELS[action.type]}</span>
+                    <Badge variant={STATUS_VARIANTS[action.status]}>{action.status}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeAction(action)} · {formatScheduleDateTime(action.runAt)}
+                  </p>
+                  {action.errorMessage && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{action.errorMessage}</p>
+                  )}
+                </div>
+                {action.status === 'pending' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => cancelAction.mutate(action.id)}
+                    disabled={cancelAction.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as PostPublishActionType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="post-publish-days">Days after publish</Label>
+              <Input
+                id="post-publish-days"
+                type="number"
+                min={0}
+                max={365}
+                value={afterDays}
+                onChange={(e) => setAfterDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isGalleryAction ? (
+            <div className="space-y-2">
+              <Label>Gallery folder</Label>
+              <Select value={targetFolderId} onValueChange={setTargetFolderId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a gallery" />
+                </SelectTrigger>
+                <SelectContent>
+                  {folders.map((folder) => (
+                    <SelectItem key={folder.folderid} value={folder.folderid}>
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="post-publish-title">New title</Label>
+                <Input
+                  id="post-publish-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Leave empty to keep the current title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="post-publish-tags">New tags</Label>
+                <Input
+                  id="post-publish-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="Comma separated, replaces the current tags"
+                />
+              </div>
+            </>
+          )}
+
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => createAction.mutate()}
+            disabled={!canSubmit || afterDays === '' || createAction.isPending}
+          >
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {createAction.isPending ? 'Scheduling...' : 'Schedule Action'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Save, X } from 'lucide-react';
+import { publishingPolicy } from '@/lib/api';
+import { getTimezoneName } from '@/lib/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import type { QuietHoursWindow } from '@isekai/shared';
+import { MAX_QUIET_HOURS_WINDOWS } from '@isekai/shared/browser';
+
+// Empty input means "no limit"
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value));
+
+export function PublishingPolicyCard() {
+  const queryClient = useQueryClient();
+  const [timezone, setTimezone] = useState('');
+  const [maxPostsPerDay, setMaxPostsPerDay] = useState('');
+  const [minPostGapMinutes, setMinPostGapMinutes] = useState('');
+  const [quietHours, setQuietHours] = useState<QuietHoursWindow[]>([]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['publishing-policy'],
+    queryFn: () => publishingPolicy.get(),
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setTimezone(data.policy.timezone);
+    setMaxPostsPerDay(data.policy.maxPostsPerDay?.toString() ?? '');
+    setMinPostGapMinutes(data.policy.minPostGapMinutes?.toString() ?? '');
+    setQuietHours(data.policy.quietHours);
+  }, [data]);
+
+  const savePolicy = useMutation({
+    mutationFn: () =>
+      publishingPolicy.update({
+        timezone,
+        maxPostsPerDay: toNullableNumber(maxPostsPerDay),
+        minPostGapMinutes: toNullableNumber(minPostGapMinutes),
+        quietHours,
+      }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['publishing-policy'], result);
+      toast({ title: 'Saved', description: 'Publishing policy updated.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save publishing policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateWindow = (index: number, field: keyof QuietHoursWindow, value: string) => {
+    setQuietHours((windows) =>
+      windows.map((window, i) => (i === index ? { ...window, [field]: value } : window))
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">Loading...</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Publishing Policy</CardTitle>
+        <CardDescription>
+          Limit how often you post. Deviations that would break these rules are moved to the next
+          allowed time instead of failing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="policy-timezone">Timezone</Label>
+          <div className="flex gap-2">
+            <Input
+              id="policy-timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g. Europe/Berlin"
+            />
+            <Button variant="outline" onClick={() => setTimezone(getTimezoneName())}>
+              Use browser timezone
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="policy-max-posts">Max posts per day</Label>
+            <Input
+              id="policy-max-posts"
+              type="number"
+              min={1}
+              max={100}
+              value={maxPostsPerDay}
+              onChange={(e) => setMaxPostsPerDay(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-min-gap">Minimum gap (minutes)</Label>
+            <Input
+              id="policy-min-gap"
+              type="number"
+              min={1}
+              max={1440}
+              value={minPostGapMinutes}
+              onChange={(e) => setMinPostGapMinutes(e.target.value)}
+              placeholder="No gap"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Quiet hours</Label>
+          {quietHours.length === 0 && (
+            <p className="text-xs text-muted-foreground">No quiet hours</p>
+          )}
+          {quietHours.map((window, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={window.start}
+                onChange={(e) => updateWindow(index, 'start', e.target.value)}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={window.end}
+                onChange={(e) => updateWindow(index, 'end', e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setQuietHours((windows) => windows.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setQuietHours((windows) => [...windows, { start: '23:00', end: '07:00' }])
+            }
+            disabled={quietHours.length >= MAX_QUIET_HOURS_WINDOWS}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add window
+          </Button>
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={() => savePolicy.mutate()}
+          disabled={!timezone || savePolicy.isPending}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {savePolicy.isPending ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
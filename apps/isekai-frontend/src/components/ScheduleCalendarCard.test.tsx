@@ -0,0 +1,124 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@/test-helpers/test-utils';
+import userEvent from '@testing-library/user-event';
+import { ScheduleCalendarCard } from './ScheduleCalendarCard';
+import { scheduleExceptions } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+vi.mock('@/lib/api');
+vi.mock('@/hooks/use-toast', () => ({ toast: vi.fn() }));
+
+describe('ScheduleCalendarCard', () => {
+  const sharedException = {
+    id: 'exception-1',
+    automationId: null,
+    type: 'blackout' as const,
+    startDate: '2025-12-24',
+    endDate: '2025-12-26',
+    label: 'Christmas',
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(scheduleExceptions.list).mockResolvedValue({ exceptions: [sharedException] });
+    vi.mocked(scheduleExceptions.delete).mockResolvedValue(undefined);
+  });
+
+  it('should list and remove user-wide entries', async () => {
+    const user = userEvent.setup();
+
+    render(<ScheduleCalendarCard />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Christmas')).toBeInTheDocument();
+    });
+    expect(scheduleExceptions.list).toHaveBeenCalledWith({ automationId: 'none' });
+
+    await user.click(screen.getByTitle('Remove'));
+
+    await waitFor(() => {
+      expect(scheduleExceptions.delete).toHaveBeenCalledWith('exception-1');
+    });
+  });
+
+  it("should add an entry to the automation's calendar", async () => {
+    vi.mocked(scheduleExceptions.create).mockResolvedValue({
+      exception: { ...sharedException, id: 'exception-2', automationId: 'auto1' },
+    });
+    const user = userEvent.setup();
+
+    render(<ScheduleCalendarCard automationId="auto1" />);
+
+    // Shared entries are shown but managed in Settings
+    await waitFor(() => {
+      expect(screen.getByText('All automations')).toBeInTheDocument();
+    });
+    expect(screen.queryByTitle('Remove')).not.toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('From'), '2025-03-01');
+    await user.type(screen.getByLabelText('Label'), 'Convention');
+    await user.click(screen.getByRole('button', { name: /Add to Calendar/ }));
+
+    await waitFor(() => {
+      expect(scheduleExceptions.create).toHaveBeenCalledWith({
+        automationId: 'auto1',
+        type: 'blackout',
+        startDate: '2025-03-01',
+        endDate: undefined,
+        label: 'Convention',
+      });
+    });
+  });
+
+  it('should import an .ics file', async () => {
+    vi.mocked(scheduleExceptions.importIcs).mockResolvedValue({
+      imported: 2,
+      skipped: 1,
+      unsupportedRecurring: ['Meetup'],
+    });
+    const user = userEvent.setup();
+
+    render(<ScheduleCalendarCard automationId="auto1" />);
+
+    const file = new File(['BEGIN:VCALENDAR\r\nEND:VCALENDAR'], 'holidays.ics', {
+      type: 'text/calendar',
+    });
+    // jsdom's File has no text()
+    Object.defineProperty(file, 'text', {
+      value: () => Promise.resolve('BEGIN:VCALENDAR\r\nEND:VCALENDAR'),
+    });
+    await user.upload(screen.getByTestId('calendar-file'), file);
+
+    await waitFor(() => {
+      expect(scheduleExceptions.importIcs).toHaveBeenCalledWith(
+        'BEGIN:VCALENDAR\r\nEND:VCALENDAR',
+        { type: 'blackout', automationId: 'auto1' }
+      );
+    });
+    await waitFor(() => {
+      expect(toast).toHaveBeenCalledWith({
+        title: 'Calendar imported',
+        description:
+          '2 entries added, 1 skipped. Repeating events with an unsupported rule were left out: Meetup.',
+      });
+    });
+  });
+});
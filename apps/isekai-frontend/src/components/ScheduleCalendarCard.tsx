@@ -0,0 +1,251 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, Upload, X } from 'lucide-react';
+import { scheduleExceptions } from '@/lib/api';
+import { formatCalendarDateRange } from '@/lib/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import type { ScheduleException } from '@isekai/shared';
+
+type ExceptionType = ScheduleException['type'];
+
+export const EXCEPTION_TYPE_LABELS: Record<ExceptionType, string> = {
+  blackout: 'No posts',
+  extra_day: 'Extra posting day',
+};
+
+interface ScheduleCalendarCardProps {
+  // Without it the card manages the calendar shared by all automations
+  automationId?: string;
+}
+
+export function ScheduleCalendarCard({ automationId }: ScheduleCalendarCardProps) {
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [type, setType] = useState<ExceptionType>('blackout');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [label, setLabel] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['schedule-exceptions', automationId ?? 'none'],
+    queryFn: () => scheduleExceptions.list({ automationId: automationId ?? 'none' }),
+  });
+
+  const exceptions = data?.exceptions ?? [];
+
+  // Forecasts and the Scheduled page show the calendar too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['schedule-exceptions'] });
+    queryClient.invalidateQueries({ queryKey: ['automation-forecast'] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const createException = useMutation({
+    mutationFn: () =>
+      scheduleExceptions.create({
+        automationId: automationId ?? null,
+        type,
+        startDate,
+        endDate: endDate || undefined,
+        label: label.trim() || undefined,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setStartDate('');
+      setEndDate('');
+      setLabel('');
+    },
+    onError: onError('Failed to add calendar entry'),
+  });
+
+  const deleteException = useMutation({
+    mutationFn: (id: string) => scheduleExceptions.delete(id),
+    onSuccess: invalidate,
+    onError: onError('Failed to remove calendar entry'),
+  });
+
+  const importCalendar = useMutation({
+    mutationFn: async (file: File) =>
+      scheduleExceptions.importIcs(await file.text(), { type, automationId }),
+    onSuccess: (result) => {
+      invalidate();
+      const unsupported = result.unsupportedRecurring.length
+        ? ` Repeating events with an unsupported rule were left out: ${result.unsupportedRecurring.join(', ')}.`
+        : '';
+      toast({
+        title: 'Calendar imported',
+        description: `${result.imported} entr${result.imported === 1 ? 'y' : 'ies'} added, ${result.skipped} skipped.${unsupported}`,
+      });
+    },
+    onError: onError('Failed to import calendar'),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar</CardTitle>
+        <CardDescription>
+          {automationId
+            ? 'Days this automation stays silent or posts outside its usual days, on top of the calendar in Settings'
+            : 'Days all automations stay silent or post outside their usual days, in your timezone'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ExceptionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="blackout">{EXCEPTION_TYPE_LABELS.blackout}</SelectItem>
+                <SelectItem value="extra_day">{EXCEPTION_TYPE_LABELS.extra_day}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-label">Label</Label>
+            <Input
+              id="calendar-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Convention"
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-start">From</Label>
+            <Input
+              id="calendar-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-end">Until (optional)</Label>
+            <Input
+              id="calendar-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={() => createException.mutate()}
+            disabled={!startDate || createException.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add to Calendar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={importCalendar.isPending}
+            title={`Import the events of an .ics file as "${EXCEPTION_TYPE_LABELS[type]}"`}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importCalendar.isPending ? 'Importing...' : 'Import .ics'}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            data-testid="calendar-file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importCalendar.mutate(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">No upcoming entries</p>
+        ) : (
+          <div className="space-y-2">
+            {exceptions.map((exception) => {
+              // Shared entries are managed in Settings
+              const shared = Boolean(automationId) && exception.automationId === null;
+              return (
+                <div
+                  key={exception.id}
+                  className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm"
+                >
+                  <Badge
+                    variant={exception.type === 'blackout' ? 'destructive' : 'secondary'}
+                    className="text-xs shrink-0"
+                  >
+                    {EXCEPTION_TYPE_LABELS[exception.type]}
+                  </Badge>
+                  <span className="shrink-0">
+                    {formatCalendarDateRange(exception.startDate, exception.endDate)}
+                  </span>
+                  <span className="flex-1 truncate text-muted-foreground">{exception.label}</span>
+                  {shared ? (
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      All automations
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => deleteException.mutate(exception.id)}
+                      title="Remove"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
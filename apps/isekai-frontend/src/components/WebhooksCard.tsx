@@ -0,0 +1,312 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, KeyRound, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { webhooks } from '@/lib/api';
+import { formatScheduleDateTime } from '@/lib/timezone';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/hooks/use-toast';
+import type { Webhook } from '@isekai/shared';
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@isekai/shared/browser';
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'deviation.published': 'Deviation published',
+  'deviation.failed': 'Deviation failed',
+  'automation.executed': 'Automation executed',
+  'automation.pool_low': 'Automation low on drafts',
+  'automation.paused': 'Automation paused (out of drafts)',
+  'sale_queue.completed': 'Sale queue item completed',
+  'review.created': 'New item in review',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+function WebhookDeliveries({ webhookId }: { webhookId: string }) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', webhookId],
+    queryFn: () => webhooks.deliveries(webhookId, { limit: 10 }),
+  });
+
+  const redeliver = useMutation({
+    mutationFn: (deliveryId: string) => webhooks.redeliver(deliveryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', webhookId] });
+      toast({ title: 'Queued', description: 'Delivery queued for redelivery.' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to redeliver',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading deliveries...</p>;
+  }
+
+  const deliveries = data?.deliveries ?? [];
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+          <div className="flex items-center gap-2 min-w-0">
+            <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+            <span className="font-medium">{delivery.event}</span>
+            <span className="text-muted-foreground truncate">
+              {formatScheduleDateTime(delivery.createdAt)}
+              {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+              {delivery.errorMessage && ` · ${delivery.errorMessage}`}
+            </span>
+          </div>
+          {delivery.status !== 'pending' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => redeliver.mutate(delivery.id)}
+              disabled={redeliver.isPending}
+            >
+              <RotateCw className="h-3 w-3 mr-1" />
+              Redeliver
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WebhooksCard() {
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['webhooks'],
+    queryFn: () => webhooks.list(),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const createWebhook = useMutation({
+    mutationFn: () => webhooks.create({ url, events, description: description || undefined }),
+    onSuccess: ({ secret }) => {
+      invalidate();
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+      setRevealedSecret(secret);
+    },
+    onError: onError('Failed to create webhook'),
+  });
+
+  const toggleWebhook = useMutation({
+    mutationFn: (webhook: Webhook) => webhooks.update(webhook.id, { enabled: !webhook.enabled }),
+    onSuccess: () => invalidate(),
+    onError: onError('Failed to update webhook'),
+  });
+
+  const rotateSecret = useMutation({
+    mutationFn: (id: string) => webhooks.rotateSecret(id),
+    onSuccess: ({ secret }) => setRevealedSecret(secret),
+    onError: onError('Failed to rotate secret'),
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: (id: string) => webhooks.delete(id),
+    onSuccess: () => invalidate(),
+    onError: onError('Failed to delete webhook'),
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((value) => value !== event)
+    );
+  };
+
+  const copySecret = () => {
+    if (revealedSecret) {
+      navigator.clipboard.writeText(revealedSecret);
+      toast({ title: 'Copied', description: 'Signing secret copied to clipboard' });
+    }
+  };
+
+  const list = data?.webhooks ?? [];
+
+  return (
+    <Card className="rounded-lg border-border/50">
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Receive signed HTTP callbacks when deviations publish or fail, automations run, sales
+          complete or new items arrive for review
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revealedSecret && (
+          <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+            <p className="text-sm font-medium">
+              Copy your signing secret now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={revealedSecret} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {list.length > 0 && (
+          <div className="space-y-2">
+            {list.map((webhook) => (
+              <div key={webhook.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{webhook.url}</p>
+                    {webhook.description && (
+                      <p className="text-xs text-muted-foreground">{webhook.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={() => toggleWebhook.mutate(webhook)}
+                      disabled={toggleWebhook.isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Rotate secret"
+                      onClick={() => rotateSecret.mutate(webhook.id)}
+                      disabled={rotateSecret.isPending}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      onClick={() => deleteWebhook.mutate(webhook.id)}
+                      disabled={deleteWebhook.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                >
+                  {expandedId === webhook.id ? 'Hide deliveries' : 'Show recent deliveries'}
+                </Button>
+                {expandedId === webhook.id && <WebhookDeliveries webhookId={webhook.id} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Payload URL</Label>
+            <Input
+              id="webhook-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/isekai-webhook"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {WEBHOOK_EVENTS.map((event) => (
+              <div key={event} className="flex items-center gap-2">
+                <Checkbox
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                />
+                <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                  {EVENT_LABELS[event]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => createWebhook.mutate()}
+            disabled={!url || events.length === 0 || createWebhook.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {createWebhook.isPending ? 'Adding...' : 'Add Webhook'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
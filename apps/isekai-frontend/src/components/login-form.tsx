@@ -29,6 +29,11 @@ const ERROR_MESSAGES: Record<string, { title: string; description: string }> = {
     description:
       'This instance has reached its maximum number of DeviantArt accounts. Please contact the administrator.',
   },
+  account_already_linked: {
+    title: 'Account Already Linked',
+    description:
+      'This DeviantArt account is linked to another Isekai login. Unlink it there first, then try again.',
+  },
   team_invites_disabled: {
     title: 'Team Invites Disabled',
     description:
@@ -20,8 +20,17 @@ import { render, screen, waitFor } from '@/test-helpers/test-utils';
 import userEvent from '@testing-library/user-event';
 import { NavUserDropdown } from './nav-user-dropdown';
 import { useAuthStore } from '@/stores/auth';
+import { auth } from '@/lib/api';
 
 vi.mock('@/stores/auth');
+vi.mock('@/lib/api', () => ({
+  auth: {
+    switchAccount: vi.fn().mockResolvedValue({ success: true, activeUserId: 'user-2' }),
+    linkAccount: vi
+      .fn()
+      .mockResolvedValue({ authUrl: 'https://www.deviantart.com/oauth2/authorize' }),
+  },
+}));
 
 describe('NavUserDropdown', () => {
   const mockLogout = vi.fn();
@@ -266,4 +275,82 @@ describe('NavUserDropdown', () => {
     const apiKeysLink = (await screen.findByText('API Keys')).closest('a');
     expect(apiKeysLink).toHaveAttribute('href', '/api-keys');
   });
+
+  it('should list other linked accounts and switch to one', async () => {
+    vi.mocked(useAuthStore).mockReturnValue({
+      user: {
+        id: 'user-1',
+        deviantartId: 'da-1',
+        username: 'testuser',
+        email: null,
+        avatarUrl: '',
+        createdAt: '2025-01-01T00:00:00Z',
+        linkedAccounts: [
+          {
+            id: 'user-1',
+            deviantartId: 'da-1',
+            username: 'testuser',
+            avatarUrl: null,
+            isActive: true,
+            needsReauth: false,
+          },
+          {
+            id: 'user-2',
+            deviantartId: 'da-2',
+            username: 'sidebrand',
+            avatarUrl: null,
+            isActive: false,
+            needsReauth: false,
+          },
+        ],
+      },
+      logout: mockLogout,
+      isAuthenticated: true,
+      isLoading: false,
+      error: null,
+      fetchUser: vi.fn(),
+      setUser: vi.fn(),
+    });
+
+    const user = userEvent.setup();
+    render(<NavUserDropdown />);
+
+    await user.click(screen.getByRole('button'));
+    await user.click(await screen.findByText('sidebrand'));
+
+    await waitFor(() => {
+      expect(auth.switchAccount).toHaveBeenCalledWith('user-2');
+      expect(window.location.href).toBe('/');
+    });
+  });
+
+  it('should start the DeviantArt OAuth flow when linking an account', async () => {
+    vi.mocked(useAuthStore).mockReturnValue({
+      user: {
+        id: 'user-1',
+        deviantartId: 'da-1',
+        username: 'testuser',
+        email: null,
+        avatarUrl: '',
+        createdAt: '2025-01-01T00:00:00Z',
+      },
+      logout: mockLogout,
+      isAuthenticated: true,
+      isLoading: false,
+      error: null,
+      fetchUser: vi.fn(),
+      setUser: vi.fn(),
+    });
+
+    const user = userEvent.setup();
+    render(<NavUserDropdown />);
+
+    await user.click(screen.getByRole('button'));
+    await user.click(await screen.findByText('Link DeviantArt account'));
+
+    await waitFor(() => {
+      expect(auth.linkAccount).toHaveBeenCalled();
+      expect(window.location.href).toBe('https://www.deviantart.com/oauth2/authorize');
+    });
+  });
 });
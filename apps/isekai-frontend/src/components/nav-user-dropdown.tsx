@@ -16,7 +16,13 @@
  */
 
 import { Link } from 'react-router-dom';
-import { ExternalLinkIcon, LogOutIcon, SettingsIcon } from 'lucide-react';
+import {
+  ArrowLeftRightIcon,
+  ExternalLinkIcon,
+  LogOutIcon,
+  PlusIcon,
+  SettingsIcon,
+} from 'lucide-react';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
@@ -28,6 +34,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAuthStore } from '@/stores/auth';
+import { auth } from '@/lib/api';
 
 export function NavUserDropdown() {
   const { user, logout } = useAuthStore();
@@ -37,6 +44,19 @@ export function NavUserDropdown() {
     window.location.href = '/login';
   };
 
+  const otherAccounts = user?.linkedAccounts?.filter((account) => !account.isActive) ?? [];
+
+  // Full reload so every cached query is refetched for the new DeviantArt account
+  const handleSwitchAccount = async (accountId: string) => {
+    await auth.switchAccount(accountId);
+    window.location.href = '/';
+  };
+
+  const handleLinkAccount = async () => {
+    const { authUrl } = await auth.linkAccount();
+    window.location.href = authUrl;
+  };
+
   const userData = {
     name: user?.username || 'User',
     email: user?.email || '',
@@ -90,6 +110,27 @@ export function NavUserDropdown() {
             </div>
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
+          {otherAccounts.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Switch account
+              </DropdownMenuLabel>
+              {otherAccounts.map((account) => (
+                <DropdownMenuItem key={account.id} onClick={() => handleSwitchAccount(account.id)}>
+                  <ArrowLeftRightIcon className="mr-2 h-4 w-4" />
+                  <span className="truncate">{account.username}</span>
+                  {account.needsReauth && (
+                    <span className="ml-auto text-xs text-destructive">Re-auth</span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuItem onClick={handleLinkAccount}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            Link DeviantArt account
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
           <DropdownMenuItem asChild>
             <Link to="/settings">
               <SettingsIcon className="mr-2 h-4 w-4" />
@@ -17,6 +17,7 @@
 
 import type {
   User,
+  LinkedAccount,
   Deviation,
   Gallery,
   UserGallery,
@@ -33,6 +34,21 @@ import type {
   ApiKey,
   CreateApiKeyRequest,
   CreateApiKeyResponse,
+  PostPublishAction,
+  CreatePostPublishActionRequest,
+  DeviationValidationResult,
+  Webhook,
+  WebhookDelivery,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  PublishingPolicySettings,
+  UpdatePublishingPolicyRequest,
+  AutomationForecastResponse,
+  AutomationExecutionLogDetail,
+  AutomationPoolDraft,
+  AutomationBundle,
+  ScheduleException,
+  CreateScheduleExceptionRequest,
 } from '@isekai/shared';
 
 // Runtime-only configuration - NO build-time environment variables
@@ -188,6 +204,14 @@ export const auth = {
   getMe: () => request<User>('/auth/me'),
   logout: () => request<void>('/auth/logout', { method: 'POST' }),
   getDeviantArtAuthUrl: () => `${API_URL}/auth/deviantart`,
+  listAccounts: () => request<{ accounts: LinkedAccount[] }>('/auth/accounts'),
+  linkAccount: () => request<{ authUrl: string }>('/auth/accounts/link', { method: 'POST' }),
+  switchAccount: (id: string) =>
+    request<{ success: boolean; activeUserId: string }>(`/auth/accounts/${id}/switch`, {
+      method: 'POST',
+    }),
+  unlinkAccount: (id: string) =>
+    request<{ success: boolean }>(`/auth/accounts/${id}`, { method: 'DELETE' }),
 };
 
 // Deviations
@@ -222,6 +246,18 @@ export const deviations = {
   publishNow: (id: string) =>
     request<Deviation>(`/deviations/${id}/publish-now`, { method: 'POST' }),
   cancel: (id: string) => request<Deviation>(`/deviations/${id}/cancel`, { method: 'POST' }),
+  validate: (id: string) =>
+    request<DeviationValidationResult & { deviationId: string }>(`/deviations/${id}/validate`, {
+      method: 'POST',
+    }),
+  batchValidate: (deviationIds: string[]) =>
+    request<{
+      results: Array<DeviationValidationResult & { deviationId: string }>;
+      summary: { total: number; valid: number; invalid: number };
+    }>('/deviations/batch-validate', {
+      method: 'POST',
+      body: JSON.stringify({ deviationIds }),
+    }),
   reorderFiles: (id: string, fileIds: string[]) =>
     request<{ success: boolean }>(`/deviations/${id}/files/reorder`, {
       method: 'PATCH',
@@ -254,6 +290,24 @@ export const deviations = {
     }),
 };
 
+// Post-publish actions (scheduled edits/gallery moves on published deviations)
+export const postPublishActions = {
+  list: (deviationId: string) => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('deviationId', deviationId);
+    return request<{ actions: PostPublishAction[] }>(
+      `/post-publish-actions?${searchParams.toString()}`
+    );
+  },
+  create: (data: CreatePostPublishActionRequest) =>
+    request<{ action: PostPublishAction }>('/post-publish-actions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  cancel: (id: string) =>
+    request<{ action: PostPublishAction }>(`/post-publish-actions/${id}`, { method: 'DELETE' }),
+};
+
 // Uploads
 export const uploads = {
   getPresignedUrl: (filename: string, contentType: string, fileSize: number) =>
@@ -552,6 +606,49 @@ export const apiKeys = {
   delete: (id: string) => request<void>(`/api-keys/${id}/permanent`, { method: 'DELETE' }),
 };
 
+// Webhooks API
+export const webhooks = {
+  list: () => request<{ webhooks: Webhook[] }>('/webhooks'),
+  create: (data: CreateWebhookRequest) =>
+    request<{ webhook: Webhook; secret: string }>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  update: (id: string, data: UpdateWebhookRequest) =>
+    request<{ webhook: Webhook }>(`/webhooks/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+  delete: (id: string) => request<void>(`/webhooks/${id}`, { method: 'DELETE' }),
+  rotateSecret: (id: string) =>
+    request<{ webhook: Webhook; secret: string }>(`/webhooks/${id}/rotate-secret`, {
+      method: 'POST',
+    }),
+  deliveries: (id: string, params?: { page?: number; limit?: number }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.set('page', String(params.page));
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+    const query = searchParams.toString();
+    return request<{ deliveries: WebhookDelivery[]; total: number }>(
+      `/webhooks/${id}/deliveries${query ? `?${query}` : ''}`
+    );
+  },
+  redeliver: (deliveryId: string) =>
+    request<{ delivery: WebhookDelivery }>(`/webhooks/deliveries/${deliveryId}/redeliver`, {
+      method: 'POST',
+    }),
+};
+
+// Publishing Policy API
+export const publishingPolicy = {
+  get: () => request<{ policy: PublishingPolicySettings }>('/publishing-policy'),
+  update: (data: UpdatePublishingPolicyRequest) =>
+    request<{ policy: PublishingPolicySettings }>('/publishing-policy', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+};
+
 // Review API
 export const review = {
   list: (params?: { page?: number; limit?: number }) => {
@@ -720,10 +817,40 @@ export const automations = {
       `/automations/${id}/logs${query ? `?${query}` : ''}`
     );
   },
+  getLog: (id: string, logId: string) =>
+    request<{ log: AutomationExecutionLogDetail }>(`/automations/${id}/logs/${logId}`),
+  getForecast: (id: string, params?: { days?: number; seed?: number }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.days) searchParams.set('days', String(params.days));
+    if (params?.seed !== undefined) searchParams.set('seed', String(params.seed));
+    const query = searchParams.toString();
+    return request<{ forecast: AutomationForecastResponse }>(
+      `/automations/${id}/forecast${query ? `?${query}` : ''}`
+    );
+  },
+  getDrafts: (id: string) =>
+    request<{ drafts: AutomationPoolDraft[] }>(`/automations/${id}/drafts`),
+  addDrafts: (id: string, deviationIds: string[]) =>
+    request<{ added: number }>(`/automations/${id}/drafts`, {
+      method: 'POST',
+      body: JSON.stringify({ deviationIds }),
+    }),
+  removeDraft: (id: string, deviationId: string) =>
+    request<void>(`/automations/${id}/drafts/${deviationId}`, { method: 'DELETE' }),
   test: (id: string) =>
     request<{ message: string; config: any }>(`/automations/${id}/test`, {
       method: 'POST',
     }),
+  exportBundle: (id: string) => request<AutomationBundle>(`/automations/${id}/export`),
+  importBundle: (bundle: AutomationBundle) =>
+    request<{ automation: any }>('/automations/import', {
+      method: 'POST',
+      body: JSON.stringify(bundle),
+    }),
+  duplicate: (id: string) =>
+    request<{ automation: any }>(`/automations/${id}/duplicate`, {
+      method: 'POST',
+    }),
 };
 
 export const automationScheduleRules = {
@@ -764,6 +891,40 @@ export const automationDefaultValues = {
   delete: (id: string) => request<void>(`/automation-default-values/${id}`, { method: 'DELETE' }),
 };
 
+export const scheduleExceptions = {
+  // An automation's id also lists the user-wide entries, "none" lists only those
+  list: (params?: { automationId?: string; from?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params?.automationId) searchParams.set('automationId', params.automationId);
+    if (params?.from) searchParams.set('from', params.from);
+    const query = searchParams.toString();
+    return request<{ exceptions: ScheduleException[] }>(
+      `/schedule-exceptions${query ? `?${query}` : ''}`
+    );
+  },
+  create: (data: CreateScheduleExceptionRequest) =>
+    request<{ exception: ScheduleException }>('/schedule-exceptions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+  delete: (id: string) => request<void>(`/schedule-exceptions/${id}`, { method: 'DELETE' }),
+  importIcs: (
+    content: string,
+    params: { type: ScheduleException['type']; automationId?: string }
+  ) => {
+    const searchParams = new URLSearchParams({ type: params.type });
+    if (params.automationId) searchParams.set('automationId', params.automationId);
+    return request<{ imported: number; skipped: number; unsupportedRecurring: string[] }>(
+      `/schedule-exceptions/import?${searchParams.toString()}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/calendar' },
+        body: content,
+      }
+    );
+  },
+};
+
 // Admin API
 export interface InstanceUser {
   id: string;
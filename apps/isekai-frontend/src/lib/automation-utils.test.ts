@@ -16,7 +16,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { calculateNextRunTime, formatNextRunTime } from './automation-utils';
+import { calculateNextRunTime, formatNextRunTime, getCronPreview } from './automation-utils';
 
 describe('calculateNextRunTime', () => {
   beforeEach(() => {
@@ -196,6 +196,50 @@ describe('calculateNextRunTime', () => {
     });
   });
 
+  describe('cron rules', () => {
+    it('should calculate next run in the given timezone', () => {
+      const automation = {
+        enabled: true,
+        scheduleRules: [{ enabled: true, type: 'cron', cronExpression: '0 19 * * *' }],
+      };
+
+      const result = calculateNextRunTime(automation, 'Asia/Jakarta');
+      // 19:00 in Jakarta (UTC+7) is 12:00 UTC
+      expect(result?.toISOString()).toBe('2025-01-15T12:00:00.000Z');
+    });
+
+    it('should ignore invalid expressions', () => {
+      const automation = {
+        enabled: true,
+        scheduleRules: [{ enabled: true, type: 'cron', cronExpression: '0 99 * * *' }],
+      };
+
+      expect(calculateNextRunTime(automation, 'UTC')).toBeNull();
+    });
+  });
+
+  describe('time_window rules', () => {
+    it('should use the window opening as next run', () => {
+      const automation = {
+        enabled: true,
+        scheduleRules: [
+          {
+            enabled: true,
+            type: 'time_window',
+            windowStart: '18:00',
+            windowEnd: '23:00',
+            daysOfWeek: null,
+          },
+        ],
+      };
+
+      const result = calculateNextRunTime(automation);
+      expect(result).toBeTruthy();
+      expect(result!.getHours()).toBe(18);
+      expect(result!.getMinutes()).toBe(0);
+    });
+  });
+
   describe('multiple rules', () => {
     it('should return earliest run time from multiple rules', () => {
       const automation = {
@@ -225,6 +269,28 @@ describe('calculateNextRunTime', () => {
   });
 });
 
+describe('getCronPreview', () => {
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2025-06-01T00:00:00Z'));
+  });
+
+  it('should describe the expression and list next runs', () => {
+    const preview = getCronPreview('0 9 1,15 * *', 'UTC', 2);
+
+    expect(preview).toEqual({
+      description: 'At 09:00 on the 1st and 15th of the month',
+      nextRuns: [new Date('2025-06-01T09:00:00Z'), new Date('2025-06-15T09:00:00Z')],
+    });
+  });
+
+  it('should return the validation error for invalid expressions', () => {
+    expect(getCronPreview('0 9 * *', 'UTC')).toEqual({
+      error: expect.stringContaining('5 fields'),
+    });
+    expect(getCronPreview('0 9 30 2 *', 'UTC')).toEqual({ error: 'Cron expression never runs' });
+  });
+});
+
 describe('formatNextRunTime', () => {
   beforeEach(() => {
     vi.setSystemTime(new Date('2025-01-15T10:00:00Z'));
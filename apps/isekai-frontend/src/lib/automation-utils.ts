@@ -15,10 +15,61 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import {
+  describeCronExpression,
+  getNextCronRuns,
+  parseCronExpression,
+} from '@isekai/shared/browser';
+import { getTimezoneName } from './timezone';
+
+export interface CronPreview {
+  description: string;
+  nextRuns: Date[];
+}
+
 /**
- * Calculate the next run time for an automation based on its schedule rules
+ * Describe a cron expression and list its next runs in the given timezone.
+ * Returns the validation message instead when the expression is invalid.
  */
-export function calculateNextRunTime(automation: any): Date | null {
+export function getCronPreview(
+  expression: string,
+  timezone: string,
+  count = 3
+): CronPreview | { error: string } {
+  try {
+    const schedule = parseCronExpression(expression);
+    const nextRuns = getNextCronRuns(schedule, timezone, new Date(), count);
+    if (nextRuns.length === 0) {
+      return { error: 'Cron expression never runs' };
+    }
+    return { description: describeCronExpression(schedule), nextRuns };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid cron expression' };
+  }
+}
+
+/**
+ * Format a run time in the user's timezone, e.g. "Tue, Jun 3, 19:00"
+ */
+export function formatRunTime(date: Date, timezone: string): string {
+  return date.toLocaleString(undefined, {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Calculate the next run time for an automation based on its schedule rules.
+ * Cron rules are evaluated in `timezone` (the user's publishing timezone).
+ */
+export function calculateNextRunTime(
+  automation: any,
+  timezone: string = getTimezoneName()
+): Date | null {
   if (!automation?.enabled || !automation?.scheduleRules) {
     return null;
   }
@@ -44,6 +95,12 @@ export function calculateNextRunTime(automation: any): Date | null {
     } else if (rule.type === 'daily_quota') {
       // Daily quota runs throughout the day, estimate next run
       nextRunTime = new Date(now.getTime() + 5 * 60 * 1000); // Next cron check (5 min)
+    } else if (rule.type === 'cron' && rule.cronExpression) {
+      const preview = getCronPreview(rule.cronExpression, timezone, 1);
+      nextRunTime = 'nextRuns' in preview ? preview.nextRuns[0] : null;
+    } else if (rule.type === 'time_window' && rule.windowStart) {
+      // Slots are random, so the window opening is the earliest possible run
+      nextRunTime = calculateNextFixedTime(rule.windowStart, rule.daysOfWeek, now);
     }
 
     if (nextRunTime) {
@@ -24,6 +24,7 @@ import {
   formatJitterSeconds,
   formatScheduleDateTime,
   formatScheduleDateTimeShort,
+  formatCalendarDateRange,
 } from './timezone';
 
 describe('getTimezoneAbbreviation', () => {
@@ -165,3 +166,18 @@ describe('formatScheduleDateTimeShort', () => {
     expect(result).toContain(tz);
   });
 });
+
+describe('formatCalendarDateRange', () => {
+  it('should format a single day once', () => {
+    const result = formatCalendarDateRange('2025-12-24', '2025-12-24');
+    expect(result).toContain('2025');
+    expect(result).not.toContain('–');
+  });
+
+  it('should format both ends of a range without shifting the days', () => {
+    const result = formatCalendarDateRange('2025-12-31', '2026-01-01');
+    expect(result).toContain('31');
+    expect(result).toContain('2026');
+    expect(result).toContain('–');
+  });
+});
@@ -138,3 +138,19 @@ export function formatScheduleDateTimeShort(date: Date | string): string {
 
   return `${datePart}, ${timePart} ${tz}`;
 }
+
+/**
+ * Format a YYYY-MM-DD calendar day range (e.g., "Dec 24, 2025" or "Dec 24, 2025 – Jan 2, 2026").
+ * The days are already in the user's timezone, so no conversion happens.
+ */
+export function formatCalendarDateRange(startDate: string, endDate: string): string {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+      timeZone: 'UTC',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  return startDate === endDate ? format(startDate) : `${format(startDate)} – ${format(endDate)}`;
+}
@@ -24,6 +24,7 @@ import {
   automationScheduleRules,
   automationDefaultValues,
   pricePresets,
+  publishingPolicy,
 } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 
@@ -126,6 +127,14 @@ describe('AutomationDetail', () => {
       toasts: [],
       dismiss: vi.fn(),
     });
+    vi.mocked(publishingPolicy.get).mockResolvedValue({
+      policy: {
+        timezone: 'UTC',
+        maxPostsPerDay: null,
+        minPostGapMinutes: null,
+        quietHours: [],
+      },
+    });
   });
 
   afterEach(() => {
@@ -190,6 +199,40 @@ describe('AutomationDetail', () => {
     unmount();
   });
 
+  it('should describe cron rules and show the next run', async () => {
+    vi.useFakeTimers({ now: new Date('2025-06-01T00:00:00Z'), toFake: ['Date'] });
+    vi.mocked(automations.get).mockResolvedValue({ automation: mockAutomation });
+    vi.mocked(automationScheduleRules.list).mockResolvedValue({
+      rules: [
+        {
+          id: 'rule2',
+          type: 'cron',
+          cronExpression: '0 9 1,15 * *',
+          enabled: true,
+          priority: 0,
+          daysOfWeek: null,
+        },
+      ],
+    });
+    vi.mocked(automationDefaultValues.list).mockResolvedValue({ values: [] });
+    vi.mocked(pricePresets.list).mockResolvedValue({ presets: mockPresets });
+    vi.mocked(automations.getLogs).mockResolvedValue({ logs: [] });
+
+    const { unmount } = render(<AutomationDetail />);
+
+    await waitFor(
+      () => {
+        expect(screen.getByText('At 09:00 on the 1st and 15th of the month')).toBeInTheDocument();
+      },
+      { timeout: 3000 }
+    );
+
+    expect(screen.getByText('0 9 1,15 * *')).toBeInTheDocument();
+    expect(screen.getByText(/Next:/)).toBeInTheDocument();
+    vi.useRealTimers();
+    unmount();
+  });
+
   it('should display schedule rules', async () => {
     vi.mocked(automations.get).mockResolvedValue({ automation: mockAutomation });
     vi.mocked(automationScheduleRules.list).mockResolvedValue({ rules: mockRules });
@@ -18,6 +18,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useDebouncedCallback } from 'use-debounce';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -57,9 +58,16 @@ import {
   automationScheduleRules,
   automationDefaultValues,
   pricePresets,
+  publishingPolicy,
 } from '@/lib/api';
+import { getCronPreview, formatRunTime } from '@/lib/automation-utils';
+import { getTimezoneName } from '@/lib/timezone';
 import { DefaultValuesList } from '@/components/DefaultValuesList';
 import { AddDefaultValueDialog } from '@/components/AddDefaultValueDialog';
+import { AutomationForecastCard } from '@/components/AutomationForecastCard';
+import { AutomationDraftPoolCard } from '@/components/AutomationDraftPoolCard';
+import { ScheduleCalendarCard } from '@/components/ScheduleCalendarCard';
+import { POOL_EMPTY_PAUSE_REASON } from '@isekai/shared/browser';
 import {
   ChevronLeft,
   Plus,
@@ -69,7 +77,9 @@ import {
   Info,
   Clock,
   Calendar,
+  CalendarClock,
   Repeat,
+  Shuffle,
   Target,
   Check,
   X,
@@ -105,19 +115,39 @@ export function AutomationDetail() {
   // Confirmation dialog states
   const [ruleToDelete, setRuleToDelete] = useState<string | null>(null);
   const [defaultToDelete, setDefaultToDelete] = useState<string | null>(null);
-  const [ruleType, setRuleType] = useState<'fixed_time' | 'fixed_interval' | 'daily_quota'>(
-    'fixed_time'
-  );
+  const [ruleType, setRuleType] = useState<
+    'fixed_time' | 'fixed_interval' | 'daily_quota' | 'cron' | 'time_window'
+  >('fixed_time');
   const [ruleData, setRuleData] = useState({
     timeOfDay: '09:00',
+    missedTriggerPolicy: 'skip',
     intervalMinutes: 360,
     deviationsPerInterval: 1,
     dailyQuota: 3,
+    quotaDistribution: 'asap',
+    activeHoursStart: '09:00',
+    activeHoursEnd: '21:00',
+    quotaMinGapMinutes: 60,
+    quotaCatchUp: true,
+    cronExpression: '0 9 * * *',
+    windowStart: '18:00',
+    windowEnd: '23:00',
+    windowPostCount: 3,
+    windowMinGapMinutes: 30,
     daysOfWeek: [] as string[],
     priority: 0,
     enabled: true,
   });
 
+  // Cron rules run in the user's publishing timezone
+  const { data: policyData } = useQuery({
+    queryKey: ['publishing-policy'],
+    queryFn: () => publishingPolicy.get(),
+  });
+  const userTimezone = policyData?.policy.timezone || getTimezoneName();
+  const cronPreview =
+    ruleType === 'cron' ? getCronPreview(ruleData.cronExpression, userTimezone) : null;
+
   // Local state for jitter inputs
   const [localJitterMin, setLocalJitterMin] = useState<number | string>('');
   const [localJitterMax, setLocalJitterMax] = useState<number | string>('');
@@ -303,9 +333,20 @@ export function AutomationDetail() {
       setRuleType(rule.type);
       setRuleData({
         timeOfDay: rule.timeOfDay || '09:00',
+        missedTriggerPolicy: rule.missedTriggerPolicy || 'skip',
         intervalMinutes: rule.intervalMinutes || 360,
         deviationsPerInterval: rule.deviationsPerInterval || 1,
         dailyQuota: rule.dailyQuota || 3,
+        quotaDistribution: rule.quotaDistribution || 'asap',
+        activeHoursStart: rule.activeHoursStart || '09:00',
+        activeHoursEnd: rule.activeHoursEnd || '21:00',
+        quotaMinGapMinutes: rule.quotaMinGapMinutes ?? 60,
+        quotaCatchUp: rule.quotaCatchUp !== false,
+        cronExpression: rule.cronExpression || '0 9 * * *',
+        windowStart: rule.windowStart || '18:00',
+        windowEnd: rule.windowEnd || '23:00',
+        windowPostCount: rule.windowPostCount || 3,
+        windowMinGapMinutes: rule.windowMinGapMinutes ?? 30,
         daysOfWeek: rule.daysOfWeek || [],
         priority: rule.priority || 0,
         enabled: rule.enabled !== false,
@@ -315,9 +356,20 @@ export function AutomationDetail() {
       setRuleType('fixed_time');
       setRuleData({
         timeOfDay: '09:00',
+        missedTriggerPolicy: 'skip',
         intervalMinutes: 360,
         deviationsPerInterval: 1,
         dailyQuota: 3,
+        quotaDistribution: 'asap',
+        activeHoursStart: '09:00',
+        activeHoursEnd: '21:00',
+        quotaMinGapMinutes: 60,
+        quotaCatchUp: true,
+        cronExpression: '0 9 * * *',
+        windowStart: '18:00',
+        windowEnd: '23:00',
+        windowPostCount: 3,
+        windowMinGapMinutes: 30,
         daysOfWeek: [],
         priority: 0,
         enabled: true,
@@ -340,11 +392,26 @@ export function AutomationDetail() {
 
       if (ruleType === 'fixed_time') {
         payload.timeOfDay = ruleData.timeOfDay;
+        payload.missedTriggerPolicy = ruleData.missedTriggerPolicy;
       } else if (ruleType === 'fixed_interval') {
         payload.intervalMinutes = ruleData.intervalMinutes;
         payload.deviationsPerInterval = ruleData.deviationsPerInterval;
       } else if (ruleType === 'daily_quota') {
         payload.dailyQuota = ruleData.dailyQuota;
+        payload.quotaDistribution = ruleData.quotaDistribution;
+        if (ruleData.quotaDistribution !== 'asap') {
+          payload.activeHoursStart = ruleData.activeHoursStart;
+          payload.activeHoursEnd = ruleData.activeHoursEnd;
+          payload.quotaMinGapMinutes = ruleData.quotaMinGapMinutes;
+          payload.quotaCatchUp = ruleData.quotaCatchUp;
+        }
+      } else if (ruleType === 'cron') {
+        payload.cronExpression = ruleData.cronExpression;
+      } else if (ruleType === 'time_window') {
+        payload.windowStart = ruleData.windowStart;
+        payload.windowEnd = ruleData.windowEnd;
+        payload.windowPostCount = ruleData.windowPostCount;
+        payload.windowMinGapMinutes = ruleData.windowMinGapMinutes;
       }
 
       if (editingRule) {
@@ -454,6 +521,10 @@ export function AutomationDetail() {
         return Repeat;
       case 'daily_quota':
         return Target;
+      case 'cron':
+        return CalendarClock;
+      case 'time_window':
+        return Shuffle;
       default:
         return Calendar;
     }
@@ -466,12 +537,29 @@ export function AutomationDetail() {
       case 'fixed_interval':
         return `Post ${rule.deviationsPerInterval} every ${rule.intervalMinutes} minutes`;
       case 'daily_quota':
+        if (rule.quotaDistribution === 'even' || rule.quotaDistribution === 'random') {
+          const spread = rule.quotaDistribution === 'even' ? 'evenly' : 'at random times';
+          return `Post ${rule.dailyQuota} times per day, ${spread} between ${rule.activeHoursStart} and ${rule.activeHoursEnd}`;
+        }
         return `Post ${rule.dailyQuota} times per day`;
+      case 'cron': {
+        const preview = getCronPreview(rule.cronExpression, userTimezone, 1);
+        return 'description' in preview ? preview.description : `Cron: ${rule.cronExpression}`;
+      }
+      case 'time_window':
+        return `Post ${rule.windowPostCount} at random times between ${rule.windowStart} and ${rule.windowEnd}`;
       default:
         return 'Custom schedule';
     }
   };
 
+  const getNextCronRunLabel = (rule: any) => {
+    const preview = getCronPreview(rule.cronExpression, userTimezone, 1);
+    return 'nextRuns' in preview
+      ? ` · Next: ${formatRunTime(preview.nextRuns[0], userTimezone)}`
+      : '';
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -582,6 +670,11 @@ export function AutomationDetail() {
             <Badge variant={automation.enabled ? 'default' : 'secondary'} className="shrink-0">
               {automation.enabled ? 'Active' : 'Inactive'}
             </Badge>
+            {!automation.enabled && automation.pausedReason === POOL_EMPTY_PAUSE_REASON && (
+              <Badge variant="destructive" className="shrink-0">
+                Paused: out of drafts
+              </Badge>
+            )}
           </div>
           {automation.description && (
             <p className="text-lg text-muted-foreground">{automation.description}</p>
@@ -654,6 +747,17 @@ export function AutomationDetail() {
                               </Badge>
                             )}
                           </div>
+                          {rule.type === 'time_window' && (
+                            <p className="text-sm text-muted-foreground">
+                              At least {rule.windowMinGapMinutes} minutes apart
+                            </p>
+                          )}
+                          {rule.type === 'cron' && (
+                            <p className="text-sm text-muted-foreground">
+                              <code className="font-mono">{rule.cronExpression}</code>
+                              {getNextCronRunLabel(rule)}
+                            </p>
+                          )}
                           {rule.daysOfWeek && rule.daysOfWeek.length > 0 && (
                             <p className="text-sm text-muted-foreground">
                               {rule.daysOfWeek
@@ -707,6 +811,28 @@ export function AutomationDetail() {
               />
             </CardContent>
           </Card>
+
+          {/* Draft Pool */}
+          <AutomationDraftPoolCard
+            automationId={automation.id}
+            draftFilter={automation.draftFilter ?? null}
+            lowPoolThreshold={automation.lowPoolThreshold ?? null}
+            pauseWhenPoolEmpty={automation.pauseWhenPoolEmpty ?? false}
+            onUpdate={updateSettings}
+          />
+
+          {/* Calendar */}
+          <ScheduleCalendarCard automationId={automation.id} />
+
+          {/* Forecast */}
+          <AutomationForecastCard
+            automationId={automation.id}
+            refreshKey={[
+              automation.updatedAt,
+              ...rules.map((rule) => `${rule.id}:${rule.updatedAt}`),
+              ...defaultValues.map((value) => `${value.id}:${value.updatedAt}`),
+            ].join('|')}
+          />
         </div>
 
         {/* Right Column - Sidebar */}
@@ -895,19 +1021,44 @@ export function AutomationDetail() {
                   <SelectItem value="fixed_time">Post at specific time</SelectItem>
                   <SelectItem value="fixed_interval">Post every X minutes</SelectItem>
                   <SelectItem value="daily_quota">Posts per day</SelectItem>
+                  <SelectItem value="time_window">Random times in a window</SelectItem>
+                  <SelectItem value="cron">Custom schedule (cron)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             {ruleType === 'fixed_time' && (
-              <div className="space-y-2">
-                <Label>Time of Day</Label>
-                <Input
-                  type="time"
-                  value={ruleData.timeOfDay}
-                  onChange={(e) => setRuleData({ ...ruleData, timeOfDay: e.target.value })}
-                />
-              </div>
+              <>
+                <div className="space-y-2">
+                  <Label>Time of Day</Label>
+                  <Input
+                    type="time"
+                    value={ruleData.timeOfDay}
+                    onChange={(e) => setRuleData({ ...ruleData, timeOfDay: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Missed time</Label>
+                  <Select
+                    value={ruleData.missedTriggerPolicy}
+                    onValueChange={(value) =>
+                      setRuleData({ ...ruleData, missedTriggerPolicy: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Skip it and log it</SelectItem>
+                      <SelectItem value="fire_late">Post late</SelectItem>
+                      <SelectItem value="next_slot">Add the post to the next time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    If publishing was down at {ruleData.timeOfDay} ({userTimezone}).
+                  </p>
+                </div>
+              </>
             )}
 
             {ruleType === 'fixed_interval' && (
@@ -940,17 +1091,190 @@ export function AutomationDetail() {
             )}
 
             {ruleType === 'daily_quota' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Posts per day</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={ruleData.dailyQuota}
+                    onChange={(e) =>
+                      setRuleData({ ...ruleData, dailyQuota: parseInt(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Distribution</Label>
+                  <Select
+                    value={ruleData.quotaDistribution}
+                    onValueChange={(value) =>
+                      setRuleData({ ...ruleData, quotaDistribution: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="asap">As soon as possible</SelectItem>
+                      <SelectItem value="even">Evenly across active hours</SelectItem>
+                      <SelectItem value="random">Randomly across active hours</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {ruleData.quotaDistribution !== 'asap' && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="active-hours-start">Active from</Label>
+                        <Input
+                          id="active-hours-start"
+                          type="time"
+                          value={ruleData.activeHoursStart}
+                          onChange={(e) =>
+                            setRuleData({ ...ruleData, activeHoursStart: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="active-hours-end">Until</Label>
+                        <Input
+                          id="active-hours-end"
+                          type="time"
+                          value={ruleData.activeHoursEnd}
+                          onChange={(e) =>
+                            setRuleData({ ...ruleData, activeHoursEnd: e.target.value })
+                          }
+                        />
+                      </div>
+                    </div>
+                    {ruleData.quotaDistribution === 'random' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="quota-min-gap">Minimum gap (minutes)</Label>
+                        <Input
+                          id="quota-min-gap"
+                          type="number"
+                          min={0}
+                          max={720}
+                          value={ruleData.quotaMinGapMinutes}
+                          onChange={(e) =>
+                            setRuleData({
+                              ...ruleData,
+                              quotaMinGapMinutes: parseInt(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Missed posts</Label>
+                      <Select
+                        value={ruleData.quotaCatchUp ? 'catch_up' : 'skip'}
+                        onValueChange={(value) =>
+                          setRuleData({ ...ruleData, quotaCatchUp: value === 'catch_up' })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="catch_up">
+                            Catch up before the active hours end
+                          </SelectItem>
+                          <SelectItem value="skip">Skip them</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        If publishing was down when a post was due. Times are in {userTimezone}.
+                      </p>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+
+            {ruleType === 'time_window' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="window-start">From</Label>
+                    <Input
+                      id="window-start"
+                      type="time"
+                      value={ruleData.windowStart}
+                      onChange={(e) => setRuleData({ ...ruleData, windowStart: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="window-end">Until</Label>
+                    <Input
+                      id="window-end"
+                      type="time"
+                      value={ruleData.windowEnd}
+                      onChange={(e) => setRuleData({ ...ruleData, windowEnd: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="window-post-count">Posts per day</Label>
+                  <Input
+                    id="window-post-count"
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={ruleData.windowPostCount}
+                    onChange={(e) =>
+                      setRuleData({ ...ruleData, windowPostCount: parseInt(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="window-min-gap">Minimum gap (minutes)</Label>
+                  <Input
+                    id="window-min-gap"
+                    type="number"
+                    min={0}
+                    max={720}
+                    value={ruleData.windowMinGapMinutes}
+                    onChange={(e) =>
+                      setRuleData({ ...ruleData, windowMinGapMinutes: parseInt(e.target.value) })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Times are picked at random each day in {userTimezone}
+                  </p>
+                </div>
+              </>
+            )}
+
+            {ruleType === 'cron' && (
               <div className="space-y-2">
-                <Label>Posts per day</Label>
+                <Label htmlFor="cron-expression">Cron Expression</Label>
                 <Input
-                  type="number"
-                  min={1}
-                  max={100}
-                  value={ruleData.dailyQuota}
-                  onChange={(e) =>
-                    setRuleData({ ...ruleData, dailyQuota: parseInt(e.target.value) })
-                  }
+                  id="cron-expression"
+                  className="font-mono"
+                  placeholder="0 19 * * 2#1,2#3"
+                  value={ruleData.cronExpression}
+                  onChange={(e) => setRuleData({ ...ruleData, cronExpression: e.target.value })}
                 />
+                <p className="text-xs text-muted-foreground">
+                  minute hour day-of-month month day-of-week. Use <code>2#1,2#3</code> for the 1st
+                  and 3rd Tuesday.
+                </p>
+                {cronPreview &&
+                  ('error' in cronPreview ? (
+                    <p className="text-sm text-destructive">{cronPreview.error}</p>
+                  ) : (
+                    <div className="rounded-md border p-3 text-sm space-y-1">
+                      <p className="font-medium">{cronPreview.description}</p>
+                      <p className="text-muted-foreground">Next runs ({userTimezone}):</p>
+                      <ul className="text-muted-foreground list-disc pl-5">
+                        {cronPreview.nextRuns.map((run) => (
+                          <li key={run.toISOString()}>{formatRunTime(run, userTimezone)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
               </div>
             )}
 
@@ -991,7 +1315,10 @@ export function AutomationDetail() {
             >
               Cancel
             </Button>
-            <Button onClick={saveRule} disabled={isSavingRule}>
+            <Button
+              onClick={saveRule}
+              disabled={isSavingRule || (cronPreview !== null && 'error' in cronPreview)}
+            >
               {isSavingRule ? 'Saving...' : editingRule ? 'Update' : 'Create'}
             </Button>
           </DialogFooter>
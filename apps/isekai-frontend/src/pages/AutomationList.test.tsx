@@ -258,7 +258,7 @@ describe('AutomationList', () => {
     vi.mocked(automations.list)
       .mockResolvedValueOnce({ automations: mockAutomations })
       .mockResolvedValueOnce({ automations: [...mockAutomations, duplicatedAutomation] });
-    vi.mocked(automations.create).mockResolvedValue({ automation: duplicatedAutomation });
+    vi.mocked(automations.duplicate).mockResolvedValue({ automation: duplicatedAutomation });
 
     render(<AutomationList />);
 
@@ -271,14 +271,7 @@ describe('AutomationList', () => {
     await user.click(duplicateButtons[0]);
 
     await waitFor(() => {
-      expect(automations.create).toHaveBeenCalledWith({
-        name: 'Daily Posts (Copy)',
-        description: 'Post daily at 9 AM',
-        draftSelectionMethod: 'fifo',
-        stashOnlyByDefault: false,
-        jitterMinSeconds: 0,
-        jitterMaxSeconds: 300,
-      });
+      expect(automations.duplicate).toHaveBeenCalledWith('auto1');
     });
 
     expect(mockToast).toHaveBeenCalledWith({
@@ -290,7 +283,7 @@ describe('AutomationList', () => {
   it('should show error toast when duplicate fails', async () => {
     const user = userEvent.setup();
     vi.mocked(automations.list).mockResolvedValue({ automations: mockAutomations });
-    vi.mocked(automations.create).mockRejectedValue(new Error('Failed to duplicate'));
+    vi.mocked(automations.duplicate).mockRejectedValue(new Error('Failed to duplicate'));
 
     render(<AutomationList />);
 
@@ -15,7 +15,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,7 +24,17 @@ import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { automations } from '@/lib/api';
 import { CreateAutomationDialog } from '@/components/CreateAutomationDialog';
-import { Plus, Clock, Calendar, ChevronRight, Copy, Trash2, Zap } from 'lucide-react';
+import {
+  Plus,
+  Clock,
+  Calendar,
+  ChevronRight,
+  Copy,
+  Download,
+  Trash2,
+  Upload,
+  Zap,
+} from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -51,6 +61,8 @@ export function AutomationList() {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [deletingAutomation, setDeletingAutomation] = useState<any>(null);
   const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadAutomations();
@@ -130,14 +142,8 @@ export function AutomationList() {
 
   const handleDuplicate = async (automation: any) => {
     try {
-      await automations.create({
-        name: `${automation.name} (Copy)`,
-        description: automation.description,
-        draftSelectionMethod: automation.draftSelectionMethod,
-        stashOnlyByDefault: automation.stashOnlyByDefault,
-        jitterMinSeconds: automation.jitterMinSeconds,
-        jitterMaxSeconds: automation.jitterMaxSeconds,
-      });
+      // Copies the rules and default values too, the copy starts disabled
+      await automations.duplicate(automation.id);
 
       toast({
         title: 'Success',
@@ -154,6 +160,54 @@ export function AutomationList() {
     }
   };
 
+  const handleExport = async (automation: any) => {
+    try {
+      const bundle = await automations.exportBundle(automation.id);
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+      );
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${automation.name.replace(/[^\w-]+/g, '-').toLowerCase()}.automation.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to export workflow',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      let bundle;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Not a workflow export file');
+      }
+      const { automation } = await automations.importBundle(bundle);
+
+      toast({
+        title: 'Success',
+        description: `${automation.name} imported. Review it, then enable it.`,
+      });
+
+      loadAutomations();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to import workflow',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!deletingAutomation) return;
 
@@ -210,10 +264,28 @@ export function AutomationList() {
             Automate your DeviantArt publishing schedule
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Workflow
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={importing}>
+            <Upload className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            data-testid="automation-file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Workflow
+          </Button>
+        </div>
       </div>
 
       {/* Automations List */}
@@ -314,6 +386,10 @@ export function AutomationList() {
                           <Copy className="h-4 w-4 mr-2" />
                           Duplicate
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExport(automation)}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => setDeletingAutomation(automation)}
                           className="text-destructive focus:text-destructive"
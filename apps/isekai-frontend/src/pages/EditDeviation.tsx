@@ -48,6 +48,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { PageWrapper, PageContent } from '@/components/ui/page-wrapper';
+import { PostPublishActionsCard } from '@/components/PostPublishActionsCard';
 
 export function EditDeviation() {
   const { id } = useParams<{ id: string }>();
@@ -66,6 +67,13 @@ export function EditDeviation() {
     enabled: !!id,
   });
 
+  // Pre-publish checks, refreshed whenever the deviation changes
+  const { data: validation } = useQuery({
+    queryKey: ['deviation-validation', id, deviation?.updatedAt],
+    queryFn: () => deviations.validate(id!),
+    enabled: !!id && (deviation?.status === 'draft' || deviation?.status === 'failed'),
+  });
+
   useEffect(() => {
     if (deviation) {
       setTitle(deviation.title);
@@ -335,6 +343,27 @@ export function EditDeviation() {
                 <CardDescription>Manage your deviation</CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
+                {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+                  <div className="space-y-2">
+                    {validation.errors.map((issue) => (
+                      <p
+                        key={`${issue.code}-${issue.message}`}
+                        className="text-sm text-red-700 dark:text-red-300"
+                      >
+                        {issue.message}
+                      </p>
+                    ))}
+                    {validation.warnings.map((issue) => (
+                      <p
+                        key={`${issue.code}-${issue.message}`}
+                        className="text-sm text-amber-700 dark:text-amber-300"
+                      >
+                        {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 {canSchedule && (
                   <Button onClick={handleSchedule} className="w-full" size="lg">
                     <Calendar className="h-5 w-5 mr-2" />
@@ -409,6 +438,10 @@ export function EditDeviation() {
                 </AlertDialog>
               </CardContent>
             </Card>
+
+            {deviation.status === 'published' && (
+              <PostPublishActionsCard deviationId={deviation.id} />
+            )}
           </div>
 
           {/* Schedule Dialog */}
@@ -17,7 +17,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { thumb, ImageSize } from '@/lib/image';
 import {
@@ -31,6 +31,8 @@ import {
   Check,
   FileImage,
   Loader2,
+  CalendarOff,
+  CalendarPlus,
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -61,7 +63,8 @@ import {
 } from '@/components/ui/alert-dialog';
 import { GallerySelector } from '@/components/GallerySelector';
 import { TagTemplateSelector, DescriptionTemplateSelector } from '@/components/TemplateSelector';
-import { deviations } from '@/lib/api';
+import { deviations, scheduleExceptions } from '@/lib/api';
+import { formatCalendarDateRange } from '@/lib/timezone';
 import { toast } from '@/hooks/use-toast';
 import type { Deviation } from '@isekai/shared';
 
@@ -72,6 +75,13 @@ export function Scheduled() {
   const queryClient = useQueryClient();
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
+  // Upcoming blackout and extra days of all automations
+  const { data: calendarData } = useQuery({
+    queryKey: ['schedule-exceptions', 'all'],
+    queryFn: () => scheduleExceptions.list(),
+  });
+  const upcomingExceptions = (calendarData?.exceptions ?? []).slice(0, 5);
+
   // Selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
@@ -618,6 +628,30 @@ export function Scheduled() {
         </CardContent>
       </Card>
 
+      {/* Calendar exceptions */}
+      {upcomingExceptions.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-sm flex-shrink-0">
+          {upcomingExceptions.map((exception) => (
+            <Badge
+              key={exception.id}
+              variant={exception.type === 'blackout' ? 'secondary' : 'outline'}
+              className="gap-1 font-normal"
+              title={exception.automationId ? 'One automation' : 'All automations'}
+            >
+              {exception.type === 'blackout' ? (
+                <CalendarOff className="h-3 w-3" />
+              ) : (
+                <CalendarPlus className="h-3 w-3" />
+              )}
+              {exception.type === 'blackout' ? 'No posts' : 'Extra day'}{' '}
+              {formatCalendarDateRange(exception.startDate, exception.endDate)}
+              {exception.label && ` · ${exception.label}`}
+              {exception.automationId && ' (one automation)'}
+            </Badge>
+          ))}
+        </div>
+      )}
+
       {/* Table */}
       <Card className="flex-1 flex flex-col min-h-0 rounded-lg overflow-hidden">
         <CardContent className="p-0 flex-1 flex flex-col min-h-0">
@@ -44,8 +44,14 @@ import {
   HardDrive,
   Settings as SettingsIcon,
   User,
+  Webhook,
+  CalendarClock,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { WebhooksCard } from '@/components/WebhooksCard';
+import { LinkedAccountsCard } from '@/components/LinkedAccountsCard';
+import { PublishingPolicyCard } from '@/components/PublishingPolicyCard';
+import { ScheduleCalendarCard } from '@/components/ScheduleCalendarCard';
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
@@ -55,10 +61,12 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-type SettingsTab = 'account' | 'instance' | 'team';
+type SettingsTab = 'account' | 'publishing' | 'webhooks' | 'instance' | 'team';
 
 const tabs = [
   { id: 'account' as const, label: 'Account', icon: User },
+  { id: 'publishing' as const, label: 'Publishing', icon: CalendarClock },
+  { id: 'webhooks' as const, label: 'Webhooks', icon: Webhook },
   { id: 'instance' as const, label: 'Instance', icon: Server, adminOnly: true },
   { id: 'team' as const, label: 'Team', icon: Users, adminOnly: true },
 ];
@@ -222,45 +230,57 @@ export function Settings() {
         {/* Main Content */}
         <div className="flex-1 min-w-0 overflow-auto">
           {tab === 'account' && (
-            <Card className="rounded-lg border-border/50">
-              <CardHeader>
-                <CardTitle>Connected Account</CardTitle>
-                <CardDescription>Your connected DeviantArt account</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center gap-6">
-                  {user?.avatarUrl ? (
-                    <img
-                      src={user.avatarUrl}
-                      alt={user.username}
-                      className="h-20 w-20 rounded-full ring-2 ring-primary/20"
-                    />
-                  ) : (
-                    <div className="h-20 w-20 rounded-full bg-primary/10 flex items-center justify-center ring-2 ring-primary/20">
-                      <span className="text-3xl font-medium text-primary">
-                        {user?.username?.[0]?.toUpperCase()}
-                      </span>
-                    </div>
-                  )}
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2">
-                      <p className="text-2xl font-bold">{user?.username}</p>
-                      {isAdmin && (
-                        <Badge className="bg-primary/10 text-primary border-primary/20">
-                          Admin
-                        </Badge>
-                      )}
+            <div className="space-y-6">
+              <Card className="rounded-lg border-border/50">
+                <CardHeader>
+                  <CardTitle>Connected Account</CardTitle>
+                  <CardDescription>Your connected DeviantArt account</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-6">
+                    {user?.avatarUrl ? (
+                      <img
+                        src={user.avatarUrl}
+                        alt={user.username}
+                        className="h-20 w-20 rounded-full ring-2 ring-primary/20"
+                      />
+                    ) : (
+                      <div className="h-20 w-20 rounded-full bg-primary/10 flex items-center justify-center ring-2 ring-primary/20">
+                        <span className="text-3xl font-medium text-primary">
+                          {user?.username?.[0]?.toUpperCase()}
+                        </span>
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <p className="text-2xl font-bold">{user?.username}</p>
+                        {isAdmin && (
+                          <Badge className="bg-primary/10 text-primary border-primary/20">
+                            Admin
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        DeviantArt ID: {user?.deviantartId}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{user?.email}</p>
                     </div>
-                    <p className="text-sm text-muted-foreground">
-                      DeviantArt ID: {user?.deviantartId}
-                    </p>
-                    <p className="text-sm text-muted-foreground">{user?.email}</p>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+              <LinkedAccountsCard />
+            </div>
           )}
 
+          {tab === 'publishing' && (
+            <div className="space-y-6">
+              <PublishingPolicyCard />
+              <ScheduleCalendarCard />
+            </div>
+          )}
+
+          {tab === 'webhooks' && <WebhooksCard />}
+
           {tab === 'instance' && isAdmin && (
             <div className="space-y-6">
               {/* Instance Info */}
@@ -16,13 +16,15 @@
  */
 
 import { create } from 'zustand';
-import type { User } from '@isekai/shared';
+import type { User, LinkedAccount } from '@isekai/shared';
 import { auth } from '@/lib/api';
 
-// Extended user type with instance role
+// Extended user type with instance role and linked DeviantArt accounts
 interface ExtendedUser extends User {
   instanceRole?: 'admin' | 'member';
   isAdmin?: boolean;
+  accountId?: string;
+  linkedAccounts?: LinkedAccount[];
 }
 
 interface AuthState {
@@ -17,14 +17,31 @@
 import '@isekai/shared'; // Load config from root .env (single source of truth)
 import './lib/env.js'; // Validate environment variables before anything else
 import express from 'express';
-import { deviationPublisherWorker } from './queues/deviation-publisher.js';
+import {
+  deviationPublisherQueue,
+  deviationPublisherWorker,
+  metricsCollector,
+} from './queues/deviation-publisher.js';
+import { deviationCommentWorker } from './queues/deviation-comment.js';
+import { postPublishActionWorker } from './queues/post-publish-actions.js';
+import { webhookDeliveryWorker } from './queues/webhook-delivery.js';
 import { tokenMaintenanceWorker, scheduleTokenMaintenance } from './queues/token-maintenance.js';
 import { RedisClientManager } from './lib/redis-client.js';
+import { CircuitBreaker } from './lib/circuit-breaker.js';
 import { startStuckJobRecovery } from './jobs/stuck-job-recovery.js';
 import { startPastDueRecovery } from './jobs/past-due-recovery.js';
 import { startLockCleanup } from './jobs/lock-cleanup.js';
+import { startIdempotencyKeyCleanup } from './jobs/idempotency-key-cleanup.js';
 import { startAutoScheduler } from './jobs/auto-scheduler.js';
 import { env } from './lib/env.js';
+import {
+  PublishPriority,
+  TURNS_PER_LANE,
+  getJobPriority,
+  getPublishLane,
+  DeviantArtQuota,
+  formatDeviantArtQuotaPrometheus,
+} from '@isekai/shared';
 
 const HEALTH_CHECK_PORT = env.HEALTH_CHECK_PORT;
 const HEALTH_CHECK_ENABLED = env.HEALTH_CHECK_ENABLED;
@@ -98,6 +115,27 @@ async function startHealthCheckServer() {
       // Active jobs count not available via Worker API
       const activeJobsCount = 0;
 
+      // Jobs waiting to run, per priority lane (summed over the users' turns)
+      const priorities = Object.values(PublishPriority).flatMap((lane) => [
+        lane,
+        ...Array.from({ length: TURNS_PER_LANE }, (_, turn) => getJobPriority(lane, turn)),
+      ]);
+      const waitingByPriority = await deviationPublisherQueue.getCountsPerPriority(priorities);
+      const waitingCounts = new Map<string, number>(
+        Object.values(PublishPriority).map((lane) => [getPublishLane(lane), 0])
+      );
+      for (const [priority, count] of Object.entries(waitingByPriority)) {
+        const lane = getPublishLane(Number(priority));
+        waitingCounts.set(lane, (waitingCounts.get(lane) ?? 0) + count);
+      }
+      const waitingByLane = [...waitingCounts]
+        .map(([lane, count]) => `publisher_queue_waiting{lane="${lane}"} ${count}`)
+        .join('\n');
+
+      // App-wide DeviantArt quota shared with the backend
+      const quota = new DeviantArtQuota(await RedisClientManager.getClient());
+      const quotaStatus = await quota.getStatus();
+
       res.set('Content-Type', 'text/plain');
       res.send(
         `
@@ -105,9 +143,16 @@ async function startHealthCheckServer() {
 # TYPE publisher_active_jobs gauge
 publisher_active_jobs ${activeJobsCount}
 
+# HELP publisher_queue_waiting Deviation publish jobs waiting to run per priority lane
+# TYPE publisher_queue_waiting gauge
+${waitingByLane}
+
 # HELP publisher_uptime_seconds Uptime of the publisher service in seconds
 # TYPE publisher_uptime_seconds counter
 publisher_uptime_seconds ${Math.floor(process.uptime())}
+
+${metricsCollector.exportPrometheusFormat()}
+${formatDeviantArtQuotaPrometheus(quotaStatus)}
 `.trim()
       );
     } catch (error: any) {
@@ -129,6 +174,9 @@ async function gracefulShutdown(signal: string) {
     // Pause workers to stop accepting new jobs
     console.log('[Publisher] Pausing workers...');
     await deviationPublisherWorker.pause();
+    await deviationCommentWorker.pause();
+    await postPublishActionWorker.pause();
+    await webhookDeliveryWorker.pause();
     await tokenMaintenanceWorker.pause();
 
     // Wait for active jobs to complete (with timeout)
@@ -138,10 +186,14 @@ async function gracefulShutdown(signal: string) {
     // Close workers
     console.log('[Publisher] Closing workers...');
     await deviationPublisherWorker.close();
+    await deviationCommentWorker.close();
+    await postPublishActionWorker.close();
+    await webhookDeliveryWorker.close();
     await tokenMaintenanceWorker.close();
 
     // Close Redis connection
     console.log('[Publisher] Closing Redis connection...');
+    await CircuitBreaker.close();
     await RedisClientManager.close();
 
     // Close health check server
@@ -194,6 +246,7 @@ async function startPublisher() {
     startStuckJobRecovery();
     startPastDueRecovery();
     startLockCleanup();
+    startIdempotencyKeyCleanup();
     startAutoScheduler();
 
     console.log(`Publisher ready (${env.NODE_ENV})`);
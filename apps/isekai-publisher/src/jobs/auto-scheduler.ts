@@ -1,13 +1,35 @@
 import cron from 'node-cron';
-import * as dateFnsTz from 'date-fns-tz';
 import {
   prisma,
   Automation,
   AutomationScheduleRule,
   AutomationDefaultValue,
   Deviation,
+  Prisma,
 } from '../db/index.js';
 import { scheduleDeviation } from '../queues/deviation-publisher.js';
+import { emitWebhookEvent } from '../queues/webhook-delivery.js';
+import { sendAutomationPoolAlertEmail } from '../lib/email-service.js';
+import {
+  recordDeviationEvent,
+  validateDeviationForPublish,
+  formatValidationErrors,
+  resolvePublishSlot,
+  PublishPriority,
+  evaluateScheduleRules,
+  startOfLocalDay,
+  calculateScheduleCount,
+  applyAutomationDefaults,
+  shuffle,
+  MAX_SELECTION_ROUNDS,
+  buildDraftPoolWhere,
+  getDraftPoolAlert,
+  POOL_EMPTY_PAUSE_REASON,
+  addCalendarDays,
+  toCalendarDate,
+  type AutomationExecutionTrace,
+  type RuleRunHistory,
+} from '@isekai/shared';
 
 /**
  * Auto-Scheduler System
@@ -16,18 +38,38 @@ import { scheduleDeviation } from '../queues/deviation-publisher.js';
  * Runs every 5 minutes to check for automations that should trigger.
  *
  * Features:
- * - Multiple scheduling patterns (fixed_time, fixed_interval, daily_quota)
- * - Draft selection methods (random, FIFO, LIFO)
+ * - Multiple scheduling patterns (fixed_time, fixed_interval, daily_quota, cron, time_window)
+ * - Draft selection methods (random, FIFO, LIFO) from the automation's draft pool
  * - Default value application
- * - Execution logging for debugging
+ * - Low draft pool warnings and pausing once the pool is empty
+ * - Blackout and extra posting days from the user's and the automation's calendars
+ * - Execution logging with a per-run trace (rules, candidates, per-draft results) for debugging
+ */
+
+/**
+ * Rule that triggered this run. time_window rules carry the publish times planned for today.
+ */
+type TriggeredRule = AutomationScheduleRule & { plannedSlots?: Date[] };
+
+type TracedDraft = AutomationExecutionTrace['drafts'][number];
+
+/**
+ * Draft refused by pre-publish validation (released, so another candidate can take its place)
  */
+class DraftValidationError extends Error {}
 
 interface AutomationWithRelations extends Automation {
   scheduleRules: AutomationScheduleRule[];
   defaultValues: AutomationDefaultValue[];
+  _count?: { draftCollection: number };
   user: {
     id: string;
+    username: string;
+    email: string | null;
     timezone: string;
+    maxPostsPerDay: number | null;
+    minPostGapMinutes: number | null;
+    quietHours: unknown;
   };
 }
 
@@ -45,7 +87,12 @@ async function runAutoScheduler(): Promise<void> {
         user: {
           select: {
             id: true,
+            username: true,
+            email: true,
             timezone: true,
+            maxPostsPerDay: true,
+            minPostGapMinutes: true,
+            quietHours: true,
           },
         },
         scheduleRules: {
@@ -54,6 +101,7 @@ async function runAutoScheduler(): Promise<void> {
         },
         defaultValues: true,
         saleQueuePreset: true,
+        _count: { select: { draftCollection: true } },
       },
     });
 
@@ -119,10 +167,13 @@ async function processAutomation(automation: AutomationWithRelations): Promise<v
   try {
     // 2. Evaluate which rules should trigger now (using user's timezone)
     const userTimezone = automation.user.timezone || 'UTC';
-    const rulesToExecute = await evaluateScheduleRules(
+    const trace = createTrace(userTimezone);
+    const rulesToExecute = await evaluateAutomationRules(
       automation.scheduleRules,
       automation.id,
-      userTimezone
+      automation.userId,
+      userTimezone,
+      trace
     );
 
     if (rulesToExecute.length === 0) {
@@ -141,39 +192,93 @@ async function processAutomation(automation: AutomationWithRelations): Promise<v
     }
 
     console.log(`[Auto-Scheduler] Will schedule ${countToSchedule} deviation(s)`);
+    trace.requestedCount = countToSchedule;
 
     // 4. Select drafts
-    const drafts = await selectDrafts(automation, countToSchedule);
+    let drafts = await selectDrafts(automation, countToSchedule, trace);
 
     if (drafts.length === 0) {
       console.log(`[Auto-Scheduler] No drafts available for user ${automation.userId}`);
-      await logExecution(automation.id, 0, 'No drafts available');
+      await logExecution(automation.id, 0, 'No drafts available', null, trace);
+      await checkDraftPool(automation);
       return;
     }
 
-    console.log(`[Auto-Scheduler] Selected ${drafts.length} draft(s)`);
-
-    // 5. Schedule each draft
+    // 5. Schedule each draft (planned time_window slots first, the rest right away).
+    // Drafts refused by validation are released and replaced by the next candidates.
+    const plannedSlots = rulesToExecute.flatMap((rule) => rule.plannedSlots ?? []);
+    const immediateRuleType =
+      rulesToExecute.find((rule) => rule.type !== 'time_window')?.type ?? rulesToExecute[0].type;
+    const triedIds: string[] = [];
     let scheduled = 0;
-    for (const draft of drafts) {
-      try {
-        await scheduleDraft(draft, automation);
-        scheduled++;
-      } catch (error) {
-        console.error(`[Auto-Scheduler] Failed to schedule draft ${draft.id}:`, error);
+    let scheduledInWindow = 0;
+    for (let round = 1; drafts.length > 0; round++) {
+      console.log(`[Auto-Scheduler] Selected ${drafts.length} draft(s)`);
+
+      let refused = 0;
+      for (const draft of drafts) {
+        triedIds.push(draft.id);
+        const plannedAt = plannedSlots[scheduled];
+        const ruleType = plannedAt ? 'time_window' : immediateRuleType;
+        const traced = { draftId: draft.id, title: draft.title, ruleType };
+        try {
+          const result = await scheduleDraft(draft, automation, ruleType, plannedAt);
+          trace.drafts.push({ ...traced, status: 'scheduled', ...result });
+          scheduled++;
+          if (plannedAt) scheduledInWindow++;
+        } catch (error) {
+          console.error(`[Auto-Scheduler] Failed to schedule draft ${draft.id}:`, error);
+          trace.drafts.push({
+            ...traced,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          if (error instanceof DraftValidationError) refused++;
+        }
       }
+
+      drafts =
+        refused > 0 && round < MAX_SELECTION_ROUNDS
+          ? await selectDrafts(automation, refused, trace, triedIds)
+          : [];
     }
 
-    // 6. Log execution
-    await logExecution(automation.id, scheduled, null, rulesToExecute[0].type);
+    // 6. Log execution (time_window slots on their own, they count towards today's window).
+    // Both entries carry the trace of the whole run.
+    if (plannedSlots.length > 0) {
+      await logExecution(automation.id, scheduledInWindow, null, 'time_window', trace);
+    }
+    if (plannedSlots.length === 0 || scheduled > scheduledInWindow) {
+      await logExecution(
+        automation.id,
+        scheduled - scheduledInWindow,
+        null,
+        immediateRuleType,
+        trace
+      );
+    }
+    await emitWebhookEvent({
+      userId: automation.userId,
+      event: 'automation.executed',
+      data: {
+        automationId: automation.id,
+        automationName: automation.name,
+        triggeredByRuleType: rulesToExecute[0].type,
+        selectedCount: triedIds.length,
+        scheduledCount: scheduled,
+      },
+    });
     console.log(
-      `[Auto-Scheduler] Successfully scheduled ${scheduled}/${drafts.length} deviation(s)`
+      `[Auto-Scheduler] Successfully scheduled ${scheduled}/${triedIds.length} deviation(s)`
     );
+
+    // 7. Warn about (or pause on) a low draft pool
+    await checkDraftPool(automation);
   } catch (error) {
     console.error(`[Auto-Scheduler] Error processing automation ${automation.id}:`, error);
     throw error;
   } finally {
-    // 7. Always release lock
+    // 8. Always release lock
     await prisma.automation.update({
       where: { id: automation.id },
       data: {
@@ -185,70 +290,113 @@ async function processAutomation(automation: AutomationWithRelations): Promise<v
 }
 
 /**
- * Evaluate which schedule rules should trigger based on current time
- * Uses user's timezone for time and day calculations
+ * Evaluate which schedule rules should trigger now (in user's timezone).
+ *
+ * The decision is made by the shared evaluateScheduleRules(), which the forecast uses
+ * too; this loads what it reads and stores the rule state it returns.
  */
-async function evaluateScheduleRules(
+async function evaluateAutomationRules(
   rules: AutomationScheduleRule[],
   automationId: string,
-  userTimezone: string
-): Promise<AutomationScheduleRule[]> {
-  // Get current time in user's timezone
-  const nowInUserTz = dateFnsTz.toZonedTime(new Date(), userTimezone);
-  const currentTime = `${nowInUserTz.getHours().toString().padStart(2, '0')}:${nowInUserTz.getMinutes().toString().padStart(2, '0')}`;
-  const currentDay = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][
-    nowInUserTz.getDay()
-  ];
-
-  const triggeredRules: AutomationScheduleRule[] = [];
-
-  for (const rule of rules) {
-    // Check day of week filter if set (using user's timezone)
-    if (rule.daysOfWeek) {
-      const daysArray = rule.daysOfWeek as string[];
-      if (!daysArray.includes(currentDay)) {
-        continue; // Skip this rule, not the right day
-      }
-    }
+  userId: string,
+  userTimezone: string,
+  trace: AutomationExecutionTrace
+): Promise<TriggeredRule[]> {
+  const now = new Date();
+  const currentDate = toCalendarDate(now, userTimezone);
 
-    if (rule.type === 'fixed_time') {
-      // Check if current time matches timeOfDay (within 5-minute window, in user's timezone)
-      if (rule.timeOfDay && isTimeMatch(currentTime, rule.timeOfDay)) {
-        triggeredRules.push(rule);
-      }
-    } else if (rule.type === 'fixed_interval') {
-      // Check if enough time has elapsed since last execution
-      const lastExecution = await getLastExecutionForRule(automationId, rule.type);
-      if (!lastExecution || hasIntervalElapsed(lastExecution, rule.intervalMinutes!)) {
-        triggeredRules.push(rule);
-      }
-    } else if (rule.type === 'daily_quota') {
-      // Check if we need to schedule more today (using user's timezone)
-      if (await shouldScheduleForDailyQuota(automationId, rule.dailyQuota!, userTimezone)) {
-        triggeredRules.push(rule);
-      }
+  // Blackout or extra days today and yesterday (user-wide or for this automation).
+  // Yesterday's matter for a fixed_time occurrence missed before midnight.
+  const exceptions = await prisma.scheduleException.findMany({
+    where: {
+      userId,
+      OR: [{ automationId: null }, { automationId }],
+      startDate: { lte: currentDate },
+      endDate: { gte: addCalendarDays(currentDate, -1) },
+    },
+    select: { type: true, startDate: true, endDate: true },
+  });
+
+  const evaluation = evaluateScheduleRules(rules, {
+    automationId,
+    now,
+    timezone: userTimezone,
+    exceptions,
+    history: await loadRunHistory(rules, automationId, startOfLocalDay(now, userTimezone)),
+  });
+
+  trace.localTime = evaluation.localTime;
+  trace.localDate = evaluation.localDate;
+  trace.dayType = evaluation.dayType;
+
+  const triggeredRules: TriggeredRule[] = [];
+  for (const { rule, triggered, reason, plannedSlots, update, missed } of evaluation.rules) {
+    // fixed_time and cron occurrences are stored even when missed, so they're handled once
+    if (update) {
+      await prisma.automationScheduleRule.update({ where: { id: rule.id }, data: update });
+    }
+    if (missed) {
+      console.log(`[Auto-Scheduler] ${reason} for automation ${automationId}`);
+      await logExecution(automationId, 0, reason, 'fixed_time');
     }
+
+    if (triggered) triggeredRules.push({ ...rule, plannedSlots });
+    trace.rules.push({
+      ruleId: rule.id,
+      type: rule.type,
+      triggered,
+      reason,
+      ...(plannedSlots && { plannedSlots: plannedSlots.map((slot) => slot.toISOString()) }),
+    });
   }
 
   return triggeredRules;
 }
 
 /**
- * Check if current time is past the target time within a safe window.
+ * Empty trace for a run, filled in as the run goes
+ */
+function createTrace(timezone: string): AutomationExecutionTrace {
+  return {
+    timezone,
+    localTime: '',
+    localDate: '',
+    dayType: null,
+    rules: [],
+    requestedCount: 0,
+    candidateCount: 0,
+    lockFailures: [],
+    drafts: [],
+  };
+}
+
+/**
+ * Execution log figures the rules read: the last run of fixed_interval and daily_quota
+ * rules, and today's scheduled count of daily_quota and time_window rules
  */
-function isTimeMatch(currentTime: string, targetTime: string): boolean {
-  const [currentHour, currentMinute] = currentTime.split(':').map(Number);
-  const [targetHour, targetMinute] = targetTime.split(':').map(Number);
-
-  const currentTotalMinutes = currentHour * 60 + currentMinute;
-  const targetTotalMinutes = targetHour * 60 + targetMinute;
-
-  // Check if the target time has passed within a reasonable window.
-  // The cron job runs every 5 minutes. We allow a 7-minute window
-  // to account for small scheduler delays, preventing missed jobs.
-  // We also ensure we don't run jobs scheduled for the future (minutesSinceTarget >= 0).
-  const minutesSinceTarget = currentTotalMinutes - targetTotalMinutes;
-  return minutesSinceTarget >= 0 && minutesSinceTarget < 7;
+async function loadRunHistory(
+  rules: AutomationScheduleRule[],
+  automationId: string,
+  startOfToday: Date
+): Promise<RuleRunHistory> {
+  const ruleTypes = new Set(rules.map((rule) => rule.type));
+  const history: RuleRunHistory = { lastRunAt: {}, scheduledToday: {} };
+
+  for (const ruleType of ['fixed_interval', 'daily_quota']) {
+    if (!ruleTypes.has(ruleType)) continue;
+    const lastExecution = await getLastExecutionForRule(automationId, ruleType);
+    if (lastExecution) history.lastRunAt[ruleType] = lastExecution;
+  }
+  for (const ruleType of ['daily_quota', 'time_window']) {
+    if (!ruleTypes.has(ruleType)) continue;
+    history.scheduledToday[ruleType] = await getScheduledCountSince(
+      automationId,
+      ruleType,
+      startOfToday
+    );
+  }
+
+  return history;
 }
 
 /**
@@ -270,67 +418,122 @@ async function getLastExecutionForRule(
 }
 
 /**
- * Check if interval has elapsed since last execution
+ * Sum of scheduled deviations logged for a rule type since a moment
  */
-function hasIntervalElapsed(lastExecution: Date, intervalMinutes: number): boolean {
-  const now = new Date();
-  const elapsedMinutes = (now.getTime() - lastExecution.getTime()) / (1000 * 60);
-  return elapsedMinutes >= intervalMinutes;
-}
-
-/**
- * Check if we should schedule more deviations for daily quota
- * Uses user's timezone to determine "today"
- */
-async function shouldScheduleForDailyQuota(
+async function getScheduledCountSince(
   automationId: string,
-  dailyQuota: number,
-  userTimezone: string
-): Promise<boolean> {
-  // Get current time in user's timezone
-  const nowInUserTz = dateFnsTz.toZonedTime(new Date(), userTimezone);
-
-  // Get start of today in user's timezone
-  const todayInUserTz = new Date(nowInUserTz);
-  todayInUserTz.setHours(0, 0, 0, 0);
-
-  // Convert back to UTC for database query
-  const todayUtc = dateFnsTz.fromZonedTime(todayInUserTz, userTimezone);
-
-  // Count how many we've scheduled today (in user's timezone)
-  const scheduledToday = await prisma.automationExecutionLog.aggregate({
+  ruleType: string,
+  since: Date
+): Promise<number> {
+  const scheduled = await prisma.automationExecutionLog.aggregate({
     where: {
       automationId,
-      triggeredByRuleType: 'daily_quota',
-      executedAt: { gte: todayUtc },
+      triggeredByRuleType: ruleType,
+      executedAt: { gte: since },
     },
     _sum: {
       scheduledCount: true,
     },
   });
 
-  const totalScheduledToday = scheduledToday._sum.scheduledCount || 0;
-  return totalScheduledToday < dailyQuota;
+  return scheduled._sum.scheduledCount || 0;
+}
+
+/**
+ * Drafts the automation may schedule: unscheduled drafts with files, in its draft pool
+ * and not claimed by another automation
+ */
+async function getEligibleDraftWhere(
+  automation: AutomationWithRelations
+): Promise<Prisma.DeviationWhereInput> {
+  const otherAutomations = await prisma.automation.findMany({
+    where: { userId: automation.userId, id: { not: automation.id } },
+    select: { id: true, draftFilter: true, sortOrder: true, createdAt: true },
+  });
+
+  return {
+    userId: automation.userId,
+    status: 'draft' as const,
+    scheduledAt: null, // Not already scheduled
+    files: { some: {} }, // Must have at least one file
+    ...buildDraftPoolWhere(
+      automation,
+      (automation._count?.draftCollection ?? 0) > 0,
+      otherAutomations
+    ),
+  };
 }
 
 /**
- * Calculate how many deviations to schedule based on triggered rules
+ * Check how many drafts are left after a run: warn once when fewer than the threshold
+ * remain and pause the automation once the pool is empty (if enabled).
+ * Warnings go out by email and webhook; the automation's alert fields show them in the app.
  */
-function calculateScheduleCount(rules: AutomationScheduleRule[]): number {
-  let count = 0;
-
-  for (const rule of rules) {
-    if (rule.type === 'fixed_time') {
-      count += 1; // Schedule 1 per fixed time trigger
-    } else if (rule.type === 'fixed_interval') {
-      count += rule.deviationsPerInterval || 1;
-    } else if (rule.type === 'daily_quota') {
-      // For daily quota, schedule 1 at a time to spread throughout the day
-      count += 1;
+async function checkDraftPool(automation: AutomationWithRelations): Promise<void> {
+  if (!automation.lowPoolThreshold && !automation.pauseWhenPoolEmpty) {
+    if (automation.lowPoolAlertedAt) {
+      await prisma.automation.update({
+        where: { id: automation.id },
+        data: { lowPoolAlertedAt: null },
+      });
     }
+    return;
+  }
+
+  const remaining = await prisma.deviation.count({
+    where: await getEligibleDraftWhere(automation),
+  });
+  const alert = getDraftPoolAlert(remaining, automation);
+
+  if (alert === null) {
+    return;
+  }
+
+  if (alert === 'recovered') {
+    await prisma.automation.update({
+      where: { id: automation.id },
+      data: { lowPoolAlertedAt: null },
+    });
+    return;
+  }
+
+  const paused = alert === 'pause';
+  if (paused) {
+    console.log(`[Auto-Scheduler] Draft pool empty, pausing automation ${automation.id}`);
+    await prisma.automation.update({
+      where: { id: automation.id },
+      data: {
+        enabled: false,
+        pausedReason: POOL_EMPTY_PAUSE_REASON,
+        lowPoolAlertedAt: automation.lowPoolAlertedAt ?? new Date(),
+      },
+    });
+  } else {
+    console.log(`[Auto-Scheduler] Only ${remaining} draft(s) left for automation ${automation.id}`);
+    await prisma.automation.update({
+      where: { id: automation.id },
+      data: { lowPoolAlertedAt: new Date() },
+    });
   }
 
-  return count;
+  await emitWebhookEvent({
+    userId: automation.userId,
+    event: paused ? 'automation.paused' : 'automation.pool_low',
+    data: {
+      automationId: automation.id,
+      automationName: automation.name,
+      remainingDrafts: remaining,
+      ...(paused
+        ? { reason: POOL_EMPTY_PAUSE_REASON }
+        : { threshold: automation.lowPoolThreshold }),
+    },
+  });
+  await sendAutomationPoolAlertEmail(automation.user, {
+    automationId: automation.id,
+    automationName: automation.name,
+    remainingDrafts: remaining,
+    paused,
+  });
 }
 
 /**
@@ -342,9 +545,15 @@ function calculateScheduleCount(rules: AutomationScheduleRule[]): number {
  */
 async function selectDrafts(
   automation: AutomationWithRelations,
-  count: number
+  count: number,
+  trace: AutomationExecutionTrace,
+  excludeIds: string[] = []
 ): Promise<Deviation[]> {
   const selected: Deviation[] = [];
+  const eligibleWhere = await getEligibleDraftWhere(automation);
+  if (excludeIds.length > 0) {
+    eligibleWhere.id = { notIn: [...excludeIds] }; // Already tried in this run
+  }
 
   let candidates: any[];
 
@@ -355,12 +564,7 @@ async function selectDrafts(
 
     // Fetch large pool of candidates
     const allCandidates = await prisma.deviation.findMany({
-      where: {
-        userId: automation.userId,
-        status: 'draft' as const,
-        scheduledAt: null, // Not already scheduled
-        files: { some: {} }, // Must have at least one file
-      },
+      where: eligibleWhere,
       take: poolSize,
       include: {
         files: true,
@@ -377,12 +581,7 @@ async function selectDrafts(
         : { createdAt: 'asc' as const };
 
     candidates = await prisma.deviation.findMany({
-      where: {
-        userId: automation.userId,
-        status: 'draft' as const,
-        scheduledAt: null, // Not already scheduled
-        files: { some: {} }, // Must have at least one file
-      },
+      where: eligibleWhere,
       orderBy,
       take: count * 3, // Get extra candidates in case of lock failures
       include: {
@@ -391,6 +590,8 @@ async function selectDrafts(
     });
   }
 
+  trace.candidateCount += candidates.length;
+
   if (candidates.length === 0) {
     return [];
   }
@@ -434,85 +635,79 @@ async function selectDrafts(
 
       if (locked) {
         selected.push(locked);
+      } else {
+        trace.lockFailures.push(candidate.id);
       }
     } catch (error) {
       // Lock failed, skip this draft
       console.log(`[Auto-Scheduler] Failed to lock draft ${candidate.id}, skipping`);
+      trace.lockFailures.push(candidate.id);
     }
   }
 
   return selected;
 }
 
-/**
- * Shuffle array (Fisher-Yates algorithm)
- */
-function shuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
-}
-
-/**
- * Helper to check if a value is empty
- * Treats false and 0 as empty to allow automation defaults to override database defaults
- */
-function isEmpty(value: any): boolean {
-  if (value === null || value === undefined) return true;
-  if (typeof value === 'string' && value.trim() === '') return true;
-  if (Array.isArray(value) && value.length === 0) return true;
-  // Consider false as empty for booleans (so automation defaults can override database default of false)
-  if (typeof value === 'boolean' && value === false) return true;
-  // Consider 0 as empty for numbers (so automation defaults can override database default of 0)
-  if (typeof value === 'number' && value === 0) return true;
-  return false;
-}
-
 /**
  * Schedule a single draft
  * Uses transaction to ensure atomicity - if queueing fails, deviation is not marked as scheduled
+ *
+ * @returns What was applied to the draft, for the run's trace
  */
-async function scheduleDraft(draft: any, automation: AutomationWithRelations): Promise<void> {
-  // 1. Apply default values
-  const updates: any = {};
-
-  for (const defaultValue of automation.defaultValues) {
-    const fieldName = defaultValue.fieldName;
-    const currentValue = draft[fieldName];
-
-    const shouldApply = defaultValue.applyIfEmpty ? isEmpty(currentValue) : true;
-
-    if (shouldApply) {
-      updates[fieldName] = defaultValue.value;
-    }
-  }
-
-  // Force protection defaults if sale queue is enabled
-  if (automation.autoAddToSaleQueue && automation.saleQueuePresetId) {
-    // Override displayResolution to highest if it's 0 (original)
-    const currentResolution = updates.displayResolution ?? draft.displayResolution ?? 0;
-    if (currentResolution === 0) {
-      updates.displayResolution = 8; // Force 1920px (highest with watermark support)
+async function scheduleDraft(
+  draft: any,
+  automation: AutomationWithRelations,
+  triggeredByRuleType: string | null = null,
+  plannedAt?: Date
+): Promise<
+  Pick<TracedDraft, 'appliedDefaults' | 'jitterSeconds' | 'actualPublishAt' | 'policyReasons'>
+> {
+  // 1. Apply default values (and sale queue protection / Sta.sh-only defaults)
+  const updates = applyAutomationDefaults(draft, automation);
+
+  // Drop a comment template default whose template has since been deleted
+  if (updates.commentTemplateId) {
+    const template = await prisma.template.findFirst({
+      where: { id: updates.commentTemplateId, userId: draft.userId, type: 'comment' },
+      select: { id: true },
+    });
+    if (!template) {
+      delete updates.commentTemplateId;
     }
-
-    // Force watermark and disable free download for exclusives
-    updates.addWatermark = true;
-    updates.allowFreeDownload = false;
   }
 
-  // Apply Sta.sh-only default if draft doesn't have explicit value
-  if (draft.stashOnly === null || draft.stashOnly === undefined) {
-    updates.stashOnly = automation.stashOnlyByDefault;
+  // Refuse drafts that would fail on publish; leave them as drafts with the reason and
+  // release the selection lock so they're picked again once fixed
+  const validation = validateDeviationForPublish({ ...draft, ...updates });
+  if (!validation.valid) {
+    const errorMessage = `Failed validation: ${formatValidationErrors(validation)}`;
+    await prisma.deviation.update({
+      where: { id: draft.id },
+      data: { errorMessage, scheduledAt: null },
+    });
+    throw new DraftValidationError(errorMessage);
   }
 
-  // 2. Calculate schedule time using jitter only (no random offset)
+  // 2. Calculate schedule time using jitter only (no random offset).
+  // Planned time_window slots are already random, so they're used as-is.
   const now = new Date();
   const jitterRange = automation.jitterMaxSeconds - automation.jitterMinSeconds;
-  const jitterSeconds = automation.jitterMinSeconds + Math.floor(Math.random() * (jitterRange + 1));
-  const actualPublishAt = new Date(now.getTime() + jitterSeconds * 1000);
+  let jitterSeconds = plannedAt
+    ? 0
+    : automation.jitterMinSeconds + Math.floor(Math.random() * (jitterRange + 1));
+  let actualPublishAt = plannedAt ?? new Date(now.getTime() + jitterSeconds * 1000);
+  let scheduledAt = plannedAt ?? now;
+
+  // Respect the user's publishing policy (daily cap, minimum gap, quiet hours)
+  const slot = await resolvePublishSlot(prisma, automation.user, actualPublishAt, {
+    excludeDeviationId: draft.id,
+    includeScheduled: true,
+  });
+  if (slot.deferred) {
+    scheduledAt = slot.publishAt;
+    actualPublishAt = slot.publishAt;
+    jitterSeconds = 0;
+  }
 
   // 3. Update draft and queue in transaction (atomic operation)
   await prisma.$transaction(async (tx) => {
@@ -522,7 +717,7 @@ async function scheduleDraft(draft: any, automation: AutomationWithRelations): P
       data: {
         ...updates,
         status: 'scheduled',
-        scheduledAt: now,
+        scheduledAt,
         jitterSeconds,
         actualPublishAt,
         automationId: automation.id, // Track which automation scheduled this
@@ -530,12 +725,39 @@ async function scheduleDraft(draft: any, automation: AutomationWithRelations): P
     });
 
     // Queue the deviation (if this fails, transaction rolls back)
-    await scheduleDeviation(draft.id, draft.userId, actualPublishAt, draft.uploadMode);
+    await scheduleDeviation(
+      draft.id,
+      draft.userId,
+      actualPublishAt,
+      draft.uploadMode,
+      PublishPriority.AUTOMATION
+    );
+  });
+
+  await recordDeviationEvent(prisma, {
+    deviationId: draft.id,
+    type: 'scheduled',
+    actor: { type: 'automation', id: automation.id },
+    fromStatus: 'draft',
+    toStatus: 'scheduled',
+    metadata: {
+      actualPublishAt,
+      jitterSeconds,
+      triggeredByRuleType,
+      ...(slot.deferred && { policyReasons: slot.reasons }),
+    },
   });
 
   console.log(
     `[Auto-Scheduler] Scheduled deviation ${draft.id} for ${actualPublishAt.toISOString()}`
   );
+
+  return {
+    appliedDefaults: updates,
+    jitterSeconds,
+    actualPublishAt: actualPublishAt.toISOString(),
+    ...(slot.deferred && { policyReasons: slot.reasons }),
+  };
 }
 
 /**
@@ -545,7 +767,8 @@ async function logExecution(
   automationId: string,
   scheduledCount: number,
   errorMessage: string | null = null,
-  triggeredByRuleType: string | null = null
+  triggeredByRuleType: string | null = null,
+  trace?: AutomationExecutionTrace
 ): Promise<void> {
   await prisma.automationExecutionLog.create({
     data: {
@@ -553,6 +776,7 @@ async function logExecution(
       scheduledCount,
       errorMessage,
       triggeredByRuleType,
+      trace: trace as unknown as Prisma.InputJsonValue | undefined,
     },
   });
 }
@@ -0,0 +1,92 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runIdempotencyKeyCleanup, startIdempotencyKeyCleanup } from './idempotency-key-cleanup';
+
+// Mock node-cron
+const mockSchedule = vi.fn();
+vi.mock('node-cron', () => ({
+  default: {
+    schedule: (...args: any[]) => mockSchedule(...args),
+  },
+}));
+
+// Mock prisma
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    idempotencyKey: {
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+describe('idempotency-key-cleanup', () => {
+  let mockDeleteMany: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers();
+
+    const { prisma } = await import('../db/index.js');
+    mockDeleteMany = prisma.idempotencyKey.deleteMany as any;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('runIdempotencyKeyCleanup', () => {
+    it('should delete keys past their expiry', async () => {
+      const now = new Date('2025-01-01T12:00:00Z');
+      vi.setSystemTime(now);
+      mockDeleteMany.mockResolvedValueOnce({ count: 4 });
+
+      await runIdempotencyKeyCleanup();
+
+      expect(mockDeleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lt: now } } });
+      expect(console.log).toHaveBeenCalledWith('[Idempotency Cleanup] Deleted 4 expired keys');
+    });
+
+    it('should log database errors without throwing', async () => {
+      mockDeleteMany.mockRejectedValueOnce(new Error('Database down'));
+
+      await expect(runIdempotencyKeyCleanup()).resolves.toBeUndefined();
+
+      expect(console.error).toHaveBeenCalledWith(
+        '[Idempotency Cleanup] Failed to delete expired keys:',
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe('startIdempotencyKeyCleanup', () => {
+    it('should schedule the cleanup every hour', async () => {
+      mockDeleteMany.mockResolvedValue({ count: 0 });
+
+      startIdempotencyKeyCleanup();
+
+      expect(mockSchedule).toHaveBeenCalledWith('0 * * * *', expect.any(Function));
+
+      await mockSchedule.mock.calls[0][1]();
+      expect(mockDeleteMany).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import cron from 'node-cron';
+import { prisma } from '../db/index.js';
+
+/**
+ * Idempotency Key Cleanup
+ *
+ * Deletes expired Idempotency-Key records stored by the backend for
+ * `POST /api/deviations`, `/api/uploads/complete` and `/api/comfyui/upload`.
+ * Expired keys are already ignored on lookup; this only keeps the table small.
+ *
+ * Runs every hour.
+ */
+
+/**
+ * Main cleanup function - deletes keys past their TTL
+ */
+async function cleanupExpiredIdempotencyKeys(): Promise<void> {
+  try {
+    const result = await prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (result.count > 0) {
+      console.log(`[Idempotency Cleanup] Deleted ${result.count} expired keys`);
+    }
+  } catch (error) {
+    console.error('[Idempotency Cleanup] Failed to delete expired keys:', error);
+  }
+}
+
+/**
+ * Start the cron job
+ * Runs at the start of every hour
+ */
+export function startIdempotencyKeyCleanup(): void {
+  cron.schedule('0 * * * *', async () => {
+    try {
+      await cleanupExpiredIdempotencyKeys();
+    } catch (error) {
+      console.error('[Idempotency Cleanup] Cron job failed:', error);
+    }
+  });
+
+  console.log('[Idempotency Cleanup] Cron job started (runs every hour)');
+}
+
+/**
+ * Manually run cleanup (for testing or manual intervention)
+ */
+export async function runIdempotencyKeyCleanup(): Promise<void> {
+  await cleanupExpiredIdempotencyKeys();
+}
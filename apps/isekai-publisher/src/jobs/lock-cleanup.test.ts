@@ -33,14 +33,20 @@ vi.mock('../db/index.js', async () => {
     ...actual,
     prisma: {
       deviation: {
+        findMany: vi.fn(),
         updateMany: vi.fn(),
       },
+      deviationEvent: {
+        createMany: vi.fn(),
+      },
     },
   };
 });
 
 describe('lock-cleanup', () => {
   let mockUpdateMany: any;
+  let mockFindMany: any;
+  let mockEventCreateMany: any;
 
   beforeEach(async () => {
     vi.clearAllMocks();
@@ -51,6 +57,9 @@ describe('lock-cleanup', () => {
     // Import prisma mock
     const { prisma } = await import('../db/index.js');
     mockUpdateMany = prisma.deviation.updateMany as any;
+    mockFindMany = prisma.deviation.findMany as any;
+    mockEventCreateMany = prisma.deviationEvent.createMany as any;
+    mockFindMany.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -83,6 +92,30 @@ describe('lock-cleanup', () => {
       expect(console.log).toHaveBeenCalledWith('[Lock Cleanup] Released 3 stale locks');
     });
 
+    it('should record a lock_released event for each released deviation', async () => {
+      const lockedAt = new Date('2025-01-01T11:00:00Z');
+      mockFindMany.mockResolvedValueOnce([
+        { id: 'dev-1', status: 'scheduled', executionLockId: 'lock-1', executionLockedAt: lockedAt },
+      ]);
+      mockUpdateMany.mockResolvedValueOnce({ count: 1 });
+
+      await runLockCleanup();
+
+      expect(mockEventCreateMany).toHaveBeenCalledWith({
+        data: [
+          {
+            deviationId: 'dev-1',
+            type: 'lock_released',
+            fromStatus: 'scheduled',
+            toStatus: 'scheduled',
+            actorType: 'recovery',
+            actorId: 'lock-cleanup',
+            metadata: { lockId: 'lock-1', lockedAt: '2025-01-01T11:00:00.000Z' },
+          },
+        ],
+      });
+    });
+
     it('should not log when no locks are released', async () => {
       mockUpdateMany.mockResolvedValueOnce({ count: 0 });
 
@@ -1,5 +1,6 @@
 import cron from 'node-cron';
 import { prisma } from '../db/index.js';
+import { recordDeviationEvents } from '@isekai/shared';
 
 /**
  * Lock Cleanup System
@@ -22,12 +23,20 @@ async function cleanupStaleLocks(): Promise<void> {
   const cutoffTime = new Date(Date.now() - STALE_LOCK_TIMEOUT_MS);
 
   try {
+    const where = {
+      executionLockId: { not: null },
+      executionLockedAt: { lt: cutoffTime },
+      status: { in: ['scheduled' as const, 'draft' as const] },
+    };
+
+    // Snapshot the locked rows first so each release can be recorded on the timeline
+    const staleLocked = await prisma.deviation.findMany({
+      where,
+      select: { id: true, status: true, executionLockId: true, executionLockedAt: true },
+    });
+
     const result = await prisma.deviation.updateMany({
-      where: {
-        executionLockId: { not: null },
-        executionLockedAt: { lt: cutoffTime },
-        status: { in: ['scheduled', 'draft'] },
-      },
+      where,
       data: {
         executionLockId: null,
         executionLockedAt: null,
@@ -37,6 +46,21 @@ async function cleanupStaleLocks(): Promise<void> {
 
     if (result.count > 0) {
       console.log(`[Lock Cleanup] Released ${result.count} stale locks`);
+
+      await recordDeviationEvents(
+        prisma,
+        staleLocked.map((deviation) => ({
+          deviationId: deviation.id,
+          type: 'lock_released' as const,
+          actor: { type: 'recovery' as const, id: 'lock-cleanup' },
+          fromStatus: deviation.status,
+          toStatus: deviation.status,
+          metadata: {
+            lockId: deviation.executionLockId,
+            lockedAt: deviation.executionLockedAt,
+          },
+        }))
+      );
     }
   } catch (error) {
     console.error('[Lock Cleanup] Failed to cleanup stale locks:', error);
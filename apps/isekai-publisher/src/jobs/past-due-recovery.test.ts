@@ -16,6 +16,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublishPriority } from '@isekai/shared';
 import { runPastDueRecovery, startPastDueRecovery } from './past-due-recovery';
 
 // Mock node-cron
@@ -47,6 +48,9 @@ vi.mock('../db/index.js', async () => {
         findMany: vi.fn(),
         update: vi.fn(),
       },
+      deviationEvent: {
+        createMany: vi.fn(),
+      },
     },
   };
 });
@@ -109,11 +113,23 @@ describe('past-due-recovery', () => {
         'dev-1',
         'user-1',
         expect.any(Date),
-        'single'
+        'single',
+        PublishPriority.RECOVERY
       );
       expect(console.log).toHaveBeenCalledWith(
         '[Past Due Recovery] Re-queued deviation dev-1 (no job found)'
       );
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            deviationId: 'dev-1',
+            type: 'recovered',
+            actorType: 'recovery',
+            actorId: 'past-due-recovery',
+            metadata: expect.objectContaining({ reason: 'job_missing' }),
+          }),
+        ],
+      });
     });
 
     it('should re-queue when job is in completed state', async () => {
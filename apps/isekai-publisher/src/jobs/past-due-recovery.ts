@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { prisma } from '../db/index.js';
 import { deviationPublisherQueue, scheduleDeviation } from '../queues/deviation-publisher.js';
+import { recordDeviationEvent, PublishPriority } from '@isekai/shared';
 
 /**
  * Past Due Recovery System
@@ -71,16 +72,19 @@ async function recoverPastDueDeviations(): Promise<void> {
             // Job completed/failed but DB not updated - this is a stuck state
             // Remove the old job and re-queue
             await existingJob.remove();
-            await reQueueDeviation(deviation);
+            await reQueueDeviation(deviation, `job_${jobState}`);
             recovered++;
             console.log(
               `[Past Due Recovery] Re-queued deviation ${deviation.id} (old job state: ${jobState})`
             );
-          } else if ((jobState === 'waiting' || jobState === 'delayed') && attemptsMade >= 2) {
+          } else if (
+            (jobState === 'waiting' || jobState === 'prioritized' || jobState === 'delayed') &&
+            attemptsMade >= 2
+          ) {
             // Job has burned attempts (likely due to infrastructure issues) - reset it
             // This prevents jobs from silently failing after schema bugs, network issues, etc.
             await existingJob.remove();
-            await reQueueDeviation(deviation);
+            await reQueueDeviation(deviation, 'burned_attempts');
             recovered++;
             console.log(
               `[Past Due Recovery] Reset job with ${attemptsMade} burned attempts (state: ${jobState}) - deviation ${deviation.id}`
@@ -101,7 +105,7 @@ async function recoverPastDueDeviations(): Promise<void> {
           }
         } else {
           // No job found - this is the main recovery case
-          await reQueueDeviation(deviation);
+          await reQueueDeviation(deviation, 'job_missing');
           recovered++;
           console.log(`[Past Due Recovery] Re-queued deviation ${deviation.id} (no job found)`);
         }
@@ -152,7 +156,7 @@ async function recoverPastDueDeviations(): Promise<void> {
 /**
  * Re-queue a deviation for immediate publishing
  */
-async function reQueueDeviation(deviation: any): Promise<void> {
+async function reQueueDeviation(deviation: any, reason: string): Promise<void> {
   // Update deviation to indicate it's being retried and reset retry count
   // This gives the job a fresh start with all 7 attempts available
   await prisma.deviation.update({
@@ -166,7 +170,22 @@ async function reQueueDeviation(deviation: any): Promise<void> {
 
   // Queue with 1 minute delay to avoid overwhelming the system
   const retryAt = new Date(Date.now() + 60000);
-  await scheduleDeviation(deviation.id, deviation.userId, retryAt, deviation.uploadMode);
+  await scheduleDeviation(
+    deviation.id,
+    deviation.userId,
+    retryAt,
+    deviation.uploadMode,
+    PublishPriority.RECOVERY
+  );
+
+  await recordDeviationEvent(prisma, {
+    deviationId: deviation.id,
+    type: 'recovered',
+    actor: { type: 'recovery', id: 'past-due-recovery' },
+    fromStatus: 'scheduled',
+    toStatus: 'scheduled',
+    metadata: { reason, retryAt, previousRetryCount: deviation.retryCount },
+  });
 }
 
 /**
@@ -16,6 +16,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublishPriority } from '@isekai/shared';
 import { startStuckJobRecovery } from './stuck-job-recovery';
 
 // Mock node-cron
@@ -183,7 +184,8 @@ describe('stuck-job-recovery', () => {
         'dev-1',
         'user-1',
         expect.any(Date),
-        'single'
+        'single',
+        PublishPriority.RECOVERY
       );
 
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Reset and queued retry'));
@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { prisma, Deviation, User } from '../db/index.js';
 import { scheduleDeviation } from '../queues/deviation-publisher.js';
+import { PublishPriority } from '@isekai/shared';
 
 /**
  * Stuck Job Recovery System
@@ -211,7 +212,13 @@ async function resetAndRetry(deviation: DeviationWithUser): Promise<void> {
 
   // Re-queue job with 1 minute delay
   const retryAt = new Date(Date.now() + 60000);
-  await scheduleDeviation(deviation.id, deviation.userId, retryAt, deviation.uploadMode);
+  await scheduleDeviation(
+    deviation.id,
+    deviation.userId,
+    retryAt,
+    deviation.uploadMode,
+    PublishPriority.RECOVERY
+  );
 
   console.log(`[Stuck Job Recovery] Retry queued for ${deviation.id}`);
 }
@@ -0,0 +1,242 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Publish flow against the local DeviantArt fake - real HTTP, mocked database and storage.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { User, Deviation, DeviationFile } from '../db/index';
+import { encryptToken, decryptToken } from '@isekai/shared';
+import { FakeDeviantArtServer, type FakeDeviantArtUser } from '@isekai/shared/testing';
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+
+const { mockSend } = vi.hoisted(() => ({
+  mockSend: vi.fn(),
+}));
+
+vi.mock('@isekai/shared/storage', () => ({
+  getS3Client: vi.fn(() => ({ send: mockSend })),
+  getStorageConfig: vi.fn(() => ({
+    bucketName: 'test-bucket',
+    publicUrl: 'https://cdn.example.com',
+  })),
+}));
+
+vi.mock('../db/index.js', () => ({
+  prisma: {
+    user: { update: vi.fn() },
+    deviation: { update: vi.fn() },
+  },
+}));
+
+import { prisma } from '../db/index.js';
+
+describe('deviantart (fake API)', () => {
+  let fake: FakeDeviantArtServer;
+  let daUser: FakeDeviantArtUser;
+  let user: User;
+  let deviantart: typeof import('./deviantart.js');
+
+  const file = {
+    id: 'file-1',
+    deviationId: 'dev-1',
+    storageKey: 'uploads/user-1/art.png',
+    originalFilename: 'art.png',
+    mimeType: 'image/png',
+    fileSize: 5,
+    sortOrder: 0,
+  } as DeviationFile;
+
+  const deviation = {
+    id: 'dev-1',
+    userId: 'user-1',
+    title: 'Dragon Study',
+    description: 'Sketchbook page',
+    tags: ['dragon', 'sketch'],
+    categoryPath: null,
+    isMature: false,
+    matureLevel: null,
+    allowComments: true,
+    allowFreeDownload: false,
+    isAiGenerated: false,
+    noAi: false,
+    galleryIds: [] as string[],
+    stashItemId: null,
+    stashOnly: false,
+    displayResolution: 0,
+    addWatermark: false,
+    files: [file],
+  } as unknown as Deviation & { files: DeviationFile[] };
+
+  beforeAll(async () => {
+    fake = await FakeDeviantArtServer.start();
+    Object.assign(process.env, fake.env());
+    // Endpoints are resolved at module load, so import after the env points at the fake
+    deviantart = await import('./deviantart.js');
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fake.reset();
+    daUser = fake.createUser({ username: 'artist' });
+
+    user = {
+      id: 'user-1',
+      username: 'artist',
+      accessToken: encryptToken(daUser.accessToken),
+      refreshToken: encryptToken(daUser.refreshToken),
+      tokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      refreshTokenExpiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+    } as User;
+
+    mockSend.mockResolvedValue({
+      Body: {
+        async *[Symbol.asyncIterator]() {
+          yield Buffer.from('image');
+        },
+      },
+    });
+  });
+
+  it('should upload to stash and publish with tags and galleries', async () => {
+    const folder = fake.createFolder(daUser.userid, 'Sketches');
+
+    const result = (await deviantart.publishToDeviantArt(
+      { ...deviation, galleryIds: [folder.folderid] },
+      user,
+      'single'
+    )) as { deviationId: string; url: string };
+
+    const published = fake.deviations.get(result.deviationId);
+    expect(published).toMatchObject({
+      title: 'Dragon Study',
+      tags: ['dragon', 'sketch'],
+      galleryIds: [folder.folderid],
+    });
+    expect(result.url).toBe(published!.url);
+    expect(folder.deviationIds).toEqual([result.deviationId]);
+    expect(prisma.deviation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ stashItemId: published!.itemid }) })
+    );
+    expect(fake.requests.map((request) => request.path)).toEqual([
+      '/api/v1/oauth2/stash/submit',
+      '/api/v1/oauth2/stash/publish',
+    ]);
+  });
+
+  it('should refresh an expiring access token and store the rotated tokens', async () => {
+    user.tokenExpiresAt = new Date(Date.now() + 60 * 1000);
+
+    await deviantart.publishToDeviantArt(deviation, user, 'single');
+
+    const update = vi.mocked(prisma.user.update).mock.calls[0][0];
+    expect(decryptToken(update.data.accessToken as string)).toBe(daUser.accessToken);
+    expect(decryptToken(update.data.refreshToken as string)).toBe(daUser.refreshToken);
+    expect(fake.requests[0].path).toBe('/oauth2/token');
+  });
+
+  it('should flag a revoked refresh token as REFRESH_TOKEN_EXPIRED', async () => {
+    user.tokenExpiresAt = new Date(Date.now() - 1000);
+    fake.revokeRefreshToken(daUser.userid);
+
+    await expect(deviantart.refreshTokenIfNeeded(user)).rejects.toMatchObject({
+      code: 'REFRESH_TOKEN_EXPIRED',
+    });
+  });
+
+  it('should surface Retry-After from a rate-limited stash submit', async () => {
+    fake.rateLimit('/api/v1/oauth2/stash/submit', 120);
+
+    await expect(deviantart.publishToDeviantArt(deviation, user, 'single')).rejects.toMatchObject({
+      status: 429,
+      retryAfter: '120',
+    });
+    expect(fake.stash.size).toBe(0);
+  });
+
+  it('should reuse the stash item on retry after a publish server error', async () => {
+    fake.injectFault({ path: '/api/v1/oauth2/stash/publish', status: 503 });
+
+    await expect(deviantart.publishToDeviantArt(deviation, user, 'single')).rejects.toThrow();
+    const [stashItem] = [...fake.stash.values()];
+
+    const result = (await deviantart.publishToDeviantArt(
+      { ...deviation, stashItemId: stashItem.itemid },
+      user,
+      'single'
+    )) as { deviationId: string };
+
+    expect(fake.deviations.get(result.deviationId)?.itemid).toBe(stashItem.itemid);
+    expect(fake.requests.filter((request) => request.path.endsWith('/stash/submit'))).toHaveLength(
+      1
+    );
+  });
+
+  it('should post a first comment on the published deviation', async () => {
+    const { deviationId } = (await deviantart.publishToDeviantArt(deviation, user, 'single')) as {
+      deviationId: string;
+    };
+
+    const { commentId } = await deviantart.postDeviationComment(user, deviationId, 'First!');
+
+    expect(fake.comments.get(commentId)).toMatchObject({
+      deviationid: deviationId,
+      body: 'First!',
+    });
+  });
+
+  it('should expose status and Retry-After when commenting is rate limited', async () => {
+    fake.rateLimit(/\/comments\/post\//, 45);
+
+    await expect(
+      deviantart.postDeviationComment(user, 'any-deviation', 'First!')
+    ).rejects.toMatchObject({ status: 429, retryAfter: '45' });
+  });
+
+  it('should edit the metadata of a published deviation', async () => {
+    const { deviationId } = (await deviantart.publishToDeviantArt(deviation, user, 'single')) as {
+      deviationId: string;
+    };
+
+    await deviantart.updateDeviationMetadata(user, deviationId, {
+      title: 'Dragon Study (Archived)',
+      tags: ['archive'],
+    });
+
+    expect(fake.deviations.get(deviationId)).toMatchObject({
+      title: 'Dragon Study (Archived)',
+      tags: ['archive'],
+    });
+  });
+
+  it('should move a published deviation into another gallery folder', async () => {
+    const { deviationId } = (await deviantart.publishToDeviantArt(deviation, user, 'single')) as {
+      deviationId: string;
+    };
+    const archive = fake.createFolder(daUser.userid, 'Archive');
+
+    await deviantart.moveDeviationsToFolder(user, archive.folderid, [deviationId]);
+
+    expect(fake.deviations.get(deviationId)?.galleryIds).toEqual([archive.folderid]);
+  });
+});
@@ -17,6 +17,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { User, Deviation, DeviationFile } from '../db/index';
+import { encryptToken, decryptToken } from '@isekai/shared';
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -236,10 +239,41 @@ describe('deviantart', () => {
       expect(prisma.user.update).toHaveBeenCalledWith({
         where: { id: 'user-1' },
         data: expect.objectContaining({
-          accessToken: 'new-access',
-          refreshToken: 'new-refresh',
+          accessToken: expect.stringMatching(/^enc:v1:/),
+          refreshToken: expect.stringMatching(/^enc:v1:/),
+        }),
+      });
+
+      const updateCall = (prisma.user.update as any).mock.calls[0][0];
+      expect(decryptToken(updateCall.data.accessToken)).toBe('new-access');
+      expect(decryptToken(updateCall.data.refreshToken)).toBe('new-refresh');
+    });
+
+    it('should return the decrypted access token when stored encrypted', async () => {
+      mockUser.accessToken = encryptToken('access-token');
+
+      const result = await refreshTokenIfNeeded(mockUser);
+
+      expect(result).toBe('access-token');
+    });
+
+    it('should send the decrypted refresh token to DeviantArt', async () => {
+      mockUser.tokenExpiresAt = new Date(Date.now() + 2 * 60 * 1000);
+      mockUser.refreshToken = encryptToken('refresh-token');
+
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          access_token: 'new-access',
+          refresh_token: 'new-refresh',
+          expires_in: 3600,
         }),
       });
+
+      await refreshTokenIfNeeded(mockUser);
+
+      const body = (fetch as any).mock.calls[0][1].body as URLSearchParams;
+      expect(body.get('refresh_token')).toBe('refresh-token');
     });
 
     it('should detect expired refresh token when error contains "invalid"', async () => {
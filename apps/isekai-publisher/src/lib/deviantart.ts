@@ -1,6 +1,13 @@
 import { prisma, User, Deviation, DeviationFile } from '../db/index.js';
 import { GetObjectCommand } from '@aws-sdk/client-s3';
-import type { UploadMode } from '@isekai/shared';
+import {
+  encryptToken,
+  decryptToken,
+  getDeviantArtEndpoints,
+  sanitizeTag,
+  type UploadMode,
+  type MetadataUpdatePayload,
+} from '@isekai/shared';
 import { getS3Client, getStorageConfig } from '@isekai/shared/storage';
 
 // DeviantArt API response types
@@ -21,8 +28,11 @@ interface DeviantArtPublishResponse {
   url: string;
 }
 
-const DEVIANTART_TOKEN_URL = 'https://www.deviantart.com/oauth2/token';
-const DEVIANTART_API_URL = 'https://www.deviantart.com/api/v1/oauth2';
+interface DeviantArtCommentResponse {
+  commentid: string;
+}
+
+const { tokenUrl: DEVIANTART_TOKEN_URL, apiUrl: DEVIANTART_API_URL } = getDeviantArtEndpoints();
 
 // Get S3 client and config from shared storage module
 const s3Client = getS3Client();
@@ -45,7 +55,7 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
 
   // Check if access token is still valid
   if (user.tokenExpiresAt > fiveMinutesFromNow) {
-    return user.accessToken;
+    return decryptToken(user.accessToken);
   }
 
   console.log(`Refreshing access token for user ${user.id}`);
@@ -57,7 +67,7 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
       grant_type: 'refresh_token',
       client_id: process.env.DEVIANTART_CLIENT_ID!,
       client_secret: process.env.DEVIANTART_CLIENT_SECRET!,
-      refresh_token: user.refreshToken,
+      refresh_token: decryptToken(user.refreshToken),
     }),
   });
 
@@ -93,8 +103,8 @@ export async function refreshTokenIfNeeded(user: User): Promise<string> {
   await prisma.user.update({
     where: { id: user.id },
     data: {
-      accessToken: access_token,
-      refreshToken: refresh_token,
+      accessToken: encryptToken(access_token),
+      refreshToken: encryptToken(refresh_token),
       tokenExpiresAt,
       refreshTokenExpiresAt,
       lastRefreshTokenRefresh: new Date(),
@@ -345,9 +355,7 @@ async function uploadSingleFileToDeviantArt(
 
   // Sanitize and add tags as array with brackets (replace spaces with underscores, DeviantArt allows only letters/numbers/underscore)
   if (deviation.tags && deviation.tags.length > 0) {
-    const sanitizedTags = deviation.tags
-      .map((tag) => tag.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, ''))
-      .filter((tag) => tag.length > 0);
+    const sanitizedTags = deviation.tags.map(sanitizeTag).filter((tag) => tag.length > 0);
 
     if (sanitizedTags.length > 0) {
       // Send as array with brackets (don't encode the brackets): tags[]=dog&tags[]=cat
@@ -481,3 +489,134 @@ export async function publishToDeviantArt(
     );
   }
 }
+
+/**
+ * Post a comment on a published deviation as its owner
+ */
+export async function postDeviationComment(
+  user: User,
+  deviantArtDeviationId: string,
+  body: string
+): Promise<{ commentId: string }> {
+  const accessToken = await refreshTokenIfNeeded(user);
+
+  const response = await fetch(
+    `${DEVIANTART_API_URL}/comments/post/deviation/${encodeURIComponent(deviantArtDeviationId)}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ body }),
+    }
+  );
+
+  if (!response.ok) {
+    throw await createDeviantArtError(response, 'comment');
+  }
+
+  const result = (await response.json()) as DeviantArtCommentResponse;
+  return { commentId: result.commentid };
+}
+
+/**
+ * Build the error thrown for a failed DeviantArt request
+ * Carries status and Retry-After so the error categorizer and rate limiter can use them
+ */
+async function createDeviantArtError(response: Response, label: string): Promise<Error> {
+  const errorText = await response.text();
+  const retryAfter = response.headers.get('Retry-After');
+
+  const error: any = new Error(
+    response.status === 429
+      ? `DeviantArt API rate limit exceeded. Retry after ${retryAfter ?? 'unknown'} seconds.`
+      : `DeviantArt ${label} error: ${response.status} ${errorText}`
+  );
+  error.status = response.status;
+  error.retryAfter = retryAfter;
+  error.responseBody = errorText;
+  return error;
+}
+
+/**
+ * Update title, tags or description of a published deviation
+ * Only the fields present in metadata are sent
+ */
+export async function updateDeviationMetadata(
+  user: User,
+  deviantArtDeviationId: string,
+  metadata: MetadataUpdatePayload
+): Promise<void> {
+  const accessToken = await refreshTokenIfNeeded(user);
+
+  const formData = new URLSearchParams();
+  if (metadata.title !== undefined) {
+    formData.append('title', metadata.title);
+  }
+  if (metadata.description !== undefined) {
+    formData.append('artist_comments', metadata.description);
+  }
+  metadata.tags?.forEach((tag) => formData.append('tags[]', tag));
+
+  const response = await fetch(
+    `${DEVIANTART_API_URL}/deviation/edit/${encodeURIComponent(deviantArtDeviationId)}`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData,
+    }
+  );
+
+  if (!response.ok) {
+    throw await createDeviantArtError(response, 'edit');
+  }
+}
+
+/**
+ * Move or copy deviations into a gallery folder
+ */
+async function addDeviationsToFolder(
+  user: User,
+  endpoint: 'copy_deviations' | 'move_deviations',
+  targetFolderId: string,
+  deviantArtDeviationIds: string[]
+): Promise<void> {
+  const accessToken = await refreshTokenIfNeeded(user);
+
+  const formData = new URLSearchParams();
+  formData.append('target_folderid', targetFolderId);
+  deviantArtDeviationIds.forEach((id) => formData.append('deviationids[]', id));
+
+  const response = await fetch(`${DEVIANTART_API_URL}/gallery/folders/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw await createDeviantArtError(response, 'gallery');
+  }
+}
+
+export async function moveDeviationsToFolder(
+  user: User,
+  targetFolderId: string,
+  deviantArtDeviationIds: string[]
+): Promise<void> {
+  await addDeviationsToFolder(user, 'move_deviations', targetFolderId, deviantArtDeviationIds);
+}
+
+export async function copyDeviationsToFolder(
+  user: User,
+  targetFolderId: string,
+  deviantArtDeviationIds: string[]
+): Promise<void> {
+  await addDeviationsToFolder(user, 'copy_deviations', targetFolderId, deviantArtDeviationIds);
+}
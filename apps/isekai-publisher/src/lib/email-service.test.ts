@@ -42,6 +42,7 @@ import {
   sendRefreshTokenWarningEmail,
   sendRefreshTokenExpiredEmail,
   sendRefreshTokenExpiredJobNotification,
+  sendAutomationPoolAlertEmail,
 } from './email-service.js';
 
 describe('email-service', () => {
@@ -298,4 +299,44 @@ describe('email-service', () => {
       expect(call.html).toContain('https://isekai.sh/drafts');
     });
   });
+
+  describe('sendAutomationPoolAlertEmail', () => {
+    const alert = {
+      automationId: 'automation-123',
+      automationName: 'Daily Upload',
+      remainingDrafts: 1,
+      paused: false,
+    };
+
+    it('should warn about a low draft pool', async () => {
+      mockSend.mockResolvedValueOnce({ id: 'email-123' });
+
+      await sendAutomationPoolAlertEmail(createUser(), alert);
+
+      const call = mockSend.mock.calls[0][0];
+      expect(call.subject).toBe('Running low on drafts: "Daily Upload"');
+      expect(call.html).toContain('1 draft</strong> left');
+      expect(call.html).toContain('https://isekai.sh/automation/automation-123');
+    });
+
+    it('should tell the user the automation was paused', async () => {
+      mockSend.mockResolvedValueOnce({ id: 'email-123' });
+
+      await sendAutomationPoolAlertEmail(createUser(), {
+        ...alert,
+        remainingDrafts: 0,
+        paused: true,
+      });
+
+      const call = mockSend.mock.calls[0][0];
+      expect(call.subject).toBe('Automation paused: "Daily Upload" ran out of drafts');
+      expect(call.html).toContain('enable it again');
+    });
+
+    it('should skip email when user has no email address', async () => {
+      await sendAutomationPoolAlertEmail(createUser({ email: null }), alert);
+
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
 });
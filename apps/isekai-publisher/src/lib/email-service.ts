@@ -202,3 +202,68 @@ export async function sendRefreshTokenExpiredJobNotification(user: User, deviati
     console.error(`[Email] Failed to send job failure email to ${user.username}:`, error);
   }
 }
+
+export interface AutomationPoolAlert {
+  automationId: string;
+  automationName: string;
+  remainingDrafts: number;
+  // Set when the automation paused itself
+  paused: boolean;
+}
+
+export async function sendAutomationPoolAlertEmail(user: User, alert: AutomationPoolAlert) {
+  const resend = getResendClient();
+  if (!resend) {
+    return;
+  }
+
+  if (!user.email) {
+    console.log(`[Email] Skipping draft pool email for ${user.username} - no email address`);
+    return;
+  }
+
+  const { automationId, automationName, remainingDrafts, paused } = alert;
+
+  try {
+    await resend.emails.send({
+      from: env.EMAIL_FROM,
+      to: user.email,
+      subject: paused
+        ? `Automation paused: "${automationName}" ran out of drafts`
+        : `Running low on drafts: "${automationName}"`,
+      html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: ${paused ? '#dc2626' : '#ea580c'}; margin-bottom: 16px;">${paused ? 'Automation Paused' : 'Running Low on Drafts'}</h2>
+          <p style="font-size: 16px; line-height: 1.6; color: #1f2937;">Hi ${user.username},</p>
+          <p style="font-size: 16px; line-height: 1.6; color: #1f2937;">
+            ${
+              paused
+                ? `Your automation "<strong>${automationName}</strong>" has no drafts left to schedule, so we paused it.`
+                : `Your automation "<strong>${automationName}</strong>" has only <strong style="color: #ea580c;">${remainingDrafts} draft${remainingDrafts !== 1 ? 's' : ''}</strong> left to schedule.`
+            }
+          </p>
+          <p style="font-size: 16px; line-height: 1.6; color: #1f2937;">
+            Upload new drafts or widen the automation's draft pool${paused ? ', then enable it again' : ''} to keep posting.
+          </p>
+
+          <div style="text-align: center; margin: 32px 0;">
+            <a href="${env.FRONTEND_URL}/automation/${automationId}"
+               style="background: #4F46E5; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600;">
+              View Automation
+            </a>
+          </div>
+
+          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;">
+
+          <p style="font-size: 14px; color: #9ca3af;">
+            Best regards,<br>
+            The Isekai Team
+          </p>
+        </div>
+      `,
+    });
+    console.log(`[Email] Sent draft pool email to ${user.username} (${user.email})`);
+  } catch (error) {
+    console.error(`[Email] Failed to send draft pool email to ${user.username}:`, error);
+  }
+}
@@ -134,6 +134,8 @@ describe('env validation', () => {
       expect(result.PUBLISHER_STALE_CHECK_INTERVAL_MS).toBe(60000);
       expect(result.PUBLISHER_MAX_STALLED_COUNT).toBe(2);
       expect(result.PUBLISHER_LIMITER_MAX).toBe(2);
+      expect(result.PUBLISHER_MAX_JOBS_PER_USER).toBe(0);
+      expect(result.PUBLISHER_USER_DEFER_MS).toBe(10000);
       expect(result.RATE_LIMITER_ENABLED).toBe(true);
       expect(result.RATE_LIMITER_BASE_DELAY_MS).toBe(3000);
       expect(result.RATE_LIMITER_MAX_DELAY_MS).toBe(300000);
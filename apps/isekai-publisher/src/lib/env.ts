@@ -8,6 +8,10 @@ const envSchema = z.object({
   // DeviantArt OAuth
   DEVIANTART_CLIENT_ID: z.string().min(1, 'DEVIANTART_CLIENT_ID is required'),
   DEVIANTART_CLIENT_SECRET: z.string().min(1, 'DEVIANTART_CLIENT_SECRET is required'),
+  // DeviantArt endpoint overrides (defaults to deviantart.com; point at a local fake for tests)
+  DEVIANTART_API_URL: z.string().url().optional(),
+  DEVIANTART_TOKEN_URL: z.string().url().optional(),
+  DEVIANTART_AUTH_URL: z.string().url().optional(),
 
   // S3-Compatible Storage (MinIO, Cloudflare R2, AWS S3, etc.)
   S3_ENDPOINT: z.string().optional(), // Optional for AWS S3
@@ -19,6 +23,13 @@ const envSchema = z.object({
   S3_FORCE_PATH_STYLE: z.coerce.boolean().default(false),
   S3_PATH_PREFIX: z.string().optional(), // Optional path prefix for multi-tenant storage
 
+  // Token Encryption (shared with backend)
+  ENCRYPTION_KEY: z
+    .string()
+    .length(64, 'ENCRYPTION_KEY must be 64 characters (32 bytes hex)')
+    .optional(),
+  ENCRYPTION_KEY_PREVIOUS: z.string().optional(), // Comma-separated retired keys, kept for decryption during rotation
+
   // Application
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 
@@ -33,6 +44,8 @@ const envSchema = z.object({
   PUBLISHER_STALE_CHECK_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
   PUBLISHER_MAX_STALLED_COUNT: z.coerce.number().int().positive().default(2),
   PUBLISHER_LIMITER_MAX: z.coerce.number().int().positive().default(2),
+  PUBLISHER_MAX_JOBS_PER_USER: z.coerce.number().int().min(0).default(0), // 0 = no per-user limit
+  PUBLISHER_USER_DEFER_MS: z.coerce.number().int().positive().default(10000),
 
   // Rate Limiter
   RATE_LIMITER_ENABLED: z.coerce.boolean().default(true),
@@ -16,6 +16,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeviantArtQuota } from '@isekai/shared';
 import { AdaptiveRateLimiter } from './rate-limiter';
 import { createRedisMock } from '../test-helpers/redis-mock';
 
@@ -72,6 +73,10 @@ describe('AdaptiveRateLimiter', () => {
       return 1; // Allowed
     });
 
+    // App-wide quota is covered in @isekai/shared
+    vi.spyOn(DeviantArtQuota.prototype, 'tryAcquire').mockResolvedValue({ allowed: true });
+    vi.spyOn(DeviantArtQuota.prototype, 'recordRateLimited').mockResolvedValue();
+
     limiter = new AdaptiveRateLimiter(redis);
     vi.spyOn(console, 'error').mockImplementation(() => {});
   });
@@ -164,6 +169,33 @@ describe('AdaptiveRateLimiter', () => {
     });
   });
 
+  describe('App-wide quota', () => {
+    it('should take a publish token when the user is allowed', async () => {
+      const result = await limiter.shouldAllowRequest('user-1');
+
+      expect(result.allowed).toBe(true);
+      expect(DeviantArtQuota.prototype.tryAcquire).toHaveBeenCalledWith('publish');
+    });
+
+    it('should deny when the app-wide quota is exhausted', async () => {
+      vi.mocked(DeviantArtQuota.prototype.tryAcquire).mockResolvedValue({
+        allowed: false,
+        waitMs: 5000,
+        reason: 'APP_QUOTA',
+      });
+
+      const result = await limiter.shouldAllowRequest('user-1');
+
+      expect(result).toEqual({ allowed: false, waitMs: 5000, reason: 'APP_QUOTA' });
+    });
+
+    it('should pause all users after a 429', async () => {
+      await limiter.recordFailure('user-1', '120');
+
+      expect(DeviantArtQuota.prototype.recordRateLimited).toHaveBeenCalledWith(120000);
+    });
+  });
+
   describe('recordSuccess', () => {
     it('should update state after successful request', async () => {
       await limiter.recordSuccess('user-1');
@@ -0,0 +1,128 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UserConcurrencyLimiter } from './user-concurrency';
+import { createRedisMock } from '../test-helpers/redis-mock';
+
+describe('UserConcurrencyLimiter', () => {
+  let redis: any;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    originalEnv = process.env;
+    process.env = {
+      ...originalEnv,
+      PUBLISHER_MAX_JOBS_PER_USER: '2',
+      PUBLISHER_USER_DEFER_MS: '10000',
+      PUBLISHER_JOB_TIMEOUT_MS: '60000',
+    };
+    redis = createRedisMock();
+    await redis.flushdb();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.useRealTimers();
+  });
+
+  it('should allow jobs up to the per-user limit', async () => {
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    expect(await limiter.tryAcquire('user-1', 'job-1')).toEqual({ allowed: true });
+    expect(await limiter.tryAcquire('user-1', 'job-2')).toEqual({ allowed: true });
+
+    const check = await limiter.tryAcquire('user-1', 'job-3');
+    expect(check.allowed).toBe(false);
+    expect(check.waitMs).toBeGreaterThan(0);
+  });
+
+  it('should not limit other users', async () => {
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    await limiter.tryAcquire('user-1', 'job-1');
+    await limiter.tryAcquire('user-1', 'job-2');
+
+    expect(await limiter.tryAcquire('user-2', 'job-3')).toEqual({ allowed: true });
+  });
+
+  it('should free the slot on release', async () => {
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    await limiter.tryAcquire('user-1', 'job-1');
+    await limiter.tryAcquire('user-1', 'job-2');
+    await limiter.release('user-1', 'job-1');
+
+    expect(await limiter.tryAcquire('user-1', 'job-3')).toEqual({ allowed: true });
+  });
+
+  it('should allow a job that already holds a slot', async () => {
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    await limiter.tryAcquire('user-1', 'job-1');
+    await limiter.tryAcquire('user-1', 'job-2');
+
+    expect(await limiter.tryAcquire('user-1', 'job-1')).toEqual({ allowed: true });
+  });
+
+  it('should space deferred jobs of the same user apart', async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T12:00:00Z'), toFake: ['Date'] });
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    await limiter.tryAcquire('user-1', 'job-1');
+    await limiter.tryAcquire('user-1', 'job-2');
+
+    const first = await limiter.tryAcquire('user-1', 'job-3');
+    const second = await limiter.tryAcquire('user-1', 'job-4');
+    const third = await limiter.tryAcquire('user-1', 'job-5');
+
+    expect(first.waitMs).toBe(10000);
+    expect(second.waitMs).toBe(20000);
+    expect(third.waitMs).toBe(30000);
+  });
+
+  it('should expire slots after the job timeout', async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T12:00:00Z'), toFake: ['Date'] });
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    await limiter.tryAcquire('user-1', 'job-1');
+    await limiter.tryAcquire('user-1', 'job-2');
+
+    vi.setSystemTime(new Date('2025-01-01T12:01:01Z'));
+
+    expect(await limiter.tryAcquire('user-1', 'job-3')).toEqual({ allowed: true });
+  });
+
+  it('should allow everything when disabled', async () => {
+    process.env.PUBLISHER_MAX_JOBS_PER_USER = '0';
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    for (let i = 0; i < 5; i++) {
+      expect(await limiter.tryAcquire('user-1', `job-${i}`)).toEqual({ allowed: true });
+    }
+  });
+
+  it('should allow jobs when Redis fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    redis.eval = vi.fn().mockRejectedValue(new Error('Connection lost'));
+    const limiter = new UserConcurrencyLimiter(redis);
+
+    expect(await limiter.tryAcquire('user-1', 'job-1')).toEqual({ allowed: true });
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Per-User Concurrency Limiter
+ *
+ * Optional cap on the worker slots one user can hold (PUBLISHER_MAX_JOBS_PER_USER, off
+ * by default). Users already take turns at pickup through PublishTurns; this limits how
+ * many of a user's ready jobs run side by side. Features:
+ * - Redis-backed active job set per user, shared by all publisher replicas
+ * - Slots are leases that expire after the job timeout (crashed workers don't leak slots)
+ * - Jobs over the limit get a place in a per-user line, spaced apart, so a user's
+ *   backlog trickles back into the queue
+ */
+
+import type { Redis } from 'ioredis';
+
+export interface UserConcurrencyCheck {
+  allowed: boolean;
+  waitMs?: number; // How long to defer the job when not allowed
+}
+
+/**
+ * Lua script for atomic slot acquisition
+ *
+ * KEYS[1] = active job set (score = lease expiry)
+ * KEYS[2] = deferred job line (score = time the job comes back)
+ * ARGV[1] = job ID
+ * ARGV[2] = max active jobs per user
+ * ARGV[3] = current timestamp
+ * ARGV[4] = lease duration in ms
+ * ARGV[5] = spacing between deferred jobs in ms
+ *
+ * Returns 0 when a slot was acquired, otherwise the timestamp to defer the job until
+ */
+const ACQUIRE_SCRIPT = `
+  local jobId = ARGV[1]
+  local limit = tonumber(ARGV[2])
+  local now = tonumber(ARGV[3])
+  local leaseMs = tonumber(ARGV[4])
+  local spacing = tonumber(ARGV[5])
+
+  -- Drop expired leases
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+
+  if redis.call('ZSCORE', KEYS[1], jobId) or redis.call('ZCARD', KEYS[1]) < limit then
+    redis.call('ZADD', KEYS[1], now + leaseMs, jobId)
+    redis.call('PEXPIRE', KEYS[1], leaseMs)
+    redis.call('ZREM', KEYS[2], jobId)
+    return 0
+  end
+
+  -- Place the job at the end of the user's line
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+  local deferUntil = now + spacing
+  local last = redis.call('ZRANGE', KEYS[2], -1, -1, 'WITHSCORES')
+  if last[2] then
+    deferUntil = math.max(deferUntil, tonumber(last[2]) + spacing)
+  end
+  redis.call('ZADD', KEYS[2], deferUntil, jobId)
+  redis.call('PEXPIRE', KEYS[2], deferUntil - now + spacing)
+  return deferUntil
+`;
+
+/**
+ * Per-User Concurrency Limiter
+ *
+ * Limits how many publish jobs run at once for a single user across all workers
+ */
+export class UserConcurrencyLimiter {
+  private redis: Redis | null;
+  private maxJobsPerUser: number;
+  private deferSpacingMs: number;
+  private leaseMs: number;
+
+  constructor(redis: Redis | null) {
+    this.redis = redis;
+
+    // Configuration from environment (0 disables the limit)
+    this.maxJobsPerUser = parseInt(process.env.PUBLISHER_MAX_JOBS_PER_USER || '0');
+    this.deferSpacingMs = parseInt(process.env.PUBLISHER_USER_DEFER_MS || '10000');
+    this.leaseMs = parseInt(process.env.PUBLISHER_JOB_TIMEOUT_MS || '1200000');
+  }
+
+  /**
+   * Try to take a slot for a job
+   *
+   * When the user is at the limit, returns how long to defer the job. Deferred jobs of
+   * the same user are spaced `PUBLISHER_USER_DEFER_MS` apart so a large backlog doesn't
+   * keep re-entering the queue at once.
+   */
+  async tryAcquire(userId: string, jobId: string): Promise<UserConcurrencyCheck> {
+    if (!this.redis || !this.isEnabled()) {
+      return { allowed: true };
+    }
+
+    try {
+      const now = Date.now();
+      const result = await this.redis.eval(
+        ACQUIRE_SCRIPT,
+        2,
+        this.getActiveKey(userId),
+        this.getDeferredKey(userId),
+        jobId,
+        this.maxJobsPerUser.toString(),
+        now.toString(),
+        this.leaseMs.toString(),
+        this.deferSpacingMs.toString()
+      );
+
+      const deferUntil = Number(result);
+      if (deferUntil === 0) {
+        return { allowed: true };
+      }
+
+      return { allowed: false, waitMs: Math.max(0, deferUntil - now) };
+    } catch (error) {
+      // Fail open - a Redis hiccup shouldn't hold back every user's posts
+      console.error('[UserConcurrency] Error acquiring slot:', error);
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Release a job's slot
+   */
+  async release(userId: string, jobId: string): Promise<void> {
+    if (!this.redis || !this.isEnabled()) return;
+
+    try {
+      await this.redis.zrem(this.getActiveKey(userId), jobId);
+    } catch (error) {
+      // Lease expires on its own
+      console.error('[UserConcurrency] Error releasing slot:', error);
+    }
+  }
+
+  /**
+   * Check if the per-user limit is enabled
+   */
+  private isEnabled(): boolean {
+    return this.maxJobsPerUser > 0;
+  }
+
+  private getActiveKey(userId: string): string {
+    return `user_concurrency:${userId}:active`;
+  }
+
+  private getDeferredKey(userId: string): string {
+    return `user_concurrency:${userId}:deferred`;
+  }
+}
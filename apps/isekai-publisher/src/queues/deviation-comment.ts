@@ -0,0 +1,116 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { prisma } from '../db/index.js';
+import { postDeviationComment } from '../lib/deviantart.js';
+import { postFirstCommentJob, type DeviationCommentJobData } from '@isekai/shared';
+import { ErrorCategorizer } from '../lib/error-categorizer.js';
+import { StructuredLogger } from '../lib/structured-logger.js';
+import { AdaptiveRateLimiter } from '../lib/rate-limiter.js';
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+const connection = new Redis(redisUrl, {
+  maxRetriesPerRequest: null,
+  tls: redisUrl.startsWith('rediss://')
+    ? {
+        rejectUnauthorized: false, // Accept self-signed certificates for internal Redis
+      }
+    : undefined,
+});
+
+// Give DeviantArt a moment to finish indexing the new deviation before commenting
+const FIRST_COMMENT_DELAY_MS = 30000;
+
+const errorCategorizer = new ErrorCategorizer();
+const rateLimiter = new AdaptiveRateLimiter(connection);
+
+// Respect the rate limiter's wait time, otherwise back off exponentially (30s, 60s, 120s...)
+function calculateBackoff(attemptsMade: number, _type?: string, err?: Error): number {
+  const match = err?.message?.match(/RATE_LIMITED: Wait (\d+)ms/);
+  if (match) {
+    return parseInt(match[1]);
+  }
+
+  return Math.min(30000 * Math.pow(2, attemptsMade - 1), 15 * 60 * 1000);
+}
+
+/**
+ * Queue for posting the first comment after a successful publish
+ * Separate from main publisher queue so comment retries never hold up publishing
+ */
+export const deviationCommentQueue = new Queue<DeviationCommentJobData>('deviation-comment', {
+  connection,
+  defaultJobOptions: {
+    attempts: 5,
+    backoff: { type: 'custom' }, // Computed by the worker's backoffStrategy
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days for debugging
+      count: 1000, // Prevent Redis memory exhaustion
+    },
+  },
+});
+
+/**
+ * Worker to post first comments using the shared comment job
+ */
+export const deviationCommentWorker = new Worker<DeviationCommentJobData>(
+  'deviation-comment',
+  async (job: Job<DeviationCommentJobData>) => {
+    return await postFirstCommentJob(job, {
+      prisma,
+      logger: StructuredLogger,
+      rateLimiter,
+      errorCategorizer,
+      postDeviationComment,
+    });
+  },
+  {
+    connection,
+    settings: { backoffStrategy: calculateBackoff },
+    concurrency: 1, // Comments share the user's DeviantArt quota with publishing
+  }
+);
+
+/**
+ * Queue the first comment for a published deviation
+ * Uses jobId to prevent duplicate comments for the same deviation
+ */
+export async function queueFirstComment(deviationId: string, userId: string): Promise<void> {
+  await deviationCommentQueue.add(
+    'comment',
+    { deviationId, userId },
+    {
+      jobId: `deviation-comment-${deviationId}`, // Prevent duplicates
+      delay: FIRST_COMMENT_DELAY_MS,
+    }
+  );
+}
+
+// Event handlers for monitoring
+deviationCommentWorker.on('completed', (job) => {
+  const logger = StructuredLogger.createJobLogger(job);
+  logger.info('First comment job completed', {
+    deviationId: job.data.deviationId,
+    posted: job.returnvalue?.posted,
+    commentId: job.returnvalue?.commentId,
+  });
+});
+
+deviationCommentWorker.on('failed', (job, error) => {
+  if (job) {
+    const logger = StructuredLogger.createJobLogger(job);
+    logger.error('First comment job failed', error, {
+      deviationId: job.data.deviationId,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts,
+    });
+  }
+});
+
+deviationCommentWorker.on('stalled', (jobId) => {
+  console.error(`First comment job ${jobId} has stalled`);
+});
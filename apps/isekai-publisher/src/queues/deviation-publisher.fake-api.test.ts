@@ -0,0 +1,306 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Whole publish jobs against the local DeviantArt fake - the real worker processor, publisher
+ * core, circuit breaker and DeviantArt client over real HTTP and in-memory Redis. BullMQ hands
+ * the jobs over directly; the database is an in-memory table.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { CircuitBreaker, encryptToken, PublishPriority, getJobPriority } from '@isekai/shared';
+import { FakeDeviantArtServer, type FakeDeviantArtUser } from '@isekai/shared/testing';
+
+process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+process.env.REDIS_URL = 'redis://localhost:6379';
+
+const { mockSend, mockSendRefreshTokenExpiredJobNotification, deviations, users, captured } =
+  vi.hoisted(() => ({
+    mockSend: vi.fn(),
+    mockSendRefreshTokenExpiredJobNotification: vi.fn(),
+    deviations: new Map<string, Record<string, any>>(),
+    users: new Map<string, Record<string, any>>(),
+    captured: { processor: null as null | ((job: any, token?: string) => Promise<any>) },
+  }));
+
+vi.mock('bullmq', () => ({
+  Queue: class MockQueue {
+    add = vi.fn();
+    getJob = vi.fn();
+    close = vi.fn();
+  },
+  Worker: class MockWorker {
+    constructor(name: string, processor: (job: any, token?: string) => Promise<any>) {
+      if (name === 'deviation-publisher') {
+        captured.processor = processor;
+      }
+    }
+    on = vi.fn();
+    close = vi.fn();
+  },
+  QueueEvents: class MockQueueEvents {},
+  DelayedError: class MockDelayedError extends Error {},
+}));
+
+vi.mock('ioredis', async () => {
+  const RedisMock = (await import('ioredis-mock')).default;
+  return { Redis: RedisMock };
+});
+
+vi.mock('@isekai/shared/storage', () => ({
+  getS3Client: vi.fn(() => ({ send: mockSend })),
+  getStorageConfig: vi.fn(() => ({
+    bucketName: 'test-bucket',
+    publicUrl: 'https://cdn.example.com',
+  })),
+}));
+
+// ioredis-mock has no cjson for the adaptive limiter's Lua script - run it without Redis
+vi.mock('../lib/rate-limiter.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/rate-limiter.js')>();
+  return {
+    ...actual,
+    AdaptiveRateLimiter: class extends actual.AdaptiveRateLimiter {
+      constructor() {
+        super(null);
+      }
+    },
+  };
+});
+
+vi.mock('./storage-cleanup.js', () => ({ queueStorageCleanup: vi.fn() }));
+vi.mock('./deviation-comment.js', () => ({ queueFirstComment: vi.fn() }));
+vi.mock('./webhook-delivery.js', () => ({ emitWebhookEvent: vi.fn() }));
+vi.mock('../lib/email-service.js', () => ({
+  sendRefreshTokenExpiredJobNotification: mockSendRefreshTokenExpiredJobNotification,
+}));
+
+// Just enough of Prisma's filters for the queries of a publish job
+function matches(row: Record<string, any>, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return condition.some((branch: any) => matches(row, branch));
+    if (condition instanceof Date || condition === null || typeof condition !== 'object') {
+      return row[key] === condition || (row[key] ?? null) === condition;
+    }
+    if ('not' in condition) return row[key] !== condition.not;
+    if ('lt' in condition) return row[key] != null && row[key] < condition.lt;
+    if ('gte' in condition) return row[key] != null && row[key] >= condition.gte;
+    return true;
+  });
+}
+
+function apply(row: Record<string, any>, data: Record<string, any>) {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] =
+      value && typeof value === 'object' && 'increment' in value
+        ? (row[key] ?? 0) + value.increment
+        : value;
+  }
+  return row;
+}
+
+vi.mock('../db/index.js', () => {
+  const deviation = {
+    findFirst: vi.fn(async ({ where }: any) => {
+      const row = [...deviations.values()].find((candidate) => matches(candidate, where));
+      return row ? { ...row, user: users.get(row.userId) ?? null } : null;
+    }),
+    findMany: vi.fn(async ({ where }: any) =>
+      [...deviations.values()].filter((candidate) => matches(candidate, where))
+    ),
+    update: vi.fn(async ({ where, data }: any) => apply(deviations.get(where.id)!, data)),
+    updateMany: vi.fn(async ({ where, data }: any) => {
+      const rows = [...deviations.values()].filter((candidate) => matches(candidate, where));
+      rows.forEach((row) => apply(row, data));
+      return { count: rows.length };
+    }),
+  };
+  const prisma = {
+    deviation,
+    user: {
+      update: vi.fn(async ({ where, data }: any) => apply(users.get(where.id)!, data)),
+    },
+    deviationEvent: { createMany: vi.fn() },
+    deadLetterJob: { create: vi.fn(async ({ data }: any) => ({ id: 'dead-letter-1', ...data })) },
+    $transaction: vi.fn(async (operation: (tx: any) => Promise<any>) => operation(prisma)),
+  };
+  return { prisma };
+});
+
+describe('deviation publisher (fake API)', () => {
+  let fake: FakeDeviantArtServer;
+  let daUser: FakeDeviantArtUser;
+
+  function createJob(attemptsMade = 0) {
+    return {
+      id: 'deviation-dev-1',
+      name: 'publish-deviation',
+      data: { deviationId: 'dev-1', userId: 'user-1', uploadMode: 'single' },
+      opts: { attempts: 7, priority: getJobPriority(PublishPriority.SCHEDULED, 0) },
+      attemptsMade,
+      moveToDelayed: vi.fn(),
+    };
+  }
+
+  beforeAll(async () => {
+    fake = await FakeDeviantArtServer.start();
+    Object.assign(process.env, fake.env());
+    // Endpoints are resolved at module load, so import after the env points at the fake
+    await import('./deviation-publisher.js');
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { Redis } = await import('ioredis');
+    await new Redis().flushall();
+    await CircuitBreaker.resetAll();
+
+    fake.reset();
+    daUser = fake.createUser({ username: 'artist' });
+
+    users.clear();
+    users.set('user-1', {
+      id: 'user-1',
+      username: 'artist',
+      email: 'artist@example.com',
+      accessToken: encryptToken(daUser.accessToken),
+      refreshToken: encryptToken(daUser.refreshToken),
+      tokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      refreshTokenExpiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+    });
+
+    deviations.clear();
+    deviations.set('dev-1', {
+      id: 'dev-1',
+      userId: 'user-1',
+      status: 'scheduled',
+      title: 'Dragon Study',
+      description: 'Sketchbook page',
+      tags: ['dragon', 'sketch'],
+      categoryPath: null,
+      isMature: false,
+      matureLevel: null,
+      allowComments: true,
+      allowFreeDownload: false,
+      isAiGenerated: false,
+      noAi: false,
+      galleryIds: [],
+      stashItemId: null,
+      stashOnly: false,
+      displayResolution: 0,
+      addWatermark: false,
+      automationId: null,
+      executionLockId: null,
+      executionLockedAt: null,
+      executionVersion: 0,
+      postCountIncremented: false,
+      files: [
+        {
+          id: 'file-1',
+          deviationId: 'dev-1',
+          storageKey: 'uploads/user-1/art.png',
+          originalFilename: 'art.png',
+          mimeType: 'image/png',
+          fileSize: 5,
+          sortOrder: 0,
+        },
+      ],
+    });
+
+    mockSend.mockImplementation(async () => ({
+      Body: {
+        async *[Symbol.asyncIterator]() {
+          yield Buffer.from('image');
+        },
+      },
+    }));
+  });
+
+  it('should publish a scheduled deviation and store the DeviantArt result', async () => {
+    const folder = fake.createFolder(daUser.userid, 'Sketches');
+    deviations.get('dev-1')!.galleryIds = [folder.folderid];
+
+    const result = await captured.processor!(createJob(), 'lock-token');
+
+    const [published] = [...fake.deviations.values()];
+    expect(result).toMatchObject({ success: true });
+    expect(published).toMatchObject({ title: 'Dragon Study', galleryIds: [folder.folderid] });
+    expect(deviations.get('dev-1')).toMatchObject({
+      status: 'published',
+      deviationId: published.deviationid,
+      deviationUrl: published.url,
+      executionLockId: null,
+    });
+  });
+
+  it('should retry a rate-limited submit without publishing', async () => {
+    fake.rateLimit('/api/v1/oauth2/stash/submit', 120);
+
+    await expect(captured.processor!(createJob(), 'lock-token')).rejects.toThrow('CIRCUIT_OPEN');
+
+    expect(fake.deviations.size).toBe(0);
+    expect(deviations.get('dev-1')).toMatchObject({
+      status: 'scheduled',
+      executionLockId: null,
+    });
+
+    expect(fake.requests.at(-1)).toMatchObject({
+      path: '/api/v1/oauth2/stash/submit',
+      status: 429,
+    });
+    expect(CircuitBreaker.getStatus('deviantart:publish:user-1')).toMatchObject({ failures: 1 });
+  });
+
+  it('should publish the stashed item on the retry after a server error', async () => {
+    fake.injectFault({ path: '/api/v1/oauth2/stash/publish', status: 503 });
+
+    await expect(captured.processor!(createJob(), 'lock-token')).rejects.toThrow('503');
+    expect(fake.stash.size).toBe(1);
+
+    await captured.processor!(createJob(1), 'lock-token');
+
+    expect(deviations.get('dev-1')!.status).toBe('published');
+    expect(fake.stash.size).toBe(0);
+    expect(fake.requests.filter((request) => request.path.endsWith('/stash/submit'))).toHaveLength(
+      1
+    );
+  });
+
+  it("should pause the user's posts when the refresh token is revoked", async () => {
+    users.get('user-1')!.tokenExpiresAt = new Date(Date.now() - 1000);
+    fake.revokeRefreshToken(daUser.userid);
+
+    await expect(captured.processor!(createJob(), 'lock-token')).rejects.toMatchObject({
+      code: 'REFRESH_TOKEN_EXPIRED',
+    });
+
+    expect(fake.stash.size).toBe(0);
+    expect(deviations.get('dev-1')!.status).toBe('draft');
+    expect(mockSendRefreshTokenExpiredJobNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'user-1' }),
+      'Dragon Study'
+    );
+  });
+});
@@ -16,6 +16,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PublishPriority, getJobPriority } from '@isekai/shared';
 
 // Set environment before imports
 process.env.REDIS_URL = 'redis://localhost:6379';
@@ -69,6 +70,7 @@ vi.mock('bullmq', () => ({
   QueueEvents: class MockQueueEvents {
     constructor(queueName: string, options: any) {}
   },
+  DelayedError: class MockDelayedError extends Error {},
 }));
 
 // Mock ioredis
@@ -89,6 +91,18 @@ vi.mock('./storage-cleanup.js', () => ({
   queueStorageCleanup: (...args: any[]) => mockQueueStorageCleanup(...args),
 }));
 
+// Mock queueFirstComment
+const mockQueueFirstComment = vi.fn();
+vi.mock('./deviation-comment.js', () => ({
+  queueFirstComment: (...args: any[]) => mockQueueFirstComment(...args),
+}));
+
+// Mock webhook delivery
+const mockEmitWebhookEvent = vi.fn();
+vi.mock('./webhook-delivery.js', () => ({
+  emitWebhookEvent: (...args: any[]) => mockEmitWebhookEvent(...args),
+}));
+
 // Mock email service
 const mockSendRefreshTokenExpiredJobNotification = vi.fn();
 vi.mock('../lib/email-service.js', () => ({
@@ -115,7 +129,8 @@ vi.mock('../lib/structured-logger.js', () => ({
 
 // Mock shared publisher core
 const mockPublishDeviationJob = vi.fn();
-vi.mock('@isekai/shared', () => ({
+vi.mock('@isekai/shared', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@isekai/shared')>()),
   publishDeviationJob: (...args: any[]) => mockPublishDeviationJob(...args),
 }));
 
@@ -135,8 +150,19 @@ vi.mock('../lib/rate-limiter.js', () => ({
   },
 }));
 
+// Mock per-user concurrency limiter
+const mockTryAcquire = vi.fn();
+const mockRelease = vi.fn();
+vi.mock('../lib/user-concurrency.js', () => ({
+  UserConcurrencyLimiter: class MockUserConcurrencyLimiter {
+    tryAcquire = mockTryAcquire;
+    release = mockRelease;
+  },
+}));
+
 // Mock metrics collector
 const mockRecordStalledJob = vi.fn();
+const mockRecordUserDeferral = vi.fn();
 vi.mock('../lib/publisher-metrics.js', () => ({
   PublisherMetricsCollector: class MockMetricsCollector {
     recordJobStart = vi.fn();
@@ -144,6 +170,7 @@ vi.mock('../lib/publisher-metrics.js', () => ({
     recordJobFailure = vi.fn();
     recordStalledJob = mockRecordStalledJob;
     recordRateLimitHit = vi.fn();
+    recordUserDeferral = mockRecordUserDeferral;
     getMetrics = vi.fn(() => ({ success: 0, failure: 0 }));
     shutdown = vi.fn();
   },
@@ -192,6 +219,11 @@ describe('deviation-publisher', () => {
 
     // Clear mocks AFTER setting up console spies but BEFORE import
     vi.clearAllMocks();
+    mockTryAcquire.mockResolvedValue({ allowed: true });
+
+    // Start without any users' turns from earlier tests
+    const { Redis } = await import('ioredis');
+    await new Redis().flushall();
 
     // Import mocked prisma
     const db = await import('../db/index.js');
@@ -247,7 +279,8 @@ describe('deviation-publisher', () => {
           publishToDeviantArt: expect.any(Function),
           queueStorageCleanup: expect.any(Function),
           errorCategorizer: expect.any(Object),
-        })
+        }),
+        undefined
       );
     });
 
@@ -446,6 +479,103 @@ describe('deviation-publisher', () => {
     });
   });
 
+  describe('queueFirstComment dependency', () => {
+    it('should pass queueFirstComment function to publishDeviationJob', async () => {
+      mockPublishDeviationJob.mockImplementation(async (job, deps) => {
+        await deps.queueFirstComment('dev-456', 'user-456');
+        return { success: true, results: [] };
+      });
+
+      await workerProcessor({
+        id: 'job-123',
+        data: { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'single' },
+        attemptsMade: 0,
+        opts: { attempts: 7 },
+      });
+
+      expect(mockQueueFirstComment).toHaveBeenCalledWith('dev-456', 'user-456');
+    });
+  });
+
+  describe('worker token', () => {
+    it('should pass the lock token so the job can be deferred', async () => {
+      mockPublishDeviationJob.mockResolvedValue({ success: true, results: [] });
+      const job = {
+        id: 'job-123',
+        data: { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'single' },
+        attemptsMade: 0,
+        opts: { attempts: 7 },
+      };
+
+      await workerProcessor(job, 'token-123');
+
+      expect(mockPublishDeviationJob).toHaveBeenCalledWith(job, expect.any(Object), 'token-123');
+    });
+  });
+
+  describe('per-user concurrency', () => {
+    const createJob = () => ({
+      id: 'job-123',
+      data: { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'single' },
+      attemptsMade: 0,
+      opts: { attempts: 7 },
+      moveToDelayed: vi.fn(),
+    });
+
+    it('should defer the job when the user is at the limit', async () => {
+      vi.useFakeTimers({ now: new Date('2025-01-01T12:00:00Z'), toFake: ['Date'] });
+      mockTryAcquire.mockResolvedValue({ allowed: false, waitMs: 20000 });
+      const job = createJob();
+
+      await expect(workerProcessor(job, 'token-123')).rejects.toThrow();
+
+      expect(mockTryAcquire).toHaveBeenCalledWith('user-123', 'job-123');
+      expect(job.moveToDelayed).toHaveBeenCalledWith(
+        new Date('2025-01-01T12:00:20Z').getTime(),
+        'token-123'
+      );
+      expect(mockRecordUserDeferral).toHaveBeenCalledWith('user-123');
+      expect(mockPublishDeviationJob).not.toHaveBeenCalled();
+      expect(mockRelease).not.toHaveBeenCalled();
+      vi.useRealTimers();
+    });
+
+    it('should release the slot after the job succeeds', async () => {
+      mockPublishDeviationJob.mockResolvedValue({ success: true, results: [] });
+
+      await workerProcessor(createJob(), 'token-123');
+
+      expect(mockRelease).toHaveBeenCalledWith('user-123', 'job-123');
+    });
+
+    it('should release the slot after the job fails', async () => {
+      mockPublishDeviationJob.mockRejectedValue(new Error('Network error'));
+
+      await expect(workerProcessor(createJob(), 'token-123')).rejects.toThrow('Network error');
+
+      expect(mockRelease).toHaveBeenCalledWith('user-123', 'job-123');
+    });
+  });
+
+  describe('emitWebhookEvent dependency', () => {
+    it('should forward webhook events to the delivery queue', async () => {
+      const event = { userId: 'user-456', event: 'deviation.failed', data: {} };
+      mockPublishDeviationJob.mockImplementation(async (job, deps) => {
+        await deps.emitWebhookEvent(event);
+        return { success: true, results: [] };
+      });
+
+      await workerProcessor({
+        id: 'job-123',
+        data: { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'single' },
+        attemptsMade: 0,
+        opts: { attempts: 7 },
+      });
+
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(event);
+    });
+  });
+
   describe('scheduleDeviation', () => {
     it('should schedule a deviation with correct delay', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
@@ -467,7 +597,7 @@ describe('deviation-publisher', () => {
         {
           delay: expect.any(Number),
           jobId: 'deviation-dev-123',
-          priority: 5,
+          priority: getJobPriority(PublishPriority.SCHEDULED, 0),
         }
       );
 
@@ -508,6 +638,22 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).not.toHaveBeenCalled();
     });
 
+    it('should skip if job already exists in prioritized state', async () => {
+      const { scheduleDeviation } = await import('./deviation-publisher.js');
+
+      const mockExistingJob = {
+        id: 'job-existing',
+        getState: vi.fn().mockResolvedValue('prioritized'),
+      };
+
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+
+      const publishAt = new Date(Date.now() + 60000);
+      await scheduleDeviation('dev-123', 'user-123', publishAt, 'single');
+
+      expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
     it('should skip if job already exists in delayed state', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
 
@@ -560,6 +706,31 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).toHaveBeenCalled();
     });
 
+    it('should re-queue a delayed job so it publishes now', async () => {
+      const { publishDeviationNow } = await import('./deviation-publisher.js');
+
+      const mockExistingJob = {
+        id: 'job-existing',
+        getState: vi.fn().mockResolvedValue('delayed'),
+        opts: { priority: getJobPriority(PublishPriority.AUTOMATION, 2), delay: 3600000 },
+        changePriority: vi.fn(),
+        remove: vi.fn().mockResolvedValue(undefined),
+      };
+
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+      mockQueueAdd.mockResolvedValue({ id: 'job-new' });
+
+      await publishDeviationNow('dev-123', 'user-123', 'single');
+
+      expect(mockExistingJob.changePriority).not.toHaveBeenCalled();
+      expect(mockExistingJob.remove).toHaveBeenCalled();
+      expect(mockQueueAdd).toHaveBeenCalledWith(
+        'publish-deviation',
+        { deviationId: 'dev-123', userId: 'user-123', uploadMode: 'single' },
+        { jobId: 'deviation-dev-123', priority: getJobPriority(PublishPriority.INTERACTIVE, 0) }
+      );
+    });
+
     it('should remove and re-queue if job exists in failed state', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
 
@@ -580,6 +751,26 @@ describe('deviation-publisher', () => {
       expect(mockQueueAdd).toHaveBeenCalled();
     });
 
+    it('should queue with the given priority', async () => {
+      const { scheduleDeviation } = await import('./deviation-publisher.js');
+
+      mockQueueGetJob.mockResolvedValue(null);
+      mockQueueAdd.mockResolvedValue({ id: 'job-123' });
+
+      const publishAt = new Date(Date.now() + 60000);
+      await scheduleDeviation(
+        'dev-123',
+        'user-123',
+        publishAt,
+        'single',
+        PublishPriority.AUTOMATION
+      );
+
+      expect(mockQueueAdd.mock.calls[0][2].priority).toBe(
+        getJobPriority(PublishPriority.AUTOMATION, 0)
+      );
+    });
+
     it('should use correct jobId format', async () => {
       const { scheduleDeviation } = await import('./deviation-publisher.js');
 
@@ -618,7 +809,7 @@ describe('deviation-publisher', () => {
         },
         {
           jobId: 'deviation-dev-123',
-          priority: 5,
+          priority: getJobPriority(PublishPriority.INTERACTIVE, 0),
         }
       );
 
@@ -633,6 +824,8 @@ describe('deviation-publisher', () => {
       const mockExistingJob = {
         id: 'job-existing',
         getState: vi.fn().mockResolvedValue('waiting'),
+        opts: { priority: PublishPriority.INTERACTIVE },
+        changePriority: vi.fn(),
       };
 
       mockQueueGetJob.mockResolvedValue(mockExistingJob);
@@ -640,6 +833,49 @@ describe('deviation-publisher', () => {
       await publishDeviationNow('dev-123', 'user-123', 'single');
 
       expect(mockQueueAdd).not.toHaveBeenCalled();
+      expect(mockExistingJob.changePriority).not.toHaveBeenCalled();
+    });
+
+    it('should move a queued job from a slower lane to the interactive lane', async () => {
+      const { publishDeviationNow } = await import('./deviation-publisher.js');
+
+      const mockExistingJob = {
+        id: 'job-existing',
+        getState: vi.fn().mockResolvedValue('prioritized'),
+        opts: { priority: getJobPriority(PublishPriority.AUTOMATION, 2) },
+        changePriority: vi.fn().mockResolvedValue(undefined),
+      };
+
+      mockQueueGetJob.mockResolvedValue(mockExistingJob);
+
+      await publishDeviationNow('dev-123', 'user-123', 'single');
+
+      // Keeps its turn
+      expect(mockExistingJob.changePriority).toHaveBeenCalledWith({
+        priority: getJobPriority(PublishPriority.INTERACTIVE, 2),
+      });
+      expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
+    it('should let users with a backlog take turns with other users', async () => {
+      const { publishDeviationNow } = await import('./deviation-publisher.js');
+
+      mockQueueGetJob.mockResolvedValue(null);
+      mockQueueAdd.mockResolvedValue({ id: 'job-123' });
+
+      for (const userId of ['user-1', 'user-2']) {
+        for (const n of [1, 2, 3]) {
+          await publishDeviationNow(`${userId}-dev-${n}`, userId, 'single');
+        }
+      }
+
+      // BullMQ picks the lowest priority first, FIFO within a priority
+      const pickupOrder = mockQueueAdd.mock.calls
+        .map(([, data, opts], index) => ({ userId: data.userId, priority: opts.priority, index }))
+        .sort((a, b) => a.priority - b.priority || a.index - b.index)
+        .map(({ userId }) => userId);
+
+      expect(pickupOrder).toEqual(['user-1', 'user-2', 'user-1', 'user-2', 'user-1', 'user-2']);
     });
 
     it('should remove and re-queue if job exists in failed state', async () => {
@@ -1076,7 +1312,7 @@ describe('deviation-publisher', () => {
 
       await workerProcessor(mockJob);
 
-      expect(mockPublishDeviationJob).toHaveBeenCalledWith(mockJob, expect.any(Object));
+      expect(mockPublishDeviationJob).toHaveBeenCalledWith(mockJob, expect.any(Object), undefined);
     });
   });
 
@@ -1110,6 +1346,8 @@ describe('deviation-publisher', () => {
       expect(deps).toHaveProperty('withCircuitBreaker');
       expect(deps).toHaveProperty('publishToDeviantArt');
       expect(deps).toHaveProperty('queueStorageCleanup');
+      expect(deps).toHaveProperty('queueFirstComment');
+      expect(deps).toHaveProperty('emitWebhookEvent');
       expect(deps).toHaveProperty('errorCategorizer');
     });
 
@@ -1188,7 +1426,11 @@ describe('deviation-publisher', () => {
 
         await workerProcessor(mockJob);
 
-        expect(mockPublishDeviationJob).toHaveBeenCalledWith(mockJob, expect.any(Object));
+        expect(mockPublishDeviationJob).toHaveBeenCalledWith(
+          mockJob,
+          expect.any(Object),
+          undefined
+        );
       }
     });
 
@@ -1,13 +1,22 @@
-import { Queue, Worker, Job, QueueEvents } from 'bullmq';
+import { Queue, Worker, Job, QueueEvents, DelayedError } from 'bullmq';
 import { Redis } from 'ioredis';
 import { prisma } from '../db/index.js';
 import { publishToDeviantArt } from '../lib/deviantart.js';
 import type { UploadMode } from '@isekai/shared';
-import { publishDeviationJob } from '@isekai/shared';
+import {
+  publishDeviationJob,
+  PublishPriority,
+  PublishTurns,
+  getJobPriority,
+  getPriorityLane,
+  getPriorityTurn,
+  getPublishLane,
+} from '@isekai/shared';
 import { ErrorCategorizer } from '../lib/error-categorizer.js';
 import { StructuredLogger } from '../lib/structured-logger.js';
 import { AdaptiveRateLimiter } from '../lib/rate-limiter.js';
 import { PublisherMetricsCollector } from '../lib/publisher-metrics.js';
+import { UserConcurrencyLimiter } from '../lib/user-concurrency.js';
 import { CircuitBreaker, withCircuitBreaker } from '../lib/circuit-breaker.js';
 import { sendRefreshTokenExpiredJobNotification } from '../lib/email-service.js';
 
@@ -31,7 +40,9 @@ export interface DeviationPublishJobData {
 // Initialize managers
 const errorCategorizer = new ErrorCategorizer();
 const rateLimiter = new AdaptiveRateLimiter(connection);
-const metricsCollector = new PublisherMetricsCollector(connection);
+export const metricsCollector = new PublisherMetricsCollector(connection);
+const userConcurrencyLimiter = new UserConcurrencyLimiter(connection);
+const publishTurns = new PublishTurns(connection);
 
 // Custom backoff strategy that respects rate limit Retry-After headers
 function calculateBackoff(attemptsMade: number, err: Error): number {
@@ -87,30 +98,57 @@ export const deviationPublisherQueue = new Queue<DeviationPublishJobData>('devia
 // Worker to process publishing jobs using shared publisher core
 export const deviationPublisherWorker = new Worker<DeviationPublishJobData>(
   'deviation-publisher',
-  async (job: Job<DeviationPublishJobData>) => {
+  async (job: Job<DeviationPublishJobData>, token?: string) => {
+    const { userId } = job.data;
+
+    // Per-user concurrency limit - one user's backlog can't take every worker slot.
+    // The job goes back to delayed (without using up an attempt) behind other users' jobs.
+    const slot = await userConcurrencyLimiter.tryAcquire(userId, job.id!);
+    if (!slot.allowed) {
+      StructuredLogger.createJobLogger(job).info('User at concurrency limit, deferring job', {
+        userId,
+        waitMs: slot.waitMs,
+      });
+      metricsCollector.recordUserDeferral(userId);
+      await job.moveToDelayed(Date.now() + slot.waitMs!, token);
+      throw new DelayedError();
+    }
+
     try {
       // Use shared publisher core with Publisher-specific dependencies
-      return await publishDeviationJob(job, {
-        prisma,
-        logger: StructuredLogger,
-        rateLimiter,
-        metricsCollector,
-        CircuitBreaker,
-        withCircuitBreaker,
-        publishToDeviantArt,
-        queueStorageCleanup: async (deviationId: string, userId: string) => {
-          const { queueStorageCleanup } = await import('./storage-cleanup.js');
-          await queueStorageCleanup(deviationId, userId);
+      return await publishDeviationJob(
+        job,
+        {
+          prisma,
+          logger: StructuredLogger,
+          rateLimiter,
+          metricsCollector,
+          CircuitBreaker,
+          withCircuitBreaker,
+          publishToDeviantArt,
+          queueStorageCleanup: async (deviationId: string, userId: string) => {
+            const { queueStorageCleanup } = await import('./storage-cleanup.js');
+            await queueStorageCleanup(deviationId, userId);
+          },
+          queueFirstComment: async (deviationId: string, userId: string) => {
+            const { queueFirstComment } = await import('./deviation-comment.js');
+            await queueFirstComment(deviationId, userId);
+          },
+          emitWebhookEvent: async (input) => {
+            const { emitWebhookEvent } = await import('./webhook-delivery.js');
+            await emitWebhookEvent(input);
+          },
+          errorCategorizer,
         },
-        errorCategorizer,
-      });
+        token
+      );
     } catch (error: any) {
       // Handle refresh token expiration specifically (publisher-specific logic)
       if (
         error.code === 'REFRESH_TOKEN_EXPIRED' ||
         error.message?.includes('REFRESH_TOKEN_EXPIRED')
       ) {
-        const { deviationId, userId } = job.data;
+        const { deviationId } = job.data;
         const logger = StructuredLogger.createJobLogger(job);
 
         logger.error('Refresh token expired - pausing all scheduled posts for user', {
@@ -147,6 +185,8 @@ export const deviationPublisherWorker = new Worker<DeviationPublishJobData>(
 
       // Re-throw to let shared publisher handle the error
       throw error;
+    } finally {
+      await userConcurrencyLimiter.release(userId, job.id!);
     }
   },
   {
@@ -203,7 +243,8 @@ export async function scheduleDeviation(
   deviationId: string,
   userId: string,
   actualPublishAt: Date,
-  uploadMode: UploadMode
+  uploadMode: UploadMode,
+  priority: PublishPriority = PublishPriority.SCHEDULED
 ) {
   const jobId = `deviation-${deviationId}`;
 
@@ -211,7 +252,12 @@ export async function scheduleDeviation(
   const existingJob = await deviationPublisherQueue.getJob(jobId);
   if (existingJob) {
     const state = await existingJob.getState();
-    if (state === 'waiting' || state === 'delayed' || state === 'active') {
+    if (
+      state === 'waiting' ||
+      state === 'prioritized' ||
+      state === 'delayed' ||
+      state === 'active'
+    ) {
       console.log(
         `[Deviation Publisher] Job ${jobId} already exists with state ${state}, skipping`
       );
@@ -222,9 +268,7 @@ export async function scheduleDeviation(
   }
 
   const delay = actualPublishAt.getTime() - Date.now();
-
-  // All jobs have equal priority (open-source version - no tier system)
-  const priority = 5;
+  const turn = await publishTurns.take(userId, jobId, actualPublishAt);
 
   await deviationPublisherQueue.add(
     'publish-deviation',
@@ -232,12 +276,12 @@ export async function scheduleDeviation(
     {
       delay: Math.max(0, delay),
       jobId, // Use deviation ID as job ID for easy cancellation and de-duplication
-      priority,
+      priority: getJobPriority(priority, turn),
     }
   );
 
   console.log(
-    `[Deviation Publisher] Scheduled deviation ${deviationId} for ${actualPublishAt.toISOString()} (${uploadMode} mode, priority ${priority})`
+    `[Deviation Publisher] Scheduled deviation ${deviationId} for ${actualPublishAt.toISOString()} (${uploadMode} mode, ${getPublishLane(priority)} lane)`
   );
 }
 
@@ -245,7 +289,8 @@ export async function scheduleDeviation(
 export async function publishDeviationNow(
   deviationId: string,
   userId: string,
-  uploadMode: UploadMode
+  uploadMode: UploadMode,
+  priority: PublishPriority = PublishPriority.INTERACTIVE
 ) {
   const jobId = `deviation-${deviationId}`;
 
@@ -253,30 +298,39 @@ export async function publishDeviationNow(
   const existingJob = await deviationPublisherQueue.getJob(jobId);
   if (existingJob) {
     const state = await existingJob.getState();
-    if (state === 'waiting' || state === 'delayed' || state === 'active') {
+    if (state === 'waiting' || state === 'prioritized' || state === 'active') {
+      // Already queued in a slower lane - move it up instead of waiting behind automation
+      if (state !== 'active' && getPriorityLane(existingJob.opts.priority) > priority) {
+        const turn = getPriorityTurn(existingJob.opts.priority);
+        await existingJob.changePriority({ priority: getJobPriority(priority, turn) });
+        console.log(
+          `[Deviation Publisher] Job ${jobId} moved to the ${getPublishLane(priority)} lane`
+        );
+        return;
+      }
       console.log(
         `[Deviation Publisher] Job ${jobId} already exists with state ${state}, skipping`
       );
       return;
     }
-    // Remove if completed/failed to allow re-queueing
+    // Remove if completed/failed to allow re-queueing. A delayed job is re-queued too, so it
+    // runs now and takes a turn for now instead of its original publish time
     await existingJob.remove();
   }
 
-  // All jobs have equal priority (open-source version - no tier system)
-  const priority = 5;
+  const turn = await publishTurns.take(userId, jobId, new Date());
 
   await deviationPublisherQueue.add(
     'publish-deviation',
     { deviationId, userId, uploadMode },
     {
       jobId, // Use deviation ID as job ID for de-duplication
-      priority,
+      priority: getJobPriority(priority, turn),
     }
   );
 
   console.log(
-    `[Deviation Publisher] Queued deviation ${deviationId} for immediate publishing (${uploadMode} mode, priority ${priority})`
+    `[Deviation Publisher] Queued deviation ${deviationId} for immediate publishing (${uploadMode} mode, ${getPublishLane(priority)} lane)`
   );
 }
 
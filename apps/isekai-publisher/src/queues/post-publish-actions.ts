@@ -0,0 +1,142 @@
+import { Queue, Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { prisma } from '../db/index.js';
+import {
+  updateDeviationMetadata,
+  moveDeviationsToFolder,
+  copyDeviationsToFolder,
+} from '../lib/deviantart.js';
+import { runPostPublishActionJob, type PostPublishActionJobData } from '@isekai/shared';
+import { ErrorCategorizer } from '../lib/error-categorizer.js';
+import { StructuredLogger } from '../lib/structured-logger.js';
+import { AdaptiveRateLimiter } from '../lib/rate-limiter.js';
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+const connection = new Redis(redisUrl, {
+  maxRetriesPerRequest: null,
+  tls: redisUrl.startsWith('rediss://')
+    ? {
+        rejectUnauthorized: false, // Accept self-signed certificates for internal Redis
+      }
+    : undefined,
+});
+
+const errorCategorizer = new ErrorCategorizer();
+const rateLimiter = new AdaptiveRateLimiter(connection);
+
+// Respect the rate limiter's wait time, otherwise back off exponentially (30s, 60s, 120s...)
+function calculateBackoff(attemptsMade: number, _type?: string, err?: Error): number {
+  const match = err?.message?.match(/RATE_LIMITED: Wait (\d+)ms/);
+  if (match) {
+    return parseInt(match[1]);
+  }
+
+  return Math.min(30000 * Math.pow(2, attemptsMade - 1), 15 * 60 * 1000);
+}
+
+/**
+ * Queue for scheduled post-publish actions (metadata edits, gallery moves/copies)
+ * Each action is a delayed job that fires at the action's runAt
+ */
+export const postPublishActionQueue = new Queue<PostPublishActionJobData>('post-publish-actions', {
+  connection,
+  defaultJobOptions: {
+    attempts: 5,
+    backoff: { type: 'custom' }, // Computed by the worker's backoffStrategy
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days for debugging
+      count: 1000, // Prevent Redis memory exhaustion
+    },
+  },
+});
+
+/**
+ * Worker to run post-publish actions using the shared job
+ */
+export const postPublishActionWorker = new Worker<PostPublishActionJobData>(
+  'post-publish-actions',
+  async (job: Job<PostPublishActionJobData>) => {
+    return await runPostPublishActionJob(job, {
+      prisma,
+      logger: StructuredLogger,
+      rateLimiter,
+      errorCategorizer,
+      updateDeviationMetadata,
+      moveDeviationsToFolder,
+      copyDeviationsToFolder,
+    });
+  },
+  {
+    connection,
+    settings: { backoffStrategy: calculateBackoff },
+    concurrency: 1, // Actions share the user's DeviantArt quota with publishing
+  }
+);
+
+/**
+ * Queue a post-publish action to run at its runAt time
+ * Uses jobId so an action is never queued twice
+ */
+export async function schedulePostPublishAction(action: {
+  id: string;
+  deviationId: string;
+  userId: string;
+  runAt: Date;
+}): Promise<void> {
+  const delay = Math.max(0, action.runAt.getTime() - Date.now());
+
+  await postPublishActionQueue.add(
+    'post-publish-action',
+    { actionId: action.id, deviationId: action.deviationId, userId: action.userId },
+    {
+      jobId: `post-publish-action-${action.id}`, // Prevent duplicates
+      delay,
+    }
+  );
+}
+
+/**
+ * Remove the queued job for a cancelled action
+ * The worker also skips non-pending actions, so a missed removal is harmless
+ */
+export async function cancelPostPublishAction(actionId: string): Promise<boolean> {
+  const job = await postPublishActionQueue.getJob(`post-publish-action-${actionId}`);
+
+  if (job) {
+    await job.remove();
+    return true;
+  }
+
+  return false;
+}
+
+// Event handlers for monitoring
+postPublishActionWorker.on('completed', (job) => {
+  const logger = StructuredLogger.createJobLogger(job);
+  logger.info('Post-publish action job completed', {
+    actionId: job.data.actionId,
+    deviationId: job.data.deviationId,
+    completed: job.returnvalue?.completed,
+  });
+});
+
+postPublishActionWorker.on('failed', (job, error) => {
+  if (job) {
+    const logger = StructuredLogger.createJobLogger(job);
+    logger.error('Post-publish action job failed', error, {
+      actionId: job.data.actionId,
+      deviationId: job.data.deviationId,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts,
+    });
+  }
+});
+
+postPublishActionWorker.on('stalled', (jobId) => {
+  console.error(`Post-publish action job ${jobId} has stalled`);
+});
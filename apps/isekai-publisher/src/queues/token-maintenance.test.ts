@@ -28,6 +28,11 @@ const mockPrismaDeviationUpdateMany = vi.fn();
 const mockRefreshTokenIfNeeded = vi.fn();
 const mockSendRefreshTokenWarningEmail = vi.fn();
 const mockSendRefreshTokenExpiredEmail = vi.fn();
+const mockReencryptUserTokens = vi.fn();
+
+vi.mock('@isekai/shared', () => ({
+  reencryptUserTokens: mockReencryptUserTokens,
+}));
 
 vi.mock('../db/index.js', () => ({
   prisma: {
@@ -94,6 +99,7 @@ describe('token-maintenance', () => {
 
   beforeEach(async () => {
     vi.clearAllMocks();
+    mockReencryptUserTokens.mockResolvedValue({ scanned: 0, updated: 0, skipped: 0 });
     capturedWorkerProcessor = null;
     Object.keys(workerEventListeners).forEach((key) => delete workerEventListeners[key]);
 
@@ -177,6 +183,7 @@ describe('token-maintenance', () => {
       refreshTokenWarningEmailSent: false,
       refreshTokenExpiredEmailSent: false,
       deviations: [],
+      account: { _count: { users: 1 } },
       ...overrides,
     });
 
@@ -319,6 +326,23 @@ describe('token-maintenance', () => {
         expect(result.proactiveRefreshSuccess).toBe(0);
       });
 
+      it('should proactively refresh linked accounts even without scheduled posts', async () => {
+        const futureDate = new Date(Date.now() + 70 * 24 * 60 * 60 * 1000);
+        const mockUser = createMockUser({
+          refreshTokenExpiresAt: futureDate,
+          deviations: [],
+          account: { _count: { users: 2 } },
+        });
+
+        mockPrismaUserFindMany.mockResolvedValue([mockUser]);
+        mockRefreshTokenIfNeeded.mockResolvedValue(undefined);
+
+        const result = await capturedWorkerProcessor!(createMockJob() as Job);
+
+        expect(mockRefreshTokenIfNeeded).toHaveBeenCalledWith(mockUser);
+        expect(result.proactiveRefreshSuccess).toBe(1);
+      });
+
       it('should not proactively refresh if token expires in less than 60 days', async () => {
         const futureDate = new Date(Date.now() + 50 * 24 * 60 * 60 * 1000); // 50 days
         const mockUser = createMockUser({
@@ -555,10 +579,24 @@ describe('token-maintenance', () => {
           warningEmailsSent: 0,
           expiredNotifications: 0,
           scheduledPostsPaused: 0,
+          tokensReencrypted: 0,
         });
         expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Found 0 users'));
       });
 
+      it('should re-encrypt plaintext and rotated tokens before checking expiry', async () => {
+        mockReencryptUserTokens.mockResolvedValue({ scanned: 12, updated: 3, skipped: 0 });
+        mockPrismaUserFindMany.mockResolvedValue([]);
+
+        const result = await capturedWorkerProcessor!(createMockJob() as Job);
+
+        expect(mockReencryptUserTokens).toHaveBeenCalledTimes(1);
+        expect(result.tokensReencrypted).toBe(3);
+        expect(consoleLogSpy).toHaveBeenCalledWith(
+          expect.stringContaining('Re-encrypted tokens for 3 of 12 users')
+        );
+      });
+
       it('should process multiple users correctly', async () => {
         const user1 = createMockUser({
           id: 'user-1',
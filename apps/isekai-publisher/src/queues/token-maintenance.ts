@@ -1,5 +1,6 @@
 import { Queue, Worker, Job } from 'bullmq';
 import { Redis } from 'ioredis';
+import { reencryptUserTokens } from '@isekai/shared';
 import { prisma } from '../db/index.js';
 import { refreshTokenIfNeeded } from '../lib/deviantart.js';
 import {
@@ -48,6 +49,19 @@ export const tokenMaintenanceWorker = new Worker<TokenMaintenanceJobData>(
   async (job: Job<TokenMaintenanceJobData>) => {
     console.log('[Token Maintenance] Starting token maintenance check');
 
+    // Encrypt legacy plaintext tokens and re-wrap tokens from a rotated ENCRYPTION_KEY
+    const encryption = await reencryptUserTokens(prisma);
+    if (encryption.updated > 0) {
+      console.log(
+        `[Token Maintenance] Re-encrypted tokens for ${encryption.updated} of ${encryption.scanned} users`
+      );
+    }
+    if (encryption.skipped > 0) {
+      console.log(
+        `[Token Maintenance] Skipped ${encryption.skipped} users whose tokens were refreshed meanwhile, retrying next run`
+      );
+    }
+
     const now = new Date();
     const fourteenDaysFromNow = new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000);
     const eightyDaysFromNow = new Date(now.getTime() + 80 * 24 * 60 * 60 * 1000);
@@ -61,6 +75,9 @@ export const tokenMaintenanceWorker = new Worker<TokenMaintenanceJobData>(
         deviations: {
           where: { status: 'scheduled' },
         },
+        account: {
+          select: { _count: { select: { users: true } } },
+        },
       },
     });
 
@@ -74,10 +91,14 @@ export const tokenMaintenanceWorker = new Worker<TokenMaintenanceJobData>(
       warningEmailsSent: 0,
       expiredNotifications: 0,
       scheduledPostsPaused: 0,
+      tokensReencrypted: encryption.updated,
     };
 
     for (const user of usersToCheck) {
       const hasScheduledPosts = user.deviations.length > 0;
+      // Linked DeviantArt accounts are only refreshed when someone switches to them,
+      // so keep them alive here even without scheduled posts
+      const isLinkedAccount = user.account._count.users > 1;
       const daysUntilExpiry = Math.floor(
         (user.refreshTokenExpiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
       );
@@ -125,8 +146,12 @@ export const tokenMaintenanceWorker = new Worker<TokenMaintenanceJobData>(
         continue;
       }
 
-      // CASE 2: Token expiring in 60-80 days AND has scheduled posts - proactively refresh
-      if (daysUntilExpiry >= 60 && daysUntilExpiry <= 80 && hasScheduledPosts) {
+      // CASE 2: Token expiring in 60-80 days AND has scheduled posts (or is a linked account) - proactively refresh
+      if (
+        daysUntilExpiry >= 60 &&
+        daysUntilExpiry <= 80 &&
+        (hasScheduledPosts || isLinkedAccount)
+      ) {
         try {
           console.log(
             `[Token Maintenance] Proactively refreshing token for user ${user.username} (${daysUntilExpiry} days until expiry)`
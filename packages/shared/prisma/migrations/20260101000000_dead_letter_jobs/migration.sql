@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "DeadLetterStatus" AS ENUM ('pending', 'replayed', 'discarded');
+
+-- CreateTable
+CREATE TABLE "dead_letter_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "deviation_id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "upload_mode" "UploadMode" NOT NULL,
+    "status" "DeadLetterStatus" NOT NULL DEFAULT 'pending',
+    "error_category" TEXT NOT NULL,
+    "error_message" TEXT NOT NULL,
+    "error" JSONB NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "attempts_made" INTEGER NOT NULL,
+    "failed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dead_letter_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dead_letter_jobs_user_id_status_failed_at_idx" ON "dead_letter_jobs"("user_id", "status", "failed_at");
+
+-- CreateIndex
+CREATE INDEX "dead_letter_jobs_deviation_id_idx" ON "dead_letter_jobs"("deviation_id");
+
+-- AddForeignKey
+ALTER TABLE "dead_letter_jobs" ADD CONSTRAINT "dead_letter_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dead_letter_jobs" ADD CONSTRAINT "dead_letter_jobs_deviation_id_fkey" FOREIGN KEY ("deviation_id") REFERENCES "deviations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
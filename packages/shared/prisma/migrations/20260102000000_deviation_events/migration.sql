@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "DeviationEventActor" AS ENUM ('user', 'api_key', 'automation', 'recovery', 'publisher');
+
+-- CreateTable
+CREATE TABLE "deviation_events" (
+    "id" TEXT NOT NULL,
+    "deviation_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "from_status" "DeviationStatus",
+    "to_status" "DeviationStatus",
+    "actor_type" "DeviationEventActor" NOT NULL,
+    "actor_id" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deviation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deviation_events_deviation_id_created_at_idx" ON "deviation_events"("deviation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "deviation_events" ADD CONSTRAINT "deviation_events_deviation_id_fkey" FOREIGN KEY ("deviation_id") REFERENCES "deviations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "accounts" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "account_id" TEXT;
+
+-- Backfill: every existing DeviantArt user becomes its own single-identity account
+INSERT INTO "accounts" ("id", "created_at", "updated_at")
+SELECT "id", "created_at", CURRENT_TIMESTAMP FROM "users";
+
+UPDATE "users" SET "account_id" = "id";
+
+ALTER TABLE "users" ALTER COLUMN "account_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "users_account_id_idx" ON "users"("account_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
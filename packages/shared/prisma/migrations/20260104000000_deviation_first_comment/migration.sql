@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "CommentStatus" AS ENUM ('pending', 'posted', 'failed', 'skipped');
+
+-- AlterTable
+ALTER TABLE "deviations" ADD COLUMN     "comment_template_id" TEXT,
+ADD COLUMN     "comment_status" "CommentStatus",
+ADD COLUMN     "comment_id" TEXT,
+ADD COLUMN     "comment_posted_at" TIMESTAMP(3),
+ADD COLUMN     "comment_error" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "deviations" ADD CONSTRAINT "deviations_comment_template_id_fkey" FOREIGN KEY ("comment_template_id") REFERENCES "templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
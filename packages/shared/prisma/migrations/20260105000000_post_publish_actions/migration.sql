@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "PostPublishActionType" AS ENUM ('update_metadata', 'move_to_gallery', 'copy_to_gallery');
+
+-- CreateEnum
+CREATE TYPE "PostPublishActionStatus" AS ENUM ('pending', 'completed', 'failed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "post_publish_actions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "deviation_id" TEXT NOT NULL,
+    "type" "PostPublishActionType" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "run_at" TIMESTAMP(3) NOT NULL,
+    "status" "PostPublishActionStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_publish_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_publish_actions_deviation_id_run_at_idx" ON "post_publish_actions"("deviation_id", "run_at");
+
+-- CreateIndex
+CREATE INDEX "post_publish_actions_status_run_at_idx" ON "post_publish_actions"("status", "run_at");
+
+-- AddForeignKey
+ALTER TABLE "post_publish_actions" ADD CONSTRAINT "post_publish_actions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_publish_actions" ADD CONSTRAINT "post_publish_actions_deviation_id_fkey" FOREIGN KEY ("deviation_id") REFERENCES "deviations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "max_posts_per_day" INTEGER,
+ADD COLUMN     "min_post_gap_minutes" INTEGER,
+ADD COLUMN     "quiet_hours" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "automation_schedule_rules" ADD COLUMN     "cron_expression" TEXT;
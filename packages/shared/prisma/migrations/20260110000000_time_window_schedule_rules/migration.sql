@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "automation_schedule_rules" ADD COLUMN     "window_end" TEXT,
+ADD COLUMN     "window_min_gap_minutes" INTEGER,
+ADD COLUMN     "window_post_count" INTEGER,
+ADD COLUMN     "window_start" TEXT;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "automations" ADD COLUMN     "draft_filter" JSONB;
+
+-- CreateTable
+CREATE TABLE "automation_drafts" (
+    "id" TEXT NOT NULL,
+    "automation_id" TEXT NOT NULL,
+    "deviation_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "automation_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "automation_drafts_deviation_id_idx" ON "automation_drafts"("deviation_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "automation_drafts_automation_id_deviation_id_key" ON "automation_drafts"("automation_id", "deviation_id");
+
+-- AddForeignKey
+ALTER TABLE "automation_drafts" ADD CONSTRAINT "automation_drafts_automation_id_fkey" FOREIGN KEY ("automation_id") REFERENCES "automations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automation_drafts" ADD CONSTRAINT "automation_drafts_deviation_id_fkey" FOREIGN KEY ("deviation_id") REFERENCES "deviations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "automations" ADD COLUMN     "low_pool_threshold" INTEGER,
+ADD COLUMN     "pause_when_pool_empty" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "low_pool_alerted_at" TIMESTAMP(3),
+ADD COLUMN     "paused_reason" TEXT;
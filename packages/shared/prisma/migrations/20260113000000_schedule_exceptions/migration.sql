@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "schedule_exceptions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "automation_id" TEXT,
+    "type" TEXT NOT NULL,
+    "start_date" TEXT NOT NULL,
+    "end_date" TEXT NOT NULL,
+    "label" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_exceptions_user_id_end_date_idx" ON "schedule_exceptions"("user_id", "end_date");
+
+-- CreateIndex
+CREATE INDEX "schedule_exceptions_automation_id_idx" ON "schedule_exceptions"("automation_id");
+
+-- AddForeignKey
+ALTER TABLE "schedule_exceptions" ADD CONSTRAINT "schedule_exceptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_exceptions" ADD CONSTRAINT "schedule_exceptions_automation_id_fkey" FOREIGN KEY ("automation_id") REFERENCES "automations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
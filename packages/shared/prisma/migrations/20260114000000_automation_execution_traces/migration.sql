@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "automation_execution_logs" ADD COLUMN     "trace" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "automation_schedule_rules" ADD COLUMN     "active_hours_end" TEXT,
+ADD COLUMN     "active_hours_start" TEXT,
+ADD COLUMN     "quota_catch_up" BOOLEAN,
+ADD COLUMN     "quota_distribution" TEXT,
+ADD COLUMN     "quota_min_gap_minutes" INTEGER;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "automation_schedule_rules" ADD COLUMN     "carried_over_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_fired_at" TIMESTAMP(3),
+ADD COLUMN     "missed_trigger_policy" TEXT;
+
+-- Existing fixed_time rules count as fired up to now, so today's earlier occurrence
+-- isn't reported as missed (or fired twice) on the first run after the upgrade
+UPDATE "automation_schedule_rules" SET "last_fired_at" = CURRENT_TIMESTAMP WHERE "type" = 'fixed_time';
@@ -0,0 +1,234 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calendarDaySpan,
+  getCalendarDayType,
+  isRuleActiveOnDay,
+  isValidCalendarDate,
+  parseIcsCalendar,
+  toCalendarDate,
+} from './automation-calendar.js';
+
+describe('isValidCalendarDate', () => {
+  it('should accept real dates only', () => {
+    expect(isValidCalendarDate('2024-02-29')).toBe(true);
+    expect(isValidCalendarDate('2025-02-29')).toBe(false);
+    expect(isValidCalendarDate('2025-1-5')).toBe(false);
+    expect(isValidCalendarDate('2025-01-05T00:00:00Z')).toBe(false);
+  });
+});
+
+describe('toCalendarDate', () => {
+  it('should use the day in the given timezone', () => {
+    const date = new Date('2025-01-05T20:00:00Z');
+    expect(toCalendarDate(date, 'UTC')).toBe('2025-01-05');
+    expect(toCalendarDate(date, 'Asia/Tokyo')).toBe('2025-01-06');
+  });
+});
+
+describe('calendarDaySpan', () => {
+  it('should count both ends', () => {
+    expect(calendarDaySpan('2025-01-05', '2025-01-05')).toBe(1);
+    expect(calendarDaySpan('2024-12-30', '2025-01-02')).toBe(4);
+  });
+});
+
+describe('getCalendarDayType', () => {
+  const exceptions = [
+    { type: 'extra_day', startDate: '2025-01-04', endDate: '2025-01-05' },
+    { type: 'blackout', startDate: '2025-01-05', endDate: '2025-01-07' },
+  ];
+
+  it('should find the exception covering a day', () => {
+    expect(getCalendarDayType(exceptions, '2025-01-03')).toBeNull();
+    expect(getCalendarDayType(exceptions, '2025-01-04')).toBe('extra_day');
+    expect(getCalendarDayType(exceptions, '2025-01-07')).toBe('blackout');
+    expect(getCalendarDayType(exceptions, '2025-01-08')).toBeNull();
+  });
+
+  it('should let blackouts win over extra days', () => {
+    expect(getCalendarDayType(exceptions, '2025-01-05')).toBe('blackout');
+  });
+});
+
+describe('isRuleActiveOnDay', () => {
+  it('should apply the weekday filter on normal days', () => {
+    expect(isRuleActiveOnDay(['monday'], 'monday', null)).toBe(true);
+    expect(isRuleActiveOnDay(['monday'], 'sunday', null)).toBe(false);
+    expect(isRuleActiveOnDay(null, 'sunday', null)).toBe(true);
+  });
+
+  it('should stop every rule on blackout days', () => {
+    expect(isRuleActiveOnDay(null, 'monday', 'blackout')).toBe(false);
+  });
+
+  it('should lift the weekday filter on extra days', () => {
+    expect(isRuleActiveOnDay(['monday'], 'sunday', 'extra_day')).toBe(true);
+  });
+});
+
+describe('parseIcsCalendar', () => {
+  const ics = (...events: string[]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+  const range = { from: '2025-01-01', until: '2025-12-31' };
+
+  it('should read all-day events with an exclusive end', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251224',
+      'DTEND;VALUE=DATE:20251227',
+      'SUMMARY:Christmas\\, family',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260101',
+      'SUMMARY:New Year',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'UTC', range).events).toEqual([
+      { startDate: '2025-12-24', endDate: '2025-12-26', label: 'Christmas, family' },
+      { startDate: '2026-01-01', endDate: '2026-01-01', label: 'New Year' },
+    ]);
+  });
+
+  it('should convert UTC times to the user timezone', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART:20250110T230000Z',
+      'DTEND:20250111T020000Z',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'Europe/Berlin', range).events).toEqual([
+      { startDate: '2025-01-11', endDate: '2025-01-11', label: null },
+    ]);
+  });
+
+  it('should keep floating and TZID times on their own date', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20250301T090000',
+      'DTEND;TZID=America/New_York:20250302T170000',
+      'SUMMARY:Convention',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'Asia/Tokyo', range).events).toEqual([
+      { startDate: '2025-03-01', endDate: '2025-03-02', label: 'Convention' },
+    ]);
+  });
+
+  it('should unfold long lines and skip events without a valid start', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250505',
+      'SUMMARY:Long',
+      '  weekend',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:not-a-date',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'UTC', range).events).toEqual([
+      { startDate: '2025-05-05', endDate: '2025-05-05', label: 'Long weekend' },
+    ]);
+  });
+
+  it('should import every occurrence of a recurring event inside the range', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'UID:weekly-stream',
+      'DTSTART;VALUE=DATE:20241230',
+      'DTEND;VALUE=DATE:20241231',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20250201',
+      'EXDATE;VALUE=DATE:20250113',
+      'SUMMARY:Stream',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly-stream',
+      'RECURRENCE-ID;VALUE=DATE:20250117',
+      'DTSTART;VALUE=DATE:20250118',
+      'SUMMARY:Stream (moved)',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'UTC', range).events).toEqual([
+      { startDate: '2025-01-03', endDate: '2025-01-03', label: 'Stream' },
+      { startDate: '2025-01-27', endDate: '2025-01-27', label: 'Stream' },
+      { startDate: '2025-01-31', endDate: '2025-01-31', label: 'Stream' },
+      { startDate: '2025-01-18', endDate: '2025-01-18', label: 'Stream (moved)' },
+    ]);
+  });
+
+  it('should stop recurring events at the end of the range or their COUNT', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20231224',
+      'DTEND;VALUE=DATE:20231227',
+      'RRULE:FREQ=YEARLY',
+      'SUMMARY:Holidays',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241031',
+      'RRULE:FREQ=MONTHLY;COUNT=6',
+      'SUMMARY:Month end',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'UTC', range).events).toEqual([
+      { startDate: '2025-12-24', endDate: '2025-12-26', label: 'Holidays' },
+      // Months without a 31st are skipped, and COUNT includes the 2024 occurrences
+      { startDate: '2025-01-31', endDate: '2025-01-31', label: 'Month end' },
+      { startDate: '2025-03-31', endDate: '2025-03-31', label: 'Month end' },
+      { startDate: '2025-05-31', endDate: '2025-05-31', label: 'Month end' },
+      { startDate: '2025-07-31', endDate: '2025-07-31', label: 'Month end' },
+    ]);
+  });
+
+  it('should keep weekly occurrences on the weekday of the event timezone', () => {
+    // Mondays 23:00 UTC are Tuesdays in Tokyo
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART:20250106T230000Z',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'Asia/Tokyo', range).events).toEqual([
+      { startDate: '2025-01-07', endDate: '2025-01-07', label: null },
+      { startDate: '2025-01-14', endDate: '2025-01-14', label: null },
+    ]);
+  });
+
+  it('should report recurring events whose rule cannot be expanded', () => {
+    const content = ics(
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20250110',
+      'RRULE:FREQ=MONTHLY;BYDAY=2FR',
+      'SUMMARY:Meetup',
+      'END:VEVENT'
+    );
+
+    expect(parseIcsCalendar(content, 'UTC', range)).toEqual({
+      events: [],
+      unsupportedRecurring: ['Meetup'],
+    });
+  });
+});
@@ -0,0 +1,399 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Automation exception calendars.
+ *
+ * Users mark days on which automations stay silent (blackouts: conventions, vacations,
+ * platform-wide events) or post on a day their rules normally skip (extra days). An
+ * exception applies to one automation or, without automationId, to all of the user's
+ * automations. Dates are calendar days in the user's timezone, so "2025-12-24" is
+ * Christmas Eve wherever the user lives.
+ *
+ * - A blackout day stops every rule, and wins over an extra day on the same date.
+ * - An extra day lifts the rules' weekday filter. Cron rules keep their own day fields.
+ */
+
+import { getZonedParts } from './publishing-policy.js';
+
+export const CalendarExceptionType = {
+  BLACKOUT: 'blackout',
+  EXTRA_DAY: 'extra_day',
+} as const;
+export type CalendarExceptionType =
+  (typeof CalendarExceptionType)[keyof typeof CalendarExceptionType];
+
+export const CALENDAR_EXCEPTION_TYPES = Object.values(CalendarExceptionType) as [
+  CalendarExceptionType,
+  ...CalendarExceptionType[],
+];
+
+// Longest single exception, a year covers a sabbatical
+export const MAX_CALENDAR_EXCEPTION_DAYS = 366;
+export const MAX_CALENDAR_IMPORT_EVENTS = 500;
+// Recurring events are imported this many days ahead
+export const CALENDAR_IMPORT_HORIZON_DAYS = 365;
+
+export interface CalendarException {
+  type: string;
+  // YYYY-MM-DD in the user's timezone
+  startDate: string;
+  // YYYY-MM-DD, inclusive
+  endDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a value is a real YYYY-MM-DD date
+ */
+export function isValidCalendarDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a moment in the given timezone
+ */
+export function toCalendarDate(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return formatCalendarDate(year, month, day);
+}
+
+function formatCalendarDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Days from startDate to endDate, both included
+ */
+export function calendarDaySpan(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1;
+}
+
+/**
+ * Calendar day `days` days after (or before) a YYYY-MM-DD date
+ */
+export function addCalendarDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Exception type of a calendar day, if any. Blackouts win over extra days.
+ */
+export function getCalendarDayType(
+  exceptions: CalendarException[],
+  date: string
+): CalendarExceptionType | null {
+  let type: CalendarExceptionType | null = null;
+
+  for (const exception of exceptions) {
+    // YYYY-MM-DD strings compare in date order
+    if (exception.startDate > date || exception.endDate < date) continue;
+    if (exception.type === CalendarExceptionType.BLACKOUT) {
+      return CalendarExceptionType.BLACKOUT;
+    }
+    if (exception.type === CalendarExceptionType.EXTRA_DAY) {
+      type = CalendarExceptionType.EXTRA_DAY;
+    }
+  }
+
+  return type;
+}
+
+/**
+ * Whether a rule may trigger on a day, given its weekday filter and the day's exception
+ */
+export function isRuleActiveOnDay(
+  daysOfWeek: unknown,
+  weekday: string,
+  dayType: CalendarExceptionType | null
+): boolean {
+  if (dayType === CalendarExceptionType.BLACKOUT) return false;
+  if (dayType === CalendarExceptionType.EXTRA_DAY) return true;
+  return !Array.isArray(daysOfWeek) || daysOfWeek.includes(weekday);
+}
+
+/**
+ * Event read from an .ics file
+ */
+export interface CalendarImportEvent {
+  startDate: string;
+  endDate: string;
+  label: string | null;
+}
+
+/**
+ * Days to import occurrences of recurring events for, YYYY-MM-DD and inclusive
+ */
+export interface CalendarImportRange {
+  from: string;
+  until: string;
+}
+
+export interface CalendarImport {
+  events: CalendarImportEvent[];
+  // Labels of recurring events whose rule can't be expanded, none of their days are included
+  unsupportedRecurring: string[];
+}
+
+/**
+ * Parse an ICS value: all-day dates as they are, UTC times in the user's timezone,
+ * floating and TZID times by their wall-clock date
+ */
+function parseIcsDate(
+  value: string,
+  timezone: string
+): { date: string; midnight: boolean; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  let date = `${year}-${month}-${day}`;
+  if (!isValidCalendarDate(date)) return null;
+
+  if (hour === undefined) {
+    return { date, midnight: true, allDay: true };
+  }
+
+  let midnight = hour === '00' && minute === '00' && second === '00';
+  if (utc) {
+    const moment = new Date(`${date}T${hour}:${minute}:${second}Z`);
+    date = toCalendarDate(moment, timezone);
+    const parts = getZonedParts(moment, timezone);
+    midnight = parts.hour === 0 && parts.minute === 0;
+  }
+
+  return { date, midnight, allDay: false };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? ' ' : char
+  );
+}
+
+/**
+ * Read the events of an .ics file as calendar day ranges.
+ *
+ * DTEND is exclusive, so an all-day event ending on the 13th covers up to the 12th.
+ * Recurring events (RRULE) become one event per occurrence that overlaps `range`, minus
+ * EXDATEs and occurrences moved by another event of the series (RECURRENCE-ID).
+ * Rules with parts other than FREQ, INTERVAL, COUNT, UNTIL, WKST and weekly BYDAY
+ * aren't expanded; the labels of those events are returned in unsupportedRecurring.
+ */
+export function parseIcsCalendar(
+  content: string,
+  timezone: string,
+  range: CalendarImportRange
+): CalendarImport {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const components: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) components.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+    if (name === 'EXDATE' && current.EXDATE) {
+      current.EXDATE += `,${value}`;
+    } else if (!(name in current)) {
+      current[name] = value;
+    }
+  }
+
+  // Occurrences moved to another day, by series UID
+  const moved = new Map<string, string[]>();
+  for (const properties of components) {
+    const recurrenceId =
+      properties['RECURRENCE-ID'] && parseIcsDate(properties['RECURRENCE-ID'], timezone);
+    if (recurrenceId && properties.UID) {
+      moved.set(properties.UID, [...(moved.get(properties.UID) ?? []), recurrenceId.date]);
+    }
+  }
+
+  const events: CalendarImportEvent[] = [];
+  const unsupportedRecurring: string[] = [];
+
+  for (const properties of components) {
+    const event = toImportEvent(properties, timezone);
+    if (!event) continue;
+    if (!properties.RRULE) {
+      events.push(event);
+      continue;
+    }
+
+    // Rules count days in the event's own timezone, UTC starts may fall on another local day
+    const ruleStart = toIsoDate(properties.DTSTART);
+    const shift = calendarDaySpan(ruleStart, event.startDate) - 1;
+    const ruleDates = expandRecurrence(
+      properties.RRULE,
+      ruleStart,
+      addCalendarDays(range.until, -shift)
+    );
+    if (!ruleDates) {
+      unsupportedRecurring.push(event.label ?? 'Untitled event');
+      continue;
+    }
+
+    const excluded = new Set(moved.get(properties.UID) ?? []);
+    for (const value of properties.EXDATE?.split(',') ?? []) {
+      const exdate = parseIcsDate(value, timezone);
+      if (exdate) excluded.add(exdate.date);
+    }
+
+    const length = calendarDaySpan(event.startDate, event.endDate) - 1;
+    for (const ruleDate of ruleDates) {
+      const startDate = addCalendarDays(ruleDate, shift);
+      const endDate = addCalendarDays(startDate, length);
+      if (excluded.has(startDate) || endDate < range.from || startDate > range.until) continue;
+      events.push({ ...event, startDate, endDate });
+    }
+  }
+
+  return { events, unsupportedRecurring };
+}
+
+function toImportEvent(
+  properties: Record<string, string>,
+  timezone: string
+): CalendarImportEvent | null {
+  const start = properties.DTSTART ? parseIcsDate(properties.DTSTART, timezone) : null;
+  if (!start) return null;
+
+  const end = properties.DTEND ? parseIcsDate(properties.DTEND, timezone) : null;
+  let endDate = start.date;
+  if (end && end.date > start.date) {
+    // An end at midnight (always for all-day events) doesn't cover that day
+    endDate = end.midnight ? addCalendarDays(end.date, -1) : end.date;
+  }
+
+  const summary = properties.SUMMARY ? unescapeIcsText(properties.SUMMARY).trim() : '';
+
+  return { startDate: start.date, endDate, label: summary ? summary.slice(0, 200) : null };
+}
+
+/**
+ * YYYY-MM-DD of an ICS date or date-time value, as written
+ */
+function toIsoDate(value: string): string {
+  const digits = value.trim();
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST', 'BYDAY'];
+
+/**
+ * Start dates of a recurrence rule's occurrences from `start` up to `until`, or null if
+ * the rule can't be expanded. COUNT includes occurrences before the import range.
+ */
+function expandRecurrence(rrule: string, start: string, until: string): string[] | null {
+  const parts: Record<string, string> = {};
+  for (const part of rrule.split(';')) {
+    const [name, value = ''] = part.split('=');
+    parts[name.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+  if (Object.keys(parts).some((name) => !SUPPORTED_RRULE_PARTS.includes(name))) return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== Infinity && (!Number.isInteger(count) || count < 1)) return null;
+
+  let last = until;
+  if (parts.UNTIL) {
+    const ruleUntil = toIsoDate(parts.UNTIL);
+    if (!isValidCalendarDate(ruleUntil)) return null;
+    if (ruleUntil < last) last = ruleUntil;
+  }
+
+  const dates: string[] = [];
+  // Adds a candidate date, false once the rule has ended
+  const add = (date: string) => {
+    if (date > last || dates.length >= count) return false;
+    if (date >= start && isValidCalendarDate(date)) dates.push(date);
+    return true;
+  };
+  const [year, month, day] = start.split('-').map(Number);
+
+  switch (parts.FREQ) {
+    case 'DAILY':
+      if (parts.BYDAY) return null;
+      for (let n = 0; ; n += interval) {
+        if (!add(addCalendarDays(start, n))) break;
+      }
+      break;
+    case 'WEEKLY': {
+      const weekdays = parts.BYDAY ? parts.BYDAY.split(',') : [WEEKDAY_CODES[weekdayOf(start)]];
+      const weekStart = WEEKDAY_CODES.indexOf(parts.WKST || 'MO');
+      if (weekStart === -1 || weekdays.some((code) => !WEEKDAY_CODES.includes(code))) {
+        return null;
+      }
+      const firstWeek = addCalendarDays(start, -((weekdayOf(start) - weekStart + 7) % 7));
+      for (let week = firstWeek; week <= last; week = addCalendarDays(week, 7 * interval)) {
+        for (let offset = 0; offset < 7; offset++) {
+          const date = addCalendarDays(week, offset);
+          if (weekdays.includes(WEEKDAY_CODES[weekdayOf(date)]) && !add(date)) return dates;
+        }
+      }
+      break;
+    }
+    case 'MONTHLY':
+      if (parts.BYDAY) return null;
+      // Months without the start's day are skipped, like RFC 5545 does
+      for (let monthIndex = month - 1; ; monthIndex += interval) {
+        const date = formatCalendarDate(
+          year + Math.floor(monthIndex / 12),
+          (monthIndex % 12) + 1,
+          day
+        );
+        if (!add(date)) break;
+      }
+      break;
+    case 'YEARLY':
+      if (parts.BYDAY) return null;
+      for (let n = 0; ; n += interval) {
+        if (!add(formatCalendarDate(year + n, month, day))) break;
+      }
+      break;
+    default:
+      return null;
+  }
+
+  return dates;
+}
+
+function weekdayOf(date: string): number {
+  return new Date(Date.parse(date)).getUTCDay();
+}
@@ -0,0 +1,194 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDraftPoolWhere,
+  draftFilterWhere,
+  getDraftFilter,
+  getDraftPoolAlert,
+} from './automation-draft-pool.js';
+
+const automation = (id: string, sortOrder: number, draftFilter: unknown = null) => ({
+  id,
+  draftFilter,
+  sortOrder,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+});
+
+describe('getDraftFilter', () => {
+  it('should drop empty and malformed criteria', () => {
+    expect(
+      getDraftFilter({
+        requiredTags: ['exclusive', 42],
+        excludedTags: [],
+        isMature: 'yes',
+        isAiGenerated: false,
+        categoryPathPrefix: '',
+        createdAfter: 'not a date',
+      })
+    ).toEqual({ requiredTags: ['exclusive'], isAiGenerated: false });
+  });
+
+  it('should return null when nothing is left', () => {
+    expect(getDraftFilter(null)).toBeNull();
+    expect(getDraftFilter({})).toBeNull();
+    expect(getDraftFilter(['exclusive'])).toBeNull();
+  });
+});
+
+describe('draftFilterWhere', () => {
+  it('should map every criterion to a deviation condition', () => {
+    expect(
+      draftFilterWhere({
+        requiredTags: ['a'],
+        excludedTags: ['b'],
+        isMature: true,
+        isAiGenerated: false,
+        categoryPathPrefix: 'digitalart',
+        createdAfter: '2025-01-01T00:00:00.000Z',
+      })
+    ).toEqual({
+      AND: [
+        { tags: { hasEvery: ['a'] } },
+        { NOT: { tags: { hasSome: ['b'] } } },
+        { isMature: true },
+        { isAiGenerated: false },
+        { categoryPath: { not: null, startsWith: 'digitalart' } },
+        { createdAt: { gte: new Date('2025-01-01T00:00:00.000Z') } },
+      ],
+    });
+  });
+});
+
+describe('buildDraftPoolWhere', () => {
+  const exclusive = { requiredTags: ['exclusive'] };
+  const mature = { isMature: true };
+
+  it('should keep uncategorized drafts out of a category claim by another automation', () => {
+    const photos = automation('photos', 0, { categoryPathPrefix: 'photography' });
+    const catchAll = automation('catch-all', 1);
+
+    // NOT of this condition is true for a NULL category, so uncategorized drafts stay available
+    expect(buildDraftPoolWhere(catchAll, false, [photos]).AND).toContainEqual({
+      OR: [
+        { automationDrafts: { some: { automationId: 'catch-all' } } },
+        {
+          NOT: {
+            OR: [
+              { automationDrafts: { some: { automationId: { not: 'catch-all' } } } },
+              { AND: [{ categoryPath: { not: null, startsWith: 'photography' } }] },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should only let filtered automations claim before later ones', () => {
+    const first = automation('first', 0, exclusive);
+    const second = automation('second', 1, mature);
+
+    const firstWhere = buildDraftPoolWhere(first, false, [second]);
+    const secondWhere = buildDraftPoolWhere(second, false, [first]);
+
+    expect(firstWhere).toEqual({
+      AND: [
+        {
+          OR: [
+            draftFilterWhere(exclusive),
+            { automationDrafts: { some: { automationId: 'first' } } },
+          ],
+        },
+        {
+          OR: [
+            { automationDrafts: { some: { automationId: 'first' } } },
+            { NOT: { OR: [{ automationDrafts: { some: { automationId: { not: 'first' } } } }] } },
+          ],
+        },
+      ],
+    });
+    expect(secondWhere.AND).toContainEqual({
+      OR: [
+        { automationDrafts: { some: { automationId: 'second' } } },
+        {
+          NOT: {
+            OR: [
+              { automationDrafts: { some: { automationId: { not: 'second' } } } },
+              draftFilterWhere(exclusive),
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should pick only from the collection when there is no filter', () => {
+    const where = buildDraftPoolWhere(automation('picked', 0), true, []);
+
+    expect((where.AND as unknown[])[0]).toEqual({
+      automationDrafts: { some: { automationId: 'picked' } },
+    });
+  });
+
+  it('should exclude every claimed draft for a catch-all automation', () => {
+    const where = buildDraftPoolWhere(automation('all', 0), false, [
+      automation('later', 5, exclusive),
+      automation('plain', 6),
+    ]);
+
+    expect(where).toEqual({
+      AND: [
+        {},
+        {
+          OR: [
+            { automationDrafts: { some: { automationId: 'all' } } },
+            {
+              NOT: {
+                OR: [
+                  { automationDrafts: { some: { automationId: { not: 'all' } } } },
+                  draftFilterWhere(exclusive),
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('getDraftPoolAlert', () => {
+  const settings = { lowPoolThreshold: 5, pauseWhenPoolEmpty: false, lowPoolAlertedAt: null };
+  const alerted = { ...settings, lowPoolAlertedAt: new Date('2025-01-01T00:00:00Z') };
+
+  it('should warn once when the pool drops below the threshold', () => {
+    expect(getDraftPoolAlert(4, settings)).toBe('warn');
+    expect(getDraftPoolAlert(4, alerted)).toBeNull();
+    expect(getDraftPoolAlert(5, settings)).toBeNull();
+  });
+
+  it('should reset the warning once the pool recovers', () => {
+    expect(getDraftPoolAlert(5, alerted)).toBe('recovered');
+    expect(getDraftPoolAlert(0, { ...alerted, lowPoolThreshold: null })).toBe('recovered');
+  });
+
+  it('should pause an empty pool when enabled', () => {
+    expect(getDraftPoolAlert(0, { ...alerted, pauseWhenPoolEmpty: true })).toBe('pause');
+    expect(getDraftPoolAlert(0, { ...settings, lowPoolThreshold: null })).toBeNull();
+  });
+});
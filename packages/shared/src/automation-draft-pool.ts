@@ -0,0 +1,207 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Automation draft pools.
+ *
+ * An automation picks from the drafts matching its filter plus the drafts explicitly
+ * added to its collection. Without either it picks from every draft. A draft claimed by
+ * one automation is never picked by another:
+ *
+ * - A draft in an automation's collection is claimed by it. Adding the same draft to
+ *   several collections shares it between them.
+ * - A draft matching a filter is claimed by the first filtered automation in the user's
+ *   order (sortOrder, then creation) whose filter matches.
+ * - Automations without a filter or collection only get unclaimed drafts.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export const MAX_DRAFT_FILTER_TAGS = 30;
+
+/**
+ * Automation.pausedReason when the auto-scheduler paused it because its pool ran dry
+ */
+export const POOL_EMPTY_PAUSE_REASON = 'pool_empty';
+
+export interface DraftFilter {
+  // Draft must have all of these tags
+  requiredTags?: string[];
+  // Draft must have none of these tags
+  excludedTags?: string[];
+  isMature?: boolean;
+  isAiGenerated?: boolean;
+  // e.g. "digitalart/paintings" matches "digitalart/paintings/fantasy"
+  categoryPathPrefix?: string;
+  // ISO date, drafts created on or after it
+  createdAfter?: string;
+}
+
+/**
+ * Automation fields that decide its pool and its claim order
+ */
+export interface DraftPoolAutomation {
+  id: string;
+  draftFilter: unknown;
+  sortOrder: number;
+  createdAt: Date;
+}
+
+/**
+ * Read the filter column of an automation, dropping empty or malformed criteria.
+ * Returns null when nothing is left to filter on.
+ */
+export function getDraftFilter(value: unknown): DraftFilter | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const filter: DraftFilter = {};
+  const tags = (list: unknown) =>
+    Array.isArray(list) ? list.filter((tag): tag is string => typeof tag === 'string') : [];
+
+  const requiredTags = tags(raw.requiredTags);
+  if (requiredTags.length > 0) filter.requiredTags = requiredTags;
+  const excludedTags = tags(raw.excludedTags);
+  if (excludedTags.length > 0) filter.excludedTags = excludedTags;
+  if (typeof raw.isMature === 'boolean') filter.isMature = raw.isMature;
+  if (typeof raw.isAiGenerated === 'boolean') filter.isAiGenerated = raw.isAiGenerated;
+  if (typeof raw.categoryPathPrefix === 'string' && raw.categoryPathPrefix) {
+    filter.categoryPathPrefix = raw.categoryPathPrefix;
+  }
+  if (typeof raw.createdAfter === 'string' && !isNaN(Date.parse(raw.createdAfter))) {
+    filter.createdAfter = raw.createdAfter;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : null;
+}
+
+/**
+ * Deviation conditions for a filter
+ */
+export function draftFilterWhere(filter: DraftFilter): Prisma.DeviationWhereInput {
+  const conditions: Prisma.DeviationWhereInput[] = [];
+
+  if (filter.requiredTags) {
+    conditions.push({ tags: { hasEvery: filter.requiredTags } });
+  }
+  if (filter.excludedTags) {
+    conditions.push({ NOT: { tags: { hasSome: filter.excludedTags } } });
+  }
+  if (filter.isMature !== undefined) {
+    conditions.push({ isMature: filter.isMature });
+  }
+  if (filter.isAiGenerated !== undefined) {
+    conditions.push({ isAiGenerated: filter.isAiGenerated });
+  }
+  if (filter.categoryPathPrefix) {
+    // Explicit not-null: negated by other automations' pools, where a NULL category
+    // would make `NOT (category_path LIKE ...)` NULL and hide uncategorized drafts
+    conditions.push({ categoryPath: { not: null, startsWith: filter.categoryPathPrefix } });
+  }
+  if (filter.createdAfter) {
+    conditions.push({ createdAt: { gte: new Date(filter.createdAfter) } });
+  }
+
+  return { AND: conditions };
+}
+
+function claimsBefore(a: DraftPoolAutomation, b: DraftPoolAutomation): boolean {
+  if (a.sortOrder !== b.sortOrder) return a.sortOrder < b.sortOrder;
+  return a.createdAt.getTime() < b.createdAt.getTime();
+}
+
+/**
+ * Deviation conditions for the drafts an automation may pick, on top of the usual
+ * draft conditions (status, not scheduled, has files)
+ *
+ * @param automation - The automation selecting drafts
+ * @param hasDraftCollection - Whether drafts were explicitly added to it
+ * @param otherAutomations - The user's other automations, enabled or not
+ */
+export function buildDraftPoolWhere(
+  automation: DraftPoolAutomation,
+  hasDraftCollection: boolean,
+  otherAutomations: DraftPoolAutomation[]
+): Prisma.DeviationWhereInput {
+  const filter = getDraftFilter(automation.draftFilter);
+  const inCollection: Prisma.DeviationWhereInput = {
+    automationDrafts: { some: { automationId: automation.id } },
+  };
+
+  // Filters of automations that claim before this one (all of them for an unfiltered one)
+  const claimingFilters = otherAutomations
+    .filter((other) => other.id !== automation.id)
+    .filter((other) => !filter || claimsBefore(other, automation))
+    .map((other) => getDraftFilter(other.draftFilter))
+    .filter((other): other is DraftFilter => other !== null)
+    .map(draftFilterWhere);
+
+  const claimedElsewhere: Prisma.DeviationWhereInput = {
+    OR: [
+      { automationDrafts: { some: { automationId: { not: automation.id } } } },
+      ...claimingFilters,
+    ],
+  };
+
+  const pool: Prisma.DeviationWhereInput = filter
+    ? { OR: [draftFilterWhere(filter), inCollection] }
+    : hasDraftCollection
+      ? inCollection
+      : {};
+
+  // Explicitly added drafts stay available even when another automation claims them
+  return { AND: [pool, { OR: [inCollection, { NOT: claimedElsewhere }] }] };
+}
+
+/**
+ * Automation fields that decide draft pool alerts
+ */
+export interface DraftPoolAlertSettings {
+  lowPoolThreshold: number | null;
+  pauseWhenPoolEmpty: boolean;
+  lowPoolAlertedAt: Date | null;
+}
+
+/**
+ * What to do after a run left `remaining` drafts in the pool:
+ *
+ * - `pause`: pool is empty and the automation pauses itself
+ * - `warn`: fewer than the threshold remain and the user wasn't warned yet
+ * - `recovered`: the user was warned but the pool is back at the threshold
+ * - `null`: nothing changed
+ */
+export function getDraftPoolAlert(
+  remaining: number,
+  settings: DraftPoolAlertSettings
+): 'pause' | 'warn' | 'recovered' | null {
+  if (remaining === 0 && settings.pauseWhenPoolEmpty) {
+    return 'pause';
+  }
+
+  const threshold = settings.lowPoolThreshold;
+  if (threshold === null) {
+    return settings.lowPoolAlertedAt ? 'recovered' : null;
+  }
+
+  if (remaining < threshold) {
+    return settings.lowPoolAlertedAt ? null : 'warn';
+  }
+
+  return settings.lowPoolAlertedAt ? 'recovered' : null;
+}
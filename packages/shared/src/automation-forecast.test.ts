@@ -0,0 +1,416 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { forecastAutomation, type ForecastAutomation } from './automation-forecast.js';
+
+// Monday
+const from = new Date('2025-01-06T00:00:00Z');
+
+const file = { originalFilename: 'art.png', mimeType: 'image/png', fileSize: 1024 };
+
+function createDrafts(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `draft-${i + 1}`,
+    title: `Draft ${i + 1}`,
+    stashOnly: false,
+    files: [file],
+  }));
+}
+
+function createAutomation(overrides: Partial<ForecastAutomation> = {}): ForecastAutomation {
+  return {
+    id: 'auto-1',
+    draftSelectionMethod: 'fifo',
+    jitterMinSeconds: 0,
+    jitterMaxSeconds: 0,
+    stashOnlyByDefault: false,
+    autoAddToSaleQueue: false,
+    saleQueuePresetId: null,
+    defaultValues: [],
+    lowPoolThreshold: null,
+    pauseWhenPoolEmpty: false,
+    lowPoolAlertedAt: null,
+    scheduleRules: [{ type: 'fixed_time', timeOfDay: '09:02', daysOfWeek: null }],
+    ...overrides,
+  };
+}
+
+describe('forecastAutomation', () => {
+  it('should project fixed_time runs in the user timezone', () => {
+    const forecast = forecastAutomation(createAutomation(), createDrafts(5), {
+      from,
+      days: 3,
+      timezone: 'Asia/Jakarta',
+      seed: 1,
+    });
+
+    // 09:02 in Jakarta (UTC+7) is picked up by the 02:05 UTC check
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-06T02:05:00.000Z',
+      '2025-01-07T02:05:00.000Z',
+      '2025-01-08T02:05:00.000Z',
+    ]);
+    expect(forecast.entries.map((entry) => entry.draftId)).toEqual([
+      'draft-1',
+      'draft-2',
+      'draft-3',
+    ]);
+    expect(forecast.entries[0]).toMatchObject({ ruleType: 'fixed_time', jitterSeconds: 0 });
+    expect(forecast.until).toEqual(new Date('2025-01-09T00:00:00Z'));
+  });
+
+  it('should respect daysOfWeek', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [{ type: 'fixed_time', timeOfDay: '09:02', daysOfWeek: ['saturday'] }],
+      }),
+      createDrafts(5),
+      { from, days: 14, timezone: 'UTC', seed: 1 }
+    );
+
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-11T09:05:00.000Z',
+      '2025-01-18T09:05:00.000Z',
+    ]);
+  });
+
+  it('should skip blackout days and post on extra days', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [{ type: 'fixed_time', timeOfDay: '09:02', daysOfWeek: ['monday'] }],
+      }),
+      createDrafts(5),
+      {
+        from,
+        days: 14,
+        timezone: 'UTC',
+        seed: 1,
+        exceptions: [
+          { type: 'blackout', startDate: '2025-01-06', endDate: '2025-01-06' },
+          { type: 'extra_day', startDate: '2025-01-11', endDate: '2025-01-11' },
+        ],
+      }
+    );
+
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-11T09:05:00.000Z',
+      '2025-01-13T09:05:00.000Z',
+    ]);
+  });
+
+  it('should pick the same random drafts and jitter for the same seed', () => {
+    const automation = createAutomation({
+      draftSelectionMethod: 'random',
+      jitterMaxSeconds: 300,
+      scheduleRules: [{ type: 'fixed_interval', intervalMinutes: 360, deviationsPerInterval: 1 }],
+    });
+    const drafts = createDrafts(10);
+    const options = { from, days: 2, timezone: 'UTC', seed: 99 };
+
+    const first = forecastAutomation(automation, drafts, options);
+    const second = forecastAutomation(automation, drafts, options);
+    const other = forecastAutomation(automation, drafts, { ...options, seed: 100 });
+
+    expect(first.entries).toEqual(second.entries);
+    expect(first.entries.map((entry) => entry.draftId)).not.toEqual(
+      other.entries.map((entry) => entry.draftId)
+    );
+    expect(first.seed).toBe(99);
+  });
+
+  it('should continue intervals and daily counts from the execution history', () => {
+    const forecast = forecastAutomation(
+      createAutomation({ scheduleRules: [{ type: 'daily_quota', dailyQuota: 2 }] }),
+      createDrafts(5),
+      {
+        from: new Date('2025-01-06T12:00:00Z'),
+        days: 1,
+        timezone: 'UTC',
+        seed: 1,
+        history: [
+          {
+            triggeredByRuleType: 'daily_quota',
+            executedAt: new Date('2025-01-06T00:05:00Z'),
+            scheduledCount: 2,
+          },
+        ],
+      }
+    );
+
+    // Today's quota is used up, tomorrow's runs on the first checks after midnight
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-07T00:00:00.000Z',
+      '2025-01-07T00:05:00.000Z',
+    ]);
+  });
+
+  it('should fire a fixed_time rule once per occurrence', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [{ type: 'fixed_time', timeOfDay: '14:00', carriedOverCount: 1 }],
+      }),
+      createDrafts(5),
+      { from: new Date('2025-01-06T12:00:00Z'), days: 2, timezone: 'UTC', seed: 1 }
+    );
+
+    // 14:00 is a check, 14:05 is still in the trigger window but the occurrence is done.
+    // The first run also posts the carried over draft.
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-06T14:00:00.000Z',
+      '2025-01-06T14:00:00.000Z',
+      '2025-01-07T14:00:00.000Z',
+    ]);
+  });
+
+  it('should not fire again for an occurrence that already fired', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [
+          {
+            type: 'fixed_time',
+            timeOfDay: '14:00',
+            lastFiredAt: new Date('2025-01-06T14:00:00Z'),
+          },
+        ],
+      }),
+      createDrafts(5),
+      { from: new Date('2025-01-06T14:02:00Z'), days: 1, timezone: 'UTC', seed: 1 }
+    );
+
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-07T14:00:00.000Z',
+    ]);
+  });
+
+  it('should handle a missed fixed_time occurrence like the scheduler', () => {
+    const forecastWithPolicy = (missedTriggerPolicy: string) =>
+      forecastAutomation(
+        createAutomation({
+          scheduleRules: [
+            {
+              type: 'fixed_time',
+              timeOfDay: '14:00',
+              lastFiredAt: new Date('2025-01-05T14:00:00Z'),
+              missedTriggerPolicy,
+            },
+          ],
+        }),
+        createDrafts(5),
+        { from: new Date('2025-01-06T14:30:00Z'), days: 1, timezone: 'UTC', seed: 1 }
+      ).entries.map((entry) => entry.publishAt.toISOString());
+
+    expect(forecastWithPolicy('skip')).toEqual(['2025-01-07T14:00:00.000Z']);
+    expect(forecastWithPolicy('fire_late')).toEqual([
+      '2025-01-06T14:35:00.000Z',
+      '2025-01-07T14:00:00.000Z',
+    ]);
+    expect(forecastWithPolicy('next_slot')).toEqual([
+      '2025-01-07T14:00:00.000Z',
+      '2025-01-07T14:00:00.000Z',
+    ]);
+  });
+
+  it('should apply the day filter of a missed occurrence', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [
+          {
+            type: 'fixed_time',
+            timeOfDay: '23:58',
+            daysOfWeek: ['sunday'],
+            lastFiredAt: new Date('2024-12-29T23:58:00Z'),
+            missedTriggerPolicy: 'fire_late',
+          },
+        ],
+      }),
+      createDrafts(5),
+      { from: new Date('2025-01-06T00:03:00Z'), days: 1, timezone: 'UTC', seed: 1 }
+    );
+
+    // Sunday's 23:58 was missed, its late run on Monday still counts as Sunday's
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-06T00:05:00.000Z',
+    ]);
+  });
+
+  it('should spread an even daily quota across the active hours', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [
+          {
+            type: 'daily_quota',
+            dailyQuota: 3,
+            quotaDistribution: 'even',
+            activeHoursStart: '09:00',
+            activeHoursEnd: '21:00',
+          },
+        ],
+      }),
+      createDrafts(5),
+      { from: new Date('2025-01-06T12:00:00Z'), days: 1, timezone: 'UTC', seed: 1 }
+    );
+
+    // The 09:00 slot already passed without a run, so it is caught up at the first check
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-06T12:05:00.000Z',
+      '2025-01-06T15:00:00.000Z',
+      '2025-01-06T21:00:00.000Z',
+      '2025-01-07T09:00:00.000Z',
+    ]);
+  });
+
+  it('should plan time_window slots inside the window', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [
+          {
+            type: 'time_window',
+            windowStart: '18:00',
+            windowEnd: '23:00',
+            windowPostCount: 3,
+            windowMinGapMinutes: 60,
+          },
+        ],
+      }),
+      createDrafts(10),
+      { from, days: 2, timezone: 'UTC', seed: 5 }
+    );
+
+    expect(forecast.entries).toHaveLength(6);
+    for (const entry of forecast.entries) {
+      expect(entry.ruleType).toBe('time_window');
+      expect(entry.publishAt.getUTCHours()).toBeGreaterThanOrEqual(18);
+      expect(entry.publishAt.getTime()).toBeLessThanOrEqual(
+        Date.UTC(2025, 0, entry.publishAt.getUTCDate(), 23, 0)
+      );
+    }
+    const firstDay = forecast.entries.slice(0, 3).map((entry) => entry.publishAt.getTime());
+    expect(firstDay[1] - firstDay[0]).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    expect(firstDay[2] - firstDay[1]).toBeGreaterThanOrEqual(60 * 60 * 1000);
+  });
+
+  it('should apply default values and skip drafts that fail validation', () => {
+    const drafts = [{ ...createDrafts(1)[0], title: '' }, ...createDrafts(2).slice(1)];
+    const forecast = forecastAutomation(
+      createAutomation({
+        stashOnlyByDefault: true,
+        defaultValues: [{ fieldName: 'tags', value: ['art'], applyIfEmpty: true }],
+      }),
+      drafts.map((draft) => ({ ...draft, stashOnly: null })),
+      { from, days: 2, timezone: 'UTC', seed: 1 }
+    );
+
+    expect(forecast.skipped).toEqual([
+      {
+        draftId: 'draft-1',
+        title: '',
+        triggeredAt: new Date('2025-01-06T09:05:00Z'),
+        reason: 'Failed validation: Title is required',
+      },
+    ]);
+    expect(forecast.entries).toHaveLength(1);
+    // The refused draft is replaced in the same run
+    expect(forecast.entries[0]).toMatchObject({
+      draftId: 'draft-2',
+      triggeredAt: new Date('2025-01-06T09:05:00Z'),
+      appliedDefaults: { tags: ['art'], stashOnly: true },
+    });
+  });
+
+  it('should stop replacing refused drafts after the selection rounds of a run', () => {
+    const drafts = createDrafts(7).map((draft, i) => (i < 6 ? { ...draft, title: '' } : draft));
+    const forecast = forecastAutomation(createAutomation(), drafts, {
+      from,
+      days: 1,
+      timezone: 'UTC',
+      seed: 1,
+    });
+
+    // One draft per round, 5 rounds: the 6th and 7th drafts wait for the next run
+    expect(forecast.skipped.map((skip) => skip.draftId)).toEqual([
+      'draft-1',
+      'draft-2',
+      'draft-3',
+      'draft-4',
+      'draft-5',
+    ]);
+    expect(forecast.entries).toEqual([]);
+  });
+
+  it('should apply the publishing policy', () => {
+    const forecast = forecastAutomation(
+      createAutomation({
+        scheduleRules: [{ type: 'fixed_interval', intervalMinutes: 60, deviationsPerInterval: 1 }],
+      }),
+      createDrafts(3),
+      {
+        from,
+        days: 1,
+        timezone: 'UTC',
+        seed: 1,
+        policy: { maxPostsPerDay: 1, minPostGapMinutes: null, quietHours: [] },
+        occupied: [new Date('2025-01-05T22:00:00Z')],
+      }
+    );
+
+    expect(forecast.entries.map((entry) => entry.publishAt.toISOString())).toEqual([
+      '2025-01-06T00:05:00.000Z',
+      '2025-01-07T00:00:00.000Z',
+      '2025-01-08T00:00:00.000Z',
+    ]);
+    expect(forecast.entries[1].policyReasons).toEqual(['daily_cap']);
+  });
+
+  it('should report when the drafts run out', () => {
+    const forecast = forecastAutomation(createAutomation(), createDrafts(1), {
+      from,
+      days: 7,
+      timezone: 'UTC',
+      seed: 1,
+    });
+
+    expect(forecast.entries).toHaveLength(1);
+    expect(forecast.draftsExhaustedAt).toEqual(new Date('2025-01-07T09:05:00Z'));
+    expect(forecast.pausedAt).toBeNull();
+  });
+
+  it('should report the low pool warning once', () => {
+    const forecast = forecastAutomation(
+      createAutomation({ lowPoolThreshold: 3 }),
+      createDrafts(4),
+      { from, days: 4, timezone: 'UTC', seed: 1 }
+    );
+
+    // 2 drafts left after the second run
+    expect(forecast.poolLowAt).toEqual(new Date('2025-01-07T09:05:00Z'));
+    expect(forecast.entries).toHaveLength(4);
+  });
+
+  it('should end where the automation pauses itself on an empty pool', () => {
+    const forecast = forecastAutomation(
+      createAutomation({ pauseWhenPoolEmpty: true }),
+      createDrafts(2),
+      { from, days: 7, timezone: 'UTC', seed: 1 }
+    );
+
+    expect(forecast.entries).toHaveLength(2);
+    expect(forecast.pausedAt).toEqual(new Date('2025-01-07T09:05:00Z'));
+    // The paused automation never runs into the empty pool
+    expect(forecast.draftsExhaustedAt).toBeNull();
+  });
+});
@@ -0,0 +1,361 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Automation forecast.
+ *
+ * Dry run of the auto-scheduler: replays its 5-minute checks over the coming days with an
+ * in-memory execution log and draft pool, and records which drafts each run would pick
+ * and when they would publish. Rules are evaluated by evaluateScheduleRules(), like in
+ * the scheduler, with rule state kept on copies of the rules. Nothing is written; the
+ * caller loads the automation, drafts, execution history and occupied publish slots.
+ * Random choices (random draft selection, jitter, time_window slots) use a seeded source,
+ * so a seed always gives the same forecast.
+ */
+
+import {
+  AUTO_SCHEDULER_INTERVAL_MINUTES,
+  applyAutomationDefaults,
+  calculateScheduleCount,
+  createSeededRandom,
+  MAX_SELECTION_ROUNDS,
+  shuffle,
+  type AutomationDefaultsSource,
+} from './automation-rules.js';
+import {
+  evaluateScheduleRules,
+  startOfLocalDay,
+  type RuleRunHistory,
+  type ScheduleRule,
+} from './automation-triggers.js';
+import type { CalendarException } from './automation-calendar.js';
+import { getDraftPoolAlert, type DraftPoolAlertSettings } from './automation-draft-pool.js';
+import { formatValidationErrors, validateDeviationForPublish } from './deviation-validation.js';
+import {
+  findNextAllowedSlot,
+  hasPublishingPolicy,
+  type PublishingPolicy,
+  type PublishingPolicyReason,
+} from './publishing-policy.js';
+
+export const DEFAULT_FORECAST_DAYS = 14;
+export const MAX_FORECAST_DAYS = 31;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type ForecastRule = ScheduleRule;
+
+export interface ForecastAutomation extends AutomationDefaultsSource, DraftPoolAlertSettings {
+  // Seeds random daily_quota slots, like in the scheduler
+  id: string;
+  draftSelectionMethod: string;
+  jitterMinSeconds: number;
+  jitterMaxSeconds: number;
+  // Enabled rules in priority order
+  scheduleRules: ForecastRule[];
+}
+
+/**
+ * Draft as loaded for scheduling (with files). Pass FIFO/LIFO pools in selection order.
+ */
+export interface ForecastDraft {
+  id: string;
+  title: string;
+  [field: string]: any;
+}
+
+export interface ForecastExecution {
+  triggeredByRuleType: string | null;
+  executedAt: Date;
+  scheduledCount: number;
+}
+
+export interface ForecastOptions {
+  from: Date;
+  days: number;
+  timezone: string;
+  seed: number;
+  // Real execution log entries, so intervals and daily counts continue where they are
+  history?: ForecastExecution[];
+  policy?: PublishingPolicy;
+  // Publish times of the user's other published and scheduled posts
+  occupied?: Date[];
+  // The automation's and the user's blackout and extra days
+  exceptions?: CalendarException[];
+}
+
+export interface ForecastEntry {
+  draftId: string;
+  title: string;
+  triggeredAt: Date;
+  publishAt: Date;
+  ruleType: string;
+  jitterSeconds: number;
+  policyReasons: PublishingPolicyReason[];
+  appliedDefaults: Record<string, unknown>;
+}
+
+export interface ForecastSkip {
+  draftId: string;
+  title: string;
+  triggeredAt: Date;
+  reason: string;
+}
+
+export interface AutomationForecast {
+  from: Date;
+  until: Date;
+  timezone: string;
+  seed: number;
+  entries: ForecastEntry[];
+  // Drafts a run would pick but refuse because they fail pre-publish validation
+  skipped: ForecastSkip[];
+  // First run that triggered with no drafts left
+  draftsExhaustedAt: Date | null;
+  // First run after which fewer than lowPoolThreshold drafts are left (low pool warning)
+  poolLowAt: Date | null;
+  // Run after which the automation pauses itself (pauseWhenPoolEmpty); the forecast ends there
+  pausedAt: Date | null;
+}
+
+/**
+ * Simulate the auto-scheduler for `options.days` days after `options.from`
+ */
+export function forecastAutomation(
+  automation: ForecastAutomation,
+  drafts: ForecastDraft[],
+  options: ForecastOptions
+): AutomationForecast {
+  const { from, timezone, seed } = options;
+  const until = new Date(from.getTime() + options.days * DAY_MS);
+  const random = createSeededRandom(seed);
+  const occupied = [...(options.occupied ?? [])];
+  const policy = options.policy && hasPublishingPolicy(options.policy) ? options.policy : null;
+  // Copies, so fired occurrences and carried over posts update like stored rule state
+  const rules = automation.scheduleRules.map((rule) => ({ ...rule }));
+
+  let pool = [...drafts];
+  // Refused drafts stay drafts, so they still count towards the pool's size
+  let refusedCount = 0;
+  let lowPoolAlertedAt = automation.lowPoolAlertedAt;
+  const entries: ForecastEntry[] = [];
+  const skipped: ForecastSkip[] = [];
+  let draftsExhaustedAt: Date | null = null;
+  let poolLowAt: Date | null = null;
+  let pausedAt: Date | null = null;
+
+  // Same ticks as the scheduler's cron job (every 5 minutes, on the minute)
+  const intervalMs = AUTO_SCHEDULER_INTERVAL_MINUTES * MINUTE_MS;
+  const firstTick = Math.floor(from.getTime() / intervalMs) * intervalMs + intervalMs;
+  const runLog = new SimulatedRunLog(
+    options.history ?? [],
+    startOfLocalDay(new Date(firstTick), timezone)
+  );
+
+  // Warn about (or pause on) a low draft pool after a run, like the scheduler
+  const checkDraftPool = (now: Date) => {
+    const alert = getDraftPoolAlert(pool.length + refusedCount, {
+      lowPoolThreshold: automation.lowPoolThreshold,
+      pauseWhenPoolEmpty: automation.pauseWhenPoolEmpty,
+      lowPoolAlertedAt,
+    });
+    if (alert === 'pause') {
+      pausedAt = now;
+    } else if (alert === 'warn') {
+      lowPoolAlertedAt = now;
+      poolLowAt ??= now;
+    } else if (alert === 'recovered') {
+      lowPoolAlertedAt = null;
+    }
+  };
+
+  for (let tick = firstTick; tick < until.getTime() && !pausedAt; tick += intervalMs) {
+    const now = new Date(tick);
+    const evaluation = evaluateScheduleRules(rules, {
+      automationId: automation.id,
+      now,
+      timezone,
+      exceptions: options.exceptions ?? [],
+      history: runLog.summarize(startOfLocalDay(now, timezone)),
+      random,
+    });
+    const triggered = evaluation.rules
+      .filter((result) => result.triggered)
+      .map((result) => ({ ...result.rule, plannedSlots: result.plannedSlots }));
+
+    for (const { rule, update, missed } of evaluation.rules) {
+      if (update) Object.assign(rule, update);
+      if (missed) {
+        runLog.record({ triggeredByRuleType: 'fixed_time', executedAt: now, scheduledCount: 0 });
+      }
+    }
+    if (triggered.length === 0) continue;
+
+    const count = calculateScheduleCount(triggered);
+    if (count === 0) continue;
+
+    if (pool.length === 0) {
+      // A real run logs the empty pool and the scheduler keeps checking
+      if (!draftsExhaustedAt) draftsExhaustedAt = now;
+      runLog.record({ triggeredByRuleType: null, executedAt: now, scheduledCount: 0 });
+      checkDraftPool(now);
+      continue;
+    }
+
+    const candidates = automation.draftSelectionMethod === 'random' ? shuffle(pool, random) : pool;
+    let nextCandidate = 0;
+    const selectDrafts = (selectCount: number) => {
+      const selected = candidates.slice(nextCandidate, nextCandidate + selectCount);
+      nextCandidate += selected.length;
+      return selected;
+    };
+    const triedIds = new Set<string>();
+
+    const plannedSlots = triggered.flatMap((rule) => rule.plannedSlots ?? []);
+    const immediateRuleType =
+      triggered.find((rule) => rule.type !== 'time_window')?.type ?? triggered[0].type;
+    let scheduled = 0;
+    let scheduledInWindow = 0;
+
+    // Drafts refused by validation are replaced by the next candidates, like a real run
+    let selection = selectDrafts(count);
+    for (let round = 1; selection.length > 0; round++) {
+      let refused = 0;
+      for (const draft of selection) {
+        triedIds.add(draft.id);
+
+        const plannedAt = plannedSlots[scheduled];
+        const updates = applyAutomationDefaults(draft, automation);
+
+        const validation = validateDeviationForPublish({ ...draft, ...updates });
+        if (!validation.valid) {
+          skipped.push({
+            draftId: draft.id,
+            title: draft.title,
+            triggeredAt: now,
+            reason: `Failed validation: ${formatValidationErrors(validation)}`,
+          });
+          refused++;
+          continue;
+        }
+
+        const jitterRange = automation.jitterMaxSeconds - automation.jitterMinSeconds;
+        let jitterSeconds = plannedAt
+          ? 0
+          : automation.jitterMinSeconds + Math.floor(random() * (jitterRange + 1));
+        let publishAt = plannedAt ?? new Date(tick + jitterSeconds * 1000);
+        let policyReasons: PublishingPolicyReason[] = [];
+
+        if (policy) {
+          const slot = findNextAllowedSlot(policy, timezone, publishAt, occupied);
+          if (slot.deferred) {
+            publishAt = slot.publishAt;
+            jitterSeconds = 0;
+            policyReasons = slot.reasons;
+          }
+        }
+        occupied.push(publishAt);
+
+        entries.push({
+          draftId: draft.id,
+          title: draft.title,
+          triggeredAt: now,
+          publishAt,
+          ruleType: plannedAt ? 'time_window' : immediateRuleType,
+          jitterSeconds,
+          policyReasons,
+          appliedDefaults: updates,
+        });
+        scheduled++;
+        if (plannedAt) scheduledInWindow++;
+      }
+
+      refusedCount += refused;
+      selection = refused > 0 && round < MAX_SELECTION_ROUNDS ? selectDrafts(refused) : [];
+    }
+
+    pool = pool.filter((draft) => !triedIds.has(draft.id));
+
+    // Same execution log entries as a real run
+    if (plannedSlots.length > 0) {
+      runLog.record({
+        triggeredByRuleType: 'time_window',
+        executedAt: now,
+        scheduledCount: scheduledInWindow,
+      });
+    }
+    if (plannedSlots.length === 0 || scheduled > scheduledInWindow) {
+      runLog.record({
+        triggeredByRuleType: immediateRuleType,
+        executedAt: now,
+        scheduledCount: scheduled - scheduledInWindow,
+      });
+    }
+    checkDraftPool(now);
+  }
+
+  entries.sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+
+  return {
+    from,
+    until,
+    timezone,
+    seed,
+    entries,
+    skipped,
+    draftsExhaustedAt,
+    poolLowAt,
+    pausedAt,
+  };
+}
+
+/**
+ * Execution log figures the rules read, kept as running tallies of the simulated log:
+ * the last run per rule type and the count scheduled since the start of the local day
+ */
+class SimulatedRunLog {
+  private lastRunAt: Record<string, Date> = {};
+  private scheduledToday: Record<string, number> = {};
+
+  constructor(
+    history: ForecastExecution[],
+    private startOfToday: Date
+  ) {
+    history.forEach((execution) => this.record(execution));
+  }
+
+  record({ triggeredByRuleType: ruleType, executedAt, scheduledCount }: ForecastExecution): void {
+    if (!ruleType) return;
+    const lastRunAt = this.lastRunAt[ruleType];
+    if (!lastRunAt || executedAt > lastRunAt) {
+      this.lastRunAt[ruleType] = executedAt;
+    }
+    if (executedAt >= this.startOfToday) {
+      this.scheduledToday[ruleType] = (this.scheduledToday[ruleType] ?? 0) + scheduledCount;
+    }
+  }
+
+  summarize(startOfToday: Date): RuleRunHistory {
+    // A new local day starts a new count
+    if (startOfToday.getTime() !== this.startOfToday.getTime()) {
+      this.startOfToday = startOfToday;
+      this.scheduledToday = {};
+    }
+    return { lastRunAt: { ...this.lastRunAt }, scheduledToday: { ...this.scheduledToday } };
+  }
+}
@@ -0,0 +1,273 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyAutomationDefaults,
+  calculateScheduleCount,
+  createSeededRandom,
+  estimatePostsPerDay,
+  findLatestDailyOccurrence,
+  findRecentCronRun,
+  isQuotaSlotDue,
+  isTimeMatch,
+  planQuotaSlotMinutes,
+  planWindowSlotMinutes,
+  shuffle,
+} from './automation-rules.js';
+import { parseCronExpression } from './cron-schedule.js';
+
+describe('isTimeMatch', () => {
+  it('should match up to 7 minutes after the target', () => {
+    expect(isTimeMatch('14:00', '14:00')).toBe(true);
+    expect(isTimeMatch('14:06', '14:00')).toBe(true);
+    expect(isTimeMatch('14:07', '14:00')).toBe(false);
+    expect(isTimeMatch('13:59', '14:00')).toBe(false);
+  });
+});
+
+describe('findLatestDailyOccurrence', () => {
+  it("should return today's occurrence once it has passed", () => {
+    expect(findLatestDailyOccurrence('14:00', new Date('2025-01-06T14:00:00Z'), 'UTC')).toEqual(
+      new Date('2025-01-06T14:00:00Z')
+    );
+  });
+
+  it("should return yesterday's occurrence before today's", () => {
+    // 20:00 on the 6th in Jakarta
+    expect(
+      findLatestDailyOccurrence('23:30', new Date('2025-01-06T13:00:00Z'), 'Asia/Jakarta')
+    ).toEqual(new Date('2025-01-05T16:30:00Z'));
+  });
+});
+
+describe('findRecentCronRun', () => {
+  it('should return the occurrence within the trigger window', () => {
+    const schedule = parseCronExpression('0 19 * * *');
+
+    expect(findRecentCronRun(schedule, new Date('2025-01-06T19:05:30Z'), 'UTC')).toEqual(
+      new Date('2025-01-06T19:00:00Z')
+    );
+    expect(findRecentCronRun(schedule, new Date('2025-01-06T19:07:00Z'), 'UTC')).toBeNull();
+  });
+});
+
+describe('planWindowSlotMinutes', () => {
+  it('should keep slots inside the window and the gap apart', () => {
+    const random = createSeededRandom(7);
+
+    for (let run = 0; run < 20; run++) {
+      const slots = planWindowSlotMinutes(18 * 60, 23 * 60, 4, 45, random);
+
+      expect(slots).toHaveLength(4);
+      expect(slots[0]).toBeGreaterThanOrEqual(18 * 60);
+      expect(slots[3]).toBeLessThanOrEqual(23 * 60);
+      for (let i = 1; i < slots.length; i++) {
+        expect(slots[i] - slots[i - 1]).toBeGreaterThanOrEqual(45);
+      }
+    }
+  });
+
+  it('should cap the count to what fits', () => {
+    expect(planWindowSlotMinutes(600, 660, 5, 30, () => 0)).toEqual([600, 630, 660]);
+    expect(planWindowSlotMinutes(600, 660, 0, 30)).toEqual([]);
+    expect(planWindowSlotMinutes(660, 600, 3, 30)).toEqual([]);
+  });
+});
+
+describe('planQuotaSlotMinutes', () => {
+  const rule = {
+    dailyQuota: 5,
+    quotaDistribution: 'even',
+    activeHoursStart: '09:00',
+    activeHoursEnd: '21:00',
+  };
+
+  it('should spread an even quota from start to end', () => {
+    expect(planQuotaSlotMinutes(rule, 'seed')).toEqual([540, 720, 900, 1080, 1260]);
+    expect(planQuotaSlotMinutes({ ...rule, dailyQuota: 1 }, 'seed')).toEqual([540]);
+  });
+
+  it('should pick the same random times for the same seed', () => {
+    const random = { ...rule, quotaDistribution: 'random', quotaMinGapMinutes: 60 };
+    const slots = planQuotaSlotMinutes(random, 'auto-1:2025-01-06')!;
+
+    expect(slots).toHaveLength(5);
+    expect(slots[0]).toBeGreaterThanOrEqual(540);
+    expect(slots[4]).toBeLessThanOrEqual(1260);
+    for (let i = 1; i < slots.length; i++) {
+      expect(slots[i] - slots[i - 1]).toBeGreaterThanOrEqual(60);
+    }
+    expect(planQuotaSlotMinutes(random, 'auto-1:2025-01-06')).toEqual(slots);
+    expect(planQuotaSlotMinutes(random, 'auto-1:2025-01-07')).not.toEqual(slots);
+  });
+
+  it('should return null when the quota is posted as soon as possible', () => {
+    expect(planQuotaSlotMinutes({ dailyQuota: 5 }, 'seed')).toBeNull();
+    expect(planQuotaSlotMinutes({ ...rule, quotaDistribution: 'asap' }, 'seed')).toBeNull();
+  });
+});
+
+describe('isQuotaSlotDue', () => {
+  const rule = {
+    dailyQuota: 3,
+    quotaDistribution: 'even',
+    activeHoursStart: '09:00',
+    activeHoursEnd: '13:00',
+  };
+  const slots = [540, 660, 780]; // 09:00, 11:00, 13:00
+
+  it('should post once per passed slot', () => {
+    expect(isQuotaSlotDue(rule, slots, 535, 0, null)).toBe(false);
+    expect(isQuotaSlotDue(rule, slots, 540, 0, null)).toBe(true);
+    expect(isQuotaSlotDue(rule, slots, 545, 1, 5)).toBe(false);
+    expect(isQuotaSlotDue(rule, slots, 660, 1, 120)).toBe(true);
+  });
+
+  it('should catch up missed slots until the active hours end', () => {
+    // Publisher down from 08:00 to 12:30
+    expect(isQuotaSlotDue(rule, slots, 750, 0, null)).toBe(true);
+    expect(isQuotaSlotDue(rule, slots, 755, 1, 5)).toBe(true);
+    expect(isQuotaSlotDue(rule, slots, 760, 2, 5)).toBe(false);
+    // Down until after the active hours
+    expect(isQuotaSlotDue(rule, slots, 785, 2, 300)).toBe(true);
+    expect(isQuotaSlotDue(rule, slots, 790, 2, 300)).toBe(false);
+  });
+
+  it('should skip missed slots when catch-up is off', () => {
+    const skipping = { ...rule, quotaCatchUp: false };
+
+    expect(isQuotaSlotDue(skipping, slots, 750, 0, null)).toBe(false);
+    expect(isQuotaSlotDue(skipping, slots, 780, 0, null)).toBe(true);
+    // The 13:00 slot was handled at 13:00
+    expect(isQuotaSlotDue(skipping, slots, 785, 1, 5)).toBe(false);
+  });
+});
+
+describe('calculateScheduleCount', () => {
+  it('should sum the count of every triggered rule', () => {
+    expect(
+      calculateScheduleCount([
+        { type: 'fixed_time' },
+        { type: 'fixed_interval', deviationsPerInterval: 3 },
+        { type: 'time_window', plannedSlots: [new Date(), new Date()] },
+      ])
+    ).toBe(6);
+  });
+});
+
+describe('shuffle and createSeededRandom', () => {
+  it('should give the same order for the same seed', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+
+    const first = shuffle(items, createSeededRandom(42));
+    const second = shuffle(items, createSeededRandom(42));
+
+    expect(first).toEqual(second);
+    expect([...first].sort((a, b) => a - b)).toEqual(items);
+    expect(shuffle(items, createSeededRandom(43))).not.toEqual(first);
+  });
+});
+
+describe('applyAutomationDefaults', () => {
+  const automation = {
+    stashOnlyByDefault: true,
+    autoAddToSaleQueue: false,
+    saleQueuePresetId: null,
+    defaultValues: [
+      { fieldName: 'tags', value: ['art'], applyIfEmpty: true },
+      { fieldName: 'isMature', value: true, applyIfEmpty: false },
+    ],
+  };
+
+  it('should only fill empty fields when applyIfEmpty is set', () => {
+    expect(applyAutomationDefaults({ tags: ['mine'], stashOnly: false }, automation)).toEqual({
+      isMature: true,
+    });
+    expect(applyAutomationDefaults({ tags: [], stashOnly: null }, automation)).toEqual({
+      tags: ['art'],
+      isMature: true,
+      stashOnly: true,
+    });
+  });
+
+  it('should force protection for sale queue exclusives', () => {
+    const updates = applyAutomationDefaults(
+      { displayResolution: 0, stashOnly: false },
+      { ...automation, defaultValues: [], autoAddToSaleQueue: true, saleQueuePresetId: 'p1' }
+    );
+
+    expect(updates).toEqual({ displayResolution: 8, addWatermark: true, allowFreeDownload: false });
+  });
+});
+
+describe('estimatePostsPerDay', () => {
+  const from = new Date('2025-01-06T00:00:00Z');
+
+  it('should average rules over the week', () => {
+    const perDay = estimatePostsPerDay(
+      [
+        { type: 'fixed_time', daysOfWeek: ['monday', 'wednesday', 'friday'] },
+        { type: 'daily_quota', dailyQuota: 2 },
+        { type: 'time_window', windowPostCount: 7, daysOfWeek: ['saturday'] },
+      ],
+      'UTC',
+      from
+    );
+
+    expect(perDay).toBeCloseTo((3 + 14 + 7) / 7);
+  });
+
+  it('should cap a random quota to the slots that fit', () => {
+    expect(
+      estimatePostsPerDay(
+        [
+          {
+            type: 'daily_quota',
+            dailyQuota: 10,
+            quotaDistribution: 'random',
+            activeHoursStart: '09:00',
+            activeHoursEnd: '11:00',
+            quotaMinGapMinutes: 60,
+          },
+        ],
+        'UTC',
+        from
+      )
+    ).toBe(3);
+  });
+
+  it('should count intervals no faster than the scheduler checks', () => {
+    expect(
+      estimatePostsPerDay(
+        [{ type: 'fixed_interval', intervalMinutes: 360, deviationsPerInterval: 2 }],
+        'UTC',
+        from
+      )
+    ).toBe(8);
+    expect(estimatePostsPerDay([{ type: 'fixed_interval', intervalMinutes: 1 }], 'UTC', from)).toBe(
+      288
+    );
+  });
+
+  it('should count cron runs in the next week', () => {
+    expect(
+      estimatePostsPerDay([{ type: 'cron', cronExpression: '0 9 * * 1-5' }], 'UTC', from)
+    ).toBeCloseTo(5 / 7);
+    expect(estimatePostsPerDay([{ type: 'cron', cronExpression: 'nope' }], 'UTC', from)).toBe(0);
+  });
+});
@@ -0,0 +1,441 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Automation rule helpers.
+ *
+ * The side-effect free parts of the auto-scheduler: matching fixed times and cron
+ * occurrences, planning time_window and daily_quota slots, counting how many drafts a run schedules,
+ * ordering candidates and applying default values. The publisher's auto-scheduler and
+ * the automation forecast both use them, so a forecast evaluates rules the same way a
+ * real run does.
+ */
+
+import { getCronRunsOnDay, getNextCronRuns, type CronSchedule } from './cron-schedule.js';
+import { getZonedParts, zonedTimeToUtc } from './publishing-policy.js';
+
+/**
+ * How often the auto-scheduler checks automations
+ */
+export const AUTO_SCHEDULER_INTERVAL_MINUTES = 5;
+
+/**
+ * Draft selections per run. Drafts refused by pre-publish validation are replaced by
+ * fresh candidates in the next round, up to this many rounds.
+ */
+export const MAX_SELECTION_ROUNDS = 5;
+
+/**
+ * How long after its time a fixed_time or cron rule can still trigger. Slightly longer
+ * than the check interval so a delayed run doesn't miss it.
+ */
+export const RULE_TRIGGER_WINDOW_MINUTES = 7;
+
+export const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+/**
+ * Random number source in [0, 1), Math.random by default
+ */
+export type RandomSource = () => number;
+
+export function timeOfDayToMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check if current time is past the target time within the trigger window.
+ * Never matches a target that is still ahead.
+ */
+export function isTimeMatch(currentTime: string, targetTime: string): boolean {
+  const minutesSinceTarget = timeOfDayToMinutes(currentTime) - timeOfDayToMinutes(targetTime);
+  return minutesSinceTarget >= 0 && minutesSinceTarget < RULE_TRIGGER_WINDOW_MINUTES;
+}
+
+/**
+ * What a fixed_time rule does when its time passed while the publisher was down:
+ * - skip: log the missed post and wait for the next occurrence (default)
+ * - fire_late: post as soon as the publisher is back
+ * - next_slot: post an extra draft at the next occurrence
+ */
+export const MISSED_TRIGGER_POLICIES = ['skip', 'fire_late', 'next_slot'] as const;
+
+export type MissedTriggerPolicy = (typeof MISSED_TRIGGER_POLICIES)[number];
+
+/**
+ * Most recent occurrence of a daily local time at or before `at`: today's if it has
+ * passed, yesterday's otherwise
+ */
+export function findLatestDailyOccurrence(timeOfDay: string, at: Date, timezone: string): Date {
+  const { year, month, day } = getZonedParts(at, timezone);
+  const minutes = timeOfDayToMinutes(timeOfDay);
+
+  const today = zonedTimeToUtc(year, month, day, minutes, timezone);
+  return today <= at ? today : zonedTimeToUtc(year, month, day - 1, minutes, timezone);
+}
+
+/**
+ * Most recent cron occurrence within the trigger window before `at`, if any
+ */
+export function findRecentCronRun(schedule: CronSchedule, at: Date, timezone: string): Date | null {
+  const currentMinute = Math.floor(at.getTime() / 60000) * 60000;
+  const windowStart = currentMinute - (RULE_TRIGGER_WINDOW_MINUTES - 1) * 60000;
+
+  // The window spans at most two local days
+  let latest: Date | null = null;
+  for (const date of [new Date(windowStart), at]) {
+    const { year, month, day } = getZonedParts(date, timezone);
+    for (const run of getCronRunsOnDay(schedule, year, month, day, timezone)) {
+      const time = run.getTime();
+      if (time >= windowStart && time <= currentMinute && (!latest || run > latest)) {
+        latest = run;
+      }
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Pick random, sorted minutes of the day for a time_window rule.
+ *
+ * Random offsets are drawn from the slack left after reserving the gaps and then spread
+ * by the gap, so every slot stays in [startMinutes, endMinutes] and consecutive slots
+ * are at least `gapMinutes` apart. The count is capped to what fits.
+ *
+ * @param startMinutes - Earliest slot (minutes since local midnight)
+ * @param endMinutes - Latest slot (minutes since local midnight)
+ * @param remaining - Posts still to plan today
+ * @param gapMinutes - Minimum gap between slots
+ */
+export function planWindowSlotMinutes(
+  startMinutes: number,
+  endMinutes: number,
+  remaining: number,
+  gapMinutes: number,
+  random: RandomSource = Math.random
+): number[] {
+  if (startMinutes >= endMinutes) {
+    return [];
+  }
+
+  const fitting =
+    gapMinutes > 0 ? Math.floor((endMinutes - startMinutes) / gapMinutes) + 1 : Infinity;
+  const count = Math.min(remaining, fitting);
+  if (count <= 0) {
+    return [];
+  }
+
+  const slack = endMinutes - startMinutes - (count - 1) * gapMinutes;
+  const offsets = Array.from({ length: count }, () => Math.floor(random() * (slack + 1)));
+  offsets.sort((a, b) => a - b);
+
+  return offsets.map((offset, index) => startMinutes + offset + index * gapMinutes);
+}
+
+export const QUOTA_DISTRIBUTIONS = ['asap', 'even', 'random'] as const;
+
+export type QuotaDistribution = (typeof QUOTA_DISTRIBUTIONS)[number];
+
+/**
+ * Daily quota fields. Without a distribution (or with 'asap') the quota is filled one
+ * post per check from midnight; 'even' and 'random' spread it across the active hours.
+ */
+export interface DailyQuotaRule {
+  dailyQuota?: number | null;
+  quotaDistribution?: string | null;
+  activeHoursStart?: string | null;
+  activeHoursEnd?: string | null;
+  quotaMinGapMinutes?: number | null;
+  quotaCatchUp?: boolean | null;
+}
+
+/**
+ * Minutes of the day at which a spread daily_quota rule posts, or null when it posts as
+ * soon as possible.
+ *
+ * 'even' puts the first post at the start of the active hours, the last at the end and
+ * the rest at equal steps in between. 'random' picks times like a time_window, seeded
+ * with `seed` (the automation and local date) so every check of the day, and the
+ * forecast, sees the same times.
+ */
+export function planQuotaSlotMinutes(rule: DailyQuotaRule, seed: string): number[] | null {
+  if (
+    !rule.dailyQuota ||
+    !rule.activeHoursStart ||
+    !rule.activeHoursEnd ||
+    (rule.quotaDistribution !== 'even' && rule.quotaDistribution !== 'random')
+  ) {
+    return null;
+  }
+
+  const startMinutes = timeOfDayToMinutes(rule.activeHoursStart);
+  const endMinutes = timeOfDayToMinutes(rule.activeHoursEnd);
+
+  if (rule.quotaDistribution === 'random') {
+    return planWindowSlotMinutes(
+      startMinutes,
+      endMinutes,
+      rule.dailyQuota,
+      rule.quotaMinGapMinutes ?? 0,
+      createSeededRandom(hashSeed(seed))
+    );
+  }
+
+  if (startMinutes >= endMinutes) {
+    return [];
+  }
+  if (rule.dailyQuota === 1) {
+    return [startMinutes];
+  }
+
+  const step = (endMinutes - startMinutes) / (rule.dailyQuota - 1);
+  return Array.from({ length: rule.dailyQuota }, (_, index) =>
+    Math.round(startMinutes + index * step)
+  );
+}
+
+/**
+ * Whether a spread daily_quota rule posts now.
+ *
+ * Every slot that has passed is owed a post. When the publisher was down, missed slots
+ * are caught up one per check until the active hours end. With `quotaCatchUp` off they
+ * are skipped instead: only a slot within the trigger window posts, once.
+ *
+ * @param slotMinutes - Today's slots from planQuotaSlotMinutes()
+ * @param nowMinutes - Minutes since local midnight
+ * @param scheduledToday - Posts the rule has scheduled today
+ * @param minutesSinceLastRun - Minutes since the rule last ran, null if it never did
+ */
+export function isQuotaSlotDue(
+  rule: DailyQuotaRule,
+  slotMinutes: number[],
+  nowMinutes: number,
+  scheduledToday: number,
+  minutesSinceLastRun: number | null
+): boolean {
+  const passed = slotMinutes.filter((slot) => slot <= nowMinutes);
+  if (passed.length === 0 || scheduledToday >= Math.min(rule.dailyQuota ?? 0, passed.length)) {
+    return false;
+  }
+
+  if (rule.quotaCatchUp !== false) {
+    const endMinutes = rule.activeHoursEnd ? timeOfDayToMinutes(rule.activeHoursEnd) : 0;
+    return nowMinutes - endMinutes < RULE_TRIGGER_WINDOW_MINUTES;
+  }
+
+  const latest = passed[passed.length - 1];
+  if (nowMinutes - latest >= RULE_TRIGGER_WINDOW_MINUTES) {
+    return false; // Missed
+  }
+  return minutesSinceLastRun === null || nowMinutes - minutesSinceLastRun < latest;
+}
+
+/**
+ * String to 32-bit seed (FNV-1a)
+ */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Calculate how many deviations to schedule based on triggered rules
+ */
+export function calculateScheduleCount(
+  rules: {
+    type: string;
+    deviationsPerInterval?: number | null;
+    carriedOverCount?: number | null;
+    plannedSlots?: Date[];
+  }[]
+): number {
+  let count = 0;
+
+  for (const rule of rules) {
+    if (rule.type === 'fixed_time') {
+      // Schedule 1 per fixed time trigger, plus missed ones carried over (next_slot)
+      count += 1 + (rule.carriedOverCount ?? 0);
+    } else if (rule.type === 'fixed_interval') {
+      count += rule.deviationsPerInterval || 1;
+    } else if (rule.type === 'daily_quota') {
+      // For daily quota, schedule 1 at a time (one per due slot when spread)
+      count += 1;
+    } else if (rule.type === 'cron') {
+      count += 1; // Schedule 1 per cron occurrence
+    } else if (rule.type === 'time_window') {
+      count += rule.plannedSlots?.length ?? 0; // One per planned slot
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Rule fields used to estimate how many posts an automation makes per day
+ */
+export interface PostRateRule extends DailyQuotaRule {
+  type: string;
+  intervalMinutes?: number | null;
+  deviationsPerInterval?: number | null;
+  cronExpression?: string | null;
+  windowPostCount?: number | null;
+  daysOfWeek?: unknown;
+}
+
+/**
+ * Average posts per day the rules schedule, over a week. A rough figure for "days of drafts
+ * left"; it ignores the publishing policy and overlapping rules, the forecast does not.
+ */
+export function estimatePostsPerDay(
+  rules: PostRateRule[],
+  timezone: string,
+  from: Date = new Date()
+): number {
+  const checksPerDay = (24 * 60) / AUTO_SCHEDULER_INTERVAL_MINUTES;
+  let perWeek = 0;
+
+  for (const rule of rules) {
+    const activeDays =
+      Array.isArray(rule.daysOfWeek) && rule.daysOfWeek.length > 0 ? rule.daysOfWeek.length : 7;
+
+    if (rule.type === 'fixed_time') {
+      perWeek += activeDays;
+    } else if (rule.type === 'fixed_interval' && rule.intervalMinutes) {
+      const interval = Math.max(rule.intervalMinutes, AUTO_SCHEDULER_INTERVAL_MINUTES);
+      perWeek += ((24 * 60) / interval) * (rule.deviationsPerInterval || 1) * activeDays;
+    } else if (rule.type === 'daily_quota') {
+      const slots = planQuotaSlotMinutes(rule, '');
+      perWeek += (slots ? slots.length : Math.min(rule.dailyQuota ?? 0, checksPerDay)) * activeDays;
+    } else if (rule.type === 'time_window') {
+      perWeek += (rule.windowPostCount ?? 0) * activeDays;
+    } else if (rule.type === 'cron' && rule.cronExpression) {
+      try {
+        const weekEnd = from.getTime() + 7 * 24 * 60 * 60 * 1000;
+        const runs = getNextCronRuns(rule.cronExpression, timezone, from, checksPerDay * 7);
+        perWeek += runs.filter((run) => run.getTime() <= weekEnd).length;
+      } catch {
+        // Invalid expressions never trigger
+      }
+    }
+  }
+
+  return perWeek / 7;
+}
+
+/**
+ * Shuffle array (Fisher-Yates algorithm)
+ */
+export function shuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Deterministic random source (mulberry32), so a seed always gives the same sequence
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Automation fields that decide which defaults are applied to a draft
+ */
+export interface AutomationDefaultsSource {
+  stashOnlyByDefault: boolean;
+  autoAddToSaleQueue: boolean;
+  saleQueuePresetId: string | null;
+  defaultValues: { fieldName: string; value: unknown; applyIfEmpty: boolean }[];
+}
+
+/**
+ * Helper to check if a value is empty
+ * Treats false and 0 as empty to allow automation defaults to override database defaults
+ */
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string' && value.trim() === '') return true;
+  if (Array.isArray(value) && value.length === 0) return true;
+  // Consider false as empty for booleans (so automation defaults can override database default of false)
+  if (typeof value === 'boolean' && value === false) return true;
+  // Consider 0 as empty for numbers (so automation defaults can override database default of 0)
+  if (typeof value === 'number' && value === 0) return true;
+  return false;
+}
+
+/**
+ * Field updates an automation applies to a draft when scheduling it: default values,
+ * forced protection for sale queue exclusives and the Sta.sh-only default
+ */
+export function applyAutomationDefaults(
+  draft: Record<string, any>,
+  automation: AutomationDefaultsSource
+): Record<string, any> {
+  const updates: Record<string, any> = {};
+
+  for (const defaultValue of automation.defaultValues) {
+    const fieldName = defaultValue.fieldName;
+    const shouldApply = defaultValue.applyIfEmpty ? isEmpty(draft[fieldName]) : true;
+
+    if (shouldApply) {
+      updates[fieldName] = defaultValue.value;
+    }
+  }
+
+  // Force protection defaults if sale queue is enabled
+  if (automation.autoAddToSaleQueue && automation.saleQueuePresetId) {
+    // Override displayResolution to highest if it's 0 (original)
+    const currentResolution = updates.displayResolution ?? draft.displayResolution ?? 0;
+    if (currentResolution === 0) {
+      updates.displayResolution = 8; // Force 1920px (highest with watermark support)
+    }
+
+    // Force watermark and disable free download for exclusives
+    updates.addWatermark = true;
+    updates.allowFreeDownload = false;
+  }
+
+  // Apply Sta.sh-only default if draft doesn't have explicit value
+  if (draft.stashOnly === null || draft.stashOnly === undefined) {
+    updates.stashOnly = automation.stashOnlyByDefault;
+  }
+
+  return updates;
+}
@@ -0,0 +1,295 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateScheduleRules,
+  startOfLocalDay,
+  type RuleEvaluationContext,
+  type ScheduleRule,
+} from './automation-triggers.js';
+
+function evaluate(rule: ScheduleRule, now: string, overrides: Partial<RuleEvaluationContext> = {}) {
+  return evaluateScheduleRules([rule], {
+    automationId: 'auto-1',
+    now: new Date(now),
+    timezone: 'UTC',
+    exceptions: [],
+    history: { lastRunAt: {}, scheduledToday: {} },
+    ...overrides,
+  }).rules[0];
+}
+
+describe('evaluateScheduleRules', () => {
+  it('should report the local time, date and day type', () => {
+    const evaluation = evaluateScheduleRules([], {
+      automationId: 'auto-1',
+      now: new Date('2025-01-06T02:05:00Z'),
+      timezone: 'Asia/Jakarta',
+      exceptions: [{ type: 'blackout', startDate: '2025-01-06', endDate: '2025-01-06' }],
+      history: { lastRunAt: {}, scheduledToday: {} },
+    });
+
+    expect(evaluation).toEqual({
+      localTime: '09:05',
+      localDate: '2025-01-06',
+      dayType: 'blackout',
+      rules: [],
+    });
+  });
+
+  it('should skip rules on days they are not active', () => {
+    // 2025-01-06 is a Monday
+    const rule = { type: 'fixed_interval', intervalMinutes: 60, daysOfWeek: ['sunday'] };
+
+    expect(evaluate(rule, '2025-01-06T10:00:00Z')).toMatchObject({
+      triggered: false,
+      reason: 'Not active on monday',
+    });
+  });
+
+  describe('fixed_time', () => {
+    const rule = { type: 'fixed_time', timeOfDay: '14:00' };
+
+    it('should fire within the trigger window and store the occurrence', () => {
+      expect(evaluate({ ...rule, carriedOverCount: 2 }, '2025-01-06T14:05:00Z')).toMatchObject({
+        triggered: true,
+        reason: 'Due at 14:00, with 2 missed post(s) carried over',
+        update: { lastFiredAt: new Date('2025-01-06T14:00:00Z'), carriedOverCount: 0 },
+      });
+    });
+
+    it('should not fire an occurrence twice', () => {
+      const fired = { ...rule, lastFiredAt: new Date('2025-01-06T14:00:00Z') };
+
+      expect(evaluate(fired, '2025-01-06T14:05:00Z')).toEqual({
+        rule: fired,
+        triggered: false,
+        reason: 'Already fired at 14:00',
+      });
+    });
+
+    it('should only fire on time without a previous occurrence', () => {
+      expect(evaluate(rule, '2025-01-06T14:30:00Z')).toEqual({
+        rule,
+        triggered: false,
+        reason: 'Not due (14:00)',
+      });
+    });
+
+    it('should handle a missed occurrence with the missed trigger policy', () => {
+      const missed = {
+        ...rule,
+        lastFiredAt: new Date('2025-01-05T14:00:00Z'),
+        carriedOverCount: 1,
+      };
+      const lastFiredAt = new Date('2025-01-06T14:00:00Z');
+
+      expect(evaluate(missed, '2025-01-06T14:30:00Z')).toMatchObject({
+        triggered: false,
+        reason: 'Missed 14:00 on 2025-01-06, skipped',
+        update: { lastFiredAt },
+        missed: true,
+      });
+      expect(
+        evaluate({ ...missed, missedTriggerPolicy: 'fire_late' }, '2025-01-06T14:30:00Z')
+      ).toMatchObject({
+        triggered: true,
+        reason: 'Missed 14:00 on 2025-01-06, firing 30 min late',
+        update: { lastFiredAt, carriedOverCount: 0 },
+      });
+      expect(
+        evaluate({ ...missed, missedTriggerPolicy: 'next_slot' }, '2025-01-06T14:30:00Z')
+      ).toMatchObject({
+        triggered: false,
+        reason: 'Missed 14:00 on 2025-01-06, carried over to the next occurrence',
+        update: { lastFiredAt, carriedOverCount: 2 },
+        missed: true,
+      });
+    });
+
+    it("should apply the missed occurrence's day filter", () => {
+      const lateNight = {
+        type: 'fixed_time',
+        timeOfDay: '23:58',
+        lastFiredAt: new Date('2024-12-29T23:58:00Z'),
+        missedTriggerPolicy: 'fire_late',
+      };
+
+      // Monday 00:30, Sunday's 23:58 was missed
+      expect(
+        evaluate({ ...lateNight, daysOfWeek: ['sunday'] }, '2025-01-06T00:30:00Z')
+      ).toMatchObject({ triggered: true });
+      expect(
+        evaluate({ ...lateNight, daysOfWeek: ['monday'] }, '2025-01-06T00:30:00Z')
+      ).toMatchObject({ triggered: false, reason: 'Not active on sunday' });
+      expect(
+        evaluate({ ...lateNight, daysOfWeek: ['sunday'] }, '2025-01-06T00:30:00Z', {
+          exceptions: [{ type: 'blackout', startDate: '2025-01-05', endDate: '2025-01-05' }],
+        })
+      ).toMatchObject({ triggered: false, reason: 'Blackout day' });
+    });
+  });
+
+  describe('fixed_interval', () => {
+    const rule = { type: 'fixed_interval', intervalMinutes: 60 };
+
+    it('should fire once the interval has elapsed', () => {
+      const history = {
+        lastRunAt: { fixed_interval: new Date('2025-01-06T09:00:00Z') },
+        scheduledToday: {},
+      };
+
+      expect(evaluate(rule, '2025-01-06T09:55:00Z', { history }).triggered).toBe(false);
+      expect(evaluate(rule, '2025-01-06T10:00:00Z', { history })).toMatchObject({
+        triggered: true,
+        reason: 'Last run at 2025-01-06T09:00:00.000Z, every 60 min',
+      });
+    });
+
+    it('should fire without a previous run', () => {
+      expect(evaluate(rule, '2025-01-06T10:00:00Z')).toMatchObject({
+        triggered: true,
+        reason: 'No previous run',
+      });
+    });
+  });
+
+  describe('daily_quota', () => {
+    it('should fire until the quota is reached', () => {
+      const rule = { type: 'daily_quota', dailyQuota: 2 };
+      const history = (count: number) => ({
+        lastRunAt: {},
+        scheduledToday: { daily_quota: count },
+      });
+
+      expect(evaluate(rule, '2025-01-06T10:00:00Z', { history: history(1) })).toMatchObject({
+        triggered: true,
+        reason: '1/2 scheduled today',
+      });
+      expect(evaluate(rule, '2025-01-06T10:00:00Z', { history: history(2) }).triggered).toBe(false);
+    });
+
+    it('should fire a spread quota when a slot has passed', () => {
+      const rule = {
+        type: 'daily_quota',
+        dailyQuota: 3,
+        quotaDistribution: 'even',
+        activeHoursStart: '09:00',
+        activeHoursEnd: '17:00',
+      };
+
+      expect(evaluate(rule, '2025-01-06T13:02:00Z')).toMatchObject({
+        triggered: true,
+        reason: '0/3 scheduled today, 2/3 slots passed',
+      });
+    });
+  });
+
+  describe('cron', () => {
+    const rule = { type: 'cron', cronExpression: '0 9 1,15 * *' };
+
+    it('should fire once per occurrence and store it', () => {
+      const lastFiredAt = new Date('2025-06-01T09:00:00Z');
+
+      expect(evaluate(rule, '2025-06-01T09:05:00Z')).toMatchObject({
+        triggered: true,
+        update: { lastFiredAt },
+      });
+      expect(evaluate({ ...rule, lastFiredAt }, '2025-06-01T09:05:00Z')).toMatchObject({
+        triggered: false,
+        reason: 'Occurrence at 2025-06-01T09:00:00.000Z already handled',
+      });
+    });
+
+    it('should not fire for an invalid expression', () => {
+      expect(
+        evaluate({ type: 'cron', cronExpression: 'not cron' }, '2025-06-01T09:05:00Z')
+      ).toMatchObject({
+        triggered: false,
+        reason: expect.stringContaining('Invalid cron expression "not cron"'),
+      });
+    });
+  });
+
+  describe('DST', () => {
+    const berlin = { timezone: 'Europe/Berlin' };
+    const rules = [
+      { type: 'fixed_time', timeOfDay: '02:30' },
+      { type: 'cron', cronExpression: '30 2 * * *' },
+    ];
+
+    it.each(rules)('should fire $type at the end of a spring-forward gap', (rule) => {
+      // 02:30 doesn't exist on 2025-03-30 in Berlin, clocks jump from 02:00 to 03:00 (01:00Z)
+      expect(evaluate(rule, '2025-03-30T01:05:00Z', berlin)).toMatchObject({
+        triggered: true,
+        update: { lastFiredAt: new Date('2025-03-30T01:00:00Z') },
+      });
+    });
+
+    it.each(rules)('should fire $type once when a fall-back change repeats it', (rule) => {
+      // 02:30 happens twice on 2025-10-26 in Berlin: 00:30Z (CEST) and 01:30Z (CET)
+      const lastFiredAt = new Date('2025-10-26T00:30:00Z');
+
+      expect(evaluate(rule, '2025-10-26T00:35:00Z', berlin)).toMatchObject({
+        triggered: true,
+        update: { lastFiredAt },
+      });
+      expect(evaluate({ ...rule, lastFiredAt }, '2025-10-26T01:35:00Z', berlin).triggered).toBe(
+        false
+      );
+    });
+  });
+
+  describe('time_window', () => {
+    const rule = {
+      type: 'time_window',
+      windowStart: '18:00',
+      windowEnd: '22:00',
+      windowPostCount: 3,
+    };
+
+    it('should plan the remaining slots inside the window', () => {
+      const { triggered, plannedSlots } = evaluate(rule, '2025-01-06T10:00:00Z', {
+        history: { lastRunAt: {}, scheduledToday: { time_window: 1 } },
+        random: () => 0.5,
+      });
+
+      expect(triggered).toBe(true);
+      expect(plannedSlots).toHaveLength(2);
+      for (const slot of plannedSlots!) {
+        expect(slot >= new Date('2025-01-06T18:00:00Z')).toBe(true);
+        expect(slot < new Date('2025-01-06T22:00:00Z')).toBe(true);
+      }
+    });
+
+    it('should not fire once the window is over', () => {
+      expect(evaluate(rule, '2025-01-06T22:30:00Z')).toMatchObject({
+        triggered: false,
+        reason: 'No slots left today',
+      });
+    });
+  });
+});
+
+describe('startOfLocalDay', () => {
+  it('should return local midnight', () => {
+    expect(startOfLocalDay(new Date('2025-01-06T02:05:00Z'), 'Asia/Jakarta')).toEqual(
+      new Date('2025-01-05T17:00:00Z')
+    );
+  });
+});
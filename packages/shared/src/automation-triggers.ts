@@ -0,0 +1,397 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Automation rule evaluation.
+ *
+ * Decides which schedule rules trigger at a given moment. The publisher's auto-scheduler
+ * calls it with rule state and execution log figures loaded from the database, the
+ * automation forecast with its in-memory ones, so a forecast triggers rules exactly like
+ * a real run. Nothing is read or written here: the caller stores the returned rule state
+ * and logs missed occurrences.
+ */
+
+import {
+  findLatestDailyOccurrence,
+  findRecentCronRun,
+  isQuotaSlotDue,
+  planQuotaSlotMinutes,
+  planWindowSlotMinutes,
+  RULE_TRIGGER_WINDOW_MINUTES,
+  timeOfDayToMinutes,
+  WEEKDAYS,
+  type DailyQuotaRule,
+  type RandomSource,
+} from './automation-rules.js';
+import {
+  CalendarExceptionType,
+  getCalendarDayType,
+  isRuleActiveOnDay,
+  toCalendarDate,
+  type CalendarException,
+} from './automation-calendar.js';
+import { parseCronExpression } from './cron-schedule.js';
+import { getZonedParts, zonedTimeToUtc } from './publishing-policy.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Schedule rule fields the evaluation reads
+ */
+export interface ScheduleRule extends DailyQuotaRule {
+  type: string;
+  timeOfDay?: string | null;
+  // Occurrence a fixed_time or cron rule last fired (or skipped) for
+  lastFiredAt?: Date | null;
+  carriedOverCount?: number | null;
+  missedTriggerPolicy?: string | null;
+  intervalMinutes?: number | null;
+  deviationsPerInterval?: number | null;
+  cronExpression?: string | null;
+  windowStart?: string | null;
+  windowEnd?: string | null;
+  windowPostCount?: number | null;
+  windowMinGapMinutes?: number | null;
+  daysOfWeek?: unknown;
+}
+
+/**
+ * Execution log figures, per rule type
+ */
+export interface RuleRunHistory {
+  // Latest logged run
+  lastRunAt: Partial<Record<string, Date>>;
+  // Drafts logged since local midnight
+  scheduledToday: Partial<Record<string, number>>;
+}
+
+export interface RuleEvaluationContext {
+  // Seeds random daily_quota slots
+  automationId: string;
+  now: Date;
+  timezone: string;
+  // Blackout and extra days covering yesterday and today
+  exceptions: CalendarException[];
+  history: RuleRunHistory;
+  // Picks time_window slots, Math.random by default
+  random?: RandomSource;
+}
+
+/**
+ * State to store on a fixed_time or cron rule
+ */
+export interface RuleStateUpdate {
+  lastFiredAt: Date;
+  carriedOverCount?: number;
+}
+
+export interface RuleEvaluation<R extends ScheduleRule = ScheduleRule> {
+  rule: R;
+  triggered: boolean;
+  reason: string;
+  // time_window: publish times planned for the rest of today
+  plannedSlots?: Date[];
+  update?: RuleStateUpdate;
+  // A fixed_time occurrence passed without a check and was skipped or carried over
+  missed?: boolean;
+}
+
+export interface ScheduleEvaluation<R extends ScheduleRule = ScheduleRule> {
+  // HH:MM and YYYY-MM-DD in the timezone
+  localTime: string;
+  localDate: string;
+  dayType: CalendarExceptionType | null;
+  // One per rule, in rule order
+  rules: RuleEvaluation<R>[];
+}
+
+/**
+ * Start of the local day of `at` (UTC instant)
+ */
+export function startOfLocalDay(at: Date, timezone: string): Date {
+  const { year, month, day } = getZonedParts(at, timezone);
+  return zonedTimeToUtc(year, month, day, 0, timezone);
+}
+
+/**
+ * Evaluate which rules trigger at `context.now`, in rule order
+ */
+export function evaluateScheduleRules<R extends ScheduleRule>(
+  rules: R[],
+  context: RuleEvaluationContext
+): ScheduleEvaluation<R> {
+  const { now, timezone } = context;
+  const parts = getZonedParts(now, timezone);
+  const localDate = toCalendarDate(now, timezone);
+  const weekday = getWeekday(localDate);
+  const dayType = getCalendarDayType(context.exceptions, localDate);
+  const nowMinutes = parts.hour * 60 + parts.minute;
+
+  const evaluations = rules.map((rule): RuleEvaluation<R> => {
+    if (rule.type === 'fixed_time') {
+      // Checks the day filter itself, against the day of the occurrence
+      return evaluateFixedTimeRule(rule, context);
+    }
+
+    if (!isRuleActiveOnDay(rule.daysOfWeek, weekday, dayType)) {
+      return notTriggered(rule, inactiveReason(weekday, dayType));
+    }
+
+    switch (rule.type) {
+      case 'fixed_interval':
+        return evaluateFixedIntervalRule(rule, context);
+      case 'daily_quota':
+        return evaluateDailyQuotaRule(rule, context, localDate, nowMinutes);
+      case 'cron':
+        return evaluateCronRule(rule, context);
+      case 'time_window':
+        return evaluateTimeWindowRule(rule, context, nowMinutes);
+      default:
+        return notTriggered(rule, `Unknown rule type ${rule.type}`);
+    }
+  });
+
+  return {
+    localTime: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    localDate,
+    dayType,
+    rules: evaluations,
+  };
+}
+
+/**
+ * A fixed_time rule fires once per occurrence.
+ *
+ * An occurrence is due within the trigger window after its time (DST gaps and overlaps
+ * resolved by findLatestDailyOccurrence). `lastFiredAt` records the occurrence the rule
+ * last handled, so a check at 14:05 doesn't fire 14:00 again. An occurrence that passed
+ * without a check (publisher down, deploy, DB stall) is missed and handled by
+ * `missedTriggerPolicy`:
+ * - skip (default): wait for the next occurrence
+ * - fire_late: fire now
+ * - next_slot: add a draft to the next occurrence (`carriedOverCount`)
+ *
+ * Only the latest occurrence is looked at, so after a longer outage a single missed post
+ * is handled. Rules without `lastFiredAt` fire on time only.
+ */
+function evaluateFixedTimeRule<R extends ScheduleRule>(
+  rule: R,
+  context: RuleEvaluationContext
+): RuleEvaluation<R> {
+  const notDue = notTriggered(rule, `Not due (${rule.timeOfDay})`);
+  if (!rule.timeOfDay) {
+    return notDue;
+  }
+
+  const occurrence = findLatestDailyOccurrence(rule.timeOfDay, context.now, context.timezone);
+  const minutesLate = Math.floor((context.now.getTime() - occurrence.getTime()) / MINUTE_MS);
+  const onTime = minutesLate < RULE_TRIGGER_WINDOW_MINUTES;
+
+  if (rule.lastFiredAt && rule.lastFiredAt >= occurrence) {
+    return onTime ? notTriggered(rule, `Already fired at ${rule.timeOfDay}`) : notDue;
+  }
+  if (!onTime && !rule.lastFiredAt) {
+    return notDue;
+  }
+
+  // Day filter of the occurrence: yesterday's for a time missed before midnight
+  const occurrenceDate = toCalendarDate(occurrence, context.timezone);
+  const weekday = getWeekday(occurrenceDate);
+  const dayType = getCalendarDayType(context.exceptions, occurrenceDate);
+  if (!isRuleActiveOnDay(rule.daysOfWeek, weekday, dayType)) {
+    return notTriggered(rule, inactiveReason(weekday, dayType));
+  }
+
+  const carriedOverCount = rule.carriedOverCount ?? 0;
+  if (onTime) {
+    return {
+      rule,
+      triggered: true,
+      reason:
+        carriedOverCount > 0
+          ? `Due at ${rule.timeOfDay}, with ${carriedOverCount} missed post(s) carried over`
+          : `Due at ${rule.timeOfDay}`,
+      update: { lastFiredAt: occurrence, carriedOverCount: 0 },
+    };
+  }
+
+  const missed = `Missed ${rule.timeOfDay} on ${occurrenceDate}`;
+  const policy = rule.missedTriggerPolicy ?? 'skip';
+
+  if (policy === 'fire_late') {
+    return {
+      rule,
+      triggered: true,
+      reason: `${missed}, firing ${minutesLate} min late`,
+      update: { lastFiredAt: occurrence, carriedOverCount: 0 },
+    };
+  }
+
+  const carryOver = policy === 'next_slot';
+  return {
+    rule,
+    triggered: false,
+    reason: `${missed}, ${carryOver ? 'carried over to the next occurrence' : 'skipped'}`,
+    update: {
+      lastFiredAt: occurrence,
+      ...(carryOver && { carriedOverCount: carriedOverCount + 1 }),
+    },
+    missed: true,
+  };
+}
+
+function evaluateFixedIntervalRule<R extends ScheduleRule>(
+  rule: R,
+  context: RuleEvaluationContext
+): RuleEvaluation<R> {
+  // Enough time elapsed since the last run
+  const lastRunAt = context.history.lastRunAt[rule.type];
+  if (!lastRunAt) {
+    return { rule, triggered: true, reason: 'No previous run' };
+  }
+
+  const elapsed = context.now.getTime() - lastRunAt.getTime();
+  return {
+    rule,
+    triggered: elapsed >= (rule.intervalMinutes ?? 0) * MINUTE_MS,
+    reason: `Last run at ${lastRunAt.toISOString()}, every ${rule.intervalMinutes} min`,
+  };
+}
+
+function evaluateDailyQuotaRule<R extends ScheduleRule>(
+  rule: R,
+  context: RuleEvaluationContext,
+  localDate: string,
+  nowMinutes: number
+): RuleEvaluation<R> {
+  const scheduledToday = context.history.scheduledToday[rule.type] ?? 0;
+  const quotaReason = `${scheduledToday}/${rule.dailyQuota} scheduled today`;
+
+  // Spread across the active hours: post when a slot has passed
+  const slotMinutes = planQuotaSlotMinutes(rule, `${context.automationId}:${localDate}`);
+  if (!slotMinutes) {
+    return { rule, triggered: scheduledToday < (rule.dailyQuota ?? 0), reason: quotaReason };
+  }
+
+  const lastRunAt = context.history.lastRunAt[rule.type];
+  const minutesSinceLastRun = lastRunAt
+    ? Math.floor((context.now.getTime() - lastRunAt.getTime()) / MINUTE_MS)
+    : null;
+  const passed = slotMinutes.filter((slot) => slot <= nowMinutes).length;
+  return {
+    rule,
+    triggered: isQuotaSlotDue(rule, slotMinutes, nowMinutes, scheduledToday, minutesSinceLastRun),
+    reason: `${quotaReason}, ${passed}/${slotMinutes.length} slots passed`,
+  };
+}
+
+/**
+ * A cron rule fires once per occurrence, within the same window as fixed_time. The
+ * handled occurrence is stored on the rule: a run's log entry names only one rule type,
+ * so the log can't tell whether the rule fired alongside another one.
+ */
+function evaluateCronRule<R extends ScheduleRule>(
+  rule: R,
+  context: RuleEvaluationContext
+): RuleEvaluation<R> {
+  if (!rule.cronExpression) {
+    return notTriggered(rule, 'No occurrence due');
+  }
+
+  let schedule;
+  try {
+    schedule = parseCronExpression(rule.cronExpression);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return notTriggered(rule, `Invalid cron expression "${rule.cronExpression}": ${message}`);
+  }
+
+  const occurrence = findRecentCronRun(schedule, context.now, context.timezone);
+  if (!occurrence) {
+    return notTriggered(rule, 'No occurrence due');
+  }
+  if (rule.lastFiredAt && rule.lastFiredAt >= occurrence) {
+    return notTriggered(rule, `Occurrence at ${occurrence.toISOString()} already handled`);
+  }
+
+  return {
+    rule,
+    triggered: true,
+    reason: `Occurrence at ${occurrence.toISOString()}`,
+    update: { lastFiredAt: occurrence },
+  };
+}
+
+/**
+ * Plan random publish times for the rest of today's window.
+ *
+ * Slots already logged today are subtracted, and only the part of the window that is
+ * still ahead is used, so a window enabled at 21:00 only fills 21:00-23:00. Later runs
+ * find the planned slots in the execution log.
+ */
+function evaluateTimeWindowRule<R extends ScheduleRule>(
+  rule: R,
+  context: RuleEvaluationContext,
+  nowMinutes: number
+): RuleEvaluation<R> {
+  const noSlots = notTriggered(rule, 'No slots left today');
+  if (!rule.windowStart || !rule.windowEnd || !rule.windowPostCount) {
+    return noSlots;
+  }
+
+  const startMinutes = Math.max(timeOfDayToMinutes(rule.windowStart), nowMinutes + 1);
+  const endMinutes = timeOfDayToMinutes(rule.windowEnd);
+  if (startMinutes >= endMinutes) {
+    return noSlots; // Window is over for today
+  }
+
+  const { year, month, day } = getZonedParts(context.now, context.timezone);
+  const scheduledToday = context.history.scheduledToday[rule.type] ?? 0;
+  const plannedSlots = planWindowSlotMinutes(
+    startMinutes,
+    endMinutes,
+    rule.windowPostCount - scheduledToday,
+    rule.windowMinGapMinutes ?? 0,
+    context.random
+  ).map((minutes) => zonedTimeToUtc(year, month, day, minutes, context.timezone));
+
+  if (plannedSlots.length === 0) {
+    return noSlots;
+  }
+  return {
+    rule,
+    triggered: true,
+    reason: `${plannedSlots.length} slot(s) planned`,
+    plannedSlots,
+  };
+}
+
+function notTriggered<R extends ScheduleRule>(rule: R, reason: string): RuleEvaluation<R> {
+  return { rule, triggered: false, reason };
+}
+
+function inactiveReason(weekday: string, dayType: CalendarExceptionType | null): string {
+  return dayType === CalendarExceptionType.BLACKOUT ? 'Blackout day' : `Not active on ${weekday}`;
+}
+
+function getWeekday(date: string): string {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
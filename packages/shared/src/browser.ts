@@ -0,0 +1,30 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Browser-safe entry point (`@isekai/shared/browser`).
+ *
+ * The main entry also exports the publisher, storage and config modules, which
+ * pull BullMQ, ioredis and Node built-ins into a bundle. The frontend imports
+ * types from `@isekai/shared` and runtime values only from here; every module
+ * re-exported below must stay free of Node dependencies.
+ */
+
+export { WebhookEvent, WEBHOOK_EVENTS } from './webhook-events.js';
+export { MAX_QUIET_HOURS_WINDOWS, MAX_POST_GAP_MINUTES } from './publishing-policy.js';
+export { describeCronExpression, getNextCronRuns, parseCronExpression } from './cron-schedule.js';
+export { POOL_EMPTY_PAUSE_REASON } from './automation-draft-pool.js';
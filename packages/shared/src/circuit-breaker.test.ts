@@ -0,0 +1,196 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import {
+  CircuitBreaker,
+  CircuitState,
+  CIRCUIT_BREAKER_CHANNEL,
+  CIRCUIT_BREAKER_KEY_PREFIX,
+} from './circuit-breaker.js';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('CircuitBreaker (Redis)', () => {
+  let redis: Redis;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(async () => {
+    originalEnv = process.env;
+    process.env = { ...originalEnv, CIRCUIT_BREAKER_PERSIST_TO_REDIS: 'true' };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+    CircuitBreaker.configure({ getRedisClient: async () => redis });
+    await CircuitBreaker.resetAll();
+  });
+
+  afterEach(async () => {
+    await CircuitBreaker.close();
+    process.env = originalEnv;
+    vi.restoreAllMocks();
+  });
+
+  it('should store circuit state in a Redis hash', async () => {
+    await CircuitBreaker.recordFailure('user-1:publish', { failureThreshold: 2 });
+    await CircuitBreaker.recordFailure('user-1:publish', { failureThreshold: 2 });
+
+    const data = await redis.hgetall(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`);
+    expect(data.state).toBe(CircuitState.OPEN);
+    expect(Number(data.failures)).toBe(2);
+    expect(await redis.pttl(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`)).toBeGreaterThan(0);
+    expect(CircuitBreaker.getStatus('user-1:publish')?.state).toBe(CircuitState.OPEN);
+  });
+
+  it('should reject requests when another process opened the circuit', async () => {
+    // Another process writes the open circuit directly
+    await redis.hset(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`, {
+      state: CircuitState.OPEN,
+      failures: 3,
+      lastFailureTime: Date.now(),
+      halfOpenAttempts: 0,
+      openDuration: 60000,
+      expiresAt: Date.now() + 120000,
+    });
+
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(false);
+  });
+
+  it('should allow only the configured half-open attempts across processes', async () => {
+    await redis.hset(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`, {
+      state: CircuitState.HALF_OPEN,
+      failures: 3,
+      lastFailureTime: Date.now() - 120000,
+      halfOpenAttempts: 0,
+      openDuration: 60000,
+      expiresAt: Date.now() + 120000,
+    });
+
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(true);
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(false);
+  });
+
+  it('should close a half-open circuit on success', async () => {
+    await CircuitBreaker.recordFailure('user-1:publish', { failureThreshold: 1, openDuration: 0 });
+    await CircuitBreaker.shouldAllowRequest('user-1:publish', { openDuration: 0 });
+    expect(CircuitBreaker.getStatus('user-1:publish')?.state).toBe(CircuitState.HALF_OPEN);
+
+    await CircuitBreaker.recordSuccess('user-1:publish');
+
+    const data = await redis.hgetall(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`);
+    expect(data.state).toBe(CircuitState.CLOSED);
+    expect(Number(data.failures)).toBe(0);
+  });
+
+  it('should publish changes and update other processes', async () => {
+    const listener = (redis as any).duplicate();
+    const messages: string[] = [];
+    listener.on('message', (_channel: string, message: string) => messages.push(message));
+    await listener.subscribe(CIRCUIT_BREAKER_CHANNEL);
+
+    await CircuitBreaker.recordFailure('user-1:publish');
+    await flush();
+
+    expect(messages).toContain('user-1:publish');
+    await listener.quit();
+  });
+
+  it('should pick up circuits changed by other processes', async () => {
+    // Start syncing
+    await CircuitBreaker.shouldAllowRequest('user-1:publish');
+
+    // Another process opens a circuit and announces it
+    await redis.hset(`${CIRCUIT_BREAKER_KEY_PREFIX}user-2:publish`, {
+      state: CircuitState.OPEN,
+      failures: 3,
+      lastFailureTime: Date.now(),
+      halfOpenAttempts: 0,
+      openDuration: 60000,
+      expiresAt: Date.now() + 120000,
+    });
+    await redis.publish(CIRCUIT_BREAKER_CHANNEL, 'user-2:publish');
+    await flush();
+
+    expect(CircuitBreaker.getStatus('user-2:publish')).toMatchObject({
+      state: CircuitState.OPEN,
+      failures: 3,
+    });
+  });
+
+  it('should load existing circuits when syncing starts', async () => {
+    await redis.hset(`${CIRCUIT_BREAKER_KEY_PREFIX}user-2:publish`, {
+      state: CircuitState.OPEN,
+      failures: 3,
+      lastFailureTime: Date.now(),
+      halfOpenAttempts: 0,
+      openDuration: 60000,
+      expiresAt: Date.now() + 120000,
+    });
+    await CircuitBreaker.close();
+
+    await CircuitBreaker.shouldAllowRequest('user-1:publish');
+
+    expect(Object.keys(CircuitBreaker.getAllStatuses()).sort()).toEqual([
+      'user-1:publish',
+      'user-2:publish',
+    ]);
+  });
+
+  it('should reset a circuit for every process', async () => {
+    await CircuitBreaker.recordFailure('user-1:publish', { failureThreshold: 1 });
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(false);
+
+    await CircuitBreaker.reset('user-1:publish');
+
+    const data = await redis.hgetall(`${CIRCUIT_BREAKER_KEY_PREFIX}user-1:publish`);
+    expect(data.state).toBe(CircuitState.CLOSED);
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(true);
+  });
+
+  it('should remove every circuit on resetAll', async () => {
+    await CircuitBreaker.recordFailure('user-1:publish');
+    await CircuitBreaker.recordFailure('user-2:publish');
+
+    await CircuitBreaker.resetAll();
+    await flush();
+
+    expect(await redis.keys(`${CIRCUIT_BREAKER_KEY_PREFIX}*`)).toEqual([]);
+    expect(CircuitBreaker.getAllStatuses()).toEqual({});
+  });
+
+  it('should fall back to memory when Redis fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    redis.eval = vi.fn().mockRejectedValue(new Error('Connection lost')) as any;
+
+    await CircuitBreaker.recordFailure('user-1:publish', { failureThreshold: 1 });
+
+    expect(await CircuitBreaker.shouldAllowRequest('user-1:publish')).toBe(false);
+    expect(consoleErrorSpy).toHaveBeenCalled();
+  });
+
+  it('should use memory only when persistence is disabled', async () => {
+    process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS = 'false';
+
+    await CircuitBreaker.recordFailure('user-1:publish');
+
+    expect(await redis.keys(`${CIRCUIT_BREAKER_KEY_PREFIX}*`)).toEqual([]);
+    expect(CircuitBreaker.getStatus('user-1:publish')?.failures).toBe(1);
+  });
+});
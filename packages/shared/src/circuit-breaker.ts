@@ -0,0 +1,736 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Cluster-wide circuit breaker.
+ *
+ * Prevents repeated API calls when experiencing sustained 429 rate limit errors.
+ * States:
+ * - CLOSED: Normal operation, requests pass through
+ * - OPEN: Too many failures, reject requests immediately (serve from cache)
+ * - HALF_OPEN: Testing if service recovered, allow limited requests
+ *
+ * When a Redis client is configured, Redis is the source of truth: every decision and
+ * transition runs as one Lua script against a hash per circuit, so the API server and
+ * all workers share the same state. Changes are published on a pub/sub channel, which
+ * keeps each process's local copy (used for status reporting) up to date. Without
+ * Redis, or when Redis fails, circuits fall back to per-process memory.
+ */
+
+import type { Redis } from 'ioredis';
+
+export enum CircuitState {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Number of consecutive failures before opening
+  openDuration: number; // Time to stay open in milliseconds
+  halfOpenMaxAttempts: number; // Number of test requests in half-open state
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failures: number;
+  lastFailureTime: Date | null;
+  nextAttemptTime: Date | null;
+}
+
+export interface CircuitBreakerDependencies {
+  getRedisClient: () => Promise<Redis | null>;
+}
+
+export const CIRCUIT_BREAKER_KEY_PREFIX = 'circuit_breaker:';
+export const CIRCUIT_BREAKER_CHANNEL = 'circuit-breaker:changes';
+
+/** Message published on the change channel when every circuit was reset */
+const RESET_ALL_MESSAGE = '*';
+
+/** Extra time a circuit hash is kept after its open duration */
+const KEY_TTL_GRACE_MS = 60 * 1000;
+
+/**
+ * Lua script for atomic circuit operations
+ *
+ * KEYS[1] = circuit hash
+ * ARGV[1] = operation (allow | failure | success | reset)
+ * ARGV[2] = current timestamp
+ * ARGV[3] = failure threshold
+ * ARGV[4] = open duration in ms
+ * ARGV[5] = max half-open attempts
+ * ARGV[6] = key TTL in ms
+ * ARGV[7] = change channel
+ * ARGV[8] = circuit key (published on change)
+ *
+ * Returns {allowed, previousState, state, failures, lastFailureTime, halfOpenAttempts,
+ * openDuration, expiresAt}; expiresAt is 0 when the circuit does not exist
+ */
+const CIRCUIT_SCRIPT = `
+  local op = ARGV[1]
+  local now = tonumber(ARGV[2])
+  local threshold = tonumber(ARGV[3])
+  local openDuration = tonumber(ARGV[4])
+  local halfOpenMax = tonumber(ARGV[5])
+  local ttl = tonumber(ARGV[6])
+
+  local fields = redis.call('HMGET', KEYS[1], 'state', 'failures', 'lastFailureTime', 'halfOpenAttempts', 'expiresAt')
+  local exists = type(fields[1]) == 'string'
+  local state = 'CLOSED'
+  local failures = 0
+  local lastFailureTime = 0
+  local halfOpenAttempts = 0
+  local expiresAt = 0
+  if exists then
+    state = fields[1]
+    failures = tonumber(fields[2]) or 0
+    lastFailureTime = tonumber(fields[3]) or 0
+    halfOpenAttempts = tonumber(fields[4]) or 0
+    expiresAt = tonumber(fields[5]) or 0
+  end
+
+  local previous = state
+  local allowed = 1
+  local changed = false
+
+  if op == 'allow' then
+    changed = not exists
+    if state == 'OPEN' then
+      if now - lastFailureTime >= openDuration then
+        state = 'HALF_OPEN'
+        halfOpenAttempts = 0
+        changed = true
+      else
+        allowed = 0
+      end
+    elseif state == 'HALF_OPEN' then
+      if halfOpenAttempts < halfOpenMax then
+        halfOpenAttempts = halfOpenAttempts + 1
+        changed = true
+      else
+        allowed = 0
+      end
+    end
+  elseif op == 'failure' then
+    failures = failures + 1
+    lastFailureTime = now
+    if state == 'HALF_OPEN' then
+      state = 'OPEN'
+      halfOpenAttempts = 0
+    elseif state == 'CLOSED' and failures >= threshold then
+      state = 'OPEN'
+    end
+    changed = true
+  elseif op == 'success' then
+    if exists and (failures > 0 or state == 'HALF_OPEN') then
+      failures = 0
+      if state == 'HALF_OPEN' then
+        state = 'CLOSED'
+        halfOpenAttempts = 0
+      end
+      changed = true
+    end
+  elseif op == 'reset' then
+    if exists then
+      state = 'CLOSED'
+      failures = 0
+      lastFailureTime = 0
+      halfOpenAttempts = 0
+      changed = true
+    end
+  end
+
+  if changed then
+    expiresAt = now + ttl
+    redis.call('HSET', KEYS[1],
+      'state', state,
+      'failures', failures,
+      'lastFailureTime', lastFailureTime,
+      'halfOpenAttempts', halfOpenAttempts,
+      'openDuration', openDuration,
+      'expiresAt', expiresAt)
+    redis.call('PEXPIRE', KEYS[1], ttl)
+    redis.call('PUBLISH', ARGV[7], ARGV[8])
+  end
+
+  return {allowed, previous, state, failures, lastFailureTime, halfOpenAttempts, openDuration, expiresAt}
+`;
+
+type CircuitOperation = 'allow' | 'failure' | 'success' | 'reset';
+
+/**
+ * Circuit Breaker for API rate limiting
+ */
+export class CircuitBreaker {
+  private static circuits = new Map<string, CircuitBreakerState>();
+
+  private static defaultConfig: CircuitBreakerOptions = {
+    failureThreshold: 3, // Open after 3 consecutive 429s
+    openDuration: 5 * 60 * 1000, // Stay open for 5 minutes
+    halfOpenMaxAttempts: 1, // Test with 1 request
+  };
+
+  private static deps: CircuitBreakerDependencies | null = null;
+  private static subscriber: Redis | null = null;
+  private static syncPromise: Promise<void> | null = null;
+
+  /**
+   * Share circuit state through Redis
+   *
+   * Called once per process at startup. Without it, circuits live in process memory.
+   */
+  static configure(deps: CircuitBreakerDependencies): void {
+    this.deps = deps;
+  }
+
+  /**
+   * Check if request should be allowed through circuit breaker
+   *
+   * @param key - Circuit identifier (e.g., endpoint or user+endpoint)
+   * @param config - Optional circuit breaker configuration
+   * @returns true if request should proceed, false if circuit is open
+   */
+  static async shouldAllowRequest(
+    key: string,
+    config: Partial<CircuitBreakerOptions> = {}
+  ): Promise<boolean> {
+    const mergedConfig = { ...this.defaultConfig, ...config };
+
+    const result = await this.runInRedis('allow', key, mergedConfig);
+    if (result) {
+      if (result.previousState === CircuitState.OPEN && result.state === CircuitState.HALF_OPEN) {
+        console.log(`[CircuitBreaker] ${key}: Transitioning to HALF_OPEN`);
+      } else if (!result.allowed && result.state === CircuitState.OPEN) {
+        console.log(`[CircuitBreaker] ${key}: Circuit OPEN, rejecting request`);
+      } else if (!result.allowed) {
+        console.log(`[CircuitBreaker] ${key}: HALF_OPEN max attempts reached`);
+      }
+      return result.allowed;
+    }
+
+    const circuit = this.getOrCreateCircuit(key, mergedConfig);
+
+    switch (circuit.state) {
+      case CircuitState.CLOSED:
+        // Normal operation
+        return true;
+
+      case CircuitState.OPEN:
+        // Check if enough time has passed to try half-open
+        const now = Date.now();
+        const timeSinceOpen = now - circuit.lastFailureTime;
+
+        if (timeSinceOpen >= mergedConfig.openDuration) {
+          console.log(`[CircuitBreaker] ${key}: Transitioning to HALF_OPEN`);
+          circuit.state = CircuitState.HALF_OPEN;
+          circuit.halfOpenAttempts = 0;
+          return true;
+        }
+
+        // Circuit still open, reject request
+        console.log(`[CircuitBreaker] ${key}: Circuit OPEN, rejecting request`);
+        return false;
+
+      case CircuitState.HALF_OPEN:
+        // Allow limited test requests
+        if (circuit.halfOpenAttempts < mergedConfig.halfOpenMaxAttempts) {
+          circuit.halfOpenAttempts++;
+          return true;
+        }
+
+        // Max attempts reached, stay in half-open
+        console.log(`[CircuitBreaker] ${key}: HALF_OPEN max attempts reached`);
+        return false;
+
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Record a successful request
+   *
+   * @param key - Circuit identifier
+   */
+  static async recordSuccess(key: string): Promise<void> {
+    const result = await this.runInRedis('success', key, {
+      ...this.defaultConfig,
+      ...this.circuits.get(key)?.config,
+    });
+    if (result) {
+      if (result.previousState === CircuitState.HALF_OPEN && result.state === CircuitState.CLOSED) {
+        console.log(`[CircuitBreaker] ${key}: Success in HALF_OPEN, transitioning to CLOSED`);
+      }
+      return;
+    }
+
+    const circuit = this.circuits.get(key);
+    if (!circuit) return;
+
+    // Reset failure count
+    circuit.failures = 0;
+
+    // If half-open, transition to closed
+    if (circuit.state === CircuitState.HALF_OPEN) {
+      console.log(`[CircuitBreaker] ${key}: Success in HALF_OPEN, transitioning to CLOSED`);
+      circuit.state = CircuitState.CLOSED;
+      circuit.halfOpenAttempts = 0;
+    }
+  }
+
+  /**
+   * Record a failed request (429 error)
+   *
+   * @param key - Circuit identifier
+   * @param config - Optional circuit breaker configuration
+   */
+  static async recordFailure(
+    key: string,
+    config: Partial<CircuitBreakerOptions> = {}
+  ): Promise<void> {
+    const mergedConfig = { ...this.defaultConfig, ...config };
+
+    const result = await this.runInRedis('failure', key, mergedConfig);
+    if (result) {
+      if (result.previousState === CircuitState.HALF_OPEN) {
+        console.log(`[CircuitBreaker] ${key}: Failure in HALF_OPEN, returning to OPEN`);
+      } else if (
+        result.previousState === CircuitState.CLOSED &&
+        result.state === CircuitState.OPEN
+      ) {
+        console.log(
+          `[CircuitBreaker] ${key}: Failure threshold reached (${result.failures}), opening circuit`
+        );
+      }
+      return;
+    }
+
+    const circuit = this.getOrCreateCircuit(key, mergedConfig);
+
+    circuit.failures++;
+    circuit.lastFailureTime = Date.now();
+
+    if (circuit.state === CircuitState.HALF_OPEN) {
+      // Failure in half-open, go back to open
+      console.log(`[CircuitBreaker] ${key}: Failure in HALF_OPEN, returning to OPEN`);
+      circuit.state = CircuitState.OPEN;
+      circuit.halfOpenAttempts = 0;
+    } else if (circuit.state === CircuitState.CLOSED) {
+      // Check if threshold reached
+      if (circuit.failures >= mergedConfig.failureThreshold) {
+        console.log(
+          `[CircuitBreaker] ${key}: Failure threshold reached (${circuit.failures}), opening circuit`
+        );
+        circuit.state = CircuitState.OPEN;
+      }
+    }
+  }
+
+  /**
+   * Get circuit status
+   *
+   * Reads this process's copy, which is kept in sync with Redis through pub/sub.
+   *
+   * @param key - Circuit identifier
+   * @returns Circuit status or null if not found
+   */
+  static getStatus(key: string): CircuitBreakerStatus | null {
+    const circuit = this.circuits.get(key);
+    if (!circuit) return null;
+
+    // Circuit hash expired in Redis
+    if (circuit.expiresAt && circuit.expiresAt <= Date.now()) {
+      this.circuits.delete(key);
+      return null;
+    }
+
+    const nextAttemptTime =
+      circuit.state === CircuitState.OPEN && circuit.lastFailureTime > 0
+        ? new Date(circuit.lastFailureTime + circuit.config.openDuration)
+        : null;
+
+    return {
+      state: circuit.state,
+      failures: circuit.failures,
+      lastFailureTime: circuit.lastFailureTime > 0 ? new Date(circuit.lastFailureTime) : null,
+      nextAttemptTime,
+    };
+  }
+
+  /**
+   * Get all circuit statuses (for monitoring)
+   */
+  static getAllStatuses(): Record<string, CircuitBreakerStatus> {
+    const statuses: Record<string, CircuitBreakerStatus> = {};
+    for (const key of [...this.circuits.keys()]) {
+      const status = this.getStatus(key);
+      if (status) {
+        statuses[key] = status;
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Reset a specific circuit on every process
+   *
+   * @param key - Circuit identifier
+   */
+  static async reset(key: string): Promise<void> {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.state = CircuitState.CLOSED;
+      circuit.failures = 0;
+      circuit.lastFailureTime = 0;
+      circuit.halfOpenAttempts = 0;
+      console.log(`[CircuitBreaker] ${key}: Circuit reset to CLOSED`);
+    }
+
+    await this.runInRedis('reset', key, { ...this.defaultConfig, ...circuit?.config });
+  }
+
+  /**
+   * Reset all circuits on every process
+   */
+  static async resetAll(): Promise<void> {
+    this.circuits.clear();
+    console.log('[CircuitBreaker] All circuits reset');
+
+    const redis = await this.getRedis();
+    if (!redis) return;
+
+    try {
+      const keys = await this.scanCircuitKeys(redis);
+      if (keys.length > 0) {
+        await redis.del(...keys);
+      }
+      await redis.publish(CIRCUIT_BREAKER_CHANNEL, RESET_ALL_MESSAGE);
+    } catch (error) {
+      console.error('[CircuitBreaker] Error resetting circuits in Redis:', error);
+    }
+  }
+
+  /**
+   * Stop listening for changes from other processes
+   */
+  static async close(): Promise<void> {
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    this.syncPromise = null;
+
+    if (subscriber) {
+      try {
+        await subscriber.quit();
+      } catch (error) {
+        console.error('[CircuitBreaker] Error closing subscriber:', error);
+      }
+    }
+  }
+
+  /**
+   * Get or create an in-memory circuit
+   */
+  private static getOrCreateCircuit(
+    key: string,
+    config: CircuitBreakerOptions
+  ): CircuitBreakerState {
+    let circuit = this.circuits.get(key);
+    if (circuit) {
+      return circuit;
+    }
+
+    circuit = {
+      state: CircuitState.CLOSED,
+      failures: 0,
+      lastFailureTime: 0,
+      halfOpenAttempts: 0,
+      config,
+    };
+
+    this.circuits.set(key, circuit);
+    return circuit;
+  }
+
+  /**
+   * Run an operation atomically in Redis and mirror the result locally
+   *
+   * @returns The Redis result, or null when the caller should use in-memory state
+   */
+  private static async runInRedis(
+    op: CircuitOperation,
+    key: string,
+    config: CircuitBreakerOptions
+  ): Promise<CircuitResult | null> {
+    const redis = await this.getRedis();
+    if (!redis) return null;
+
+    try {
+      const reply = (await redis.eval(
+        CIRCUIT_SCRIPT,
+        1,
+        `${CIRCUIT_BREAKER_KEY_PREFIX}${key}`,
+        op,
+        Date.now().toString(),
+        config.failureThreshold.toString(),
+        config.openDuration.toString(),
+        config.halfOpenMaxAttempts.toString(),
+        (config.openDuration + KEY_TTL_GRACE_MS).toString(),
+        CIRCUIT_BREAKER_CHANNEL,
+        key
+      )) as Array<string | number>;
+
+      const result: CircuitResult = {
+        allowed: Number(reply[0]) === 1,
+        previousState: reply[1] as CircuitState,
+        state: reply[2] as CircuitState,
+        failures: Number(reply[3]),
+        lastFailureTime: Number(reply[4]),
+        halfOpenAttempts: Number(reply[5]),
+        expiresAt: Number(reply[7]),
+      };
+
+      // Mirror right away rather than waiting for our own change notification
+      if (result.expiresAt > 0) {
+        this.circuits.set(key, {
+          state: result.state,
+          failures: result.failures,
+          lastFailureTime: result.lastFailureTime,
+          halfOpenAttempts: result.halfOpenAttempts,
+          config,
+          expiresAt: result.expiresAt,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      // Fall back to this process's memory - better than failing the request
+      console.error(`[CircuitBreaker] Error running "${op}" in Redis:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the shared Redis client and make sure change notifications are subscribed
+   */
+  private static async getRedis(): Promise<Redis | null> {
+    if (!this.deps || !this.isPersistenceEnabled()) return null;
+
+    let redis: Redis | null;
+    try {
+      redis = await this.deps.getRedisClient();
+    } catch (error) {
+      console.error('[CircuitBreaker] Error getting Redis client:', error);
+      return null;
+    }
+    if (!redis) return null;
+
+    if (!this.syncPromise) {
+      this.syncPromise = this.startSync(redis);
+    }
+    await this.syncPromise;
+
+    return redis;
+  }
+
+  /**
+   * Subscribe to change notifications and load existing circuits
+   */
+  private static async startSync(redis: Redis): Promise<void> {
+    let subscriber: Redis | null = null;
+
+    try {
+      subscriber = redis.duplicate();
+      subscriber.on('error', (error) => {
+        console.error('[CircuitBreaker] Subscriber error:', error);
+      });
+      subscriber.on('message', (_channel: string, message: string) => {
+        if (message === RESET_ALL_MESSAGE) {
+          this.circuits.clear();
+          return;
+        }
+        this.syncCircuit(redis, message).catch((error) => {
+          console.error(`[CircuitBreaker] Error syncing circuit ${message}:`, error);
+        });
+      });
+
+      await subscriber.subscribe(CIRCUIT_BREAKER_CHANNEL);
+      this.subscriber = subscriber;
+
+      const keys = await this.scanCircuitKeys(redis);
+      await Promise.all(
+        keys.map((redisKey) =>
+          this.syncCircuit(redis, redisKey.slice(CIRCUIT_BREAKER_KEY_PREFIX.length))
+        )
+      );
+    } catch (error) {
+      // Decisions still go through Redis; only status reporting may lag
+      console.error('[CircuitBreaker] Error subscribing to circuit changes:', error);
+      subscriber?.disconnect();
+      this.subscriber = null;
+      this.syncPromise = null;
+    }
+  }
+
+  /**
+   * Copy one circuit from Redis into this process's memory
+   */
+  private static async syncCircuit(redis: Redis, key: string): Promise<void> {
+    const data = await redis.hgetall(`${CIRCUIT_BREAKER_KEY_PREFIX}${key}`);
+    if (!data || !data.state) {
+      this.circuits.delete(key);
+      return;
+    }
+
+    this.circuits.set(key, {
+      state: data.state as CircuitState,
+      failures: Number(data.failures),
+      lastFailureTime: Number(data.lastFailureTime),
+      halfOpenAttempts: Number(data.halfOpenAttempts),
+      config: { ...this.defaultConfig, openDuration: Number(data.openDuration) },
+      expiresAt: Number(data.expiresAt),
+    });
+  }
+
+  /**
+   * List every circuit hash in Redis
+   */
+  private static async scanCircuitKeys(redis: Redis): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await redis.scan(
+        cursor,
+        'MATCH',
+        `${CIRCUIT_BREAKER_KEY_PREFIX}*`,
+        'COUNT',
+        100
+      );
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  /**
+   * Check if Redis-backed state is enabled
+   */
+  private static isPersistenceEnabled(): boolean {
+    const enabled = process.env.CIRCUIT_BREAKER_PERSIST_TO_REDIS?.toLowerCase();
+    return enabled !== 'false' && enabled !== '0';
+  }
+
+  /**
+   * Check if circuit breaker is enabled
+   */
+  static isEnabled(): boolean {
+    const enabled = process.env.CIRCUIT_BREAKER_ENABLED?.toLowerCase();
+    return enabled !== 'false' && enabled !== '0';
+  }
+
+  /**
+   * Get configured failure threshold
+   */
+  static getFailureThreshold(): number {
+    const threshold = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '3', 10);
+    return isNaN(threshold) ? 3 : threshold;
+  }
+}
+
+/**
+ * Internal circuit state
+ */
+interface CircuitBreakerState {
+  state: CircuitState;
+  failures: number;
+  lastFailureTime: number; // Timestamp in ms
+  halfOpenAttempts: number;
+  config: CircuitBreakerOptions;
+  expiresAt?: number; // When the Redis copy expires (unset for memory-only circuits)
+}
+
+/**
+ * Outcome of an atomic circuit operation in Redis
+ */
+interface CircuitResult {
+  allowed: boolean;
+  previousState: CircuitState;
+  state: CircuitState;
+  failures: number;
+  lastFailureTime: number;
+  halfOpenAttempts: number;
+  expiresAt: number;
+}
+
+/**
+ * Wrap an API call with circuit breaker protection
+ *
+ * @param key - Circuit identifier
+ * @param fn - Function to execute
+ * @param fallback - Fallback function if circuit is open (e.g., serve stale cache)
+ * @param config - Optional circuit breaker configuration
+ * @returns Result of fn or fallback
+ */
+export async function withCircuitBreaker<T>(
+  key: string,
+  fn: () => Promise<T>,
+  fallback: () => Promise<T>,
+  config: Partial<CircuitBreakerOptions> = {}
+): Promise<T> {
+  if (!CircuitBreaker.isEnabled()) {
+    // Circuit breaker disabled, execute normally
+    return fn();
+  }
+
+  // Check if request allowed
+  const allowed = await CircuitBreaker.shouldAllowRequest(key, config);
+
+  if (!allowed) {
+    // Circuit open, use fallback
+    console.log(`[CircuitBreaker] ${key}: Using fallback (circuit OPEN)`);
+    return fallback();
+  }
+
+  try {
+    // Execute function
+    const result = await fn();
+
+    // Record success (awaited so other processes see it before the next request)
+    await CircuitBreaker.recordSuccess(key);
+
+    return result;
+  } catch (error: any) {
+    // Check if 429 error
+    const is429 =
+      error?.status === 429 ||
+      error?.statusCode === 429 ||
+      error?.message?.toLowerCase().includes('rate limit') ||
+      error?.message?.toLowerCase().includes('429');
+
+    if (is429) {
+      // Record failure for circuit breaker
+      await CircuitBreaker.recordFailure(key, config);
+      console.log(`[CircuitBreaker] ${key}: 429 error, recorded failure`);
+
+      // Use fallback
+      return fallback();
+    }
+
+    // Non-429 error, don't affect circuit breaker
+    throw error;
+  }
+}
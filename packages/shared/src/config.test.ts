@@ -20,14 +20,17 @@ import {
   getDatabaseConfig,
   getRedisConfig,
   getDeviantArtConfig,
+  getDeviantArtEndpoints,
   getS3StorageConfig,
   getSecurityConfig,
+  getEncryptionConfig,
   getAppConfig,
   getSessionConfig,
   getCacheConfig,
   getCircuitBreakerConfig,
   getPublisherConfig,
   getRateLimiterConfig,
+  getDeviantArtQuotaConfig,
   getMetricsConfig,
   getHealthCheckConfig,
   getConfig,
@@ -48,6 +51,10 @@ describe('Configuration Module', () => {
     process.env.S3_PUBLIC_URL = 'http://localhost:9000/test-bucket';
     process.env.SESSION_SECRET = 'test_session_secret';
     process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+    delete process.env.ENCRYPTION_KEY_PREVIOUS;
+    delete process.env.DEVIANTART_API_URL;
+    delete process.env.DEVIANTART_TOKEN_URL;
+    delete process.env.DEVIANTART_AUTH_URL;
   });
 
   describe('getDatabaseConfig', () => {
@@ -80,6 +87,23 @@ describe('Configuration Module', () => {
     });
   });
 
+  describe('getDeviantArtEndpoints', () => {
+    it('should default to production DeviantArt', () => {
+      const endpoints = getDeviantArtEndpoints();
+      expect(endpoints.apiUrl).toBe('https://www.deviantart.com/api/v1/oauth2');
+      expect(endpoints.tokenUrl).toBe('https://www.deviantart.com/oauth2/token');
+      expect(endpoints.authUrl).toBe('https://www.deviantart.com/oauth2/authorize');
+    });
+
+    it('should allow pointing at a local fake', () => {
+      process.env.DEVIANTART_API_URL = 'http://127.0.0.1:4567/api/v1/oauth2';
+      process.env.DEVIANTART_TOKEN_URL = 'http://127.0.0.1:4567/oauth2/token';
+      const endpoints = getDeviantArtEndpoints();
+      expect(endpoints.apiUrl).toBe('http://127.0.0.1:4567/api/v1/oauth2');
+      expect(endpoints.tokenUrl).toBe('http://127.0.0.1:4567/oauth2/token');
+    });
+  });
+
   describe('getS3StorageConfig', () => {
     it('should return storage configuration with defaults', () => {
       delete process.env.S3_FORCE_PATH_STYLE; // Ensure not set
@@ -132,6 +156,20 @@ describe('Configuration Module', () => {
     });
   });
 
+  describe('getEncryptionConfig', () => {
+    it('should return the current key with no previous keys by default', () => {
+      const config = getEncryptionConfig();
+      expect(config.key).toBe('a'.repeat(64));
+      expect(config.previousKeys).toEqual([]);
+    });
+
+    it('should parse comma-separated previous keys', () => {
+      process.env.ENCRYPTION_KEY_PREVIOUS = `${'b'.repeat(64)}, ${'c'.repeat(64)}`;
+      const config = getEncryptionConfig();
+      expect(config.previousKeys).toEqual(['b'.repeat(64), 'c'.repeat(64)]);
+    });
+  });
+
   describe('getAppConfig', () => {
     it('should return app configuration with defaults', () => {
       const config = getAppConfig();
@@ -259,6 +297,37 @@ describe('Configuration Module', () => {
     });
   });
 
+  describe('getDeviantArtQuotaConfig', () => {
+    it('should return quota configuration with defaults', () => {
+      const config = getDeviantArtQuotaConfig();
+      expect(config.enabled).toBe(true);
+      expect(config.capacity).toBe(60);
+      expect(config.refillPerMinute).toBe(120);
+      expect(config.publishReservePercent).toBe(25);
+      expect(config.rateLimitBackoffMs).toBe(60000);
+    });
+
+    it('should handle custom values', () => {
+      process.env.DA_QUOTA_ENABLED = 'false';
+      process.env.DA_QUOTA_CAPACITY = '30';
+      process.env.DA_QUOTA_REFILL_PER_MINUTE = '60';
+      process.env.DA_QUOTA_PUBLISH_RESERVE_PERCENT = '50';
+      process.env.DA_QUOTA_RATE_LIMIT_BACKOFF_MS = '120000';
+      const config = getDeviantArtQuotaConfig();
+      expect(config.enabled).toBe(false);
+      expect(config.capacity).toBe(30);
+      expect(config.refillPerMinute).toBe(60);
+      expect(config.publishReservePercent).toBe(50);
+      expect(config.rateLimitBackoffMs).toBe(120000);
+
+      delete process.env.DA_QUOTA_ENABLED;
+      delete process.env.DA_QUOTA_CAPACITY;
+      delete process.env.DA_QUOTA_REFILL_PER_MINUTE;
+      delete process.env.DA_QUOTA_PUBLISH_RESERVE_PERCENT;
+      delete process.env.DA_QUOTA_RATE_LIMIT_BACKOFF_MS;
+    });
+  });
+
   describe('getMetricsConfig', () => {
     it('should return metrics configuration with defaults', () => {
       const config = getMetricsConfig();
@@ -311,12 +380,14 @@ describe('Configuration Module', () => {
       expect(config).toHaveProperty('deviantart');
       expect(config).toHaveProperty('storage');
       expect(config).toHaveProperty('security');
+      expect(config).toHaveProperty('encryption');
       expect(config).toHaveProperty('app');
       expect(config).toHaveProperty('session');
       expect(config).toHaveProperty('cache');
       expect(config).toHaveProperty('circuitBreaker');
       expect(config).toHaveProperty('publisher');
       expect(config).toHaveProperty('rateLimiter');
+      expect(config).toHaveProperty('deviantartQuota');
       expect(config).toHaveProperty('metrics');
       expect(config).toHaveProperty('healthCheck');
     });
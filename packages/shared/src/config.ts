@@ -103,6 +103,26 @@ export function getDeviantArtConfig(): DeviantArtConfig {
   };
 }
 
+/**
+ * DeviantArt endpoints
+ *
+ * Default to production DeviantArt. Point them at a local fake (see @isekai/shared/testing)
+ * for end-to-end tests.
+ */
+export interface DeviantArtEndpoints {
+  apiUrl: string;
+  tokenUrl: string;
+  authUrl: string;
+}
+
+export function getDeviantArtEndpoints(): DeviantArtEndpoints {
+  return {
+    apiUrl: getEnvOrDefault('DEVIANTART_API_URL', 'https://www.deviantart.com/api/v1/oauth2'),
+    tokenUrl: getEnvOrDefault('DEVIANTART_TOKEN_URL', 'https://www.deviantart.com/oauth2/token'),
+    authUrl: getEnvOrDefault('DEVIANTART_AUTH_URL', 'https://www.deviantart.com/oauth2/authorize'),
+  };
+}
+
 /**
  * S3-Compatible Storage Configuration
  */
@@ -151,6 +171,24 @@ export function getSecurityConfig(): SecurityConfig {
   };
 }
 
+/**
+ * Token Encryption Configuration
+ */
+export interface EncryptionConfig {
+  key: string;
+  previousKeys: string[];
+}
+
+export function getEncryptionConfig(): EncryptionConfig {
+  return {
+    key: getEnv('ENCRYPTION_KEY'),
+    previousKeys: getEnvOrDefault('ENCRYPTION_KEY_PREVIOUS', '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean),
+  };
+}
+
 /**
  * Application Configuration
  */
@@ -269,6 +307,27 @@ export function getRateLimiterConfig(): RateLimiterConfig {
   };
 }
 
+/**
+ * DeviantArt Application Quota Configuration
+ */
+export interface DeviantArtQuotaConfig {
+  enabled: boolean;
+  capacity: number;
+  refillPerMinute: number;
+  publishReservePercent: number;
+  rateLimitBackoffMs: number;
+}
+
+export function getDeviantArtQuotaConfig(): DeviantArtQuotaConfig {
+  return {
+    enabled: getEnvBoolean('DA_QUOTA_ENABLED', true),
+    capacity: getEnvNumber('DA_QUOTA_CAPACITY', 60),
+    refillPerMinute: getEnvNumber('DA_QUOTA_REFILL_PER_MINUTE', 120),
+    publishReservePercent: getEnvNumber('DA_QUOTA_PUBLISH_RESERVE_PERCENT', 25),
+    rateLimitBackoffMs: getEnvNumber('DA_QUOTA_RATE_LIMIT_BACKOFF_MS', 60000),
+  };
+}
+
 /**
  * Metrics & Monitoring Configuration
  */
@@ -314,12 +373,14 @@ export interface Config {
   deviantart: DeviantArtConfig;
   storage: StorageConfig;
   security: SecurityConfig;
+  encryption: EncryptionConfig;
   app: AppConfig;
   session: SessionConfig;
   cache: CacheConfig;
   circuitBreaker: CircuitBreakerConfig;
   publisher: PublisherConfig;
   rateLimiter: RateLimiterConfig;
+  deviantartQuota: DeviantArtQuotaConfig;
   metrics: MetricsConfig;
   healthCheck: HealthCheckConfig;
 }
@@ -334,12 +395,14 @@ export function getConfig(): Config {
     deviantart: getDeviantArtConfig(),
     storage: getS3StorageConfig(),
     security: getSecurityConfig(),
+    encryption: getEncryptionConfig(),
     app: getAppConfig(),
     session: getSessionConfig(),
     cache: getCacheConfig(),
     circuitBreaker: getCircuitBreakerConfig(),
     publisher: getPublisherConfig(),
     rateLimiter: getRateLimiterConfig(),
+    deviantartQuota: getDeviantArtQuotaConfig(),
     metrics: getMetricsConfig(),
     healthCheck: getHealthCheckConfig(),
   };
@@ -0,0 +1,149 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  cronMatches,
+  describeCronExpression,
+  getCronExpressionError,
+  getNextCronRuns,
+  parseCronExpression,
+} from './cron-schedule.js';
+
+describe('parseCronExpression', () => {
+  it('should expand lists, ranges, steps and names', () => {
+    const schedule = parseCronExpression('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(schedule.daysOfMonth).toEqual([1, 15]);
+    expect(schedule.months).toEqual([1, 2, 3]);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday and parse nth weekdays', () => {
+    const schedule = parseCronExpression('0 19 * * 7,TUE#1,2#3');
+
+    expect(schedule.daysOfWeek).toEqual([0]);
+    expect(schedule.nthWeekdays).toEqual([
+      { weekday: 2, nth: 1 },
+      { weekday: 2, nth: 3 },
+    ]);
+  });
+
+  it.each([
+    ['0 19 * *', 'must have 5 fields'],
+    ['60 * * * *', 'minute value 60'],
+    ['0 24 * * *', 'hour value 24'],
+    ['0 0 0 * *', 'day of month value 0'],
+    ['*/0 * * * *', 'Invalid minute step'],
+    ['0 0 * * 2#6', 'use #1 to #5'],
+    ['0 0 5-1 * *', 'Invalid day of month range'],
+    ['0 0 31 2 *', 'never runs'],
+  ])('should reject "%s"', (expression, message) => {
+    expect(getCronExpressionError(expression)).toContain(message);
+  });
+
+  it('should accept valid expressions', () => {
+    expect(getCronExpressionError('0 19 * * 2#1,2#3')).toBeNull();
+  });
+});
+
+describe('cronMatches', () => {
+  it('should evaluate in the given timezone', () => {
+    // 19:00 in New York (EDT) is 23:00 UTC
+    const date = new Date('2025-06-03T23:00:00Z'); // Tuesday
+
+    expect(cronMatches('0 19 * * TUE', date, 'America/New_York')).toBe(true);
+    expect(cronMatches('0 19 * * TUE', date, 'UTC')).toBe(false);
+  });
+
+  it('should run on either day field when both are restricted', () => {
+    const tz = 'UTC';
+    expect(cronMatches('0 9 1 * MON', new Date('2025-06-01T09:00:00Z'), tz)).toBe(true); // 1st (Sunday)
+    expect(cronMatches('0 9 1 * MON', new Date('2025-06-02T09:00:00Z'), tz)).toBe(true); // Monday
+    expect(cronMatches('0 9 1 * MON', new Date('2025-06-03T09:00:00Z'), tz)).toBe(false);
+  });
+});
+
+describe('getNextCronRuns', () => {
+  it('should find the 1st and 3rd Tuesday', () => {
+    const runs = getNextCronRuns(
+      '0 19 * * 2#1,2#3',
+      'Europe/Berlin',
+      new Date('2025-06-01T00:00:00Z'),
+      3
+    );
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2025-06-03T17:00:00.000Z',
+      '2025-06-17T17:00:00.000Z',
+      '2025-07-01T17:00:00.000Z',
+    ]);
+  });
+
+  it('should find the 1st and 15th of the month', () => {
+    const runs = getNextCronRuns('30 8 1,15 * *', 'UTC', new Date('2025-06-01T08:30:00Z'), 2);
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2025-06-15T08:30:00.000Z',
+      '2025-07-01T08:30:00.000Z',
+    ]);
+  });
+
+  it('should run local times that DST skips at the end of the gap', () => {
+    // 02:30 doesn't exist in New York on 2025-03-09, clocks jump to 03:00 (07:00Z)
+    const runs = getNextCronRuns(
+      '30 2 * * *',
+      'America/New_York',
+      new Date('2025-03-08T12:00:00Z'),
+      2
+    );
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2025-03-09T07:00:00.000Z',
+      '2025-03-10T06:30:00.000Z',
+    ]);
+  });
+
+  it('should run local times that DST repeats once', () => {
+    // 01:30 happens twice in New York on 2025-11-02: 05:30Z (EDT) and 06:30Z (EST)
+    const runs = getNextCronRuns(
+      '30 1 * * *',
+      'America/New_York',
+      new Date('2025-11-01T12:00:00Z'),
+      2
+    );
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2025-11-02T05:30:00.000Z',
+      '2025-11-03T06:30:00.000Z',
+    ]);
+  });
+});
+
+describe('describeCronExpression', () => {
+  it.each([
+    ['0 19 * * 2#1,2#3', 'At 19:00 on the 1st Tuesday and the 3rd Tuesday of the month'],
+    ['0 9 1,15 * *', 'At 09:00 on the 1st and 15th of the month'],
+    ['30 8 * * MON-FRI', 'At 08:30 on Monday, Tuesday, Wednesday, Thursday and Friday'],
+    ['*/30 * * * *', 'Every 30 minutes'],
+    ['0 12 * 12 *', 'At 12:00 in December'],
+  ])('should describe "%s"', (expression, description) => {
+    expect(describeCronExpression(expression)).toBe(description);
+  });
+});
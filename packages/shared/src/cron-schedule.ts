@@ -0,0 +1,419 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Cron expressions for automation schedule rules.
+ *
+ * Standard five fields (minute hour day-of-month month day-of-week), evaluated in the
+ * user's timezone. Supports lists, ranges, steps and JAN-DEC / SUN-SAT names, plus
+ * `weekday#n` for the nth weekday of the month (`2#1,2#3` = 1st and 3rd Tuesday).
+ * As in classic cron, when both day fields are restricted a day matching either runs.
+ */
+
+import { getZonedParts, zonedTimeToUtc } from './publishing-policy.js';
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+const MONTH_LABELS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+// Longest gap between two runs of a valid expression (Feb 29 every 4 years, plus slack)
+const MAX_SEARCH_DAYS = 8 * 366;
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[]; // 0 = Sunday
+  nthWeekdays: Array<{ weekday: number; nth: number }>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex !== -1) {
+    return nameIndex + (spec.nameOffset ?? 0);
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value "${value}"`);
+  }
+
+  const number = Number(value);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} value ${number} is outside ${spec.min}-${spec.max}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (range !== '*') {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+      start = parseValue(from, spec);
+      end = to === undefined ? (stepText === undefined ? start : spec.max) : parseValue(to, spec);
+      if (end < start) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new Error(`Invalid ${spec.name} step "${stepText}"`);
+      }
+      step = Number(stepText);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression. Throws with a readable message when invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      'Cron expression must have 5 fields: minute hour day-of-month month day-of-week'
+    );
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] = fields;
+
+  // `weekday#n` entries are pulled out before the normal field parsing
+  const nthWeekdays: Array<{ weekday: number; nth: number }> = [];
+  const plainWeekdays = dayOfWeekField.split(',').filter((part) => {
+    const match = part.match(/^(\w+)#(\d)$/);
+    if (!match) return true;
+
+    const nth = Number(match[2]);
+    if (nth < 1 || nth > 5) {
+      throw new Error(`Invalid day of week "${part}", use #1 to #5`);
+    }
+    nthWeekdays.push({ weekday: parseValue(match[1], FIELDS[4]) % 7, nth });
+    return false;
+  });
+
+  const daysOfWeek =
+    plainWeekdays.length > 0 ? parseField(plainWeekdays.join(','), FIELDS[4]) : new Set<number>();
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+  return {
+    minutes: sorted(parseField(minuteField, FIELDS[0])),
+    hours: sorted(parseField(hourField, FIELDS[1])),
+    daysOfMonth: sorted(parseField(dayOfMonthField, FIELDS[2])),
+    months: sorted(parseField(monthField, FIELDS[3])),
+    daysOfWeek: sorted(daysOfWeek),
+    nthWeekdays,
+    dayOfMonthRestricted: dayOfMonthField !== '*',
+    dayOfWeekRestricted: dayOfWeekField !== '*',
+  };
+}
+
+/**
+ * Validation message for an expression, or null if it's valid and runs at least once
+ */
+export function getCronExpressionError(expression: string): string | null {
+  try {
+    const schedule = parseCronExpression(expression);
+    if (getNextCronRuns(schedule, 'UTC', new Date(), 1).length === 0) {
+      return 'Cron expression never runs';
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  return getCronExpressionError(expression) === null;
+}
+
+function toSchedule(expression: string | CronSchedule): CronSchedule {
+  return typeof expression === 'string' ? parseCronExpression(expression) : expression;
+}
+
+function isDayMatch(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.includes(month)) {
+    return false;
+  }
+
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const dayOfMonthMatch = schedule.daysOfMonth.includes(day);
+  const dayOfWeekMatch =
+    schedule.daysOfWeek.includes(weekday) ||
+    schedule.nthWeekdays.some(
+      (entry) => entry.weekday === weekday && Math.ceil(day / 7) === entry.nth
+    );
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  if (schedule.dayOfWeekRestricted) {
+    return dayOfWeekMatch;
+  }
+  return dayOfMonthMatch;
+}
+
+/**
+ * Whether the expression fires in the given minute (user's local time)
+ */
+export function cronMatches(
+  expression: string | CronSchedule,
+  date: Date,
+  timezone: string
+): boolean {
+  const schedule = toSchedule(expression);
+  const { year, month, day, hour, minute } = getZonedParts(date, timezone);
+
+  return (
+    schedule.minutes.includes(minute) &&
+    schedule.hours.includes(hour) &&
+    isDayMatch(schedule, year, month, day)
+  );
+}
+
+/**
+ * Run times on a local calendar day, in chronological order. Local times are resolved
+ * with zonedTimeToUtc: a time DST skips runs at the first minute after the gap, and a
+ * repeated time runs once, at its first occurrence.
+ */
+export function getCronRunsOnDay(
+  expression: string | CronSchedule,
+  year: number,
+  month: number,
+  day: number,
+  timezone: string
+): Date[] {
+  const schedule = toSchedule(expression);
+  const runs: Date[] = [];
+
+  if (!isDayMatch(schedule, year, month, day)) {
+    return runs;
+  }
+
+  for (const hour of schedule.hours) {
+    for (const minute of schedule.minutes) {
+      const run = zonedTimeToUtc(year, month, day, hour * 60 + minute, timezone);
+      // Times in a DST gap collapse onto its end, keep that run once
+      if (runs.length === 0 || run > runs[runs.length - 1]) {
+        runs.push(run);
+      }
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Next run times strictly after `from`, in chronological order
+ */
+export function getNextCronRuns(
+  expression: string | CronSchedule,
+  timezone: string,
+  from: Date = new Date(),
+  count = 1
+): Date[] {
+  const schedule = toSchedule(expression);
+  const start = getZonedParts(from, timezone);
+  const runs: Date[] = [];
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS && runs.length < count; offset++) {
+    // Date.UTC normalizes day overflow, so this walks local calendar days
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const dayRuns = getCronRunsOnDay(
+      schedule,
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      timezone
+    );
+
+    for (const run of dayRuns) {
+      if (run <= from || (runs.length > 0 && run <= runs[runs.length - 1])) {
+        continue;
+      }
+      runs.push(run);
+      if (runs.length >= count) {
+        return runs;
+      }
+    }
+  }
+
+  return runs;
+}
+
+// ============================================
+// Human-readable description
+// ============================================
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join('');
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function ordinal(value: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = value % 100;
+  return `${value}${suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]}`;
+}
+
+function isFullRange(values: number[], min: number, max: number): boolean {
+  return values.length === max - min + 1;
+}
+
+function describeStep(values: number[]): number | null {
+  if (values.length < 2 || values[0] !== 0) return null;
+  const step = values[1] - values[0];
+  return values.every((value, index) => value === index * step) ? step : null;
+}
+
+function describeTime(schedule: CronSchedule): string {
+  const { minutes, hours } = schedule;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  if (minutes.length * hours.length <= 4) {
+    const times = hours.flatMap((hour) => minutes.map((minute) => `${pad(hour)}:${pad(minute)}`));
+    return `At ${joinWords(times)}`;
+  }
+
+  const allHours = isFullRange(hours, 0, 23);
+  const minuteStep = describeStep(minutes);
+  const minuteText =
+    minutes.length === 60
+      ? 'Every minute'
+      : minuteStep
+        ? `Every ${minuteStep} minutes`
+        : `At minute ${joinWords(minutes.map(String))}`;
+
+  if (allHours) {
+    return minutes.length === 1 ? `At minute ${minutes[0]} of every hour` : minuteText;
+  }
+
+  const hourText = joinWords(hours.map((hour) => `${pad(hour)}:00`));
+  return minutes.length === 1 && minutes[0] === 0
+    ? `At ${hourText}`
+    : `${minuteText} during the hours starting ${hourText}`;
+}
+
+function describeDays(schedule: CronSchedule): string {
+  const parts: string[] = [];
+
+  if (schedule.dayOfMonthRestricted) {
+    parts.push(`on the ${joinWords(schedule.daysOfMonth.map(ordinal))} of the month`);
+  }
+
+  if (schedule.dayOfWeekRestricted) {
+    const weekdays = schedule.daysOfWeek.map((weekday) => WEEKDAY_LABELS[weekday]);
+    const nth = schedule.nthWeekdays.map(
+      (entry) => `the ${ordinal(entry.nth)} ${WEEKDAY_LABELS[entry.weekday]}`
+    );
+    if (weekdays.length > 0) parts.push(`on ${joinWords(weekdays)}`);
+    if (nth.length > 0) parts.push(`on ${joinWords(nth)} of the month`);
+  }
+
+  let text = parts.join(' or ');
+
+  if (!isFullRange(schedule.months, 1, 12)) {
+    text += `${text ? ' ' : ''}in ${joinWords(schedule.months.map((month) => MONTH_LABELS[month - 1]))}`;
+  }
+
+  return text;
+}
+
+/**
+ * Plain-English summary, e.g. "At 19:00 on the 1st and 3rd Tuesday of the month"
+ */
+export function describeCronExpression(expression: string | CronSchedule): string {
+  const schedule = toSchedule(expression);
+  const days = describeDays(schedule);
+  return days ? `${describeTime(schedule)} ${days}` : describeTime(schedule);
+}
@@ -0,0 +1,216 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  encryptSecret,
+  decryptSecret,
+  isEncryptedSecret,
+  needsReencryption,
+  reencryptSecret,
+  getKeyId,
+  encryptToken,
+  decryptToken,
+  reencryptUserTokens,
+  type EncryptionKeyring,
+} from './crypto.js';
+
+const OLD_KEY = '1'.repeat(64);
+const CURRENT_KEY = '2'.repeat(64);
+
+const keyring: EncryptionKeyring = { current: CURRENT_KEY, previous: [OLD_KEY] };
+const oldKeyring: EncryptionKeyring = { current: OLD_KEY, previous: [] };
+
+describe('crypto', () => {
+  describe('encryptSecret / decryptSecret', () => {
+    it('should round-trip a secret', () => {
+      const encrypted = encryptSecret('da-access-token', keyring);
+
+      expect(isEncryptedSecret(encrypted)).toBe(true);
+      expect(encrypted).not.toContain('da-access-token');
+      expect(decryptSecret(encrypted, keyring)).toBe('da-access-token');
+    });
+
+    it('should tag ciphertext with the current key id', () => {
+      const encrypted = encryptSecret('token', keyring);
+
+      expect(encrypted.startsWith(`enc:v1:${getKeyId(CURRENT_KEY)}:`)).toBe(true);
+    });
+
+    it('should produce different ciphertext for the same input', () => {
+      expect(encryptSecret('token', keyring)).not.toBe(encryptSecret('token', keyring));
+    });
+
+    it('should pass plaintext values through unchanged', () => {
+      expect(decryptSecret('legacy-plaintext-token', keyring)).toBe('legacy-plaintext-token');
+    });
+
+    it('should decrypt values wrapped with a previous key', () => {
+      const encrypted = encryptSecret('token', oldKeyring);
+
+      expect(decryptSecret(encrypted, keyring)).toBe('token');
+    });
+
+    it('should throw when the wrapping key is unknown', () => {
+      const encrypted = encryptSecret('token', oldKeyring);
+
+      expect(() => decryptSecret(encrypted, { current: CURRENT_KEY, previous: [] })).toThrow(
+        'No encryption key available'
+      );
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const encrypted = encryptSecret('token', keyring);
+      const tampered = encrypted.slice(0, -2) + (encrypted.endsWith('A') ? 'BB' : 'AA');
+
+      expect(() => decryptSecret(tampered, keyring)).toThrow();
+    });
+
+    it('should reject keys that are not 64 hex characters', () => {
+      expect(() => encryptSecret('token', { current: 'short', previous: [] })).toThrow(
+        'Encryption key must be 64 hex characters'
+      );
+    });
+  });
+
+  describe('needsReencryption / reencryptSecret', () => {
+    it('should flag plaintext and retired-key values', () => {
+      expect(needsReencryption('plaintext', keyring)).toBe(true);
+      expect(needsReencryption(encryptSecret('token', oldKeyring), keyring)).toBe(true);
+      expect(needsReencryption(encryptSecret('token', keyring), keyring)).toBe(false);
+    });
+
+    it('should re-wrap a retired-key value without changing the payload', () => {
+      const encrypted = encryptSecret('token', oldKeyring);
+      const rotated = reencryptSecret(encrypted, keyring);
+
+      expect(needsReencryption(rotated, keyring)).toBe(false);
+      expect(rotated.split(':').pop()).toBe(encrypted.split(':').pop());
+      expect(decryptSecret(rotated, { current: CURRENT_KEY, previous: [] })).toBe('token');
+    });
+
+    it('should encrypt plaintext values', () => {
+      const rotated = reencryptSecret('plaintext', keyring);
+
+      expect(isEncryptedSecret(rotated)).toBe(true);
+      expect(decryptSecret(rotated, keyring)).toBe('plaintext');
+    });
+
+    it('should leave current-key values untouched', () => {
+      const encrypted = encryptSecret('token', keyring);
+
+      expect(reencryptSecret(encrypted, keyring)).toBe(encrypted);
+    });
+  });
+
+  describe('encryptToken / decryptToken', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      process.env.ENCRYPTION_KEY = CURRENT_KEY;
+      process.env.ENCRYPTION_KEY_PREVIOUS = OLD_KEY;
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should use ENCRYPTION_KEY from the environment', () => {
+      const encrypted = encryptToken('token');
+
+      expect(decryptSecret(encrypted, { current: CURRENT_KEY, previous: [] })).toBe('token');
+      expect(decryptToken(encrypted)).toBe('token');
+    });
+
+    it('should accept tokens wrapped with ENCRYPTION_KEY_PREVIOUS', () => {
+      expect(decryptToken(encryptSecret('token', oldKeyring))).toBe('token');
+    });
+  });
+
+  describe('reencryptUserTokens', () => {
+    it('should migrate plaintext and retired-key rows in batches', async () => {
+      const rows = [
+        { id: 'a', accessToken: 'plain-access', refreshToken: 'plain-refresh' },
+        {
+          id: 'b',
+          accessToken: encryptSecret('old-access', oldKeyring),
+          refreshToken: encryptSecret('old-refresh', oldKeyring),
+        },
+        {
+          id: 'c',
+          accessToken: encryptSecret('current-access', keyring),
+          refreshToken: encryptSecret('current-refresh', keyring),
+        },
+      ];
+      const findMany = vi
+        .fn()
+        .mockResolvedValueOnce(rows.slice(0, 2))
+        .mockResolvedValueOnce(rows.slice(2));
+      const updateMany = vi.fn().mockResolvedValue({ count: 1 });
+
+      const result = await reencryptUserTokens({ user: { findMany, updateMany } }, keyring, 2);
+
+      expect(result).toEqual({ scanned: 3, updated: 2, skipped: 0 });
+      expect(findMany).toHaveBeenCalledTimes(2);
+      expect(findMany.mock.calls[1][0]).toMatchObject({ skip: 1, cursor: { id: 'b' } });
+      expect(updateMany).toHaveBeenCalledTimes(2);
+
+      const migratedA = updateMany.mock.calls[0][0];
+      // Only written if the tokens are still the ones read
+      expect(migratedA.where).toEqual({
+        id: 'a',
+        accessToken: 'plain-access',
+        refreshToken: 'plain-refresh',
+      });
+      expect(decryptSecret(migratedA.data.accessToken, keyring)).toBe('plain-access');
+      expect(needsReencryption(migratedA.data.refreshToken, keyring)).toBe(false);
+
+      const migratedB = updateMany.mock.calls[1][0];
+      expect(decryptSecret(migratedB.data.refreshToken, keyring)).toBe('old-refresh');
+    });
+
+    it('should do nothing when every row is current', async () => {
+      const findMany = vi.fn().mockResolvedValueOnce([
+        {
+          id: 'a',
+          accessToken: encryptSecret('access', keyring),
+          refreshToken: encryptSecret('refresh', keyring),
+        },
+      ]);
+      const updateMany = vi.fn();
+
+      const result = await reencryptUserTokens({ user: { findMany, updateMany } }, keyring);
+
+      expect(result).toEqual({ scanned: 1, updated: 0, skipped: 0 });
+      expect(updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip a row whose tokens were refreshed after the read', async () => {
+      const findMany = vi
+        .fn()
+        .mockResolvedValueOnce([
+          { id: 'a', accessToken: 'plain-access', refreshToken: 'plain-refresh' },
+        ]);
+      // refreshTokenIfNeeded wrote new tokens, the compare in where no longer matches
+      const updateMany = vi.fn().mockResolvedValue({ count: 0 });
+
+      const result = await reencryptUserTokens({ user: { findMany, updateMany } }, keyring);
+
+      expect(result).toEqual({ scanned: 1, updated: 0, skipped: 1 });
+    });
+  });
+});
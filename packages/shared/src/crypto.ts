@@ -0,0 +1,278 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Envelope encryption for secrets stored at rest (DeviantArt OAuth tokens).
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM). The data
+ * key is then wrapped with the instance key-encryption key (ENCRYPTION_KEY).
+ * Rotating ENCRYPTION_KEY only requires re-wrapping the data keys, which is what
+ * reencryptSecret() does for values wrapped with a retired key.
+ *
+ * Stored format: enc:v1:{keyId}:{wrappedDataKey}:{payload}
+ * - keyId: first 8 hex chars of sha256(key), identifies the wrapping key
+ * - wrappedDataKey / payload: base64url(iv | authTag | ciphertext)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getEncryptionConfig } from './config.js';
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Current key used for new encryptions plus retired keys still accepted for decryption
+ */
+export interface EncryptionKeyring {
+  current: string;
+  previous: string[];
+}
+
+interface ParsedEnvelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  payload: Buffer;
+}
+
+function parseKey(hexKey: string): Buffer {
+  if (!/^[0-9a-fA-F]{64}$/.test(hexKey)) {
+    throw new Error('Encryption key must be 64 hex characters (32 bytes)');
+  }
+  return Buffer.from(hexKey, 'hex');
+}
+
+/**
+ * Short, non-reversible identifier for an encryption key
+ */
+export function getKeyId(hexKey: string): string {
+  return createHash('sha256').update(parseKey(hexKey)).digest('hex').slice(0, 8);
+}
+
+function seal(plaintext: Buffer, key: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(sealed: Buffer, key: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const authTag = sealed.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function parseEnvelope(value: string): ParsedEnvelope {
+  const [keyId, wrappedKey, payload] = value.slice(ENVELOPE_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !payload) {
+    throw new Error('Malformed encrypted value');
+  }
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64url'),
+    payload: Buffer.from(payload, 'base64url'),
+  };
+}
+
+function formatEnvelope(keyId: string, wrappedKey: Buffer, payload: Buffer): string {
+  return `${ENVELOPE_PREFIX}${keyId}:${wrappedKey.toString('base64url')}:${payload.toString('base64url')}`;
+}
+
+function findKey(keyId: string, keyring: EncryptionKeyring): Buffer {
+  for (const hexKey of [keyring.current, ...keyring.previous]) {
+    if (getKeyId(hexKey) === keyId) {
+      return parseKey(hexKey);
+    }
+  }
+  throw new Error(`No encryption key available for key id ${keyId}`);
+}
+
+/**
+ * Check whether a stored value is in the envelope format
+ */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt a secret with a fresh data key wrapped by the current key
+ */
+export function encryptSecret(plaintext: string, keyring: EncryptionKeyring): string {
+  const kek = parseKey(keyring.current);
+  const dataKey = randomBytes(KEY_LENGTH);
+  const payload = seal(Buffer.from(plaintext, 'utf8'), dataKey);
+  const wrappedKey = seal(dataKey, kek);
+  return formatEnvelope(getKeyId(keyring.current), wrappedKey, payload);
+}
+
+/**
+ * Decrypt a secret. Values written before encryption was enabled are returned
+ * unchanged so existing rows keep working until they are migrated.
+ */
+export function decryptSecret(value: string, keyring: EncryptionKeyring): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  const envelope = parseEnvelope(value);
+  const dataKey = open(envelope.wrappedKey, findKey(envelope.keyId, keyring));
+  return open(envelope.payload, dataKey).toString('utf8');
+}
+
+/**
+ * True when a value is plaintext or wrapped with a key other than the current one
+ */
+export function needsReencryption(value: string, keyring: EncryptionKeyring): boolean {
+  if (!isEncryptedSecret(value)) {
+    return true;
+  }
+  return parseEnvelope(value).keyId !== getKeyId(keyring.current);
+}
+
+/**
+ * Bring a value up to date with the current key.
+ * Plaintext is encrypted; envelopes from retired keys only get their data key re-wrapped.
+ */
+export function reencryptSecret(value: string, keyring: EncryptionKeyring): string {
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(value, keyring);
+  }
+  const envelope = parseEnvelope(value);
+  const currentKeyId = getKeyId(keyring.current);
+  if (envelope.keyId === currentKeyId) {
+    return value;
+  }
+  const dataKey = open(envelope.wrappedKey, findKey(envelope.keyId, keyring));
+  return formatEnvelope(currentKeyId, seal(dataKey, parseKey(keyring.current)), envelope.payload);
+}
+
+// ============================================
+// OAuth token helpers
+// ============================================
+
+/**
+ * Build the keyring from ENCRYPTION_KEY and ENCRYPTION_KEY_PREVIOUS
+ */
+export function getTokenKeyring(): EncryptionKeyring {
+  const config = getEncryptionConfig();
+  return {
+    current: config.key,
+    previous: config.previousKeys,
+  };
+}
+
+/**
+ * Encrypt a DeviantArt OAuth token before writing it to the database
+ */
+export function encryptToken(token: string): string {
+  return encryptSecret(token, getTokenKeyring());
+}
+
+/**
+ * Decrypt a DeviantArt OAuth token read from the database
+ */
+export function decryptToken(token: string): string {
+  return decryptSecret(token, getTokenKeyring());
+}
+
+/**
+ * Minimal Prisma surface needed to migrate user tokens
+ */
+interface TokenStore {
+  user: {
+    findMany(args: {
+      select: { id: true; accessToken: true; refreshToken: true };
+      orderBy: { id: 'asc' };
+      take: number;
+      skip?: number;
+      cursor?: { id: string };
+    }): Promise<Array<{ id: string; accessToken: string; refreshToken: string }>>;
+    updateMany(args: {
+      where: { id: string; accessToken: string; refreshToken: string };
+      data: { accessToken: string; refreshToken: string };
+    }): Promise<{ count: number }>;
+  };
+}
+
+export interface TokenReencryptionResult {
+  scanned: number;
+  updated: number;
+  // Tokens changed (refreshed) between read and write, picked up by the next run
+  skipped: number;
+}
+
+/**
+ * Encrypt plaintext tokens and re-wrap tokens encrypted with a retired key.
+ *
+ * Idempotent - rows already encrypted with the current key are left untouched,
+ * so it is safe to run on every deploy and from the token maintenance job.
+ * The write only applies if the tokens are still the ones read, so a token
+ * refresh in between is never overwritten with the old tokens.
+ */
+export async function reencryptUserTokens(
+  prisma: TokenStore,
+  keyring: EncryptionKeyring = getTokenKeyring(),
+  batchSize: number = 100
+): Promise<TokenReencryptionResult> {
+  const result: TokenReencryptionResult = { scanned: 0, updated: 0, skipped: 0 };
+  let cursor: string | undefined;
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      select: { id: true, accessToken: true, refreshToken: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const user of users) {
+      result.scanned++;
+      if (
+        needsReencryption(user.accessToken, keyring) ||
+        needsReencryption(user.refreshToken, keyring)
+      ) {
+        const { count } = await prisma.user.updateMany({
+          where: {
+            id: user.id,
+            accessToken: user.accessToken,
+            refreshToken: user.refreshToken,
+          },
+          data: {
+            accessToken: reencryptSecret(user.accessToken, keyring),
+            refreshToken: reencryptSecret(user.refreshToken, keyring),
+          },
+        });
+        if (count === 0) {
+          result.skipped++;
+        } else {
+          result.updated++;
+        }
+      }
+    }
+
+    if (users.length < batchSize) {
+      break;
+    }
+    cursor = users[users.length - 1].id;
+  }
+
+  return result;
+}
@@ -0,0 +1,180 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import {
+  DeviantArtQuota,
+  formatDeviantArtQuotaPrometheus,
+  parseRetryAfterMs,
+} from './deviantart-quota.js';
+import type { DeviantArtQuotaConfig } from './config.js';
+
+const config: DeviantArtQuotaConfig = {
+  enabled: true,
+  capacity: 8,
+  refillPerMinute: 60, // 1 token per second
+  publishReservePercent: 50, // 4 tokens for publishing only
+  rateLimitBackoffMs: 60000,
+};
+
+describe('DeviantArtQuota', () => {
+  let redis: Redis;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T12:00:00Z'), toFake: ['Date'] });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function drain(quota: DeviantArtQuota, priority: 'publish' | 'standard' | 'browse') {
+    let granted = 0;
+    while ((await quota.tryAcquire(priority)).allowed) {
+      granted++;
+    }
+    return granted;
+  }
+
+  it('should keep the publish reserve away from browse traffic', async () => {
+    const quota = new DeviantArtQuota(redis, config);
+
+    expect(await drain(quota, 'browse')).toBe(4);
+
+    const check = await quota.tryAcquire('browse');
+    expect(check).toEqual({ allowed: false, waitMs: 1000, reason: 'APP_QUOTA' });
+
+    // Standard calls may use half of the reserve, publishing the rest
+    expect(await drain(quota, 'standard')).toBe(2);
+    expect(await drain(quota, 'publish')).toBe(2);
+  });
+
+  it('should share the bucket between instances', async () => {
+    const backend = new DeviantArtQuota(redis, config);
+    const publisher = new DeviantArtQuota(redis, config);
+
+    await drain(backend, 'publish');
+
+    expect((await publisher.tryAcquire('publish')).allowed).toBe(false);
+  });
+
+  it('should refill over time', async () => {
+    const quota = new DeviantArtQuota(redis, config);
+    await drain(quota, 'publish');
+
+    vi.setSystemTime(new Date('2025-01-01T12:00:02Z'));
+
+    expect(await drain(quota, 'publish')).toBe(2);
+  });
+
+  it('should block every caller after a 429', async () => {
+    const quota = new DeviantArtQuota(redis, config);
+
+    await quota.recordRateLimited(30000);
+
+    expect(await quota.tryAcquire('publish')).toEqual({
+      allowed: false,
+      waitMs: 30000,
+      reason: 'APP_RATE_LIMITED',
+    });
+
+    // Refill starts once the block ends
+    vi.setSystemTime(new Date('2025-01-01T12:00:31Z'));
+    expect(await drain(quota, 'publish')).toBe(1);
+  });
+
+  it('should use the configured backoff without Retry-After', async () => {
+    const quota = new DeviantArtQuota(redis, config);
+
+    await quota.recordRateLimited();
+
+    const check = await quota.tryAcquire('browse');
+    expect(check.waitMs).toBe(60000);
+  });
+
+  it('should report status and counters', async () => {
+    const quota = new DeviantArtQuota(redis, config);
+    await drain(quota, 'browse');
+    await quota.tryAcquire('publish');
+    await quota.recordRateLimited(30000);
+
+    const status = await quota.getStatus();
+
+    expect(status).toMatchObject({
+      enabled: true,
+      capacity: 8,
+      publishReserve: 4,
+      tokens: 0,
+      rateLimitedUntil: new Date('2025-01-01T12:00:30Z'),
+      lastRateLimitAt: new Date('2025-01-01T12:00:00Z'),
+      rateLimitHits: 1,
+      requests: {
+        publish: { granted: 1, denied: 0 },
+        standard: { granted: 0, denied: 0 },
+        browse: { granted: 4, denied: 1 },
+      },
+    });
+
+    const prometheus = formatDeviantArtQuotaPrometheus(status);
+    expect(prometheus).toContain('deviantart_quota_rate_limited 1');
+    expect(prometheus).toContain(
+      'deviantart_quota_requests_total{priority="browse",result="denied"} 1'
+    );
+  });
+
+  it('should allow everything when disabled or without Redis', async () => {
+    const disabled = new DeviantArtQuota(redis, { ...config, enabled: false });
+    const noRedis = new DeviantArtQuota(null, config);
+
+    for (let i = 0; i < 10; i++) {
+      expect((await disabled.tryAcquire('browse')).allowed).toBe(true);
+      expect((await noRedis.tryAcquire('browse')).allowed).toBe(true);
+    }
+  });
+
+  it('should fail open when Redis fails', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    redis.eval = vi.fn().mockRejectedValue(new Error('Connection lost')) as any;
+    const quota = new DeviantArtQuota(redis, config);
+
+    expect(await quota.tryAcquire('browse')).toEqual({ allowed: true });
+    expect(consoleErrorSpy).toHaveBeenCalled();
+  });
+});
+
+describe('parseRetryAfterMs', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfterMs('120')).toBe(120000);
+  });
+
+  it('should parse HTTP dates', () => {
+    vi.useFakeTimers({ now: new Date('2015-10-21T07:27:00Z'), toFake: ['Date'] });
+    expect(parseRetryAfterMs('Wed, 21 Oct 2015 07:28:00 GMT')).toBe(60000);
+    vi.useRealTimers();
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfterMs(null)).toBeUndefined();
+    expect(parseRetryAfterMs('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,358 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * App-wide DeviantArt quota.
+ *
+ * DeviantArt throttles per client application as well as per user, so on a multi-user
+ * instance a 429 for one user predicts 429s for everyone. Every DeviantArt call (browse,
+ * galleries, metadata enrichment and publishing) takes a token from one bucket in Redis
+ * shared by the backend and all publisher workers:
+ * - The bucket refills at a steady rate up to its capacity
+ * - A share of the bucket is reserved for publishing; browse traffic can't dip into it
+ *   and other interactive calls only into half of it
+ * - Any 429 empties the bucket and blocks every caller for Retry-After (or the
+ *   configured backoff)
+ *
+ * Redis errors fail open - a Redis hiccup shouldn't stop every DeviantArt call.
+ */
+
+import type { Redis } from 'ioredis';
+import { getDeviantArtQuotaConfig, type DeviantArtQuotaConfig } from './config.js';
+
+/**
+ * Who is asking, highest priority first
+ * - publish: publisher jobs (publish, first comment, post-publish actions)
+ * - standard: user-initiated management calls (galleries)
+ * - browse: browse pages and metadata enrichment
+ */
+export type DeviantArtQuotaPriority = 'publish' | 'standard' | 'browse';
+
+export const DEVIANTART_QUOTA_PRIORITIES: DeviantArtQuotaPriority[] = [
+  'publish',
+  'standard',
+  'browse',
+];
+
+export interface DeviantArtQuotaCheck {
+  allowed: boolean;
+  waitMs?: number;
+  reason?: 'APP_QUOTA' | 'APP_RATE_LIMITED';
+}
+
+export interface DeviantArtQuotaStatus {
+  enabled: boolean;
+  capacity: number;
+  refillPerMinute: number;
+  publishReserve: number; // Tokens only publishing may use
+  tokens: number | null; // null when Redis is unavailable
+  rateLimitedUntil: Date | null;
+  lastRateLimitAt: Date | null;
+  rateLimitHits: number;
+  requests: Record<DeviantArtQuotaPriority, { granted: number; denied: number }>;
+}
+
+const BUCKET_KEY = 'da_quota:bucket';
+const STATS_KEY = 'da_quota:stats';
+
+/**
+ * Lua script for atomic token acquisition
+ *
+ * KEYS[1] = bucket hash
+ * KEYS[2] = stats hash
+ * ARGV[1] = capacity
+ * ARGV[2] = refill rate in tokens per ms
+ * ARGV[3] = tokens that must remain after taking one (priority reserve)
+ * ARGV[4] = current timestamp
+ * ARGV[5] = priority
+ *
+ * Returns {allowed, waitMs, reason}
+ */
+const ACQUIRE_SCRIPT = `
+  local capacity = tonumber(ARGV[1])
+  local refillPerMs = tonumber(ARGV[2])
+  local reserve = tonumber(ARGV[3])
+  local now = tonumber(ARGV[4])
+  local priority = ARGV[5]
+
+  local fields = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt', 'rateLimitedUntil')
+  local tokens = tonumber(fields[1]) or capacity
+  local updatedAt = tonumber(fields[2]) or now
+  local rateLimitedUntil = tonumber(fields[3]) or 0
+
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+  local allowed = 0
+  local waitMs = 0
+  local reason = ''
+
+  if rateLimitedUntil > now then
+    -- Bucket stays empty until the block ends
+    redis.call('HINCRBY', KEYS[2], priority .. ':denied', 1)
+    return {0, rateLimitedUntil - now, 'APP_RATE_LIMITED'}
+  elseif tokens - 1 >= reserve then
+    tokens = tokens - 1
+    allowed = 1
+  else
+    waitMs = math.ceil((reserve + 1 - tokens) / refillPerMs)
+    reason = 'APP_QUOTA'
+  end
+
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+  if allowed == 1 then
+    redis.call('HINCRBY', KEYS[2], priority .. ':granted', 1)
+  else
+    redis.call('HINCRBY', KEYS[2], priority .. ':denied', 1)
+  end
+
+  return {allowed, waitMs, reason}
+`;
+
+/**
+ * Lua script for recording a DeviantArt 429
+ *
+ * KEYS[1] = bucket hash
+ * KEYS[2] = stats hash
+ * ARGV[1] = current timestamp
+ * ARGV[2] = time to block all callers until
+ */
+const RATE_LIMITED_SCRIPT = `
+  local now = tonumber(ARGV[1])
+  local blockUntil = tonumber(ARGV[2])
+  local current = tonumber(redis.call('HGET', KEYS[1], 'rateLimitedUntil')) or 0
+
+  redis.call('HSET', KEYS[1],
+    'tokens', '0',
+    'updatedAt', math.max(now, blockUntil),
+    'rateLimitedUntil', math.max(current, blockUntil))
+  redis.call('HINCRBY', KEYS[2], 'rateLimitHits', 1)
+  redis.call('HSET', KEYS[2], 'lastRateLimitAt', now)
+  return 1
+`;
+
+/**
+ * App-wide DeviantArt quota tracker
+ */
+export class DeviantArtQuota {
+  private redis: Redis | null;
+  private config: DeviantArtQuotaConfig;
+
+  constructor(redis: Redis | null, config: DeviantArtQuotaConfig = getDeviantArtQuotaConfig()) {
+    this.redis = redis;
+    this.config = config;
+  }
+
+  /**
+   * Take a token for one DeviantArt call
+   *
+   * When denied, `waitMs` is how long until a token is available for this priority
+   * (or until the app-wide rate limit ends).
+   */
+  async tryAcquire(priority: DeviantArtQuotaPriority): Promise<DeviantArtQuotaCheck> {
+    if (!this.redis || !this.config.enabled) {
+      return { allowed: true };
+    }
+
+    try {
+      const [allowed, waitMs, reason] = (await this.redis.eval(
+        ACQUIRE_SCRIPT,
+        2,
+        BUCKET_KEY,
+        STATS_KEY,
+        this.config.capacity.toString(),
+        (this.config.refillPerMinute / 60000).toString(),
+        this.getReserve(priority).toString(),
+        Date.now().toString(),
+        priority
+      )) as [number, number, string];
+
+      if (Number(allowed) === 1) {
+        return { allowed: true };
+      }
+
+      return {
+        allowed: false,
+        waitMs: Math.max(0, Number(waitMs)),
+        reason: reason as DeviantArtQuotaCheck['reason'],
+      };
+    } catch (error) {
+      console.error('[DeviantArtQuota] Error acquiring token:', error);
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Record a 429 from DeviantArt - blocks every caller on every process
+   *
+   * @param retryAfterMs - Parsed Retry-After, falls back to the configured backoff
+   */
+  async recordRateLimited(retryAfterMs?: number): Promise<void> {
+    if (!this.redis || !this.config.enabled) return;
+
+    const now = Date.now();
+    const backoffMs =
+      retryAfterMs && retryAfterMs > 0 ? retryAfterMs : this.config.rateLimitBackoffMs;
+
+    try {
+      await this.redis.eval(
+        RATE_LIMITED_SCRIPT,
+        2,
+        BUCKET_KEY,
+        STATS_KEY,
+        now.toString(),
+        (now + backoffMs).toString()
+      );
+      console.warn(
+        `[DeviantArtQuota] DeviantArt rate limited the app, pausing all calls for ${Math.round(backoffMs / 1000)}s`
+      );
+    } catch (error) {
+      console.error('[DeviantArtQuota] Error recording rate limit:', error);
+    }
+  }
+
+  /**
+   * Current bucket state and counters (for monitoring)
+   */
+  async getStatus(): Promise<DeviantArtQuotaStatus> {
+    const status: DeviantArtQuotaStatus = {
+      enabled: this.config.enabled,
+      capacity: this.config.capacity,
+      refillPerMinute: this.config.refillPerMinute,
+      publishReserve: this.getReserve('browse'),
+      tokens: null,
+      rateLimitedUntil: null,
+      lastRateLimitAt: null,
+      rateLimitHits: 0,
+      requests: {
+        publish: { granted: 0, denied: 0 },
+        standard: { granted: 0, denied: 0 },
+        browse: { granted: 0, denied: 0 },
+      },
+    };
+
+    if (!this.redis) return status;
+
+    try {
+      const [bucket, stats] = await Promise.all([
+        this.redis.hgetall(BUCKET_KEY),
+        this.redis.hgetall(STATS_KEY),
+      ]);
+      const now = Date.now();
+
+      // Apply the refill since the last update without writing it back
+      if (bucket.tokens !== undefined) {
+        const elapsed = Math.max(0, now - Number(bucket.updatedAt));
+        status.tokens = Math.min(
+          this.config.capacity,
+          Number(bucket.tokens) + elapsed * (this.config.refillPerMinute / 60000)
+        );
+      } else {
+        status.tokens = this.config.capacity;
+      }
+      status.tokens = Math.floor(status.tokens);
+
+      const rateLimitedUntil = Number(bucket.rateLimitedUntil || 0);
+      status.rateLimitedUntil = rateLimitedUntil > now ? new Date(rateLimitedUntil) : null;
+      status.lastRateLimitAt = stats.lastRateLimitAt
+        ? new Date(Number(stats.lastRateLimitAt))
+        : null;
+      status.rateLimitHits = Number(stats.rateLimitHits || 0);
+
+      for (const priority of DEVIANTART_QUOTA_PRIORITIES) {
+        status.requests[priority] = {
+          granted: Number(stats[`${priority}:granted`] || 0),
+          denied: Number(stats[`${priority}:denied`] || 0),
+        };
+      }
+    } catch (error) {
+      console.error('[DeviantArtQuota] Error reading status:', error);
+    }
+
+    return status;
+  }
+
+  /**
+   * Tokens that must be left in the bucket after a call of this priority
+   */
+  private getReserve(priority: DeviantArtQuotaPriority): number {
+    const reserve = Math.floor((this.config.capacity * this.config.publishReservePercent) / 100);
+    switch (priority) {
+      case 'publish':
+        return 0;
+      case 'standard':
+        return Math.floor(reserve / 2);
+      case 'browse':
+        return reserve;
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfterMs(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = parseInt(header, 10);
+  if (!isNaN(seconds) && seconds > 0) {
+    return seconds * 1000;
+  }
+
+  const date = new Date(header);
+  if (!isNaN(date.getTime())) {
+    return Math.max(0, date.getTime() - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Export quota state in Prometheus format
+ */
+export function formatDeviantArtQuotaPrometheus(status: DeviantArtQuotaStatus): string {
+  const lines: string[] = [];
+
+  lines.push('# HELP deviantart_quota_tokens Tokens left in the app-wide DeviantArt bucket');
+  lines.push('# TYPE deviantart_quota_tokens gauge');
+  lines.push(`deviantart_quota_tokens ${status.tokens ?? 0}`);
+
+  lines.push('# HELP deviantart_quota_capacity Capacity of the app-wide DeviantArt bucket');
+  lines.push('# TYPE deviantart_quota_capacity gauge');
+  lines.push(`deviantart_quota_capacity ${status.capacity}`);
+
+  lines.push(
+    '# HELP deviantart_quota_rate_limited Whether all DeviantArt calls are paused after a 429'
+  );
+  lines.push('# TYPE deviantart_quota_rate_limited gauge');
+  lines.push(`deviantart_quota_rate_limited ${status.rateLimitedUntil ? 1 : 0}`);
+
+  lines.push('# HELP deviantart_quota_rate_limit_hits_total DeviantArt 429 responses');
+  lines.push('# TYPE deviantart_quota_rate_limit_hits_total counter');
+  lines.push(`deviantart_quota_rate_limit_hits_total ${status.rateLimitHits}`);
+
+  lines.push('# HELP deviantart_quota_requests_total Token requests by priority and result');
+  lines.push('# TYPE deviantart_quota_requests_total counter');
+  for (const priority of DEVIANTART_QUOTA_PRIORITIES) {
+    const { granted, denied } = status.requests[priority];
+    lines.push(
+      `deviantart_quota_requests_total{priority="${priority}",result="granted"} ${granted}`
+    );
+    lines.push(`deviantart_quota_requests_total{priority="${priority}",result="denied"} ${denied}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
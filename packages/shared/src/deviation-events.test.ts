@@ -0,0 +1,114 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recordDeviationEvent, recordDeviationEvents } from './deviation-events.js';
+
+describe('deviation-events', () => {
+  let prisma: any;
+
+  beforeEach(() => {
+    prisma = {
+      deviationEvent: {
+        createMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+  });
+
+  describe('recordDeviationEvent', () => {
+    it('should write the transition, actor and metadata', async () => {
+      await recordDeviationEvent(prisma, {
+        deviationId: 'dev-1',
+        type: 'scheduled',
+        actor: { type: 'automation', id: 'auto-1' },
+        fromStatus: 'draft',
+        toStatus: 'scheduled',
+        metadata: { actualPublishAt: new Date('2025-01-01T03:00:00Z'), skipped: undefined },
+      });
+
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            deviationId: 'dev-1',
+            type: 'scheduled',
+            fromStatus: 'draft',
+            toStatus: 'scheduled',
+            actorType: 'automation',
+            actorId: 'auto-1',
+            metadata: { actualPublishAt: '2025-01-01T03:00:00.000Z' },
+          },
+        ],
+      });
+    });
+
+    it('should default optional fields to null', async () => {
+      await recordDeviationEvent(prisma, {
+        deviationId: 'dev-1',
+        type: 'lock_released',
+        actor: { type: 'recovery' },
+      });
+
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            fromStatus: null,
+            toStatus: null,
+            actorId: null,
+            metadata: undefined,
+          }),
+        ],
+      });
+    });
+
+    it('should swallow database errors', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      prisma.deviationEvent.createMany.mockRejectedValueOnce(new Error('DB down'));
+
+      await expect(
+        recordDeviationEvent(prisma, {
+          deviationId: 'dev-1',
+          type: 'published',
+          actor: { type: 'publisher', id: 'job-1' },
+        })
+      ).resolves.toBeUndefined();
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '[Deviation Events] Failed to record events:',
+        expect.any(Error)
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('recordDeviationEvents', () => {
+    it('should insert all events in one call', async () => {
+      await recordDeviationEvents(prisma, [
+        { deviationId: 'dev-1', type: 'approved', actor: { type: 'user', id: 'user-1' } },
+        { deviationId: 'dev-2', type: 'approved', actor: { type: 'user', id: 'user-1' } },
+      ]);
+
+      expect(prisma.deviationEvent.createMany).toHaveBeenCalledTimes(1);
+      expect(prisma.deviationEvent.createMany.mock.calls[0][0].data).toHaveLength(2);
+    });
+
+    it('should skip the insert when there are no events', async () => {
+      await recordDeviationEvents(prisma, []);
+
+      expect(prisma.deviationEvent.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Deviation lifecycle event timeline.
+ *
+ * Every status transition (review -> draft -> scheduled -> published / back to draft)
+ * is recorded with the actor that caused it, so the history of a deviation can be
+ * reconstructed without digging through logs.
+ *
+ * Recording is best-effort: a failed insert is logged and never breaks the
+ * transition that triggered it.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { DeviationStatus } from './index.js';
+
+export const DeviationEventType = {
+  CREATED: 'created',
+  APPROVED: 'approved',
+  SCHEDULED: 'scheduled',
+  RESCHEDULED: 'rescheduled',
+  UNSCHEDULED: 'unscheduled',
+  SCHEDULE_FAILED: 'schedule_failed',
+  PUBLISH_QUEUED: 'publish_queued',
+  PUBLISHED: 'published',
+  RETRY_SCHEDULED: 'retry_scheduled',
+  FAILED: 'failed',
+  REPLAYED: 'replayed',
+  RECOVERED: 'recovered',
+  LOCK_RELEASED: 'lock_released',
+  COMMENT_POSTED: 'comment_posted',
+  COMMENT_FAILED: 'comment_failed',
+  POST_PUBLISH_ACTION_COMPLETED: 'post_publish_action_completed',
+  POST_PUBLISH_ACTION_FAILED: 'post_publish_action_failed',
+} as const;
+export type DeviationEventType = (typeof DeviationEventType)[keyof typeof DeviationEventType];
+
+export type DeviationEventActorType = 'user' | 'api_key' | 'automation' | 'recovery' | 'publisher';
+
+/**
+ * Who caused a transition
+ *
+ * id is the user, API key or automation ID; recovery and publisher actors
+ * use the job name or BullMQ job ID.
+ */
+export interface DeviationEventActor {
+  type: DeviationEventActorType;
+  id?: string | null;
+}
+
+export interface DeviationEventInput {
+  deviationId: string;
+  type: DeviationEventType;
+  actor: DeviationEventActor;
+  fromStatus?: DeviationStatus | null;
+  toStatus?: DeviationStatus | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Minimal Prisma surface needed to write events (works with transaction clients too)
+ */
+interface DeviationEventStore {
+  deviationEvent: Pick<PrismaClient['deviationEvent'], 'createMany'>;
+}
+
+/**
+ * Record a single deviation lifecycle event
+ */
+export async function recordDeviationEvent(
+  prisma: DeviationEventStore,
+  event: DeviationEventInput
+): Promise<void> {
+  await recordDeviationEvents(prisma, [event]);
+}
+
+/**
+ * Record several deviation lifecycle events in one insert
+ */
+export async function recordDeviationEvents(
+  prisma: DeviationEventStore,
+  events: DeviationEventInput[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.deviationEvent.createMany({
+      data: events.map((event) => ({
+        deviationId: event.deviationId,
+        type: event.type,
+        fromStatus: event.fromStatus ?? null,
+        toStatus: event.toStatus ?? null,
+        actorType: event.actor.type,
+        actorId: event.actor.id ?? null,
+        // Round-trip through JSON so Dates become ISO strings and undefined fields are dropped
+        metadata: event.metadata ? JSON.parse(JSON.stringify(event.metadata)) : undefined,
+      })),
+    });
+  } catch (error) {
+    console.error('[Deviation Events] Failed to record events:', error);
+  }
+}
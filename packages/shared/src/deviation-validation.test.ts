@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateDeviationForPublish,
+  formatValidationErrors,
+  sanitizeTag,
+  type ValidatableDeviation,
+} from './deviation-validation.js';
+
+describe('deviation-validation', () => {
+  const validDeviation: ValidatableDeviation = {
+    title: 'Dragon Study',
+    tags: ['dragon', 'sketch'],
+    categoryPath: 'digitalart/paintings',
+    galleryIds: ['folder-1'],
+    isMature: false,
+    matureLevel: null,
+    isAiGenerated: false,
+    noAi: false,
+    addWatermark: false,
+    displayResolution: 0,
+    files: [{ originalFilename: 'art.png', mimeType: 'image/png', fileSize: 1024 }],
+  };
+
+  function codes(deviation: Partial<ValidatableDeviation>) {
+    const result = validateDeviationForPublish({ ...validDeviation, ...deviation });
+    return {
+      errors: result.errors.map((issue) => issue.code),
+      warnings: result.warnings.map((issue) => issue.code),
+    };
+  }
+
+  it('should accept a publishable deviation', () => {
+    expect(validateDeviationForPublish(validDeviation)).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it('should reject over-long titles and too many tags', () => {
+    const tags = Array.from({ length: 31 }, (_, i) => `tag${i}`);
+
+    expect(codes({ title: 'x'.repeat(51), tags }).errors).toEqual([
+      'title_too_long',
+      'too_many_tags',
+    ]);
+  });
+
+  it('should warn about tags changed by sanitizing', () => {
+    const result = codes({ tags: ['fan art', 'fan_art', 'c++'] });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(['tags_sanitized', 'duplicate_tags']);
+  });
+
+  it('should reject invalid category paths', () => {
+    expect(codes({ categoryPath: 'Digital Art/../x' }).errors).toEqual(['invalid_category_path']);
+  });
+
+  it('should reject conflicting AI flags', () => {
+    expect(codes({ isAiGenerated: true, noAi: true }).errors).toEqual(['ai_flags_conflict']);
+  });
+
+  it('should require a mature level for mature deviations', () => {
+    expect(codes({ isMature: true }).errors).toEqual(['mature_level_required']);
+    expect(codes({ isMature: false, matureLevel: 'strict' }).warnings).toEqual([
+      'mature_level_ignored',
+    ]);
+  });
+
+  it('should require a display resolution for watermarks', () => {
+    expect(codes({ addWatermark: true, displayResolution: 0 }).errors).toEqual([
+      'watermark_requires_resolution',
+    ]);
+    expect(codes({ addWatermark: true, displayResolution: 8 }).errors).toEqual([]);
+  });
+
+  it('should reject missing files and unsupported mime types', () => {
+    expect(codes({ files: [] }).errors).toEqual(['files_required']);
+    expect(
+      codes({
+        files: [
+          { originalFilename: 'art.psd', mimeType: 'image/vnd.adobe.photoshop', fileSize: 1 },
+        ],
+      }).errors
+    ).toEqual(['unsupported_mime_type']);
+  });
+
+  it('should join error messages', () => {
+    const result = validateDeviationForPublish({ ...validDeviation, title: '', files: [] });
+
+    expect(formatValidationErrors(result)).toBe(
+      'Title is required; Deviation must have at least one file'
+    );
+  });
+
+  it('should sanitize tags the way the publisher does', () => {
+    expect(sanitizeTag('fan art!')).toBe('fan_art');
+  });
+});
@@ -0,0 +1,201 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Pre-publish validation.
+ *
+ * Checks a deviation against the rules the publisher and DeviantArt depend on, so
+ * problems are reported when scheduling instead of surfacing hours later as a failed
+ * job. Errors block scheduling; warnings describe values that will be changed or
+ * ignored on publish.
+ */
+
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZE } from './storage/config.js';
+
+// DeviantArt limits
+export const MAX_TITLE_LENGTH = 50;
+export const MAX_TAGS = 30;
+export const MAX_GALLERY_FOLDERS = 10;
+
+// Category paths are slash-separated slugs, e.g. "digitalart/paintings/fantasy"
+const CATEGORY_PATH_PATTERN = /^[a-z0-9_]+(\/[a-z0-9_]+)*$/;
+
+export interface ValidationIssue {
+  field: string;
+  code: string;
+  message: string;
+}
+
+export interface DeviationValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Fields read by the validator. Accepts Prisma deviations (with files) and API shapes.
+ */
+export interface ValidatableDeviation {
+  title: string;
+  tags?: string[] | null;
+  categoryPath?: string | null;
+  galleryIds?: string[] | null;
+  isMature?: boolean | null;
+  matureLevel?: string | null;
+  isAiGenerated?: boolean | null;
+  noAi?: boolean | null;
+  addWatermark?: boolean | null;
+  displayResolution?: number | null;
+  files?: Array<{ originalFilename: string; mimeType: string; fileSize: number }> | null;
+}
+
+/**
+ * Tag as sent to DeviantArt: spaces become underscores, anything else
+ * outside letters, numbers and underscores is dropped
+ */
+export function sanitizeTag(tag: string): string {
+  return tag.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, '');
+}
+
+/**
+ * Validate a deviation before it is scheduled or published
+ *
+ * @param deviation - Deviation with its files
+ * @returns Errors that block publishing and warnings about adjusted values
+ */
+export function validateDeviationForPublish(
+  deviation: ValidatableDeviation
+): DeviationValidationResult {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  const title = deviation.title?.trim() ?? '';
+  if (!title) {
+    errors.push({ field: 'title', code: 'title_required', message: 'Title is required' });
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.push({
+      field: 'title',
+      code: 'title_too_long',
+      message: `Title must be at most ${MAX_TITLE_LENGTH} characters (has ${title.length})`,
+    });
+  }
+
+  const tags = deviation.tags ?? [];
+  const sanitizedTags = tags.map(sanitizeTag).filter((tag) => tag.length > 0);
+  if (sanitizedTags.length > MAX_TAGS) {
+    errors.push({
+      field: 'tags',
+      code: 'too_many_tags',
+      message: `At most ${MAX_TAGS} tags are allowed (has ${sanitizedTags.length})`,
+    });
+  }
+  const changedTags = tags.filter((tag) => sanitizeTag(tag) !== tag);
+  if (changedTags.length > 0) {
+    warnings.push({
+      field: 'tags',
+      code: 'tags_sanitized',
+      message: `Tags will be sanitized or dropped on publish: ${changedTags.join(', ')}`,
+    });
+  }
+  if (new Set(sanitizedTags.map((tag) => tag.toLowerCase())).size < sanitizedTags.length) {
+    warnings.push({
+      field: 'tags',
+      code: 'duplicate_tags',
+      message: 'Some tags are duplicates after sanitizing',
+    });
+  }
+
+  if (deviation.categoryPath && !CATEGORY_PATH_PATTERN.test(deviation.categoryPath)) {
+    errors.push({
+      field: 'categoryPath',
+      code: 'invalid_category_path',
+      message: `Invalid category path "${deviation.categoryPath}"`,
+    });
+  }
+
+  if ((deviation.galleryIds?.length ?? 0) > MAX_GALLERY_FOLDERS) {
+    errors.push({
+      field: 'galleryIds',
+      code: 'too_many_galleries',
+      message: `At most ${MAX_GALLERY_FOLDERS} gallery folders are allowed`,
+    });
+  }
+
+  if (deviation.isMature && !deviation.matureLevel) {
+    errors.push({
+      field: 'matureLevel',
+      code: 'mature_level_required',
+      message: 'Mature deviations need a mature level (moderate or strict)',
+    });
+  } else if (!deviation.isMature && deviation.matureLevel) {
+    warnings.push({
+      field: 'matureLevel',
+      code: 'mature_level_ignored',
+      message: 'Mature level is ignored because the deviation is not marked as mature',
+    });
+  }
+
+  if (deviation.noAi && deviation.isAiGenerated) {
+    errors.push({
+      field: 'noAi',
+      code: 'ai_flags_conflict',
+      message: 'A deviation cannot be both AI-generated and marked as NoAI',
+    });
+  }
+
+  if (deviation.addWatermark && !deviation.displayResolution) {
+    errors.push({
+      field: 'displayResolution',
+      code: 'watermark_requires_resolution',
+      message: 'Watermarks require a display resolution other than original',
+    });
+  }
+
+  const files = deviation.files ?? [];
+  if (files.length === 0) {
+    errors.push({
+      field: 'files',
+      code: 'files_required',
+      message: 'Deviation must have at least one file',
+    });
+  }
+  for (const file of files) {
+    if (!ALLOWED_MIME_TYPES.includes(file.mimeType)) {
+      errors.push({
+        field: 'files',
+        code: 'unsupported_mime_type',
+        message: `${file.originalFilename} has an unsupported file type (${file.mimeType})`,
+      });
+    }
+    if (file.fileSize > MAX_FILE_SIZE) {
+      errors.push({
+        field: 'files',
+        code: 'file_too_large',
+        message: `${file.originalFilename} exceeds the ${MAX_FILE_SIZE / 1024 / 1024}MB limit`,
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Join validation errors into a single message for API and log output
+ */
+export function formatValidationErrors(result: DeviationValidationResult): string {
+  return result.errors.map((issue) => issue.message).join('; ');
+}
@@ -15,6 +15,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import type { DeviationEventType, DeviationEventActorType } from './deviation-events.js';
+import type { WebhookEvent } from './webhook-events.js';
+import type { QuietHoursWindow, PublishingPolicyReason } from './publishing-policy.js';
+import type { DraftFilter } from './automation-draft-pool.js';
+
 // ============================================
 // Enums
 // ============================================
@@ -49,6 +54,39 @@ export const TemplateType = {
 } as const;
 export type TemplateType = (typeof TemplateType)[keyof typeof TemplateType];
 
+export const CommentStatus = {
+  PENDING: 'pending',
+  POSTED: 'posted',
+  FAILED: 'failed',
+  SKIPPED: 'skipped',
+} as const;
+export type CommentStatus = (typeof CommentStatus)[keyof typeof CommentStatus];
+
+export const PostPublishActionType = {
+  UPDATE_METADATA: 'update_metadata',
+  MOVE_TO_GALLERY: 'move_to_gallery',
+  COPY_TO_GALLERY: 'copy_to_gallery',
+} as const;
+export type PostPublishActionType =
+  (typeof PostPublishActionType)[keyof typeof PostPublishActionType];
+
+export const PostPublishActionStatus = {
+  PENDING: 'pending',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+} as const;
+export type PostPublishActionStatus =
+  (typeof PostPublishActionStatus)[keyof typeof PostPublishActionStatus];
+
+export const WebhookDeliveryStatus = {
+  PENDING: 'pending',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+} as const;
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
 // ============================================
 // API Types
 // ============================================
@@ -62,6 +100,18 @@ export interface User {
   createdAt: string;
 }
 
+/**
+ * A DeviantArt account linked to the current Isekai login
+ */
+export interface LinkedAccount {
+  id: string;
+  deviantartId: string;
+  username: string;
+  avatarUrl: string | null;
+  isActive: boolean;
+  needsReauth: boolean;
+}
+
 export interface Deviation {
   id: string;
   userId: string;
@@ -87,6 +137,11 @@ export interface Deviation {
   deviationId: string | null;
   deviationUrl: string | null;
   errorMessage: string | null;
+  commentTemplateId: string | null;
+  commentStatus: CommentStatus | null;
+  commentId: string | null;
+  commentPostedAt: string | null;
+  commentError: string | null;
   retryCount: number;
   lastRetryAt: string | null;
   files: DeviationFile[];
@@ -109,6 +164,71 @@ export interface DeviationFile {
   createdAt: string;
 }
 
+export interface DeviationEvent {
+  id: string;
+  deviationId: string;
+  type: DeviationEventType;
+  fromStatus: DeviationStatus | null;
+  toStatus: DeviationStatus | null;
+  actorType: DeviationEventActorType;
+  actorId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface MetadataUpdatePayload {
+  title?: string;
+  tags?: string[];
+  description?: string;
+}
+
+export interface GalleryActionPayload {
+  targetFolderId: string;
+}
+
+export type PostPublishActionPayload = MetadataUpdatePayload | GalleryActionPayload;
+
+export interface PostPublishAction {
+  id: string;
+  deviationId: string;
+  type: PostPublishActionType;
+  payload: PostPublishActionPayload;
+  runAt: string;
+  status: PostPublishActionStatus;
+  attempts: number;
+  errorMessage: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Secrets are never returned after creation or rotation
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Gallery {
   folderId: string;
   name: string;
@@ -218,6 +338,7 @@ export interface CreateDeviationRequest {
   addWatermark?: boolean;
   displayResolution?: number;
   uploadMode?: UploadMode;
+  commentTemplateId?: string | null;
 }
 
 export interface UpdateDeviationRequest extends Partial<CreateDeviationRequest> {
@@ -276,6 +397,183 @@ export interface UpdateTemplateRequest {
   content?: TagContent | DescriptionContent | CommentContent;
 }
 
+export interface CreatePostPublishActionRequest {
+  deviationId: string;
+  type: PostPublishActionType;
+  payload: PostPublishActionPayload;
+  // Provide either an absolute runAt or a number of days after publishing
+  runAt?: string;
+  afterDays?: number;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string | null;
+  enabled?: boolean;
+}
+
+// Daily cap, minimum gap and quiet hours, evaluated in the user's timezone
+export interface PublishingPolicySettings {
+  timezone: string;
+  maxPostsPerDay: number | null;
+  minPostGapMinutes: number | null;
+  quietHours: QuietHoursWindow[];
+}
+
+export type UpdatePublishingPolicyRequest = Partial<PublishingPolicySettings>;
+
+// Dry run of an automation's upcoming runs, in publish time order
+export interface AutomationForecastResponse {
+  from: string;
+  until: string;
+  timezone: string;
+  // Pass back to get the same random picks, jitter and time_window slots
+  seed: number;
+  draftsAvailable: number;
+  draftsExhaustedAt: string | null;
+  // Low draft pool warning and auto-pause (the forecast ends at the pause)
+  poolLowAt: string | null;
+  pausedAt: string | null;
+  entries: Array<{
+    draftId: string;
+    title: string;
+    triggeredAt: string;
+    publishAt: string;
+    ruleType: string;
+    jitterSeconds: number;
+    policyReasons: PublishingPolicyReason[];
+    appliedDefaults: Record<string, unknown>;
+  }>;
+  skipped: Array<{ draftId: string; title: string; triggeredAt: string; reason: string }>;
+  // Blackout and extra days within the forecast period
+  calendar: ScheduleException[];
+}
+
+// Structured record of one auto-scheduler run (AutomationExecutionLog.trace)
+export interface AutomationExecutionTrace {
+  timezone: string;
+  // Local time and day the rules were evaluated at
+  localTime: string;
+  localDate: string;
+  // Calendar exception of the day, if any
+  dayType: 'blackout' | 'extra_day' | null;
+  rules: Array<{
+    ruleId: string;
+    type: string;
+    triggered: boolean;
+    // Why the rule fired or not, e.g. "3/5 scheduled today"
+    reason: string;
+    plannedSlots?: string[];
+  }>;
+  // Drafts the triggered rules asked for
+  requestedCount: number;
+  // Drafts in the pool the selection picked from
+  candidateCount: number;
+  // Drafts another run locked first
+  lockFailures: string[];
+  drafts: Array<{
+    draftId: string;
+    title: string;
+    ruleType: string | null;
+    status: 'scheduled' | 'failed';
+    // Set for scheduled drafts
+    appliedDefaults?: Record<string, unknown>;
+    jitterSeconds?: number;
+    actualPublishAt?: string;
+    policyReasons?: PublishingPolicyReason[];
+    error?: string;
+  }>;
+}
+
+export interface AutomationExecutionLogDetail {
+  id: string;
+  automationId: string;
+  executedAt: string;
+  scheduledCount: number;
+  errorMessage: string | null;
+  triggeredByRuleType: string | null;
+  // Null for runs logged before traces were recorded
+  trace: AutomationExecutionTrace | null;
+}
+
+// Blackout or extra posting day(s); automationId null applies to all automations
+export interface ScheduleException {
+  id: string;
+  automationId: string | null;
+  type: 'blackout' | 'extra_day';
+  // YYYY-MM-DD in the user's timezone, endDate inclusive
+  startDate: string;
+  endDate: string;
+  label: string | null;
+  createdAt: string;
+}
+
+export interface CreateScheduleExceptionRequest {
+  // Omit for all automations
+  automationId?: string | null;
+  type: 'blackout' | 'extra_day';
+  startDate: string;
+  // Omit for a single day
+  endDate?: string;
+  label?: string;
+}
+
+// Drafts left in an automation's pool (automation list)
+export interface AutomationPoolStatus {
+  eligibleDrafts: number;
+  // Estimated from the enabled rules, capped by the daily post limit
+  postsPerDay: number;
+  // null when the rules never post
+  daysRemaining: number | null;
+}
+
+// Draft explicitly added to an automation's pool
+export interface AutomationPoolDraft {
+  id: string;
+  title: string;
+  status: DeviationStatus;
+  tags: string[];
+  createdAt: string;
+  addedAt: string;
+}
+
+// Bundle format version, bumped when a change needs imports to convert older bundles
+export const AUTOMATION_BUNDLE_VERSION = 1;
+
+// Portable copy of an automation with its rules and defaults (export, import, duplicate).
+// Price presets and comment templates are referenced by name, so bundles move between accounts
+export interface AutomationBundle {
+  version: number;
+  exportedAt: string;
+  automation: {
+    name: string;
+    description?: string;
+    color: string;
+    icon?: string;
+    draftSelectionMethod: 'random' | 'fifo' | 'lifo';
+    stashOnlyByDefault: boolean;
+    jitterMinSeconds: number;
+    jitterMaxSeconds: number;
+    autoAddToSaleQueue: boolean;
+    // PricePreset name
+    saleQueuePreset: string | null;
+    draftFilter: DraftFilter | null;
+    lowPoolThreshold: number | null;
+    pauseWhenPoolEmpty: boolean;
+  };
+  // Schedule rule create requests, without automationId
+  scheduleRules: Array<{ type: string; [field: string]: unknown }>;
+  // Template name instead of ID for commentTemplateId
+  defaultValues: Array<{ fieldName: string; value: unknown; applyIfEmpty: boolean }>;
+}
+
 // ============================================
 // API Error Response
 // ============================================
@@ -392,6 +690,64 @@ export * from './storage/index.js';
 
 export * from './config.js';
 
+// ============================================
+// Encryption Module
+// ============================================
+
+export * from './crypto.js';
+
+// ============================================
+// Deviation Events Module
+// ============================================
+
+export * from './deviation-events.js';
+
+// ============================================
+// Deviation Validation Module
+// ============================================
+
+export * from './deviation-validation.js';
+
+// ============================================
+// Webhooks Module
+// ============================================
+
+export * from './webhooks.js';
+
+// ============================================
+// Publishing Policy Module
+// ============================================
+
+export * from './publishing-policy.js';
+
+// ============================================
+// Circuit Breaker Module
+// ============================================
+
+export * from './circuit-breaker.js';
+
+// ============================================
+// DeviantArt Quota Module
+// ============================================
+
+export * from './deviantart-quota.js';
+
+// ============================================
+// Cron Schedule Module
+// ============================================
+
+export * from './cron-schedule.js';
+
+// ============================================
+// Automation Rules, Triggers, Forecast, Draft Pool & Calendar Module
+// ============================================
+
+export * from './automation-rules.js';
+export * from './automation-triggers.js';
+export * from './automation-forecast.js';
+export * from './automation-draft-pool.js';
+export * from './automation-calendar.js';
+
 // ============================================
 // Database Types
 // ============================================
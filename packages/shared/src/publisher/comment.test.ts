@@ -0,0 +1,230 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { postFirstCommentJob, getCommentTemplateText } from './comment.js';
+import type { CommentPosterDependencies } from './types.js';
+
+describe('postFirstCommentJob', () => {
+  let mockPrisma: any;
+  let mockDeps: CommentPosterDependencies & Record<string, any>;
+  let mockJob: any;
+
+  const template = {
+    id: 'template-1',
+    userId: 'user-123',
+    type: 'comment',
+    name: 'Thanks',
+    content: { text: '  Thanks for looking!  ' },
+  };
+
+  const publishedDeviation = {
+    id: 'dev-123',
+    userId: 'user-123',
+    status: 'published',
+    deviationId: 'da-123',
+    commentTemplateId: 'template-1',
+    commentStatus: 'pending',
+    commentId: null,
+    user: { id: 'user-123' },
+    commentTemplate: template,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      deviation: {
+        findFirst: vi.fn(),
+        update: vi.fn(),
+      },
+      deviationEvent: {
+        createMany: vi.fn(),
+      },
+    };
+
+    mockDeps = {
+      prisma: mockPrisma,
+      logger: {
+        createJobLogger: vi.fn(() => ({
+          info: vi.fn(),
+          warn: vi.fn(),
+          error: vi.fn(),
+          debug: vi.fn(),
+        })),
+      },
+      rateLimiter: {
+        shouldAllowRequest: vi.fn().mockResolvedValue({ allowed: true }),
+        recordSuccess: vi.fn(),
+        recordFailure: vi.fn(),
+      },
+      errorCategorizer: {
+        categorize: vi.fn(),
+      },
+      postDeviationComment: vi.fn().mockResolvedValue({ commentId: 'comment-1' }),
+    };
+
+    mockJob = {
+      id: 'comment-job-1',
+      attemptsMade: 0,
+      data: { deviationId: 'dev-123', userId: 'user-123' },
+      opts: { attempts: 5 },
+    };
+  });
+
+  it('should post the template text and record the result', async () => {
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce(publishedDeviation);
+
+    const result = await postFirstCommentJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ posted: true, commentId: 'comment-1' });
+    expect(mockDeps.postDeviationComment).toHaveBeenCalledWith(
+      publishedDeviation.user,
+      'da-123',
+      'Thanks for looking!'
+    );
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({
+        commentStatus: 'posted',
+        commentId: 'comment-1',
+        commentPostedAt: expect.any(Date),
+        commentError: null,
+      }),
+    });
+    expect(mockDeps.rateLimiter.recordSuccess).toHaveBeenCalledWith('user-123');
+    expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ type: 'comment_posted', actorType: 'publisher' })],
+    });
+  });
+
+  it('should not post twice', async () => {
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+      ...publishedDeviation,
+      commentStatus: 'posted',
+      commentId: 'comment-1',
+    });
+
+    const result = await postFirstCommentJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ posted: false, alreadyPosted: true, commentId: 'comment-1' });
+    expect(mockDeps.postDeviationComment).not.toHaveBeenCalled();
+  });
+
+  it('should skip when the template was deleted', async () => {
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+      ...publishedDeviation,
+      commentTemplateId: null,
+      commentTemplate: null,
+    });
+
+    const result = await postFirstCommentJob(mockJob, mockDeps);
+
+    expect(result.posted).toBe(false);
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ commentStatus: 'skipped' }),
+    });
+    expect(mockDeps.postDeviationComment).not.toHaveBeenCalled();
+  });
+
+  it('should defer while the user is rate limited', async () => {
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce(publishedDeviation);
+    mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({
+      allowed: false,
+      waitMs: 5000,
+      reason: 'Backoff active',
+    });
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'RATE_LIMIT',
+      isRetryable: true,
+      errorContext: { message: 'RATE_LIMITED: Wait 5000ms - Backoff active' },
+    });
+
+    await expect(postFirstCommentJob(mockJob, mockDeps)).rejects.toThrow('RATE_LIMITED');
+
+    expect(mockDeps.postDeviationComment).not.toHaveBeenCalled();
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ commentStatus: 'pending' }),
+    });
+  });
+
+  it('should feed DeviantArt 429s back into the rate limiter', async () => {
+    const rateLimitError: any = new Error('DeviantArt API rate limit exceeded');
+    rateLimitError.retryAfter = '60';
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce(publishedDeviation);
+    mockDeps.postDeviationComment.mockRejectedValueOnce(rateLimitError);
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'RATE_LIMIT',
+      isRetryable: true,
+      errorContext: { message: rateLimitError.message },
+    });
+
+    await expect(postFirstCommentJob(mockJob, mockDeps)).rejects.toThrow(rateLimitError);
+
+    expect(mockDeps.rateLimiter.recordFailure).toHaveBeenCalledWith('user-123', '60');
+  });
+
+  it('should mark the comment failed on the final attempt', async () => {
+    mockJob.attemptsMade = 4;
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce(publishedDeviation);
+    mockDeps.postDeviationComment.mockRejectedValueOnce(new Error('Server error'));
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'SERVER_ERROR',
+      isRetryable: true,
+      errorContext: { message: 'Server error' },
+    });
+
+    await expect(postFirstCommentJob(mockJob, mockDeps)).rejects.toThrow('Server error');
+
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ commentStatus: 'failed', commentError: 'Server error' }),
+    });
+    expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ type: 'comment_failed' })],
+    });
+  });
+
+  it('should stop retrying on non-retryable errors', async () => {
+    mockPrisma.deviation.findFirst.mockResolvedValueOnce(publishedDeviation);
+    mockDeps.postDeviationComment.mockRejectedValueOnce(new Error('Comments disabled'));
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'VALIDATION_ERROR',
+      isRetryable: false,
+      errorContext: { message: 'Comments disabled' },
+    });
+
+    const result = await postFirstCommentJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ posted: false });
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ commentStatus: 'failed' }),
+    });
+  });
+});
+
+describe('getCommentTemplateText', () => {
+  it('should only accept non-empty comment templates', () => {
+    expect(getCommentTemplateText(null)).toBeNull();
+    expect(getCommentTemplateText({ type: 'tag', content: { tags: ['a'] } } as any)).toBeNull();
+    expect(getCommentTemplateText({ type: 'comment', content: { text: '   ' } } as any)).toBeNull();
+    expect(getCommentTemplateText({ type: 'comment', content: { text: ' Hi ' } } as any)).toBe(
+      'Hi'
+    );
+  });
+});
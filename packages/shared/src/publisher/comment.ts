@@ -0,0 +1,217 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { Job } from 'bullmq';
+import type { Deviation, Template, User } from '@prisma/client';
+import { recordDeviationEvent } from '../deviation-events.js';
+import type {
+  CommentPosterDependencies,
+  CommentJobResult,
+  DeviationCommentJobData,
+} from './types.js';
+
+type DeviationWithComment = Deviation & {
+  user: User;
+  commentTemplate: Template | null;
+};
+
+/**
+ * Extract the comment body from a comment template
+ *
+ * @returns Trimmed text, or null if the template is missing, not a comment template or empty
+ */
+export function getCommentTemplateText(template: Template | null): string | null {
+  if (!template || template.type !== 'comment') {
+    return null;
+  }
+
+  const content = template.content as { text?: unknown } | null;
+  const text = typeof content?.text === 'string' ? content.text.trim() : '';
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Mark the comment as skipped - nothing to post, no retry
+ */
+async function skipComment(
+  deviationId: string,
+  reason: string,
+  prisma: any,
+  logger: any
+): Promise<CommentJobResult> {
+  logger.info('Skipping first comment', { deviationId, reason });
+
+  await prisma.deviation.update({
+    where: { id: deviationId },
+    data: {
+      commentStatus: 'skipped',
+      commentError: reason,
+      updatedAt: new Date(),
+    },
+  });
+
+  return { posted: false, skippedReason: reason };
+}
+
+/**
+ * Post the first comment on a freshly published deviation
+ *
+ * Runs on its own queue after publishDeviationJob succeeds, so comment failures never
+ * affect the publish itself. The comment text is read from the deviation's comment
+ * template when the job runs; the outcome is stored on the deviation (commentStatus,
+ * commentId, commentPostedAt, commentError).
+ *
+ * @param job - BullMQ job containing the deviation to comment on
+ * @param deps - Dependencies injected by the calling service
+ * @returns Result indicating whether the comment was posted
+ */
+export async function postFirstCommentJob(
+  job: Job<DeviationCommentJobData>,
+  deps: CommentPosterDependencies
+): Promise<CommentJobResult> {
+  const { deviationId, userId } = job.data;
+  const attemptNumber = job.attemptsMade + 1;
+  const logger = deps.logger.createJobLogger(job);
+
+  const deviation = (await deps.prisma.deviation.findFirst({
+    where: { id: deviationId },
+    include: {
+      user: true,
+      commentTemplate: true,
+    },
+  })) as DeviationWithComment | null;
+
+  if (!deviation) {
+    logger.warn('Deviation not found, dropping first comment job', { deviationId });
+    return { posted: false, skippedReason: 'Deviation not found' };
+  }
+
+  // Idempotency - never post the same comment twice
+  if (deviation.commentStatus === 'posted' && deviation.commentId) {
+    logger.info('First comment already posted, skipping', { commentId: deviation.commentId });
+    return { posted: false, alreadyPosted: true, commentId: deviation.commentId };
+  }
+
+  if (deviation.status !== 'published' || !deviation.deviationId) {
+    return skipComment(
+      deviationId,
+      'Deviation is not published on DeviantArt',
+      deps.prisma,
+      logger
+    );
+  }
+
+  const text = getCommentTemplateText(deviation.commentTemplate);
+  if (!text) {
+    return skipComment(
+      deviationId,
+      'Comment template was removed or is empty',
+      deps.prisma,
+      logger
+    );
+  }
+
+  try {
+    const rateLimitCheck = await deps.rateLimiter.shouldAllowRequest(userId);
+    if (!rateLimitCheck.allowed) {
+      logger.warn('Rate limit active, will retry first comment', {
+        waitMs: rateLimitCheck.waitMs,
+        reason: rateLimitCheck.reason,
+      });
+      throw new Error(`RATE_LIMITED: Wait ${rateLimitCheck.waitMs}ms - ${rateLimitCheck.reason}`);
+    }
+
+    const { commentId } = await deps.postDeviationComment(
+      deviation.user,
+      deviation.deviationId,
+      text
+    );
+
+    await deps.prisma.deviation.update({
+      where: { id: deviationId },
+      data: {
+        commentStatus: 'posted',
+        commentId,
+        commentPostedAt: new Date(),
+        commentError: null,
+        updatedAt: new Date(),
+      },
+    });
+
+    await deps.rateLimiter.recordSuccess(userId);
+
+    await recordDeviationEvent(deps.prisma, {
+      deviationId,
+      type: 'comment_posted',
+      actor: { type: 'publisher', id: job.id },
+      metadata: {
+        attempt: attemptNumber,
+        commentId,
+        commentTemplateId: deviation.commentTemplateId,
+      },
+    });
+
+    logger.info('Posted first comment', { commentId });
+
+    return { posted: true, commentId };
+  } catch (error: any) {
+    const categorized = deps.errorCategorizer.categorize(error);
+    const message = categorized.errorContext?.message ?? 'Unknown error';
+
+    logger.error('Failed to post first comment', error, {
+      errorCategory: categorized.category,
+      isRetryable: categorized.isRetryable,
+    });
+
+    if (categorized.category === 'RATE_LIMIT') {
+      await deps.rateLimiter.recordFailure(userId, error.retryAfter);
+    }
+
+    const isFinalAttempt = attemptNumber >= (job.opts.attempts || 1) || !categorized.isRetryable;
+
+    await deps.prisma.deviation.update({
+      where: { id: deviationId },
+      data: {
+        commentStatus: isFinalAttempt ? 'failed' : 'pending',
+        commentError: message,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (!isFinalAttempt) {
+      throw error; // Re-throw to trigger BullMQ retry
+    }
+
+    await recordDeviationEvent(deps.prisma, {
+      deviationId,
+      type: 'comment_failed',
+      actor: { type: 'publisher', id: job.id },
+      metadata: {
+        attempt: attemptNumber,
+        category: categorized.category,
+        message,
+      },
+    });
+
+    // Non-retryable errors end here without burning the remaining attempts
+    if (!categorized.isRetryable) {
+      return { posted: false };
+    }
+
+    throw error;
+  }
+}
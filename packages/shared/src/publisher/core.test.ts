@@ -16,7 +16,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DelayedError } from 'bullmq';
 import { publishDeviationJob } from './core.js';
+import { PublishPriority } from './priority.js';
 import type { PublisherDependencies, DeviationPublishJobData } from './types.js';
 
 describe('publishDeviationJob', () => {
@@ -40,6 +42,13 @@ describe('publishDeviationJob', () => {
         updateMany: vi.fn(),
         update: vi.fn(),
         findFirst: vi.fn(),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      deadLetterJob: {
+        create: vi.fn().mockResolvedValue({ id: 'dlq-123' }),
+      },
+      deviationEvent: {
+        createMany: vi.fn(),
       },
       $transaction: vi.fn(),
     };
@@ -73,8 +82,14 @@ describe('publishDeviationJob', () => {
       withCircuitBreaker: vi.fn(),
       publishToDeviantArt: vi.fn(),
       queueStorageCleanup: vi.fn(),
+      queueFirstComment: vi.fn(),
+      emitWebhookEvent: vi.fn(),
       errorCategorizer: {
-        categorize: vi.fn(),
+        categorize: vi.fn((error: Error) => ({
+          category: 'UNKNOWN',
+          isRetryable: true,
+          errorContext: { message: error.message },
+        })),
       },
     };
 
@@ -90,6 +105,7 @@ describe('publishDeviationJob', () => {
       opts: {
         attempts: 7,
       },
+      updateData: vi.fn(),
     };
   });
 
@@ -372,6 +388,58 @@ describe('publishDeviationJob', () => {
     });
   });
 
+  describe('publishing policy', () => {
+    it('should defer the job to the next allowed slot instead of publishing', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-15T23:30:00Z'));
+      mockJob.moveToDelayed = vi.fn();
+
+      mockPrisma.deviation.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(true);
+      mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({ allowed: true });
+      mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+        id: 'dev-123',
+        status: 'scheduled',
+        actualPublishAt: new Date('2025-01-15T23:30:00Z'),
+        files: [{ id: 'file-1' }],
+        user: {
+          id: 'user-123',
+          timezone: 'UTC',
+          maxPostsPerDay: null,
+          minPostGapMinutes: null,
+          quietHours: [{ start: '23:00', end: '07:00' }],
+        },
+      });
+
+      await expect(publishDeviationJob(mockJob, mockDeps, 'token-1')).rejects.toThrow(DelayedError);
+
+      const deferUntil = new Date('2025-01-16T07:00:00Z');
+      expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: 'dev-123' },
+        data: expect.objectContaining({ scheduledAt: deferUntil, actualPublishAt: deferUntil }),
+      });
+      expect(mockJob.moveToDelayed).toHaveBeenCalledWith(deferUntil.getTime(), 'token-1');
+      expect(mockDeps.publishToDeviantArt).not.toHaveBeenCalled();
+      expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'rescheduled',
+            metadata: expect.objectContaining({
+              reason: 'publishing_policy',
+              policyReasons: ['quiet_hours'],
+            }),
+          }),
+        ],
+      });
+      // Deferring is not a failure
+      expect(mockDeps.metricsCollector.recordJobFailure).not.toHaveBeenCalled();
+
+      vi.useRealTimers();
+    });
+  });
+
   describe('successful publish', () => {
     it('should publish deviation and update status', async () => {
       mockPrisma.deviation.updateMany
@@ -416,7 +484,29 @@ describe('publishDeviationJob', () => {
         { deviationId: 'da-123', url: 'https://deviantart.com/dev/123' },
       ]);
       expect(mockDeps.publishToDeviantArt).toHaveBeenCalled();
+      expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'published',
+            fromStatus: 'scheduled',
+            toStatus: 'published',
+            actorType: 'publisher',
+            metadata: expect.objectContaining({
+              attempt: 1,
+              deviationUrl: 'https://deviantart.com/dev/123',
+            }),
+          }),
+        ],
+      });
       expect(mockDeps.rateLimiter.recordSuccess).toHaveBeenCalledWith('user-123');
+      expect(mockDeps.emitWebhookEvent).toHaveBeenCalledWith({
+        userId: 'user-123',
+        event: 'deviation.published',
+        data: expect.objectContaining({
+          deviationId: 'dev-123',
+          deviationUrl: 'https://deviantart.com/dev/123',
+        }),
+      });
     });
 
     it('should publish deviation in Sta.sh-only mode', async () => {
@@ -873,6 +963,64 @@ describe('publishDeviationJob', () => {
     });
   });
 
+  describe('first comment', () => {
+    function mockSuccessfulPublish(deviationOverrides: Record<string, unknown>) {
+      mockPrisma.deviation.updateMany.mockResolvedValue({ count: 1 });
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(true);
+      mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({ allowed: true });
+      mockPrisma.deviation.update.mockResolvedValue({});
+      mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+        id: 'dev-123',
+        userId: 'user-123',
+        status: 'scheduled',
+        files: [{ id: 'file-1' }],
+        user: { id: 'user-123' },
+        ...deviationOverrides,
+      });
+      mockDeps.withCircuitBreaker.mockImplementation(async (key, operation) => operation());
+      mockDeps.publishToDeviantArt.mockResolvedValueOnce({
+        deviationId: 'da-123',
+        url: 'https://deviantart.com/dev/123',
+      });
+      mockPrisma.$transaction.mockImplementation(async (callback) => callback(mockPrisma));
+    }
+
+    it('should queue the first comment when a comment template is set', async () => {
+      mockSuccessfulPublish({ commentTemplateId: 'template-1' });
+
+      await publishDeviationJob(mockJob, mockDeps);
+
+      expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: 'dev-123' },
+        data: { commentStatus: 'pending', commentError: null },
+      });
+      expect(mockDeps.queueFirstComment).toHaveBeenCalledWith('dev-123', 'user-123');
+    });
+
+    it('should not queue a comment without a template or in Sta.sh-only mode', async () => {
+      mockSuccessfulPublish({ commentTemplateId: null });
+      await publishDeviationJob(mockJob, mockDeps);
+
+      mockSuccessfulPublish({ commentTemplateId: 'template-1', stashOnly: true });
+      await publishDeviationJob(mockJob, mockDeps);
+
+      expect(mockDeps.queueFirstComment).not.toHaveBeenCalled();
+    });
+
+    it('should record a queueing failure without failing the publish', async () => {
+      mockSuccessfulPublish({ commentTemplateId: 'template-1' });
+      mockDeps.queueFirstComment.mockRejectedValueOnce(new Error('Redis down'));
+
+      const result = await publishDeviationJob(mockJob, mockDeps);
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: 'dev-123' },
+        data: { commentStatus: 'failed', commentError: 'Failed to queue comment: Redis down' },
+      });
+    });
+  });
+
   describe('error handling', () => {
     it('should handle publish errors and reset to draft on final attempt', async () => {
       mockPrisma.deviation.updateMany
@@ -911,6 +1059,15 @@ describe('publishDeviationJob', () => {
           }),
         })
       );
+      expect(mockDeps.emitWebhookEvent).toHaveBeenCalledWith({
+        userId: 'user-123',
+        event: 'deviation.failed',
+        data: expect.objectContaining({
+          deviationId: 'dev-123',
+          errorCategory: 'API_ERROR',
+          errorMessage: 'DeviantArt API error',
+        }),
+      });
     });
 
     it('should handle rate limit errors', async () => {
@@ -947,6 +1104,225 @@ describe('publishDeviationJob', () => {
     });
   });
 
+  describe('dead-letter capture', () => {
+    function setupFailingPublish(categorized: any) {
+      mockPrisma.deviation.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(true);
+      mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({ allowed: true });
+
+      mockPrisma.deviation.update.mockResolvedValue({});
+      mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+        id: 'dev-123',
+        status: 'scheduled',
+        files: [{ id: 'file-1' }],
+        user: { id: 'user-123' },
+      });
+
+      mockDeps.withCircuitBreaker.mockRejectedValueOnce(new Error('DeviantArt API error'));
+      mockDeps.errorCategorizer.categorize.mockReturnValueOnce(categorized);
+    }
+
+    it('should capture the categorized error and attempt history on final attempt', async () => {
+      setupFailingPublish({
+        category: 'SERVER_ERROR',
+        isRetryable: true,
+        errorContext: {
+          category: 'SERVER_ERROR',
+          message: 'DeviantArt API error',
+          status: 503,
+          headers: { 'x-request-id': 'abc' },
+          timestamp: new Date('2025-01-01T00:00:00Z'),
+        },
+      });
+
+      mockJob.attemptsMade = 6;
+      mockJob.data.attemptHistory = [
+        { attempt: 6, failedAt: '2025-01-01T00:00:00.000Z', category: 'NETWORK', message: 'reset' },
+      ];
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow('DeviantArt API error');
+
+      expect(mockPrisma.deadLetterJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-123',
+          deviationId: 'dev-123',
+          jobId: 'job-123',
+          uploadMode: 'single',
+          errorCategory: 'SERVER_ERROR',
+          errorMessage: 'DeviantArt API error',
+          attemptsMade: 2,
+        }),
+      });
+
+      const { data } = mockPrisma.deadLetterJob.create.mock.calls[0][0];
+      expect(data.error.errorContext).toEqual({
+        category: 'SERVER_ERROR',
+        message: 'DeviantArt API error',
+        status: 503,
+        headers: { 'x-request-id': 'abc' },
+        timestamp: '2025-01-01T00:00:00.000Z',
+      });
+      expect(data.attempts).toHaveLength(2);
+      expect(data.attempts[1]).toMatchObject({
+        attempt: 7,
+        category: 'SERVER_ERROR',
+        message: 'DeviantArt API error',
+        status: 503,
+      });
+      expect(mockJob.updateData).not.toHaveBeenCalled();
+      expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            deviationId: 'dev-123',
+            type: 'failed',
+            fromStatus: 'scheduled',
+            toStatus: 'draft',
+            actorType: 'publisher',
+            actorId: 'job-123',
+            metadata: expect.objectContaining({ deadLetterId: 'dlq-123', attempt: 7 }),
+          }),
+        ],
+      });
+    });
+
+    it('should record attempt history on the job when retrying', async () => {
+      setupFailingPublish({
+        category: 'NETWORK',
+        isRetryable: true,
+        errorContext: { message: 'socket hang up' },
+      });
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow();
+
+      expect(mockPrisma.deadLetterJob.create).not.toHaveBeenCalled();
+      expect(mockJob.updateData).toHaveBeenCalledWith({
+        ...mockJob.data,
+        attemptHistory: [expect.objectContaining({ attempt: 1, category: 'NETWORK' })],
+      });
+      expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'retry_scheduled',
+            toStatus: 'scheduled',
+            metadata: expect.objectContaining({ attempt: 1, category: 'NETWORK' }),
+          }),
+        ],
+      });
+    });
+
+    it('should capture jobs that never got past the circuit breaker', async () => {
+      mockPrisma.deviation.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(false);
+      mockPrisma.deviation.update.mockResolvedValue({});
+      mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+        category: 'CIRCUIT_OPEN',
+        isRetryable: true,
+        errorContext: { message: 'CIRCUIT_OPEN: Circuit breaker is open for this user' },
+      });
+
+      mockJob.attemptsMade = 6;
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow('CIRCUIT_OPEN');
+
+      expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+        where: { id: 'dev-123' },
+        data: expect.objectContaining({
+          status: 'draft',
+          errorMessage: 'CIRCUIT_OPEN: Circuit breaker is open for this user',
+        }),
+      });
+      expect(mockPrisma.deadLetterJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          deviationId: 'dev-123',
+          errorCategory: 'CIRCUIT_OPEN',
+          attemptsMade: 1,
+        }),
+      });
+      expect(mockDeps.emitWebhookEvent).toHaveBeenCalledWith({
+        userId: 'user-123',
+        event: 'deviation.failed',
+        data: expect.objectContaining({ deviationId: 'dev-123', deadLetterId: 'dlq-123' }),
+      });
+    });
+
+    it('should record attempts that failed before the publish step', async () => {
+      mockPrisma.deviation.updateMany.mockResolvedValueOnce({ count: 1 });
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(false);
+      mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+        category: 'CIRCUIT_OPEN',
+        isRetryable: true,
+        errorContext: { message: 'CIRCUIT_OPEN: Circuit breaker is open for this user' },
+      });
+
+      mockJob.attemptsMade = 2;
+      mockJob.data.attemptHistory = [
+        { attempt: 2, failedAt: '2025-01-01T00:00:00.000Z', category: 'NETWORK', message: 'reset' },
+      ];
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow('CIRCUIT_OPEN');
+
+      expect(mockPrisma.deadLetterJob.create).not.toHaveBeenCalled();
+      expect(mockJob.updateData).toHaveBeenCalledWith({
+        ...mockJob.data,
+        attemptHistory: [
+          expect.objectContaining({ attempt: 2, category: 'NETWORK' }),
+          expect.objectContaining({
+            attempt: 3,
+            category: 'CIRCUIT_OPEN',
+            message: 'CIRCUIT_OPEN: Circuit breaker is open for this user',
+          }),
+        ],
+      });
+    });
+
+    it('should capture jobs whose deviation is gone without notifying', async () => {
+      mockPrisma.deviation.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 1 });
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(true);
+      mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({ allowed: true });
+      mockPrisma.deviation.update
+        .mockResolvedValueOnce({}) // Retry tracking
+        .mockRejectedValueOnce(new Error('Record to update not found'));
+      mockPrisma.deviation.findFirst.mockResolvedValueOnce(null);
+      mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+        category: 'UNKNOWN',
+        isRetryable: false,
+        errorContext: { message: 'Deviation dev-123 not found' },
+      });
+
+      mockJob.attemptsMade = 6;
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow(
+        'Deviation dev-123 not found'
+      );
+
+      expect(mockPrisma.deadLetterJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ errorMessage: 'Deviation dev-123 not found' }),
+      });
+      expect(mockPrisma.deviationEvent.createMany).not.toHaveBeenCalled();
+      expect(mockDeps.emitWebhookEvent).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow the publish error when dead-letter capture fails', async () => {
+      setupFailingPublish({
+        category: 'API_ERROR',
+        isRetryable: false,
+        errorContext: { message: 'DeviantArt API error' },
+      });
+      mockPrisma.deadLetterJob.create.mockRejectedValueOnce(new Error('DB down'));
+
+      mockJob.attemptsMade = 6;
+
+      await expect(publishDeviationJob(mockJob, mockDeps)).rejects.toThrow('DeviantArt API error');
+    });
+  });
+
   describe('metrics', () => {
     it('should record job start when lock is acquired', async () => {
       mockPrisma.deviation.updateMany
@@ -967,7 +1343,41 @@ describe('publishDeviationJob', () => {
 
       await publishDeviationJob(mockJob, mockDeps);
 
-      expect(mockDeps.metricsCollector.recordJobStart).toHaveBeenCalledWith('job-123', 'dev-123');
+      expect(mockDeps.metricsCollector.recordJobStart).toHaveBeenCalledWith(
+        'job-123',
+        'dev-123',
+        'scheduled',
+        'user-123'
+      );
+    });
+
+    it('should record the priority lane of the job', async () => {
+      mockPrisma.deviation.updateMany
+        .mockResolvedValueOnce({ count: 1 }) // Lock acquired
+        .mockResolvedValueOnce({ count: 1 }); // Lock release
+
+      mockDeps.CircuitBreaker.shouldAllowRequest.mockResolvedValueOnce(true);
+      mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({ allowed: true });
+      mockPrisma.deviation.update.mockResolvedValueOnce({});
+      mockPrisma.deviation.findFirst.mockResolvedValueOnce({
+        id: 'dev-123',
+        status: 'published',
+        deviationId: 'da-123',
+        deviationUrl: 'https://deviantart.com/dev/123',
+        files: [{ id: 'file-1' }],
+        user: { id: 'user-123' },
+      });
+
+      mockJob.opts.priority = PublishPriority.INTERACTIVE;
+
+      await publishDeviationJob(mockJob, mockDeps);
+
+      expect(mockDeps.metricsCollector.recordJobStart).toHaveBeenCalledWith(
+        'job-123',
+        'dev-123',
+        'interactive',
+        'user-123'
+      );
     });
 
     it('should record job success with latency', async () => {
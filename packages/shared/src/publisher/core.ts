@@ -15,12 +15,16 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import type { Job } from 'bullmq';
+import { DelayedError, type Job } from 'bullmq';
+import { recordDeviationEvent } from '../deviation-events.js';
+import { resolvePublishSlot } from '../publishing-policy.js';
+import { getPublishLane } from './priority.js';
 import type {
   PublisherDependencies,
   DeviationPublishJobData,
   PublishJobResult,
   DeviationWithRelations,
+  PublishAttemptRecord,
 } from './types.js';
 
 /**
@@ -97,6 +101,92 @@ async function releaseExecutionLock(
   }
 }
 
+/**
+ * Build the attempt history entry for a failed publish attempt
+ */
+function buildAttemptRecord(attempt: number, categorized: any): PublishAttemptRecord {
+  return {
+    attempt,
+    failedAt: new Date().toISOString(),
+    category: categorized.category,
+    message: categorized.errorContext?.message ?? 'Unknown error',
+    status: categorized.errorContext?.status,
+    retryAfter: categorized.errorContext?.retryAfter,
+  };
+}
+
+/**
+ * Store attempt history on the job so it survives BullMQ retries
+ *
+ * Non-fatal - a missing history only makes the dead-letter entry less detailed.
+ */
+async function recordAttemptHistory(
+  job: Job<DeviationPublishJobData>,
+  attemptHistory: PublishAttemptRecord[],
+  logger: any
+): Promise<void> {
+  try {
+    await job.updateData({ ...job.data, attemptHistory });
+  } catch (error) {
+    logger.warn('Failed to record attempt history', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Capture a permanently failed job in the dead-letter store
+ *
+ * Keeps the full categorized error (category, status, retryAfter, headers) and the
+ * attempt history so the failure can be inspected and replayed later.
+ *
+ * @param job - BullMQ job that exhausted its retries
+ * @param categorized - CategorizedError for the final attempt
+ * @param attemptHistory - All failed attempts, oldest first
+ * @param prisma - Prisma client instance
+ * @param logger - Logger instance
+ * @returns Dead-letter entry ID, or null if it could not be stored
+ */
+async function captureDeadLetter(
+  job: Job<DeviationPublishJobData>,
+  categorized: any,
+  attemptHistory: PublishAttemptRecord[],
+  prisma: any,
+  logger: any
+): Promise<string | null> {
+  const { deviationId, userId, uploadMode } = job.data;
+
+  try {
+    const deadLetter = await prisma.deadLetterJob.create({
+      data: {
+        userId,
+        deviationId,
+        jobId: job.id!,
+        uploadMode,
+        errorCategory: categorized.category,
+        errorMessage: categorized.errorContext?.message ?? 'Unknown error',
+        // Round-trip through JSON so Dates become ISO strings and undefined fields are dropped
+        error: JSON.parse(JSON.stringify(categorized)),
+        attempts: JSON.parse(JSON.stringify(attemptHistory)),
+        attemptsMade: attemptHistory.length,
+      },
+    });
+
+    logger.info('Captured failed job in dead-letter store', {
+      deadLetterId: deadLetter.id,
+      attemptsMade: attemptHistory.length,
+    });
+    return deadLetter.id;
+  } catch (error) {
+    // Log but don't mask the original publish error
+    logger.warn('Failed to capture dead-letter entry', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      deviationId,
+    });
+    return null;
+  }
+}
+
 /**
  * Automatically create sale queue entry if automation has it enabled
  *
@@ -192,6 +282,128 @@ async function autoCreateSaleQueue(deviation: any, tx: any, logger: any): Promis
   }
 }
 
+/**
+ * Queue the first comment job for a published deviation
+ *
+ * Never fails the publish - a queueing error is stored on the deviation instead.
+ *
+ * @param deviationId - ID of the published deviation
+ * @param userId - Owner of the deviation
+ * @param deps - Publisher dependencies
+ * @param logger - Logger instance
+ */
+async function queueFirstComment(
+  deviationId: string,
+  userId: string,
+  deps: PublisherDependencies,
+  logger: any
+): Promise<void> {
+  try {
+    await deps.prisma.deviation.update({
+      where: { id: deviationId },
+      data: { commentStatus: 'pending', commentError: null },
+    });
+    await deps.queueFirstComment(deviationId, userId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn('Failed to queue first comment', { error: message, deviationId });
+
+    await deps.prisma.deviation
+      .update({
+        where: { id: deviationId },
+        data: { commentStatus: 'failed', commentError: `Failed to queue comment: ${message}` },
+      })
+      .catch(() => {});
+  }
+}
+
+/**
+ * Give up on a job after its final attempt
+ *
+ * Resets the deviation to draft so the user can try again, captures the job in the
+ * dead-letter store and notifies about the failure. Never throws, so the original
+ * error reaches BullMQ.
+ *
+ * @param deviation - The deviation, if the job got as far as loading it
+ */
+async function failJob(
+  job: Job<DeviationPublishJobData>,
+  error: unknown,
+  categorized: any,
+  deviation: DeviationWithRelations | null,
+  deps: PublisherDependencies,
+  logger: any
+): Promise<void> {
+  const { deviationId, userId } = job.data;
+  const attemptNumber = job.attemptsMade + 1;
+  const attemptHistory = [
+    ...(job.data.attemptHistory ?? []),
+    buildAttemptRecord(attemptNumber, categorized),
+  ];
+
+  // Update deviation back to draft after all retries so user can try again
+  const reset = await deps.prisma.deviation
+    .update({
+      where: { id: deviationId },
+      data: {
+        status: 'draft',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        updatedAt: new Date(),
+      },
+    })
+    .then(() => {
+      logger.error('Job failed after all retries, status reset to draft');
+      return true;
+    })
+    .catch((updateError: unknown) => {
+      // The deviation may have been deleted; don't mask the original error
+      logger.warn('Failed to reset deviation to draft', {
+        error: updateError instanceof Error ? updateError.message : 'Unknown error',
+        deviationId,
+      });
+      return false;
+    });
+
+  const deadLetterId = await captureDeadLetter(
+    job,
+    categorized,
+    attemptHistory,
+    deps.prisma,
+    logger
+  );
+
+  if (!reset) {
+    return;
+  }
+
+  await recordDeviationEvent(deps.prisma, {
+    deviationId,
+    type: 'failed',
+    actor: { type: 'publisher', id: job.id },
+    fromStatus: deviation?.status ?? 'scheduled',
+    toStatus: 'draft',
+    metadata: {
+      attempt: attemptNumber,
+      category: categorized.category,
+      message: categorized.errorContext?.message,
+      deadLetterId,
+    },
+  });
+
+  await deps.emitWebhookEvent({
+    userId,
+    event: 'deviation.failed',
+    data: {
+      deviationId,
+      title: deviation?.title,
+      attempts: attemptNumber,
+      errorCategory: categorized.category,
+      errorMessage: categorized.errorContext?.message,
+      deadLetterId,
+    },
+  });
+}
+
 /**
  * Core deviation publishing job logic
  *
@@ -200,16 +412,19 @@ async function autoCreateSaleQueue(deviation: any, tx: any, logger: any): Promis
  *
  * @param job - BullMQ job containing deviation publish data
  * @param deps - Dependencies injected by the calling service
+ * @param token - Worker lock token, needed to move the job back to delayed
  * @returns Result indicating success/failure and published deviation info
  */
 export async function publishDeviationJob(
   job: Job<DeviationPublishJobData>,
-  deps: PublisherDependencies
+  deps: PublisherDependencies,
+  token?: string
 ): Promise<PublishJobResult> {
   const { deviationId, userId, uploadMode } = job.data;
   const attemptNumber = job.attemptsMade + 1;
   const logger = deps.logger.createJobLogger(job);
   const startTime = Date.now();
+  const lane = getPublishLane(job.opts.priority);
 
   // STEP 0: Acquire execution lock (CRITICAL - prevents concurrent execution)
   const lockId = `${job.id}-${Date.now()}`;
@@ -231,14 +446,19 @@ export async function publishDeviationJob(
 
   logger.info('Acquired execution lock', { lockId });
 
+  // Set as the job goes, for the final-attempt handling in the outer catch
+  let fetchedDeviation: DeviationWithRelations | null = null;
+  let categorizedError: any = null;
+
   try {
     logger.info('Starting deviation publish job', {
       uploadMode,
+      lane,
       maxAttempts: job.opts.attempts,
       lockId,
     });
 
-    deps.metricsCollector.recordJobStart(job.id!, deviationId);
+    deps.metricsCollector.recordJobStart(job.id!, deviationId, lane, userId);
 
     // STEP 1: Rate Limit Check (circuit breaker and rate limiter)
     const circuitKey = `deviantart:publish:${userId}`;
@@ -278,6 +498,7 @@ export async function publishDeviationJob(
         user: true,
       },
     })) as DeviationWithRelations | null;
+    fetchedDeviation = deviation;
 
     if (!deviation) {
       throw new Error(`Deviation ${deviationId} not found`);
@@ -291,6 +512,49 @@ export async function publishDeviationJob(
       throw new Error(`Deviation ${deviationId} has no files`);
     }
 
+    // STEP 2.5: Publishing policy - defer to the next allowed slot instead of failing.
+    // Other scheduled posts are not counted here; they are checked when their own job runs.
+    if (deviation.status !== 'published') {
+      const slot = await resolvePublishSlot(deps.prisma, deviation.user, new Date(), {
+        excludeDeviationId: deviationId,
+      });
+
+      if (slot.deferred) {
+        logger.info('Publishing policy blocks this slot, deferring job', {
+          deferUntil: slot.publishAt.toISOString(),
+          reasons: slot.reasons,
+        });
+
+        await deps.prisma.deviation.update({
+          where: { id: deviationId },
+          data: {
+            scheduledAt: slot.publishAt,
+            jitterSeconds: 0,
+            actualPublishAt: slot.publishAt,
+            updatedAt: new Date(),
+          },
+        });
+
+        await recordDeviationEvent(deps.prisma, {
+          deviationId,
+          type: 'rescheduled',
+          actor: { type: 'publisher', id: job.id },
+          fromStatus: deviation.status,
+          toStatus: deviation.status,
+          metadata: {
+            reason: 'publishing_policy',
+            policyReasons: slot.reasons,
+            previousActualPublishAt: deviation.actualPublishAt,
+            actualPublishAt: slot.publishAt,
+          },
+        });
+
+        // Keeps the job ID (so cancelling still works) and doesn't use up an attempt
+        await job.moveToDelayed(slot.publishAt.getTime(), token);
+        throw new DelayedError();
+      }
+    }
+
     try {
       // STEP 3: Idempotency check - prevent duplicate publish on retry
       if (deviation.status === 'published' && deviation.deviationId) {
@@ -330,6 +594,26 @@ export async function publishDeviationJob(
 
         // Post count tracking removed (open-source version)
 
+        await recordDeviationEvent(deps.prisma, {
+          deviationId,
+          type: 'published',
+          actor: { type: 'publisher', id: job.id },
+          fromStatus: deviation.status,
+          toStatus: 'published',
+          metadata: { attempt: attemptNumber, stashOnly: true, stashItemId: deviation.stashItemId },
+        });
+
+        await deps.emitWebhookEvent({
+          userId,
+          event: 'deviation.published',
+          data: {
+            deviationId,
+            title: deviation.title,
+            stashOnly: true,
+            stashItemId: deviation.stashItemId,
+          },
+        });
+
         return {
           success: true,
           alreadyPublished: true,
@@ -405,6 +689,35 @@ export async function publishDeviationJob(
         await autoCreateSaleQueue(deviation, tx, logger);
       });
 
+      // Recorded outside the transaction so a failed insert can't roll back the publish
+      await recordDeviationEvent(deps.prisma, {
+        deviationId,
+        type: 'published',
+        actor: { type: 'publisher', id: job.id },
+        fromStatus: deviation.status,
+        toStatus: 'published',
+        metadata: {
+          attempt: attemptNumber,
+          uploadMode,
+          stashOnly: deviation.stashOnly,
+          deviationUrl: primaryResult.url,
+          resultCount: results.length,
+        },
+      });
+
+      await deps.emitWebhookEvent({
+        userId,
+        event: 'deviation.published',
+        data: {
+          deviationId,
+          title: deviation.title,
+          stashOnly: deviation.stashOnly,
+          deviantArtDeviationId: deviation.stashOnly ? null : primaryResult.deviationId,
+          deviationUrl: deviation.stashOnly ? null : primaryResult.url,
+          resultCount: results.length,
+        },
+      });
+
       // STEP 6: Queue storage cleanup (fire-and-forget, separate queue with retries)
       // Don't fail the job if storage cleanup queueing fails - the deviation is already published
       try {
@@ -419,6 +732,11 @@ export async function publishDeviationJob(
         );
       }
 
+      // STEP 6b: Queue the first comment from the chosen comment template (separate queue with retries)
+      if (deviation.commentTemplateId && !deviation.stashOnly) {
+        await queueFirstComment(deviationId, userId, deps, logger);
+      }
+
       // Record success
       await deps.rateLimiter.recordSuccess(userId);
 
@@ -438,6 +756,7 @@ export async function publishDeviationJob(
     } catch (error: any) {
       // STEP 7: Enhanced Error Handling
       const categorized = deps.errorCategorizer.categorize(error);
+      categorizedError = categorized;
       const latencyMs = Date.now() - startTime;
 
       logger.error('Failed to publish deviation', error, {
@@ -461,22 +780,15 @@ export async function publishDeviationJob(
         );
       }
 
-      // Check if we should retry
+      // Retry unless this was the final attempt (handled by the outer catch)
       const isFinalAttempt = attemptNumber >= (job.opts.attempts || 7);
 
-      if (isFinalAttempt) {
-        // Update deviation back to draft after all retries so user can try again
-        await deps.prisma.deviation.update({
-          where: { id: deviationId },
-          data: {
-            status: 'draft',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            updatedAt: new Date(),
-          },
-        });
+      if (!isFinalAttempt) {
+        const attemptHistory = [
+          ...(job.data.attemptHistory ?? []),
+          buildAttemptRecord(attemptNumber, categorized),
+        ];
 
-        logger.error('Job failed after all retries, status reset to draft');
-      } else {
         // Reset to scheduled status for retry
         await deps.prisma.deviation.update({
           where: { id: deviationId },
@@ -487,6 +799,22 @@ export async function publishDeviationJob(
           },
         });
 
+        await recordAttemptHistory(job, attemptHistory, logger);
+
+        await recordDeviationEvent(deps.prisma, {
+          deviationId,
+          type: 'retry_scheduled',
+          actor: { type: 'publisher', id: job.id },
+          fromStatus: deviation.status,
+          toStatus: 'scheduled',
+          metadata: {
+            attempt: attemptNumber,
+            maxAttempts: job.opts.attempts,
+            category: categorized.category,
+            message: categorized.errorContext?.message,
+          },
+        });
+
         logger.info('Job will retry', {
           nextAttempt: attemptNumber + 1,
           maxAttempts: job.opts.attempts,
@@ -495,6 +823,33 @@ export async function publishDeviationJob(
 
       throw error; // Re-throw to trigger BullMQ retry
     }
+  } catch (error) {
+    // Covers failures before the publish step too (circuit breaker, rate limit,
+    // missing deviation or files), so every exhausted job ends up in the dead-letter store
+    const isFinalAttempt = attemptNumber >= (job.opts.attempts || 7);
+
+    if (isFinalAttempt && !(error instanceof DelayedError)) {
+      await failJob(
+        job,
+        error,
+        categorizedError ?? deps.errorCategorizer.categorize(error),
+        fetchedDeviation,
+        deps,
+        logger
+      );
+    } else if (!categorizedError && !(error instanceof DelayedError)) {
+      // The publish step's catch didn't see this failure, record the attempt here
+      await recordAttemptHistory(
+        job,
+        [
+          ...(job.data.attemptHistory ?? []),
+          buildAttemptRecord(attemptNumber, deps.errorCategorizer.categorize(error)),
+        ],
+        logger
+      );
+    }
+
+    throw error; // Re-throw to trigger BullMQ retry
   } finally {
     // ALWAYS release lock, even on error
     await releaseExecutionLock(deviationId, lockId, deps.prisma);
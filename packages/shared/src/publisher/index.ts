@@ -27,3 +27,8 @@
 
 export * from './types.js';
 export * from './core.js';
+export * from './priority.js';
+export * from './comment.js';
+export * from './post-publish.js';
+export * from './webhook.js';
+export * from './turns.js';
@@ -0,0 +1,237 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPostPublishActionJob } from './post-publish.js';
+import type { PostPublishActionDependencies } from './types.js';
+
+describe('runPostPublishActionJob', () => {
+  let mockPrisma: any;
+  let mockDeps: PostPublishActionDependencies & Record<string, any>;
+  let mockJob: any;
+
+  const deviation = {
+    id: 'dev-123',
+    userId: 'user-123',
+    status: 'published',
+    deviationId: 'da-123',
+    galleryIds: ['folder-new'],
+    user: { id: 'user-123' },
+  };
+
+  const moveAction = {
+    id: 'action-1',
+    userId: 'user-123',
+    deviationId: 'dev-123',
+    type: 'move_to_gallery',
+    payload: { targetFolderId: 'folder-archive' },
+    status: 'pending',
+    deviation,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      postPublishAction: {
+        findFirst: vi.fn(),
+        update: vi.fn(),
+      },
+      deviation: {
+        update: vi.fn(),
+      },
+      deviationEvent: {
+        createMany: vi.fn(),
+      },
+    };
+
+    mockDeps = {
+      prisma: mockPrisma,
+      logger: {
+        createJobLogger: vi.fn(() => ({
+          info: vi.fn(),
+          warn: vi.fn(),
+          error: vi.fn(),
+          debug: vi.fn(),
+        })),
+      },
+      rateLimiter: {
+        shouldAllowRequest: vi.fn().mockResolvedValue({ allowed: true }),
+        recordSuccess: vi.fn(),
+        recordFailure: vi.fn(),
+      },
+      errorCategorizer: {
+        categorize: vi.fn(),
+      },
+      updateDeviationMetadata: vi.fn().mockResolvedValue(undefined),
+      moveDeviationsToFolder: vi.fn().mockResolvedValue(undefined),
+      copyDeviationsToFolder: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockJob = {
+      id: 'post-publish-action-action-1',
+      attemptsMade: 0,
+      data: { actionId: 'action-1', deviationId: 'dev-123', userId: 'user-123' },
+      opts: { attempts: 5 },
+    };
+  });
+
+  it('should move the deviation and mirror the gallery locally', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce(moveAction);
+
+    const result = await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ completed: true });
+    expect(mockDeps.moveDeviationsToFolder).toHaveBeenCalledWith(deviation.user, 'folder-archive', [
+      'da-123',
+    ]);
+    expect(mockPrisma.postPublishAction.update).toHaveBeenCalledWith({
+      where: { id: 'action-1' },
+      data: expect.objectContaining({ status: 'completed', completedAt: expect.any(Date) }),
+    });
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ galleryIds: ['folder-archive'] }),
+    });
+    expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          type: 'post_publish_action_completed',
+          metadata: expect.objectContaining({ actionType: 'move_to_gallery' }),
+        }),
+      ],
+    });
+  });
+
+  it('should append copied galleries without duplicates', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce({
+      ...moveAction,
+      type: 'copy_to_gallery',
+    });
+
+    await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(mockDeps.copyDeviationsToFolder).toHaveBeenCalledWith(deviation.user, 'folder-archive', [
+      'da-123',
+    ]);
+    expect(mockPrisma.deviation.update).toHaveBeenCalledWith({
+      where: { id: 'dev-123' },
+      data: expect.objectContaining({ galleryIds: ['folder-new', 'folder-archive'] }),
+    });
+  });
+
+  it('should update only the provided metadata fields', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce({
+      ...moveAction,
+      type: 'update_metadata',
+      payload: { title: 'New title', tags: ['archive'] },
+    });
+
+    await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(mockDeps.updateDeviationMetadata).toHaveBeenCalledWith(deviation.user, 'da-123', {
+      title: 'New title',
+      tags: ['archive'],
+    });
+    const data = mockPrisma.deviation.update.mock.calls[0][0].data;
+    expect(data).toMatchObject({ title: 'New title', tags: ['archive'] });
+    expect(data).not.toHaveProperty('description');
+  });
+
+  it('should skip cancelled actions', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce({
+      ...moveAction,
+      status: 'cancelled',
+    });
+
+    const result = await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ completed: false, skippedReason: 'Action is cancelled' });
+    expect(mockDeps.moveDeviationsToFolder).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the deviation is no longer published', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce({
+      ...moveAction,
+      deviation: { ...deviation, status: 'draft', deviationId: null },
+    });
+
+    const result = await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(result.completed).toBe(false);
+    expect(mockPrisma.postPublishAction.update).toHaveBeenCalledWith({
+      where: { id: 'action-1' },
+      data: expect.objectContaining({ status: 'failed' }),
+    });
+  });
+
+  it('should defer while the user is rate limited', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce(moveAction);
+    mockDeps.rateLimiter.shouldAllowRequest.mockResolvedValueOnce({
+      allowed: false,
+      waitMs: 5000,
+      reason: 'Backoff active',
+    });
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'RATE_LIMIT',
+      isRetryable: true,
+      errorContext: { message: 'RATE_LIMITED: Wait 5000ms - Backoff active' },
+    });
+
+    await expect(runPostPublishActionJob(mockJob, mockDeps)).rejects.toThrow('RATE_LIMITED');
+
+    expect(mockDeps.moveDeviationsToFolder).not.toHaveBeenCalled();
+    expect(mockPrisma.postPublishAction.update).toHaveBeenCalledWith({
+      where: { id: 'action-1' },
+      data: expect.objectContaining({ status: 'pending', attempts: 1 }),
+    });
+  });
+
+  it('should mark the action failed on the final attempt', async () => {
+    mockJob.attemptsMade = 4;
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce(moveAction);
+    mockDeps.moveDeviationsToFolder.mockRejectedValueOnce(new Error('Server error'));
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'SERVER_ERROR',
+      isRetryable: true,
+      errorContext: { message: 'Server error' },
+    });
+
+    await expect(runPostPublishActionJob(mockJob, mockDeps)).rejects.toThrow('Server error');
+
+    expect(mockPrisma.postPublishAction.update).toHaveBeenCalledWith({
+      where: { id: 'action-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'Server error' }),
+    });
+    expect(mockPrisma.deviation.update).not.toHaveBeenCalled();
+    expect(mockPrisma.deviationEvent.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ type: 'post_publish_action_failed' })],
+    });
+  });
+
+  it('should stop retrying on non-retryable errors', async () => {
+    mockPrisma.postPublishAction.findFirst.mockResolvedValueOnce(moveAction);
+    mockDeps.moveDeviationsToFolder.mockRejectedValueOnce(new Error('Folder not found'));
+    mockDeps.errorCategorizer.categorize.mockReturnValueOnce({
+      category: 'VALIDATION_ERROR',
+      isRetryable: false,
+      errorContext: { message: 'Folder not found' },
+    });
+
+    const result = await runPostPublishActionJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ completed: false });
+  });
+});
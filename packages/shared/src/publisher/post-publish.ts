@@ -0,0 +1,237 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { Job } from 'bullmq';
+import type { Deviation, PostPublishAction, User } from '@prisma/client';
+import { recordDeviationEvent } from '../deviation-events.js';
+import type {
+  GalleryActionPayload,
+  MetadataUpdatePayload,
+  PostPublishActionPayload,
+} from '../index.js';
+import type {
+  PostPublishActionDependencies,
+  PostPublishActionJobData,
+  PostPublishActionJobResult,
+} from './types.js';
+
+type ActionWithDeviation = Omit<PostPublishAction, 'payload'> & {
+  payload: PostPublishActionPayload;
+  deviation: Deviation & { user: User };
+};
+
+/**
+ * Build the local deviation update mirroring a successful action
+ */
+function getLocalUpdate(action: ActionWithDeviation): Record<string, unknown> {
+  switch (action.type) {
+    case 'update_metadata': {
+      const payload = action.payload as MetadataUpdatePayload;
+      const update: Record<string, unknown> = {};
+      if (payload.title !== undefined) update.title = payload.title;
+      if (payload.tags !== undefined) update.tags = payload.tags;
+      if (payload.description !== undefined) update.description = payload.description;
+      return update;
+    }
+
+    case 'move_to_gallery': {
+      const { targetFolderId } = action.payload as GalleryActionPayload;
+      return { galleryIds: [targetFolderId] };
+    }
+
+    case 'copy_to_gallery': {
+      const { targetFolderId } = action.payload as GalleryActionPayload;
+      const galleryIds = action.deviation.galleryIds || [];
+      return {
+        galleryIds: galleryIds.includes(targetFolderId)
+          ? galleryIds
+          : [...galleryIds, targetFolderId],
+      };
+    }
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Run a scheduled post-publish action against DeviantArt
+ *
+ * Actions are stored as PostPublishAction rows and executed by a delayed BullMQ job
+ * at runAt. Cancelled or already completed actions are skipped, so a job that fires
+ * after cancellation is harmless. On success the local deviation is updated to
+ * match what was changed on DeviantArt.
+ *
+ * @param job - BullMQ job referencing the action
+ * @param deps - Dependencies injected by the calling service
+ * @returns Result indicating whether the action was completed
+ */
+export async function runPostPublishActionJob(
+  job: Job<PostPublishActionJobData>,
+  deps: PostPublishActionDependencies
+): Promise<PostPublishActionJobResult> {
+  const { actionId, deviationId, userId } = job.data;
+  const attemptNumber = job.attemptsMade + 1;
+  const logger = deps.logger.createJobLogger(job);
+
+  const action = (await deps.prisma.postPublishAction.findFirst({
+    where: { id: actionId },
+    include: { deviation: { include: { user: true } } },
+  })) as ActionWithDeviation | null;
+
+  if (!action) {
+    logger.warn('Post-publish action not found, dropping job', { actionId });
+    return { completed: false, skippedReason: 'Action not found' };
+  }
+
+  if (action.status !== 'pending') {
+    logger.info('Post-publish action is no longer pending, skipping', {
+      actionId,
+      status: action.status,
+    });
+    return { completed: false, skippedReason: `Action is ${action.status}` };
+  }
+
+  const { deviation } = action;
+
+  if (deviation.status !== 'published' || !deviation.deviationId) {
+    const reason = 'Deviation is not published on DeviantArt';
+    await deps.prisma.postPublishAction.update({
+      where: { id: actionId },
+      data: { status: 'failed', errorMessage: reason, updatedAt: new Date() },
+    });
+    return { completed: false, skippedReason: reason };
+  }
+
+  try {
+    const rateLimitCheck = await deps.rateLimiter.shouldAllowRequest(userId);
+    if (!rateLimitCheck.allowed) {
+      logger.warn('Rate limit active, will retry post-publish action', {
+        waitMs: rateLimitCheck.waitMs,
+        reason: rateLimitCheck.reason,
+      });
+      throw new Error(`RATE_LIMITED: Wait ${rateLimitCheck.waitMs}ms - ${rateLimitCheck.reason}`);
+    }
+
+    switch (action.type) {
+      case 'update_metadata':
+        await deps.updateDeviationMetadata(
+          deviation.user,
+          deviation.deviationId,
+          action.payload as MetadataUpdatePayload
+        );
+        break;
+      case 'move_to_gallery':
+        await deps.moveDeviationsToFolder(
+          deviation.user,
+          (action.payload as GalleryActionPayload).targetFolderId,
+          [deviation.deviationId]
+        );
+        break;
+      case 'copy_to_gallery':
+        await deps.copyDeviationsToFolder(
+          deviation.user,
+          (action.payload as GalleryActionPayload).targetFolderId,
+          [deviation.deviationId]
+        );
+        break;
+    }
+
+    await deps.prisma.postPublishAction.update({
+      where: { id: actionId },
+      data: {
+        status: 'completed',
+        attempts: attemptNumber,
+        errorMessage: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    await deps.prisma.deviation.update({
+      where: { id: deviationId },
+      data: { ...getLocalUpdate(action), updatedAt: new Date() },
+    });
+
+    await deps.rateLimiter.recordSuccess(userId);
+
+    await recordDeviationEvent(deps.prisma, {
+      deviationId,
+      type: 'post_publish_action_completed',
+      actor: { type: 'publisher', id: job.id },
+      metadata: {
+        actionId,
+        actionType: action.type,
+        attempt: attemptNumber,
+      },
+    });
+
+    logger.info('Post-publish action completed', { actionId, type: action.type });
+
+    return { completed: true };
+  } catch (error: any) {
+    const categorized = deps.errorCategorizer.categorize(error);
+    const message = categorized.errorContext?.message ?? 'Unknown error';
+
+    logger.error('Post-publish action failed', error, {
+      actionId,
+      type: action.type,
+      errorCategory: categorized.category,
+      isRetryable: categorized.isRetryable,
+    });
+
+    if (categorized.category === 'RATE_LIMIT') {
+      await deps.rateLimiter.recordFailure(userId, error.retryAfter);
+    }
+
+    const isFinalAttempt = attemptNumber >= (job.opts.attempts || 1) || !categorized.isRetryable;
+
+    await deps.prisma.postPublishAction.update({
+      where: { id: actionId },
+      data: {
+        status: isFinalAttempt ? 'failed' : 'pending',
+        attempts: attemptNumber,
+        errorMessage: message,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (!isFinalAttempt) {
+      throw error; // Re-throw to trigger BullMQ retry
+    }
+
+    await recordDeviationEvent(deps.prisma, {
+      deviationId,
+      type: 'post_publish_action_failed',
+      actor: { type: 'publisher', id: job.id },
+      metadata: {
+        actionId,
+        actionType: action.type,
+        attempt: attemptNumber,
+        category: categorized.category,
+        message,
+      },
+    });
+
+    // Non-retryable errors end here without burning the remaining attempts
+    if (!categorized.isRetryable) {
+      return { completed: false };
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PublishPriority,
+  TURNS_PER_LANE,
+  getJobPriority,
+  getPriorityLane,
+  getPriorityTurn,
+  getPublishLane,
+} from './priority.js';
+
+describe('getPublishLane', () => {
+  it('should map priorities to lanes', () => {
+    expect(getPublishLane(PublishPriority.INTERACTIVE)).toBe('interactive');
+    expect(getPublishLane(PublishPriority.RECOVERY)).toBe('recovery');
+    expect(getPublishLane(PublishPriority.SCHEDULED)).toBe('scheduled');
+    expect(getPublishLane(PublishPriority.AUTOMATION)).toBe('automation');
+  });
+
+  it('should report jobs without a priority as scheduled', () => {
+    expect(getPublishLane(undefined)).toBe('scheduled');
+    expect(getPublishLane(0)).toBe('scheduled');
+  });
+
+  it('should order interactive before recovery before automation', () => {
+    expect(PublishPriority.INTERACTIVE).toBeLessThan(PublishPriority.RECOVERY);
+    expect(PublishPriority.RECOVERY).toBeLessThan(PublishPriority.AUTOMATION);
+  });
+
+  it('should map job priorities with turns to their lane', () => {
+    expect(getPublishLane(getJobPriority(PublishPriority.INTERACTIVE, 5))).toBe('interactive');
+    expect(getPublishLane(getJobPriority(PublishPriority.AUTOMATION, 99))).toBe('automation');
+  });
+});
+
+describe('getJobPriority', () => {
+  it('should keep every turn of a lane ahead of the next lane', () => {
+    expect(getJobPriority(PublishPriority.INTERACTIVE, TURNS_PER_LANE + 10)).toBeLessThan(
+      getJobPriority(PublishPriority.RECOVERY, 0)
+    );
+  });
+
+  it('should order turns within a lane', () => {
+    expect(getJobPriority(PublishPriority.SCHEDULED, 0)).toBeLessThan(
+      getJobPriority(PublishPriority.SCHEDULED, 1)
+    );
+  });
+
+  it('should stay within the BullMQ priority range', () => {
+    expect(getJobPriority(PublishPriority.AUTOMATION, 1_000_000)).toBeLessThanOrEqual(2_097_152);
+  });
+});
+
+describe('getPriorityLane', () => {
+  it('should read the lane of jobs with and without turns', () => {
+    expect(getPriorityLane(getJobPriority(PublishPriority.RECOVERY, 3))).toBe(
+      PublishPriority.RECOVERY
+    );
+    expect(getPriorityLane(PublishPriority.SCHEDULED)).toBe(PublishPriority.SCHEDULED);
+    expect(getPriorityLane(undefined)).toBe(0);
+  });
+});
+
+describe('getPriorityTurn', () => {
+  it('should read the turn of jobs with and without turns', () => {
+    expect(getPriorityTurn(getJobPriority(PublishPriority.RECOVERY, 3))).toBe(3);
+    expect(getPriorityTurn(PublishPriority.SCHEDULED)).toBe(0);
+    expect(getPriorityTurn(undefined)).toBe(0);
+  });
+});
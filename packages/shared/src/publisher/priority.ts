@@ -0,0 +1,77 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Priority lanes for the deviation-publisher queue.
+ *
+ * BullMQ picks lower priority numbers first. Every job is added with a lane, since
+ * BullMQ runs jobs without a priority ahead of all prioritized ones.
+ */
+export const PublishPriority = {
+  INTERACTIVE: 1, // "Publish now"
+  RECOVERY: 2, // Stuck/past-due recovery and dead-letter replays
+  SCHEDULED: 3, // Posts scheduled by the user
+  AUTOMATION: 4, // Posts scheduled by automations
+} as const;
+export type PublishPriority = (typeof PublishPriority)[keyof typeof PublishPriority];
+
+export type PublishLane = 'interactive' | 'recovery' | 'scheduled' | 'automation';
+
+export const PUBLISH_LANES: Record<PublishPriority, PublishLane> = {
+  [PublishPriority.INTERACTIVE]: 'interactive',
+  [PublishPriority.RECOVERY]: 'recovery',
+  [PublishPriority.SCHEDULED]: 'scheduled',
+  [PublishPriority.AUTOMATION]: 'automation',
+};
+
+/**
+ * Turns per lane. A job's BullMQ priority is its lane times this plus the user's turn
+ * (see PublishTurns), so every job of a lane is picked before the next lane's, and
+ * within a lane users with a backlog take turns with everyone else.
+ */
+export const TURNS_PER_LANE = 100;
+
+/**
+ * BullMQ priority of a job in a lane. Turns past the last one share it.
+ */
+export function getJobPriority(lane: PublishPriority, turn: number): number {
+  return lane * TURNS_PER_LANE + Math.min(Math.max(turn, 0), TURNS_PER_LANE - 1);
+}
+
+/**
+ * Lane number of a BullMQ priority. Jobs queued before turns existed carry the bare lane;
+ * jobs without a priority return 0.
+ */
+export function getPriorityLane(priority: number | undefined): number {
+  if (!priority) return 0;
+  return priority >= TURNS_PER_LANE ? Math.floor(priority / TURNS_PER_LANE) : priority;
+}
+
+/**
+ * User's turn encoded in a BullMQ priority, 0 for jobs queued before turns existed.
+ */
+export function getPriorityTurn(priority: number | undefined): number {
+  return priority && priority >= TURNS_PER_LANE ? priority % TURNS_PER_LANE : 0;
+}
+
+/**
+ * Lane of a job from its BullMQ priority. Jobs queued before lanes existed have no
+ * priority and are reported as scheduled.
+ */
+export function getPublishLane(priority: number | undefined): PublishLane {
+  return PUBLISH_LANES[getPriorityLane(priority) as PublishPriority] ?? 'scheduled';
+}
@@ -0,0 +1,90 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { PublishTurns } from './turns.js';
+
+const now = new Date('2025-01-01T12:00:00Z');
+const at = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+describe('PublishTurns', () => {
+  let redis: Redis;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now, toFake: ['Date'] });
+    redis = new RedisMock() as unknown as Redis;
+    await redis.flushall();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should count the user's jobs due in the hour before", async () => {
+    const turns = new PublishTurns(redis);
+
+    expect(await turns.take('user-1', 'job-1', now)).toBe(0);
+    expect(await turns.take('user-1', 'job-2', now)).toBe(1);
+    expect(await turns.take('user-1', 'job-3', at(30))).toBe(2);
+    expect(await turns.take('user-1', 'job-4', at(120))).toBe(0);
+  });
+
+  it('should keep users apart', async () => {
+    const turns = new PublishTurns(redis);
+
+    expect(await turns.take('user-1', 'job-1', now)).toBe(0);
+    expect(await turns.take('user-1', 'job-2', now)).toBe(1);
+    expect(await turns.take('user-2', 'job-3', now)).toBe(0);
+  });
+
+  it('should give a re-queued job a new turn', async () => {
+    const turns = new PublishTurns(redis);
+
+    await turns.take('user-1', 'job-1', now);
+    await turns.take('user-1', 'job-2', now);
+
+    expect(await turns.take('user-1', 'job-1', now)).toBe(1);
+  });
+
+  it('should treat overdue jobs as due now', async () => {
+    const turns = new PublishTurns(redis);
+
+    expect(await turns.take('user-1', 'job-1', at(-120))).toBe(0);
+    expect(await turns.take('user-1', 'job-2', at(-120))).toBe(1);
+  });
+
+  it('should forget jobs that were due more than an hour ago', async () => {
+    const turns = new PublishTurns(redis);
+
+    await turns.take('user-1', 'job-1', now);
+    vi.setSystemTime(at(61));
+
+    expect(await turns.take('user-1', 'job-2', at(61))).toBe(0);
+  });
+
+  it('should fail open', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(redis, 'eval').mockRejectedValue(new Error('Connection lost'));
+    const turns = new PublishTurns(redis);
+
+    expect(await turns.take('user-1', 'job-1', now)).toBe(0);
+    expect(await new PublishTurns(null).take('user-1', 'job-1', now)).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Per-user turns in the deviation-publisher queue.
+ *
+ * BullMQ picks the lowest priority first and FIFO within a priority, so a user who
+ * queues a batch of posts would hold the workers until the whole batch is done. Each
+ * job gets a turn when it is queued: how many of the user's jobs are due in the hour
+ * before it. The turn is part of the job's priority (getJobPriority), so when jobs of
+ * several users are ready at once, each user's first job runs before anyone's second.
+ * This happens before pickup, for every job queued by the backend or the publisher.
+ *
+ * Redis errors fail open (turn 0) - a Redis hiccup shouldn't hold back a post.
+ */
+
+import type { Redis } from 'ioredis';
+
+// Jobs due this long before a job count towards its turn
+export const PUBLISH_TURN_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Lua script for atomic turn assignment
+ *
+ * KEYS[1] = user's queued jobs (score = due time)
+ * ARGV[1] = job ID
+ * ARGV[2] = due time
+ * ARGV[3] = current timestamp
+ * ARGV[4] = window in ms
+ *
+ * Returns the job's turn
+ */
+const TAKE_TURN_SCRIPT = `
+  local jobId = ARGV[1]
+  local due = tonumber(ARGV[2])
+  local now = tonumber(ARGV[3])
+  local window = tonumber(ARGV[4])
+
+  -- Jobs due before the window of any job queued from now on
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+  -- A re-queued job takes a new turn
+  redis.call('ZREM', KEYS[1], jobId)
+
+  local turn = redis.call('ZCOUNT', KEYS[1], due - window, due)
+  redis.call('ZADD', KEYS[1], due, jobId)
+
+  local last = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+  redis.call('PEXPIRE', KEYS[1], math.max(tonumber(last[2]) - now, 0) + window)
+  return turn
+`;
+
+export class PublishTurns {
+  constructor(private redis: Redis | null) {}
+
+  /**
+   * Take the user's next turn for a job due at `dueAt`
+   */
+  async take(userId: string, jobId: string, dueAt: Date): Promise<number> {
+    if (!this.redis) return 0;
+
+    try {
+      const now = Date.now();
+      const turn = await this.redis.eval(
+        TAKE_TURN_SCRIPT,
+        1,
+        `publish_turns:${userId}`,
+        jobId,
+        Math.max(dueAt.getTime(), now).toString(),
+        now.toString(),
+        PUBLISH_TURN_WINDOW_MS.toString()
+      );
+      return Number(turn);
+    } catch (error) {
+      console.error('[PublishTurns] Error taking a turn:', error);
+      return 0;
+    }
+  }
+}
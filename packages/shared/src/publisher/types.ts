@@ -17,7 +17,8 @@
 
 import type { Job } from 'bullmq';
 import type { PrismaClient, User, Deviation, DeviationFile } from '@prisma/client';
-import type { UploadMode } from '../index.js';
+import type { UploadMode, MetadataUpdatePayload } from '../index.js';
+import type { WebhookEventInput } from '../webhooks.js';
 
 /**
  * Dependencies required by the publisher core logic
@@ -56,6 +57,12 @@ export interface PublisherDependencies {
   /** Function to queue storage cleanup */
   queueStorageCleanup: (deviationId: string, userId: string) => Promise<void>;
 
+  /** Function to queue the first comment job (only called when a comment template is set) */
+  queueFirstComment: (deviationId: string, userId: string) => Promise<void>;
+
+  /** Function to emit a user webhook event (best-effort, never throws) */
+  emitWebhookEvent: (input: WebhookEventInput) => Promise<void>;
+
   /** Error categorizer instance */
   errorCategorizer: any; // Will use ErrorCategorizer type
 }
@@ -67,6 +74,19 @@ export interface DeviationPublishJobData {
   deviationId: string;
   userId: string;
   uploadMode: UploadMode;
+  attemptHistory?: PublishAttemptRecord[]; // Failed attempts so far, carried across BullMQ retries
+}
+
+/**
+ * A single failed publish attempt, kept for the dead-letter store
+ */
+export interface PublishAttemptRecord {
+  attempt: number;
+  failedAt: string; // ISO timestamp
+  category: string;
+  message: string;
+  status?: number;
+  retryAfter?: string;
 }
 
 /**
@@ -94,3 +114,130 @@ export type DeviationWithRelations = Deviation & {
   files: DeviationFile[];
   user: User;
 };
+
+/**
+ * Dependencies required by the first comment job
+ */
+export interface CommentPosterDependencies {
+  /** Prisma client for database operations */
+  prisma: PrismaClient;
+
+  /** Structured logger instance */
+  logger: any; // Will use StructuredLogger type
+
+  /** Rate limiter instance (shared with publishing - comments count against the same user quota) */
+  rateLimiter: any; // Will use AdaptiveRateLimiter type
+
+  /** Error categorizer instance */
+  errorCategorizer: any; // Will use ErrorCategorizer type
+
+  /** Function to post a comment on a published deviation */
+  postDeviationComment: (
+    user: User,
+    deviantArtDeviationId: string,
+    body: string
+  ) => Promise<{ commentId: string }>;
+}
+
+/**
+ * Job data structure for posting the first comment
+ */
+export interface DeviationCommentJobData {
+  deviationId: string;
+  userId: string;
+}
+
+/**
+ * Result from the first comment job
+ */
+export interface CommentJobResult {
+  posted: boolean;
+  alreadyPosted?: boolean;
+  skippedReason?: string;
+  commentId?: string;
+}
+
+/**
+ * Dependencies required by the post-publish action job
+ */
+export interface PostPublishActionDependencies {
+  /** Prisma client for database operations */
+  prisma: PrismaClient;
+
+  /** Structured logger instance */
+  logger: any; // Will use StructuredLogger type
+
+  /** Rate limiter instance (shared with publishing - actions count against the same user quota) */
+  rateLimiter: any; // Will use AdaptiveRateLimiter type
+
+  /** Error categorizer instance */
+  errorCategorizer: any; // Will use ErrorCategorizer type
+
+  /** Function to update title, tags or description of a published deviation */
+  updateDeviationMetadata: (
+    user: User,
+    deviantArtDeviationId: string,
+    metadata: MetadataUpdatePayload
+  ) => Promise<void>;
+
+  /** Function to move deviations into a gallery folder */
+  moveDeviationsToFolder: (
+    user: User,
+    targetFolderId: string,
+    deviantArtDeviationIds: string[]
+  ) => Promise<void>;
+
+  /** Function to copy deviations into a gallery folder */
+  copyDeviationsToFolder: (
+    user: User,
+    targetFolderId: string,
+    deviantArtDeviationIds: string[]
+  ) => Promise<void>;
+}
+
+/**
+ * Job data structure for running a post-publish action
+ */
+export interface PostPublishActionJobData {
+  actionId: string;
+  deviationId: string;
+  userId: string;
+}
+
+/**
+ * Result from the post-publish action job
+ */
+export interface PostPublishActionJobResult {
+  completed: boolean;
+  skippedReason?: string;
+}
+
+/**
+ * Dependencies required by the webhook delivery job
+ */
+export interface WebhookDeliveryDependencies {
+  /** Prisma client for database operations */
+  prisma: PrismaClient;
+
+  /** Structured logger instance */
+  logger: any; // Will use StructuredLogger type
+
+  /** HTTP client, injectable for tests */
+  fetch: typeof fetch;
+}
+
+/**
+ * Job data structure for sending a webhook delivery
+ */
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+/**
+ * Result from the webhook delivery job
+ */
+export interface WebhookDeliveryJobResult {
+  delivered: boolean;
+  responseStatus?: number;
+  skippedReason?: string;
+}
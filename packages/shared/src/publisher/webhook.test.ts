@@ -0,0 +1,223 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../crypto.js', () => ({
+  decryptToken: vi.fn((value: string) => value.replace(/^enc:/, '')),
+}));
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+import { lookup } from 'dns/promises';
+import { deliverWebhookJob } from './webhook.js';
+import { signWebhookPayload } from '../webhooks.js';
+
+describe('deliverWebhookJob', () => {
+  let mockPrisma: any;
+  let mockDeps: any;
+  let mockJob: any;
+
+  const delivery = {
+    id: 'delivery-1',
+    webhookId: 'hook-1',
+    event: 'deviation.published',
+    payload: { event: 'deviation.published', createdAt: '2025-01-01T00:00:00.000Z', data: {} },
+    status: 'pending',
+    webhook: {
+      id: 'hook-1',
+      url: 'https://example.com/hook',
+      secret: 'enc:whsec_test',
+      enabled: true,
+    },
+  };
+
+  function mockResponse(status: number, body = '') {
+    return { ok: status >= 200 && status < 300, status, text: vi.fn().mockResolvedValue(body) };
+  }
+
+  beforeEach(() => {
+    vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+    mockPrisma = {
+      webhookDelivery: {
+        findFirst: vi.fn().mockResolvedValue(delivery),
+        update: vi.fn(),
+      },
+    };
+
+    mockDeps = {
+      prisma: mockPrisma,
+      logger: {
+        createJobLogger: vi.fn(() => ({
+          info: vi.fn(),
+          warn: vi.fn(),
+          error: vi.fn(),
+          debug: vi.fn(),
+        })),
+      },
+      fetch: vi.fn().mockResolvedValue(mockResponse(200, 'ok')),
+    };
+
+    mockJob = {
+      id: 'webhook-delivery-delivery-1',
+      attemptsMade: 0,
+      data: { deliveryId: 'delivery-1' },
+      opts: { attempts: 6 },
+    };
+  });
+
+  it('should POST a signed body and mark the delivery succeeded', async () => {
+    const result = await deliverWebhookJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ delivered: true, responseStatus: 200 });
+
+    const [url, init] = mockDeps.fetch.mock.calls[0];
+    expect(url).toBe('https://example.com/hook');
+    expect(JSON.parse(init.body)).toEqual({ id: 'delivery-1', ...delivery.payload });
+    const timestamp = Number(init.headers['X-Isekai-Timestamp']);
+    expect(init.headers['X-Isekai-Signature']).toBe(
+      signWebhookPayload('whsec_test', timestamp, init.body)
+    );
+    expect(init.headers['X-Isekai-Event']).toBe('deviation.published');
+    expect(init.headers['X-Isekai-Delivery']).toBe('delivery-1');
+    expect(init.redirect).toBe('manual');
+
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'succeeded',
+        attempts: { increment: 1 },
+        responseStatus: 200,
+        responseBody: 'ok',
+        deliveredAt: expect.any(Date),
+      }),
+    });
+  });
+
+  it('should keep the delivery pending and rethrow on retryable errors', async () => {
+    mockDeps.fetch.mockResolvedValue(mockResponse(503));
+
+    await expect(deliverWebhookJob(mockJob, mockDeps)).rejects.toThrow(
+      'Receiver responded with HTTP 503'
+    );
+
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({ status: 'pending', responseStatus: 503 }),
+    });
+  });
+
+  it('should mark the delivery failed on the final attempt', async () => {
+    mockDeps.fetch.mockRejectedValue(new Error('ECONNREFUSED'));
+    mockJob.attemptsMade = 5;
+
+    await expect(deliverWebhookJob(mockJob, mockDeps)).rejects.toThrow('ECONNREFUSED');
+
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({ status: 'failed', errorMessage: 'ECONNREFUSED' }),
+    });
+  });
+
+  it('should not retry deliveries the receiver rejected', async () => {
+    mockDeps.fetch.mockResolvedValue(mockResponse(410, 'gone'));
+
+    const result = await deliverWebhookJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ delivered: false, responseStatus: 410 });
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({ status: 'failed', responseBody: 'gone' }),
+    });
+  });
+
+  it('should not follow or retry redirects', async () => {
+    mockDeps.fetch.mockResolvedValue(mockResponse(302));
+
+    const result = await deliverWebhookJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ delivered: false, responseStatus: 302 });
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'failed',
+        errorMessage: 'Receiver redirected with HTTP 302; redirects are not followed',
+      }),
+    });
+  });
+
+  it('should store only a short single-line snippet of the response body', async () => {
+    mockDeps.fetch.mockResolvedValue(mockResponse(200, `<h1>\n  ok\u0000</h1>${'x'.repeat(500)}`));
+
+    await deliverWebhookJob(mockJob, mockDeps);
+
+    const { responseBody } = mockPrisma.webhookDelivery.update.mock.calls[0][0].data;
+    expect(responseBody).toHaveLength(200);
+    expect(responseBody.startsWith('<h1> ok </h1>xxx')).toBe(true);
+  });
+
+  it('should refuse to send when the host resolves to a private address', async () => {
+    vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as any);
+
+    const result = await deliverWebhookJob(mockJob, mockDeps);
+
+    expect(result).toEqual({
+      delivered: false,
+      skippedReason: 'URL must not point to a private or local address',
+    });
+    expect(mockDeps.fetch).not.toHaveBeenCalled();
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'failed',
+        errorMessage: 'URL must not point to a private or local address',
+      }),
+    });
+  });
+
+  it('should keep the delivery pending and rethrow when the host does not resolve', async () => {
+    vi.mocked(lookup).mockRejectedValue(new Error('EAI_AGAIN'));
+
+    await expect(deliverWebhookJob(mockJob, mockDeps)).rejects.toThrow(
+      'Could not resolve host example.com'
+    );
+
+    expect(mockDeps.fetch).not.toHaveBeenCalled();
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'delivery-1' },
+      data: expect.objectContaining({
+        status: 'pending',
+        errorMessage: 'Could not resolve host example.com',
+      }),
+    });
+  });
+
+  it('should skip disabled webhooks without sending', async () => {
+    mockPrisma.webhookDelivery.findFirst.mockResolvedValue({
+      ...delivery,
+      webhook: { ...delivery.webhook, enabled: false },
+    });
+
+    const result = await deliverWebhookJob(mockJob, mockDeps);
+
+    expect(result).toEqual({ delivered: false, skippedReason: 'Webhook is disabled' });
+    expect(mockDeps.fetch).not.toHaveBeenCalled();
+  });
+});
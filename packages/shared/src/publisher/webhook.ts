@@ -0,0 +1,200 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { Job } from 'bullmq';
+import { decryptToken } from '../crypto.js';
+import { WEBHOOK_HEADERS, checkWebhookUrl, signWebhookPayload } from '../webhooks.js';
+import type {
+  WebhookDeliveryDependencies,
+  WebhookDeliveryJobData,
+  WebhookDeliveryJobResult,
+} from './types.js';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_SNIPPET_LENGTH = 200;
+
+/**
+ * Receiver errors worth retrying: server errors, rate limiting and timeouts.
+ * Other 4xx responses mean the receiver rejected the request and won't change its mind.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+/**
+ * Short, single-line excerpt of a response body for the delivery log
+ *
+ * Control characters and runs of whitespace are collapsed so receivers can't
+ * inject markup or multi-line content into the log.
+ */
+function toResponseSnippet(body: string): string | null {
+  const snippet = body
+    .replace(/[\u0000-\u001f\u007f-\u009f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_RESPONSE_SNIPPET_LENGTH);
+
+  return snippet || null;
+}
+
+/**
+ * Send a webhook delivery
+ *
+ * Builds the body from the stored payload, signs it with the webhook's secret and
+ * POSTs it to the subscribed URL. The URL is checked again before sending and
+ * redirects are not followed, so a receiver can't point the request at a private
+ * address. Every attempt is logged on the delivery row (status, response code,
+ * short body snippet, duration).
+ *
+ * @param job - BullMQ job referencing the delivery
+ * @param deps - Dependencies injected by the calling service
+ * @returns Result indicating whether the receiver accepted the delivery
+ */
+export async function deliverWebhookJob(
+  job: Job<WebhookDeliveryJobData>,
+  deps: WebhookDeliveryDependencies
+): Promise<WebhookDeliveryJobResult> {
+  const { deliveryId } = job.data;
+  const attemptNumber = job.attemptsMade + 1;
+  const logger = deps.logger.createJobLogger(job);
+
+  const delivery = await deps.prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+
+  if (!delivery) {
+    logger.warn('Webhook delivery not found, dropping job', { deliveryId });
+    return { delivered: false, skippedReason: 'Delivery not found' };
+  }
+
+  if (!delivery.webhook.enabled) {
+    await deps.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', errorMessage: 'Webhook is disabled' },
+    });
+    return { delivered: false, skippedReason: 'Webhook is disabled' };
+  }
+
+  // A host that resolves to a private address is never called; a failed lookup is
+  // retried like a network error
+  const urlCheck = await checkWebhookUrl(delivery.webhook.url);
+  if (urlCheck && !urlCheck.transient) {
+    await deps.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', attempts: { increment: 1 }, errorMessage: urlCheck.error },
+    });
+    logger.warn('Webhook URL rejected, not sending', { deliveryId, errorMessage: urlCheck.error });
+    return { delivered: false, skippedReason: urlCheck.error };
+  }
+
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = signWebhookPayload(decryptToken(delivery.webhook.secret), timestamp, body);
+
+  const startTime = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+  let isRetryable = true;
+
+  if (urlCheck) {
+    // Only a failed DNS lookup gets here
+    errorMessage = urlCheck.error;
+  } else {
+    try {
+      const response = await deps.fetch(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Isekai-Webhooks/1.0',
+          [WEBHOOK_HEADERS.EVENT]: delivery.event,
+          [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+          [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+          [WEBHOOK_HEADERS.SIGNATURE]: signature,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = toResponseSnippet(await response.text().catch(() => ''));
+
+      if (response.status >= 300 && response.status < 400) {
+        errorMessage = `Receiver redirected with HTTP ${response.status}; redirects are not followed`;
+        isRetryable = false;
+      } else if (!response.ok) {
+        errorMessage = `Receiver responded with HTTP ${response.status}`;
+        isRetryable = isRetryableStatus(response.status);
+      }
+    } catch (error) {
+      // Network errors and timeouts
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  const durationMs = Date.now() - startTime;
+
+  if (!errorMessage) {
+    await deps.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'succeeded',
+        attempts: { increment: 1 },
+        responseStatus,
+        responseBody,
+        errorMessage: null,
+        durationMs,
+        deliveredAt: new Date(),
+      },
+    });
+
+    logger.info('Webhook delivered', { deliveryId, event: delivery.event, responseStatus });
+    return { delivered: true, responseStatus: responseStatus! };
+  }
+
+  const isFinalAttempt = attemptNumber >= (job.opts.attempts || 1) || !isRetryable;
+
+  await deps.prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: isFinalAttempt ? 'failed' : 'pending',
+      attempts: { increment: 1 },
+      responseStatus,
+      responseBody,
+      errorMessage,
+      durationMs,
+    },
+  });
+
+  logger.warn('Webhook delivery failed', {
+    deliveryId,
+    event: delivery.event,
+    responseStatus,
+    errorMessage,
+    attempt: attemptNumber,
+    isRetryable,
+  });
+
+  // Rejected by the receiver - retrying won't help
+  if (!isRetryable) {
+    return { delivered: false, responseStatus: responseStatus ?? undefined };
+  }
+
+  throw new Error(errorMessage); // Re-throw to trigger BullMQ retry
+}
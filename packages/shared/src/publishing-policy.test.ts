@@ -0,0 +1,238 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findNextAllowedSlot,
+  getPublishingPolicy,
+  resolvePublishSlot,
+  zonedTimeToUtc,
+  type PublishingPolicy,
+} from './publishing-policy.js';
+
+const noPolicy: PublishingPolicy = {
+  maxPostsPerDay: null,
+  minPostGapMinutes: null,
+  quietHours: [],
+};
+
+describe('publishing-policy', () => {
+  describe('findNextAllowedSlot', () => {
+    it('should keep the requested time when nothing blocks it', () => {
+      const requested = new Date('2025-01-15T12:00:00Z');
+
+      expect(findNextAllowedSlot(noPolicy, 'UTC', requested, [])).toEqual({
+        publishAt: requested,
+        deferred: false,
+        reasons: [],
+      });
+    });
+
+    it('should move posts out of quiet hours in the user timezone', () => {
+      const policy = { ...noPolicy, quietHours: [{ start: '22:00', end: '08:00' }] };
+
+      // 23:30 in New York (EST, UTC-5)
+      const slot = findNextAllowedSlot(
+        policy,
+        'America/New_York',
+        new Date('2025-01-16T04:30:00Z'),
+        []
+      );
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-16T13:00:00Z'));
+      expect(slot.reasons).toEqual(['quiet_hours']);
+    });
+
+    it('should handle the early-morning part of a window past midnight', () => {
+      const policy = { ...noPolicy, quietHours: [{ start: '22:00', end: '08:00' }] };
+
+      const slot = findNextAllowedSlot(policy, 'UTC', new Date('2025-01-16T03:00:00Z'), []);
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-16T08:00:00Z'));
+    });
+
+    it('should end quiet hours at the end of a spring-forward gap', () => {
+      const policy = { ...noPolicy, quietHours: [{ start: '22:00', end: '02:30' }] };
+
+      // 00:30 in Berlin on 2025-03-30, 02:30 is skipped when 02:00 jumps to 03:00 (01:00Z)
+      const slot = findNextAllowedSlot(
+        policy,
+        'Europe/Berlin',
+        new Date('2025-03-29T23:30:00Z'),
+        []
+      );
+
+      expect(slot.publishAt).toEqual(new Date('2025-03-30T01:00:00Z'));
+    });
+
+    it('should end quiet hours at the first of two repeated times on a fall-back change', () => {
+      const policy = { ...noPolicy, quietHours: [{ start: '22:00', end: '02:30' }] };
+
+      // 00:30 in Berlin on 2025-10-26, 02:30 happens at 00:30Z (CEST) and 01:30Z (CET)
+      const slot = findNextAllowedSlot(
+        policy,
+        'Europe/Berlin',
+        new Date('2025-10-25T22:30:00Z'),
+        []
+      );
+
+      expect(slot.publishAt).toEqual(new Date('2025-10-26T00:30:00Z'));
+    });
+
+    it('should keep the minimum gap to other posts', () => {
+      const policy = { ...noPolicy, minPostGapMinutes: 60 };
+      const occupied = [new Date('2025-01-15T11:30:00Z'), new Date('2025-01-15T12:45:00Z')];
+
+      const slot = findNextAllowedSlot(policy, 'UTC', new Date('2025-01-15T12:00:00Z'), occupied);
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-15T13:45:00Z'));
+      expect(slot.reasons).toEqual(['min_gap']);
+    });
+
+    it('should defer to the next local day when the daily cap is reached', () => {
+      const policy = { ...noPolicy, maxPostsPerDay: 2 };
+      const occupied = [new Date('2025-01-15T15:00:00Z'), new Date('2025-01-15T18:00:00Z')];
+
+      // 20:00 in New York is still Jan 15 locally
+      const slot = findNextAllowedSlot(
+        policy,
+        'America/New_York',
+        new Date('2025-01-16T01:00:00Z'),
+        occupied
+      );
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-16T05:00:00Z'));
+      expect(slot.reasons).toEqual(['daily_cap']);
+    });
+
+    it('should combine rules until every one is satisfied', () => {
+      const policy: PublishingPolicy = {
+        maxPostsPerDay: 1,
+        minPostGapMinutes: null,
+        quietHours: [{ start: '00:00', end: '09:00' }],
+      };
+
+      const slot = findNextAllowedSlot(policy, 'UTC', new Date('2025-01-15T20:00:00Z'), [
+        new Date('2025-01-15T10:00:00Z'),
+      ]);
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-16T09:00:00Z'));
+      expect(slot.reasons).toEqual(['daily_cap', 'quiet_hours']);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert local times with the offset of that day', () => {
+      expect(zonedTimeToUtc(2025, 1, 6, 9 * 60, 'Asia/Jakarta')).toEqual(
+        new Date('2025-01-06T02:00:00Z')
+      );
+      expect(zonedTimeToUtc(2025, 7, 1, 9 * 60, 'Europe/Berlin')).toEqual(
+        new Date('2025-07-01T07:00:00Z')
+      );
+    });
+
+    it('should move times skipped by a spring-forward change to the end of the gap', () => {
+      // 02:30 does not exist on 2025-03-30 in Berlin, clocks jump from 02:00 to 03:00
+      expect(zonedTimeToUtc(2025, 3, 30, 150, 'Europe/Berlin')).toEqual(
+        new Date('2025-03-30T01:00:00Z')
+      );
+      expect(zonedTimeToUtc(2025, 3, 9, 150, 'America/New_York')).toEqual(
+        new Date('2025-03-09T07:00:00Z')
+      );
+    });
+
+    it('should use the first of two repeated times on a fall-back change', () => {
+      expect(zonedTimeToUtc(2025, 10, 26, 150, 'Europe/Berlin')).toEqual(
+        new Date('2025-10-26T00:30:00Z')
+      );
+      expect(zonedTimeToUtc(2025, 11, 2, 90, 'America/New_York')).toEqual(
+        new Date('2025-11-02T05:30:00Z')
+      );
+    });
+  });
+
+  describe('getPublishingPolicy', () => {
+    it('should drop malformed quiet-hours windows', () => {
+      const policy = getPublishingPolicy({
+        maxPostsPerDay: 3,
+        minPostGapMinutes: null,
+        quietHours: [{ start: '22:00', end: '07:00' }, { start: '25:00', end: '07:00' }, 'x'],
+      });
+
+      expect(policy.quietHours).toEqual([{ start: '22:00', end: '07:00' }]);
+    });
+  });
+
+  describe('resolvePublishSlot', () => {
+    it('should skip the lookup of other posts without a policy', async () => {
+      const prisma: any = { deviation: { findMany: vi.fn() } };
+      const user = {
+        id: 'user-1',
+        timezone: 'UTC',
+        maxPostsPerDay: null,
+        minPostGapMinutes: null,
+        quietHours: [],
+      };
+      const requested = new Date('2025-01-15T12:00:00Z');
+
+      const slot = await resolvePublishSlot(prisma, user, requested);
+
+      expect(slot).toEqual({ publishAt: requested, deferred: false, reasons: [] });
+      expect(prisma.deviation.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should count published and scheduled posts except the deviation itself', async () => {
+      const user = {
+        id: 'user-1',
+        timezone: 'UTC',
+        maxPostsPerDay: null,
+        minPostGapMinutes: 30,
+        quietHours: [],
+      };
+      const prisma: any = {
+        deviation: {
+          findMany: vi.fn().mockResolvedValue([
+            { status: 'published', publishedAt: new Date('2025-01-15T11:50:00Z') },
+            {
+              status: 'scheduled',
+              publishedAt: null,
+              actualPublishAt: new Date('2025-01-15T12:15:00Z'),
+            },
+          ]),
+        },
+      };
+
+      const slot = await resolvePublishSlot(prisma, user, new Date('2025-01-15T12:00:00Z'), {
+        excludeDeviationId: 'dev-1',
+        includeScheduled: true,
+      });
+
+      expect(slot.publishAt).toEqual(new Date('2025-01-15T12:45:00Z'));
+      expect(prisma.deviation.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          id: { not: 'dev-1' },
+          OR: [
+            { status: 'published', publishedAt: { gte: new Date('2025-01-14T12:00:00Z') } },
+            { status: 'scheduled', actualPublishAt: { gte: new Date('2025-01-14T12:00:00Z') } },
+          ],
+        },
+        select: { status: true, publishedAt: true, actualPublishAt: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,363 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * User publishing policy.
+ *
+ * Caps how many posts a user publishes per day, keeps a minimum gap between posts and
+ * blocks quiet-hours windows in the user's timezone. The policy never fails a post: a
+ * blocked time is moved forward to the next allowed slot. It is applied when scheduling
+ * (deviations routes, auto-scheduler) and again by the publisher right before publishing.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+
+export const MAX_QUIET_HOURS_WINDOWS = 5;
+export const MAX_POST_GAP_MINUTES = 24 * 60;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SLOT_ITERATIONS = 1000;
+
+/**
+ * Local time window, e.g. 23:00-07:00. Windows with end before start wrap past midnight.
+ */
+export interface QuietHoursWindow {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface PublishingPolicy {
+  maxPostsPerDay: number | null;
+  minPostGapMinutes: number | null;
+  quietHours: QuietHoursWindow[];
+}
+
+export type PublishingPolicyReason = 'quiet_hours' | 'min_gap' | 'daily_cap';
+
+export interface PublishSlot {
+  publishAt: Date;
+  deferred: boolean;
+  reasons: PublishingPolicyReason[];
+}
+
+export function isValidTimeOfDay(value: string): boolean {
+  return TIME_OF_DAY_PATTERN.test(value);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the policy columns of a user, dropping malformed quiet-hours entries
+ */
+export function getPublishingPolicy(user: {
+  maxPostsPerDay: number | null;
+  minPostGapMinutes: number | null;
+  quietHours: unknown;
+}): PublishingPolicy {
+  const quietHours = Array.isArray(user.quietHours)
+    ? (user.quietHours as QuietHoursWindow[]).filter(
+        (window) =>
+          window &&
+          isValidTimeOfDay(window.start) &&
+          isValidTimeOfDay(window.end) &&
+          window.start !== window.end
+      )
+    : [];
+
+  return {
+    maxPostsPerDay: user.maxPostsPerDay,
+    minPostGapMinutes: user.minPostGapMinutes,
+    quietHours,
+  };
+}
+
+export function hasPublishingPolicy(policy: PublishingPolicy): boolean {
+  return !!policy.maxPostsPerDay || !!policy.minPostGapMinutes || policy.quietHours.length > 0;
+}
+
+// ============================================
+// Timezone helpers
+// ============================================
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// Formatters are expensive to create and the scheduler and forecast call this a lot
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = getZonedFormatter(timezone).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  };
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function getUtcOffset(timestamp: number, timezone: string): number {
+  const parts = getZonedParts(new Date(timestamp), timezone);
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return local - Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Convert a local wall-clock time to UTC, with DST changes handled explicitly:
+ * - A time skipped when clocks go forward (02:30 when 02:00 jumps to 03:00) maps to the
+ *   first minute after the gap (03:00).
+ * - A time repeated when clocks go back (01:30 twice) maps to its first occurrence.
+ *
+ * Day/hour overflow is normalized by Date.UTC, so day + 1 is the next local day.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutesOfDay: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  // Offsets a day either side are the ones before and after any change on this day
+  const offsetBefore = getUtcOffset(wallClock - 24 * 60 * MINUTE_MS, timezone);
+  const offsetAfter = getUtcOffset(wallClock + 24 * 60 * MINUTE_MS, timezone);
+
+  const matches = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter((candidate) => candidate + getUtcOffset(candidate, timezone) === wallClock)
+    .sort((a, b) => a - b);
+  if (matches.length > 0) {
+    return new Date(matches[0]); // Earlier one when the time is repeated
+  }
+
+  // Skipped time: the change is between the two guesses, find its first minute
+  let before = wallClock - offsetAfter;
+  let after = wallClock - offsetBefore;
+  while (after - before > MINUTE_MS) {
+    const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+    if (getUtcOffset(middle, timezone) === offsetBefore) {
+      before = middle;
+    } else {
+      after = middle;
+    }
+  }
+  return new Date(after);
+}
+
+function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localDayKey(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * End of the quiet-hours window containing the date, or null if it's outside all windows
+ */
+function getQuietHoursEnd(date: Date, windows: QuietHoursWindow[], timezone: string): Date | null {
+  const parts = getZonedParts(date, timezone);
+  const now = parts.hour * 60 + parts.minute;
+
+  for (const window of windows) {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+
+    if (start < end && now >= start && now < end) {
+      return zonedTimeToUtc(parts.year, parts.month, parts.day, end, timezone);
+    }
+    if (start > end && now >= start) {
+      return zonedTimeToUtc(parts.year, parts.month, parts.day + 1, end, timezone);
+    }
+    if (start > end && now < end) {
+      return zonedTimeToUtc(parts.year, parts.month, parts.day, end, timezone);
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Slot resolution
+// ============================================
+
+/**
+ * Find the earliest time at or after `requested` that satisfies the policy
+ *
+ * @param policy - The user's publishing policy
+ * @param timezone - IANA timezone for quiet hours and day boundaries
+ * @param requested - Preferred publish time
+ * @param occupied - Publish times of the user's other posts (published or scheduled)
+ * @returns The allowed time and which rules moved it
+ */
+export function findNextAllowedSlot(
+  policy: PublishingPolicy,
+  timezone: string,
+  requested: Date,
+  occupied: Date[]
+): PublishSlot {
+  const reasons = new Set<PublishingPolicyReason>();
+  const gapMs = (policy.minPostGapMinutes ?? 0) * 60 * 1000;
+  let candidate = requested;
+
+  for (let i = 0; i < MAX_SLOT_ITERATIONS; i++) {
+    const quietEnd = getQuietHoursEnd(candidate, policy.quietHours, timezone);
+    if (quietEnd) {
+      reasons.add('quiet_hours');
+      candidate = quietEnd;
+      continue;
+    }
+
+    if (gapMs > 0) {
+      const conflicts = occupied.filter(
+        (time) => Math.abs(time.getTime() - candidate.getTime()) < gapMs
+      );
+      if (conflicts.length > 0) {
+        reasons.add('min_gap');
+        candidate = new Date(Math.max(...conflicts.map((time) => time.getTime())) + gapMs);
+        continue;
+      }
+    }
+
+    if (policy.maxPostsPerDay) {
+      const day = localDayKey(candidate, timezone);
+      const postsThatDay = occupied.filter((time) => localDayKey(time, timezone) === day).length;
+      if (postsThatDay >= policy.maxPostsPerDay) {
+        reasons.add('daily_cap');
+        const parts = getZonedParts(candidate, timezone);
+        candidate = zonedTimeToUtc(parts.year, parts.month, parts.day + 1, 0, timezone);
+        continue;
+      }
+    }
+
+    break;
+  }
+
+  return {
+    publishAt: candidate,
+    deferred: candidate.getTime() !== requested.getTime(),
+    reasons: [...reasons],
+  };
+}
+
+/**
+ * Minimal Prisma surface needed to resolve a slot
+ */
+interface PolicyStore {
+  deviation: Pick<PrismaClient['deviation'], 'findMany'>;
+}
+
+/**
+ * User fields the policy reads
+ */
+export interface PolicyUser {
+  id: string;
+  timezone: string | null;
+  maxPostsPerDay: number | null;
+  minPostGapMinutes: number | null;
+  quietHours: unknown;
+}
+
+export interface ResolvePublishSlotOptions {
+  // The deviation being scheduled, so its own current slot doesn't count
+  excludeDeviationId?: string;
+  // Count other scheduled deviations too (scheduling), or only published ones (publishing)
+  includeScheduled?: boolean;
+}
+
+/**
+ * Apply the user's publishing policy to a requested publish time
+ *
+ * @param prisma - Prisma client
+ * @param user - Owner of the deviation with the policy columns
+ * @param requested - Preferred publish time
+ * @param options - Which existing posts occupy slots
+ * @returns The allowed time; unchanged when the user has no policy
+ */
+export async function resolvePublishSlot(
+  prisma: PolicyStore,
+  user: PolicyUser,
+  requested: Date,
+  options: ResolvePublishSlotOptions = {}
+): Promise<PublishSlot> {
+  const policy = getPublishingPolicy(user);
+  if (!hasPublishingPolicy(policy)) {
+    return { publishAt: requested, deferred: false, reasons: [] };
+  }
+
+  // A day-long window around the request covers the gap and the local day of the request;
+  // later posts matter too once the candidate moves forward
+  const since = new Date(requested.getTime() - DAY_MS);
+  const excludeId = options.excludeDeviationId ? { not: options.excludeDeviationId } : undefined;
+
+  const deviations = await prisma.deviation.findMany({
+    where: {
+      userId: user.id,
+      id: excludeId,
+      OR: [
+        { status: 'published', publishedAt: { gte: since } },
+        ...(options.includeScheduled
+          ? [{ status: 'scheduled' as const, actualPublishAt: { gte: since } }]
+          : []),
+      ],
+    },
+    select: { status: true, publishedAt: true, actualPublishAt: true },
+  });
+
+  const occupied = deviations
+    .map((deviation) =>
+      deviation.status === 'published' ? deviation.publishedAt : deviation.actualPublishAt
+    )
+    .filter((time): time is Date => time !== null);
+
+  return findNextAllowedSlot(policy, user.timezone || 'UTC', requested, occupied);
+}
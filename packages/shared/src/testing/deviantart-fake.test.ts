@@ -0,0 +1,297 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FakeDeviantArtServer, type FakeDeviantArtUser } from './deviantart-fake.js';
+
+describe('FakeDeviantArtServer', () => {
+  let fake: FakeDeviantArtServer;
+  let user: FakeDeviantArtUser;
+
+  beforeAll(async () => {
+    fake = await FakeDeviantArtServer.start();
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+  });
+
+  beforeEach(() => {
+    fake.reset();
+    user = fake.createUser({ username: 'artist' });
+  });
+
+  function api(path: string, init: RequestInit = {}, token = user.accessToken) {
+    return fetch(`${fake.apiUrl}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, ...init.headers },
+    });
+  }
+
+  function postForm(url: string, body: Record<string, string>) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(body),
+    });
+  }
+
+  async function publish(title: string): Promise<string> {
+    const submit = await api('/stash/submit', {
+      method: 'POST',
+      body: new URLSearchParams({ title }),
+    });
+    const { itemid } = await submit.json();
+    const response = await api('/stash/publish', {
+      method: 'POST',
+      body: new URLSearchParams({ itemid: String(itemid) }),
+    });
+    const { deviationid } = await response.json();
+    return deviationid;
+  }
+
+  it('should expose env vars pointing at the server', () => {
+    expect(fake.env()).toEqual({
+      DEVIANTART_API_URL: `${fake.url}/api/v1/oauth2`,
+      DEVIANTART_TOKEN_URL: `${fake.url}/oauth2/token`,
+      DEVIANTART_AUTH_URL: `${fake.url}/oauth2/authorize`,
+    });
+  });
+
+  describe('OAuth', () => {
+    it('should redirect from authorize with a code that exchanges for tokens', async () => {
+      const authorize = await fetch(
+        `${fake.authUrl}?response_type=code&redirect_uri=${encodeURIComponent('http://app.test/callback')}`,
+        { redirect: 'manual' }
+      );
+      expect(authorize.status).toBe(302);
+      const code = new URL(authorize.headers.get('location')!).searchParams.get('code')!;
+
+      const response = await postForm(fake.tokenUrl, { grant_type: 'authorization_code', code });
+      const tokens = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(tokens.access_token).toBe(user.accessToken);
+      expect(tokens.expires_in).toBe(3600);
+
+      const whoami = await api('/user/whoami', {}, tokens.access_token);
+      expect(await whoami.json()).toMatchObject({ userid: user.userid, username: 'artist' });
+    });
+
+    it('should rotate tokens on refresh and reject the old refresh token', async () => {
+      const oldRefreshToken = user.refreshToken;
+
+      const response = await postForm(fake.tokenUrl, {
+        grant_type: 'refresh_token',
+        refresh_token: oldRefreshToken,
+      });
+      expect(response.status).toBe(200);
+      expect((await response.json()).refresh_token).not.toBe(oldRefreshToken);
+
+      const reused = await postForm(fake.tokenUrl, {
+        grant_type: 'refresh_token',
+        refresh_token: oldRefreshToken,
+      });
+      expect(reused.status).toBe(401);
+      expect((await reused.json()).error).toBe('invalid_grant');
+    });
+
+    it('should reject API calls with an expired access token', async () => {
+      fake.expireAccessToken(user.userid);
+
+      const response = await api('/user/whoami');
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe('invalid_token');
+    });
+  });
+
+  describe('stash', () => {
+    it('should submit and publish into the requested gallery', async () => {
+      const folder = fake.createFolder(user.userid, 'Sketches');
+      const form = new FormData();
+      form.append('title', 'My Art');
+      form.append('file', new Blob([Buffer.from('image')], { type: 'image/png' }), 'art.png');
+
+      const submit = await api('/stash/submit', { method: 'POST', body: form });
+      const { itemid } = await submit.json();
+      expect(fake.stash.get(String(itemid))).toMatchObject({
+        title: 'My Art',
+        filename: 'art.png',
+      });
+
+      const publishBody = new URLSearchParams({ itemid: String(itemid), is_mature: 'false' });
+      publishBody.append('tags[]', 'fantasy');
+      publishBody.append('tags[]', 'digital');
+      publishBody.append('galleryids[]', folder.folderid);
+      const publish = await api('/stash/publish', { method: 'POST', body: publishBody });
+      const result = await publish.json();
+
+      expect(publish.status).toBe(200);
+      expect(result.url).toContain('/artist/art/my-art-');
+      expect(fake.deviations.get(result.deviationid)?.tags).toEqual(['fantasy', 'digital']);
+      expect(folder.deviationIds).toEqual([result.deviationid]);
+    });
+
+    it('should reject publishing an unknown item', async () => {
+      const response = await api('/stash/publish', {
+        method: 'POST',
+        body: new URLSearchParams({ itemid: '999' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('deviation edit', () => {
+    it('should update title, tags and description of a published deviation', async () => {
+      const deviationid = await publish('Before');
+
+      const body = new URLSearchParams({ title: 'After', artist_comments: 'Updated' });
+      body.append('tags[]', 'archive');
+      const response = await api(`/deviation/edit/${deviationid}`, { method: 'POST', body });
+
+      expect(response.status).toBe(200);
+      expect(fake.deviations.get(deviationid)).toMatchObject({
+        title: 'After',
+        description: 'Updated',
+        tags: ['archive'],
+      });
+    });
+  });
+
+  describe('comments', () => {
+    it('should post a comment on a published deviation', async () => {
+      const submit = await api('/stash/submit', {
+        method: 'POST',
+        body: new URLSearchParams({ title: 'Commented' }),
+      });
+      const { itemid } = await submit.json();
+      const publish = await api('/stash/publish', {
+        method: 'POST',
+        body: new URLSearchParams({ itemid: String(itemid) }),
+      });
+      const { deviationid } = await publish.json();
+
+      const response = await api(`/comments/post/deviation/${deviationid}`, {
+        method: 'POST',
+        body: new URLSearchParams({ body: 'First!' }),
+      });
+      const comment = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(fake.comments.get(comment.commentid)).toMatchObject({
+        deviationid,
+        body: 'First!',
+        userid: user.userid,
+      });
+    });
+
+    it('should reject comments on unknown deviations', async () => {
+      const response = await api('/comments/post/deviation/missing', {
+        method: 'POST',
+        body: new URLSearchParams({ body: 'Hello' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('gallery folders', () => {
+    it('should create and paginate folders', async () => {
+      await api('/gallery/folders/create', {
+        method: 'POST',
+        body: new URLSearchParams({ folder: 'Comics' }),
+      });
+
+      const page = await (await api('/gallery/folders?limit=1&offset=0')).json();
+
+      expect(page.results).toHaveLength(1);
+      expect(page.has_more).toBe(true);
+      expect(page.next_offset).toBe(1);
+      expect([...fake.folders.values()].map((folder) => folder.name)).toEqual([
+        'Featured',
+        'Comics',
+      ]);
+    });
+
+    it('should move deviations out of their other folders', async () => {
+      const archive = fake.createFolder(user.userid, 'Archive');
+      const deviationid = await publish('Old Post');
+      const featured = [...fake.folders.values()].find((folder) => folder.name === 'Featured')!;
+      expect(featured.deviationIds).toEqual([deviationid]);
+
+      const body = new URLSearchParams({ target_folderid: archive.folderid });
+      body.append('deviationids[]', deviationid);
+      const response = await api('/gallery/folders/move_deviations', { method: 'POST', body });
+
+      expect(response.status).toBe(200);
+      expect(featured.deviationIds).toEqual([]);
+      expect(archive.deviationIds).toEqual([deviationid]);
+      expect(fake.deviations.get(deviationid)?.galleryIds).toEqual([archive.folderid]);
+    });
+
+    it('should keep existing folders when copying', async () => {
+      const archive = fake.createFolder(user.userid, 'Archive');
+      const deviationid = await publish('Copied Post');
+
+      const body = new URLSearchParams({ target_folderid: archive.folderid });
+      body.append('deviationids[]', deviationid);
+      await api('/gallery/folders/copy_deviations', { method: 'POST', body });
+
+      const featured = [...fake.folders.values()].find((folder) => folder.name === 'Featured')!;
+      expect(featured.deviationIds).toEqual([deviationid]);
+      expect(archive.deviationIds).toEqual([deviationid]);
+    });
+  });
+
+  describe('faults', () => {
+    it('should return an injected 429 with Retry-After, then recover', async () => {
+      fake.rateLimit('/api/v1/oauth2/user/whoami', 30);
+
+      const limited = await api('/user/whoami');
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('retry-after')).toBe('30');
+
+      const recovered = await api('/user/whoami');
+      expect(recovered.status).toBe(200);
+    });
+
+    it('should match faults by method and pattern for a number of requests', async () => {
+      fake.injectFault({ method: 'GET', path: /\/gallery\//, status: 503, times: 2 });
+
+      expect((await api('/gallery/folders')).status).toBe(503);
+      expect((await api('/gallery/folders')).status).toBe(503);
+      expect((await api('/gallery/folders')).status).toBe(200);
+      expect(fake.requests.map((request) => request.status)).toEqual([503, 503, 200]);
+    });
+
+    it('should delay responses without failing them', async () => {
+      fake.injectFault({ path: '/api/v1/oauth2/user/whoami', delayMs: 50 });
+
+      const started = Date.now();
+      const response = await api('/user/whoami');
+
+      expect(response.status).toBe(200);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  it('should 404 unknown endpoints', async () => {
+    expect((await api('/nope')).status).toBe(404);
+  });
+});
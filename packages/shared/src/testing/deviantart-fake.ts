@@ -0,0 +1,817 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Fake DeviantArt API
+ *
+ * Stateful in-process HTTP server speaking the subset of the DeviantArt API Isekai uses:
+ * OAuth (authorize/token), user/whoami, stash/submit, stash/publish, deviation/edit,
+ * comments/post, gallery folders (including copy/move) and browse. Point the apps at it through DEVIANTART_API_URL / DEVIANTART_TOKEN_URL /
+ * DEVIANTART_AUTH_URL (see `fake.env()`), then drive real publish and gallery code paths
+ * end to end.
+ *
+ * Faults (429 with Retry-After, 401, 5xx, slow responses) are injected per path with
+ * `injectFault()` and consumed in order.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+const API_PREFIX = '/api/v1/oauth2';
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+
+export interface FakeDeviantArtUser {
+  userid: string;
+  username: string;
+  usericon: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface FakeStashItem {
+  itemid: string;
+  stackid: string;
+  userid: string;
+  title: string;
+  filename: string | null;
+  fields: Record<string, string>;
+}
+
+export interface FakeDeviation {
+  deviationid: string;
+  url: string;
+  title: string;
+  description: string;
+  userid: string;
+  itemid: string;
+  tags: string[];
+  galleryIds: string[];
+  isMature: boolean;
+  publishedTime: number;
+}
+
+export interface FakeComment {
+  commentid: string;
+  deviationid: string;
+  userid: string;
+  body: string;
+}
+
+export interface FakeGalleryFolder {
+  folderid: string;
+  userid: string;
+  name: string;
+  parent: string | null;
+  description: string;
+  deviationIds: string[];
+}
+
+export interface FakeDeviantArtFault {
+  /** Only match this HTTP method (default: any) */
+  method?: string;
+  /** Pathname to match, e.g. '/api/v1/oauth2/stash/submit' or a RegExp */
+  path: string | RegExp;
+  /** Status to respond with; omit for a delay-only fault that then proceeds normally */
+  status?: number;
+  /** Seconds, sent as Retry-After */
+  retryAfter?: number;
+  /** Response body (default: DeviantArt-style error JSON) */
+  body?: unknown;
+  /** Delay before responding */
+  delayMs?: number;
+  /** Number of matching requests affected (default: 1, Infinity for all) */
+  times?: number;
+}
+
+export interface FakeDeviantArtRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, string | string[]>;
+  status: number;
+}
+
+interface ParsedRequest {
+  method: string;
+  path: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  form: URLSearchParams;
+  fields: Record<string, string | string[]>;
+  filename: string | null;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  redirect?: string;
+}
+
+export class FakeDeviantArtServer {
+  readonly users = new Map<string, FakeDeviantArtUser>();
+  readonly stash = new Map<string, FakeStashItem>();
+  readonly deviations = new Map<string, FakeDeviation>();
+  readonly folders = new Map<string, FakeGalleryFolder>();
+  readonly comments = new Map<string, FakeComment>();
+  readonly requests: FakeDeviantArtRequest[] = [];
+
+  private faults: Array<FakeDeviantArtFault & { remaining: number }> = [];
+  private authorizationCodes = new Map<string, string>();
+  private accessTokens = new Map<string, string>();
+  private refreshTokens = new Map<string, string>();
+  private sequence = 1000;
+  private baseUrl = '';
+
+  private constructor(private readonly server: Server) {}
+
+  /**
+   * Start listening on a random local port
+   */
+  static async start(): Promise<FakeDeviantArtServer> {
+    const server = createServer();
+    const fake = new FakeDeviantArtServer(server);
+    server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+      fake.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'server_error', error_description: String(error) }));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    fake.baseUrl = `http://127.0.0.1:${port}`;
+
+    return fake;
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  get apiUrl(): string {
+    return `${this.baseUrl}${API_PREFIX}`;
+  }
+
+  get tokenUrl(): string {
+    return `${this.baseUrl}/oauth2/token`;
+  }
+
+  get authUrl(): string {
+    return `${this.baseUrl}/oauth2/authorize`;
+  }
+
+  /**
+   * Environment variables that point Isekai at this server
+   */
+  env(): Record<string, string> {
+    return {
+      DEVIANTART_API_URL: this.apiUrl,
+      DEVIANTART_TOKEN_URL: this.tokenUrl,
+      DEVIANTART_AUTH_URL: this.authUrl,
+    };
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Drop all state, tokens and pending faults
+   */
+  reset(): void {
+    this.users.clear();
+    this.stash.clear();
+    this.deviations.clear();
+    this.folders.clear();
+    this.comments.clear();
+    this.requests.length = 0;
+    this.faults = [];
+    this.authorizationCodes.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Register a DeviantArt user with a valid access/refresh token pair
+   */
+  createUser(options: { username: string; userid?: string }): FakeDeviantArtUser {
+    const userid = options.userid ?? randomUUID().toUpperCase();
+    const user: FakeDeviantArtUser = {
+      userid,
+      username: options.username,
+      usericon: `${this.baseUrl}/icons/${options.username}.png`,
+      accessToken: '',
+      refreshToken: '',
+    };
+    this.users.set(userid, user);
+    this.rotateTokens(user);
+
+    // Every DeviantArt account has a Featured folder
+    this.createFolder(userid, 'Featured');
+
+    return user;
+  }
+
+  /**
+   * Issue an OAuth authorization code as if the user approved the app
+   */
+  createAuthorizationCode(userid: string): string {
+    const code = `code-${this.nextId()}`;
+    this.authorizationCodes.set(code, userid);
+    return code;
+  }
+
+  /**
+   * Invalidate a user's access token (next API call returns 401, refresh still works)
+   */
+  expireAccessToken(userid: string): void {
+    const user = this.requireUser(userid);
+    this.accessTokens.delete(user.accessToken);
+  }
+
+  /**
+   * Invalidate a user's refresh token (token refresh returns 401)
+   */
+  revokeRefreshToken(userid: string): void {
+    const user = this.requireUser(userid);
+    this.refreshTokens.delete(user.refreshToken);
+  }
+
+  createFolder(userid: string, name: string, parent: string | null = null): FakeGalleryFolder {
+    const folder: FakeGalleryFolder = {
+      folderid: randomUUID().toUpperCase(),
+      userid,
+      name,
+      parent,
+      description: '',
+      deviationIds: [],
+    };
+    this.folders.set(folder.folderid, folder);
+    return folder;
+  }
+
+  injectFault(fault: FakeDeviantArtFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Shorthand for a 429 with Retry-After
+   */
+  rateLimit(path: string | RegExp, retryAfterSeconds: number, times = 1): void {
+    this.injectFault({
+      path,
+      status: 429,
+      retryAfter: retryAfterSeconds,
+      body: { error: 'user_api_threshold', error_description: 'User API threshold exceeded' },
+      times,
+    });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const parsed = await parseRequest(req, this.baseUrl);
+    const fault = this.takeFault(parsed);
+
+    if (fault?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+    }
+
+    let response: FakeResponse;
+    if (fault?.status) {
+      response = {
+        status: fault.status,
+        body: fault.body ?? defaultFaultBody(fault.status),
+        headers: fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : {},
+      };
+    } else {
+      response = this.route(parsed);
+    }
+
+    this.requests.push({
+      method: parsed.method,
+      path: parsed.path,
+      query: Object.fromEntries(parsed.url.searchParams),
+      headers: parsed.headers,
+      body: parsed.fields,
+      status: response.status,
+    });
+
+    if (response.redirect) {
+      res.writeHead(response.status, { Location: response.redirect });
+      res.end();
+      return;
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body ?? {}));
+  }
+
+  private takeFault(request: ParsedRequest): FakeDeviantArtFault | undefined {
+    const fault = this.faults.find(
+      (candidate) =>
+        candidate.remaining > 0 &&
+        (!candidate.method || candidate.method.toUpperCase() === request.method) &&
+        (typeof candidate.path === 'string'
+          ? candidate.path === request.path
+          : candidate.path.test(request.path))
+    );
+
+    if (fault) {
+      fault.remaining--;
+      this.faults = this.faults.filter((candidate) => candidate.remaining > 0);
+    }
+
+    return fault;
+  }
+
+  private route(request: ParsedRequest): FakeResponse {
+    if (request.path === '/oauth2/authorize') {
+      return this.authorize(request);
+    }
+    if (request.path === '/oauth2/token' && request.method === 'POST') {
+      return this.token(request);
+    }
+    if (!request.path.startsWith(API_PREFIX)) {
+      return notFound();
+    }
+
+    const user = this.authenticate(request);
+    if (!user) {
+      return {
+        status: 401,
+        body: { error: 'invalid_token', error_description: 'Expired oAuth2 user token.' },
+      };
+    }
+
+    const path = request.path.slice(API_PREFIX.length);
+    const { method } = request;
+
+    if (method === 'GET' && path === '/user/whoami') {
+      return ok({ userid: user.userid, username: user.username, usericon: user.usericon });
+    }
+    if (method === 'POST' && path === '/stash/submit') {
+      return this.stashSubmit(user, request);
+    }
+    if (method === 'POST' && path === '/stash/publish') {
+      return this.stashPublish(user, request);
+    }
+    if (method === 'POST' && path.startsWith('/deviation/edit/')) {
+      return this.editDeviation(user, path.slice('/deviation/edit/'.length), request);
+    }
+    if (method === 'POST' && path.startsWith('/comments/post/deviation/')) {
+      return this.postComment(user, path.slice('/comments/post/deviation/'.length), request);
+    }
+    if (method === 'GET' && path === '/gallery/folders') {
+      return this.listFolders(user, request);
+    }
+    if (method === 'POST' && path === '/gallery/folders/create') {
+      const folder = this.createFolder(
+        user.userid,
+        field(request, 'folder') ?? 'Untitled',
+        field(request, 'parent') ?? null
+      );
+      folder.description = field(request, 'description') ?? '';
+      return ok(transformFolder(folder, this.deviations));
+    }
+    if (method === 'POST' && path === '/gallery/folders/copy_deviations') {
+      return this.addToFolder(user, request, false);
+    }
+    if (method === 'POST' && path === '/gallery/folders/move_deviations') {
+      return this.addToFolder(user, request, true);
+    }
+    if (method === 'GET' && path.startsWith('/gallery/')) {
+      return this.folderContents(user, path.slice('/gallery/'.length), request);
+    }
+    if (method === 'GET' && path.startsWith('/browse/')) {
+      return paginate(
+        [...this.deviations.values()]
+          .sort((a, b) => b.publishedTime - a.publishedTime)
+          .map((deviation) => this.transformDeviation(deviation)),
+        request
+      );
+    }
+
+    return notFound();
+  }
+
+  private authorize(request: ParsedRequest): FakeResponse {
+    const redirectUri = request.url.searchParams.get('redirect_uri');
+    // Auto-approve as the most recently created user (or the one requested via ?userid=)
+    const userid =
+      request.url.searchParams.get('userid') ?? [...this.users.keys()][this.users.size - 1];
+
+    if (!redirectUri || !userid) {
+      return { status: 400, body: { error: 'invalid_request' } };
+    }
+
+    const redirect = new URL(redirectUri);
+    redirect.searchParams.set('code', this.createAuthorizationCode(userid));
+    return { status: 302, redirect: redirect.toString() };
+  }
+
+  private token(request: ParsedRequest): FakeResponse {
+    const grantType = field(request, 'grant_type');
+    let userid: string | undefined;
+
+    if (grantType === 'authorization_code') {
+      const code = field(request, 'code') ?? '';
+      userid = this.authorizationCodes.get(code);
+      this.authorizationCodes.delete(code);
+    } else if (grantType === 'refresh_token') {
+      userid = this.refreshTokens.get(field(request, 'refresh_token') ?? '');
+    }
+
+    if (!userid) {
+      return {
+        status: 401,
+        body: { error: 'invalid_grant', error_description: 'Invalid or expired token.' },
+      };
+    }
+
+    const user = this.requireUser(userid);
+    this.rotateTokens(user);
+
+    return ok({
+      access_token: user.accessToken,
+      refresh_token: user.refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      token_type: 'Bearer',
+    });
+  }
+
+  private stashSubmit(user: FakeDeviantArtUser, request: ParsedRequest): FakeResponse {
+    const title = field(request, 'title');
+    if (!title) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'title' } };
+    }
+
+    const item: FakeStashItem = {
+      itemid: this.nextId(),
+      stackid: this.nextId(),
+      userid: user.userid,
+      title,
+      filename: request.filename,
+      fields: Object.fromEntries(
+        Object.entries(request.fields).map(([key, value]) => [key, String(value)])
+      ),
+    };
+    this.stash.set(item.itemid, item);
+
+    return ok({ itemid: Number(item.itemid), stackid: Number(item.stackid) });
+  }
+
+  private stashPublish(user: FakeDeviantArtUser, request: ParsedRequest): FakeResponse {
+    const item = this.stash.get(field(request, 'itemid') ?? '');
+    if (!item || item.userid !== user.userid) {
+      return {
+        status: 400,
+        body: { error: 'invalid_request', error_description: 'Invalid itemid.' },
+      };
+    }
+
+    const galleryIds = request.form.getAll('galleryids[]');
+    const deviation: FakeDeviation = {
+      deviationid: randomUUID().toUpperCase(),
+      url: '',
+      title: item.title,
+      description: item.fields.artist_comments ?? '',
+      userid: user.userid,
+      itemid: item.itemid,
+      tags: request.form.getAll('tags[]'),
+      galleryIds,
+      isMature: field(request, 'is_mature') === 'true',
+      publishedTime: Math.floor(Date.now() / 1000),
+    };
+    deviation.url = `${this.baseUrl}/${user.username}/art/${slugify(item.title)}-${deviation.itemid}`;
+    this.deviations.set(deviation.deviationid, deviation);
+    this.stash.delete(item.itemid);
+
+    // Publishing without explicit galleries lands in Featured, like DeviantArt
+    const targetFolders = galleryIds.length
+      ? galleryIds.map((id) => this.folders.get(id)).filter((folder) => !!folder)
+      : [...this.folders.values()].filter(
+          (folder) => folder.userid === user.userid && folder.name === 'Featured'
+        );
+    for (const folder of targetFolders) {
+      folder.deviationIds.push(deviation.deviationid);
+    }
+
+    return ok({ deviationid: deviation.deviationid, url: deviation.url });
+  }
+
+  private editDeviation(
+    user: FakeDeviantArtUser,
+    deviationId: string,
+    request: ParsedRequest
+  ): FakeResponse {
+    const deviation = this.deviations.get(deviationId);
+    if (!deviation || deviation.userid !== user.userid) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'deviationid' } };
+    }
+
+    const title = field(request, 'title');
+    const description = field(request, 'artist_comments');
+    const tags = request.form.getAll('tags[]');
+    if (title !== undefined) deviation.title = title;
+    if (description !== undefined) deviation.description = description;
+    if (tags.length > 0) deviation.tags = tags;
+
+    return ok({ success: true, deviationid: deviation.deviationid });
+  }
+
+  private addToFolder(
+    user: FakeDeviantArtUser,
+    request: ParsedRequest,
+    move: boolean
+  ): FakeResponse {
+    const target = this.folders.get(field(request, 'target_folderid') ?? '');
+    if (!target || target.userid !== user.userid) {
+      return {
+        status: 400,
+        body: { error: 'invalid_request', error_description: 'target_folderid' },
+      };
+    }
+
+    const deviations = request.form.getAll('deviationids[]').map((id) => this.deviations.get(id));
+    if (deviations.length === 0 || deviations.some((d) => !d || d.userid !== user.userid)) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'deviationids' } };
+    }
+
+    for (const deviation of deviations as FakeDeviation[]) {
+      if (move) {
+        for (const folder of this.folders.values()) {
+          if (folder !== target) {
+            folder.deviationIds = folder.deviationIds.filter((id) => id !== deviation.deviationid);
+          }
+        }
+        deviation.galleryIds = [];
+      }
+      if (!target.deviationIds.includes(deviation.deviationid)) {
+        target.deviationIds.push(deviation.deviationid);
+      }
+      if (!deviation.galleryIds.includes(target.folderid)) {
+        deviation.galleryIds.push(target.folderid);
+      }
+    }
+
+    return ok({ success: true });
+  }
+
+  private postComment(
+    user: FakeDeviantArtUser,
+    deviationId: string,
+    request: ParsedRequest
+  ): FakeResponse {
+    const body = field(request, 'body');
+    if (!this.deviations.has(deviationId)) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'deviationid' } };
+    }
+    if (!body) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'body' } };
+    }
+
+    const comment: FakeComment = {
+      commentid: randomUUID().toUpperCase(),
+      deviationid: deviationId,
+      userid: user.userid,
+      body,
+    };
+    this.comments.set(comment.commentid, comment);
+
+    return ok({
+      commentid: comment.commentid,
+      body: comment.body,
+      posted: new Date().toISOString(),
+      user: { userid: user.userid, username: user.username, usericon: user.usericon },
+    });
+  }
+
+  private listFolders(user: FakeDeviantArtUser, request: ParsedRequest): FakeResponse {
+    const folders = [...this.folders.values()]
+      .filter((folder) => folder.userid === user.userid)
+      .map((folder) => transformFolder(folder, this.deviations));
+    return paginate(folders, request);
+  }
+
+  private folderContents(
+    user: FakeDeviantArtUser,
+    folderId: string,
+    request: ParsedRequest
+  ): FakeResponse {
+    const folder = this.folders.get(folderId);
+    if (!folder || folder.userid !== user.userid) {
+      return { status: 400, body: { error: 'invalid_request', error_description: 'folderid' } };
+    }
+
+    const deviations = folder.deviationIds
+      .map((id) => this.deviations.get(id))
+      .filter((deviation) => !!deviation)
+      .map((deviation) => this.transformDeviation(deviation));
+    return paginate(deviations, request);
+  }
+
+  private transformDeviation(deviation: FakeDeviation) {
+    const author = this.users.get(deviation.userid);
+    const src = `${this.baseUrl}/images/${deviation.deviationid}.png`;
+    return {
+      deviationid: deviation.deviationid,
+      url: deviation.url,
+      title: deviation.title,
+      is_mature: deviation.isMature,
+      published_time: String(deviation.publishedTime),
+      author: author
+        ? { userid: author.userid, username: author.username, usericon: author.usericon }
+        : null,
+      stats: { comments: 0, favourites: 0 },
+      preview: { src, width: 1200, height: 800 },
+      content: { src, width: 1200, height: 800 },
+      thumbs: [{ src, width: 300, height: 200 }],
+    };
+  }
+
+  private authenticate(request: ParsedRequest): FakeDeviantArtUser | undefined {
+    const header = request.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : request.url.searchParams.get('access_token');
+    const userid = token ? this.accessTokens.get(token) : undefined;
+    return userid ? this.users.get(userid) : undefined;
+  }
+
+  private rotateTokens(user: FakeDeviantArtUser): void {
+    this.accessTokens.delete(user.accessToken);
+    this.refreshTokens.delete(user.refreshToken);
+
+    user.accessToken = `access-${randomUUID()}`;
+    user.refreshToken = `refresh-${randomUUID()}`;
+    this.accessTokens.set(user.accessToken, user.userid);
+    this.refreshTokens.set(user.refreshToken, user.userid);
+  }
+
+  private requireUser(userid: string): FakeDeviantArtUser {
+    const user = this.users.get(userid);
+    if (!user) {
+      throw new Error(`Unknown fake DeviantArt user: ${userid}`);
+    }
+    return user;
+  }
+
+  private nextId(): string {
+    return String(++this.sequence);
+  }
+}
+
+async function parseRequest(req: IncomingMessage, baseUrl: string): Promise<ParsedRequest> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks);
+  const contentType = req.headers['content-type'] ?? '';
+  const url = new URL(req.url ?? '/', baseUrl);
+
+  let form = new URLSearchParams();
+  let filename: string | null = null;
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const multipart = parseMultipart(raw, contentType);
+    form = multipart.form;
+    filename = multipart.filename;
+  } else if (contentType.startsWith('application/json') && raw.length > 0) {
+    const json = JSON.parse(raw.toString('utf8')) as Record<string, unknown>;
+    for (const [key, value] of Object.entries(json)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        form.append(key, String(item));
+      }
+    }
+  } else if (raw.length > 0) {
+    form = new URLSearchParams(raw.toString('utf8'));
+  }
+
+  const fields: Record<string, string | string[]> = {};
+  for (const key of new Set(form.keys())) {
+    const values = form.getAll(key);
+    fields[key] = values.length > 1 || key.endsWith('[]') ? values : values[0];
+  }
+
+  return {
+    method: (req.method ?? 'GET').toUpperCase(),
+    path: url.pathname,
+    url,
+    headers: req.headers,
+    form,
+    fields,
+    filename,
+  };
+}
+
+/**
+ * Minimal multipart/form-data parser - text fields plus the uploaded file's name
+ */
+function parseMultipart(
+  raw: Buffer,
+  contentType: string
+): { form: URLSearchParams; filename: string | null } {
+  const form = new URLSearchParams();
+  let filename: string | null = null;
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) {
+    return { form, filename };
+  }
+
+  const delimiter = `--${boundary[1] ?? boundary[2]}`;
+  for (const part of raw.toString('latin1').split(delimiter)) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) continue;
+
+    const headers = part.slice(0, headerEnd);
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    if (!name) continue;
+
+    const file = /filename="([^"]*)"/.exec(headers);
+    if (file) {
+      filename = file[1];
+      continue;
+    }
+
+    const value = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+    form.append(name, Buffer.from(value, 'latin1').toString('utf8'));
+  }
+
+  return { form, filename };
+}
+
+function field(request: ParsedRequest, name: string): string | undefined {
+  return request.form.get(name) ?? undefined;
+}
+
+function paginate<T>(items: T[], request: ParsedRequest): FakeResponse {
+  const offset = parseInt(request.url.searchParams.get('offset') ?? '0', 10);
+  const limit = parseInt(request.url.searchParams.get('limit') ?? '10', 10);
+  const results = items.slice(offset, offset + limit);
+  const hasMore = offset + limit < items.length;
+
+  return ok({ results, has_more: hasMore, next_offset: hasMore ? offset + limit : null });
+}
+
+function transformFolder(folder: FakeGalleryFolder, deviations: Map<string, FakeDeviation>) {
+  return {
+    folderid: folder.folderid,
+    parent: folder.parent,
+    name: folder.name,
+    description: folder.description,
+    size: folder.deviationIds.length,
+    deviations: folder.deviationIds
+      .map((id) => deviations.get(id))
+      .filter((deviation) => !!deviation)
+      .map((deviation) => ({ deviationid: deviation.deviationid, title: deviation.title })),
+  };
+}
+
+function ok(body: Record<string, unknown>): FakeResponse {
+  return { status: 200, body: { status: 'success', ...body } };
+}
+
+function notFound(): FakeResponse {
+  return { status: 404, body: { error: 'invalid_request', error_description: 'Unknown endpoint' } };
+}
+
+function defaultFaultBody(status: number) {
+  if (status === 401) {
+    return { error: 'invalid_token', error_description: 'Expired oAuth2 user token.' };
+  }
+  if (status === 429) {
+    return { error: 'user_api_threshold', error_description: 'User API threshold exceeded' };
+  }
+  return { error: 'server_error', error_description: `Fake DeviantArt error ${status}` };
+}
+
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
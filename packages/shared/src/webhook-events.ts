@@ -0,0 +1,36 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Webhook event names.
+ *
+ * Kept apart from webhooks.ts, which needs Node's crypto, so the frontend can
+ * import them through `@isekai/shared/browser`.
+ */
+
+export const WebhookEvent = {
+  DEVIATION_PUBLISHED: 'deviation.published',
+  DEVIATION_FAILED: 'deviation.failed',
+  AUTOMATION_EXECUTED: 'automation.executed',
+  AUTOMATION_POOL_LOW: 'automation.pool_low',
+  AUTOMATION_PAUSED: 'automation.paused',
+  SALE_QUEUE_COMPLETED: 'sale_queue.completed',
+  REVIEW_CREATED: 'review.created',
+} as const;
+export type WebhookEvent = (typeof WebhookEvent)[keyof typeof WebhookEvent];
+
+export const WEBHOOK_EVENTS = Object.values(WebhookEvent) as [WebhookEvent, ...WebhookEvent[]];
@@ -0,0 +1,202 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createHmac } from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(),
+}));
+
+import { lookup } from 'dns/promises';
+import {
+  dispatchWebhookEvent,
+  checkWebhookUrl,
+  generateWebhookSecret,
+  getWebhookUrlError,
+  signWebhookPayload,
+} from './webhooks.js';
+
+describe('webhooks', () => {
+  describe('getWebhookUrlError', () => {
+    beforeEach(() => {
+      vi.mocked(lookup).mockReset();
+    });
+
+    it('should allow hosts resolving to public addresses', async () => {
+      vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+      expect(await getWebhookUrlError('https://example.com/hook')).toBeNull();
+      expect(lookup).toHaveBeenCalledWith('example.com', { all: true });
+    });
+
+    it.each([
+      'http://127.0.0.1:4000/',
+      'http://10.1.2.3/',
+      'http://172.16.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/latest/meta-data',
+      'http://0.0.0.0/',
+      'http://[::1]/',
+      'http://[fd12::1]/',
+      'http://[fe80::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://2130706433/',
+    ])('should reject %s', async (url) => {
+      expect(await getWebhookUrlError(url)).toBe(
+        'URL must not point to a private or local address'
+      );
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should reject hosts with any private address', async () => {
+      vi.mocked(lookup).mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '::1', family: 6 },
+      ] as any);
+
+      expect(await getWebhookUrlError('https://internal.example.com/')).toBe(
+        'URL must not point to a private or local address'
+      );
+    });
+
+    it('should reject hosts that do not resolve', async () => {
+      vi.mocked(lookup).mockRejectedValue(new Error('ENOTFOUND'));
+
+      expect(await getWebhookUrlError('https://nope.invalid/')).toBe(
+        'Could not resolve host nope.invalid'
+      );
+    });
+
+    it('should reject other protocols', async () => {
+      expect(await getWebhookUrlError('ftp://example.com/')).toBe('URL must use http or https');
+    });
+  });
+
+  describe('checkWebhookUrl', () => {
+    beforeEach(() => {
+      vi.mocked(lookup).mockReset();
+    });
+
+    it('should mark a failed lookup as transient', async () => {
+      vi.mocked(lookup).mockRejectedValue(new Error('EAI_AGAIN'));
+
+      expect(await checkWebhookUrl('https://example.com/hook')).toEqual({
+        error: 'Could not resolve host example.com',
+        transient: true,
+      });
+    });
+
+    it('should not mark a private address as transient', async () => {
+      vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as any);
+
+      expect(await checkWebhookUrl('https://example.com/hook')).toEqual({
+        error: 'URL must not point to a private or local address',
+        transient: false,
+      });
+    });
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const expected = createHmac('sha256', 'whsec_test')
+        .update('1700000000.{"a":1}')
+        .digest('hex');
+
+      expect(signWebhookPayload('whsec_test', 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+    });
+
+    it('should generate distinct prefixed secrets', () => {
+      const secret = generateWebhookSecret();
+
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('dispatchWebhookEvent', () => {
+    let prisma: any;
+    let queueDelivery: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      prisma = {
+        webhook: { findMany: vi.fn() },
+        webhookDelivery: { create: vi.fn() },
+      };
+      queueDelivery = vi.fn().mockResolvedValue(undefined);
+    });
+
+    it('should create and queue a delivery per subscribed webhook', async () => {
+      prisma.webhook.findMany.mockResolvedValue([{ id: 'hook-1' }, { id: 'hook-2' }]);
+      prisma.webhookDelivery.create
+        .mockResolvedValueOnce({ id: 'delivery-1' })
+        .mockResolvedValueOnce({ id: 'delivery-2' });
+
+      const ids = await dispatchWebhookEvent(prisma, queueDelivery, {
+        userId: 'user-1',
+        event: 'deviation.published',
+        data: { deviationId: 'dev-1', publishedAt: new Date('2025-01-01T00:00:00Z') },
+      });
+
+      expect(ids).toEqual(['delivery-1', 'delivery-2']);
+      expect(prisma.webhook.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', enabled: true, events: { has: 'deviation.published' } },
+        select: { id: true },
+      });
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: {
+          webhookId: 'hook-1',
+          event: 'deviation.published',
+          payload: {
+            event: 'deviation.published',
+            createdAt: expect.any(String),
+            data: { deviationId: 'dev-1', publishedAt: '2025-01-01T00:00:00.000Z' },
+          },
+        },
+      });
+      expect(queueDelivery).toHaveBeenCalledWith('delivery-2');
+    });
+
+    it('should do nothing without subscriptions', async () => {
+      prisma.webhook.findMany.mockResolvedValue([]);
+
+      const ids = await dispatchWebhookEvent(prisma, queueDelivery, {
+        userId: 'user-1',
+        event: 'review.created',
+        data: {},
+      });
+
+      expect(ids).toEqual([]);
+      expect(prisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+
+    it('should never throw', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      prisma.webhook.findMany.mockRejectedValue(new Error('DB down'));
+
+      await expect(
+        dispatchWebhookEvent(prisma, queueDelivery, {
+          userId: 'user-1',
+          event: 'review.created',
+          data: {},
+        })
+      ).resolves.toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+});
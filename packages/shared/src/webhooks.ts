@@ -0,0 +1,213 @@
+/*
+ * Copyright (C) 2025 Isekai
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Outbound user webhooks.
+ *
+ * Users subscribe a URL to events such as deviation.published. Each event creates
+ * one WebhookDelivery row per matching subscription, which is then sent by the
+ * webhook-delivery BullMQ queue with an HMAC signature and retried with backoff.
+ *
+ * Dispatching is best-effort: a failure is logged and never breaks the operation
+ * that emitted the event.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { PrismaClient } from '@prisma/client';
+import type { WebhookEvent } from './webhook-events.js';
+
+export { WebhookEvent, WEBHOOK_EVENTS } from './webhook-events.js';
+
+// Request headers sent with every delivery
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Isekai-Event',
+  DELIVERY: 'X-Isekai-Delivery',
+  TIMESTAMP: 'X-Isekai-Timestamp',
+  SIGNATURE: 'X-Isekai-Signature',
+} as const;
+
+/**
+ * Stored delivery payload; the request body adds the delivery ID as `id`
+ */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Generate a new signing secret (shown to the user once, stored encrypted)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a request body
+ *
+ * The signature covers the timestamp so receivers can reject replayed requests:
+ * HMAC-SHA256(secret, `${timestamp}.${body}`), sent as `sha256=<hex>`.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+// Addresses a webhook may not point to: loopback, private, link-local, unique-local
+// and other non-routable ranges. IPv4-mapped IPv6 addresses match the IPv4 rules.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  return blockedAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+export interface WebhookUrlCheck {
+  error: string;
+  // A failed DNS lookup may work on the next try; everything else stays rejected
+  transient: boolean;
+}
+
+/**
+ * Check that a webhook URL doesn't reach into the server's own network
+ *
+ * Resolves the host and rejects it if any address is loopback, private,
+ * link-local or unique-local. Runs when a webhook is saved and again before every
+ * delivery, since the DNS record can change in between.
+ *
+ * @returns Why the URL may not be called, or null if it may
+ */
+export async function checkWebhookUrl(url: string): Promise<WebhookUrlCheck | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { error: 'Invalid URL', transient: false };
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { error: 'URL must use http or https', transient: false };
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      return { error: `Could not resolve host ${host}`, transient: true };
+    }
+  }
+
+  if (addresses.some(isBlockedAddress)) {
+    return { error: 'URL must not point to a private or local address', transient: false };
+  }
+
+  return null;
+}
+
+/**
+ * Error message of checkWebhookUrl(), or null if the URL may be called
+ */
+export async function getWebhookUrlError(url: string): Promise<string | null> {
+  return (await checkWebhookUrl(url))?.error ?? null;
+}
+
+/**
+ * Minimal Prisma surface needed to create deliveries
+ */
+interface WebhookStore {
+  webhook: Pick<PrismaClient['webhook'], 'findMany'>;
+  webhookDelivery: Pick<PrismaClient['webhookDelivery'], 'create'>;
+}
+
+export interface WebhookEventInput {
+  userId: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Create a delivery for every enabled subscription of the user to this event
+ * and hand each one to the delivery queue
+ *
+ * @param prisma - Prisma client
+ * @param queueDelivery - Adds a delivery to the webhook-delivery queue
+ * @param input - Owner, event and event data
+ * @returns IDs of the created deliveries
+ */
+export async function dispatchWebhookEvent(
+  prisma: WebhookStore,
+  queueDelivery: (deliveryId: string) => Promise<void>,
+  input: WebhookEventInput
+): Promise<string[]> {
+  const deliveryIds: string[] = [];
+
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { userId: input.userId, enabled: true, events: { has: input.event } },
+      select: { id: true },
+    });
+
+    if (webhooks.length === 0) {
+      return deliveryIds;
+    }
+
+    const payload: WebhookPayload = {
+      event: input.event,
+      createdAt: new Date().toISOString(),
+      // Round-trip through JSON so Dates become ISO strings and undefined fields are dropped
+      data: JSON.parse(JSON.stringify(input.data)),
+    };
+
+    for (const webhook of webhooks) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: { webhookId: webhook.id, event: input.event, payload: payload as any },
+      });
+      deliveryIds.push(delivery.id);
+      await queueDelivery(delivery.id);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to dispatch ${input.event}:`, error);
+  }
+
+  return deliveryIds;
+}